@@ -0,0 +1,39 @@
+Feature: Batch operations
+  Callers apply an ordered list of operations with archimate_batch: creating
+  elements, relationships, and views, adding to views, updating, and
+  deleting. Operations name what they create with temp IDs that later
+  operations use in place of the generated IDs. The batch is applied as one
+  change: all of its operations or none of them.
+
+  Background:
+    Given a current model with a BusinessProcess "Invoice"
+
+  Scenario: Later operations refer to temp IDs
+    When the caller invokes archimate_batch creating an ApplicationComponent "Billing" as "billing", a Serving relationship from "billing" to "Invoice", and an update renaming "billing" to "Billing Service"
+    Then the response maps "billing" to the generated ID of the new element
+    And the model has an ApplicationComponent "Billing Service" serving "Invoice"
+
+  Scenario: A failing operation leaves the model unchanged
+    When the caller invokes archimate_batch creating an ApplicationComponent "Billing" as "billing" and a Composition relationship from "billing" to "Invoice"
+    Then the response reports that operation 2 failed and no operation was applied
+    And the model has no element "Billing"
+
+  Scenario: An unknown element type fails the batch before it runs
+    When the caller invokes archimate_batch creating an element of type "Database"
+    Then the response reports that operation 1 failed because the element type is unknown
+
+  Scenario: An operation on an unknown ID rolls back the whole batch
+    When the caller invokes archimate_batch creating an ApplicationComponent "Billing" as "billing", renaming "Invoice" to "Invoicing", and renaming "typo" to "Ghost"
+    Then the response reports that operation 3 failed because element "typo" was not found
+    And the model has no element "Billing" and "Invoice" keeps its name
+    And the model has no undo entry
+
+  Scenario: An empty batch is rejected
+    When the caller invokes archimate_batch with no operations
+    Then the response says operations must be a non-empty array
+    And the model has no undo entry
+
+  Scenario: Undo reverts the whole batch
+    Given the caller invoked archimate_batch creating ApplicationComponents "Billing" and "Ledger" and a Flow relationship between them
+    When the caller invokes archimate_undo
+    Then the model has only "Invoice" and no relationships
@@ -0,0 +1,198 @@
+import { loadFeature, describeFeature } from '@amiceli/vitest-cucumber';
+import { expect } from 'vitest';
+import { runBatch, type BatchOperation, type BatchResult } from '../src/model/batch.js';
+import {
+  ModelHistory,
+  addElementCommand,
+  addRelationshipCommand,
+  replaceModelCommand,
+  updateElementCommand,
+} from '../src/model/history.js';
+import { generateId } from '../src/model/writer.js';
+import { getAllElements, getElementById, getRelationshipEnd } from '../src/model/parser.js';
+import { validateRelationship } from '../src/relationships/validation.js';
+import {
+  createEmptyModel,
+  createElement,
+  addElementToModel,
+  resetIdCounter,
+} from '../src/__tests__/fixtures/sample-model.js';
+import type { ArchiMateElement, ArchiMateModel, ElementType, RelationshipType } from '../src/model/types.js';
+
+const feature = await loadFeature('./features/batch-operations.feature');
+
+/**
+ * Step bindings run the same steps as the archimate_batch handler in
+ * src/index.ts: runBatch calls the tools on a scratch copy of the model, and
+ * the copy replaces the model in one replaceModelCommand when every operation
+ * succeeds. `run` stands in for the element, relationship, and update tool
+ * handlers, with their responses.
+ */
+describeFeature(feature, ({ Background, Scenario }) => {
+  let model: ArchiMateModel;
+  let invoice: ArchiMateElement;
+  let history: ModelHistory;
+  let result: BatchResult;
+
+  async function batch(operations: BatchOperation[]): Promise<void> {
+    const scratch = structuredClone(model);
+    const scratchHistory = new ModelHistory();
+    const run = async (tool: string, args: Record<string, unknown>): Promise<string> => {
+      switch (tool) {
+        case 'archimate_create_business_element': {
+          const element = { id: generateId(), type: args.element_type as ElementType, name: args.name as string };
+          scratchHistory.execute(scratch, addElementCommand(element));
+          return JSON.stringify({ message: 'Element created successfully', element });
+        }
+        case 'archimate_create_relationship': {
+          const source = getRelationshipEnd(scratch, args.source_id as string);
+          const target = getRelationshipEnd(scratch, args.target_id as string);
+          if (!source || !target) return 'Error: Source or target not found';
+          const type = args.relationship_type as RelationshipType;
+          const validation = validateRelationship(source.type, target.type, type);
+          if (!validation.valid) return JSON.stringify({ error: validation.error, suggestions: validation.suggestions });
+          const relationship = { id: generateId(), type, sourceId: source.id, targetId: target.id };
+          scratchHistory.execute(scratch, addRelationshipCommand(relationship));
+          return JSON.stringify({ message: 'Relationship created successfully', relationship });
+        }
+        case 'archimate_update_element':
+          scratchHistory.execute(scratch, updateElementCommand(args.element_id as string, { name: args.name as string }));
+          return JSON.stringify({ message: 'Element updated successfully' });
+        default:
+          return `Error: Unknown tool: ${tool}`;
+      }
+    };
+
+    result = await runBatch(model, operations, run);
+    if (!result.failure) {
+      history.execute(model, replaceModelCommand(`Batch of ${operations.length} operation(s)`, scratch));
+    }
+  }
+
+  Background(({ Given }) => {
+    Given('a current model with a BusinessProcess "Invoice"', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      invoice = createElement('BusinessProcess', 'Invoice');
+      addElementToModel(model, invoice);
+      history = new ModelHistory();
+    });
+  });
+
+  Scenario('Later operations refer to temp IDs', ({ When, Then, And }) => {
+    When('the caller invokes archimate_batch creating an ApplicationComponent "Billing" as "billing", a Serving relationship from "billing" to "Invoice", and an update renaming "billing" to "Billing Service"', async () => {
+      await batch([
+        { op: 'create_element', temp_id: 'billing', element_type: 'ApplicationComponent', name: 'Billing' },
+        { op: 'create_relationship', relationship_type: 'Serving', source_id: 'billing', target_id: invoice.id },
+        { op: 'update_element', element_id: 'billing', name: 'Billing Service' },
+      ]);
+    });
+
+    Then('the response maps "billing" to the generated ID of the new element', () => {
+      expect(result.failure).toBeUndefined();
+      expect(result.steps.map((s) => s.op)).toEqual(['create_element', 'create_relationship', 'update_element']);
+      expect(result.steps[0]).toMatchObject({ index: 1, tempId: 'billing', id: result.ids.billing });
+      expect(getElementById(model, result.ids.billing)?.type).toBe('ApplicationComponent');
+    });
+
+    And('the model has an ApplicationComponent "Billing Service" serving "Invoice"', () => {
+      expect(getElementById(model, result.ids.billing)?.name).toBe('Billing Service');
+      expect(model.relationships).toMatchObject([
+        { type: 'Serving', sourceId: result.ids.billing, targetId: invoice.id },
+      ]);
+    });
+  });
+
+  Scenario('A failing operation leaves the model unchanged', ({ When, Then, And }) => {
+    When('the caller invokes archimate_batch creating an ApplicationComponent "Billing" as "billing" and a Composition relationship from "billing" to "Invoice"', async () => {
+      await batch([
+        { op: 'create_element', temp_id: 'billing', element_type: 'ApplicationComponent', name: 'Billing' },
+        { op: 'create_relationship', relationship_type: 'Composition', source_id: 'billing', target_id: invoice.id },
+      ]);
+    });
+
+    Then('the response reports that operation 2 failed and no operation was applied', () => {
+      expect(result.failure).toMatchObject({ index: 2, op: 'create_relationship' });
+      expect(result.failure?.details).toHaveProperty('suggestions');
+      expect(result.steps).toHaveLength(1);
+      expect(history.canUndo()).toBe(false);
+    });
+
+    And('the model has no element "Billing"', () => {
+      expect(getAllElements(model).map((e) => e.name)).toEqual(['Invoice']);
+      expect(model.relationships).toEqual([]);
+    });
+  });
+
+  Scenario('An unknown element type fails the batch before it runs', ({ When, Then }) => {
+    When('the caller invokes archimate_batch creating an element of type "Database"', async () => {
+      await batch([{ op: 'create_element', element_type: 'Database', name: 'Orders' }]);
+    });
+
+    Then('the response reports that operation 1 failed because the element type is unknown', () => {
+      expect(result.failure).toEqual({ index: 1, op: 'create_element', error: 'Unknown element type "Database"' });
+      expect(getAllElements(model)).toEqual([invoice]);
+    });
+  });
+
+  Scenario('An operation on an unknown ID rolls back the whole batch', ({ When, Then, And }) => {
+    When('the caller invokes archimate_batch creating an ApplicationComponent "Billing" as "billing", renaming "Invoice" to "Invoicing", and renaming "typo" to "Ghost"', async () => {
+      await batch([
+        { op: 'create_element', temp_id: 'billing', element_type: 'ApplicationComponent', name: 'Billing' },
+        { op: 'update_element', element_id: invoice.id, name: 'Invoicing' },
+        { op: 'update_element', element_id: 'typo', name: 'Ghost' },
+      ]);
+    });
+
+    Then('the response reports that operation 3 failed because element "typo" was not found', () => {
+      expect(result.failure).toEqual({ index: 3, op: 'update_element', error: 'Element not found: typo' });
+    });
+
+    And('the model has no element "Billing" and "Invoice" keeps its name', () => {
+      expect(getAllElements(model)).toEqual([invoice]);
+      expect(invoice.name).toBe('Invoice');
+    });
+
+    And('the model has no undo entry', () => {
+      expect(history.canUndo()).toBe(false);
+    });
+  });
+
+  Scenario('An empty batch is rejected', ({ When, Then, And }) => {
+    let error: Error | undefined;
+
+    When('the caller invokes archimate_batch with no operations', async () => {
+      error = await batch([]).then(() => undefined, (e: Error) => e);
+    });
+
+    Then('the response says operations must be a non-empty array', () => {
+      expect(error?.message).toBe('operations must be a non-empty array of operations');
+    });
+
+    And('the model has no undo entry', () => {
+      expect(history.canUndo()).toBe(false);
+    });
+  });
+
+  Scenario('Undo reverts the whole batch', ({ Given, When, Then }) => {
+    Given('the caller invoked archimate_batch creating ApplicationComponents "Billing" and "Ledger" and a Flow relationship between them', async () => {
+      await batch([
+        { op: 'create_element', temp_id: 'billing', element_type: 'ApplicationComponent', name: 'Billing' },
+        { op: 'create_element', temp_id: 'ledger', element_type: 'ApplicationComponent', name: 'Ledger' },
+        { op: 'create_relationship', relationship_type: 'Flow', source_id: 'billing', target_id: 'ledger' },
+      ]);
+      expect(getAllElements(model)).toHaveLength(3);
+      expect(model.relationships).toHaveLength(1);
+    });
+
+    When('the caller invokes archimate_undo', () => {
+      history.undo(model);
+    });
+
+    Then('the model has only "Invoice" and no relationships', () => {
+      expect(getAllElements(model).map((e) => e.name)).toEqual(['Invoice']);
+      expect(model.relationships).toEqual([]);
+      expect(history.canUndo()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,38 @@
+Feature: Archi CSV import and export
+  Business users keep bulk inventories of elements, relationships, and
+  properties in spreadsheets, in the CSV format Archi reads and writes:
+  elements.csv, relations.csv, and properties.csv. Callers export a model to
+  those files and import them back, creating and updating concepts by ID.
+
+  Background:
+    Given a current model "Inventory" with an ApplicationComponent "CRM" with property "Owner" = "Sales", a BusinessActor "Customer", and a Serving relationship from "CRM" to "Customer"
+
+  Scenario: Export writes the three files in Archi's format
+    When the caller invokes archimate_export_csv with a directory and prefix "inv-"
+    Then inv-elements.csv starts with the header and the model row, followed by rows typed "BusinessActor" and "ApplicationComponent"
+    And inv-relations.csv has a "ServingRelationship" row from "CRM" to "Customer"
+    And inv-properties.csv has the row for "Owner" of "CRM"
+
+  Scenario: Import creates new concepts and updates existing ones by ID
+    Given CSV files renaming "CRM" to "CRM Suite", adding an ApplicationService "Customer Lookup" realized by "CRM Suite", and setting "Owner" of "CRM" to "Marketing"
+    When the caller invokes archimate_import_csv with the directory
+    Then the response counts 1 element created, 1 updated, 1 relationship created, and 1 property set
+    And "CRM" keeps its ID with name "CRM Suite" and property "Owner" = "Marketing"
+    And the model has a Realization relationship from "CRM Suite" to "Customer Lookup"
+
+  Scenario: Invalid rows are reported and nothing is imported
+    Given CSV files with an element of type "Database", a Composition from "Customer" to "CRM", and a property for an unknown ID
+    When the caller invokes archimate_import_csv with the directory
+    Then the response lists one error for each of the three rows, with its file and row number
+    And the model is unchanged
+
+  Scenario: Exported files import into an empty model
+    When the caller exports the model to CSV and imports the files into a new empty model
+    Then the new model has the same elements, relationships, and properties with the same IDs
+    And the new model is named "Inventory"
+
+  Scenario: Undo reverts an import
+    Given CSV files renaming "CRM" to "CRM Suite", adding an ApplicationService "Customer Lookup" realized by "CRM Suite", and setting "Owner" of "CRM" to "Marketing"
+    When the caller invokes archimate_import_csv with the directory
+    And invokes archimate_undo
+    Then "CRM" is named "CRM" with property "Owner" = "Sales" and the model has no "Customer Lookup"
@@ -0,0 +1,225 @@
+import { loadFeature, describeFeature } from '@amiceli/vitest-cucumber';
+import { expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { applyCsvImport, checkCsvImport, readCsvFiles, type CsvImport, type CsvImportSummary } from '../src/csv/csv-reader.js';
+import { saveArchiCsv } from '../src/csv/csv-writer.js';
+import { ModelHistory, editModelCommand } from '../src/model/history.js';
+import { addRelationshipToModel } from '../src/model/writer.js';
+import { getAllElements } from '../src/model/parser.js';
+import { getModelIndex } from '../src/model/model-index.js';
+import {
+  createEmptyModel,
+  createElement,
+  createRelationship,
+  addElementToModel,
+  resetIdCounter,
+} from '../src/__tests__/fixtures/sample-model.js';
+import type { ArchiMateElement, ArchiMateModel, ArchiMateRelationship } from '../src/model/types.js';
+
+const feature = await loadFeature('./features/csv-import-export.feature');
+
+/**
+ * Step bindings run the same steps as the CSV tool handlers in src/index.ts:
+ * export saves the files with saveArchiCsv, and import reads and checks them
+ * with readCsvFiles and checkCsvImport, then applies them in one
+ * editModelCommand when no row is invalid.
+ */
+describeFeature(feature, ({ Background, Scenario }) => {
+  let model: ArchiMateModel;
+  let crm: ArchiMateElement;
+  let customer: ArchiMateElement;
+  let serving: ArchiMateRelationship;
+  let history: ModelHistory;
+  let directory: string;
+  let csv: CsvImport;
+  let summary: CsvImportSummary | undefined;
+
+  function writeFiles(files: Record<string, string>): void {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'archi-csv-'));
+    for (const [name, content] of Object.entries(files)) {
+      fs.writeFileSync(path.join(directory, name), content);
+    }
+  }
+
+  async function importCsv(into: ArchiMateModel): Promise<void> {
+    csv = checkCsvImport(into, await readCsvFiles(directory));
+    summary = undefined;
+    if (csv.errors.length === 0) {
+      history.execute(into, editModelCommand(`Import CSV from ${directory}`, (m) => {
+        summary = applyCsvImport(m, csv);
+      }));
+    }
+  }
+
+  const editFiles = () => writeFiles({
+    'elements.csv': [
+      '"ID","Type","Name","Documentation","Specialization"',
+      `"${crm.id}","ApplicationComponent","CRM Suite","",""`,
+      '"lookup","ApplicationService","Customer Lookup","Finds customers by name",""',
+    ].join('\r\n'),
+    'relations.csv': [
+      '"ID","Type","Name","Documentation","Source","Target","Specialization"',
+      `"","RealizationRelationship","","","${crm.id}","lookup",""`,
+    ].join('\r\n'),
+    'properties.csv': [
+      '"ID","Key","Value"',
+      `"${crm.id}","Owner","Marketing"`,
+    ].join('\r\n'),
+  });
+
+  Background(({ Given }) => {
+    Given('a current model "Inventory" with an ApplicationComponent "CRM" with property "Owner" = "Sales", a BusinessActor "Customer", and a Serving relationship from "CRM" to "Customer"', () => {
+      resetIdCounter();
+      model = createEmptyModel('Inventory');
+      crm = createElement('ApplicationComponent', 'CRM');
+      crm.properties = [{ key: 'Owner', value: 'Sales' }];
+      customer = createElement('BusinessActor', 'Customer');
+      addElementToModel(model, crm);
+      addElementToModel(model, customer);
+      serving = createRelationship('Serving', crm.id, customer.id);
+      addRelationshipToModel(model, serving);
+      history = new ModelHistory();
+    });
+  });
+
+  Scenario('Export writes the three files in Archi\'s format', ({ When, Then, And }) => {
+    const read = (name: string) => fs.readFileSync(path.join(directory, name), 'utf-8').split('\r\n');
+
+    When('the caller invokes archimate_export_csv with a directory and prefix "inv-"', async () => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'archi-csv-'));
+      const files = await saveArchiCsv(model, directory, 'inv-');
+      expect(files.map((f) => path.basename(f))).toEqual(['inv-elements.csv', 'inv-relations.csv', 'inv-properties.csv']);
+    });
+
+    Then('inv-elements.csv starts with the header and the model row, followed by rows typed "BusinessActor" and "ApplicationComponent"', () => {
+      expect(read('inv-elements.csv')).toEqual([
+        '"ID","Type","Name","Documentation","Specialization"',
+        `"${model.id}","ArchimateModel","Inventory","Test model for unit tests",""`,
+        `"${customer.id}","BusinessActor","Customer","",""`,
+        `"${crm.id}","ApplicationComponent","CRM","",""`,
+        '',
+      ]);
+    });
+
+    And('inv-relations.csv has a "ServingRelationship" row from "CRM" to "Customer"', () => {
+      expect(read('inv-relations.csv')[1]).toBe(`"${serving.id}","ServingRelationship","","","${crm.id}","${customer.id}",""`);
+    });
+
+    And('inv-properties.csv has the row for "Owner" of "CRM"', () => {
+      expect(read('inv-properties.csv').slice(0, 2)).toEqual(['"ID","Key","Value"', `"${crm.id}","Owner","Sales"`]);
+    });
+  });
+
+  Scenario('Import creates new concepts and updates existing ones by ID', ({ Given, When, Then, And }) => {
+    Given('CSV files renaming "CRM" to "CRM Suite", adding an ApplicationService "Customer Lookup" realized by "CRM Suite", and setting "Owner" of "CRM" to "Marketing"', editFiles);
+
+    When('the caller invokes archimate_import_csv with the directory', async () => {
+      await importCsv(model);
+    });
+
+    Then('the response counts 1 element created, 1 updated, 1 relationship created, and 1 property set', () => {
+      expect(csv.errors).toEqual([]);
+      expect(summary).toEqual({
+        elementsCreated: 1,
+        elementsUpdated: 1,
+        relationshipsCreated: 1,
+        relationshipsUpdated: 0,
+        propertiesSet: 1,
+      });
+    });
+
+    And('"CRM" keeps its ID with name "CRM Suite" and property "Owner" = "Marketing"', () => {
+      const updated = getModelIndex(model).getElement(crm.id);
+      expect(updated?.name).toBe('CRM Suite');
+      expect(updated?.properties).toEqual([{ key: 'Owner', value: 'Marketing' }]);
+    });
+
+    And('the model has a Realization relationship from "CRM Suite" to "Customer Lookup"', () => {
+      const lookup = getModelIndex(model).getElement('lookup');
+      expect(lookup).toMatchObject({ type: 'ApplicationService', name: 'Customer Lookup', documentation: 'Finds customers by name' });
+      expect(model.relationships.at(-1)).toMatchObject({ type: 'Realization', sourceId: crm.id, targetId: 'lookup' });
+    });
+  });
+
+  Scenario('Invalid rows are reported and nothing is imported', ({ Given, When, Then, And }) => {
+    let before: ArchiMateModel;
+
+    Given('CSV files with an element of type "Database", a Composition from "Customer" to "CRM", and a property for an unknown ID', () => {
+      before = structuredClone(model);
+      writeFiles({
+        'elements.csv': '"ID","Type","Name"\n"db","Database","Orders"\n',
+        'relations.csv': `"ID","Type","Source","Target"\n"","CompositionRelationship","${customer.id}","${crm.id}"\n`,
+        'properties.csv': '"ID","Key","Value"\n"id-unknown","Owner","Sales"\n',
+      });
+    });
+
+    When('the caller invokes archimate_import_csv with the directory', async () => {
+      await importCsv(model);
+    });
+
+    Then('the response lists one error for each of the three rows, with its file and row number', () => {
+      expect(csv.errors).toEqual([
+        { file: 'elements.csv', row: 2, id: 'db', error: 'Unknown element type "Database"' },
+        {
+          file: 'relations.csv',
+          row: 2,
+          id: expect.any(String),
+          error: expect.stringContaining('Composition is not a valid relationship between BusinessActor and ApplicationComponent'),
+        },
+        { file: 'properties.csv', row: 2, id: 'id-unknown', error: 'No element, relationship, or model with ID id-unknown' },
+      ]);
+    });
+
+    And('the model is unchanged', () => {
+      expect(model).toEqual(before);
+      expect(history.canUndo()).toBe(false);
+    });
+  });
+
+  Scenario('Exported files import into an empty model', ({ When, Then, And }) => {
+    let copy: ArchiMateModel;
+
+    When('the caller exports the model to CSV and imports the files into a new empty model', async () => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'archi-csv-'));
+      await saveArchiCsv(model, directory);
+      copy = createEmptyModel('Untitled');
+      await importCsv(copy);
+      expect(csv.errors).toEqual([]);
+    });
+
+    Then('the new model has the same elements, relationships, and properties with the same IDs', () => {
+      const concepts = (m: ArchiMateModel) => ({
+        elements: getAllElements(m).map(({ id, type, name, properties }) => ({ id, type, name, properties })),
+        relationships: m.relationships.map(({ id, type, sourceId, targetId, properties }) => ({ id, type, sourceId, targetId, properties })),
+      });
+      expect(concepts(copy)).toEqual(concepts(model));
+    });
+
+    And('the new model is named "Inventory"', () => {
+      expect(copy.name).toBe('Inventory');
+      expect(copy.documentation).toBe(model.documentation);
+    });
+  });
+
+  Scenario('Undo reverts an import', ({ Given, When, And, Then }) => {
+    Given('CSV files renaming "CRM" to "CRM Suite", adding an ApplicationService "Customer Lookup" realized by "CRM Suite", and setting "Owner" of "CRM" to "Marketing"', editFiles);
+
+    When('the caller invokes archimate_import_csv with the directory', async () => {
+      await importCsv(model);
+    });
+
+    And('invokes archimate_undo', () => {
+      history.undo(model);
+    });
+
+    Then('"CRM" is named "CRM" with property "Owner" = "Sales" and the model has no "Customer Lookup"', () => {
+      const restored = getModelIndex(model).getElement(crm.id);
+      expect(restored?.name).toBe('CRM');
+      expect(restored?.properties).toEqual([{ key: 'Owner', value: 'Sales' }]);
+      expect(getModelIndex(model).getElement('lookup')).toBeUndefined();
+      expect(model.relationships).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+Feature: Edit history
+  Every model change made through the server is recorded, so an agent
+  session can be rolled back step by step with archimate_undo and
+  replayed with archimate_redo. IDs and ordering are identical after a
+  redo, so later tool calls that reference them keep working.
+
+  Background:
+    Given a current model
+
+  Scenario: Undoing an element creation removes the element
+    Given the caller created an ApplicationComponent "Billing"
+    When the caller invokes archimate_undo
+    Then the model no longer contains "Billing"
+    And archimate_history lists the creation as redoable
+
+  Scenario: Redo restores the element with the same id
+    Given the caller created an ApplicationComponent "Billing" and undid it
+    When the caller invokes archimate_redo
+    Then the model contains "Billing" with its original id
+
+  Scenario: Undoing an element deletion restores its relationships and diagram objects
+    Given an ApplicationComponent "Billing" serving a BusinessProcess "Invoice" shown connected in a view
+    And the caller deleted "Billing"
+    When the caller invokes archimate_undo
+    Then "Billing" is back in its original folder position
+    And the Serving relationship is restored
+    And the view again shows "Billing" with its connection
+
+  Scenario: Undoing an element update restores the previous values
+    Given the caller renamed ApplicationComponent "Billing" to "Billing Service" and cleared its documentation
+    When the caller invokes archimate_undo
+    Then the element is named "Billing" with its original documentation
+
+  Scenario: Updating an element that does not exist records nothing
+    When the caller invokes archimate_update_element with element_id "nope" and name "Ghost"
+    Then the call returns the error "Element not found: nope"
+    And there is nothing to undo
+    And the model has no unsaved changes
+
+  Scenario: Undoing a view edit restores the view contents
+    Given a view "Main" containing "Billing"
+    And the caller added "Invoice" to the view with auto-connect
+    When the caller invokes archimate_undo
+    Then the view contains only "Billing" and no connections
+
+  Scenario: A new change clears the redo history
+    Given the caller created an ApplicationComponent "Billing" and undid it
+    When the caller creates an ApplicationComponent "Payments"
+    Then there is nothing to redo
+
+  Scenario: Undo with nothing recorded reports nothing to undo
+    Given a freshly opened model
+    When the caller invokes archimate_undo
+    Then nothing is undone
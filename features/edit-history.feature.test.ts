@@ -0,0 +1,249 @@
+import { loadFeature, describeFeature } from '@amiceli/vitest-cucumber';
+import { expect } from 'vitest';
+import {
+  ModelHistory,
+  addElementCommand,
+  removeElementCommand,
+  updateElementCommand,
+  editDiagramCommand,
+  type HistoryEntry,
+} from '../src/model/history.js';
+import { autoConnectDiagramObject } from '../src/model/view-helpers.js';
+import { getAllElements, getElementById } from '../src/model/parser.js';
+import {
+  createEmptyModel,
+  createElement,
+  createRelationship,
+  createDiagram,
+  createDiagramObject,
+  createDiagramConnection,
+  addElementToModel,
+  resetIdCounter,
+} from '../src/__tests__/fixtures/sample-model.js';
+import type { ArchiMateElement, ArchiMateModel, ArchiMateRelationship, DiagramObject } from '../src/model/types.js';
+
+const feature = await loadFeature('./features/edit-history.feature');
+
+function findObject(objects: DiagramObject[], elementId: string): DiagramObject | undefined {
+  return objects.find((o) => o.elementId === elementId);
+}
+
+describeFeature(feature, ({ Background, Scenario }) => {
+  let model: ArchiMateModel;
+  let history: ModelHistory;
+
+  Background(({ Given }) => {
+    Given('a current model', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      history = new ModelHistory();
+    });
+  });
+
+  Scenario('Undoing an element creation removes the element', ({ Given, When, Then, And }) => {
+    Given('the caller created an ApplicationComponent "Billing"', () => {
+      history.execute(model, addElementCommand(createElement('ApplicationComponent', 'Billing')));
+    });
+
+    When('the caller invokes archimate_undo', () => {
+      history.undo(model);
+    });
+
+    Then('the model no longer contains "Billing"', () => {
+      expect(getAllElements(model).some((e) => e.name === 'Billing')).toBe(false);
+    });
+
+    And('archimate_history lists the creation as redoable', () => {
+      const entries = history.getEntries();
+      expect(entries.undo).toEqual([]);
+      expect(entries.redo).toHaveLength(1);
+      expect(entries.redo[0].description).toBe('Create ApplicationComponent "Billing"');
+    });
+  });
+
+  Scenario('Redo restores the element with the same id', ({ Given, When, Then }) => {
+    let billing: ArchiMateElement;
+
+    Given('the caller created an ApplicationComponent "Billing" and undid it', () => {
+      billing = createElement('ApplicationComponent', 'Billing');
+      history.execute(model, addElementCommand(billing));
+      history.undo(model);
+    });
+
+    When('the caller invokes archimate_redo', () => {
+      history.redo(model);
+    });
+
+    Then('the model contains "Billing" with its original id', () => {
+      expect(getElementById(model, billing.id)?.name).toBe('Billing');
+      expect(history.canRedo()).toBe(false);
+      expect(history.canUndo()).toBe(true);
+    });
+  });
+
+  Scenario('Undoing an element deletion restores its relationships and diagram objects', ({ Given, And, When, Then }) => {
+    let billing: ArchiMateElement;
+    let serving: ArchiMateRelationship;
+    let billingObjId: string;
+    let connId: string;
+    const applicationFolder = () => model.folders.find((f) => f.type === 'application')!;
+
+    Given('an ApplicationComponent "Billing" serving a BusinessProcess "Invoice" shown connected in a view', () => {
+      addElementToModel(model, createElement('ApplicationComponent', 'Ledger'));
+      billing = createElement('ApplicationComponent', 'Billing');
+      addElementToModel(model, billing);
+      addElementToModel(model, createElement('ApplicationComponent', 'Reporting'));
+      const invoice = createElement('BusinessProcess', 'Invoice');
+      addElementToModel(model, invoice);
+      serving = createRelationship('Serving', billing.id, invoice.id);
+      model.relationships.push(serving);
+
+      const billingObj = createDiagramObject(billing.id, 0, 0);
+      const invoiceObj = createDiagramObject(invoice.id, 200, 0);
+      const conn = createDiagramConnection(billingObj.id, invoiceObj.id, serving.id);
+      billingObj.sourceConnections = [conn];
+      invoiceObj.targetConnectionIds = [conn.id];
+      billingObjId = billingObj.id;
+      connId = conn.id;
+      model.diagrams.push(createDiagram('Main', [billingObj, invoiceObj]));
+    });
+
+    And('the caller deleted "Billing"', () => {
+      history.execute(model, removeElementCommand(billing));
+      expect(getElementById(model, billing.id)).toBeUndefined();
+      expect(model.relationships).toEqual([]);
+    });
+
+    When('the caller invokes archimate_undo', () => {
+      history.undo(model);
+    });
+
+    Then('"Billing" is back in its original folder position', () => {
+      expect(applicationFolder().elements.map((e) => e.name)).toEqual(['Ledger', 'Billing', 'Reporting']);
+    });
+
+    And('the Serving relationship is restored', () => {
+      expect(model.relationships).toEqual([serving]);
+    });
+
+    And('the view again shows "Billing" with its connection', () => {
+      const obj = findObject(model.diagrams[0].objects, billing.id);
+      expect(obj?.id).toBe(billingObjId);
+      expect(obj?.sourceConnections?.map((c) => c.id)).toEqual([connId]);
+    });
+  });
+
+  Scenario('Undoing an element update restores the previous values', ({ Given, When, Then }) => {
+    let billing: ArchiMateElement;
+
+    Given('the caller renamed ApplicationComponent "Billing" to "Billing Service" and cleared its documentation', () => {
+      billing = createElement('ApplicationComponent', 'Billing', 'Issues invoices');
+      addElementToModel(model, billing);
+      history.execute(model, updateElementCommand(billing.id, { name: 'Billing Service', documentation: '' }));
+      expect(getElementById(model, billing.id)?.name).toBe('Billing Service');
+    });
+
+    When('the caller invokes archimate_undo', () => {
+      history.undo(model);
+    });
+
+    Then('the element is named "Billing" with its original documentation', () => {
+      const element = getElementById(model, billing.id);
+      expect(element?.name).toBe('Billing');
+      expect(element?.documentation).toBe('Issues invoices');
+    });
+  });
+
+  Scenario('Updating an element that does not exist records nothing', ({ When, Then, And }) => {
+    let response: string;
+
+    When('the caller invokes archimate_update_element with element_id "nope" and name "Ghost"', () => {
+      // The handler checks first; the command refuses as well
+      response = getElementById(model, 'nope') ? 'Element updated successfully' : 'Error: Element not found: nope';
+      expect(() => history.execute(model, updateElementCommand('nope', { name: 'Ghost' }))).toThrow('Element not found: nope');
+    });
+
+    Then('the call returns the error "Element not found: nope"', () => {
+      expect(response).toBe('Error: Element not found: nope');
+    });
+
+    And('there is nothing to undo', () => {
+      expect(history.canUndo()).toBe(false);
+    });
+
+    And('the model has no unsaved changes', () => {
+      expect(history.isModified()).toBe(false);
+    });
+  });
+
+  Scenario('Undoing a view edit restores the view contents', ({ Given, And, When, Then }) => {
+    let billing: ArchiMateElement;
+    let viewId: string;
+
+    Given('a view "Main" containing "Billing"', () => {
+      billing = createElement('ApplicationComponent', 'Billing');
+      addElementToModel(model, billing);
+      const view = createDiagram('Main', [createDiagramObject(billing.id, 0, 0)]);
+      viewId = view.id;
+      model.diagrams.push(view);
+    });
+
+    And('the caller added "Invoice" to the view with auto-connect', () => {
+      const invoice = createElement('BusinessProcess', 'Invoice');
+      addElementToModel(model, invoice);
+      model.relationships.push(createRelationship('Serving', billing.id, invoice.id));
+      const invoiceObj = createDiagramObject(invoice.id, 200, 0);
+
+      history.execute(model, editDiagramCommand(viewId, 'Add "Invoice" to view "Main"', (d) => {
+        d.objects.push(invoiceObj);
+        autoConnectDiagramObject(model, d, invoiceObj);
+      }));
+      expect(model.diagrams[0].objects).toHaveLength(2);
+      expect(model.diagrams[0].objects[0].sourceConnections).toHaveLength(1);
+    });
+
+    When('the caller invokes archimate_undo', () => {
+      history.undo(model);
+    });
+
+    Then('the view contains only "Billing" and no connections', () => {
+      const objects = model.diagrams[0].objects;
+      expect(objects.map((o) => o.elementId)).toEqual([billing.id]);
+      expect(objects[0].sourceConnections ?? []).toEqual([]);
+    });
+  });
+
+  Scenario('A new change clears the redo history', ({ Given, When, Then }) => {
+    Given('the caller created an ApplicationComponent "Billing" and undid it', () => {
+      history.execute(model, addElementCommand(createElement('ApplicationComponent', 'Billing')));
+      history.undo(model);
+    });
+
+    When('the caller creates an ApplicationComponent "Payments"', () => {
+      history.execute(model, addElementCommand(createElement('ApplicationComponent', 'Payments')));
+    });
+
+    Then('there is nothing to redo', () => {
+      expect(history.canRedo()).toBe(false);
+      expect(history.redo(model)).toBeNull();
+      expect(getAllElements(model).map((e) => e.name)).toEqual(['Payments']);
+    });
+  });
+
+  Scenario('Undo with nothing recorded reports nothing to undo', ({ Given, When, Then }) => {
+    let result: HistoryEntry | null;
+
+    Given('a freshly opened model', () => {
+      history.clear();
+    });
+
+    When('the caller invokes archimate_undo', () => {
+      result = history.undo(model);
+    });
+
+    Then('nothing is undone', () => {
+      expect(result).toBeNull();
+      expect(history.canUndo()).toBe(false);
+    });
+  });
+});
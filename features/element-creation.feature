@@ -48,3 +48,49 @@ Feature: Element creation, update, and deletion
     Given an ApplicationComponent "X" placed on view "V"
     When the caller invokes archimate_delete_element on "X"
     Then no diagram object referencing "X" remains in "V"
+
+  Scenario: Create an Or junction
+    When the caller invokes archimate_create_junction with junction_type "or"
+    Then an unnamed Junction element of type "or" is created in the Other folder
+    And saving writes it the way Archi does, as an archimate:Junction with type "or"
+
+  Scenario: Change an element's type, keeping its identity
+    Given a BusinessFunction "Claims Handling" with property owner "Claims" placed on view "Claims"
+    When the caller invokes archimate_change_element_type on "Claims Handling" with element_type "BusinessProcess"
+    Then "Claims Handling" is a BusinessProcess with the same id, name, and properties
+    And the diagram object on "Claims" still shows it
+
+  Scenario: Relationships the new type makes invalid are reported or converted
+    Given an ApplicationComponent "CRM" assigned to an ApplicationFunction "Manage Customers"
+    When the caller invokes archimate_change_element_type on "CRM" with element_type "DataObject"
+    Then the change is refused and the Assignment relationship is reported as invalid
+    When the caller repeats it with invalid_relationships "convert"
+    Then "CRM" is a DataObject and the relationship is now an Association
+
+  Scenario: An element changing layer moves to the new layer's folder
+    Given a BusinessObject "Invoice" in a user folder "Billing" of the Business folder, accessed by a BusinessProcess "Send Invoice"
+    When the caller invokes archimate_change_element_type on "Invoice" with element_type "DataObject" and invalid_relationships "remove"
+    Then "Invoice" is a DataObject in the Application folder and the Access relationship is removed
+    And after archimate_undo "Invoice" is a BusinessObject in "Billing" again, with its relationship
+
+  Scenario: Merge duplicate elements into a survivor
+    Given ApplicationComponents "CRM", "CRM System", and "Salesforce CRM", each serving a BusinessProcess "Sell"
+    And "CRM System" placed on view "Sales" with a connection for its Serving relationship
+    When the caller invokes archimate_merge_elements with survivor "CRM" and elements "CRM System" and "Salesforce CRM"
+    Then "CRM System" and "Salesforce CRM" are removed and "CRM" has the only Serving relationship to "Sell"
+    And the diagram object and connection on "Sales" now show "CRM" and its Serving relationship
+    And after archimate_undo all three elements and their relationships are back
+
+  Scenario: Merged properties and documentation follow the chosen policy
+    Given an ApplicationComponent "CRM" with owner "Sales" and documentation "Customer records"
+    And an ApplicationComponent "CRM System" with owner "IT", vendor "Acme", and documentation "Hosted by Acme"
+    When the caller invokes archimate_merge_elements with survivor "CRM" and element "CRM System"
+    Then "CRM" has owner "Sales" and vendor "Acme", and both documentation texts
+    When the caller merges another duplicate with properties "survivor" and documentation "survivor"
+    Then "CRM" keeps its properties and documentation unchanged
+
+  Scenario: A merge that would make a relationship invalid is refused
+    Given an ApplicationComponent "CRM" and a DataObject "Customer" that a BusinessActor "Clerk" is assigned to
+    When the caller invokes archimate_merge_elements with survivor "Customer" and element "CRM"
+    Then the merge is refused because the Assignment relationship is not valid on a DataObject
+    And the model is unchanged
@@ -6,20 +6,38 @@ import {
   addDiagramToModel,
   removeElementFromModel,
   updateElementInModel,
+  serializeModel,
+  getFolderTypeForElement,
+  mergeElementsInModel,
+  type MergeElementsOptions,
 } from '../src/model/writer.js';
 import { getElementById } from '../src/model/parser.js';
 import { getLayerForElementType } from '../src/model/types.js';
+import { checkElementTypeChange, type InvalidatedRelationship } from '../src/model/element-type.js';
+import { createFolder, moveToFolder } from '../src/model/folders.js';
+import {
+  ModelHistory,
+  changeElementTypeCommand,
+  compositeCommand,
+  editFoldersCommand,
+  editModelCommand,
+  removeRelationshipCommand,
+  updateRelationshipCommand,
+} from '../src/model/history.js';
 import {
   createEmptyModel,
   createElement,
   createRelationship,
   createDiagram,
   createDiagramObject,
+  createDiagramConnection,
   resetIdCounter,
 } from '../src/__tests__/fixtures/sample-model.js';
 import type {
   ArchiMateElement,
+  ArchiMateFolder,
   ArchiMateModel,
+  ArchiMateRelationship,
   ElementType,
 } from '../src/model/types.js';
 
@@ -190,4 +208,324 @@ describeFeature(feature, ({ Background, Scenario, ScenarioOutline }) => {
       expect(view.objects.some((o) => o.elementId === x.id)).toBe(false);
     });
   });
+
+  Scenario('Create an Or junction', ({ When, Then, And }) => {
+    let model: ArchiMateModel;
+    let junction: ArchiMateElement;
+
+    // Same element the archimate_create_junction handler builds
+    When('the caller invokes archimate_create_junction with junction_type "or"', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      junction = { id: 'id-junction', type: 'Junction', name: '', junctionType: 'or' };
+      writerAddElementToModel(model, junction);
+    });
+
+    Then('an unnamed Junction element of type "or" is created in the Other folder', () => {
+      expect(getLayerForElementType(junction.type)).toBe('Composite');
+      expect(model.folders.find((f) => f.type === 'other')?.elements).toEqual([junction]);
+    });
+
+    And('saving writes it the way Archi does, as an archimate:Junction with type "or"', () => {
+      expect(serializeModel(model)).toContain('<element xsi:type="archimate:Junction" id="id-junction" type="or"/>');
+    });
+  });
+
+  /**
+   * The steps of the archimate_change_element_type handler in src/index.ts:
+   * check the attached relationships, then convert or remove the invalid
+   * ones, change the type, and move the element to its new layer's folder.
+   */
+  function changeElementType(
+    model: ArchiMateModel,
+    history: ModelHistory,
+    element: ArchiMateElement,
+    type: ElementType,
+    mode: 'report' | 'convert' | 'remove' = 'report'
+  ): InvalidatedRelationship[] {
+    const invalidated = checkElementTypeChange(model, element.id, type);
+    if (invalidated.length > 0 && mode === 'report') return invalidated;
+
+    const folder = model.folders.find((f) => f.type === getFolderTypeForElement(type))!;
+    const moves = getFolderTypeForElement(type) !== getFolderTypeForElement(element.type);
+    history.execute(model, compositeCommand(`Change type to ${type}`, [
+      ...invalidated.map((i) => mode === 'convert' && i.convertTo
+        ? updateRelationshipCommand(i.relationship.id, { type: i.convertTo })
+        : removeRelationshipCommand(i.relationship)),
+      changeElementTypeCommand(element.id, type),
+      ...(moves ? [editFoldersCommand('Move', (m) => moveToFolder(m, [element.id], folder.id))] : []),
+    ]));
+    return invalidated;
+  }
+
+  Scenario('Change an element\'s type, keeping its identity', ({ Given, When, Then, And }) => {
+    let model: ArchiMateModel;
+    let claims: ArchiMateElement;
+    let view: ReturnType<typeof createDiagram>;
+
+    Given('a BusinessFunction "Claims Handling" with property owner "Claims" placed on view "Claims"', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      claims = { ...createElement('BusinessFunction', 'Claims Handling'), properties: [{ key: 'owner', value: 'Claims' }] };
+      writerAddElementToModel(model, claims);
+      view = createDiagram('Claims');
+      view.objects.push(createDiagramObject(claims.id, 0, 0));
+      addDiagramToModel(model, view);
+    });
+
+    When('the caller invokes archimate_change_element_type on "Claims Handling" with element_type "BusinessProcess"', () => {
+      expect(changeElementType(model, new ModelHistory(), claims, 'BusinessProcess')).toEqual([]);
+    });
+
+    Then('"Claims Handling" is a BusinessProcess with the same id, name, and properties', () => {
+      expect(getElementById(model, claims.id)).toEqual({
+        id: claims.id,
+        type: 'BusinessProcess',
+        name: 'Claims Handling',
+        properties: [{ key: 'owner', value: 'Claims' }],
+      });
+      expect(model.folders.find((f) => f.type === 'business')?.elements).toEqual([claims]);
+    });
+
+    And('the diagram object on "Claims" still shows it', () => {
+      expect(view.objects[0].elementId).toBe(claims.id);
+    });
+  });
+
+  Scenario('Relationships the new type makes invalid are reported or converted', ({ Given, When, Then }) => {
+    let model: ArchiMateModel;
+    let history: ModelHistory;
+    let crm: ArchiMateElement;
+    let assignment: ArchiMateRelationship;
+    let invalidated: InvalidatedRelationship[];
+
+    Given('an ApplicationComponent "CRM" assigned to an ApplicationFunction "Manage Customers"', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      history = new ModelHistory();
+      crm = createElement('ApplicationComponent', 'CRM');
+      const manage = createElement('ApplicationFunction', 'Manage Customers');
+      writerAddElementToModel(model, crm);
+      writerAddElementToModel(model, manage);
+      assignment = createRelationship('Assignment', crm.id, manage.id);
+      addRelationshipToModel(model, assignment);
+    });
+
+    When('the caller invokes archimate_change_element_type on "CRM" with element_type "DataObject"', () => {
+      invalidated = changeElementType(model, history, crm, 'DataObject');
+    });
+
+    Then('the change is refused and the Assignment relationship is reported as invalid', () => {
+      expect(invalidated.map((i) => i.relationship)).toEqual([assignment]);
+      expect(invalidated[0].source).toMatchObject({ id: crm.id, type: 'DataObject' });
+      expect(invalidated[0].validTypes).not.toContain('Assignment');
+      expect(crm.type).toBe('ApplicationComponent');
+      expect(history.canUndo()).toBe(false);
+    });
+
+    When('the caller repeats it with invalid_relationships "convert"', () => {
+      changeElementType(model, history, crm, 'DataObject', 'convert');
+    });
+
+    Then('"CRM" is a DataObject and the relationship is now an Association', () => {
+      expect(crm.type).toBe('DataObject');
+      expect(model.relationships).toEqual([{ ...assignment, type: 'Association' }]);
+    });
+  });
+
+  Scenario('An element changing layer moves to the new layer\'s folder', ({ Given, When, Then, And }) => {
+    let model: ArchiMateModel;
+    let history: ModelHistory;
+    let invoice: ArchiMateElement;
+    let access: ArchiMateRelationship;
+    let billing: ArchiMateFolder;
+
+    Given('a BusinessObject "Invoice" in a user folder "Billing" of the Business folder, accessed by a BusinessProcess "Send Invoice"', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      history = new ModelHistory();
+      invoice = createElement('BusinessObject', 'Invoice');
+      const send = createElement('BusinessProcess', 'Send Invoice');
+      writerAddElementToModel(model, invoice);
+      writerAddElementToModel(model, send);
+      billing = createFolder(model, model.folders.find((f) => f.type === 'business')!.id, 'Billing');
+      moveToFolder(model, [invoice.id], billing.id);
+      access = createRelationship('Access', send.id, invoice.id);
+      addRelationshipToModel(model, access);
+    });
+
+    When('the caller invokes archimate_change_element_type on "Invoice" with element_type "DataObject" and invalid_relationships "remove"', () => {
+      changeElementType(model, history, invoice, 'DataObject', 'remove');
+    });
+
+    Then('"Invoice" is a DataObject in the Application folder and the Access relationship is removed', () => {
+      expect(invoice.type).toBe('DataObject');
+      expect(model.folders.find((f) => f.type === 'application')?.elements).toEqual([invoice]);
+      expect(billing.elements).toEqual([]);
+      expect(model.relationships).toEqual([]);
+    });
+
+    And('after archimate_undo "Invoice" is a BusinessObject in "Billing" again, with its relationship', () => {
+      history.undo(model);
+      expect(invoice.type).toBe('BusinessObject');
+      expect(billing.elements).toEqual([invoice]);
+      expect(model.relationships).toEqual([access]);
+    });
+  });
+
+  /** The archimate_merge_elements handler: one editModelCommand around mergeElementsInModel */
+  function mergeElements(
+    model: ArchiMateModel,
+    history: ModelHistory,
+    survivor: ArchiMateElement,
+    merged: ArchiMateElement[],
+    options: MergeElementsOptions = {}
+  ): void {
+    history.execute(model, editModelCommand('Merge elements', (m) => {
+      mergeElementsInModel(m, survivor.id, merged.map((e) => e.id), options);
+    }));
+  }
+
+  Scenario('Merge duplicate elements into a survivor', ({ Given, And, When, Then }) => {
+    let model: ArchiMateModel;
+    let history: ModelHistory;
+    let crm: ArchiMateElement;
+    let crmSystem: ArchiMateElement;
+    let salesforce: ArchiMateElement;
+    let sell: ArchiMateElement;
+    let servings: ArchiMateRelationship[];
+    let view: ReturnType<typeof createDiagram>;
+
+    Given('ApplicationComponents "CRM", "CRM System", and "Salesforce CRM", each serving a BusinessProcess "Sell"', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      history = new ModelHistory();
+      crm = createElement('ApplicationComponent', 'CRM');
+      crmSystem = createElement('ApplicationComponent', 'CRM System');
+      salesforce = createElement('ApplicationComponent', 'Salesforce CRM');
+      sell = createElement('BusinessProcess', 'Sell');
+      for (const element of [crm, crmSystem, salesforce, sell]) writerAddElementToModel(model, element);
+      servings = [crm, crmSystem, salesforce].map((e) => createRelationship('Serving', e.id, sell.id));
+      for (const rel of servings) addRelationshipToModel(model, rel);
+    });
+
+    And('"CRM System" placed on view "Sales" with a connection for its Serving relationship', () => {
+      view = createDiagram('Sales');
+      const source = createDiagramObject(crmSystem.id, 0, 0);
+      const target = createDiagramObject(sell.id, 200, 0);
+      source.sourceConnections = [createDiagramConnection(source.id, target.id, servings[1].id)];
+      view.objects.push(source, target);
+      addDiagramToModel(model, view);
+    });
+
+    When('the caller invokes archimate_merge_elements with survivor "CRM" and elements "CRM System" and "Salesforce CRM"', () => {
+      mergeElements(model, history, crm, [crmSystem, salesforce]);
+    });
+
+    Then('"CRM System" and "Salesforce CRM" are removed and "CRM" has the only Serving relationship to "Sell"', () => {
+      expect(getElementById(model, crmSystem.id)).toBeUndefined();
+      expect(getElementById(model, salesforce.id)).toBeUndefined();
+      expect(model.relationships.map((r) => r.id)).toEqual([servings[0].id]);
+    });
+
+    And('the diagram object and connection on "Sales" now show "CRM" and its Serving relationship', () => {
+      const sales = model.diagrams.find((d) => d.id === view.id)!;
+      expect(sales.objects[0].elementId).toBe(crm.id);
+      expect(sales.objects[0].sourceConnections?.[0].relationshipId).toBe(servings[0].id);
+    });
+
+    And('after archimate_undo all three elements and their relationships are back', () => {
+      history.undo(model);
+      expect(getElementById(model, crmSystem.id)?.name).toBe('CRM System');
+      expect(getElementById(model, salesforce.id)?.name).toBe('Salesforce CRM');
+      expect(model.relationships.map((r) => r.sourceId)).toEqual([crm.id, crmSystem.id, salesforce.id]);
+      expect(model.diagrams[0].objects[0].elementId).toBe(crmSystem.id);
+    });
+  });
+
+  Scenario('Merged properties and documentation follow the chosen policy', ({ Given, And, When, Then }) => {
+    let model: ArchiMateModel;
+    let history: ModelHistory;
+    let crm: ArchiMateElement;
+
+    Given('an ApplicationComponent "CRM" with owner "Sales" and documentation "Customer records"', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      history = new ModelHistory();
+      crm = { ...createElement('ApplicationComponent', 'CRM'), documentation: 'Customer records', properties: [{ key: 'owner', value: 'Sales' }] };
+      writerAddElementToModel(model, crm);
+    });
+
+    And('an ApplicationComponent "CRM System" with owner "IT", vendor "Acme", and documentation "Hosted by Acme"', () => {
+      const duplicate = {
+        ...createElement('ApplicationComponent', 'CRM System'),
+        documentation: 'Hosted by Acme',
+        properties: [{ key: 'owner', value: 'IT' }, { key: 'vendor', value: 'Acme' }],
+      };
+      writerAddElementToModel(model, duplicate);
+    });
+
+    When('the caller invokes archimate_merge_elements with survivor "CRM" and element "CRM System"', () => {
+      mergeElements(model, history, crm, [model.folders.find((f) => f.type === 'application')!.elements[1]]);
+    });
+
+    Then('"CRM" has owner "Sales" and vendor "Acme", and both documentation texts', () => {
+      expect(crm.properties).toEqual([{ key: 'owner', value: 'Sales' }, { key: 'vendor', value: 'Acme' }]);
+      expect(crm.documentation).toBe('Customer records\n\nHosted by Acme');
+    });
+
+    When('the caller merges another duplicate with properties "survivor" and documentation "survivor"', () => {
+      const duplicate = {
+        ...createElement('ApplicationComponent', 'CRM (old)'),
+        documentation: 'Legacy',
+        properties: [{ key: 'region', value: 'EMEA' }],
+      };
+      writerAddElementToModel(model, duplicate);
+      mergeElements(model, history, crm, [duplicate], { properties: 'survivor', documentation: 'survivor' });
+    });
+
+    Then('"CRM" keeps its properties and documentation unchanged', () => {
+      expect(crm.properties).toEqual([{ key: 'owner', value: 'Sales' }, { key: 'vendor', value: 'Acme' }]);
+      expect(crm.documentation).toBe('Customer records\n\nHosted by Acme');
+      expect(model.folders.find((f) => f.type === 'application')?.elements).toEqual([crm]);
+    });
+  });
+
+  Scenario('A merge that would make a relationship invalid is refused', ({ Given, When, Then, And }) => {
+    let model: ArchiMateModel;
+    let history: ModelHistory;
+    let crm: ArchiMateElement;
+    let customer: ArchiMateElement;
+    let before: string;
+    let error: Error | undefined;
+
+    Given('an ApplicationComponent "CRM" and a DataObject "Customer" that a BusinessActor "Clerk" is assigned to', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      history = new ModelHistory();
+      crm = createElement('ApplicationComponent', 'CRM');
+      customer = createElement('DataObject', 'Customer');
+      const clerk = createElement('BusinessActor', 'Clerk');
+      for (const element of [crm, customer, clerk]) writerAddElementToModel(model, element);
+      addRelationshipToModel(model, createRelationship('Assignment', clerk.id, crm.id));
+      before = serializeModel(model);
+    });
+
+    When('the caller invokes archimate_merge_elements with survivor "Customer" and element "CRM"', () => {
+      try {
+        mergeElements(model, history, customer, [crm]);
+      } catch (e) {
+        error = e as Error;
+      }
+    });
+
+    Then('the merge is refused because the Assignment relationship is not valid on a DataObject', () => {
+      expect(error?.message).toMatch(/\(Assignment\) would not be valid on a DataObject/);
+    });
+
+    And('the model is unchanged', () => {
+      expect(serializeModel(model)).toBe(before);
+      expect(history.canUndo()).toBe(false);
+    });
+  });
 });
@@ -33,3 +33,16 @@ Feature: ArchiMate Open Exchange Format import and export
     When the caller invokes archimate_import_exchange with that path
     Then the call returns an error identifying the parsing failure
     And the previously-current model is left unchanged
+
+  Scenario: Junctions are exchanged as AndJunction and OrJunction
+    Given a current model with an And junction and an Or junction joining Triggering relationships
+    When the caller exports it to exchange XML and re-imports the result
+    Then the XML types the junctions "AndJunction" and "OrJunction"
+    And the reimported junctions keep their kind and their relationships
+
+  Scenario: Relationships on relationships are exchanged with their connections
+    Given a current model with an Association from a Requirement to an Access relationship
+    And a view drawing the association to the Access connection
+    When the caller exports it to exchange XML and re-imports the result
+    Then the reimported association still ends on the Access relationship
+    And the reimported view draws the association to the Access connection
@@ -201,4 +201,87 @@ describeFeature(feature, ({ Scenario }) => {
       fs.unlinkSync(badPath);
     });
   });
+
+  Scenario('Junctions are exchanged as AndJunction and OrJunction', ({ Given, When, Then, And }) => {
+    let original: ArchiMateModel;
+    let xml: string;
+    let reimported: ArchiMateModel;
+
+    Given('a current model with an And junction and an Or junction joining Triggering relationships', () => {
+      resetIdCounter();
+      original = writerCreateEmptyModel('Claims', 'id-claims');
+      const receive = createElement('BusinessProcess', 'Receive Claim');
+      const assess = createElement('BusinessProcess', 'Assess Claim');
+      writerAddElementToModel(original, receive);
+      writerAddElementToModel(original, assess);
+      writerAddElementToModel(original, { id: 'id-and', type: 'Junction', name: '', junctionType: 'and' });
+      writerAddElementToModel(original, { id: 'id-or', type: 'Junction', name: '', junctionType: 'or' });
+      addRelationshipToModel(original, createRelationship('Triggering', receive.id, 'id-and'));
+      addRelationshipToModel(original, createRelationship('Triggering', 'id-and', 'id-or'));
+      addRelationshipToModel(original, createRelationship('Triggering', 'id-or', assess.id));
+    });
+
+    When('the caller exports it to exchange XML and re-imports the result', () => {
+      xml = writeExchangeFormat(original);
+      reimported = parseExchangeFormat(xml);
+    });
+
+    Then('the XML types the junctions "AndJunction" and "OrJunction"', () => {
+      expect(xml).toMatch(/identifier="id-and" xsi:type="AndJunction"/);
+      expect(xml).toMatch(/identifier="id-or" xsi:type="OrJunction"/);
+    });
+
+    And('the reimported junctions keep their kind and their relationships', () => {
+      const junctions = getAllElements(reimported).filter((e) => e.type === 'Junction');
+      expect(junctions.map((j) => [j.id, j.junctionType])).toEqual([['id-and', 'and'], ['id-or', 'or']]);
+      expect(reimported.relationships.map((r) => [r.sourceId, r.targetId])).toEqual(
+        original.relationships.map((r) => [r.sourceId, r.targetId])
+      );
+    });
+  });
+
+  Scenario('Relationships on relationships are exchanged with their connections', ({ Given, And, When, Then }) => {
+    let original: ArchiMateModel;
+    let reimported: ArchiMateModel;
+    let xml: string;
+
+    Given('a current model with an Association from a Requirement to an Access relationship', () => {
+      resetIdCounter();
+      original = writerCreateEmptyModel('Claims', 'id-claims');
+      writerAddElementToModel(original, { id: 'id-process', type: 'BusinessProcess', name: 'Handle Claim' });
+      writerAddElementToModel(original, { id: 'id-claim', type: 'BusinessObject', name: 'Claim' });
+      writerAddElementToModel(original, { id: 'id-requirement', type: 'Requirement', name: 'Keep an audit trail' });
+      addRelationshipToModel(original, { id: 'id-access', type: 'Access', sourceId: 'id-process', targetId: 'id-claim' });
+      addRelationshipToModel(original, { id: 'id-association', type: 'Association', sourceId: 'id-requirement', targetId: 'id-access' });
+    });
+
+    And('a view drawing the association to the Access connection', () => {
+      const view = createDiagram('Claims');
+      const process = createDiagramObject('id-process', 0, 0);
+      const claim = createDiagramObject('id-claim', 240, 0);
+      const requirement = createDiagramObject('id-requirement', 120, 150);
+      const access = createDiagramConnection(process.id, claim.id, 'id-access');
+      process.sourceConnections = [access];
+      requirement.sourceConnections = [createDiagramConnection(requirement.id, access.id, 'id-association')];
+      view.objects.push(process, claim, requirement);
+      addDiagramToModel(original, view);
+    });
+
+    When('the caller exports it to exchange XML and re-imports the result', () => {
+      xml = writeExchangeFormat(original);
+      reimported = parseExchangeFormat(xml);
+    });
+
+    Then('the reimported association still ends on the Access relationship', () => {
+      expect(xml).toMatch(/identifier="id-association" xsi:type="Association" source="id-requirement" target="id-access"/);
+      expect(reimported.relationships.find((r) => r.id === 'id-association')?.targetId).toBe('id-access');
+    });
+
+    And('the reimported view draws the association to the Access connection', () => {
+      const [process, , requirement] = reimported.diagrams[0].objects;
+      expect(requirement.sourceConnections).toEqual([
+        expect.objectContaining({ targetId: process.sourceConnections![0].id, relationshipId: 'id-association' }),
+      ]);
+    });
+  });
 });
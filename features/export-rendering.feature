@@ -40,3 +40,23 @@ Feature: Export and rendering
     Then a single HTML file is written that requires no external assets
     And it provides tab navigation by layer, search, and embedded SVG diagrams
     And both light and dark themes are supported
+
+  Scenario: Styled objects keep their own colors and fonts in exports
+    Given a view "V"
+    And the caller invokes archimate_style_view_object to fill "A" with "#ff0000" and make its text bold
+    And the caller invokes archimate_style_view_object to draw the connection from "A" in "#0000ff"
+    When the caller exports "V" as SVG
+    Then "A" is drawn filled with "#ff0000" instead of its layer color, with a bold label
+    And the connection from "A" is drawn in "#0000ff"
+    And "B" keeps its layer color
+
+  Scenario: Junctions are drawn as filled or hollow circles
+    Given a view showing an And junction and an Or junction
+    When the caller invokes archimate_export_diagram with format "svg"
+    Then the And junction is drawn as a filled circle and the Or junction as a hollow one
+
+  Scenario: Connections on connections meet them halfway
+    Given a view drawing an Access relationship between "Handle Claim" and "Claim"
+    And an Association from "Keep an audit trail" to the Access relationship drawn to its connection
+    When the caller invokes archimate_export_diagram with format "svg"
+    Then the association is drawn from "Keep an audit trail" to the middle of the Access connection
@@ -4,7 +4,8 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { generateMermaid, generateMermaidFromView } from '../src/exporters/mermaid-exporter.js';
-import { saveDiagram } from '../src/exporters/svg-exporter.js';
+import { generateSvg, saveDiagram } from '../src/exporters/svg-exporter.js';
+import { applyStyle } from '../src/model/diagram-style.js';
 import { generateMarkdown, saveMarkdown } from '../src/exporters/markdown-exporter.js';
 import { generateHtmlDeck, saveHtmlDeck } from '../src/exporters/html-deck-exporter.js';
 import {
@@ -248,4 +249,107 @@ describeFeature(feature, ({ Background, Scenario }) => {
       fs.unlinkSync(outPath);
     });
   });
+
+  Scenario('Styled objects keep their own colors and fonts in exports', ({ Given, And, When, Then }) => {
+    let model: ArchiMateModel;
+    let viewId: string;
+    let svg: string;
+
+    Given('a view "V"', () => {
+      const built = buildModelWithView();
+      model = built.model;
+      viewId = built.viewId;
+    });
+
+    // Same step as the archimate_style_view_object handler
+    And('the caller invokes archimate_style_view_object to fill "A" with "#ff0000" and make its text bold', () => {
+      applyStyle(model.diagrams[0].objects[0], { fillColor: '#ff0000', bold: true }, false);
+    });
+
+    And('the caller invokes archimate_style_view_object to draw the connection from "A" in "#0000ff"', () => {
+      applyStyle(model.diagrams[0].objects[0].sourceConnections![0], { lineColor: '#0000ff' }, true);
+    });
+
+    When('the caller exports "V" as SVG', () => {
+      svg = generateSvg(model, viewId);
+    });
+
+    Then('"A" is drawn filled with "#ff0000" instead of its layer color, with a bold label', () => {
+      expect(svg).toMatch(/<rect [^>]*fill="#ff0000"/);
+      expect(svg).toMatch(/<text [^>]*font-weight="bold"[^>]*>A<\/text>/);
+    });
+
+    And('the connection from "A" is drawn in "#0000ff"', () => {
+      expect(svg).toMatch(/<line [^>]*stroke="#0000ff"/);
+    });
+
+    And('"B" keeps its layer color', () => {
+      expect(svg.match(/fill="#B5FFFF"/g)).toHaveLength(2);
+    });
+  });
+
+  Scenario('Junctions are drawn as filled or hollow circles', ({ Given, When, Then }) => {
+    let model: ArchiMateModel;
+    let svg: string;
+
+    Given('a view showing an And junction and an Or junction', () => {
+      resetIdCounter();
+      model = writerCreateEmptyModel('Junctions', 'id-junctions');
+      writerAddElementToModel(model, { id: 'id-and', type: 'Junction', name: '', junctionType: 'and' });
+      writerAddElementToModel(model, { id: 'id-or', type: 'Junction', name: '', junctionType: 'or' });
+      const view = createDiagram('Junctions');
+      view.objects.push(createDiagramObject('id-and', 0, 0, 15, 15), createDiagramObject('id-or', 100, 0, 15, 15));
+      addDiagramToModel(model, view);
+    });
+
+    When('the caller invokes archimate_export_diagram with format "svg"', () => {
+      svg = generateSvg(model, model.diagrams[0].id);
+    });
+
+    Then('the And junction is drawn as a filled circle and the Or junction as a hollow one', () => {
+      expect(svg).toContain('<circle cx="7.5" cy="7.5" r="7.5" fill="#333" stroke="#333" stroke-width="1"/>');
+      expect(svg).toContain('<circle cx="107.5" cy="7.5" r="7.5" fill="#ffffff" stroke="#333" stroke-width="1"/>');
+      expect(svg).not.toContain('<rect width="15"');
+    });
+  });
+
+  Scenario('Connections on connections meet them halfway', ({ Given, And, When, Then }) => {
+    let model: ArchiMateModel;
+    let svg: string;
+
+    Given('a view drawing an Access relationship between "Handle Claim" and "Claim"', () => {
+      resetIdCounter();
+      model = writerCreateEmptyModel('Claims', 'id-claims');
+      writerAddElementToModel(model, { id: 'id-process', type: 'BusinessProcess', name: 'Handle Claim' });
+      writerAddElementToModel(model, { id: 'id-claim', type: 'BusinessObject', name: 'Claim' });
+      addRelationshipToModel(model, { id: 'id-access', type: 'Access', sourceId: 'id-process', targetId: 'id-claim' });
+      const view = createDiagram('Claims');
+      const process = createDiagramObject('id-process', 0, 0);
+      const claim = createDiagramObject('id-claim', 240, 0);
+      process.sourceConnections = [createDiagramConnection(process.id, claim.id, 'id-access')];
+      claim.targetConnectionIds = [process.sourceConnections[0].id];
+      view.objects.push(process, claim);
+      addDiagramToModel(model, view);
+    });
+
+    And('an Association from "Keep an audit trail" to the Access relationship drawn to its connection', () => {
+      writerAddElementToModel(model, { id: 'id-requirement', type: 'Requirement', name: 'Keep an audit trail' });
+      addRelationshipToModel(model, { id: 'id-association', type: 'Association', sourceId: 'id-requirement', targetId: 'id-access' });
+      const view = model.diagrams[0];
+      const accessConn = view.objects[0].sourceConnections![0];
+      const requirement = createDiagramObject('id-requirement', 120, 150);
+      requirement.sourceConnections = [createDiagramConnection(requirement.id, accessConn.id, 'id-association')];
+      accessConn.targetConnectionIds = [requirement.sourceConnections[0].id];
+      view.objects.push(requirement);
+    });
+
+    When('the caller invokes archimate_export_diagram with format "svg"', () => {
+      svg = generateSvg(model, model.diagrams[0].id);
+    });
+
+    Then('the association is drawn from "Keep an audit trail" to the middle of the Access connection', () => {
+      expect(svg).toContain('<line x1="120" y1="27.5" x2="240" y2="27.5"');
+      expect(svg).toContain('<line x1="180" y1="150" x2="180" y2="27.5" stroke="#333" stroke-width="1"/>');
+    });
+  });
 });
@@ -0,0 +1,48 @@
+Feature: Folder management
+  Models organize their concepts in user folders under the top-level layer,
+  Relations, and Views folders, for example by domain or by program. Callers
+  create, rename, move, and delete those folders, move elements,
+  relationships, and views between them, and create concepts directly in
+  them. Folders and concepts stay under the top-level folder for their kind,
+  and folder placement is saved as Archi saves it.
+
+  Background:
+    Given a current model with an ApplicationComponent "Billing", a BusinessProcess "Invoice", a Serving relationship between them, and a view "Landscape"
+
+  Scenario: Create a folder and create an element in it
+    When the caller invokes archimate_create_folder in the Application folder with name "Finance"
+    And invokes archimate_create_application_element for "Ledger" with the new folder as folder_id
+    Then "Ledger" is in "Finance" and not in the Application folder
+    And archimate_list_folders shows "Finance" under Application with 1 element
+
+  Scenario: A folder under another top-level folder is refused
+    Given a folder "Finance" in the Application folder
+    When the caller invokes archimate_move_to_folder with "Invoice" and "Finance"
+    Then the move is refused because "Invoice" belongs in the Business folder
+    And "Invoice" stays in the Business folder
+
+  Scenario: Relationships and views moved to folders are saved there
+    Given a folder "Integration" in the Relations folder and a folder "Landscapes" in the Views folder
+    When the caller invokes archimate_move_to_folder with the Serving relationship and "Integration"
+    And invokes archimate_move_to_folder with "Landscape" and "Landscapes"
+    Then the saved model reads back with the relationship in "Integration" and the view in "Landscapes"
+
+  Scenario: Move a folder with its contents, but not into itself
+    Given folders "Finance" and "Payments" in the Application folder, with "Billing" in "Payments"
+    When the caller invokes archimate_move_folder with "Payments" and "Finance"
+    Then "Payments" is a subfolder of "Finance" and still holds "Billing"
+    And moving "Finance" into "Payments" is refused
+
+  Scenario: Delete a folder, moving its contents to the parent folder
+    Given a folder "Finance" in the Application folder holding "Billing"
+    When the caller invokes archimate_delete_folder on "Finance"
+    Then the deletion is refused because the folder is not empty
+    When the caller invokes archimate_delete_folder on "Finance" with move_contents_to_parent
+    Then "Finance" is gone and "Billing" is in the Application folder
+
+  Scenario: Undo a folder change
+    Given a folder "Finance" in the Application folder
+    When the caller invokes archimate_rename_folder on "Finance" with name "Finance & Risk"
+    And invokes archimate_move_to_folder with "Billing" and the renamed folder
+    And invokes archimate_undo twice
+    Then the folder is named "Finance" again and "Billing" is back in the Application folder
@@ -0,0 +1,241 @@
+import { loadFeature, describeFeature } from '@amiceli/vitest-cucumber';
+import { expect } from 'vitest';
+import {
+  createFolder,
+  deleteFolder,
+  findFolderLocation,
+  getAllFolderContents,
+  moveFolder,
+  moveToFolder,
+  renameFolder,
+} from '../src/model/folders.js';
+import { ModelHistory, addElementCommand, compositeCommand, editFoldersCommand } from '../src/model/history.js';
+import { serializeModel } from '../src/model/writer.js';
+import { parseModelXml } from '../src/model/parser.js';
+import {
+  createEmptyModel,
+  createElement,
+  createRelationship,
+  createDiagram,
+  addElementToModel,
+  resetIdCounter,
+} from '../src/__tests__/fixtures/sample-model.js';
+import type {
+  ArchiMateDiagram,
+  ArchiMateElement,
+  ArchiMateFolder,
+  ArchiMateModel,
+  ArchiMateRelationship,
+} from '../src/model/types.js';
+
+const feature = await loadFeature('./features/folder-management.feature');
+
+/**
+ * Step bindings run the same steps as the folder tool handlers in
+ * src/index.ts: each change is an editFoldersCommand around the functions of
+ * src/model/folders.ts, and folder_id on a creation tool adds one to the
+ * creation command.
+ */
+describeFeature(feature, ({ Background, Scenario }) => {
+  let model: ArchiMateModel;
+  let billing: ArchiMateElement;
+  let invoice: ArchiMateElement;
+  let serving: ArchiMateRelationship;
+  let landscape: ArchiMateDiagram;
+  let history: ModelHistory;
+  let error: Error | undefined;
+
+  const topLevel = (type: string) => model.folders.find((f) => f.type === type)!;
+
+  function edit(description: string, change: (model: ArchiMateModel) => void): void {
+    error = undefined;
+    try {
+      history.execute(model, editFoldersCommand(description, change));
+    } catch (e) {
+      error = e as Error;
+    }
+  }
+
+  function newFolder(parent: ArchiMateFolder, name: string): ArchiMateFolder {
+    let folder: ArchiMateFolder | undefined;
+    edit(`Create folder "${name}"`, (m) => { folder = createFolder(m, parent.id, name); });
+    return folder!;
+  }
+
+  Background(({ Given }) => {
+    Given('a current model with an ApplicationComponent "Billing", a BusinessProcess "Invoice", a Serving relationship between them, and a view "Landscape"', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      billing = createElement('ApplicationComponent', 'Billing');
+      invoice = createElement('BusinessProcess', 'Invoice');
+      addElementToModel(model, billing);
+      addElementToModel(model, invoice);
+      serving = createRelationship('Serving', billing.id, invoice.id);
+      model.relationships.push(serving);
+      landscape = createDiagram('Landscape');
+      model.diagrams.push(landscape);
+      history = new ModelHistory();
+    });
+  });
+
+  Scenario('Create a folder and create an element in it', ({ When, And, Then }) => {
+    let finance: ArchiMateFolder;
+    let ledger: ArchiMateElement;
+
+    When('the caller invokes archimate_create_folder in the Application folder with name "Finance"', () => {
+      finance = newFolder(topLevel('application'), 'Finance');
+    });
+
+    And('invokes archimate_create_application_element for "Ledger" with the new folder as folder_id', () => {
+      ledger = createElement('ApplicationComponent', 'Ledger');
+      const create = addElementCommand(ledger);
+      history.execute(model, compositeCommand(create.description, [
+        create,
+        editFoldersCommand(create.description, (m) => moveToFolder(m, [ledger.id], finance.id)),
+      ]));
+    });
+
+    Then('"Ledger" is in "Finance" and not in the Application folder', () => {
+      expect(finance.elements).toEqual([ledger]);
+      expect(topLevel('application').elements).not.toContain(ledger);
+    });
+
+    And('archimate_list_folders shows "Finance" under Application with 1 element', () => {
+      expect(topLevel('application').subfolders).toEqual([finance]);
+      expect(getAllFolderContents(model).get(finance.id)).toMatchObject({ elements: [ledger], relationships: [], views: [] });
+    });
+  });
+
+  Scenario('A folder under another top-level folder is refused', ({ Given, When, Then, And }) => {
+    let finance: ArchiMateFolder;
+
+    Given('a folder "Finance" in the Application folder', () => {
+      finance = newFolder(topLevel('application'), 'Finance');
+    });
+
+    When('the caller invokes archimate_move_to_folder with "Invoice" and "Finance"', () => {
+      edit('Move to folder', (m) => moveToFolder(m, [invoice.id], finance.id));
+    });
+
+    Then('the move is refused because "Invoice" belongs in the Business folder', () => {
+      expect(error?.message).toContain('element "Invoice" belongs in "Business"');
+    });
+
+    And('"Invoice" stays in the Business folder', () => {
+      expect(topLevel('business').elements).toContain(invoice);
+      expect(finance.elements).toEqual([]);
+      expect(history.canUndo()).toBe(true);
+      expect(history.getEntries().undo.at(-1)?.description).toBe('Create folder "Finance"');
+    });
+  });
+
+  Scenario('Relationships and views moved to folders are saved there', ({ Given, When, And, Then }) => {
+    let integration: ArchiMateFolder;
+    let landscapes: ArchiMateFolder;
+
+    Given('a folder "Integration" in the Relations folder and a folder "Landscapes" in the Views folder', () => {
+      integration = newFolder(topLevel('relations'), 'Integration');
+      landscapes = newFolder(topLevel('diagrams'), 'Landscapes');
+    });
+
+    When('the caller invokes archimate_move_to_folder with the Serving relationship and "Integration"', () => {
+      edit('Move to folder', (m) => moveToFolder(m, [serving.id], integration.id));
+    });
+
+    And('invokes archimate_move_to_folder with "Landscape" and "Landscapes"', () => {
+      edit('Move to folder', (m) => moveToFolder(m, [landscape.id], landscapes.id));
+    });
+
+    Then('the saved model reads back with the relationship in "Integration" and the view in "Landscapes"', () => {
+      const reread = parseModelXml(serializeModel(model));
+      const contents = getAllFolderContents(reread);
+      expect(contents.get(integration.id)?.relationships.map((r) => r.id)).toEqual([serving.id]);
+      expect(contents.get(landscapes.id)?.views.map((v) => v.id)).toEqual([landscape.id]);
+      expect(contents.get(topLevel('relations').id)?.relationships).toEqual([]);
+    });
+  });
+
+  Scenario('Move a folder with its contents, but not into itself', ({ Given, When, Then, And }) => {
+    let finance: ArchiMateFolder;
+    let payments: ArchiMateFolder;
+
+    Given('folders "Finance" and "Payments" in the Application folder, with "Billing" in "Payments"', () => {
+      finance = newFolder(topLevel('application'), 'Finance');
+      payments = newFolder(topLevel('application'), 'Payments');
+      edit('Move to folder', (m) => moveToFolder(m, [billing.id], payments.id));
+    });
+
+    When('the caller invokes archimate_move_folder with "Payments" and "Finance"', () => {
+      edit('Move folder', (m) => moveFolder(m, payments.id, finance.id));
+    });
+
+    Then('"Payments" is a subfolder of "Finance" and still holds "Billing"', () => {
+      expect(topLevel('application').subfolders).toEqual([finance]);
+      expect(finance.subfolders).toEqual([payments]);
+      expect(payments.elements).toEqual([billing]);
+    });
+
+    And('moving "Finance" into "Payments" is refused', () => {
+      edit('Move folder', (m) => moveFolder(m, finance.id, payments.id));
+      expect(error?.message).toContain('cannot move into itself or one of its subfolders');
+      expect(findFolderLocation(model, finance.id)?.parent).toBe(topLevel('application'));
+    });
+  });
+
+  Scenario('Delete a folder, moving its contents to the parent folder', ({ Given, When, Then }) => {
+    let finance: ArchiMateFolder;
+
+    Given('a folder "Finance" in the Application folder holding "Billing"', () => {
+      finance = newFolder(topLevel('application'), 'Finance');
+      edit('Move to folder', (m) => moveToFolder(m, [billing.id], finance.id));
+    });
+
+    When('the caller invokes archimate_delete_folder on "Finance"', () => {
+      edit('Delete folder', (m) => deleteFolder(m, finance.id));
+    });
+
+    Then('the deletion is refused because the folder is not empty', () => {
+      expect(error?.message).toContain('Folder "Finance" is not empty');
+      expect(topLevel('application').subfolders).toEqual([finance]);
+    });
+
+    When('the caller invokes archimate_delete_folder on "Finance" with move_contents_to_parent', () => {
+      edit('Delete folder', (m) => deleteFolder(m, finance.id, true));
+    });
+
+    Then('"Finance" is gone and "Billing" is in the Application folder', () => {
+      expect(error).toBeUndefined();
+      expect(findFolderLocation(model, finance.id)).toBeUndefined();
+      expect(topLevel('application').elements).toContain(billing);
+    });
+  });
+
+  Scenario('Undo a folder change', ({ Given, When, And, Then }) => {
+    let finance: ArchiMateFolder;
+
+    Given('a folder "Finance" in the Application folder', () => {
+      finance = newFolder(topLevel('application'), 'Finance');
+    });
+
+    When('the caller invokes archimate_rename_folder on "Finance" with name "Finance & Risk"', () => {
+      edit('Rename folder', (m) => renameFolder(m, finance.id, 'Finance & Risk'));
+      expect(finance.name).toBe('Finance & Risk');
+    });
+
+    And('invokes archimate_move_to_folder with "Billing" and the renamed folder', () => {
+      edit('Move to folder', (m) => moveToFolder(m, [billing.id], finance.id));
+      expect(finance.elements).toEqual([billing]);
+    });
+
+    And('invokes archimate_undo twice', () => {
+      history.undo(model);
+      history.undo(model);
+    });
+
+    Then('the folder is named "Finance" again and "Billing" is back in the Application folder', () => {
+      expect(finance.name).toBe('Finance');
+      expect(finance.elements).toEqual([]);
+      expect(topLevel('application').elements).toContain(billing);
+    });
+  });
+});
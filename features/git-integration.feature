@@ -0,0 +1,62 @@
+Feature: Git integration
+  coArchi repositories are git working trees. Architects can check the
+  repository status, read the model's history with a semantic diff per
+  commit, commit the model, check out branches and tags, and open the
+  model as it was at any commit, all through the local git executable.
+
+  Background:
+    Given a git repository with a model "Landscape" containing ApplicationComponent "CRM", committed as "Initial model"
+
+  Scenario: Status reports uncommitted model changes
+    Given "CRM" is renamed to "CRM Cloud" and the model is saved
+    When the caller invokes archimate_git_status
+    Then the status reports branch "main" with model.archimate modified
+
+  Scenario: Committing the model pairs the commit with its semantic diff
+    Given Node "K8s" is added to the model and the model is saved
+    When the caller invokes archimate_git_commit with message "Add hosting"
+    Then the working tree is clean
+    And the diff of the new commit lists "K8s" as an added element
+
+  Scenario: The log lists model commits newest first with their changes
+    Given Node "K8s" is added to the model and committed as "Add hosting"
+    When the caller invokes archimate_git_log
+    Then the log lists "Add hosting" then "Initial model"
+    And "Add hosting" has 1 added element and "Initial model" has 1 added element
+
+  Scenario: The model can be read as it was at a tag
+    Given the initial commit is tagged "v1"
+    And Node "K8s" is added to the model and committed as "Add hosting"
+    When the caller invokes archimate_git_open_at_commit with ref "v1"
+    Then the opened model contains "CRM" but not "K8s"
+
+  Scenario: Checking out a branch changes the model on disk
+    Given a branch "feature" where Node "K8s" is committed as "Add hosting"
+    When the caller invokes archimate_git_checkout with ref "main"
+    Then the model on disk no longer contains "K8s"
+    And the status reports branch "main"
+
+  Scenario: Checking out is refused while the open model has unsaved changes
+    Given a branch "feature" where Node "K8s" is committed as "Add hosting"
+    And "CRM" is renamed to "CRM Cloud" in the open model without saving
+    When the caller invokes archimate_git_checkout with ref "main"
+    Then the checkout is refused because the model has unsaved changes
+    And the status reports branch "feature"
+    When the caller invokes archimate_git_checkout with ref "main" and discard_changes true
+    Then the status reports branch "main"
+    And the model on disk no longer contains "K8s"
+
+  Scenario: Undoing back to the saved model leaves no unsaved changes
+    Given "CRM" is renamed to "CRM Cloud" in the open model without saving
+    When the rename is undone
+    Then the open model has no unsaved changes
+
+  Scenario: Unknown revisions are reported
+    When the caller reads the model at ref "no-such-tag"
+    Then the revision does not resolve
+
+  Scenario: Refs that git would read as options are refused
+    When the caller invokes archimate_git_checkout with ref "--orphan=scratch"
+    Then the error says refs cannot start with "-"
+    And the status reports branch "main"
+    And reading the model at ref "--output=leak.txt" is refused
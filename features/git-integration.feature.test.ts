@@ -0,0 +1,277 @@
+import { loadFeature, describeFeature } from '@amiceli/vitest-cucumber';
+import { expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  git,
+  findModelRepository,
+  getStatus,
+  getModelLog,
+  commitModel,
+  checkout,
+  resolveRef,
+  readModelAtCommit,
+  diffCommit,
+  type GitCommit,
+  type GitStatus,
+  type ModelRepository,
+} from '../src/git/repository.js';
+import { countChanges, type ModelDiff } from '../src/model/diff.js';
+import { writeModel } from '../src/model/writer.js';
+import { parseModelComplete, getAllElements } from '../src/model/parser.js';
+import {
+  createEmptyModel,
+  createElement,
+  addElementToModel,
+  resetIdCounter,
+} from '../src/__tests__/fixtures/sample-model.js';
+import { ModelHistory, updateElementCommand } from '../src/model/history.js';
+import type { ArchiMateModel } from '../src/model/types.js';
+
+const feature = await loadFeature('./features/git-integration.feature');
+
+function names(model: ArchiMateModel): string[] {
+  return getAllElements(model).map((e) => e.name).sort();
+}
+
+describeFeature(feature, ({ Background, Scenario, AfterEachScenario }) => {
+  let dir: string;
+  let model: ArchiMateModel;
+  let repo: ModelRepository;
+  let status: GitStatus;
+  let commit: GitCommit;
+  let diff: ModelDiff;
+  let history: ModelHistory;
+
+  AfterEachScenario(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  // The checks archimate_git_checkout makes before touching the working tree
+  async function checkoutUnlessModified(ref: string, discardChanges: boolean): Promise<string | null> {
+    if (history.isModified() && !discardChanges) {
+      return 'Error: Model "landscape" has unsaved changes. Save or commit them first, or pass discard_changes: true to drop them';
+    }
+    await checkout(repo, ref);
+    history = new ModelHistory();
+    model = await parseModelComplete(dir);
+    return null;
+  }
+
+  function renameWithoutSaving(): void {
+    history.execute(model, updateElementCommand(getAllElements(model)[0].id, { name: 'CRM Cloud' }));
+  }
+
+  async function addNodeAndCommit(): Promise<void> {
+    addElementToModel(model, createElement('Node', 'K8s'));
+    await writeModel(model, dir);
+    await commitModel(repo, 'Add hosting');
+  }
+
+  Background(({ Given }) => {
+    Given('a git repository with a model "Landscape" containing ApplicationComponent "CRM", committed as "Initial model"', async () => {
+      resetIdCounter();
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'feature-git-'));
+      await git(dir, ['init', '--initial-branch=main']);
+      await git(dir, ['config', 'user.name', 'Test Architect']);
+      await git(dir, ['config', 'user.email', 'architect@example.com']);
+      await git(dir, ['config', 'commit.gpgsign', 'false']);
+
+      model = createEmptyModel('Landscape');
+      addElementToModel(model, createElement('ApplicationComponent', 'CRM'));
+      await writeModel(model, dir);
+      repo = await findModelRepository(dir);
+      await commitModel(repo, 'Initial model');
+      history = new ModelHistory();
+    });
+  });
+
+  Scenario('Status reports uncommitted model changes', ({ Given, When, Then }) => {
+    Given('"CRM" is renamed to "CRM Cloud" and the model is saved', async () => {
+      getAllElements(model)[0].name = 'CRM Cloud';
+      await writeModel(model, dir);
+    });
+
+    When('the caller invokes archimate_git_status', async () => {
+      status = await getStatus(repo);
+    });
+
+    Then('the status reports branch "main" with model.archimate modified', () => {
+      expect(status.branch).toBe('main');
+      expect(status.modelFile).toBe('model.archimate');
+      expect(status.modelModified).toBe(true);
+      expect(status.files).toEqual([{ code: ' M', path: 'model.archimate' }]);
+    });
+  });
+
+  Scenario('Committing the model pairs the commit with its semantic diff', ({ Given, When, Then, And }) => {
+    Given('Node "K8s" is added to the model and the model is saved', async () => {
+      addElementToModel(model, createElement('Node', 'K8s'));
+      await writeModel(model, dir);
+    });
+
+    When('the caller invokes archimate_git_commit with message "Add hosting"', async () => {
+      commit = await commitModel(repo, 'Add hosting');
+      diff = await diffCommit(repo, commit.hash);
+    });
+
+    Then('the working tree is clean', async () => {
+      expect(commit.subject).toBe('Add hosting');
+      expect((await getStatus(repo)).clean).toBe(true);
+    });
+
+    And('the diff of the new commit lists "K8s" as an added element', () => {
+      expect(diff.elements.added).toEqual([expect.objectContaining({ type: 'Node', name: 'K8s' })]);
+      expect(diff.elements.removed).toEqual([]);
+      expect(diff.elements.changed).toEqual([]);
+    });
+  });
+
+  Scenario('The log lists model commits newest first with their changes', ({ Given, When, Then, And }) => {
+    let log: GitCommit[];
+    let diffs: ModelDiff[];
+
+    Given('Node "K8s" is added to the model and committed as "Add hosting"', addNodeAndCommit);
+
+    When('the caller invokes archimate_git_log', async () => {
+      log = await getModelLog(repo);
+      diffs = await Promise.all(log.map((c) => diffCommit(repo, c.hash)));
+    });
+
+    Then('the log lists "Add hosting" then "Initial model"', () => {
+      expect(log.map((c) => c.subject)).toEqual(['Add hosting', 'Initial model']);
+      expect(log[0].author).toBe('Test Architect');
+    });
+
+    And('"Add hosting" has 1 added element and "Initial model" has 1 added element', () => {
+      expect(countChanges(diffs[0]).elements).toEqual({ added: 1, removed: 0, changed: 0 });
+      expect(diffs[1].elements.added.map((e) => e.name)).toEqual(['CRM']);
+    });
+  });
+
+  Scenario('The model can be read as it was at a tag', ({ Given, And, When, Then }) => {
+    let opened: ArchiMateModel | null;
+
+    Given('the initial commit is tagged "v1"', async () => {
+      await git(dir, ['tag', 'v1']);
+    });
+
+    And('Node "K8s" is added to the model and committed as "Add hosting"', addNodeAndCommit);
+
+    When('the caller invokes archimate_git_open_at_commit with ref "v1"', async () => {
+      opened = await readModelAtCommit(repo, 'v1');
+    });
+
+    Then('the opened model contains "CRM" but not "K8s"', async () => {
+      expect(names(opened!)).toEqual(['CRM']);
+      expect(names(await parseModelComplete(dir))).toEqual(['CRM', 'K8s']);
+    });
+  });
+
+  Scenario('Checking out a branch changes the model on disk', ({ Given, When, Then, And }) => {
+    Given('a branch "feature" where Node "K8s" is committed as "Add hosting"', async () => {
+      await git(dir, ['checkout', '-b', 'feature']);
+      await addNodeAndCommit();
+    });
+
+    When('the caller invokes archimate_git_checkout with ref "main"', async () => {
+      await checkout(repo, 'main');
+    });
+
+    Then('the model on disk no longer contains "K8s"', async () => {
+      expect(names(await parseModelComplete(dir))).toEqual(['CRM']);
+    });
+
+    And('the status reports branch "main"', async () => {
+      expect((await getStatus(repo)).branch).toBe('main');
+    });
+  });
+
+  Scenario('Checking out is refused while the open model has unsaved changes', ({ Given, And, When, Then }) => {
+    let error: string | null;
+
+    Given('a branch "feature" where Node "K8s" is committed as "Add hosting"', async () => {
+      await git(dir, ['checkout', '-b', 'feature']);
+      await addNodeAndCommit();
+    });
+
+    And('"CRM" is renamed to "CRM Cloud" in the open model without saving', renameWithoutSaving);
+
+    When('the caller invokes archimate_git_checkout with ref "main"', async () => {
+      error = await checkoutUnlessModified('main', false);
+    });
+
+    Then('the checkout is refused because the model has unsaved changes', () => {
+      expect(error).toContain('has unsaved changes');
+      expect(error).toContain('discard_changes: true');
+    });
+
+    And('the status reports branch "feature"', async () => {
+      expect((await getStatus(repo)).branch).toBe('feature');
+    });
+
+    When('the caller invokes archimate_git_checkout with ref "main" and discard_changes true', async () => {
+      error = await checkoutUnlessModified('main', true);
+    });
+
+    Then('the status reports branch "main"', async () => {
+      expect(error).toBeNull();
+      expect((await getStatus(repo)).branch).toBe('main');
+    });
+
+    And('the model on disk no longer contains "K8s"', async () => {
+      expect(names(model)).toEqual(['CRM']);
+      expect(names(await parseModelComplete(dir))).toEqual(['CRM']);
+    });
+  });
+
+  Scenario('Undoing back to the saved model leaves no unsaved changes', ({ Given, When, Then }) => {
+    Given('"CRM" is renamed to "CRM Cloud" in the open model without saving', () => {
+      renameWithoutSaving();
+      expect(history.isModified()).toBe(true);
+    });
+
+    When('the rename is undone', () => {
+      history.undo(model);
+    });
+
+    Then('the open model has no unsaved changes', () => {
+      expect(history.isModified()).toBe(false);
+    });
+  });
+
+  Scenario('Unknown revisions are reported', ({ When, Then }) => {
+    let resolved: string | null;
+
+    When('the caller reads the model at ref "no-such-tag"', async () => {
+      resolved = await resolveRef(repo, 'no-such-tag');
+    });
+
+    Then('the revision does not resolve', async () => {
+      expect(resolved).toBeNull();
+      await expect(readModelAtCommit(repo, 'no-such-tag')).rejects.toThrow(/git show failed/);
+    });
+  });
+
+  Scenario('Refs that git would read as options are refused', ({ When, Then, And }) => {
+    let error: Error | undefined;
+
+    When('the caller invokes archimate_git_checkout with ref "--orphan=scratch"', async () => {
+      error = await checkout(repo, '--orphan=scratch').then(() => undefined, (e: Error) => e);
+    });
+
+    Then('the error says refs cannot start with "-"', () => {
+      expect(error?.message).toBe('Invalid ref "--orphan=scratch": refs cannot start with "-"');
+    });
+
+    And('the status reports branch "main"', async () => {
+      expect((await getStatus(repo)).branch).toBe('main');
+    });
+
+    And('reading the model at ref "--output=leak.txt" is refused', async () => {
+      await expect(readModelAtCommit(repo, '--output=leak.txt')).rejects.toThrow('refs cannot start with "-"');
+      expect(fs.existsSync(path.join(dir, 'leak.txt'))).toBe(false);
+    });
+  });
+});
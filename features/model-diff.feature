@@ -0,0 +1,52 @@
+Feature: Model diff
+  Reviewers can see what changed between two models, or between a model
+  and a saved version of it, in ArchiMate terms instead of raw XML.
+  Concepts are matched by ID; the report is JSON plus a Markdown summary.
+
+  Scenario: Identical models produce no changes
+    Given a model saved to disk and reopened
+    When the caller invokes archimate_diff_models with the saved repository as base
+    Then the diff reports no changes
+    And the Markdown summary says "No changes."
+
+  Scenario: Added, removed, and changed elements are reported
+    Given a base model with ApplicationComponents "CRM" and "Legacy ERP"
+    And a copy where "CRM" is renamed "CRM Cloud", "Legacy ERP" is deleted, and Node "K8s" is added
+    When the caller invokes archimate_diff_models
+    Then "K8s" is listed as an added element
+    And "Legacy ERP" is listed as a removed element
+    And "CRM Cloud" is listed as changed with name "CRM" → "CRM Cloud"
+
+  Scenario: Property changes are reported per key
+    Given a base model where "CRM" has properties lifecycle=active and owner=Sales
+    And a copy where lifecycle=retiring, owner is removed, and cost=low is added
+    When the caller invokes archimate_diff_models
+    Then the "CRM" change lists lifecycle changed, owner removed, and cost added
+
+  Scenario: Property changes on views and the model are reported
+    Given a base model with a view "Landscape" and no properties
+    And a copy where "Landscape" has audience=Board and the model has classification=internal
+    When the caller invokes archimate_diff_models
+    Then the "Landscape" change and the model changes list the added properties
+    And the Markdown summary shows both
+
+  Scenario: Reconnected relationships are reported as changed
+    Given a base model with a Serving relationship from "CRM" to "Sell"
+    And a copy where the relationship now targets "Support"
+    When the caller invokes archimate_diff_models
+    Then the relationship is listed as changed with targetId from "Sell" to "Support"
+
+  Scenario: Moved, resized, and reparented diagram objects are reported
+    Given a base view "Main" with "CRM" at (20, 20) and "Sell" at (200, 20)
+    And a copy where "CRM" is moved to (40, 60), "Sell" is resized to 160×80 and nested inside a new Node object
+    When the caller invokes archimate_diff_models
+    Then the view change lists "CRM" moved from (20, 20) to (40, 60)
+    And "Sell" resized and reparented under the Node object
+    And the Node object is listed as an added diagram object
+
+  Scenario: The Markdown summary lists every change for reviewers
+    Given a base model with ApplicationComponents "CRM" and "Legacy ERP"
+    And a copy where "CRM" is renamed "CRM Cloud", "Legacy ERP" is deleted, and Node "K8s" is added
+    When the caller requests the Markdown summary
+    Then the summary counts 1 added, 1 removed, and 1 changed element
+    And the summary contains one line per element change
@@ -0,0 +1,267 @@
+import { loadFeature, describeFeature } from '@amiceli/vitest-cucumber';
+import { expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { diffModels, formatDiffMarkdown, type ModelDiff } from '../src/model/diff.js';
+import { writeModel } from '../src/model/writer.js';
+import { parseModelComplete, getElementById } from '../src/model/parser.js';
+import {
+  createEmptyModel,
+  createTestModelWithView,
+  createElement,
+  createRelationship,
+  createDiagram,
+  createDiagramObject,
+  addElementToModel,
+  resetIdCounter,
+} from '../src/__tests__/fixtures/sample-model.js';
+import type { ArchiMateElement, ArchiMateModel } from '../src/model/types.js';
+
+const feature = await loadFeature('./features/model-diff.feature');
+
+function findByName(model: ArchiMateModel, name: string): ArchiMateElement {
+  for (const folder of model.folders) {
+    const found = folder.elements.find((e) => e.name === name);
+    if (found) return found;
+  }
+  throw new Error(`No element named ${name}`);
+}
+
+describeFeature(feature, ({ Scenario }) => {
+  let base: ArchiMateModel;
+  let target: ArchiMateModel;
+  let diff: ModelDiff;
+
+  function givenRenamedDeletedAdded(): void {
+    target = structuredClone(base);
+    findByName(target, 'CRM').name = 'CRM Cloud';
+    const application = target.folders.find((f) => f.type === 'application')!;
+    application.elements = application.elements.filter((e) => e.name !== 'Legacy ERP');
+    addElementToModel(target, createElement('Node', 'K8s'));
+  }
+
+  function givenCrmAndLegacy(): void {
+    resetIdCounter();
+    base = createEmptyModel();
+    addElementToModel(base, createElement('ApplicationComponent', 'CRM'));
+    addElementToModel(base, createElement('ApplicationComponent', 'Legacy ERP'));
+  }
+
+  Scenario('Identical models produce no changes', ({ Given, When, Then, And }) => {
+    let dir: string;
+
+    Given('a model saved to disk and reopened', async () => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'feature-diff-'));
+      await writeModel(createTestModelWithView(), dir);
+      target = await parseModelComplete(dir);
+    });
+
+    When('the caller invokes archimate_diff_models with the saved repository as base', async () => {
+      base = await parseModelComplete(dir);
+      diff = diffModels(base, target);
+    });
+
+    Then('the diff reports no changes', () => {
+      expect(diff.hasChanges).toBe(false);
+      expect(diff.elements).toEqual({ added: [], removed: [], changed: [] });
+    });
+
+    And('the Markdown summary says "No changes."', () => {
+      expect(formatDiffMarkdown(diff)).toContain('No changes.');
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+  });
+
+  Scenario('Added, removed, and changed elements are reported', ({ Given, And, When, Then }) => {
+    Given('a base model with ApplicationComponents "CRM" and "Legacy ERP"', givenCrmAndLegacy);
+
+    And('a copy where "CRM" is renamed "CRM Cloud", "Legacy ERP" is deleted, and Node "K8s" is added', givenRenamedDeletedAdded);
+
+    When('the caller invokes archimate_diff_models', () => {
+      diff = diffModels(base, target);
+    });
+
+    Then('"K8s" is listed as an added element', () => {
+      expect(diff.elements.added.map((e) => [e.type, e.name])).toEqual([['Node', 'K8s']]);
+    });
+
+    And('"Legacy ERP" is listed as a removed element', () => {
+      expect(diff.elements.removed.map((e) => e.name)).toEqual(['Legacy ERP']);
+    });
+
+    And('"CRM Cloud" is listed as changed with name "CRM" → "CRM Cloud"', () => {
+      expect(diff.elements.changed).toHaveLength(1);
+      expect(diff.elements.changed[0].name).toBe('CRM Cloud');
+      expect(diff.elements.changed[0].changes).toEqual([{ field: 'name', before: 'CRM', after: 'CRM Cloud' }]);
+    });
+  });
+
+  Scenario('Property changes are reported per key', ({ Given, And, When, Then }) => {
+    Given('a base model where "CRM" has properties lifecycle=active and owner=Sales', () => {
+      resetIdCounter();
+      base = createEmptyModel();
+      const crm = createElement('ApplicationComponent', 'CRM');
+      crm.properties = [{ key: 'lifecycle', value: 'active' }, { key: 'owner', value: 'Sales' }];
+      addElementToModel(base, crm);
+    });
+
+    And('a copy where lifecycle=retiring, owner is removed, and cost=low is added', () => {
+      target = structuredClone(base);
+      findByName(target, 'CRM').properties = [{ key: 'lifecycle', value: 'retiring' }, { key: 'cost', value: 'low' }];
+    });
+
+    When('the caller invokes archimate_diff_models', () => {
+      diff = diffModels(base, target);
+    });
+
+    Then('the "CRM" change lists lifecycle changed, owner removed, and cost added', () => {
+      const change = diff.elements.changed[0];
+      expect(change.changes).toEqual([]);
+      expect(change.properties).toEqual([
+        { key: 'lifecycle', before: 'active', after: 'retiring' },
+        { key: 'owner', before: 'Sales' },
+        { key: 'cost', after: 'low' },
+      ]);
+    });
+  });
+
+  Scenario('Property changes on views and the model are reported', ({ Given, And, When, Then }) => {
+    Given('a base model with a view "Landscape" and no properties', () => {
+      resetIdCounter();
+      base = createEmptyModel();
+      base.diagrams.push(createDiagram('Landscape'));
+    });
+
+    And('a copy where "Landscape" has audience=Board and the model has classification=internal', () => {
+      target = structuredClone(base);
+      target.diagrams[0].properties = [{ key: 'audience', value: 'Board' }];
+      target.properties = [{ key: 'classification', value: 'internal' }];
+    });
+
+    When('the caller invokes archimate_diff_models', () => {
+      diff = diffModels(base, target);
+    });
+
+    Then('the "Landscape" change and the model changes list the added properties', () => {
+      expect(diff.hasChanges).toBe(true);
+      expect(diff.diagrams.changed[0].properties).toEqual([{ key: 'audience', after: 'Board' }]);
+      expect(diff.modelProperties).toEqual([{ key: 'classification', after: 'internal' }]);
+    });
+
+    And('the Markdown summary shows both', () => {
+      const markdown = formatDiffMarkdown(diff);
+      expect(markdown).toContain('## Model\n\n- property `classification` added: "internal"');
+      expect(markdown).toContain('  - property `audience` added: "Board"');
+    });
+  });
+
+  Scenario('Reconnected relationships are reported as changed', ({ Given, And, When, Then }) => {
+    let supportId: string;
+    let sellId: string;
+
+    Given('a base model with a Serving relationship from "CRM" to "Sell"', () => {
+      resetIdCounter();
+      base = createEmptyModel();
+      const crm = createElement('ApplicationComponent', 'CRM');
+      const sell = createElement('BusinessProcess', 'Sell');
+      const support = createElement('BusinessProcess', 'Support');
+      [crm, sell, support].forEach((e) => addElementToModel(base, e));
+      sellId = sell.id;
+      supportId = support.id;
+      base.relationships.push(createRelationship('Serving', crm.id, sell.id));
+    });
+
+    And('a copy where the relationship now targets "Support"', () => {
+      target = structuredClone(base);
+      target.relationships[0].targetId = supportId;
+    });
+
+    When('the caller invokes archimate_diff_models', () => {
+      diff = diffModels(base, target);
+    });
+
+    Then('the relationship is listed as changed with targetId from "Sell" to "Support"', () => {
+      expect(diff.relationships.changed).toHaveLength(1);
+      expect(diff.relationships.changed[0].name).toBe('CRM → Support');
+      expect(diff.relationships.changed[0].changes).toEqual([{ field: 'targetId', before: sellId, after: supportId }]);
+      expect(diff.elements.changed).toEqual([]);
+    });
+  });
+
+  Scenario('Moved, resized, and reparented diagram objects are reported', ({ Given, And, When, Then }) => {
+    let nodeObjId: string;
+
+    Given('a base view "Main" with "CRM" at (20, 20) and "Sell" at (200, 20)', () => {
+      resetIdCounter();
+      base = createEmptyModel();
+      const crm = createElement('ApplicationComponent', 'CRM');
+      const sell = createElement('BusinessProcess', 'Sell');
+      addElementToModel(base, crm);
+      addElementToModel(base, sell);
+      addElementToModel(base, createElement('Node', 'Server'));
+      base.diagrams.push(createDiagram('Main', [createDiagramObject(crm.id, 20, 20), createDiagramObject(sell.id, 200, 20)]));
+    });
+
+    And('a copy where "CRM" is moved to (40, 60), "Sell" is resized to 160×80 and nested inside a new Node object', () => {
+      target = structuredClone(base);
+      const view = target.diagrams[0];
+      const [crmObj, sellObj] = view.objects;
+      crmObj.bounds = { ...crmObj.bounds, x: 40, y: 60 };
+      sellObj.bounds = { ...sellObj.bounds, width: 160, height: 80 };
+      const nodeObj = createDiagramObject(findByName(target, 'Server').id, 180, 0, 300, 200);
+      nodeObj.children = [sellObj];
+      nodeObjId = nodeObj.id;
+      view.objects = [crmObj, nodeObj];
+    });
+
+    When('the caller invokes archimate_diff_models', () => {
+      diff = diffModels(base, target);
+    });
+
+    Then('the view change lists "CRM" moved from (20, 20) to (40, 60)', () => {
+      expect(diff.diagrams.changed).toHaveLength(1);
+      const crm = diff.diagrams.changed[0].objects.changed.find((o) => o.elementName === 'CRM');
+      expect(crm?.changes).toEqual([{ field: 'position', before: { x: 20, y: 20 }, after: { x: 40, y: 60 } }]);
+    });
+
+    And('"Sell" resized and reparented under the Node object', () => {
+      const sell = diff.diagrams.changed[0].objects.changed.find((o) => o.elementName === 'Sell');
+      expect(sell?.changes).toEqual([
+        { field: 'parent', before: null, after: nodeObjId },
+        { field: 'size', before: { width: 120, height: 55 }, after: { width: 160, height: 80 } },
+      ]);
+    });
+
+    And('the Node object is listed as an added diagram object', () => {
+      expect(diff.diagrams.changed[0].objects.added.map((o) => o.elementName)).toEqual(['Server']);
+      expect(formatDiffMarkdown(diff)).toContain('"CRM": moved (20, 20) → (40, 60)');
+    });
+  });
+
+  Scenario('The Markdown summary lists every change for reviewers', ({ Given, And, When, Then }) => {
+    let markdown: string;
+
+    Given('a base model with ApplicationComponents "CRM" and "Legacy ERP"', givenCrmAndLegacy);
+
+    And('a copy where "CRM" is renamed "CRM Cloud", "Legacy ERP" is deleted, and Node "K8s" is added', givenRenamedDeletedAdded);
+
+    When('the caller requests the Markdown summary', () => {
+      markdown = formatDiffMarkdown(diffModels(base, target), 'Review');
+    });
+
+    Then('the summary counts 1 added, 1 removed, and 1 changed element', () => {
+      expect(markdown).toContain('# Review');
+      expect(markdown).toContain('- Elements: 1 added, 1 removed, 1 changed');
+    });
+
+    And('the summary contains one line per element change', () => {
+      const crm = findByName(target, 'CRM Cloud');
+      expect(markdown).toContain('- Added Node "K8s"');
+      expect(markdown).toContain('- Removed ApplicationComponent "Legacy ERP"');
+      expect(markdown).toContain(`- Changed ApplicationComponent "CRM Cloud" (\`${crm.id}\`)`);
+      expect(markdown).toContain('  - name: "CRM" → "CRM Cloud"');
+      expect(getElementById(base, crm.id)?.name).toBe('CRM');
+    });
+  });
+});
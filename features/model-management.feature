@@ -1,6 +1,8 @@
 Feature: Model management
   An MCP caller can create new ArchiMate models, open existing coArchi2
-  repositories, and save changes back to disk.
+  repositories, and save changes back to disk. Several models can be open
+  at once under named handles, so a baseline and a target-state repository
+  can be worked on side by side in one session.
 
   Scenario: Create a new empty model in a fresh directory
     Given an empty directory at "/tmp/new-model"
@@ -32,3 +34,54 @@ Feature: Model management
     When the caller invokes archimate_save_model with path "/tmp/elsewhere"
     Then the model is written to "/tmp/elsewhere/model.archimate"
     And subsequent saves with no path target the new path
+
+  Scenario: Open a second model without losing the first
+    Given the caller opened a coArchi2 repository at "/repos/baseline"
+    When the caller invokes archimate_open_model with path "/repos/target"
+    Then the response returns the handle "target"
+    And archimate_list_models lists "baseline" and "target" with "target" active
+
+  Scenario: Default handles stay unique
+    Given the caller opened a model from "/repos/a/model" and another from "/repos/b/model"
+    Then the handles are "model" and "model-2"
+    And opening "/repos/a/model" again with replace reuses the handle "model"
+
+  Scenario: Opening over a model that is already open is refused
+    Given models open under the handles "baseline" and "target"
+    When the caller invokes archimate_open_model with path "/repos/staging" and handle "baseline"
+    Then the error says a model is already open under the handle "baseline"
+    And the baseline model is unchanged
+    When the caller invokes archimate_open_model with path "/repos/staging", handle "baseline", and replace true
+    Then the "baseline" handle holds the staging model and is active
+
+  Scenario: Switch the active model
+    Given models open under the handles "baseline" and "target"
+    When the caller invokes archimate_switch_model with model "baseline"
+    Then tools called without a model argument use the baseline model
+    And tools called with model "target" use the target model
+
+  Scenario: Switching to an unknown handle fails clearly
+    Given models open under the handles "baseline" and "target"
+    When the caller invokes archimate_switch_model with model "staging"
+    Then no session is returned
+    And "target" stays active
+
+  Scenario: Copy elements between models keeping their IDs
+    Given a baseline model with ApplicationComponent "CRM" serving BusinessProcess "Sell"
+    And an empty target model
+    When the caller invokes archimate_copy_elements for both elements into "target"
+    Then the target contains "CRM" and "Sell" with their baseline IDs
+    And the Serving relationship is copied with them
+
+  Scenario: Copying skips elements the target already has
+    Given a baseline model with ApplicationComponent "CRM" serving BusinessProcess "Sell"
+    And a target model that already contains "Sell" with the same ID
+    When the caller invokes archimate_copy_elements for both elements into "target"
+    Then only "CRM" is copied and "Sell" is reported as skipped
+    And the Serving relationship to the existing "Sell" is copied
+
+  Scenario: Each open model keeps its own undo history
+    Given models open under the handles "baseline" and "target"
+    And the caller created an element in each model
+    When the caller invokes archimate_undo with model "baseline"
+    Then only the baseline element is removed
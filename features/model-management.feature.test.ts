@@ -9,7 +9,9 @@ import {
   createElement,
   resetIdCounter,
 } from '../src/__tests__/fixtures/sample-model.js';
-import type { ArchiMateModel } from '../src/model/types.js';
+import { ModelRegistry, planElementCopy, type ElementCopyPlan, type ModelSession } from '../src/model/sessions.js';
+import { addElementCommand, addRelationshipCommand, compositeCommand } from '../src/model/history.js';
+import type { ArchiMateElement, ArchiMateModel, ArchiMateRelationship } from '../src/model/types.js';
 
 const feature = await loadFeature('./features/model-management.feature');
 
@@ -17,6 +19,21 @@ function freshTempDir(): string {
   return fs.mkdtempSync(path.join(os.tmpdir(), 'feature-model-'));
 }
 
+function openTwoModels(registry: ModelRegistry): void {
+  registry.open(writerCreateEmptyModel('Baseline', 'id-baseline'), '/repos/baseline');
+  registry.open(writerCreateEmptyModel('Target', 'id-target'), '/repos/target');
+}
+
+/** Mirrors the archimate_copy_elements handler: plan, then record one undoable change on the target */
+function copyElements(source: ModelSession, target: ModelSession, elementIds: string[]): ElementCopyPlan {
+  const plan = planElementCopy(source.model, target.model, elementIds, true);
+  target.history.execute(target.model, compositeCommand('Copy', [
+    ...plan.elements.map((e) => addElementCommand(e)),
+    ...plan.relationships.map((r) => addRelationshipCommand(r)),
+  ]));
+  return plan;
+}
+
 describeFeature(feature, ({ Scenario }) => {
   Scenario('Create a new empty model in a fresh directory', ({ Given, When, Then, And }) => {
     let dir: string;
@@ -167,4 +184,230 @@ describeFeature(feature, ({ Scenario }) => {
       fs.rmSync(newDir, { recursive: true, force: true });
     });
   });
+
+  Scenario('Open a second model without losing the first', ({ Given, When, Then, And }) => {
+    const registry = new ModelRegistry();
+    let opened: ModelSession;
+
+    Given('the caller opened a coArchi2 repository at "/repos/baseline"', () => {
+      registry.open(writerCreateEmptyModel('Baseline', 'id-baseline'), '/repos/baseline');
+    });
+
+    When('the caller invokes archimate_open_model with path "/repos/target"', () => {
+      opened = registry.open(writerCreateEmptyModel('Target', 'id-target'), '/repos/target');
+    });
+
+    Then('the response returns the handle "target"', () => {
+      expect(opened.handle).toBe('target');
+    });
+
+    And('archimate_list_models lists "baseline" and "target" with "target" active', () => {
+      expect(registry.list()).toEqual([
+        { handle: 'baseline', name: 'Baseline', path: '/repos/baseline', active: false },
+        { handle: 'target', name: 'Target', path: '/repos/target', active: true },
+      ]);
+    });
+  });
+
+  Scenario('Default handles stay unique', ({ Given, Then, And }) => {
+    const registry = new ModelRegistry();
+    let first: ModelSession;
+    let second: ModelSession;
+
+    Given('the caller opened a model from "/repos/a/model" and another from "/repos/b/model"', () => {
+      first = registry.open(writerCreateEmptyModel('A', 'id-a'), '/repos/a/model');
+      second = registry.open(writerCreateEmptyModel('B', 'id-b'), '/repos/b/model/model.archimate');
+    });
+
+    Then('the handles are "model" and "model-2"', () => {
+      expect(first.handle).toBe('model');
+      expect(second.handle).toBe('model-2');
+    });
+
+    And('opening "/repos/a/model" again with replace reuses the handle "model"', () => {
+      expect(() => registry.open(writerCreateEmptyModel('A', 'id-a'), '/repos/a/model')).toThrow('already open');
+      const reopened = registry.open(writerCreateEmptyModel('A', 'id-a'), '/repos/a/model', undefined, { replace: true });
+      expect(reopened.handle).toBe('model');
+      expect(registry.list()).toHaveLength(2);
+    });
+  });
+
+  Scenario('Opening over a model that is already open is refused', ({ Given, When, Then, And }) => {
+    const registry = new ModelRegistry();
+    const staging = () => registry.open(writerCreateEmptyModel('Staging', 'id-staging'), '/repos/staging', 'baseline', { replace });
+    let replace = false;
+    let error: Error | undefined;
+
+    Given('models open under the handles "baseline" and "target"', () => {
+      openTwoModels(registry);
+    });
+
+    When('the caller invokes archimate_open_model with path "/repos/staging" and handle "baseline"', () => {
+      try {
+        staging();
+      } catch (e) {
+        error = e as Error;
+      }
+    });
+
+    Then('the error says a model is already open under the handle "baseline"', () => {
+      expect(error?.message).toBe('A model is already open under the handle "baseline"; pass replace: true to replace it');
+    });
+
+    And('the baseline model is unchanged', () => {
+      expect(registry.get('baseline')?.model.id).toBe('id-baseline');
+      expect(registry.get('baseline')?.path).toBe('/repos/baseline');
+      expect(registry.getActive()?.handle).toBe('target');
+    });
+
+    When('the caller invokes archimate_open_model with path "/repos/staging", handle "baseline", and replace true', () => {
+      replace = true;
+      staging();
+    });
+
+    Then('the "baseline" handle holds the staging model and is active', () => {
+      expect(registry.get('baseline')?.model.id).toBe('id-staging');
+      expect(registry.getActive()?.handle).toBe('baseline');
+      expect(registry.list()).toHaveLength(2);
+    });
+  });
+
+  Scenario('Switch the active model', ({ Given, When, Then, And }) => {
+    const registry = new ModelRegistry();
+
+    Given('models open under the handles "baseline" and "target"', () => {
+      openTwoModels(registry);
+    });
+
+    When('the caller invokes archimate_switch_model with model "baseline"', () => {
+      registry.switchTo('baseline');
+    });
+
+    Then('tools called without a model argument use the baseline model', () => {
+      expect(registry.getActive()?.model.id).toBe('id-baseline');
+    });
+
+    And('tools called with model "target" use the target model', () => {
+      expect(registry.get('target')?.model.id).toBe('id-target');
+    });
+  });
+
+  Scenario('Switching to an unknown handle fails clearly', ({ Given, When, Then, And }) => {
+    const registry = new ModelRegistry();
+    let result: ModelSession | undefined;
+
+    Given('models open under the handles "baseline" and "target"', () => {
+      openTwoModels(registry);
+    });
+
+    When('the caller invokes archimate_switch_model with model "staging"', () => {
+      result = registry.switchTo('staging');
+    });
+
+    Then('no session is returned', () => {
+      expect(result).toBeUndefined();
+    });
+
+    And('"target" stays active', () => {
+      expect(registry.getActive()?.handle).toBe('target');
+    });
+  });
+
+  Scenario('Copy elements between models keeping their IDs', ({ Given, And, When, Then }) => {
+    const registry = new ModelRegistry();
+    let crm: ArchiMateElement;
+    let sell: ArchiMateElement;
+    let serving: ArchiMateRelationship;
+
+    Given('a baseline model with ApplicationComponent "CRM" serving BusinessProcess "Sell"', () => {
+      resetIdCounter();
+      const baseline = registry.open(writerCreateEmptyModel('Baseline', 'id-baseline'), '/repos/baseline');
+      crm = createElement('ApplicationComponent', 'CRM');
+      sell = createElement('BusinessProcess', 'Sell');
+      writerAddElementToModel(baseline.model, crm);
+      writerAddElementToModel(baseline.model, sell);
+      serving = { id: 'id-serving', type: 'Serving', sourceId: crm.id, targetId: sell.id };
+      baseline.model.relationships.push(serving);
+    });
+
+    And('an empty target model', () => {
+      registry.open(writerCreateEmptyModel('Target', 'id-target'), '/repos/target');
+    });
+
+    When('the caller invokes archimate_copy_elements for both elements into "target"', () => {
+      copyElements(registry.get('baseline')!, registry.get('target')!, [crm.id, sell.id]);
+    });
+
+    Then('the target contains "CRM" and "Sell" with their baseline IDs', () => {
+      const copied = getAllElements(registry.get('target')!.model);
+      expect(copied.map((e) => [e.id, e.name]).sort()).toEqual([[crm.id, 'CRM'], [sell.id, 'Sell']].sort());
+      expect(copied.find((e) => e.id === crm.id)).not.toBe(crm);
+    });
+
+    And('the Serving relationship is copied with them', () => {
+      expect(registry.get('target')!.model.relationships).toEqual([serving]);
+    });
+  });
+
+  Scenario('Copying skips elements the target already has', ({ Given, And, When, Then }) => {
+    const registry = new ModelRegistry();
+    let crm: ArchiMateElement;
+    let sell: ArchiMateElement;
+    let plan: ElementCopyPlan;
+
+    Given('a baseline model with ApplicationComponent "CRM" serving BusinessProcess "Sell"', () => {
+      resetIdCounter();
+      const baseline = registry.open(writerCreateEmptyModel('Baseline', 'id-baseline'), '/repos/baseline');
+      crm = createElement('ApplicationComponent', 'CRM');
+      sell = createElement('BusinessProcess', 'Sell');
+      writerAddElementToModel(baseline.model, crm);
+      writerAddElementToModel(baseline.model, sell);
+      baseline.model.relationships.push({ id: 'id-serving', type: 'Serving', sourceId: crm.id, targetId: sell.id });
+    });
+
+    And('a target model that already contains "Sell" with the same ID', () => {
+      const target = registry.open(writerCreateEmptyModel('Target', 'id-target'), '/repos/target');
+      writerAddElementToModel(target.model, { ...sell });
+    });
+
+    When('the caller invokes archimate_copy_elements for both elements into "target"', () => {
+      plan = copyElements(registry.get('baseline')!, registry.get('target')!, [crm.id, sell.id]);
+    });
+
+    Then('only "CRM" is copied and "Sell" is reported as skipped', () => {
+      expect(plan.elements.map((e) => e.id)).toEqual([crm.id]);
+      expect(plan.skipped).toEqual([{ id: sell.id, reason: 'already exists in target model' }]);
+      expect(getAllElements(registry.get('target')!.model)).toHaveLength(2);
+    });
+
+    And('the Serving relationship to the existing "Sell" is copied', () => {
+      expect(registry.get('target')!.model.relationships.map((r) => r.id)).toEqual(['id-serving']);
+    });
+  });
+
+  Scenario('Each open model keeps its own undo history', ({ Given, And, When, Then }) => {
+    const registry = new ModelRegistry();
+
+    Given('models open under the handles "baseline" and "target"', () => {
+      resetIdCounter();
+      openTwoModels(registry);
+    });
+
+    And('the caller created an element in each model', () => {
+      for (const handle of ['baseline', 'target']) {
+        const session = registry.get(handle)!;
+        session.history.execute(session.model, addElementCommand(createElement('ApplicationComponent', `${handle} app`)));
+      }
+    });
+
+    When('the caller invokes archimate_undo with model "baseline"', () => {
+      const baseline = registry.get('baseline')!;
+      baseline.history.undo(baseline.model);
+    });
+
+    Then('only the baseline element is removed', () => {
+      expect(getAllElements(registry.get('baseline')!.model)).toEqual([]);
+      expect(getAllElements(registry.get('target')!.model).map((e) => e.name)).toEqual(['target app']);
+    });
+  });
 });
@@ -0,0 +1,84 @@
+Feature: Model merge
+  Two edits of the same coArchi model are merged at the object level, by
+  ID, instead of line by line. Only edits that really disagree are
+  reported as conflicts; every conflict is resolved in favour of one side
+  so the merged model is always complete. The same engine runs as a git
+  merge driver for model.archimate.
+
+  Background:
+    Given a base model with ApplicationComponent "CRM" serving BusinessProcess "Sell" on view "Main"
+
+  Scenario: Independent edits merge cleanly
+    Given ours renames "CRM" to "CRM Cloud"
+    And theirs adds Node "K8s" and sets property lifecycle=active on "CRM"
+    When the caller invokes archimate_merge_models
+    Then the merge is clean
+    And the merged model has "CRM Cloud" with property lifecycle=active and the Node "K8s"
+
+  Scenario: The same element renamed differently on both sides is a conflict
+    Given ours renames "CRM" to "CRM Cloud"
+    And theirs renames "CRM" to "Customer Hub"
+    When the caller invokes archimate_merge_models
+    Then a "modify-modify" conflict is reported for the name of "CRM"
+    And the merged model keeps our name "CRM Cloud"
+
+  Scenario: Conflicts can be resolved in favour of theirs
+    Given ours renames "CRM" to "CRM Cloud"
+    And theirs renames "CRM" to "Customer Hub"
+    When the caller invokes archimate_merge_models with prefer "theirs"
+    Then the merged model uses their name "Customer Hub"
+
+  Scenario: Identical edits on both sides are not a conflict
+    Given ours renames "CRM" to "CRM Cloud"
+    And theirs renames "CRM" to "CRM Cloud"
+    When the caller invokes archimate_merge_models
+    Then the merge is clean
+
+  Scenario: Edits to different properties of one element are not a conflict
+    Given ours sets property owner=Sales on "CRM"
+    And theirs sets property lifecycle=active on "CRM"
+    When the caller invokes archimate_merge_models
+    Then the merge is clean
+    And "CRM" has both properties
+
+  Scenario: A relationship deleted on one side while its connection was edited on the other
+    Given ours adds a bendpoint to the Serving connection on view "Main"
+    And theirs deletes the Serving relationship and its connection
+    When the caller invokes archimate_merge_models
+    Then a "delete-modify" conflict is reported for the connection
+    And the merged model has no Serving relationship and no connection pointing at it
+
+  Scenario: An element deleted on one side while added to a view on the other
+    Given ours adds "Sell" to a new view "Sales"
+    And theirs deletes "Sell"
+    When the caller invokes archimate_merge_models
+    Then a "dangling-reference" conflict is reported for the new diagram object
+    And the merged view "Sales" is empty
+
+  Scenario: A relationship ending on a dropped relationship is dropped too
+    Given ours adds a BusinessEvent "Sold" triggered by "Sell" and associates "CRM" with the triggering
+    And theirs deletes "Sell"
+    When the caller invokes archimate_merge_models
+    Then "dangling-reference" conflicts are reported for the triggering and the association
+    And the merged model has neither relationship
+
+  Scenario: Connections of notes are kept
+    Given ours adds a note on view "Main" connected to "CRM"
+    And theirs renames "CRM" to "Customer Hub"
+    When the caller invokes archimate_merge_models
+    Then the merge is clean
+    And the merged view "Main" still connects the note to "CRM"
+
+  Scenario: Connections drawn to other connections are kept
+    Given ours adds a note on view "Main" connected to the serving connection
+    And theirs renames "CRM" to "Customer Hub"
+    When the caller invokes archimate_merge_models
+    Then the merge is clean
+    And the merged serving connection on view "Main" is the target of the note's connection
+
+  Scenario: The git merge driver merges model.archimate files
+    Given ours renames "CRM" to "CRM Cloud"
+    And theirs adds Node "K8s" and sets property lifecycle=active on "CRM"
+    And the three versions are saved as files the way git hands them to a merge driver
+    When the merge driver merges the files
+    Then the ours file contains "CRM Cloud" and "K8s"
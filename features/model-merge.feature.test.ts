@@ -0,0 +1,358 @@
+import { loadFeature, describeFeature } from '@amiceli/vitest-cucumber';
+import { expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { mergeModels, type MergeResult } from '../src/model/merge.js';
+import { parseModelXml, getAllElements } from '../src/model/parser.js';
+import { serializeModel, removeRelationshipFromModel, removeElementFromModel } from '../src/model/writer.js';
+import {
+  createEmptyModel,
+  createElement,
+  createRelationship,
+  createDiagram,
+  createDiagramObject,
+  createDiagramConnection,
+  addElementToModel,
+  resetIdCounter,
+} from '../src/__tests__/fixtures/sample-model.js';
+import type { ArchiMateElement, ArchiMateModel, DiagramObject } from '../src/model/types.js';
+
+const feature = await loadFeature('./features/model-merge.feature');
+
+function element(model: ArchiMateModel, id: string): ArchiMateElement | undefined {
+  return getAllElements(model).find((e) => e.id === id);
+}
+
+function allObjects(objects: DiagramObject[]): DiagramObject[] {
+  return objects.flatMap((o) => [o, ...allObjects(o.children ?? [])]);
+}
+
+describeFeature(feature, ({ Background, Scenario }) => {
+  let base: ArchiMateModel;
+  let ours: ArchiMateModel;
+  let theirs: ArchiMateModel;
+  let result: MergeResult;
+  let crmId: string;
+  let sellId: string;
+  let servingId: string;
+  let connectionId: string;
+
+  Background(({ Given }) => {
+    Given('a base model with ApplicationComponent "CRM" serving BusinessProcess "Sell" on view "Main"', () => {
+      resetIdCounter();
+      base = createEmptyModel();
+      const crm = createElement('ApplicationComponent', 'CRM');
+      const sell = createElement('BusinessProcess', 'Sell');
+      addElementToModel(base, crm);
+      addElementToModel(base, sell);
+      const serving = createRelationship('Serving', crm.id, sell.id);
+      base.relationships.push(serving);
+
+      const crmObj = createDiagramObject(crm.id, 20, 20);
+      const sellObj = createDiagramObject(sell.id, 220, 20);
+      const conn = createDiagramConnection(crmObj.id, sellObj.id, serving.id);
+      crmObj.sourceConnections = [conn];
+      sellObj.targetConnectionIds = [conn.id];
+      base.diagrams.push(createDiagram('Main', [crmObj, sellObj]));
+
+      crmId = crm.id;
+      sellId = sell.id;
+      servingId = serving.id;
+      connectionId = conn.id;
+      ours = structuredClone(base);
+      theirs = structuredClone(base);
+    });
+  });
+
+  const oursRenames = (name: string) => () => {
+    element(ours, crmId)!.name = name;
+  };
+  const theirsRenames = (name: string) => () => {
+    element(theirs, crmId)!.name = name;
+  };
+  const theirsAddsNodeAndLifecycle = () => {
+    addElementToModel(theirs, createElement('Node', 'K8s'));
+    element(theirs, crmId)!.properties = [{ key: 'lifecycle', value: 'active' }];
+  };
+  const merge = () => {
+    result = mergeModels(base, ours, theirs);
+  };
+
+  Scenario('Independent edits merge cleanly', ({ Given, And, When, Then }) => {
+    Given('ours renames "CRM" to "CRM Cloud"', oursRenames('CRM Cloud'));
+    And('theirs adds Node "K8s" and sets property lifecycle=active on "CRM"', theirsAddsNodeAndLifecycle);
+    When('the caller invokes archimate_merge_models', merge);
+
+    Then('the merge is clean', () => {
+      expect(result.conflicts).toEqual([]);
+      expect(result.clean).toBe(true);
+    });
+
+    And('the merged model has "CRM Cloud" with property lifecycle=active and the Node "K8s"', () => {
+      const crm = element(result.model, crmId)!;
+      expect(crm.name).toBe('CRM Cloud');
+      expect(crm.properties).toEqual([{ key: 'lifecycle', value: 'active' }]);
+      expect(getAllElements(result.model).map((e) => e.name).sort()).toEqual(['CRM Cloud', 'K8s', 'Sell']);
+      expect(result.model.relationships.map((r) => r.id)).toEqual([servingId]);
+      expect(result.model.diagrams[0].objects[0].sourceConnections?.map((c) => c.id)).toEqual([connectionId]);
+    });
+  });
+
+  Scenario('The same element renamed differently on both sides is a conflict', ({ Given, And, When, Then }) => {
+    Given('ours renames "CRM" to "CRM Cloud"', oursRenames('CRM Cloud'));
+    And('theirs renames "CRM" to "Customer Hub"', theirsRenames('Customer Hub'));
+    When('the caller invokes archimate_merge_models', merge);
+
+    Then('a "modify-modify" conflict is reported for the name of "CRM"', () => {
+      expect(result.clean).toBe(false);
+      expect(result.conflicts).toEqual([
+        expect.objectContaining({
+          kind: 'modify-modify',
+          conceptType: 'element',
+          id: crmId,
+          field: 'name',
+          base: 'CRM',
+          ours: 'CRM Cloud',
+          theirs: 'Customer Hub',
+        }),
+      ]);
+    });
+
+    And('the merged model keeps our name "CRM Cloud"', () => {
+      expect(element(result.model, crmId)?.name).toBe('CRM Cloud');
+    });
+  });
+
+  Scenario('Conflicts can be resolved in favour of theirs', ({ Given, And, When, Then }) => {
+    Given('ours renames "CRM" to "CRM Cloud"', oursRenames('CRM Cloud'));
+    And('theirs renames "CRM" to "Customer Hub"', theirsRenames('Customer Hub'));
+
+    When('the caller invokes archimate_merge_models with prefer "theirs"', () => {
+      result = mergeModels(base, ours, theirs, { prefer: 'theirs' });
+    });
+
+    Then('the merged model uses their name "Customer Hub"', () => {
+      expect(element(result.model, crmId)?.name).toBe('Customer Hub');
+      expect(result.conflicts).toHaveLength(1);
+    });
+  });
+
+  Scenario('Identical edits on both sides are not a conflict', ({ Given, And, When, Then }) => {
+    Given('ours renames "CRM" to "CRM Cloud"', oursRenames('CRM Cloud'));
+    And('theirs renames "CRM" to "CRM Cloud"', theirsRenames('CRM Cloud'));
+    When('the caller invokes archimate_merge_models', merge);
+
+    Then('the merge is clean', () => {
+      expect(result.clean).toBe(true);
+      expect(element(result.model, crmId)?.name).toBe('CRM Cloud');
+    });
+  });
+
+  Scenario('Edits to different properties of one element are not a conflict', ({ Given, And, When, Then }) => {
+    Given('ours sets property owner=Sales on "CRM"', () => {
+      element(ours, crmId)!.properties = [{ key: 'owner', value: 'Sales' }];
+    });
+
+    And('theirs sets property lifecycle=active on "CRM"', () => {
+      element(theirs, crmId)!.properties = [{ key: 'lifecycle', value: 'active' }];
+    });
+
+    When('the caller invokes archimate_merge_models', merge);
+
+    Then('the merge is clean', () => {
+      expect(result.conflicts).toEqual([]);
+    });
+
+    And('"CRM" has both properties', () => {
+      expect(element(result.model, crmId)?.properties).toEqual([
+        { key: 'owner', value: 'Sales' },
+        { key: 'lifecycle', value: 'active' },
+      ]);
+    });
+  });
+
+  Scenario('A relationship deleted on one side while its connection was edited on the other', ({ Given, And, When, Then }) => {
+    Given('ours adds a bendpoint to the Serving connection on view "Main"', () => {
+      ours.diagrams[0].objects[0].sourceConnections![0].bendpoints = [{ startX: 120, startY: 80, endX: -60, endY: 80 }];
+    });
+
+    And('theirs deletes the Serving relationship and its connection', () => {
+      removeRelationshipFromModel(theirs, servingId);
+      theirs.diagrams[0].objects[1].targetConnectionIds = [];
+      expect(theirs.diagrams[0].objects[0].sourceConnections).toEqual([]);
+    });
+
+    When('the caller invokes archimate_merge_models', merge);
+
+    Then('a "delete-modify" conflict is reported for the connection', () => {
+      expect(result.conflicts).toEqual([
+        expect.objectContaining({ kind: 'delete-modify', conceptType: 'connection', id: connectionId }),
+      ]);
+    });
+
+    And('the merged model has no Serving relationship and no connection pointing at it', () => {
+      expect(result.model.relationships).toEqual([]);
+      const objects = allObjects(result.model.diagrams[0].objects);
+      expect(objects.flatMap((o) => o.sourceConnections ?? [])).toEqual([]);
+      expect(objects.flatMap((o) => o.targetConnectionIds ?? [])).toEqual([]);
+    });
+  });
+
+  Scenario('An element deleted on one side while added to a view on the other', ({ Given, And, When, Then }) => {
+    let newObjectId: string;
+
+    Given('ours adds "Sell" to a new view "Sales"', () => {
+      const sellObj = createDiagramObject(sellId, 0, 0);
+      newObjectId = sellObj.id;
+      ours.diagrams.push(createDiagram('Sales', [sellObj]));
+    });
+
+    And('theirs deletes "Sell"', () => {
+      removeElementFromModel(theirs, sellId);
+    });
+
+    When('the caller invokes archimate_merge_models', merge);
+
+    Then('a "dangling-reference" conflict is reported for the new diagram object', () => {
+      expect(result.conflicts).toContainEqual(
+        expect.objectContaining({ kind: 'dangling-reference', conceptType: 'diagram-object', id: newObjectId })
+      );
+      expect(element(result.model, sellId)).toBeUndefined();
+    });
+
+    And('the merged view "Sales" is empty', () => {
+      expect(result.model.diagrams.find((d) => d.name === 'Sales')?.objects).toEqual([]);
+      expect(result.model.relationships).toEqual([]);
+    });
+  });
+
+  Scenario('A relationship ending on a dropped relationship is dropped too', ({ Given, And, When, Then }) => {
+    let triggeringId: string;
+    let associationId: string;
+
+    Given('ours adds a BusinessEvent "Sold" triggered by "Sell" and associates "CRM" with the triggering', () => {
+      const sold = createElement('BusinessEvent', 'Sold');
+      addElementToModel(ours, sold);
+      const triggering = createRelationship('Triggering', sellId, sold.id);
+      const association = createRelationship('Association', crmId, triggering.id);
+      ours.relationships.push(triggering, association);
+      triggeringId = triggering.id;
+      associationId = association.id;
+    });
+
+    And('theirs deletes "Sell"', () => {
+      removeElementFromModel(theirs, sellId);
+    });
+
+    When('the caller invokes archimate_merge_models', merge);
+
+    Then('"dangling-reference" conflicts are reported for the triggering and the association', () => {
+      const dangling = result.conflicts.filter((c) => c.kind === 'dangling-reference' && c.conceptType === 'relationship');
+      expect(dangling.map((c) => c.id)).toEqual([triggeringId, associationId]);
+    });
+
+    And('the merged model has neither relationship', () => {
+      expect(result.model.relationships).toEqual([]);
+    });
+  });
+
+  Scenario('Connections of notes are kept', ({ Given, And, When, Then }) => {
+    let noteConnectionId: string;
+
+    Given('ours adds a note on view "Main" connected to "CRM"', () => {
+      const [crmObj] = ours.diagrams[0].objects;
+      const note: DiagramObject = {
+        ...createDiagramObject('', 20, 120),
+        objectType: 'Note',
+        content: 'Moving to the cloud in Q3',
+      };
+      // A plain connection, drawn between a note and an object, shows no relationship
+      const conn = createDiagramConnection(note.id, crmObj.id, '');
+      note.sourceConnections = [conn];
+      crmObj.targetConnectionIds = [...(crmObj.targetConnectionIds ?? []), conn.id];
+      ours.diagrams[0].objects.push(note);
+      noteConnectionId = conn.id;
+    });
+
+    And('theirs renames "CRM" to "Customer Hub"', theirsRenames('Customer Hub'));
+    When('the caller invokes archimate_merge_models', merge);
+
+    Then('the merge is clean', () => {
+      expect(result.conflicts).toEqual([]);
+      expect(result.clean).toBe(true);
+    });
+
+    And('the merged view "Main" still connects the note to "CRM"', () => {
+      const objects = allObjects(result.model.diagrams[0].objects);
+      const note = objects.find((o) => o.objectType === 'Note')!;
+      expect(note.sourceConnections?.map((c) => c.id)).toEqual([noteConnectionId]);
+      expect(objects.find((o) => o.elementId === crmId)?.targetConnectionIds).toContain(noteConnectionId);
+    });
+  });
+
+  Scenario('Connections drawn to other connections are kept', ({ Given, And, When, Then }) => {
+    let noteConnectionId: string;
+
+    Given('ours adds a note on view "Main" connected to the serving connection', () => {
+      const note: DiagramObject = {
+        ...createDiagramObject('', 20, 120),
+        objectType: 'Note',
+        content: 'Served over the intranet',
+      };
+      const conn = createDiagramConnection(note.id, connectionId, '');
+      note.sourceConnections = [conn];
+      const serving = ours.diagrams[0].objects[0].sourceConnections![0];
+      serving.targetConnectionIds = [conn.id];
+      ours.diagrams[0].objects.push(note);
+      noteConnectionId = conn.id;
+    });
+
+    And('theirs renames "CRM" to "Customer Hub"', theirsRenames('Customer Hub'));
+    When('the caller invokes archimate_merge_models', merge);
+
+    Then('the merge is clean', () => {
+      expect(result.conflicts).toEqual([]);
+      expect(result.clean).toBe(true);
+    });
+
+    And('the merged serving connection on view "Main" is the target of the note\'s connection', () => {
+      const objects = allObjects(result.model.diagrams[0].objects);
+      const note = objects.find((o) => o.objectType === 'Note')!;
+      expect(note.sourceConnections?.map((c) => c.targetId)).toEqual([connectionId]);
+      const serving = objects.find((o) => o.elementId === crmId)!.sourceConnections![0];
+      expect(serving.targetConnectionIds).toEqual([noteConnectionId]);
+    });
+  });
+
+  Scenario('The git merge driver merges model.archimate files', ({ Given, And, When, Then }) => {
+    let dir: string;
+    const files = { base: '', ours: '', theirs: '' };
+
+    Given('ours renames "CRM" to "CRM Cloud"', oursRenames('CRM Cloud'));
+    And('theirs adds Node "K8s" and sets property lifecycle=active on "CRM"', theirsAddsNodeAndLifecycle);
+
+    And('the three versions are saved as files the way git hands them to a merge driver', () => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'feature-merge-'));
+      for (const [side, model] of [['base', base], ['ours', ours], ['theirs', theirs]] as const) {
+        files[side] = path.join(dir, `.merge_file_${side}`);
+        fs.writeFileSync(files[side], serializeModel(model));
+      }
+    });
+
+    When('the merge driver merges the files', () => {
+      // Same steps as src/merge-driver.ts, which exits the process when run
+      const [b, o, t] = [files.base, files.ours, files.theirs].map((f) => parseModelXml(fs.readFileSync(f, 'utf-8')));
+      result = mergeModels(b, o, t);
+      fs.writeFileSync(files.ours, serializeModel(result.model));
+    });
+
+    Then('the ours file contains "CRM Cloud" and "K8s"', () => {
+      expect(result.clean).toBe(true);
+      const merged = parseModelXml(fs.readFileSync(files.ours, 'utf-8'));
+      expect(getAllElements(merged).map((e) => e.name).sort()).toEqual(['CRM Cloud', 'K8s', 'Sell']);
+      expect(merged.relationships).toHaveLength(1);
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+  });
+});
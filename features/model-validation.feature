@@ -0,0 +1,62 @@
+Feature: Model validation
+  Callers can lint the whole model before trusting an agent to change
+  it. The report lists every conformance problem with a severity, the
+  rule that was broken, and the IDs of the offending concepts.
+
+  Background:
+    Given a current model
+
+  Scenario: A clean model produces an empty report
+    Given a model with valid relationships and a view showing them
+    When the caller invokes archimate_validate_model
+    Then the report is valid with no issues
+
+  Scenario: Relationships the ArchiMate 3.2 table forbids are reported
+    Given a Triggering relationship from BusinessObject "Order" to BusinessProcess "Handle Order" edited in by hand
+    When the caller invokes archimate_validate_model
+    Then the report contains an "invalid-relationship" error naming the relationship and both elements
+
+  Scenario: Relationships with missing endpoints are reported
+    Given a Serving relationship whose target element was deleted outside the server
+    When the caller invokes archimate_validate_model
+    Then the report contains a "dangling-relationship-endpoint" error naming the relationship and the missing target id
+
+  Scenario: Diagram objects pointing to deleted elements are reported
+    Given a view containing a diagram object nested inside another whose element no longer exists
+    When the caller invokes archimate_validate_model
+    Then the report contains a "dangling-diagram-object" error naming the view and the diagram object
+
+  Scenario: Diagram connections whose relationship is missing are reported
+    Given a view containing a connection that references a removed relationship
+    When the caller invokes archimate_validate_model
+    Then the report contains a "dangling-diagram-connection" error naming the connection
+
+  Scenario: Duplicate IDs are reported once per ID
+    Given an element and a relationship that share the same id
+    When the caller invokes archimate_validate_model
+    Then the report contains one "duplicate-id" error for that id
+
+  Scenario: Elements stored in the wrong layer folder are warnings
+    Given an ApplicationComponent "Order Service" stored in a subfolder of the Business folder
+    When the caller invokes archimate_validate_model
+    Then the report contains a "wrong-folder" warning naming the element
+    And the report is still valid because warnings do not fail validation
+
+  Scenario: Elements a view's viewpoint does not show are warnings
+    Given a view "Integration" with the Application Cooperation viewpoint showing ApplicationComponent "CRM" and Node "Server"
+    When the caller invokes archimate_validate_model
+    Then the report contains an "outside-viewpoint" warning naming the view and Server's diagram object
+    And the report is still valid because warnings do not fail validation
+
+  Scenario: Invalid paths through a junction are errors
+    Given an ApplicationComponent "CRM" realizing a junction
+    And the junction realizing an ApplicationService "Customer Data" and a DataObject "Customer"
+    When the caller invokes archimate_validate_model
+    Then the report contains one "junction-invalid-path" error naming the junction and the path to "Customer"
+
+  Scenario: Relationships may end on relationships
+    Given a Requirement associated with an Access relationship
+    And a Grouping aggregating the Access relationship
+    And a Serving relationship from the Requirement to the Access relationship
+    When the caller invokes archimate_validate_model
+    Then the only issue is an "invalid-relationship" error for the Serving relationship
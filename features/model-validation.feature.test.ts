@@ -0,0 +1,359 @@
+import { loadFeature, describeFeature } from '@amiceli/vitest-cucumber';
+import { expect } from 'vitest';
+import { validateModel, type ConformanceReport } from '../src/model/conformance.js';
+import {
+  createEmptyModel,
+  createElement,
+  createRelationship,
+  createDiagram,
+  createDiagramObject,
+  createDiagramConnection,
+  addElementToModel,
+  resetIdCounter,
+} from '../src/__tests__/fixtures/sample-model.js';
+import type { ArchiMateModel, ArchiMateRelationship, DiagramObject } from '../src/model/types.js';
+
+const feature = await loadFeature('./features/model-validation.feature');
+
+describeFeature(feature, ({ Background, Scenario }) => {
+  Background(({ Given }) => {
+    Given('a current model', () => {
+      // Each scenario builds its own model.
+    });
+  });
+
+  Scenario('A clean model produces an empty report', ({ Given, When, Then }) => {
+    let model: ArchiMateModel;
+    let report: ConformanceReport;
+
+    Given('a model with valid relationships and a view showing them', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      const actor = createElement('BusinessActor', 'Customer');
+      const process = createElement('BusinessProcess', 'Place Order');
+      addElementToModel(model, actor);
+      addElementToModel(model, process);
+      const rel = createRelationship('Assignment', actor.id, process.id);
+      model.relationships.push(rel);
+
+      const actorObj = createDiagramObject(actor.id, 0, 0);
+      const processObj = createDiagramObject(process.id, 200, 0);
+      const conn = createDiagramConnection(actorObj.id, processObj.id, rel.id);
+      actorObj.sourceConnections = [conn];
+      processObj.targetConnectionIds = [conn.id];
+      model.diagrams.push(createDiagram('Main', [actorObj, processObj]));
+    });
+
+    When('the caller invokes archimate_validate_model', () => {
+      report = validateModel(model);
+    });
+
+    Then('the report is valid with no issues', () => {
+      expect(report.valid).toBe(true);
+      expect(report.issues).toEqual([]);
+      expect(report.errorCount).toBe(0);
+      expect(report.warningCount).toBe(0);
+    });
+  });
+
+  Scenario('Relationships the ArchiMate 3.2 table forbids are reported', ({ Given, When, Then }) => {
+    let model: ArchiMateModel;
+    let rel: ArchiMateRelationship;
+    let report: ConformanceReport;
+    let orderId: string;
+    let processId: string;
+
+    Given('a Triggering relationship from BusinessObject "Order" to BusinessProcess "Handle Order" edited in by hand', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      const order = createElement('BusinessObject', 'Order');
+      const process = createElement('BusinessProcess', 'Handle Order');
+      addElementToModel(model, order);
+      addElementToModel(model, process);
+      orderId = order.id;
+      processId = process.id;
+      rel = createRelationship('Triggering', order.id, process.id);
+      model.relationships.push(rel);
+    });
+
+    When('the caller invokes archimate_validate_model', () => {
+      report = validateModel(model);
+    });
+
+    Then('the report contains an "invalid-relationship" error naming the relationship and both elements', () => {
+      expect(report.valid).toBe(false);
+      const issue = report.issues.find((i) => i.rule === 'invalid-relationship');
+      expect(issue?.severity).toBe('error');
+      expect(issue?.ids).toEqual([rel.id, orderId, processId]);
+      expect(issue?.message).toContain('Triggering');
+    });
+  });
+
+  Scenario('Relationships with missing endpoints are reported', ({ Given, When, Then }) => {
+    let model: ArchiMateModel;
+    let rel: ArchiMateRelationship;
+    let report: ConformanceReport;
+
+    Given('a Serving relationship whose target element was deleted outside the server', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      const service = createElement('ApplicationService', 'Order API');
+      addElementToModel(model, service);
+      rel = createRelationship('Serving', service.id, 'id-deleted-process');
+      model.relationships.push(rel);
+    });
+
+    When('the caller invokes archimate_validate_model', () => {
+      report = validateModel(model);
+    });
+
+    Then('the report contains a "dangling-relationship-endpoint" error naming the relationship and the missing target id', () => {
+      const issue = report.issues.find((i) => i.rule === 'dangling-relationship-endpoint');
+      expect(issue?.severity).toBe('error');
+      expect(issue?.ids).toEqual([rel.id, 'id-deleted-process']);
+      expect(report.issues.some((i) => i.rule === 'invalid-relationship')).toBe(false);
+    });
+  });
+
+  Scenario('Diagram objects pointing to deleted elements are reported', ({ Given, When, Then }) => {
+    let model: ArchiMateModel;
+    let orphan: DiagramObject;
+    let viewId: string;
+    let report: ConformanceReport;
+
+    Given('a view containing a diagram object nested inside another whose element no longer exists', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      const node = createElement('Node', 'App Server');
+      addElementToModel(model, node);
+      const nodeObj = createDiagramObject(node.id, 0, 0, 300, 200);
+      orphan = createDiagramObject('id-deleted-component', 20, 40);
+      nodeObj.children = [orphan];
+      const view = createDiagram('Deployment', [nodeObj]);
+      viewId = view.id;
+      model.diagrams.push(view);
+    });
+
+    When('the caller invokes archimate_validate_model', () => {
+      report = validateModel(model);
+    });
+
+    Then('the report contains a "dangling-diagram-object" error naming the view and the diagram object', () => {
+      const issues = report.issues.filter((i) => i.rule === 'dangling-diagram-object');
+      expect(issues).toHaveLength(1);
+      expect(issues[0].ids).toEqual([viewId, orphan.id, 'id-deleted-component']);
+    });
+  });
+
+  Scenario('Diagram connections whose relationship is missing are reported', ({ Given, When, Then }) => {
+    let model: ArchiMateModel;
+    let connId: string;
+    let report: ConformanceReport;
+
+    Given('a view containing a connection that references a removed relationship', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      const a = createElement('ApplicationComponent', 'A');
+      const b = createElement('ApplicationComponent', 'B');
+      addElementToModel(model, a);
+      addElementToModel(model, b);
+      const aObj = createDiagramObject(a.id, 0, 0);
+      const bObj = createDiagramObject(b.id, 200, 0);
+      const conn = createDiagramConnection(aObj.id, bObj.id, 'id-removed-rel');
+      connId = conn.id;
+      aObj.sourceConnections = [conn];
+      bObj.targetConnectionIds = [conn.id];
+      model.diagrams.push(createDiagram('V', [aObj, bObj]));
+    });
+
+    When('the caller invokes archimate_validate_model', () => {
+      report = validateModel(model);
+    });
+
+    Then('the report contains a "dangling-diagram-connection" error naming the connection', () => {
+      const issue = report.issues.find((i) => i.rule === 'dangling-diagram-connection');
+      expect(issue?.severity).toBe('error');
+      expect(issue?.ids).toContain(connId);
+      expect(issue?.ids).toContain('id-removed-rel');
+    });
+  });
+
+  Scenario('Duplicate IDs are reported once per ID', ({ Given, When, Then }) => {
+    let model: ArchiMateModel;
+    let report: ConformanceReport;
+
+    Given('an element and a relationship that share the same id', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      const a = createElement('ApplicationComponent', 'A');
+      const b = createElement('ApplicationComponent', 'B');
+      addElementToModel(model, a);
+      addElementToModel(model, b);
+      model.relationships.push({ ...createRelationship('Serving', a.id, b.id), id: 'id-shared' });
+      a.id = 'id-shared';
+      model.relationships[0].sourceId = 'id-shared';
+    });
+
+    When('the caller invokes archimate_validate_model', () => {
+      report = validateModel(model);
+    });
+
+    Then('the report contains one "duplicate-id" error for that id', () => {
+      const issues = report.issues.filter((i) => i.rule === 'duplicate-id');
+      expect(issues).toHaveLength(1);
+      expect(issues[0].ids).toEqual(['id-shared']);
+      expect(issues[0].message).toContain('element, relationship');
+    });
+  });
+
+  Scenario('Elements stored in the wrong layer folder are warnings', ({ Given, When, Then, And }) => {
+    let model: ArchiMateModel;
+    let elementId: string;
+    let report: ConformanceReport;
+
+    Given('an ApplicationComponent "Order Service" stored in a subfolder of the Business folder', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      const component = createElement('ApplicationComponent', 'Order Service');
+      elementId = component.id;
+      const business = model.folders.find((f) => f.type === 'business')!;
+      business.subfolders.push({ id: 'folder-sales', name: 'Sales', type: '', elements: [component], subfolders: [] });
+    });
+
+    When('the caller invokes archimate_validate_model', () => {
+      report = validateModel(model);
+    });
+
+    Then('the report contains a "wrong-folder" warning naming the element', () => {
+      const issue = report.issues.find((i) => i.rule === 'wrong-folder');
+      expect(issue?.severity).toBe('warning');
+      expect(issue?.ids).toEqual([elementId, 'folder-sales']);
+    });
+
+    And('the report is still valid because warnings do not fail validation', () => {
+      expect(report.valid).toBe(true);
+      expect(report.warningCount).toBe(1);
+    });
+  });
+
+  Scenario("Elements a view's viewpoint does not show are warnings", ({ Given, When, Then, And }) => {
+    let model: ArchiMateModel;
+    let viewId: string;
+    let serverObject: DiagramObject;
+    let report: ConformanceReport;
+
+    Given('a view "Integration" with the Application Cooperation viewpoint showing ApplicationComponent "CRM" and Node "Server"', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      const crm = createElement('ApplicationComponent', 'CRM');
+      const server = createElement('Node', 'Server');
+      addElementToModel(model, crm);
+      addElementToModel(model, server);
+      const view = { ...createDiagram('Integration'), viewpoint: 'application_cooperation' };
+      serverObject = createDiagramObject(server.id, 50, 200);
+      view.objects.push(createDiagramObject(crm.id, 50, 50), serverObject);
+      model.diagrams.push(view);
+      viewId = view.id;
+    });
+
+    When('the caller invokes archimate_validate_model', () => {
+      report = validateModel(model);
+    });
+
+    Then("the report contains an \"outside-viewpoint\" warning naming the view and Server's diagram object", () => {
+      const issues = report.issues.filter((i) => i.rule === 'outside-viewpoint');
+      expect(issues).toHaveLength(1);
+      expect(issues[0].severity).toBe('warning');
+      expect(issues[0].ids).toEqual([viewId, serverObject.id, serverObject.elementId]);
+      expect(issues[0].message).toContain('Application Cooperation viewpoint');
+    });
+
+    And('the report is still valid because warnings do not fail validation', () => {
+      expect(report.valid).toBe(true);
+      expect(report.warningCount).toBe(1);
+    });
+  });
+
+  Scenario('Invalid paths through a junction are errors', ({ Given, And, When, Then }) => {
+    let model: ArchiMateModel;
+    let junctionId: string;
+    let report: ConformanceReport;
+
+    Given('an ApplicationComponent "CRM" realizing a junction', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      const crm = createElement('ApplicationComponent', 'CRM');
+      const junction = { ...createElement('Junction', ''), junctionType: 'and' as const };
+      junctionId = junction.id;
+      addElementToModel(model, crm);
+      addElementToModel(model, junction);
+      model.relationships.push(createRelationship('Realization', crm.id, junction.id));
+    });
+
+    And('the junction realizing an ApplicationService "Customer Data" and a DataObject "Customer"', () => {
+      const service = createElement('ApplicationService', 'Customer Data');
+      const data = createElement('DataObject', 'Customer');
+      addElementToModel(model, service);
+      addElementToModel(model, data);
+      model.relationships.push(createRelationship('Realization', junctionId, service.id));
+      model.relationships.push(createRelationship('Realization', junctionId, data.id));
+    });
+
+    When('the caller invokes archimate_validate_model', () => {
+      report = validateModel(model);
+    });
+
+    Then('the report contains one "junction-invalid-path" error naming the junction and the path to "Customer"', () => {
+      expect(report.valid).toBe(false);
+      expect(report.issues).toEqual([expect.objectContaining({ severity: 'error', rule: 'junction-invalid-path' })]);
+      expect(report.issues[0].ids[0]).toBe(junctionId);
+      expect(report.issues[0].message).toContain('between ApplicationComponent "CRM" and DataObject "Customer"');
+    });
+  });
+
+  Scenario('Relationships may end on relationships', ({ Given, And, When, Then }) => {
+    let model: ArchiMateModel;
+    let access: ArchiMateRelationship;
+    let requirementId: string;
+    let serving: ArchiMateRelationship;
+    let report: ConformanceReport;
+
+    Given('a Requirement associated with an Access relationship', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      const process = createElement('BusinessProcess', 'Handle Claim');
+      const claim = createElement('BusinessObject', 'Claim');
+      const requirement = createElement('Requirement', 'Keep an audit trail');
+      requirementId = requirement.id;
+      for (const element of [process, claim, requirement]) addElementToModel(model, element);
+      access = createRelationship('Access', process.id, claim.id);
+      model.relationships.push(access, createRelationship('Association', requirement.id, access.id));
+    });
+
+    And('a Grouping aggregating the Access relationship', () => {
+      const grouping = createElement('Grouping', 'Claims Handling');
+      addElementToModel(model, grouping);
+      model.relationships.push(createRelationship('Aggregation', grouping.id, access.id));
+    });
+
+    And('a Serving relationship from the Requirement to the Access relationship', () => {
+      serving = createRelationship('Serving', requirementId, access.id);
+      model.relationships.push(serving);
+    });
+
+    When('the caller invokes archimate_validate_model', () => {
+      report = validateModel(model);
+    });
+
+    Then('the only issue is an "invalid-relationship" error for the Serving relationship', () => {
+      expect(report.issues).toEqual([
+        {
+          severity: 'error',
+          rule: 'invalid-relationship',
+          message: `Serving is not a valid relationship between Requirement and Relationship (relationship ${serving.id})`,
+          ids: [serving.id, requirementId, access.id],
+        },
+      ]);
+    });
+  });
+});
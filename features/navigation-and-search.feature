@@ -1,7 +1,8 @@
 Feature: Navigation and search
   Callers can list elements with optional filtering, fetch a single
-  element with its relationship neighbors, search by name, and get a
-  layer-by-layer summary of the model's contents.
+  element with its relationship neighbors, search by name, query paths
+  across relationships, and get a layer-by-layer summary of the model's
+  contents.
 
   Background:
     Given a current model with elements across multiple layers
@@ -53,3 +54,26 @@ Feature: Navigation and search
     And byLayer["Application"] contains ApplicationComponent: 5
     And byLayer["Technology"] contains Node: 2
     And layers with no elements (e.g. Motivation, Strategy) are omitted from byLayer
+
+  Scenario: List and find elements filtered by properties
+    Given "Order Service" has properties lifecycle "Retiring" and owner "Sales", and "Payment Service" has lifecycle "active"
+    When the caller invokes archimate_list_elements with properties ["lifecycle=retiring"]
+    Then the response includes only "Order Service", with its properties
+    And archimate_find_elements with pattern "Service" and properties ["owner", "lifecycle!=retiring"] finds nothing
+    And archimate_find_elements with pattern "Service" and properties ["!owner"] finds "Payment Service" and "Database Service"
+
+  Scenario: Query elements through relationships with a property predicate
+    Given ApplicationComponents "Order Service" with owner "Finance" and "Payment Service" with owner "Sales", both serving BusinessProcess "Order Process"
+    When the caller invokes archimate_query with "ApplicationComponent -[Serving]-> BusinessProcess where property(owner)='Finance'"
+    Then the response has one row, binding n1 to "Order Service", r1 to its Serving relationship, and n2 to "Order Process"
+
+  Scenario: Query with variables, a projection, and a limit
+    Given ApplicationComponents "Order Service" with owner "Finance" and "Payment Service" with owner "Sales", both serving BusinessProcess "Order Process"
+    And a BusinessActor "Customer" assigned to "Order Process"
+    When the caller invokes archimate_query with "a:BusinessActor -[Assignment]-> p:BusinessProcess <-[Serving]- c:ApplicationComponent return a.name, c.name, c.property(owner) limit 1"
+    Then the response has columns "a.name", "c.name", and "c.property(owner)"
+    And it returns the row "Customer", "Order Service", "Finance" of at least 2 matching rows, marked as truncated
+
+  Scenario: An invalid query reports where it went wrong
+    When the caller invokes archimate_query with "ApplicationComponent -[Serves]-> BusinessProcess"
+    Then the call returns an error naming the unknown relationship type "Serves" at position 24
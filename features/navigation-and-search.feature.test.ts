@@ -8,6 +8,8 @@ import {
   getRelationshipsForElement,
 } from '../src/model/parser.js';
 import { getLayerForElementType } from '../src/model/types.js';
+import { matchesPropertyFilters, parsePropertyFilter } from '../src/model/properties.js';
+import { parseQuery, runQuery, type QueryResult } from '../src/model/query.js';
 import {
   createEmptyModel,
   createElement,
@@ -298,4 +300,122 @@ describeFeature(feature, ({ Background, Scenario }) => {
       expect(summary.byLayer.Strategy).toBeUndefined();
     });
   });
+
+  Scenario('List and find elements filtered by properties', ({ Given, When, Then, And }) => {
+    let model: ArchiMateModel;
+    let listed: ArchiMateElement[];
+    // The same filtering archimate_list_elements and archimate_find_elements apply
+    const filter = (elements: ArchiMateElement[], filters: string[]) =>
+      elements.filter((e) => matchesPropertyFilters(e.properties, filters.map(parsePropertyFilter)));
+
+    Given('"Order Service" has properties lifecycle "Retiring" and owner "Sales", and "Payment Service" has lifecycle "active"', () => {
+      model = buildMixedLayerModel();
+      findElementsByName(model, '^Order Service$')[0].properties = [
+        { key: 'lifecycle', value: 'Retiring' },
+        { key: 'owner', value: 'Sales' },
+      ];
+      findElementsByName(model, '^Payment Service$')[0].properties = [{ key: 'lifecycle', value: 'active' }];
+    });
+
+    When('the caller invokes archimate_list_elements with properties ["lifecycle=retiring"]', () => {
+      listed = filter(getAllElements(model), ['lifecycle=retiring']);
+    });
+
+    Then('the response includes only "Order Service", with its properties', () => {
+      expect(listed.map((e) => e.name)).toEqual(['Order Service']);
+      expect(listed[0].properties).toContainEqual({ key: 'owner', value: 'Sales' });
+    });
+
+    And('archimate_find_elements with pattern "Service" and properties ["owner", "lifecycle!=retiring"] finds nothing', () => {
+      expect(filter(findElementsByName(model, 'Service'), ['owner', 'lifecycle!=retiring'])).toEqual([]);
+    });
+
+    And('archimate_find_elements with pattern "Service" and properties ["!owner"] finds "Payment Service" and "Database Service"', () => {
+      const found = filter(findElementsByName(model, 'Service'), ['!owner']);
+      expect(found.map((e) => e.name).sort()).toEqual(['Database Service', 'Payment Service']);
+    });
+  });
+
+  /** Order Service and Payment Service serve Order Process, as the query scenarios describe */
+  function buildServingModel(): ArchiMateModel {
+    const model = buildMixedLayerModel();
+    const [orderService, paymentService] = findElementsByName(model, ' Service$').filter((e) => e.type === 'ApplicationComponent');
+    const orderProcess = findElementsByName(model, '^Order Process$')[0];
+    orderService.properties = [{ key: 'Owner', value: 'Finance' }];
+    paymentService.properties = [{ key: 'Owner', value: 'Sales' }];
+    model.relationships.push(
+      createRelationship('Serving', orderService.id, orderProcess.id),
+      createRelationship('Serving', paymentService.id, orderProcess.id),
+    );
+    return model;
+  }
+
+  Scenario('Query elements through relationships with a property predicate', ({ Given, When, Then }) => {
+    let model: ArchiMateModel;
+    let result: QueryResult;
+
+    Given('ApplicationComponents "Order Service" with owner "Finance" and "Payment Service" with owner "Sales", both serving BusinessProcess "Order Process"', () => {
+      model = buildServingModel();
+    });
+
+    When('the caller invokes archimate_query with "ApplicationComponent -[Serving]-> BusinessProcess where property(owner)=\'Finance\'"', () => {
+      result = runQuery(model, parseQuery("ApplicationComponent -[Serving]-> BusinessProcess where property(owner)='Finance'"));
+    });
+
+    Then('the response has one row, binding n1 to "Order Service", r1 to its Serving relationship, and n2 to "Order Process"', () => {
+      expect(result.columns).toEqual(['n1', 'r1', 'n2']);
+      expect(result.rows).toEqual([{
+        n1: { id: expect.any(String), type: 'ApplicationComponent', name: 'Order Service' },
+        r1: { id: model.relationships[0].id, type: 'Serving', sourceId: model.relationships[0].sourceId, targetId: model.relationships[0].targetId },
+        n2: { id: expect.any(String), type: 'BusinessProcess', name: 'Order Process' },
+      }]);
+      expect(result).toMatchObject({ total: 1, truncated: false });
+    });
+  });
+
+  Scenario('Query with variables, a projection, and a limit', ({ Given, And, When, Then }) => {
+    let model: ArchiMateModel;
+    let result: QueryResult;
+
+    Given('ApplicationComponents "Order Service" with owner "Finance" and "Payment Service" with owner "Sales", both serving BusinessProcess "Order Process"', () => {
+      model = buildServingModel();
+    });
+
+    And('a BusinessActor "Customer" assigned to "Order Process"', () => {
+      const customer = findElementsByName(model, '^Customer$')[0];
+      const orderProcess = findElementsByName(model, '^Order Process$')[0];
+      model.relationships.push(createRelationship('Assignment', customer.id, orderProcess.id));
+    });
+
+    When('the caller invokes archimate_query with "a:BusinessActor -[Assignment]-> p:BusinessProcess <-[Serving]- c:ApplicationComponent return a.name, c.name, c.property(owner) limit 1"', () => {
+      result = runQuery(model, parseQuery(
+        'a:BusinessActor -[Assignment]-> p:BusinessProcess <-[Serving]- c:ApplicationComponent return a.name, c.name, c.property(owner) limit 1'
+      ));
+    });
+
+    Then('the response has columns "a.name", "c.name", and "c.property(owner)"', () => {
+      expect(result.columns).toEqual(['a.name', 'c.name', 'c.property(owner)']);
+    });
+
+    And('it returns the row "Customer", "Order Service", "Finance" of at least 2 matching rows, marked as truncated', () => {
+      expect(result.rows).toEqual([{ 'a.name': 'Customer', 'c.name': 'Order Service', 'c.property(owner)': 'Finance' }]);
+      expect(result).toMatchObject({ total: 2, truncated: true });
+    });
+  });
+
+  Scenario('An invalid query reports where it went wrong', ({ When, Then }) => {
+    let error: Error | undefined;
+
+    When('the caller invokes archimate_query with "ApplicationComponent -[Serves]-> BusinessProcess"', () => {
+      try {
+        parseQuery('ApplicationComponent -[Serves]-> BusinessProcess');
+      } catch (e) {
+        error = e as Error;
+      }
+    });
+
+    Then('the call returns an error naming the unknown relationship type "Serves" at position 24', () => {
+      expect(error?.message).toBe('Invalid query: unknown relationship type "Serves" at position 24');
+    });
+  });
 });
@@ -0,0 +1,33 @@
+Feature: Property management
+  Elements, relationships, views, and the model itself carry user-defined
+  key-value properties, such as owner, lifecycle, and criticality. Callers
+  set them by key, merging with or replacing the existing ones, remove them
+  by key, and undo either change. Properties are saved as Archi saves them.
+
+  Background:
+    Given a current model with an ApplicationComponent "Billing", a Serving relationship from it, and a view "Landscape"
+
+  Scenario: Set properties on an element, keeping the other keys
+    Given "Billing" has properties owner "Finance" and lifecycle "active"
+    When the caller invokes archimate_set_properties on "Billing" with lifecycle "retiring" and criticality "high"
+    Then "Billing" has owner "Finance", lifecycle "retiring", and criticality "high", in that order
+
+  Scenario: Replace every property of a relationship
+    Given the Serving relationship has properties protocol "REST" and latency "50ms"
+    When the caller invokes archimate_set_properties on the relationship with protocol "gRPC" in replace mode
+    Then the relationship has only the property protocol "gRPC"
+
+  Scenario: Properties of views and the model are saved and read back
+    When the caller invokes archimate_set_properties on "Landscape" with audience "Board"
+    And on the model's own ID with classification "internal"
+    Then the saved model reads back with both properties in place
+
+  Scenario: Remove properties by key and undo the removal
+    Given "Billing" has properties owner "Finance" and lifecycle "active"
+    When the caller invokes archimate_remove_properties on "Billing" with keys owner
+    Then "Billing" has only lifecycle "active"
+    And after archimate_undo it has owner "Finance" again
+
+  Scenario: Unknown concept IDs are refused
+    When the caller invokes archimate_set_properties on an ID that names no concept
+    Then no element, relationship, view, or model is found for it
@@ -0,0 +1,138 @@
+import { loadFeature, describeFeature } from '@amiceli/vitest-cucumber';
+import { expect } from 'vitest';
+import { findPropertyOwner, removePropertyKeys, setPropertyValues, type PropertyMode } from '../src/model/properties.js';
+import { ModelHistory, setPropertiesCommand } from '../src/model/history.js';
+import { serializeModel } from '../src/model/writer.js';
+import { parseModelXml } from '../src/model/parser.js';
+import {
+  createEmptyModel,
+  createElement,
+  createRelationship,
+  createDiagram,
+  addElementToModel,
+  resetIdCounter,
+} from '../src/__tests__/fixtures/sample-model.js';
+import type {
+  ArchiMateDiagram,
+  ArchiMateElement,
+  ArchiMateModel,
+  ArchiMateProperty,
+  ArchiMateRelationship,
+} from '../src/model/types.js';
+
+const feature = await loadFeature('./features/property-management.feature');
+
+/**
+ * Step bindings run the same steps as the archimate_set_properties and
+ * archimate_remove_properties handlers in src/index.ts: compute the new
+ * properties, then record them with setPropertiesCommand.
+ */
+describeFeature(feature, ({ Background, Scenario }) => {
+  let model: ArchiMateModel;
+  let billing: ArchiMateElement;
+  let serving: ArchiMateRelationship;
+  let landscape: ArchiMateDiagram;
+  let history: ModelHistory;
+
+  function setProperties(id: string, values: ArchiMateProperty[], mode: PropertyMode = 'merge'): void {
+    const owner = findPropertyOwner(model, id)!;
+    const properties = setPropertyValues(owner.concept.properties, values, mode);
+    history.execute(model, setPropertiesCommand(id, `Set properties of ${owner.kind}`, properties));
+  }
+
+  Background(({ Given }) => {
+    Given('a current model with an ApplicationComponent "Billing", a Serving relationship from it, and a view "Landscape"', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      billing = createElement('ApplicationComponent', 'Billing');
+      const process = createElement('BusinessProcess', 'Invoice');
+      addElementToModel(model, billing);
+      addElementToModel(model, process);
+      serving = createRelationship('Serving', billing.id, process.id);
+      model.relationships.push(serving);
+      landscape = createDiagram('Landscape');
+      model.diagrams.push(landscape);
+      history = new ModelHistory();
+    });
+  });
+
+  Scenario('Set properties on an element, keeping the other keys', ({ Given, When, Then }) => {
+    Given('"Billing" has properties owner "Finance" and lifecycle "active"', () => {
+      billing.properties = [{ key: 'owner', value: 'Finance' }, { key: 'lifecycle', value: 'active' }];
+    });
+
+    When('the caller invokes archimate_set_properties on "Billing" with lifecycle "retiring" and criticality "high"', () => {
+      setProperties(billing.id, [{ key: 'lifecycle', value: 'retiring' }, { key: 'criticality', value: 'high' }]);
+    });
+
+    Then('"Billing" has owner "Finance", lifecycle "retiring", and criticality "high", in that order', () => {
+      expect(billing.properties).toEqual([
+        { key: 'owner', value: 'Finance' },
+        { key: 'lifecycle', value: 'retiring' },
+        { key: 'criticality', value: 'high' },
+      ]);
+    });
+  });
+
+  Scenario('Replace every property of a relationship', ({ Given, When, Then }) => {
+    Given('the Serving relationship has properties protocol "REST" and latency "50ms"', () => {
+      serving.properties = [{ key: 'protocol', value: 'REST' }, { key: 'latency', value: '50ms' }];
+    });
+
+    When('the caller invokes archimate_set_properties on the relationship with protocol "gRPC" in replace mode', () => {
+      setProperties(serving.id, [{ key: 'protocol', value: 'gRPC' }], 'replace');
+    });
+
+    Then('the relationship has only the property protocol "gRPC"', () => {
+      expect(serving.properties).toEqual([{ key: 'protocol', value: 'gRPC' }]);
+    });
+  });
+
+  Scenario('Properties of views and the model are saved and read back', ({ When, And, Then }) => {
+    When('the caller invokes archimate_set_properties on "Landscape" with audience "Board"', () => {
+      setProperties(landscape.id, [{ key: 'audience', value: 'Board' }]);
+    });
+
+    And("on the model's own ID with classification \"internal\"", () => {
+      setProperties(model.id, [{ key: 'classification', value: 'internal' }]);
+    });
+
+    Then('the saved model reads back with both properties in place', () => {
+      const reread = parseModelXml(serializeModel(model));
+      expect(reread.properties).toEqual([{ key: 'classification', value: 'internal' }]);
+      expect(reread.diagrams[0].properties).toEqual([{ key: 'audience', value: 'Board' }]);
+    });
+  });
+
+  Scenario('Remove properties by key and undo the removal', ({ Given, When, Then, And }) => {
+    Given('"Billing" has properties owner "Finance" and lifecycle "active"', () => {
+      billing.properties = [{ key: 'owner', value: 'Finance' }, { key: 'lifecycle', value: 'active' }];
+    });
+
+    When('the caller invokes archimate_remove_properties on "Billing" with keys owner', () => {
+      const properties = removePropertyKeys(billing.properties, ['owner']);
+      history.execute(model, setPropertiesCommand(billing.id, 'Remove properties of element', properties));
+    });
+
+    Then('"Billing" has only lifecycle "active"', () => {
+      expect(billing.properties).toEqual([{ key: 'lifecycle', value: 'active' }]);
+    });
+
+    And('after archimate_undo it has owner "Finance" again', () => {
+      history.undo(model);
+      expect(billing.properties).toEqual([{ key: 'owner', value: 'Finance' }, { key: 'lifecycle', value: 'active' }]);
+    });
+  });
+
+  Scenario('Unknown concept IDs are refused', ({ When, Then }) => {
+    let found: ReturnType<typeof findPropertyOwner>;
+
+    When('the caller invokes archimate_set_properties on an ID that names no concept', () => {
+      found = findPropertyOwner(model, 'no-such-id');
+    });
+
+    Then('no element, relationship, view, or model is found for it', () => {
+      expect(found).toBeUndefined();
+    });
+  });
+});
@@ -1,7 +1,7 @@
 Feature: Relationship management
   Relationships between elements are validated against the ArchiMate 3.2
-  specification at creation time. Invalid combinations are rejected with
-  guidance toward a valid alternative.
+  specification when they are created, retyped, or reconnected. Invalid
+  combinations are rejected with guidance toward a valid alternative.
 
   Background:
     Given a current model
@@ -33,11 +33,59 @@ Feature: Relationship management
     And the error suggests valid alternatives such as Realization, Serving, Association, or Flow
     And no relationship is added to the model
 
+  Scenario: Validation follows the Appendix B relationship table rather than layer order
+    Given a Node "Web Server"
+    And a BusinessActor "Customer"
+    When the caller invokes archimate_create_relationship of type "Realization" from "Web Server" to "Customer"
+    Then the call returns an error stating Realization is not valid between Node and BusinessActor
+    And the suggestions are exactly the relationships the table lists for Node to BusinessActor
+
+  Scenario Outline: Cross-layer cells follow the relationship table in both directions
+    When the caller validates every relationship type from <source> to <target>
+    Then exactly the relationships coded "<codes>" are accepted
+
+    Examples:
+      | source               | target               | codes |
+      | BusinessService      | ApplicationProcess   | fotv  |
+      | BusinessService      | ApplicationComponent | fotv  |
+      | BusinessInterface    | ApplicationComponent | fotv  |
+      | BusinessProcess      | ApplicationProcess   | fotv  |
+      | BusinessEvent        | ApplicationProcess   | fot   |
+      | ApplicationEvent     | BusinessProcess      | fot   |
+      | ApplicationProcess   | BusinessProcess      | fortv |
+      | ApplicationService   | TechnologyProcess    | fotv  |
+      | TechnologyService    | ApplicationProcess   | fotv  |
+      | DataObject           | BusinessObject       | or    |
+      | BusinessObject       | DataObject           | o     |
+      | Artifact             | ApplicationComponent | or    |
+
+  Scenario: Triggering is rejected between a passive object and a behavior element
+    When the caller validates a Triggering relationship from BusinessObject to BusinessProcess
+    Then the relationship is rejected
+    And the only suggestion is Association
+
+  Scenario: Derived relationships from the table are accepted
+    When the caller validates a Serving relationship from ApplicationComponent to BusinessProcess
+    Then the relationship is accepted even though no direct metamodel relationship connects them
+
+  Scenario: Association is valid between any two element types
+    When the caller validates an Association between every pair of element types
+    Then every pair is accepted
+
+  Scenario: Specialization is only valid between elements of the same type
+    When the caller validates a Specialization from BusinessActor to BusinessActor and from BusinessActor to BusinessRole
+    Then the first is accepted and the second is rejected
+
   Scenario: Query valid relationship types for a source element type
     When the caller invokes archimate_get_valid_relationships with source_type "ApplicationComponent"
     Then the response lists every target element type that can be reached from ApplicationComponent
     And each target lists the relationship types that are valid for that pair
 
+  Scenario: Guidance for a source element type is read from the relationship table
+    When the caller invokes archimate_get_valid_relationships with source_type "DataObject"
+    Then the guidance names BusinessObject as a Realization target of DataObject
+    And the guidance lists no relationship type the table does not permit from DataObject
+
   Scenario: Query valid relationship types for a specific source-target pair
     When the caller invokes archimate_get_valid_relationships with source_type "ApplicationComponent" and target_type "BusinessProcess"
     Then the response lists only the relationship types valid between those two element types
@@ -53,3 +101,57 @@ Feature: Relationship management
     When the caller invokes archimate_delete_relationship with that relationship id
     Then the relationship is removed from the model
     And any diagram connections that visualized it are removed from every view
+
+  Scenario: Reconnect an Access relationship keeping its ID and view connections
+    Given an Access relationship with access_type "Read" from ApplicationFunction "Process Order" to DataObject "Invoice"
+    And a view showing all three elements, with the relationship drawn
+    When the caller invokes archimate_update_relationship with target_id "Order Data" and access_type "Write"
+    Then the relationship keeps its ID and now writes to "Order Data"
+    And the view's connection keeps its ID and now ends at the "Order Data" object
+    And archimate_undo restores the original target and connection
+
+  Scenario: Reconnecting a relationship away from a view removes the connections on its connection
+    Given an Access relationship from ApplicationFunction "Process Order" to DataObject "Invoice"
+    And a view showing "Process Order" and "Invoice", with the relationship drawn and a note connected to its connection
+    When the caller invokes archimate_update_relationship with target_id "Order Data", which the view does not show
+    Then the response lists the relationship's connection and the note's connection as removed
+    And the view has no connections left
+
+  Scenario: Changing a relationship's type drops modifiers the new type does not carry
+    Given an Access relationship with access_type "ReadWrite" from ApplicationFunction "Process Order" to DataObject "Order Data"
+    When the caller invokes archimate_update_relationship with relationship_type "Association"
+    Then the relationship keeps its ID and is now an Association without an access type
+
+  Scenario: Reject an update to a type the endpoints do not allow
+    Given an Access relationship from ApplicationFunction "Process Order" to DataObject "Order Data"
+    When the caller invokes archimate_update_relationship with relationship_type "Serving"
+    Then the call returns an error stating Serving is not valid between ApplicationFunction and DataObject
+    And the error suggests Access or Association instead
+
+  Scenario: Relationships on a junction must share one type
+    Given a BusinessProcess "Receive Claim" with a Triggering relationship to an And junction
+    And a BusinessProcess "Assess Claim"
+    When the caller invokes archimate_create_relationship of type "Flow" from the junction to "Assess Claim"
+    Then the call returns an error stating the relationships on the junction mix Triggering and Flow
+    And a Triggering relationship from the junction to "Assess Claim" is accepted
+
+  Scenario: Associate an element with a relationship
+    Given an Access relationship from BusinessProcess "Handle Claim" to BusinessObject "Claim"
+    And a Requirement "Keep an audit trail"
+    When the caller invokes archimate_create_relationship of type "Association" from "Keep an audit trail" to the Access relationship
+    Then the relationship is created with the Access relationship as its target
+    And archimate_list_relationships filtered by the Access relationship lists the association
+    And a Serving relationship from "Keep an audit trail" to the Access relationship is rejected with Association as the suggestion
+
+  Scenario: Groupings and plateaus aggregate relationships
+    Given relationships as endpoints
+    Then Aggregation and Composition are valid from a Grouping to a relationship
+    And Aggregation is valid from a Plateau to a relationship
+    And only Association is valid from a relationship to an element or another relationship
+
+  Scenario: Deleting a relationship removes the relationships on it
+    Given an Access relationship with an Association from a Requirement to it
+    And a view drawing both, the association ending on the Access connection
+    When the caller invokes archimate_delete_relationship with the Access relationship id
+    Then both relationships are removed from the model
+    And both connections are removed from the view
@@ -4,10 +4,16 @@ import {
   isValidRelationship,
   validateRelationship,
   getValidRelationshipTypes,
+  getValidRelationshipsFromSource,
   getValidTargetTypes,
+  getRelationshipGuidance,
 } from '../src/relationships/validation.js';
-import { addRelationshipToModel, removeRelationshipFromModel } from '../src/model/writer.js';
-import { getRelationshipsForElement } from '../src/model/parser.js';
+import { getRelationshipCodes, RelationshipCodes } from '../src/relationships/relationship-table.js';
+import { addRelationshipToModel, removeRelationshipFromModel, updateRelationshipInModel } from '../src/model/writer.js';
+import { ModelHistory, compositeCommand, editDiagramCommand, updateRelationshipCommand } from '../src/model/history.js';
+import { attachConnection, reconnectRelationshipInView } from '../src/model/view-helpers.js';
+import { checkJunctionRelationship } from '../src/model/junctions.js';
+import { getRelationshipEnd, getRelationshipsForElement } from '../src/model/parser.js';
 import {
   createEmptyModel,
   createElement,
@@ -18,11 +24,12 @@ import {
   addElementToModel,
   resetIdCounter,
 } from '../src/__tests__/fixtures/sample-model.js';
-import type { ArchiMateElement, ArchiMateModel, ArchiMateRelationship } from '../src/model/types.js';
+import { AllElementTypes, RelationshipTypes } from '../src/model/types.js';
+import type { ArchiMateElement, ElementType, ArchiMateModel, ArchiMateRelationship, DiagramConnection, DiagramObject } from '../src/model/types.js';
 
 const feature = await loadFeature('./features/relationship-management.feature');
 
-describeFeature(feature, ({ Background, Scenario }) => {
+describeFeature(feature, ({ Background, Scenario, ScenarioOutline }) => {
   Background(({ Given }) => {
     Given('a current model', () => {
       // Each scenario builds its own model.
@@ -176,18 +183,117 @@ describeFeature(feature, ({ Background, Scenario }) => {
     });
   });
 
+  Scenario('Validation follows the Appendix B relationship table rather than layer order', ({ Given, And, When, Then }) => {
+    let validation: ReturnType<typeof validateRelationship>;
+
+    Given('a Node "Web Server"', () => {
+      resetIdCounter();
+    });
+
+    And('a BusinessActor "Customer"', () => {
+      // Validation only depends on the element types.
+    });
+
+    When('the caller invokes archimate_create_relationship of type "Realization" from "Web Server" to "Customer"', () => {
+      validation = validateRelationship('Node', 'BusinessActor', 'Realization');
+    });
+
+    Then('the call returns an error stating Realization is not valid between Node and BusinessActor', () => {
+      expect(validation.valid).toBe(false);
+      expect(validation.error).toBe('Realization is not a valid relationship between Node and BusinessActor');
+    });
+
+    And('the suggestions are exactly the relationships the table lists for Node to BusinessActor', () => {
+      expect(validation.suggestions).toEqual(['Serving', 'Association', 'Triggering', 'Flow']);
+      expect(getRelationshipCodes('Node', 'BusinessActor')).toBe('fotv');
+    });
+  });
+
+  ScenarioOutline('Cross-layer cells follow the relationship table in both directions', ({ When, Then }, examples) => {
+    let accepted: string[];
+
+    When('the caller validates every relationship type from <source> to <target>', () => {
+      const source = examples.source as ElementType;
+      const target = examples.target as ElementType;
+      accepted = RelationshipTypes.filter((type) => validateRelationship(source, target, type).valid);
+    });
+
+    Then('exactly the relationships coded "<codes>" are accepted', () => {
+      const expected = [...examples.codes as string].map((code) => RelationshipCodes[code]);
+      expect([...accepted].sort()).toEqual([...expected].sort());
+      expect(getRelationshipCodes(examples.source as ElementType, examples.target as ElementType)).toBe(examples.codes);
+    });
+  });
+
+  Scenario('Triggering is rejected between a passive object and a behavior element', ({ When, Then, And }) => {
+    let validation: ReturnType<typeof validateRelationship>;
+
+    When('the caller validates a Triggering relationship from BusinessObject to BusinessProcess', () => {
+      validation = validateRelationship('BusinessObject', 'BusinessProcess', 'Triggering');
+    });
+
+    Then('the relationship is rejected', () => {
+      expect(validation.valid).toBe(false);
+    });
+
+    And('the only suggestion is Association', () => {
+      expect(validation.suggestions).toEqual(['Association']);
+    });
+  });
+
+  Scenario('Derived relationships from the table are accepted', ({ When, Then }) => {
+    let valid: boolean;
+
+    When('the caller validates a Serving relationship from ApplicationComponent to BusinessProcess', () => {
+      valid = isValidRelationship('ApplicationComponent', 'BusinessProcess', 'Serving');
+    });
+
+    Then('the relationship is accepted even though no direct metamodel relationship connects them', () => {
+      expect(valid).toBe(true);
+    });
+  });
+
+  Scenario('Association is valid between any two element types', ({ When, Then }) => {
+    let rejected: string[];
+
+    When('the caller validates an Association between every pair of element types', () => {
+      rejected = [];
+      for (const source of AllElementTypes) {
+        for (const target of AllElementTypes) {
+          if (!isValidRelationship(source, target, 'Association')) rejected.push(`${source}->${target}`);
+        }
+      }
+    });
+
+    Then('every pair is accepted', () => {
+      expect(rejected).toEqual([]);
+    });
+  });
+
+  Scenario('Specialization is only valid between elements of the same type', ({ When, Then }) => {
+    let sameType: boolean;
+    let otherType: boolean;
+
+    When('the caller validates a Specialization from BusinessActor to BusinessActor and from BusinessActor to BusinessRole', () => {
+      sameType = isValidRelationship('BusinessActor', 'BusinessActor', 'Specialization');
+      otherType = isValidRelationship('BusinessActor', 'BusinessRole', 'Specialization');
+    });
+
+    Then('the first is accepted and the second is rejected', () => {
+      expect(sameType).toBe(true);
+      expect(otherType).toBe(false);
+    });
+  });
+
   Scenario('Query valid relationship types for a source element type', ({ When, Then, And }) => {
     let allTargets: Array<{ targetType: string; relationships: string[] }>;
 
     When('the caller invokes archimate_get_valid_relationships with source_type "ApplicationComponent"', () => {
-      const allElementTypes = ['BusinessActor', 'BusinessProcess', 'ApplicationComponent', 'ApplicationFunction', 'DataObject', 'Node'] as const;
-      allTargets = allElementTypes
-        .map((t) => ({ targetType: t, relationships: getValidRelationshipTypes('ApplicationComponent', t) }))
-        .filter((entry) => entry.relationships.length > 0);
+      allTargets = getValidRelationshipsFromSource('ApplicationComponent');
     });
 
     Then('the response lists every target element type that can be reached from ApplicationComponent', () => {
-      expect(allTargets.length).toBeGreaterThan(0);
+      expect(allTargets.map((t) => t.targetType)).toEqual([...AllElementTypes]);
     });
 
     And('each target lists the relationship types that are valid for that pair', () => {
@@ -200,6 +306,28 @@ describeFeature(feature, ({ Background, Scenario }) => {
     });
   });
 
+  Scenario('Guidance for a source element type is read from the relationship table', ({ When, Then, And }) => {
+    let guidance: string;
+
+    When('the caller invokes archimate_get_valid_relationships with source_type "DataObject"', () => {
+      guidance = getRelationshipGuidance('DataObject');
+    });
+
+    Then('the guidance names BusinessObject as a Realization target of DataObject', () => {
+      expect(guidance).toMatch(/^- Realization: to .*\bBusinessObject\b/m);
+      expect(isValidRelationship('DataObject', 'BusinessObject', 'Realization')).toBe(true);
+    });
+
+    And('the guidance lists no relationship type the table does not permit from DataObject', () => {
+      const listed = [...guidance.matchAll(/^- (\w+): /gm)].map((m) => m[1]);
+      expect(listed).toContain('Association');
+      expect(listed).not.toContain('Serving');
+      for (const type of listed) {
+        expect(getValidTargetTypes('DataObject', type as never).length).toBeGreaterThan(0);
+      }
+    });
+  });
+
   Scenario('Query valid relationship types for a specific source-target pair', ({ When, Then }) => {
     let valid: string[];
 
@@ -296,4 +424,319 @@ describeFeature(feature, ({ Background, Scenario }) => {
       expect(remainingConnections.some((c) => c.relationshipId === rel.id)).toBe(false);
     });
   });
+
+  Scenario('Reconnect an Access relationship keeping its ID and view connections', ({ Given, And, When, Then }) => {
+    let model: ArchiMateModel;
+    let history: ModelHistory;
+    let rel: ArchiMateRelationship;
+    let invoice: ArchiMateElement;
+    let orderData: ArchiMateElement;
+    let fnObj: DiagramObject;
+    let invoiceObj: DiagramObject;
+    let orderDataObj: DiagramObject;
+    let conn: DiagramConnection;
+
+    Given('an Access relationship with access_type "Read" from ApplicationFunction "Process Order" to DataObject "Invoice"', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      history = new ModelHistory();
+      const processOrder = createElement('ApplicationFunction', 'Process Order');
+      invoice = createElement('DataObject', 'Invoice');
+      orderData = createElement('DataObject', 'Order Data');
+      for (const e of [processOrder, invoice, orderData]) addElementToModel(model, e);
+      rel = { ...createRelationship('Access', processOrder.id, invoice.id), accessType: 'Read' };
+      addRelationshipToModel(model, rel);
+      fnObj = createDiagramObject(processOrder.id, 0, 0);
+      invoiceObj = createDiagramObject(invoice.id, 200, 0);
+      orderDataObj = createDiagramObject(orderData.id, 200, 100);
+    });
+
+    And('a view showing all three elements, with the relationship drawn', () => {
+      conn = createDiagramConnection(fnObj.id, invoiceObj.id, rel.id);
+      fnObj.sourceConnections = [conn];
+      invoiceObj.targetConnectionIds = [conn.id];
+      model.diagrams.push(createDiagram('Order Handling', [fnObj, invoiceObj, orderDataObj]));
+    });
+
+    When('the caller invokes archimate_update_relationship with target_id "Order Data" and access_type "Write"', () => {
+      const view = model.diagrams[0];
+      history.execute(model, compositeCommand('Update relationship', [
+        updateRelationshipCommand(rel.id, { targetId: orderData.id, accessType: 'Write' }),
+        editDiagramCommand(view.id, 'Reconnect', (diagram) => reconnectRelationshipInView(diagram, rel)),
+      ]));
+    });
+
+    Then('the relationship keeps its ID and now writes to "Order Data"', () => {
+      expect(model.relationships).toHaveLength(1);
+      expect(model.relationships[0]).toMatchObject({ id: rel.id, targetId: orderData.id, accessType: 'Write' });
+      expect(getRelationshipsForElement(model, orderData.id, 'incoming')).toEqual([rel]);
+      expect(getRelationshipsForElement(model, invoice.id, 'incoming')).toEqual([]);
+    });
+
+    And('the view\'s connection keeps its ID and now ends at the "Order Data" object', () => {
+      const [fn, , data] = model.diagrams[0].objects;
+      expect(fn.sourceConnections).toEqual([expect.objectContaining({ id: conn.id, targetId: orderDataObj.id })]);
+      expect(data.targetConnectionIds).toEqual([conn.id]);
+    });
+
+    And('archimate_undo restores the original target and connection', () => {
+      history.undo(model);
+      expect(model.relationships[0]).toMatchObject({ id: rel.id, targetId: invoice.id, accessType: 'Read' });
+      expect(getRelationshipsForElement(model, invoice.id, 'incoming')).toEqual([rel]);
+      const [fn, shownInvoice, data] = model.diagrams[0].objects;
+      expect(fn.sourceConnections).toEqual([expect.objectContaining({ id: conn.id, targetId: invoiceObj.id })]);
+      expect(shownInvoice.targetConnectionIds).toEqual([conn.id]);
+      expect(data.targetConnectionIds ?? []).toEqual([]);
+    });
+  });
+
+  Scenario('Reconnecting a relationship away from a view removes the connections on its connection', ({ Given, And, When, Then }) => {
+    let model: ArchiMateModel;
+    let rel: ArchiMateRelationship;
+    let orderData: ArchiMateElement;
+    let conn: DiagramConnection;
+    let noteConn: DiagramConnection;
+    let removed: string[] = [];
+
+    Given('an Access relationship from ApplicationFunction "Process Order" to DataObject "Invoice"', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      const processOrder = createElement('ApplicationFunction', 'Process Order');
+      const invoice = createElement('DataObject', 'Invoice');
+      orderData = createElement('DataObject', 'Order Data');
+      for (const e of [processOrder, invoice, orderData]) addElementToModel(model, e);
+      rel = createRelationship('Access', processOrder.id, invoice.id);
+      addRelationshipToModel(model, rel);
+    });
+
+    And('a view showing "Process Order" and "Invoice", with the relationship drawn and a note connected to its connection', () => {
+      const fnObj = createDiagramObject(rel.sourceId, 0, 0);
+      const invoiceObj = createDiagramObject(rel.targetId, 200, 0);
+      const noteObj: DiagramObject = { ...createDiagramObject('', 100, 150), objectType: 'Note', content: 'Read nightly' };
+      conn = createDiagramConnection(fnObj.id, invoiceObj.id, rel.id);
+      noteConn = createDiagramConnection(noteObj.id, conn.id, '');
+      fnObj.sourceConnections = [conn];
+      invoiceObj.targetConnectionIds = [conn.id];
+      noteObj.sourceConnections = [noteConn];
+      conn.targetConnectionIds = [noteConn.id];
+      model.diagrams.push(createDiagram('Order Handling', [fnObj, invoiceObj, noteObj]));
+    });
+
+    When('the caller invokes archimate_update_relationship with target_id "Order Data", which the view does not show', () => {
+      const view = model.diagrams[0];
+      new ModelHistory().execute(model, compositeCommand('Update relationship', [
+        updateRelationshipCommand(rel.id, { targetId: orderData.id }),
+        editDiagramCommand(view.id, 'Reconnect', (diagram) => {
+          removed = reconnectRelationshipInView(diagram, rel).removed.map((c) => c.id);
+        }),
+      ]));
+    });
+
+    Then('the response lists the relationship\'s connection and the note\'s connection as removed', () => {
+      expect(removed).toEqual([conn.id, noteConn.id]);
+    });
+
+    And('the view has no connections left', () => {
+      const objects = model.diagrams[0].objects;
+      expect(objects.flatMap((o) => o.sourceConnections ?? [])).toEqual([]);
+      expect(objects.flatMap((o) => o.targetConnectionIds ?? [])).toEqual([]);
+    });
+  });
+
+  Scenario('Changing a relationship\'s type drops modifiers the new type does not carry', ({ Given, When, Then }) => {
+    let model: ArchiMateModel;
+    let rel: ArchiMateRelationship;
+
+    Given('an Access relationship with access_type "ReadWrite" from ApplicationFunction "Process Order" to DataObject "Order Data"', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      const processOrder = createElement('ApplicationFunction', 'Process Order');
+      const orderData = createElement('DataObject', 'Order Data');
+      addElementToModel(model, processOrder);
+      addElementToModel(model, orderData);
+      rel = { ...createRelationship('Access', processOrder.id, orderData.id), accessType: 'ReadWrite' };
+      addRelationshipToModel(model, rel);
+    });
+
+    When('the caller invokes archimate_update_relationship with relationship_type "Association"', () => {
+      expect(validateRelationship('ApplicationFunction', 'DataObject', 'Association').valid).toBe(true);
+      updateRelationshipInModel(model, rel.id, { type: 'Association' });
+    });
+
+    Then('the relationship keeps its ID and is now an Association without an access type', () => {
+      expect(model.relationships).toEqual([rel]);
+      expect(rel.type).toBe('Association');
+      expect(rel.accessType).toBeUndefined();
+    });
+  });
+
+  Scenario('Reject an update to a type the endpoints do not allow', ({ Given, When, Then, And }) => {
+    let validation: ReturnType<typeof validateRelationship>;
+
+    Given('an Access relationship from ApplicationFunction "Process Order" to DataObject "Order Data"', () => {
+      resetIdCounter();
+    });
+
+    When('the caller invokes archimate_update_relationship with relationship_type "Serving"', () => {
+      validation = validateRelationship('ApplicationFunction', 'DataObject', 'Serving');
+    });
+
+    Then('the call returns an error stating Serving is not valid between ApplicationFunction and DataObject', () => {
+      expect(validation.valid).toBe(false);
+      expect(validation.error).toBe('Serving is not a valid relationship between ApplicationFunction and DataObject');
+    });
+
+    And('the error suggests Access or Association instead', () => {
+      expect(validation.suggestions).toEqual(['Access', 'Association']);
+    });
+  });
+
+  Scenario('Relationships on a junction must share one type', ({ Given, And, When, Then }) => {
+    let model: ArchiMateModel;
+    let junction: ArchiMateElement;
+    let assess: ArchiMateElement;
+    let error: string | undefined;
+
+    Given('a BusinessProcess "Receive Claim" with a Triggering relationship to an And junction', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      const receive = createElement('BusinessProcess', 'Receive Claim');
+      junction = { ...createElement('Junction', ''), junctionType: 'and' };
+      addElementToModel(model, receive);
+      addElementToModel(model, junction);
+      addRelationshipToModel(model, createRelationship('Triggering', receive.id, junction.id));
+    });
+
+    And('a BusinessProcess "Assess Claim"', () => {
+      assess = createElement('BusinessProcess', 'Assess Claim');
+      addElementToModel(model, assess);
+    });
+
+    When('the caller invokes archimate_create_relationship of type "Flow" from the junction to "Assess Claim"', () => {
+      expect(validateRelationship('Junction', 'BusinessProcess', 'Flow').valid).toBe(true);
+      error = checkJunctionRelationship(model, createRelationship('Flow', junction.id, assess.id));
+    });
+
+    Then('the call returns an error stating the relationships on the junction mix Triggering and Flow', () => {
+      expect(error).toBe(`Relationships on junction ${junction.id} mix Triggering, Flow; all relationships on a junction must have the same type`);
+    });
+
+    And('a Triggering relationship from the junction to "Assess Claim" is accepted', () => {
+      expect(checkJunctionRelationship(model, createRelationship('Triggering', junction.id, assess.id))).toBeUndefined();
+    });
+  });
+
+  Scenario('Associate an element with a relationship', ({ Given, And, When, Then }) => {
+    let model: ArchiMateModel;
+    let access: ArchiMateRelationship;
+    let requirement: ArchiMateElement;
+    let association: ArchiMateRelationship;
+
+    Given('an Access relationship from BusinessProcess "Handle Claim" to BusinessObject "Claim"', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      const process = createElement('BusinessProcess', 'Handle Claim');
+      const claim = createElement('BusinessObject', 'Claim');
+      addElementToModel(model, process);
+      addElementToModel(model, claim);
+      access = createRelationship('Access', process.id, claim.id);
+      addRelationshipToModel(model, access);
+    });
+
+    And('a Requirement "Keep an audit trail"', () => {
+      requirement = createElement('Requirement', 'Keep an audit trail');
+      addElementToModel(model, requirement);
+    });
+
+    When('the caller invokes archimate_create_relationship of type "Association" from "Keep an audit trail" to the Access relationship', () => {
+      const source = getRelationshipEnd(model, requirement.id)!;
+      const target = getRelationshipEnd(model, access.id)!;
+      expect(validateRelationship(source.type, target.type, 'Association').valid).toBe(true);
+      association = createRelationship('Association', requirement.id, access.id);
+      addRelationshipToModel(model, association);
+    });
+
+    Then('the relationship is created with the Access relationship as its target', () => {
+      expect(getRelationshipEnd(model, association.targetId)).toEqual({ id: access.id, type: 'Relationship', name: 'Access relationship' });
+    });
+
+    And('archimate_list_relationships filtered by the Access relationship lists the association', () => {
+      expect(getRelationshipsForElement(model, access.id)).toEqual([association]);
+    });
+
+    And('a Serving relationship from "Keep an audit trail" to the Access relationship is rejected with Association as the suggestion', () => {
+      const validation = validateRelationship('Requirement', 'Relationship', 'Serving');
+      expect(validation).toEqual({
+        valid: false,
+        error: 'Serving is not a valid relationship between Requirement and Relationship',
+        suggestions: ['Association'],
+      });
+    });
+  });
+
+  Scenario('Groupings and plateaus aggregate relationships', ({ Given, Then, And }) => {
+    Given('relationships as endpoints', () => {
+      resetIdCounter();
+    });
+
+    Then('Aggregation and Composition are valid from a Grouping to a relationship', () => {
+      expect(getValidRelationshipTypes('Grouping', 'Relationship')).toEqual(['Composition', 'Aggregation', 'Association']);
+    });
+
+    And('Aggregation is valid from a Plateau to a relationship', () => {
+      expect(getValidRelationshipTypes('Plateau', 'Relationship')).toEqual(['Aggregation', 'Association']);
+    });
+
+    And('only Association is valid from a relationship to an element or another relationship', () => {
+      expect(getValidRelationshipTypes('Relationship', 'Goal')).toEqual(['Association']);
+      expect(getValidRelationshipTypes('Relationship', 'Relationship')).toEqual(['Association']);
+      expect(getValidRelationshipTypes('BusinessActor', 'Relationship')).toEqual(['Association']);
+    });
+  });
+
+  Scenario('Deleting a relationship removes the relationships on it', ({ Given, And, When, Then }) => {
+    let model: ArchiMateModel;
+    let access: ArchiMateRelationship;
+    let association: ArchiMateRelationship;
+    let requirementObj: DiagramObject;
+
+    Given('an Access relationship with an Association from a Requirement to it', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      const process = createElement('BusinessProcess', 'Handle Claim');
+      const claim = createElement('BusinessObject', 'Claim');
+      const requirement = createElement('Requirement', 'Keep an audit trail');
+      for (const element of [process, claim, requirement]) addElementToModel(model, element);
+      access = createRelationship('Access', process.id, claim.id);
+      association = createRelationship('Association', requirement.id, access.id);
+      addRelationshipToModel(model, access);
+      addRelationshipToModel(model, association);
+    });
+
+    And('a view drawing both, the association ending on the Access connection', () => {
+      const [processId, claimId, requirementId] = model.folders.flatMap(f => f.elements).map(e => e.id);
+      const processObj = createDiagramObject(processId, 0, 0);
+      const claimObj = createDiagramObject(claimId, 240, 0);
+      requirementObj = createDiagramObject(requirementId, 120, 150);
+      const accessConn = createDiagramConnection(processObj.id, claimObj.id, access.id);
+      attachConnection(processObj, claimObj, accessConn);
+      attachConnection(requirementObj, accessConn, createDiagramConnection(requirementObj.id, accessConn.id, association.id));
+      model.diagrams.push(createDiagram('Claims', [processObj, claimObj, requirementObj]));
+    });
+
+    When('the caller invokes archimate_delete_relationship with the Access relationship id', () => {
+      removeRelationshipFromModel(model, access.id);
+    });
+
+    Then('both relationships are removed from the model', () => {
+      expect(model.relationships).toEqual([]);
+    });
+
+    And('both connections are removed from the view', () => {
+      const [processObj, claimObj] = model.diagrams[0].objects;
+      expect(processObj.sourceConnections).toEqual([]);
+      expect(claimObj.targetConnectionIds).toEqual([]);
+      expect(requirementObj.sourceConnections).toEqual([]);
+    });
+  });
 });
@@ -65,3 +65,66 @@ Feature: View construction with auto-drawn connections
   Scenario: List all views in the model
     When the caller invokes archimate_list_views
     Then the response includes every diagram view's id, name, and viewpoint
+
+  Scenario: Nest an element inside another diagram object
+    Given a view "V" containing a Node "Server" at 40,40 sized 200x100
+    When the caller adds ApplicationComponent "CRM" inside Server's diagram object at view position 300,80
+    Then CRM's diagram object is a child of Server's diagram object
+    And its bounds are stored relative to Server at 260,40
+    And Server's diagram object grows to contain it
+
+  Scenario: Auto-draw reaches nested elements but not the containing object
+    Given a view "V" with ApplicationComponent "CRM" nested in Node "Server"
+    And a Serving relationship from "CRM" to BusinessProcess "Sell"
+    And an Assignment relationship from "Server" to ApplicationFunction "Billing"
+    When the caller adds "Sell" to the view and "Billing" inside CRM's diagram object
+    Then a connection is drawn from CRM's nested diagram object to Sell's diagram object
+    And no connection is drawn between Billing and the objects containing it
+
+  Scenario: Deleting an element removes its nested diagram objects and their connections
+    Given a view "V" with ApplicationComponent "CRM" nested in Node "Server" and a connection from CRM to "Sell"
+    When the caller deletes the element "Server"
+    Then the view no longer contains Server's or CRM's diagram objects
+    And Sell's diagram object no longer references the removed connection
+
+  Scenario: Annotate a view with a note, a group, and a drill-down reference
+    Given a view "Overview" and a view "Details"
+    When the caller adds a note "Customer journey" to "Overview"
+    And adds a group "Legend" to "Overview"
+    And adds a reference to "Details" inside the group
+    Then "Overview" holds the note, and the group with the reference nested in it
+    And none of them refers to a model element
+    And the saved model reads back with the same note text, group name, and referenced view
+
+  Scenario: Lay out a view by ArchiMate layer
+    Given a view "V" with a BusinessProcess, an ApplicationComponent serving it, and a Node serving the component, all at the same position
+    When the caller invokes archimate_layout_view with view "V"
+    Then the BusinessProcess is above the ApplicationComponent, which is above the Node
+    And no two diagram objects overlap
+
+  Scenario: Lay out only newly added objects
+    Given a view "V" whose objects the user arranged by hand
+    And an ApplicationComponent "ERP" just added to "V" on top of another object
+    When the caller invokes archimate_layout_view with object_ids set to ERP's diagram object
+    Then only ERP's diagram object moves
+    And it no longer overlaps any other object
+
+  Scenario: Generate a context view around an element
+    Given an ApplicationComponent "CRM" serving a BusinessProcess "Sell", realized by a Node "Server", and accessing a DataObject "Customer"
+    When the caller invokes archimate_generate_view with root "CRM", depth 1, and relationship types Serving and Realization
+    Then the new view shows "CRM", "Sell", and "Server" but not "Customer"
+    And it holds one connection per followed relationship
+    And "Sell" is above "CRM", which is above "Server"
+
+  Scenario: Generating a view with an unknown layout mode is refused
+    Given an ApplicationComponent "CRM" in an otherwise empty model
+    When the caller invokes archimate_generate_view with root "CRM" and layout_mode "bogus"
+    Then the response is "Error: Unknown layout mode: bogus. Use one of: layered, grid, nested"
+    And no view is added
+
+  Scenario: A view's viewpoint limits the elements it shows
+    Given a view "Integration" created with the viewpoint "application_cooperation"
+    When the caller invokes archimate_add_to_view with an ApplicationComponent and then with a BusinessActor
+    Then the ApplicationComponent is added
+    And the BusinessActor is refused because the Application Cooperation viewpoint does not show it
+    And with allow_outside_viewpoint set it is added with that warning
@@ -1,6 +1,19 @@
 import { loadFeature, describeFeature } from '@amiceli/vitest-cucumber';
 import { expect } from 'vitest';
-import { autoConnectDiagramObject } from '../src/model/view-helpers.js';
+import {
+  absoluteOrigin,
+  allDiagramObjects,
+  autoConnectDiagramObject,
+  findDiagramObject,
+  growAncestorsToFit,
+  insertDiagramObject,
+  resolvePlacement,
+} from '../src/model/view-helpers.js';
+import { removeElementFromModel, serializeModel } from '../src/model/writer.js';
+import { parseModelXml } from '../src/model/parser.js';
+import { layoutView, LAYOUT_MODES, type LayoutMode } from '../src/model/layout.js';
+import { generateView, type GeneratedView } from '../src/model/view-generation.js';
+import { checkViewpoint, resolveViewpoint } from '../src/model/viewpoints.js';
 import {
   createEmptyModel,
   createElement,
@@ -394,4 +407,414 @@ describeFeature(feature, ({ Scenario, Background }) => {
       }
     });
   });
+
+  Scenario('Nest an element inside another diagram object', ({ Given, When, Then, And }) => {
+    let view: ArchiMateDiagram;
+    let serverObj: DiagramObject;
+    let crmObj: DiagramObject;
+
+    Given('a view "V" containing a Node "Server" at 40,40 sized 200x100', () => {
+      resetIdCounter();
+      view = createDiagram('V');
+      serverObj = createDiagramObject(createElement('Node', 'Server').id, 40, 40, 200, 100);
+      view.objects.push(serverObj);
+    });
+
+    When('the caller adds ApplicationComponent "CRM" inside Server\'s diagram object at view position 300,80', () => {
+      // Same steps as the archimate_add_to_view handler with coordinates: absolute
+      const parent = findDiagramObject(view, serverObj.id);
+      const origin = absoluteOrigin(parent);
+      crmObj = createDiagramObject(createElement('ApplicationComponent', 'CRM').id, 300 - origin.x, 80 - origin.y);
+      serverObj.children!.push(crmObj);
+      growAncestorsToFit(findDiagramObject(view, crmObj.id)!);
+    });
+
+    Then('CRM\'s diagram object is a child of Server\'s diagram object', () => {
+      expect(view.objects).toEqual([serverObj]);
+      expect(findDiagramObject(view, crmObj.id)?.parent).toBe(serverObj);
+    });
+
+    And('its bounds are stored relative to Server at 260,40', () => {
+      expect(crmObj.bounds).toMatchObject({ x: 260, y: 40 });
+    });
+
+    And('Server\'s diagram object grows to contain it', () => {
+      expect(serverObj.bounds).toEqual({ x: 40, y: 40, width: 392, height: 107 });
+    });
+  });
+
+  Scenario('Auto-draw reaches nested elements but not the containing object', ({ Given, And, When, Then }) => {
+    let model: ArchiMateModel;
+    let view: ArchiMateDiagram;
+    let serverObj: DiagramObject;
+    let crmObj: DiagramObject;
+    let sellObj: DiagramObject;
+    let billingObj: DiagramObject;
+    let ids: Record<string, string>;
+    let created: DiagramConnection[];
+
+    Given('a view "V" with ApplicationComponent "CRM" nested in Node "Server"', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      const server = createElement('Node', 'Server');
+      const crm = createElement('ApplicationComponent', 'CRM');
+      addElementToModel(model, server);
+      addElementToModel(model, crm);
+      ids = { server: server.id, crm: crm.id };
+      view = createDiagram('V');
+      model.diagrams.push(view);
+      serverObj = createDiagramObject(server.id, 40, 40, 300, 150);
+      crmObj = createDiagramObject(crm.id, 12, 24);
+      serverObj.children!.push(crmObj);
+      view.objects.push(serverObj);
+    });
+
+    And('a Serving relationship from "CRM" to BusinessProcess "Sell"', () => {
+      const sell = createElement('BusinessProcess', 'Sell');
+      addElementToModel(model, sell);
+      ids.sell = sell.id;
+      model.relationships.push(createRelationship('Serving', ids.crm, sell.id));
+    });
+
+    And('an Assignment relationship from "Server" to ApplicationFunction "Billing"', () => {
+      const billing = createElement('ApplicationFunction', 'Billing');
+      addElementToModel(model, billing);
+      ids.billing = billing.id;
+      model.relationships.push(createRelationship('Assignment', ids.server, billing.id));
+    });
+
+    When('the caller adds "Sell" to the view and "Billing" inside CRM\'s diagram object', () => {
+      sellObj = createDiagramObject(ids.sell, 400, 40);
+      view.objects.push(sellObj);
+      created = autoConnectDiagramObject(model, view, sellObj);
+      billingObj = createDiagramObject(ids.billing, 12, 24);
+      crmObj.children!.push(billingObj);
+      created.push(...autoConnectDiagramObject(model, view, billingObj));
+    });
+
+    Then('a connection is drawn from CRM\'s nested diagram object to Sell\'s diagram object', () => {
+      expect(created).toHaveLength(1);
+      expect(created[0]).toMatchObject({ sourceId: crmObj.id, targetId: sellObj.id });
+      expect(sellObj.targetConnectionIds).toEqual([created[0].id]);
+    });
+
+    And('no connection is drawn between Billing and the objects containing it', () => {
+      expect(serverObj.sourceConnections).toEqual([]);
+      expect(billingObj.targetConnectionIds ?? []).toEqual([]);
+    });
+  });
+
+  Scenario('Deleting an element removes its nested diagram objects and their connections', ({ Given, When, Then, And }) => {
+    let model: ArchiMateModel;
+    let view: ArchiMateDiagram;
+    let serverId: string;
+    let sellObj: DiagramObject;
+
+    Given('a view "V" with ApplicationComponent "CRM" nested in Node "Server" and a connection from CRM to "Sell"', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      const server = createElement('Node', 'Server');
+      const crm = createElement('ApplicationComponent', 'CRM');
+      const sell = createElement('BusinessProcess', 'Sell');
+      [server, crm, sell].forEach((e) => addElementToModel(model, e));
+      serverId = server.id;
+      const rel = createRelationship('Serving', crm.id, sell.id);
+      model.relationships.push(rel);
+
+      view = createDiagram('V');
+      model.diagrams.push(view);
+      const serverObj = createDiagramObject(server.id, 40, 40, 300, 150);
+      const crmObj = createDiagramObject(crm.id, 12, 24);
+      sellObj = createDiagramObject(sell.id, 400, 40);
+      serverObj.children!.push(crmObj);
+      view.objects.push(serverObj, sellObj);
+      autoConnectDiagramObject(model, view, crmObj);
+      expect(sellObj.targetConnectionIds).toHaveLength(1);
+    });
+
+    When('the caller deletes the element "Server"', () => {
+      removeElementFromModel(model, serverId);
+    });
+
+    Then('the view no longer contains Server\'s or CRM\'s diagram objects', () => {
+      expect(allDiagramObjects(view.objects)).toEqual([sellObj]);
+    });
+
+    And('Sell\'s diagram object no longer references the removed connection', () => {
+      expect(sellObj.targetConnectionIds).toEqual([]);
+    });
+  });
+
+  Scenario('Annotate a view with a note, a group, and a drill-down reference', ({ Given, When, And, Then }) => {
+    let model: ArchiMateModel;
+    let overview: ArchiMateDiagram;
+    let details: ArchiMateDiagram;
+    let note: DiagramObject;
+    let group: DiagramObject;
+    let reference: DiagramObject;
+
+    Given('a view "Overview" and a view "Details"', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      overview = createDiagram('Overview');
+      details = createDiagram('Details');
+      model.diagrams.push(overview, details);
+    });
+
+    // Same steps as the archimate_add_note_to_view, archimate_add_group_to_view,
+    // and archimate_add_view_reference handlers
+    When('the caller adds a note "Customer journey" to "Overview"', () => {
+      note = {
+        id: 'note-1',
+        objectType: 'Note',
+        elementId: '',
+        content: 'Customer journey',
+        bounds: resolvePlacement(overview, {}, { width: 185, height: 80 }),
+      };
+      insertDiagramObject(overview, note);
+    });
+
+    And('adds a group "Legend" to "Overview"', () => {
+      group = {
+        id: 'group-1',
+        objectType: 'Group',
+        elementId: '',
+        name: 'Legend',
+        bounds: resolvePlacement(overview, { x: 300, y: 20 }, { width: 400, height: 140 }),
+      };
+      insertDiagramObject(overview, group);
+    });
+
+    And('adds a reference to "Details" inside the group', () => {
+      const placement = { parentObjectId: group.id };
+      reference = {
+        id: 'ref-1',
+        objectType: 'DiagramModelReference',
+        elementId: '',
+        diagramId: details.id,
+        bounds: resolvePlacement(overview, placement, { width: 120, height: 55 }),
+      };
+      insertDiagramObject(overview, reference, placement.parentObjectId);
+    });
+
+    Then('"Overview" holds the note, and the group with the reference nested in it', () => {
+      expect(overview.objects).toEqual([note, group]);
+      expect(group.children).toEqual([reference]);
+      expect(reference.bounds).toMatchObject({ x: 12, y: 24 });
+    });
+
+    And('none of them refers to a model element', () => {
+      expect(allDiagramObjects(overview.objects).map((o) => o.elementId)).toEqual(['', '', '']);
+    });
+
+    And('the saved model reads back with the same note text, group name, and referenced view', () => {
+      const reread = parseModelXml(serializeModel(model));
+      const objects = allDiagramObjects(reread.diagrams[0].objects);
+      expect(objects.map((o) => o.objectType)).toEqual(['Note', 'Group', 'DiagramModelReference']);
+      expect(objects[0].content).toBe('Customer journey');
+      expect(objects[1].name).toBe('Legend');
+      expect(objects[2].diagramId).toBe(details.id);
+    });
+  });
+
+  Scenario('Lay out a view by ArchiMate layer', ({ Given, When, Then, And }) => {
+    let model: ArchiMateModel;
+    let view: ArchiMateDiagram;
+    let process: DiagramObject;
+    let component: DiagramObject;
+    let node: DiagramObject;
+
+    Given('a view "V" with a BusinessProcess, an ApplicationComponent serving it, and a Node serving the component, all at the same position', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      view = createDiagram('V');
+      model.diagrams.push(view);
+      const [p, c, n] = [
+        createElement('BusinessProcess', 'Sell'),
+        createElement('ApplicationComponent', 'CRM'),
+        createElement('Node', 'Server'),
+      ];
+      [p, c, n].forEach((e) => addElementToModel(model, e));
+      model.relationships.push(createRelationship('Serving', c.id, p.id), createRelationship('Serving', n.id, c.id));
+      [process, component, node] = [p, c, n].map((e) => createDiagramObject(e.id, 50, 50));
+      view.objects.push(node, component, process);
+      for (const obj of view.objects) {
+        autoConnectDiagramObject(model, view, obj);
+      }
+    });
+
+    When('the caller invokes archimate_layout_view with view "V"', () => {
+      layoutView(model, view);
+    });
+
+    Then('the BusinessProcess is above the ApplicationComponent, which is above the Node', () => {
+      expect(process.bounds.y + process.bounds.height).toBeLessThan(component.bounds.y);
+      expect(component.bounds.y + component.bounds.height).toBeLessThan(node.bounds.y);
+    });
+
+    And('no two diagram objects overlap', () => {
+      const bounds = [process, component, node].map((o) => o.bounds);
+      for (const a of bounds) {
+        for (const b of bounds.filter((other) => other !== a)) {
+          expect(a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height).toBe(false);
+        }
+      }
+    });
+  });
+
+  Scenario('Lay out only newly added objects', ({ Given, And, When, Then }) => {
+    let model: ArchiMateModel;
+    let view: ArchiMateDiagram;
+    let erp: DiagramObject;
+    let arranged: Array<{ id: string; x: number; y: number }>;
+
+    Given('a view "V" whose objects the user arranged by hand', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      view = createDiagram('V');
+      model.diagrams.push(view);
+      for (const [name, x, y] of [['Sell', 400, 40], ['CRM', 100, 300], ['Billing', 600, 300]] as const) {
+        const element = createElement(name === 'Sell' ? 'BusinessProcess' : 'ApplicationComponent', name);
+        addElementToModel(model, element);
+        view.objects.push(createDiagramObject(element.id, x, y));
+      }
+      arranged = view.objects.map((o) => ({ id: o.id, x: o.bounds.x, y: o.bounds.y }));
+    });
+
+    And('an ApplicationComponent "ERP" just added to "V" on top of another object', () => {
+      const element = createElement('ApplicationComponent', 'ERP');
+      addElementToModel(model, element);
+      erp = createDiagramObject(element.id, 110, 310);
+      view.objects.push(erp);
+    });
+
+    When("the caller invokes archimate_layout_view with object_ids set to ERP's diagram object", () => {
+      layoutView(model, view, { objectIds: [erp.id] });
+    });
+
+    Then("only ERP's diagram object moves", () => {
+      expect(view.objects.slice(0, 3).map((o) => ({ id: o.id, x: o.bounds.x, y: o.bounds.y }))).toEqual(arranged);
+      expect(erp.bounds).not.toMatchObject({ x: 110, y: 310 });
+    });
+
+    And('it no longer overlaps any other object', () => {
+      for (const other of view.objects.slice(0, 3)) {
+        const [a, b] = [erp.bounds, other.bounds];
+        const overlap = a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+        expect(overlap).toBe(false);
+      }
+    });
+  });
+
+  Scenario('Generate a context view around an element', ({ Given, When, Then, And }) => {
+    let model: ArchiMateModel;
+    let generated: GeneratedView;
+    const ids = new Map<string, string>();
+
+    Given('an ApplicationComponent "CRM" serving a BusinessProcess "Sell", realized by a Node "Server", and accessing a DataObject "Customer"', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      for (const [type, name] of [['ApplicationComponent', 'CRM'], ['BusinessProcess', 'Sell'], ['Node', 'Server'], ['DataObject', 'Customer']] as const) {
+        const element = createElement(type, name);
+        addElementToModel(model, element);
+        ids.set(name, element.id);
+      }
+      model.relationships.push(
+        createRelationship('Serving', ids.get('CRM')!, ids.get('Sell')!),
+        createRelationship('Realization', ids.get('Server')!, ids.get('CRM')!),
+        createRelationship('Access', ids.get('CRM')!, ids.get('Customer')!)
+      );
+    });
+
+    When('the caller invokes archimate_generate_view with root "CRM", depth 1, and relationship types Serving and Realization', () => {
+      generated = generateView(model, {
+        name: 'CRM context',
+        rootElementId: ids.get('CRM'),
+        depth: 1,
+        relationshipTypes: ['Serving', 'Realization'],
+      });
+    });
+
+    Then('the new view shows "CRM", "Sell", and "Server" but not "Customer"', () => {
+      const shown = generated.diagram.objects.map((o) => o.elementId);
+      expect(shown.sort()).toEqual(['CRM', 'Sell', 'Server'].map((name) => ids.get(name)!).sort());
+    });
+
+    And('it holds one connection per followed relationship', () => {
+      const connections = generated.diagram.objects.flatMap((o) => o.sourceConnections ?? []);
+      expect(connections).toHaveLength(2);
+      expect(generated.connectionCount).toBe(2);
+    });
+
+    And('"Sell" is above "CRM", which is above "Server"', () => {
+      const y = (name: string) => generated.diagram.objects.find((o) => o.elementId === ids.get(name))!.bounds.y;
+      expect(y('Sell')).toBeLessThan(y('CRM'));
+      expect(y('CRM')).toBeLessThan(y('Server'));
+    });
+  });
+
+  Scenario('Generating a view with an unknown layout mode is refused', ({ Given, When, Then, And }) => {
+    let model: ArchiMateModel;
+    let crmId: string;
+    let response: string;
+
+    Given('an ApplicationComponent "CRM" in an otherwise empty model', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      const crm = createElement('ApplicationComponent', 'CRM');
+      addElementToModel(model, crm);
+      crmId = crm.id;
+    });
+
+    When('the caller invokes archimate_generate_view with root "CRM" and layout_mode "bogus"', () => {
+      // Mirrors the handler's check before generateView runs
+      const layoutMode = 'bogus' as LayoutMode;
+      if (!LAYOUT_MODES.includes(layoutMode)) {
+        response = `Error: Unknown layout mode: ${layoutMode}. Use one of: ${LAYOUT_MODES.join(', ')}`;
+        return;
+      }
+      model.diagrams.push(generateView(model, { name: 'CRM context', rootElementId: crmId, layoutMode }).diagram);
+    });
+
+    Then('the response is "Error: Unknown layout mode: bogus. Use one of: layered, grid, nested"', () => {
+      expect(response).toBe('Error: Unknown layout mode: bogus. Use one of: layered, grid, nested');
+    });
+
+    And('no view is added', () => {
+      expect(model.diagrams).toEqual([]);
+    });
+  });
+
+  Scenario("A view's viewpoint limits the elements it shows", ({ Given, When, Then, And }) => {
+    let model: ArchiMateModel;
+    let view: ArchiMateDiagram;
+    let warnings: Array<string | undefined>;
+
+    Given('a view "Integration" created with the viewpoint "application_cooperation"', () => {
+      resetIdCounter();
+      model = createEmptyModel();
+      view = { ...createDiagram('Integration'), viewpoint: resolveViewpoint('application_cooperation').id };
+      model.diagrams.push(view);
+    });
+
+    When('the caller invokes archimate_add_to_view with an ApplicationComponent and then with a BusinessActor', () => {
+      const elements = [createElement('ApplicationComponent', 'CRM'), createElement('BusinessActor', 'Clerk')];
+      elements.forEach((e) => addElementToModel(model, e));
+      // The handler refuses an element when checkViewpoint gives a reason
+      warnings = elements.map((e) => checkViewpoint(view, e.type));
+    });
+
+    Then('the ApplicationComponent is added', () => {
+      expect(warnings[0]).toBeUndefined();
+    });
+
+    And('the BusinessActor is refused because the Application Cooperation viewpoint does not show it', () => {
+      expect(warnings[1]).toBe('The Application Cooperation viewpoint of view "Integration" does not show BusinessActor elements');
+    });
+
+    And('with allow_outside_viewpoint set it is added with that warning', () => {
+      // The same reason is returned as viewpointWarning instead of an error
+      expect(warnings[1]).toContain('does not show BusinessActor');
+    });
+  });
 });
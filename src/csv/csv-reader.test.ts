@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { applyCsvImport, checkCsvImport, parseCsv } from './csv-reader.js';
+import type { ArchiMateElement, ArchiMateModel } from '../model/types.js';
+import { getModelIndex } from '../model/model-index.js';
+import {
+  createEmptyModel,
+  createElement,
+  addElementToModel,
+  resetIdCounter,
+} from '../__tests__/fixtures/sample-model.js';
+
+describe('Archi CSV Reader', () => {
+  let model: ArchiMateModel;
+  let actor: ArchiMateElement;
+
+  beforeEach(() => {
+    resetIdCounter();
+    model = createEmptyModel();
+    actor = createElement('BusinessActor', 'Clerk');
+    addElementToModel(model, actor);
+  });
+
+  describe('parseCsv', () => {
+    it('reads quoted fields with quotes, delimiters, and line breaks', () => {
+      expect(parseCsv('\uFEFF"ID","Name"\r\n"a","Say ""hi"", then\r\nleave"\r\nb,plain\r\n\r\n')).toEqual([
+        ['ID', 'Name'],
+        ['a', 'Say "hi", then\r\nleave'],
+        ['b', 'plain'],
+      ]);
+    });
+
+    it('uses the delimiter of the header line', () => {
+      expect(parseCsv('ID;Name\na;x,y\n')).toEqual([['ID', 'Name'], ['a', 'x,y']]);
+      expect(parseCsv('ID\tName\na\tx;y')).toEqual([['ID', 'Name'], ['a', 'x;y']]);
+    });
+
+    it('rejects an unterminated quoted field', () => {
+      expect(() => parseCsv('ID,Name\n"a,b\n')).toThrow('Unterminated quoted field in row 2');
+    });
+  });
+
+  describe('checkCsvImport', () => {
+    it('reads junction kinds and relationships on relationships later in the file', () => {
+      const csv = checkCsvImport(model, {
+        elements: 'ID,Type,Name\nj1,OrJunction,\nevent,BusinessEvent,Claim Received\nreq,Requirement,Audit trail\n',
+        relations: [
+          'ID,Type,Name,Documentation,Source,Target',
+          `note,AssociationRelationship,,,req,trigger`,
+          `trigger,Triggering,,,event,j1`,
+        ].join('\n'),
+      });
+
+      expect(csv.errors).toEqual([]);
+      expect(csv.elements[0]).toMatchObject({ id: 'j1', type: 'Junction', junctionType: 'or' });
+      expect(csv.relationships.map((r) => [r.id, r.type])).toEqual([['note', 'Association'], ['trigger', 'Triggering']]);
+    });
+
+    it('refuses type changes, duplicate IDs, and files without the required columns', () => {
+      const csv = checkCsvImport(model, {
+        elements: `ID,Type,Name\n${actor.id},BusinessRole,Clerk\nr1,BusinessRole,A\nr1,BusinessRole,B\n`,
+        properties: 'ID,Name\n',
+      });
+
+      expect(csv.errors).toEqual([
+        {
+          file: 'elements.csv',
+          row: 2,
+          id: actor.id,
+          error: `Element ${actor.id} is a BusinessActor, not a BusinessRole; use archimate_change_element_type to change its type`,
+        },
+        { file: 'elements.csv', row: 4, id: 'r1', error: 'ID r1 appears more than once' },
+        { file: 'properties.csv', row: 1, error: 'Missing column(s): Key, Value' },
+      ]);
+    });
+
+    it('generates IDs for rows without one', () => {
+      const csv = checkCsvImport(model, { elements: 'ID,Type,Name\n,BusinessRole,Approver\n' });
+
+      expect(csv.elements[0].id).toMatch(/^id-/);
+    });
+  });
+
+  describe('applyCsvImport', () => {
+    it('sets property values by key and adds repeated keys', () => {
+      actor.properties = [{ key: 'Team', value: 'Claims' }, { key: 'Site', value: 'Leeds' }];
+      const csv = checkCsvImport(model, {
+        elements: `ID,Type,Name\n${actor.id},BusinessActor,Senior Clerk\n`,
+        properties: `ID,Key,Value\n${actor.id},Site,York\n${actor.id},Site,Hull\n${model.id},Status,Draft\n`,
+      });
+
+      expect(applyCsvImport(model, csv)).toEqual({
+        elementsCreated: 0,
+        elementsUpdated: 1,
+        relationshipsCreated: 0,
+        relationshipsUpdated: 0,
+        propertiesSet: 3,
+      });
+      expect(getModelIndex(model).getElement(actor.id)).toMatchObject({
+        name: 'Senior Clerk',
+        properties: [{ key: 'Team', value: 'Claims' }, { key: 'Site', value: 'York' }, { key: 'Site', value: 'Hull' }],
+      });
+      expect(model.properties).toEqual([{ key: 'Status', value: 'Draft' }]);
+    });
+
+    it('refuses an import with invalid rows', () => {
+      const csv = checkCsvImport(model, { elements: 'ID,Type,Name\nx,Database,Orders\n' });
+
+      expect(() => applyCsvImport(model, csv)).toThrow('The CSV import has 1 invalid row(s)');
+    });
+  });
+});
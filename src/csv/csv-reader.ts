@@ -0,0 +1,397 @@
+/**
+ * Archi CSV Reader
+ * Imports elements, relationships, and properties from the CSV files Archi
+ * reads and writes: elements.csv, relations.csv, and properties.csv
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type {
+  ArchiMateModel,
+  ArchiMateElement,
+  ArchiMateRelationship,
+  ArchiMateProperty,
+  ElementType,
+  RelationshipEndpointType,
+  RelationshipType,
+} from '../model/types.js';
+import { XmlTypeToElementType, XmlTypeToRelationshipType, RelationshipTypes } from '../model/types.js';
+import { getModelIndex } from '../model/model-index.js';
+import { addElementToModel, addRelationshipToModel, generateId } from '../model/writer.js';
+import { findPropertyOwner } from '../model/properties.js';
+import { validateRelationship } from '../relationships/validation.js';
+import { CsvFileNames, CsvModelType, type CsvFile } from './csv-writer.js';
+
+/**
+ * Contents of the CSV files of one import. Only elements.csv is required.
+ */
+export interface CsvFiles {
+  elements: string;
+  relations?: string;
+  properties?: string;
+}
+
+export interface CsvRowError {
+  file: string;
+  /** Row number as a spreadsheet shows it; the header is row 1 */
+  row: number;
+  id?: string;
+  error: string;
+}
+
+/**
+ * A checked import: what it creates and updates, or the rows that stop it.
+ * Nothing is applied unless `errors` is empty.
+ */
+export interface CsvImport {
+  /** Name and documentation of the ArchimateModel row, if there is one */
+  model?: { name: string; documentation: string };
+  elements: ArchiMateElement[];
+  relationships: ArchiMateRelationship[];
+  /** Property rows by the ID of the concept they belong to */
+  properties: Map<string, ArchiMateProperty[]>;
+  errors: CsvRowError[];
+}
+
+export interface CsvImportSummary {
+  elementsCreated: number;
+  elementsUpdated: number;
+  relationshipsCreated: number;
+  relationshipsUpdated: number;
+  propertiesSet: number;
+}
+
+// CSV type names are the archimate XML type names without the namespace
+const ElementTypeByCsvName = new Map(
+  Object.entries(XmlTypeToElementType).map(([xml, type]) => [xml.replace(/^archimate:/, ''), type])
+);
+const RelationshipTypeByCsvName = new Map<string, RelationshipType>([
+  ...Object.entries(XmlTypeToRelationshipType).map(([xml, type]) => [xml.replace(/^archimate:/, ''), type] as const),
+  // Also accept the short names the tools use
+  ...RelationshipTypes.map((type) => [type, type] as const),
+]);
+
+/**
+ * Split CSV text into records. Fields may be quoted, with doubled quotes
+ * inside; quoted fields may span lines. The delimiter is a comma, semicolon,
+ * or tab, whichever the first line uses.
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.slice(0, content.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t'].find((d) => firstLine.includes(d)) ?? ',';
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = 0;
+
+  while (i < content.length) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+    if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+      if (char === '\r' && content[i + 1] === '\n') i++;
+    } else {
+      field += char;
+    }
+    i++;
+  }
+  if (quoted) {
+    throw new Error(`Unterminated quoted field in row ${records.length + 1}`);
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  // Blank lines hold no rows
+  return records.filter((r) => r.length > 1 || r[0] !== '');
+}
+
+/**
+ * Rows of a CSV file as objects keyed by the required columns, with the
+ * row numbers they have in the file. Column names are matched regardless of
+ * case.
+ */
+function readRows(
+  file: string,
+  text: string,
+  columns: string[],
+  errors: CsvRowError[]
+): Array<{ row: number; values: Record<string, string> }> {
+  let records: string[][];
+  try {
+    records = parseCsv(text);
+  } catch (error) {
+    errors.push({ file, row: 0, error: error instanceof Error ? error.message : String(error) });
+    return [];
+  }
+  const header = (records[0] ?? []).map((c) => c.trim().toLowerCase());
+  const missing = columns.filter((c) => !header.includes(c.toLowerCase()));
+  if (missing.length > 0) {
+    errors.push({ file, row: 1, error: `Missing column(s): ${missing.join(', ')}` });
+    return [];
+  }
+  return records.slice(1).map((record, i) => ({
+    row: i + 2,
+    values: Object.fromEntries(header.map((column, c) => [column, record[c] ?? ''])),
+  }));
+}
+
+/**
+ * Check the CSV files of an import against a model. Rows with an ID the
+ * model has update that concept; rows with a new or empty ID create one.
+ * An element cannot change type and a relationship cannot change type or
+ * ends; every relationship must be valid in ArchiMate 3.2 between its ends,
+ * which may be in the model or the files.
+ */
+export function checkCsvImport(model: ArchiMateModel, files: CsvFiles): CsvImport {
+  const index = getModelIndex(model);
+  const result: CsvImport = { elements: [], relationships: [], properties: new Map(), errors: [] };
+  const fail = (file: string, row: number, id: string | undefined, error: string): void => {
+    result.errors.push({ file, row, ...(id ? { id } : {}), error });
+  };
+  const seen = new Set<string>();
+  const claim = (file: string, row: number, id: string): boolean => {
+    if (seen.has(id)) {
+      fail(file, row, id, `ID ${id} appears more than once`);
+      return false;
+    }
+    seen.add(id);
+    return true;
+  };
+  const isDiagram = (id: string) => model.diagrams.some((d) => d.id === id);
+  // Types of the elements and relationships in the files, by ID
+  const ends = new Map<string, RelationshipEndpointType>();
+
+  const elementsFile = CsvFileNames.elements;
+  for (const { row, values } of readRows(elementsFile, files.elements, ['ID', 'Type', 'Name'], result.errors)) {
+    const csvType = values.type.trim();
+    const documentation = values.documentation ?? '';
+
+    if (csvType === CsvModelType) {
+      result.model = { name: values.name, documentation };
+      continue;
+    }
+
+    const junction = /^(And|Or)Junction$/.exec(csvType);
+    const type: ElementType | undefined = junction ? 'Junction' : ElementTypeByCsvName.get(csvType);
+    if (!type) {
+      fail(elementsFile, row, values.id.trim(), `Unknown element type "${csvType}"`);
+      continue;
+    }
+    const id = values.id.trim() || generateId();
+    if (!claim(elementsFile, row, id)) continue;
+    if (id === model.id || index.getRelationship(id) || isDiagram(id)) {
+      fail(elementsFile, row, id, `ID ${id} belongs to something other than an element`);
+      continue;
+    }
+    const existing = index.getElement(id);
+    if (existing && existing.type !== type) {
+      fail(elementsFile, row, id, `Element ${id} is a ${existing.type}, not a ${type}; use archimate_change_element_type to change its type`);
+      continue;
+    }
+
+    const element: ArchiMateElement = { id, type, name: values.name, ...(documentation ? { documentation } : {}) };
+    if (type === 'Junction') {
+      element.junctionType = junction ? (junction[1] === 'Or' ? 'or' : 'and') : existing?.junctionType ?? 'and';
+    }
+    result.elements.push(element);
+    ends.set(id, type);
+  }
+
+  const relationsFile = CsvFileNames.relations;
+  const relationRows = files.relations !== undefined
+    ? readRows(relationsFile, files.relations, ['ID', 'Type', 'Source', 'Target'], result.errors)
+    : [];
+  // Relationships can end on relationships later in the file, so all are known before any is checked
+  const relationRowIds = relationRows.map(({ values }) => values.id.trim() || generateId());
+  relationRowIds.forEach((id) => ends.set(id, ends.get(id) ?? 'Relationship'));
+
+  const endType = (id: string): RelationshipEndpointType | undefined => {
+    if (ends.has(id)) return ends.get(id);
+    if (index.getElement(id)) return index.getElement(id)!.type;
+    if (index.getRelationship(id)) return 'Relationship';
+    return undefined;
+  };
+
+  relationRows.forEach(({ row, values }, i) => {
+    const id = relationRowIds[i];
+    const csvType = values.type.trim();
+    const type = RelationshipTypeByCsvName.get(csvType);
+    if (!type) {
+      fail(relationsFile, row, values.id.trim(), `Unknown relationship type "${csvType}"`);
+      return;
+    }
+    if (!claim(relationsFile, row, id)) return;
+    if (id === model.id || index.getElement(id) || isDiagram(id)) {
+      fail(relationsFile, row, id, `ID ${id} belongs to something other than a relationship`);
+      return;
+    }
+
+    const sourceId = values.source.trim();
+    const targetId = values.target.trim();
+    const sourceType = endType(sourceId);
+    const targetType = endType(targetId);
+    if (!sourceType) {
+      fail(relationsFile, row, id, `Source not found: ${sourceId || '(empty)'}`);
+      return;
+    }
+    if (!targetType) {
+      fail(relationsFile, row, id, `Target not found: ${targetId || '(empty)'}`);
+      return;
+    }
+
+    const existing = index.getRelationship(id);
+    if (existing && (existing.type !== type || existing.sourceId !== sourceId || existing.targetId !== targetId)) {
+      fail(relationsFile, row, id, `Relationship ${id} is a ${existing.type} from ${existing.sourceId} to ${existing.targetId}; use archimate_update_relationship to change it`);
+      return;
+    }
+    const validation = validateRelationship(sourceType, targetType, type);
+    if (!validation.valid) {
+      const suggestions = validation.suggestions?.length ? ` (valid: ${validation.suggestions.join(', ')})` : '';
+      fail(relationsFile, row, id, `${validation.error}${suggestions}`);
+      return;
+    }
+
+    const documentation = values.documentation ?? '';
+    result.relationships.push({
+      id,
+      type,
+      sourceId,
+      targetId,
+      ...(values.name ? { name: values.name } : {}),
+      ...(documentation ? { documentation } : {}),
+    });
+  });
+
+  const propertiesFile = CsvFileNames.properties;
+  const propertyRows = files.properties !== undefined
+    ? readRows(propertiesFile, files.properties, ['ID', 'Key', 'Value'], result.errors)
+    : [];
+  for (const { row, values } of propertyRows) {
+    const id = values.id.trim();
+    if (!id || !(id === model.id || endType(id))) {
+      fail(propertiesFile, row, id, `No element, relationship, or model with ID ${id || '(empty)'}`);
+      continue;
+    }
+    if (!values.key) {
+      fail(propertiesFile, row, id, 'Property key is empty');
+      continue;
+    }
+    const properties = result.properties.get(id) ?? [];
+    properties.push({ key: values.key, value: values.value });
+    result.properties.set(id, properties);
+  }
+
+  return result;
+}
+
+/**
+ * Apply a checked import to the model it was checked against. Updated
+ * concepts keep their properties, folders, and views; a property row sets
+ * the value of its key, and further rows with the same key add entries.
+ */
+export function applyCsvImport(model: ArchiMateModel, csv: CsvImport): CsvImportSummary {
+  if (csv.errors.length > 0) {
+    throw new Error(`The CSV import has ${csv.errors.length} invalid row(s)`);
+  }
+  const summary: CsvImportSummary = {
+    elementsCreated: 0,
+    elementsUpdated: 0,
+    relationshipsCreated: 0,
+    relationshipsUpdated: 0,
+    propertiesSet: 0,
+  };
+
+  if (csv.model) {
+    model.name = csv.model.name || model.name;
+    model.documentation = csv.model.documentation || undefined;
+  }
+
+  for (const element of csv.elements) {
+    const existing = getModelIndex(model).getElement(element.id);
+    if (existing) {
+      existing.name = element.name;
+      existing.documentation = element.documentation;
+      if (element.junctionType) existing.junctionType = element.junctionType;
+      summary.elementsUpdated++;
+    } else {
+      addElementToModel(model, { ...element, properties: [] });
+      summary.elementsCreated++;
+    }
+  }
+
+  for (const relationship of csv.relationships) {
+    const existing = getModelIndex(model).getRelationship(relationship.id);
+    if (existing) {
+      existing.name = relationship.name;
+      existing.documentation = relationship.documentation;
+      summary.relationshipsUpdated++;
+    } else {
+      addRelationshipToModel(model, { ...relationship, properties: [] });
+      summary.relationshipsCreated++;
+    }
+  }
+
+  for (const [id, rows] of csv.properties) {
+    const concept = findPropertyOwner(model, id)!.concept;
+    const properties = concept.properties ?? [];
+    const set = new Set<string>();
+    for (const { key, value } of rows) {
+      const current = set.has(key) ? undefined : properties.find((p) => p.key === key);
+      if (current) {
+        current.value = value;
+      } else {
+        properties.push({ key, value });
+      }
+      set.add(key);
+      summary.propertiesSet++;
+    }
+    concept.properties = properties;
+  }
+
+  return summary;
+}
+
+/**
+ * Read the CSV files of an import from a directory. Archi names them
+ * elements.csv, relations.csv, and properties.csv, after an optional prefix.
+ */
+export async function readCsvFiles(directory: string, prefix = ''): Promise<CsvFiles> {
+  const read = async (file: CsvFile, required: boolean): Promise<string | undefined> => {
+    try {
+      return await fs.readFile(path.join(directory, prefix + CsvFileNames[file]), 'utf-8');
+    } catch (error) {
+      if (!required && (error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  };
+  return {
+    elements: (await read('elements', true))!,
+    relations: await read('relations', false),
+    properties: await read('properties', false),
+  };
+}
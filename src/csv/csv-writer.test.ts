@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { writeArchiCsv } from './csv-writer.js';
+import { parseCsv } from './csv-reader.js';
+import type { ArchiMateModel } from '../model/types.js';
+import {
+  createEmptyModel,
+  createElement,
+  createRelationship,
+  addElementToModel,
+  resetIdCounter,
+} from '../__tests__/fixtures/sample-model.js';
+
+describe('Archi CSV Writer', () => {
+  let model: ArchiMateModel;
+
+  beforeEach(() => {
+    resetIdCounter();
+    model = createEmptyModel('Claims');
+  });
+
+  it('quotes every field and escapes quotes and line breaks', () => {
+    const element = createElement('BusinessObject', 'Claim "Form"', 'Line one\nLine two');
+    addElementToModel(model, element);
+
+    const { elements } = writeArchiCsv(model);
+
+    expect(elements.split('\r\n')[2]).toBe(`"${element.id}","BusinessObject","Claim ""Form""","Line one\nLine two",""`);
+    expect(parseCsv(elements)[2]).toEqual([element.id, 'BusinessObject', 'Claim "Form"', 'Line one\nLine two', '']);
+  });
+
+  it('types junctions by kind and relationships by their Archi names', () => {
+    const and = createElement('Junction', '');
+    const or = { ...createElement('Junction', ''), junctionType: 'or' as const };
+    addElementToModel(model, and);
+    addElementToModel(model, or);
+    const flow = createRelationship('Flow', and.id, or.id);
+    const note = createRelationship('Association', or.id, flow.id);
+    model.relationships.push(flow, note);
+
+    const files = writeArchiCsv(model);
+
+    expect(parseCsv(files.elements).slice(2).map((row) => row[1])).toEqual(['AndJunction', 'OrJunction']);
+    expect(parseCsv(files.relations).slice(1).map((row) => [row[1], row[4], row[5]])).toEqual([
+      ['FlowRelationship', and.id, or.id],
+      ['AssociationRelationship', or.id, flow.id],
+    ]);
+  });
+
+  it('writes the properties of the model, elements, and relationships', () => {
+    const actor = createElement('BusinessActor', 'Clerk');
+    actor.properties = [{ key: 'Team', value: 'Claims' }];
+    addElementToModel(model, actor);
+    const role = createElement('BusinessRole', 'Handler');
+    addElementToModel(model, role);
+    const assignment = createRelationship('Assignment', actor.id, role.id);
+    assignment.properties = [{ key: 'Since', value: '2024' }];
+    model.relationships.push(assignment);
+    model.properties = [{ key: 'Status', value: 'Draft' }];
+
+    expect(parseCsv(writeArchiCsv(model).properties)).toEqual([
+      ['ID', 'Key', 'Value'],
+      [model.id, 'Status', 'Draft'],
+      [actor.id, 'Team', 'Claims'],
+      [assignment.id, 'Since', '2024'],
+    ]);
+  });
+});
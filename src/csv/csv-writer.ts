@@ -0,0 +1,96 @@
+/**
+ * Archi CSV Writer
+ * Exports elements, relationships, and properties to the CSV files Archi
+ * reads and writes: elements.csv, relations.csv, and properties.csv
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { ArchiMateModel, ArchiMateProperty } from '../model/types.js';
+import { ElementTypeToXmlType, RelationshipTypeToXmlType } from '../model/types.js';
+import { getAllElements } from '../model/parser.js';
+
+export type CsvFile = 'elements' | 'relations' | 'properties';
+
+export const CsvFileNames: Record<CsvFile, string> = {
+  elements: 'elements.csv',
+  relations: 'relations.csv',
+  properties: 'properties.csv',
+};
+
+/** Type of the elements.csv row that holds the model's name and documentation */
+export const CsvModelType = 'ArchimateModel';
+
+const ElementColumns = ['ID', 'Type', 'Name', 'Documentation', 'Specialization'];
+const RelationColumns = ['ID', 'Type', 'Name', 'Documentation', 'Source', 'Target', 'Specialization'];
+const PropertyColumns = ['ID', 'Key', 'Value'];
+
+// Archi quotes every field and ends every row with CRLF
+function csvRow(fields: string[]): string {
+  return fields.map((f) => `"${f.replace(/"/g, '""')}"`).join(',') + '\r\n';
+}
+
+// CSV type names are the archimate XML type names without the namespace
+function csvTypeName(xmlType: string): string {
+  return xmlType.replace(/^archimate:/, '');
+}
+
+/**
+ * Convert a model to the contents of Archi's three CSV files. The model is
+ * the first row of elements.csv. Views, folders, and relationship
+ * attributes such as access type are not part of the format.
+ */
+export function writeArchiCsv(model: ArchiMateModel): Record<CsvFile, string> {
+  const elements = getAllElements(model);
+  const propertyRows = (id: string, properties: ArchiMateProperty[] | undefined) =>
+    (properties ?? []).map((p) => csvRow([id, p.key, p.value]));
+
+  return {
+    elements: [
+      csvRow(ElementColumns),
+      csvRow([model.id, CsvModelType, model.name, model.documentation ?? '', '']),
+      ...elements.map((e) => csvRow([
+        e.id,
+        // Junctions are typed by kind, as in the exchange format
+        e.type === 'Junction' ? (e.junctionType === 'or' ? 'OrJunction' : 'AndJunction') : csvTypeName(ElementTypeToXmlType[e.type]),
+        e.name,
+        e.documentation ?? '',
+        '',
+      ])),
+    ].join(''),
+    relations: [
+      csvRow(RelationColumns),
+      ...model.relationships.map((r) => csvRow([
+        r.id,
+        csvTypeName(RelationshipTypeToXmlType[r.type]),
+        r.name ?? '',
+        r.documentation ?? '',
+        r.sourceId,
+        r.targetId,
+        '',
+      ])),
+    ].join(''),
+    properties: [
+      csvRow(PropertyColumns),
+      ...propertyRows(model.id, model.properties),
+      ...elements.flatMap((e) => propertyRows(e.id, e.properties)),
+      ...model.relationships.flatMap((r) => propertyRows(r.id, r.properties)),
+    ].join(''),
+  };
+}
+
+/**
+ * Save a model as Archi CSV files in a directory, each file name after an
+ * optional prefix. Returns the paths written.
+ */
+export async function saveArchiCsv(model: ArchiMateModel, directory: string, prefix = ''): Promise<string[]> {
+  const files = writeArchiCsv(model);
+  await fs.mkdir(directory, { recursive: true });
+  const paths: string[] = [];
+  for (const file of Object.keys(CsvFileNames) as CsvFile[]) {
+    const filePath = path.join(directory, prefix + CsvFileNames[file]);
+    await fs.writeFile(filePath, files[file], 'utf-8');
+    paths.push(filePath);
+  }
+  return paths;
+}
@@ -96,19 +96,25 @@ function getFolderForType(folders: ArchiMateFolder[], elementType: ElementType):
 function parseElement(elementNode: Record<string, unknown>): ArchiMateElement | null {
   const id = String(elementNode['@_identifier'] || '');
   const typeAttr = String(elementNode['@_xsi:type'] || elementNode['@_type'] || '');
-  const elementType = mapElementType(typeAttr);
+  // Junctions are typed by kind in the exchange format
+  const junction = /^(And|Or)Junction$/.exec(typeAttr);
+  const elementType = junction ? 'Junction' : mapElementType(typeAttr);
 
   if (!elementType) {
     return null;
   }
 
-  return {
+  const element: ArchiMateElement = {
     id,
     type: elementType,
     name: getText(elementNode['name']),
     documentation: getText(elementNode['documentation']) || undefined,
     properties: [],
   };
+  if (junction) {
+    element.junctionType = junction[1] === 'Or' ? 'or' : 'and';
+  }
+  return element;
 }
 
 // Parse relationship from exchange format
@@ -182,9 +188,11 @@ function parseDiagram(viewData: Record<string, unknown>): ArchiMateDiagram {
 
   // Parse connections
   const connectionList = ensureArray(viewData['connection']);
+  const connections: DiagramConnection[] = [];
   for (const connData of connectionList) {
     if (typeof connData === 'object' && connData !== null) {
       const conn = parseConnection(connData as Record<string, unknown>);
+      connections.push(conn);
       // Add to source object's connections
       const existing = connectionMap.get(conn.sourceId) || [];
       existing.push(conn);
@@ -197,6 +205,12 @@ function parseDiagram(viewData: Record<string, unknown>): ArchiMateDiagram {
     obj.sourceConnections = connectionMap.get(obj.id) || [];
   }
 
+  // Connections drawn from a connection, for relationships on its relationship
+  for (const conn of connections) {
+    const drawnFrom = connectionMap.get(conn.id);
+    if (drawnFrom) conn.sourceConnections = drawnFrom;
+  }
+
   return {
     id,
     name,
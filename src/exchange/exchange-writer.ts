@@ -46,7 +46,8 @@ function getAllElements(model: ArchiMateModel): ArchiMateElement[] {
 function buildElement(element: ArchiMateElement): Record<string, unknown> {
   const elem: Record<string, unknown> = {
     '@_identifier': element.id,
-    '@_xsi:type': element.type,
+    // Junctions are typed by kind in the exchange format
+    '@_xsi:type': element.type === 'Junction' ? (element.junctionType === 'or' ? 'OrJunction' : 'AndJunction') : element.type,
     name: {
       '@_xml:lang': 'en',
       '#text': element.name,
@@ -147,16 +148,20 @@ function buildView(diagram: ArchiMateDiagram): Record<string, unknown> {
   const nodes: Record<string, unknown>[] = [];
   const connections: Record<string, unknown>[] = [];
 
+  // Connections drawn from connections come after the one they start from
+  function collectConnections(from: DiagramConnection[] | undefined): void {
+    for (const conn of from ?? []) {
+      connections.push(buildConnection(conn));
+      collectConnections(conn.sourceConnections);
+    }
+  }
+
   function collectObjects(objects: DiagramObject[]): void {
     for (const obj of objects) {
       nodes.push(buildDiagramNode(obj));
 
       // Collect connections
-      if (obj.sourceConnections) {
-        for (const conn of obj.sourceConnections) {
-          connections.push(buildConnection(conn));
-        }
-      }
+      collectConnections(obj.sourceConnections);
 
       // Handle nested objects
       if (obj.children) {
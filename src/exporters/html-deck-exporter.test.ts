@@ -100,6 +100,22 @@ describe('html-deck-exporter', () => {
       expect(html).toContain('<svg');
     });
 
+    it('should link view references in embedded diagrams to the referenced view', () => {
+      const model = createTestModelWithView();
+      const target = model.diagrams[0];
+      target.objects.push({
+        id: 'ref-1',
+        objectType: 'DiagramModelReference',
+        elementId: '',
+        diagramId: target.id,
+        bounds: { x: 0, y: 400, width: 120, height: 55 },
+      });
+      const html = generateHtmlDeck(model, { embedDiagrams: true });
+
+      expect(html).toContain(`id="view-${target.id}"`);
+      expect(html).toContain(`<a href="#view-${target.id}">`);
+    });
+
     it('should use Mermaid when SVG embedding is disabled', () => {
       const model = createTestModelWithView();
       const html = generateHtmlDeck(model, { embedDiagrams: false });
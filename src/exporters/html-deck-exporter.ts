@@ -11,6 +11,7 @@ import type {
   Layer,
 } from '../model/types.js';
 import { getLayerForElementType } from '../model/types.js';
+import { getModelIndex } from '../model/model-index.js';
 import { generateMermaidFromView } from './mermaid-exporter.js';
 import { generateSvg } from './svg-exporter.js';
 
@@ -69,7 +70,7 @@ function getAllElements(model: ArchiMateModel): ArchiMateElement[] {
  * Get element by ID from model
  */
 function getElementById(model: ArchiMateModel, id: string): ArchiMateElement | undefined {
-  return getAllElements(model).find((e) => e.id === id);
+  return getModelIndex(model).getElement(id);
 }
 
 /**
@@ -79,9 +80,7 @@ function getRelationshipsForElement(
   model: ArchiMateModel,
   elementId: string
 ): ArchiMateRelationship[] {
-  return model.relationships.filter(
-    (r) => r.sourceId === elementId || r.targetId === elementId
-  );
+  return getModelIndex(model).getRelationshipsForElement(elementId);
 }
 
 /**
@@ -344,7 +343,7 @@ function generateViewSection(
     if (diagram.objects.length > 0) {
       if (embedDiagrams) {
         try {
-          const svg = generateSvg(model, diagram.id, { colorByLayer: true });
+          const svg = generateSvg(model, diagram.id, { colorByLayer: true, viewLinks: true });
           diagramHtml = `<div class="view-diagram">${svg}</div>`;
         } catch {
           diagramHtml = '<p>Unable to render diagram</p>';
@@ -367,7 +366,7 @@ function generateViewSection(
     }
 
     return `
-      <div class="view-container">
+      <div class="view-container" id="view-${escapeHtml(diagram.id)}">
         <h3>${escapeHtml(diagram.name)}</h3>
         ${diagram.viewpoint ? `<p><strong>Viewpoint:</strong> ${escapeHtml(diagram.viewpoint)}</p>` : ''}
         ${diagram.documentation ? `<p>${escapeHtml(diagram.documentation)}</p>` : ''}
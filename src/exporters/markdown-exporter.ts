@@ -13,6 +13,7 @@ import type {
   ElementType,
 } from '../model/types.js';
 import { getLayerForElementType } from '../model/types.js';
+import { getModelIndex } from '../model/model-index.js';
 import { generateMermaid, generateMermaidFromView } from './mermaid-exporter.js';
 
 export interface MarkdownOptions {
@@ -62,7 +63,7 @@ function getAllElements(model: ArchiMateModel): ArchiMateElement[] {
  * Get element by ID from model
  */
 function getElementById(model: ArchiMateModel, id: string): ArchiMateElement | undefined {
-  return getAllElements(model).find((e) => e.id === id);
+  return getModelIndex(model).getElement(id);
 }
 
 /**
@@ -120,11 +121,7 @@ function getRelationshipsForElement(
   elementId: string,
   direction: 'incoming' | 'outgoing' | 'both' = 'both'
 ): ArchiMateRelationship[] {
-  return model.relationships.filter((r) => {
-    if (direction === 'outgoing') return r.sourceId === elementId;
-    if (direction === 'incoming') return r.targetId === elementId;
-    return r.sourceId === elementId || r.targetId === elementId;
-  });
+  return getModelIndex(model).getRelationshipsForElement(elementId, direction);
 }
 
 /**
@@ -12,6 +12,7 @@ import type {
   Layer,
 } from '../model/types.js';
 import { getLayerForElementType } from '../model/types.js';
+import { getModelIndex } from '../model/model-index.js';
 
 export interface MermaidOptions {
   diagramType?: 'flowchart' | 'graph';
@@ -93,7 +94,7 @@ function getAllElements(model: ArchiMateModel): ArchiMateElement[] {
  * Get element by ID from model
  */
 function getElementById(model: ArchiMateModel, id: string): ArchiMateElement | undefined {
-  return getAllElements(model).find((e) => e.id === id);
+  return getModelIndex(model).getElement(id);
 }
 
 /**
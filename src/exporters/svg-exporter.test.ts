@@ -6,6 +6,13 @@ import {
 import {
   createTestModel,
   createTestModelWithView,
+  createEmptyModel,
+  createElement,
+  createRelationship,
+  createDiagram,
+  createDiagramObject,
+  createDiagramConnection,
+  addElementToModel,
   resetIdCounter,
 } from '../__tests__/fixtures/sample-model.js';
 
@@ -130,6 +137,93 @@ describe('svg-exporter', () => {
       expect(svg).toContain('<defs>');
       expect(svg).toContain('<marker');
     });
+
+    it('should render nested objects inside their parents and draw their connections on top', () => {
+      const model = createEmptyModel();
+      const node = createElement('Node', 'Server');
+      const component = createElement('ApplicationComponent', 'CRM');
+      const process = createElement('BusinessProcess', 'Sell');
+      [node, component, process].forEach((e) => addElementToModel(model, e));
+      const serving = createRelationship('Serving', component.id, process.id);
+      model.relationships.push(serving);
+
+      const view = createDiagram('Nested');
+      const nodeObj = createDiagramObject(node.id, 100, 50, 300, 150);
+      const componentObj = createDiagramObject(component.id, 20, 30);
+      const processObj = createDiagramObject(process.id, 500, 80);
+      componentObj.sourceConnections = [createDiagramConnection(componentObj.id, processObj.id, serving.id)];
+      nodeObj.children = [componentObj];
+      view.objects.push(nodeObj, processObj);
+      model.diagrams.push(view);
+
+      const svg = generateSvg(model, view.id);
+
+      expect(svg).toContain('<g transform="translate(120, 80)">');
+      // Line from the component's right edge (120 + 120) to the process's left edge
+      expect(svg).toMatch(/<line x1="240" y1="[\d.]+" x2="500"/);
+      expect(svg.indexOf('<line')).toBeGreaterThan(svg.lastIndexOf('<rect'));
+    });
+
+    it('should render notes, groups, and view references', () => {
+      const model = createEmptyModel();
+      const landscape = createDiagram('Landscape');
+      const view = createDiagram('Overview');
+      view.objects.push(
+        { id: 'note', objectType: 'Note', elementId: '', content: 'Title\nSecond & last', bounds: { x: 0, y: 0, width: 185, height: 80 } },
+        { id: 'group', objectType: 'Group', elementId: '', name: 'Legend', bounds: { x: 200, y: 0, width: 400, height: 140 } },
+        { id: 'ref', objectType: 'DiagramModelReference', elementId: '', diagramId: landscape.id, bounds: { x: 0, y: 200, width: 120, height: 55 } }
+      );
+      model.diagrams.push(landscape, view);
+
+      const svg = generateSvg(model, view.id);
+      expect(svg).toContain('<path d="M0,0 H175 L185,10 V80 H0 Z"');
+      expect(svg).toContain('>Title</text>');
+      expect(svg).toContain('>Second &amp; last</text>');
+      expect(svg).toContain('>Legend</text>');
+      expect(svg).toContain('>Landscape</text>');
+      expect(svg).not.toContain('<a href');
+
+      const linked = generateSvg(model, view.id, { viewLinks: true });
+      expect(linked).toContain(`<a href="#view-${landscape.id}">`);
+    });
+
+    it('should draw connections through their bendpoints', () => {
+      const model = createTestModelWithView();
+      const view = model.diagrams[0];
+      const [customer, process] = view.objects;
+      const conn = customer.sourceConnections!.find((c) => c.targetId === process.id)!;
+      // Customer is at 50,50 and Order Process at 200,50, both 120x55
+      conn.bendpoints = [{ startX: 0, startY: 100, endX: -150, endY: 100 }];
+
+      const svg = generateSvg(model, view.id);
+      expect(svg).toMatch(/<polyline points="110,105 110,177.5 200,117.5" fill="none"[^>]*marker-end=/);
+    });
+
+    it('should honor fill, line, and font styles set on objects and connections', () => {
+      const model = createTestModelWithView();
+      const view = model.diagrams[0];
+      const [customer, process] = view.objects;
+      Object.assign(customer, {
+        fillColor: '#ff0000',
+        lineColor: '#00ff00',
+        fontColor: '#ffffff',
+        font: '1|Segoe UI|9.0|3|WINDOWS|1|-12',
+        textAlignment: 'left',
+        textPosition: 'top',
+      });
+      customer.sourceConnections![0].lineColor = '#0000ff';
+
+      const svg = generateSvg(model, view.id);
+      expect(svg).toContain('<rect width="120" height="55" rx="3" ry="3" fill="#ff0000" stroke="#00ff00" stroke-width="1"/>');
+      expect(svg).toContain(
+        '<text x="5" y="15" font-family="Segoe UI, Arial, sans-serif" font-size="12" font-weight="bold" font-style="italic" fill="#ffffff">Customer</text>'
+      );
+      expect(svg).toMatch(/<line [^>]*stroke="#0000ff"/);
+
+      // Objects without styles keep the layer color, even when another object of the layer is styled
+      expect(process.fillColor).toBeUndefined();
+      expect(svg).toContain('fill="#FFFFB5"');
+    });
   });
 
   describe('default options', () => {
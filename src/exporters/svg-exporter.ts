@@ -11,11 +11,16 @@ import type {
   ArchiMateDiagram,
   DiagramObject,
   DiagramConnection,
+  DiagramBounds,
+  DiagramStyle,
   Layer,
   ElementType,
   RelationshipType,
 } from '../model/types.js';
 import { getLayerForElementType } from '../model/types.js';
+import { getModelIndex } from '../model/model-index.js';
+import { absoluteBoundsMap, bendpointPosition } from '../model/view-helpers.js';
+import { parseFont } from '../model/diagram-style.js';
 
 export interface DiagramExportOptions {
   format?: 'svg' | 'png';
@@ -25,6 +30,8 @@ export interface DiagramExportOptions {
   showLabels?: boolean;
   colorByLayer?: boolean;
   padding?: number;
+  /** Link view references to `#view-<id>` anchors, for documents that hold every view */
+  viewLinks?: boolean;
 }
 
 const DEFAULT_OPTIONS: Required<Omit<DiagramExportOptions, 'format' | 'width' | 'height'>> = {
@@ -32,8 +39,20 @@ const DEFAULT_OPTIONS: Required<Omit<DiagramExportOptions, 'format' | 'width' |
   showLabels: true,
   colorByLayer: true,
   padding: 20,
+  viewLinks: false,
 };
 
+// Archi's default fills for objects that are not elements
+const NOTE_COLOR = '#FFFFFF';
+const GROUP_COLOR = '#D2D7D7';
+const VIEW_REFERENCE_COLOR = '#DCEBEB';
+
+// Text and outlines drawn when an object does not set its own
+const TEXT_COLOR = '#333';
+const FONT_FAMILY = 'Arial, sans-serif';
+const FONT_SIZE = 11;
+const LINE_COLOR = '#333';
+
 // ArchiMate layer colors
 const LAYER_COLORS: Record<Layer, string> = {
   Motivation: '#CCCCFF',
@@ -80,7 +99,7 @@ function getAllElements(model: ArchiMateModel): ArchiMateElement[] {
  * Get element by ID from model
  */
 function getElementById(model: ArchiMateModel, id: string): ArchiMateElement | undefined {
-  return getAllElements(model).find((e) => e.id === id);
+  return getModelIndex(model).getElement(id);
 }
 
 /**
@@ -130,36 +149,75 @@ function generateMarkerDefs(): string {
   </defs>`;
 }
 
+/**
+ * Font and color attributes for text in an object's style
+ */
+function textAttributes(style: DiagramStyle): { attributes: string; lineHeight: number } {
+  const font = parseFont(style.font);
+  // Archi font sizes are in points
+  const size = font ? Math.round(font.size * 4 / 3 * 10) / 10 : FONT_SIZE;
+  const family = font ? `${escapeXml(font.name)}, ${FONT_FAMILY}` : FONT_FAMILY;
+  const weight = font?.bold ? ' font-weight="bold"' : '';
+  const italic = font?.italic ? ' font-style="italic"' : '';
+  return {
+    attributes: `font-family="${family}" font-size="${size}"${weight}${italic} fill="${style.fontColor ?? TEXT_COLOR}"`,
+    lineHeight: size + 2,
+  };
+}
+
+/**
+ * Lines of text placed in a box by the style's text alignment and position,
+ * or by the given defaults when the style does not set them
+ */
+function generateText(
+  textLines: string[],
+  width: number,
+  height: number,
+  style: DiagramStyle,
+  defaults: Required<Pick<DiagramStyle, 'textAlignment' | 'textPosition'>>,
+  extraAttributes = ''
+): string[] {
+  const { attributes, lineHeight } = textAttributes(style);
+  const alignment = style.textAlignment ?? defaults.textAlignment;
+  const position = style.textPosition ?? defaults.textPosition;
+
+  const x = alignment === 'left' ? 5 : alignment === 'right' ? width - 5 : width / 2;
+  const anchor = alignment === 'left' ? '' : ` text-anchor="${alignment === 'right' ? 'end' : 'middle'}"`;
+  const blockHeight = (textLines.length - 1) * lineHeight;
+  const firstY = position === 'top' ? 15 : position === 'bottom' ? height - 6 - blockHeight : (height - blockHeight) / 2 + 4;
+
+  return textLines.map((line, i) =>
+    `    <text x="${x}" y="${firstY + i * lineHeight}"${anchor} ${attributes}${extraAttributes}>${escapeXml(line)}</text>`
+  );
+}
+
 /**
  * Generate SVG rectangle for an element
  */
 function generateElementRect(
-  obj: DiagramObject,
+  bounds: DiagramBounds,
   element: ArchiMateElement,
+  style: DiagramStyle,
   options: Required<Omit<DiagramExportOptions, 'format' | 'width' | 'height'>>
 ): string {
-  const { x, y, width, height } = obj.bounds;
-  const fillColor = options.colorByLayer ? getElementColor(element) : '#ffffff';
+  const { x, y, width, height } = bounds;
+  // A fill color set on the object wins over the layer color, as in Archi
+  const fillColor = style.fillColor ?? (options.colorByLayer ? getElementColor(element) : '#ffffff');
 
   const lines: string[] = [];
 
   lines.push(`  <g transform="translate(${x}, ${y})">`);
 
   // Rectangle with rounded corners
-  lines.push(`    <rect width="${width}" height="${height}" rx="3" ry="3" fill="${fillColor}" stroke="#333" stroke-width="1"/>`);
+  lines.push(`    <rect width="${width}" height="${height}" rx="3" ry="3" fill="${fillColor}" stroke="${style.lineColor ?? LINE_COLOR}" stroke-width="1"/>`);
 
   // Label text
   if (options.showLabels) {
-    const label = escapeXml(element.name);
-    // Center text in the rectangle
-    const textX = width / 2;
-    const textY = height / 2 + 4; // Slight offset for vertical centering
-
     // Truncate long labels
     const maxChars = Math.floor(width / 7);
-    const displayLabel = label.length > maxChars ? label.substring(0, maxChars - 2) + '..' : label;
+    const label = element.name.length > maxChars ? element.name.substring(0, maxChars - 2) + '..' : element.name;
 
-    lines.push(`    <text x="${textX}" y="${textY}" text-anchor="middle" font-family="Arial, sans-serif" font-size="11" fill="#333">${displayLabel}</text>`);
+    lines.push(...generateText([label], width, height, style, { textAlignment: 'center', textPosition: 'middle' }));
   }
 
   lines.push('  </g>');
@@ -167,17 +225,104 @@ function generateElementRect(
   return lines.join('\n');
 }
 
+/**
+ * Generate SVG shape for a junction: a filled circle for And, a hollow one
+ * for Or, as Archi draws them. Junctions have no label.
+ */
+function generateJunctionShape(bounds: DiagramBounds, junction: ArchiMateElement, style: DiagramStyle): string {
+  const radius = Math.min(bounds.width, bounds.height) / 2;
+  const stroke = style.lineColor ?? LINE_COLOR;
+  const fill = junction.junctionType === 'or' ? '#ffffff' : style.fillColor ?? stroke;
+  return `  <circle cx="${bounds.x + bounds.width / 2}" cy="${bounds.y + bounds.height / 2}" r="${radius}" fill="${fill}" stroke="${stroke}" stroke-width="1"/>`;
+}
+
+/**
+ * Generate SVG shape for a note: a box with a folded corner and its text
+ */
+function generateNoteShape(
+  bounds: DiagramBounds,
+  note: DiagramObject,
+  options: Required<Omit<DiagramExportOptions, 'format' | 'width' | 'height'>>
+): string {
+  const { x, y, width, height } = bounds;
+  const lines: string[] = [];
+
+  lines.push(`  <g transform="translate(${x}, ${y})">`);
+  lines.push(`    <path d="M0,0 H${width - 10} L${width},10 V${height} H0 Z" fill="${note.fillColor ?? NOTE_COLOR}" stroke="${note.lineColor ?? LINE_COLOR}" stroke-width="1"/>`);
+  if (options.showLabels && note.content) {
+    // Archi draws note text from the top-left corner unless the note says otherwise
+    lines.push(...generateText(note.content.split(/\r?\n/), width, height, note, { textAlignment: 'left', textPosition: 'top' }));
+  }
+  lines.push('  </g>');
+
+  return lines.join('\n');
+}
+
+/**
+ * Generate SVG shape for a group: a labelled box drawn behind its children
+ */
+function generateGroupShape(
+  bounds: DiagramBounds,
+  group: DiagramObject,
+  options: Required<Omit<DiagramExportOptions, 'format' | 'width' | 'height'>>
+): string {
+  const { x, y, width, height } = bounds;
+  const lineColor = group.lineColor ?? LINE_COLOR;
+  const lines: string[] = [];
+
+  lines.push(`  <g transform="translate(${x}, ${y})">`);
+  lines.push(`    <rect width="${width}" height="${height}" fill="${group.fillColor ?? GROUP_COLOR}" stroke="${lineColor}" stroke-width="1"/>`);
+  lines.push(`    <line x1="0" y1="20" x2="${width}" y2="20" stroke="${lineColor}" stroke-width="1"/>`);
+  if (options.showLabels && group.name) {
+    // The label stays in the header bar whatever the text position
+    lines.push(...generateText([group.name], width, 20, { ...group, textPosition: 'top' }, { textAlignment: 'left', textPosition: 'top' }));
+  }
+  lines.push('  </g>');
+
+  return lines.join('\n');
+}
+
+/**
+ * Generate SVG shape for a reference to another view, labelled with the
+ * view's name and linked to it when the options ask for view links
+ */
+function generateViewReferenceShape(
+  bounds: DiagramBounds,
+  reference: DiagramObject,
+  diagram: ArchiMateDiagram | undefined,
+  options: Required<Omit<DiagramExportOptions, 'format' | 'width' | 'height'>>
+): string {
+  const { x, y, width, height } = bounds;
+  const lines: string[] = [];
+
+  lines.push(`  <g transform="translate(${x}, ${y})">`);
+  if (options.viewLinks && diagram) {
+    lines.push(`    <a href="#view-${escapeXml(diagram.id)}">`);
+  }
+  lines.push(`    <rect width="${width}" height="${height}" fill="${reference.fillColor ?? VIEW_REFERENCE_COLOR}" stroke="${reference.lineColor ?? LINE_COLOR}" stroke-width="1"/>`);
+  if (options.showLabels) {
+    const label = diagram?.name ?? 'Missing view';
+    lines.push(...generateText([label], width, height, reference, { textAlignment: 'center', textPosition: 'middle' }, ' text-decoration="underline"'));
+  }
+  if (options.viewLinks && diagram) {
+    lines.push('    </a>');
+  }
+  lines.push('  </g>');
+
+  return lines.join('\n');
+}
+
 /**
  * Calculate connection points for a line between two elements
  */
 function calculateConnectionPoints(
-  sourceObj: DiagramObject,
-  targetObj: DiagramObject
+  source: DiagramBounds,
+  target: DiagramBounds
 ): { x1: number; y1: number; x2: number; y2: number } {
-  const sourceCenterX = sourceObj.bounds.x + sourceObj.bounds.width / 2;
-  const sourceCenterY = sourceObj.bounds.y + sourceObj.bounds.height / 2;
-  const targetCenterX = targetObj.bounds.x + targetObj.bounds.width / 2;
-  const targetCenterY = targetObj.bounds.y + targetObj.bounds.height / 2;
+  const sourceCenterX = source.x + source.width / 2;
+  const sourceCenterY = source.y + source.height / 2;
+  const targetCenterX = target.x + target.width / 2;
+  const targetCenterY = target.y + target.height / 2;
 
   // Calculate direction vector
   const dx = targetCenterX - sourceCenterX;
@@ -193,50 +338,98 @@ function calculateConnectionPoints(
   if (Math.abs(dx) > Math.abs(dy)) {
     // Horizontal-ish line
     if (dx > 0) {
-      x1 = sourceObj.bounds.x + sourceObj.bounds.width;
-      y1 = sourceCenterY + (dy / dx) * (sourceObj.bounds.width / 2);
-      x2 = targetObj.bounds.x;
-      y2 = targetCenterY - (dy / dx) * (targetObj.bounds.width / 2);
+      x1 = source.x + source.width;
+      y1 = sourceCenterY + (dy / dx) * (source.width / 2);
+      x2 = target.x;
+      y2 = targetCenterY - (dy / dx) * (target.width / 2);
     } else {
-      x1 = sourceObj.bounds.x;
-      y1 = sourceCenterY - (dy / dx) * (sourceObj.bounds.width / 2);
-      x2 = targetObj.bounds.x + targetObj.bounds.width;
-      y2 = targetCenterY + (dy / dx) * (targetObj.bounds.width / 2);
+      x1 = source.x;
+      y1 = sourceCenterY - (dy / dx) * (source.width / 2);
+      x2 = target.x + target.width;
+      y2 = targetCenterY + (dy / dx) * (target.width / 2);
     }
   } else {
     // Vertical-ish line
     if (dy > 0) {
-      y1 = sourceObj.bounds.y + sourceObj.bounds.height;
-      x1 = sourceCenterX + (dx / dy) * (sourceObj.bounds.height / 2);
-      y2 = targetObj.bounds.y;
-      x2 = targetCenterX - (dx / dy) * (targetObj.bounds.height / 2);
+      y1 = source.y + source.height;
+      x1 = sourceCenterX + (dx / dy) * (source.height / 2);
+      y2 = target.y;
+      x2 = targetCenterX - (dx / dy) * (target.height / 2);
     } else if (dy < 0) {
-      y1 = sourceObj.bounds.y;
-      x1 = sourceCenterX - (dx / dy) * (sourceObj.bounds.height / 2);
-      y2 = targetObj.bounds.y + targetObj.bounds.height;
-      x2 = targetCenterX + (dx / dy) * (targetObj.bounds.height / 2);
+      y1 = source.y;
+      x1 = sourceCenterX - (dx / dy) * (source.height / 2);
+      y2 = target.y + target.height;
+      x2 = targetCenterX + (dx / dy) * (target.height / 2);
     }
   }
 
   return { x1, y1, x2, y2 };
 }
 
+type Point = { x: number; y: number };
+
 /**
- * Generate SVG line for a relationship connection
+ * The points a connection is drawn through, from where it leaves the source
+ * to where it enters the target
+ */
+function connectionPath(conn: DiagramConnection, source: DiagramBounds, target: DiagramBounds): Point[] {
+  const bendpoints = conn.bendpoints ?? [];
+  if (bendpoints.length === 0) {
+    const { x1, y1, x2, y2 } = calculateConnectionPoints(source, target);
+    return [{ x: x1, y: y1 }, { x: x2, y: y2 }];
+  }
+
+  const bends = bendpoints.map((bp, i) => bendpointPosition(bp, i, bendpoints.length, source, target));
+  // The line leaves the source toward the first bend and enters the target from the last
+  const start = calculateConnectionPoints(source, pointBounds(bends[0]));
+  const end = calculateConnectionPoints(pointBounds(bends[bends.length - 1]), target);
+  return [{ x: start.x1, y: start.y1 }, ...bends, { x: end.x2, y: end.y2 }];
+}
+
+function pointBounds(p: Point): DiagramBounds {
+  return { ...p, width: 0, height: 0 };
+}
+
+/**
+ * The point halfway along a path, where connections on a connection attach
+ */
+function pathMidpoint(points: Point[]): Point {
+  const lengths = points.slice(1).map((p, i) => Math.hypot(p.x - points[i].x, p.y - points[i].y));
+  let remaining = lengths.reduce((sum, length) => sum + length, 0) / 2;
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i] && lengths[i] > 0) {
+      const t = remaining / lengths[i];
+      return {
+        x: points[i].x + (points[i + 1].x - points[i].x) * t,
+        y: points[i].y + (points[i + 1].y - points[i].y) * t,
+      };
+    }
+    remaining -= lengths[i];
+  }
+  return points[0];
+}
+
+/**
+ * Generate SVG line for a relationship connection, bent through its
+ * bendpoints when it has any
  */
 function generateConnectionLine(
   conn: DiagramConnection,
-  sourceObj: DiagramObject,
-  targetObj: DiagramObject,
+  points: Point[],
   relationship: ArchiMateRelationship | undefined
 ): string {
-  const { x1, y1, x2, y2 } = calculateConnectionPoints(sourceObj, targetObj);
-
   const style = relationship ? RELATIONSHIP_STYLES[relationship.type] : RELATIONSHIP_STYLES.Association;
   const dashAttr = style.dash ? ` stroke-dasharray="${style.dash}"` : '';
   const markerAttr = style.marker !== 'none' ? ` marker-end="url(#${style.marker})"` : '';
+  const stroke = conn.lineColor ?? LINE_COLOR;
 
-  return `  <line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="#333" stroke-width="1"${dashAttr}${markerAttr}/>`;
+  if (points.length === 2) {
+    const [{ x: x1, y: y1 }, { x: x2, y: y2 }] = points;
+    return `  <line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="${stroke}" stroke-width="1"${dashAttr}${markerAttr}/>`;
+  }
+
+  const pointList = points.map((p) => `${p.x},${p.y}`).join(' ');
+  return `  <polyline points="${pointList}" fill="none" stroke="${stroke}" stroke-width="1"${dashAttr}${markerAttr}/>`;
 }
 
 /**
@@ -257,26 +450,19 @@ export function generateSvg(
     ...options,
   };
 
+  // Nested objects' bounds are relative to their parent; render in view coordinates
+  const absoluteBounds = absoluteBoundsMap(view.objects);
+
   // Calculate bounds of all objects
   let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
 
-  const diagramObjectMap = new Map<string, DiagramObject>();
-
-  function collectBounds(objects: DiagramObject[]): void {
-    for (const obj of objects) {
-      diagramObjectMap.set(obj.id, obj);
-      minX = Math.min(minX, obj.bounds.x);
-      minY = Math.min(minY, obj.bounds.y);
-      maxX = Math.max(maxX, obj.bounds.x + obj.bounds.width);
-      maxY = Math.max(maxY, obj.bounds.y + obj.bounds.height);
-      if (obj.children) {
-        collectBounds(obj.children);
-      }
-    }
+  for (const bounds of absoluteBounds.values()) {
+    minX = Math.min(minX, bounds.x);
+    minY = Math.min(minY, bounds.y);
+    maxX = Math.max(maxX, bounds.x + bounds.width);
+    maxY = Math.max(maxY, bounds.y + bounds.height);
   }
 
-  collectBounds(view.objects);
-
   // Handle empty view
   if (minX === Infinity) {
     minX = 0;
@@ -307,32 +493,38 @@ export function generateSvg(
   // Marker definitions
   lines.push(generateMarkerDefs());
 
-  // Collect all connections for rendering later
-  const connections: Array<{
-    conn: DiagramConnection;
-    sourceObj: DiagramObject;
-    targetObj: DiagramObject;
-    relationship?: ArchiMateRelationship;
-  }> = [];
+  // Collect all connections for rendering later, with the object or
+  // connection each is drawn from
+  const connections: Array<{ conn: DiagramConnection; ownerId: string }> = [];
 
-  // Render elements
+  // Render elements, parents before the children drawn inside them
   function renderObjects(objects: DiagramObject[]): void {
     for (const obj of objects) {
-      const element = getElementById(model, obj.elementId);
-      if (element) {
-        lines.push(generateElementRect(obj, element, opts));
+      const bounds = absoluteBounds.get(obj.id)!;
+      if (obj.objectType === 'Note') {
+        lines.push(generateNoteShape(bounds, obj, opts));
+      } else if (obj.objectType === 'Group') {
+        lines.push(generateGroupShape(bounds, obj, opts));
+      } else if (obj.objectType === 'DiagramModelReference') {
+        const referenced = model.diagrams.find((d) => d.id === obj.diagramId);
+        lines.push(generateViewReferenceShape(bounds, obj, referenced, opts));
+      } else {
+        const element = getElementById(model, obj.elementId);
+        if (element?.type === 'Junction') {
+          lines.push(generateJunctionShape(bounds, element, obj));
+        } else if (element) {
+          lines.push(generateElementRect(bounds, element, obj, opts));
+        }
       }
 
-      // Collect connections
-      if (obj.sourceConnections) {
-        for (const conn of obj.sourceConnections) {
-          const targetObj = diagramObjectMap.get(conn.targetId);
-          if (targetObj) {
-            const relationship = model.relationships.find((r) => r.id === conn.relationshipId);
-            connections.push({ conn, sourceObj: obj, targetObj, relationship });
-          }
+      // Collect connections, including those drawn from other connections
+      const collect = (owner: DiagramObject | DiagramConnection) => {
+        for (const conn of owner.sourceConnections ?? []) {
+          connections.push({ conn, ownerId: owner.id });
+          collect(conn);
         }
-      }
+      };
+      collect(obj);
 
       if (obj.children) {
         renderObjects(obj.children);
@@ -342,18 +534,36 @@ export function generateSvg(
 
   renderObjects(view.objects);
 
-  // Render connections (after elements so lines are behind)
-  // Actually, let's insert them before elements for proper layering
-  // We need to re-order the output
-  const elementLines = lines.splice(4); // Remove everything after defs
-
-  // Add connections first (behind elements)
-  for (const { conn, sourceObj, targetObj, relationship } of connections) {
-    lines.push(generateConnectionLine(conn, sourceObj, targetObj, relationship));
+  // A connection to or from another connection meets it halfway along
+  const byId = new Map(connections.map((entry) => [entry.conn.id, entry]));
+  const paths = new Map<string, Point[] | undefined>();
+  function endBounds(id: string): DiagramBounds | undefined {
+    const objectBounds = absoluteBounds.get(id);
+    if (objectBounds) return objectBounds;
+    const entry = byId.get(id);
+    const points = entry && pathOf(entry.conn, entry.ownerId);
+    return points && pointBounds(pathMidpoint(points));
+  }
+  function pathOf(conn: DiagramConnection, ownerId: string): Point[] | undefined {
+    if (!paths.has(conn.id)) {
+      // Connections that reach themselves through other connections are not drawn
+      paths.set(conn.id, undefined);
+      const source = endBounds(ownerId);
+      const target = endBounds(conn.targetId);
+      paths.set(conn.id, source && target ? connectionPath(conn, source, target) : undefined);
+    }
+    return paths.get(conn.id);
   }
 
-  // Add elements back
-  lines.push(...elementLines);
+  // Connections go on top, as in Archi, so lines between nested elements are
+  // not hidden behind their containers
+  const index = getModelIndex(model);
+  for (const { conn, ownerId } of connections) {
+    const points = pathOf(conn, ownerId);
+    if (points) {
+      lines.push(generateConnectionLine(conn, points, index.getRelationship(conn.relationshipId)));
+    }
+  }
 
   // Close SVG
   lines.push('</svg>');
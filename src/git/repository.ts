@@ -0,0 +1,192 @@
+/**
+ * Git access for coArchi repositories.
+ *
+ * coArchi keeps model.archimate inside a git working tree. These helpers shell
+ * out to the local `git` executable to inspect and update that repository:
+ * status, history of the model file, commits, checkouts, and reading the model
+ * as it was at any commit. Nothing here talks to a remote.
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { realpath } from 'fs/promises';
+import { basename, dirname, join, relative, sep } from 'path';
+import type { ArchiMateModel } from '../model/types.js';
+import { parseModelXml } from '../model/parser.js';
+import { diffModels, type ModelDiff } from '../model/diff.js';
+
+const execFileAsync = promisify(execFile);
+
+const MODEL_FILENAME = 'model.archimate';
+
+export interface GitFileStatus {
+  path: string;
+  /** Two-letter porcelain code, index then working tree (e.g. " M", "A ", "??") */
+  code: string;
+}
+
+export interface GitStatus {
+  root: string;
+  branch: string | null;
+  /** Commit HEAD points at, or null in a repository without commits */
+  head: string | null;
+  modelFile: string;
+  modelModified: boolean;
+  clean: boolean;
+  files: GitFileStatus[];
+}
+
+export interface GitCommit {
+  hash: string;
+  shortHash: string;
+  author: string;
+  date: string;
+  subject: string;
+}
+
+/**
+ * A coArchi model located inside a git working tree.
+ */
+export interface ModelRepository {
+  root: string;
+  /** Path of model.archimate relative to the root, with forward slashes */
+  modelFile: string;
+}
+
+/**
+ * Refuse a ref git would read as an option, such as "--output=<file>".
+ */
+function checkRef(ref: string): void {
+  if (ref.startsWith('-')) {
+    throw new Error(`Invalid ref "${ref}": refs cannot start with "-"`);
+  }
+}
+
+export async function git(cwd: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 });
+    return stdout;
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    const stdout = (error as { stdout?: string }).stdout?.trim();
+    throw new Error(`git ${args[0]} failed: ${stderr || stdout || (error as Error).message}`);
+  }
+}
+
+/**
+ * Resolve the git repository around a model directory or model.archimate path.
+ */
+export async function findModelRepository(modelPath: string): Promise<ModelRepository> {
+  const modelFile = modelPath.endsWith('.archimate') ? modelPath : join(modelPath, MODEL_FILENAME);
+  // git reports the root with symlinks resolved, so resolve the model directory too
+  const dir = await realpath(dirname(modelFile));
+  const root = (await git(dir, ['rev-parse', '--show-toplevel'])).trim();
+  return { root, modelFile: relative(root, join(dir, basename(modelFile))).split(sep).join('/') };
+}
+
+export async function getStatus(repo: ModelRepository): Promise<GitStatus> {
+  const output = await git(repo.root, ['status', '--porcelain=v1', '--branch', '--untracked-files=all']);
+  const lines = output.split('\n').filter(Boolean);
+
+  let branch: string | null = null;
+  const header = lines[0]?.startsWith('## ') ? lines.shift()!.slice(3) : '';
+  const match = header.match(/^(?:No commits yet on )?([^.\s]+)/);
+  if (match && !header.startsWith('HEAD (no branch)')) {
+    branch = match[1];
+  }
+
+  const files = lines.map((line) => ({ code: line.slice(0, 2), path: line.slice(3) }));
+  return {
+    root: repo.root,
+    branch,
+    head: await resolveRef(repo, 'HEAD'),
+    modelFile: repo.modelFile,
+    modelModified: files.some((f) => f.path === repo.modelFile),
+    clean: files.length === 0,
+    files,
+  };
+}
+
+/**
+ * Commits that touched the model file, newest first.
+ */
+export async function getModelLog(repo: ModelRepository, limit: number = 20, ref: string = 'HEAD'): Promise<GitCommit[]> {
+  if (!(await resolveRef(repo, ref))) return [];
+
+  const output = await git(repo.root, [
+    'log',
+    `--max-count=${limit}`,
+    '--format=%H%x1f%h%x1f%an%x1f%aI%x1f%s',
+    ref,
+    '--',
+    repo.modelFile,
+  ]);
+  return output
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => {
+      const [hash, shortHash, author, date, subject] = line.split('\x1f');
+      return { hash, shortHash, author, date, subject };
+    });
+}
+
+/**
+ * Stage the model file and commit it. Returns the new commit.
+ */
+export async function commitModel(repo: ModelRepository, message: string): Promise<GitCommit> {
+  await git(repo.root, ['add', '--', repo.modelFile]);
+  await git(repo.root, ['commit', '-m', message, '--', repo.modelFile]);
+  const [commit] = await getModelLog(repo, 1);
+  return commit;
+}
+
+/**
+ * Check out a branch, tag, or commit in the working tree.
+ */
+export async function checkout(repo: ModelRepository, ref: string): Promise<void> {
+  checkRef(ref);
+  // The trailing "--" keeps git from reading the ref as a file to restore
+  await git(repo.root, ['checkout', ref, '--']);
+}
+
+/**
+ * Full commit hash for a ref, or null when it does not resolve.
+ */
+export async function resolveRef(repo: ModelRepository, ref: string): Promise<string | null> {
+  checkRef(ref);
+  try {
+    return (await git(repo.root, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`])).trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse the model file as it was at a commit. Returns null when the file did
+ * not exist at that commit.
+ */
+export async function readModelAtCommit(repo: ModelRepository, ref: string): Promise<ArchiMateModel | null> {
+  checkRef(ref);
+  let xml: string;
+  try {
+    xml = await git(repo.root, ['show', `${ref}:${repo.modelFile}`]);
+  } catch (error) {
+    if (await resolveRef(repo, ref)) return null;
+    throw error;
+  }
+  return parseModelXml(xml);
+}
+
+/**
+ * Semantic diff of what a commit did to the model: its first parent's model
+ * against its own. A commit that added the model file is diffed against an
+ * empty model with the same header.
+ */
+export async function diffCommit(repo: ModelRepository, ref: string): Promise<ModelDiff> {
+  const after = await readModelAtCommit(repo, ref);
+  if (!after) {
+    throw new Error(`${repo.modelFile} does not exist at ${ref}`);
+  }
+  const parent = (await resolveRef(repo, `${ref}~1`)) ? await readModelAtCommit(repo, `${ref}~1`) : null;
+  return diffModels(parent ?? { ...after, folders: [], relationships: [], diagrams: [] }, after);
+}
@@ -24,35 +24,129 @@ import {
   getElementsByType,
   findElementsByName,
   getRelationshipsForElement,
+  getRelationshipEnd,
   getFolderByType,
 } from './model/parser.js';
 
-import { autoConnectDiagramObject } from './model/view-helpers.js';
+import {
+  absoluteOrigin,
+  allDiagramConnections,
+  allDiagramObjects,
+  attachConnection,
+  autoConnectDiagramObject,
+  defaultObjectSize,
+  findConnectable,
+  findDiagramConnection,
+  findDiagramObject,
+  insertDiagramObject,
+  reconnectRelationshipInView,
+  resolvePlacement,
+  type ObjectPlacement,
+} from './model/view-helpers.js';
+import {
+  applyStyle,
+  styleOf,
+  CONNECTION_TEXT_POSITIONS,
+  TEXT_ALIGNMENTS,
+  TEXT_POSITIONS,
+  type StyleChanges,
+} from './model/diagram-style.js';
+import { layoutView, LAYOUT_MODES, type LayoutMode } from './model/layout.js';
+import { generateView } from './model/view-generation.js';
+import {
+  Viewpoints,
+  checkViewpoint,
+  getViewpointElementTypes,
+  getViewpointRelationshipTypes,
+  resolveViewpoint,
+} from './model/viewpoints.js';
 import { analyzeImpact } from './model/impact.js';
+import { DEFAULT_QUERY_LIMIT, parseQuery, runQuery } from './model/query.js';
+import { validateModel } from './model/conformance.js';
+import { checkJunctionRelationship } from './model/junctions.js';
+import { checkElementTypeChange } from './model/element-type.js';
+import { BatchOperationTypes, runBatch, type BatchOperation } from './model/batch.js';
+import { diffModels, formatDiffMarkdown, countChanges } from './model/diff.js';
+import { mergeModels, type MergeSide } from './model/merge.js';
+import {
+  ModelHistory,
+  addElementCommand,
+  removeElementCommand,
+  updateElementCommand,
+  changeElementTypeCommand,
+  addRelationshipCommand,
+  removeRelationshipCommand,
+  updateRelationshipCommand,
+  addDiagramCommand,
+  editDiagramCommand,
+  compositeCommand,
+  editFoldersCommand,
+  editModelCommand,
+  replaceModelCommand,
+  setPropertiesCommand,
+  type ModelCommand,
+} from './model/history.js';
+import {
+  checkFolderTarget,
+  createFolder,
+  deleteFolder,
+  findFolderConcept,
+  findFolderLocation,
+  getAllFolderContents,
+  getConceptFolder,
+  getFolderContents,
+  moveFolder,
+  moveToFolder,
+  renameFolder,
+  type FolderConcept,
+} from './model/folders.js';
+import {
+  findPropertyOwner,
+  matchesPropertyFilters,
+  parsePropertyFilter,
+  removePropertyKeys,
+  setPropertyValues,
+  type PropertyMode,
+} from './model/properties.js';
+import { ModelRegistry, planElementCopy, type ModelSession } from './model/sessions.js';
+import {
+  findModelRepository,
+  getStatus as getGitStatus,
+  getModelLog,
+  commitModel,
+  checkout as gitCheckout,
+  resolveRef,
+  readModelAtCommit,
+  diffCommit,
+  type ModelRepository,
+} from './git/repository.js';
 
 import {
   writeModel,
   createEmptyModel,
   generateId,
-  addElementToModel,
-  addRelationshipToModel,
-  addDiagramToModel,
-  removeElementFromModel,
-  removeRelationshipFromModel,
-  updateElementInModel,
+  getAttachedRelationships,
+  getFolderTypeForElement,
+  mergeElementsInModel,
+  type MergeElementsOptions,
+  type MergeElementsResult,
+  type RelationshipUpdates,
 } from './model/writer.js';
 
 import {
-  ArchiMateModel,
   ArchiMateElement,
+  ArchiMateProperty,
   ArchiMateRelationship,
   ArchiMateDiagram,
+  ArchiMateFolder,
   DiagramObject,
   DiagramConnection,
   ElementType,
   RelationshipType,
   AccessType,
   InfluenceModifier,
+  JunctionType,
+  JunctionTypes,
   Layer,
   MotivationElementTypes,
   StrategyElementTypes,
@@ -61,6 +155,9 @@ import {
   TechnologyElementTypes,
   ImplementationElementTypes,
   CompositeElementTypes,
+  RelationshipConnectorTypes,
+  AllElementTypes,
+  LayerFolderTypes,
   RelationshipTypes,
   ElementDescriptions,
   RelationshipDescriptions,
@@ -70,6 +167,7 @@ import {
 import {
   isValidRelationship,
   getValidRelationshipTypes,
+  getValidRelationshipsFromSource,
   validateRelationship,
   getRelationshipGuidance,
 } from './relationships/validation.js';
@@ -84,6 +182,10 @@ import { generateHtmlDeck, saveHtmlDeck } from './exporters/html-deck-exporter.j
 import { parseExchangeFormat, readExchangeFile } from './exchange/exchange-reader.js';
 import { writeExchangeFormat, saveExchangeFile } from './exchange/exchange-writer.js';
 
+// Import Archi CSV handlers
+import { applyCsvImport, checkCsvImport, readCsvFiles, type CsvImportSummary } from './csv/csv-reader.js';
+import { saveArchiCsv } from './csv/csv-writer.js';
+
 // Import audit logger
 import { getAuditLogger, type AuditLogInput } from './audit/logger.js';
 
@@ -91,20 +193,57 @@ import { getAuditLogger, type AuditLogInput } from './audit/logger.js';
 // Server State
 // =============================================================================
 
-let currentModel: ArchiMateModel | null = null;
-let currentModelPath: string | null = null;
+const models = new ModelRegistry();
 
 // =============================================================================
 // Tool Definitions
 // =============================================================================
 
+/** Optional `model` argument accepted by every tool that works on an open model */
+const modelArgument = {
+  type: 'string',
+  description: 'Handle of the open model to use (default: the active model)',
+};
+
+/** Optional `folder_id` argument of the tools that create concepts */
+const folderArgument = {
+  type: 'string',
+  description: 'Optional ID of the folder to create it in (see archimate_list_folders); it must be in the top-level folder for its kind (default: that top-level folder)',
+};
+
+/** Property filters accepted by the tools that list or find elements */
+const propertiesFilterArgument = {
+  type: 'array',
+  items: { type: 'string' },
+  description: 'Keep only elements whose properties match all of these filters: "key=value", "key!=value", "key" (set), or "!key" (not set). Keys and values ignore case, e.g. ["lifecycle=retiring", "owner"]',
+};
+
+/** Position, size, and nesting arguments of the tools that add objects to a view */
+function placementArguments(defaultWidth: number, defaultHeight: number) {
+  return {
+    parent_object_id: {
+      type: 'string',
+      description: 'ID of the diagram object to nest this one in (default: placed directly on the view). The parent is enlarged if needed to contain it.',
+    },
+    x: { type: 'number', description: 'X position (default: auto)' },
+    y: { type: 'number', description: 'Y position (default: auto)' },
+    width: { type: 'number', description: `Width (default: ${defaultWidth})` },
+    height: { type: 'number', description: `Height (default: ${defaultHeight})` },
+    coordinates: {
+      type: 'string',
+      enum: ['relative', 'absolute'],
+      description: 'Whether x and y are relative to the parent object\'s top-left corner, as Archi stores them, or view coordinates (default: relative)',
+    },
+  };
+}
+
 const tools: Tool[] = [
   // ---------------------------------------------------------------------------
   // Model Management Tools
   // ---------------------------------------------------------------------------
   {
     name: 'archimate_open_model',
-    description: 'Open an ArchiMate model from a coArchi repository directory. Returns model metadata including element counts by layer.',
+    description: 'Open an ArchiMate model from a coArchi repository directory and make it the active model. Several models can be open at once; returns the model handle and metadata including element counts by layer.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -112,6 +251,14 @@ const tools: Tool[] = [
           type: 'string',
           description: 'Path to the model directory or model.archimate file',
         },
+        handle: {
+          type: 'string',
+          description: 'Handle to register the model under (default: derived from the path or model name)',
+        },
+        replace: {
+          type: 'boolean',
+          description: 'Replace a model already open under the same handle, dropping its unsaved changes and undo history (default: false)',
+        },
       },
       required: ['path'],
     },
@@ -126,12 +273,13 @@ const tools: Tool[] = [
           type: 'string',
           description: 'Optional path to save to (uses original path if not specified)',
         },
+        model: modelArgument,
       },
     },
   },
   {
     name: 'archimate_create_model',
-    description: 'Create a new empty ArchiMate model with standard folder structure',
+    description: 'Create a new empty ArchiMate model with standard folder structure and make it the active model',
     inputSchema: {
       type: 'object',
       properties: {
@@ -143,17 +291,74 @@ const tools: Tool[] = [
           type: 'string',
           description: 'Path where to save the model',
         },
+        handle: {
+          type: 'string',
+          description: 'Handle to register the model under (default: derived from the path or model name)',
+        },
+        replace: {
+          type: 'boolean',
+          description: 'Replace a model already open under the same handle, dropping its unsaved changes and undo history (default: false)',
+        },
       },
       required: ['name', 'path'],
     },
   },
+  {
+    name: 'archimate_list_models',
+    description: 'List the open models with their handles, showing which one is active',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'archimate_switch_model',
+    description: 'Make an open model the active model used by tools called without a `model` argument',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        model: {
+          type: 'string',
+          description: 'Handle of the open model to activate',
+        },
+      },
+      required: ['model'],
+    },
+  },
+  {
+    name: 'archimate_copy_elements',
+    description: 'Copy elements from one open model into another, keeping their IDs. Elements whose ID already exists in the target are skipped. Relationships between the copied elements, or to elements already in the target, are copied too unless disabled.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        element_ids: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'IDs of the elements to copy',
+        },
+        target_model: {
+          type: 'string',
+          description: 'Handle of the model to copy into',
+        },
+        include_relationships: {
+          type: 'boolean',
+          description: 'Also copy relationships whose endpoints exist in the target after the copy (default: true)',
+        },
+        model: {
+          type: 'string',
+          description: 'Handle of the model to copy from (default: the active model)',
+        },
+      },
+      required: ['element_ids', 'target_model'],
+    },
+  },
 
   // ---------------------------------------------------------------------------
   // Navigation Tools
   // ---------------------------------------------------------------------------
   {
     name: 'archimate_list_elements',
-    description: 'List elements in the model, optionally filtered by layer or type',
+    description: 'List elements in the model, optionally filtered by layer, type, or properties',
     inputSchema: {
       type: 'object',
       properties: {
@@ -166,6 +371,8 @@ const tools: Tool[] = [
           type: 'string',
           description: 'Filter by specific element type (e.g., BusinessActor, ApplicationComponent)',
         },
+        properties: propertiesFilterArgument,
+        model: modelArgument,
       },
     },
   },
@@ -179,6 +386,7 @@ const tools: Tool[] = [
           type: 'string',
           description: 'The ID of the element to retrieve',
         },
+        model: modelArgument,
       },
       required: ['element_id'],
     },
@@ -198,10 +406,27 @@ const tools: Tool[] = [
           enum: ['Motivation', 'Strategy', 'Business', 'Application', 'Technology', 'Physical', 'Implementation', 'Composite'],
           description: 'Optional layer filter',
         },
+        properties: propertiesFilterArgument,
+        model: modelArgument,
       },
       required: ['pattern'],
     },
   },
+  {
+    name: 'archimate_query',
+    description: `Answer questions across relationships with a path query, e.g. "c:ApplicationComponent -[Serving]-> p:BusinessProcess where p.property(owner) = 'Finance' return c.name, p.name limit 10". A path joins nodes (an element type, a layer, types separated by "|", or "*"; "c:Type" binds a variable) with relationships ("-[Serving]->" outgoing, "<-[Serving]-" incoming, "-[Serving]-" either direction, "-->" any type, "-[r:Serving]->" binds it). "where" compares id, name, type, documentation, layer, or property(key) of a variable with =, != (ignoring case), or ~ (regex), combined with and, or, not, and parentheses; property(key) alone tests that the key is set. Fields without a variable refer to the first node. "return [distinct]" picks the fields or variables to return (all variables by default). "limit" caps the rows (default ${DEFAULT_QUERY_LIMIT}).`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'The path query',
+        },
+        model: modelArgument,
+      },
+      required: ['query'],
+    },
+  },
 
   // ---------------------------------------------------------------------------
   // Layer-Specific Creation Tools (LLM-Friendly with Enumerations)
@@ -225,6 +450,8 @@ const tools: Tool[] = [
           type: 'string',
           description: 'Optional documentation/description',
         },
+        folder_id: folderArgument,
+        model: modelArgument,
       },
       required: ['element_type', 'name'],
     },
@@ -248,6 +475,8 @@ const tools: Tool[] = [
           type: 'string',
           description: 'Optional documentation/description',
         },
+        folder_id: folderArgument,
+        model: modelArgument,
       },
       required: ['element_type', 'name'],
     },
@@ -271,6 +500,8 @@ const tools: Tool[] = [
           type: 'string',
           description: 'Optional documentation/description',
         },
+        folder_id: folderArgument,
+        model: modelArgument,
       },
       required: ['element_type', 'name'],
     },
@@ -294,6 +525,8 @@ const tools: Tool[] = [
           type: 'string',
           description: 'Optional documentation/description',
         },
+        folder_id: folderArgument,
+        model: modelArgument,
       },
       required: ['element_type', 'name'],
     },
@@ -317,6 +550,8 @@ const tools: Tool[] = [
           type: 'string',
           description: 'Optional documentation/description',
         },
+        folder_id: folderArgument,
+        model: modelArgument,
       },
       required: ['element_type', 'name'],
     },
@@ -340,6 +575,8 @@ const tools: Tool[] = [
           type: 'string',
           description: 'Optional documentation/description',
         },
+        folder_id: folderArgument,
+        model: modelArgument,
       },
       required: ['element_type', 'name'],
     },
@@ -363,17 +600,44 @@ const tools: Tool[] = [
           type: 'string',
           description: 'Optional documentation/description',
         },
+        folder_id: folderArgument,
+        model: modelArgument,
       },
       required: ['element_type', 'name'],
     },
   },
 
+  {
+    name: 'archimate_create_junction',
+    description: 'Create a junction (Section 5.5.1) to join or split relationships of the same type. An And junction means all paths apply; an Or junction means some of them do. Connect it with archimate_create_relationship: every relationship on a junction must have the same type, valid between the elements it joins.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        junction_type: {
+          type: 'string',
+          enum: [...JunctionTypes],
+          description: 'And (default) or Or junction',
+        },
+        name: {
+          type: 'string',
+          description: 'Optional name of the junction',
+        },
+        documentation: {
+          type: 'string',
+          description: 'Optional documentation/description',
+        },
+        folder_id: folderArgument,
+        model: modelArgument,
+      },
+    },
+  },
+
   // ---------------------------------------------------------------------------
   // Relationship Tools
   // ---------------------------------------------------------------------------
   {
     name: 'archimate_create_relationship',
-    description: 'Create a relationship between two elements. Validates against ArchiMate specification.',
+    description: 'Create a relationship between two elements. Validates against ArchiMate specification. Either end may instead be a relationship: an Association from or to any relationship, or an Aggregation (or, from a Grouping, a Composition) from a Grouping or Plateau to a relationship.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -384,11 +648,11 @@ const tools: Tool[] = [
         },
         source_id: {
           type: 'string',
-          description: 'ID of the source element',
+          description: 'ID of the source element or relationship',
         },
         target_id: {
           type: 'string',
-          description: 'ID of the target element',
+          description: 'ID of the target element or relationship',
         },
         name: {
           type: 'string',
@@ -404,6 +668,8 @@ const tools: Tool[] = [
           enum: ['++', '+', '0', '-', '--'],
           description: 'For Influence relationships: strength modifier',
         },
+        folder_id: folderArgument,
+        model: modelArgument,
       },
       required: ['relationship_type', 'source_id', 'target_id'],
     },
@@ -428,12 +694,13 @@ const tools: Tool[] = [
           enum: ['incoming', 'outgoing', 'both'],
           description: 'For element_id filter: direction of relationships',
         },
+        model: modelArgument,
       },
     },
   },
   {
     name: 'archimate_get_valid_relationships',
-    description: 'Get valid relationship types between two element types (helps understand what connections are permitted)',
+    description: 'Get valid relationship types between two element types, per the ArchiMate 3.2 Appendix B relationship table including derived relationships (helps understand what connections are permitted)',
     inputSchema: {
       type: 'object',
       properties: {
@@ -458,7 +725,9 @@ const tools: Tool[] = [
     description: 'List all diagram views in the model',
     inputSchema: {
       type: 'object',
-      properties: {},
+      properties: {
+        model: modelArgument,
+      },
     },
   },
   {
@@ -473,15 +742,18 @@ const tools: Tool[] = [
         },
         viewpoint: {
           type: 'string',
-          description: 'Optional viewpoint type (e.g., Layered, Organization, Application)',
+          enum: Viewpoints.map((v) => v.id),
+          description: 'Optional ArchiMate viewpoint, by Archi identifier (see the archimate://spec/viewpoints resource). Elements the viewpoint does not show are refused by archimate_add_to_view.',
         },
+        folder_id: folderArgument,
+        model: modelArgument,
       },
       required: ['name'],
     },
   },
   {
     name: 'archimate_add_to_view',
-    description: 'Add an element to a diagram view. Connections for relationships between this element and any element already in the view are drawn automatically - you do not need to call archimate_add_connection_to_view for them. The response lists every connection that was auto-drawn in autoConnectedRelationships.',
+    description: 'Add an element to a diagram view, optionally nested inside another diagram object (for example an application component inside a node). Connections for relationships between this element and any element already in the view are drawn automatically - you do not need to call archimate_add_connection_to_view for them. Relationships to the objects it is nested in are not drawn, since the nesting shows them. The response lists every connection that was auto-drawn in autoConnectedRelationships.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -493,14 +765,16 @@ const tools: Tool[] = [
           type: 'string',
           description: 'ID of the element to add',
         },
-        x: { type: 'number', description: 'X position (default: auto)' },
-        y: { type: 'number', description: 'Y position (default: auto)' },
-        width: { type: 'number', description: 'Width (default: 120)' },
-        height: { type: 'number', description: 'Height (default: 55)' },
+        ...placementArguments(120, 55),
         auto_connect: {
           type: 'boolean',
           description: 'Auto-draw diagram connections for relationships between this element and on-canvas peers (default: true). Set to false only if you want to place the element without any connections and add them manually.',
         },
+        allow_outside_viewpoint: {
+          type: 'boolean',
+          description: "Add the element even if the view's viewpoint does not show its type, with a warning (default: false)",
+        },
+        model: modelArgument,
       },
       required: ['view_id', 'element_id'],
     },
@@ -508,7 +782,7 @@ const tools: Tool[] = [
 
   {
     name: 'archimate_add_connection_to_view',
-    description: 'Manually add a connection (line/arrow) between two diagram objects in a view. Normally unnecessary - archimate_add_to_view auto-draws connections for all relationships it finds between the new element and existing on-canvas elements. Use this tool only to: (a) restore a connection after calling archimate_add_to_view with auto_connect: false, or (b) add a connection that was not auto-drawn because one endpoint was not yet in the view. Both diagram objects must already be in the view.',
+    description: 'Manually add a connection (line/arrow) between two diagram objects in a view. Normally unnecessary - archimate_add_to_view auto-draws connections for all relationships it finds between the new element and existing on-canvas elements. Use this tool only to: (a) restore a connection after calling archimate_add_to_view with auto_connect: false, or (b) add a connection that was not auto-drawn because one endpoint was not yet in the view. Both diagram objects must already be in the view. For a relationship that starts from or ends on another relationship, pass the ID of the connection showing that relationship in place of a diagram object ID.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -522,838 +796,2568 @@ const tools: Tool[] = [
         },
         source_diagram_object_id: {
           type: 'string',
-          description: 'ID of the source diagram object (from archimate_add_to_view response)',
+          description: 'ID of the source diagram object (from archimate_add_to_view response), or of a connection',
         },
         target_diagram_object_id: {
           type: 'string',
-          description: 'ID of the target diagram object (from archimate_add_to_view response)',
+          description: 'ID of the target diagram object (from archimate_add_to_view response), or of a connection',
         },
+        model: modelArgument,
       },
       required: ['view_id', 'relationship_id', 'source_diagram_object_id', 'target_diagram_object_id'],
     },
   },
-
-  // ---------------------------------------------------------------------------
-  // Modification Tools
-  // ---------------------------------------------------------------------------
   {
-    name: 'archimate_update_element',
-    description: 'Update an existing element',
+    name: 'archimate_add_note_to_view',
+    description: 'Add a text note to a diagram view, for example a title, a legend, or an explanation. Notes exist only on the view and are not model elements.',
     inputSchema: {
       type: 'object',
       properties: {
-        element_id: {
+        view_id: {
           type: 'string',
-          description: 'ID of the element to update',
+          description: 'ID of the view',
         },
-        name: {
+        text: {
           type: 'string',
-          description: 'New name (optional)',
+          description: 'Text of the note; may span several lines',
         },
-        documentation: {
+        ...placementArguments(185, 80),
+        model: modelArgument,
+      },
+      required: ['view_id', 'text'],
+    },
+  },
+  {
+    name: 'archimate_add_group_to_view',
+    description: 'Add a visual group to a diagram view: a labelled box that other objects can be nested in via parent_object_id. Unlike the Grouping element, a group is not part of the model.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        view_id: {
           type: 'string',
-          description: 'New documentation (optional)',
+          description: 'ID of the view',
+        },
+        name: {
+          type: 'string',
+          description: 'Label shown on the group',
         },
+        ...placementArguments(400, 140),
+        model: modelArgument,
       },
-      required: ['element_id'],
+      required: ['view_id', 'name'],
     },
   },
   {
-    name: 'archimate_delete_element',
-    description: 'Delete an element and its associated relationships',
+    name: 'archimate_add_view_reference',
+    description: 'Add a reference to another view, shown with that view\'s name. In Archi, opening the reference opens the referenced view, which makes it a drill-down link.',
     inputSchema: {
       type: 'object',
       properties: {
-        element_id: {
+        view_id: {
           type: 'string',
-          description: 'ID of the element to delete',
+          description: 'ID of the view to add the reference to',
+        },
+        referenced_view_id: {
+          type: 'string',
+          description: 'ID of the view the reference opens',
         },
+        ...placementArguments(120, 55),
+        model: modelArgument,
       },
-      required: ['element_id'],
+      required: ['view_id', 'referenced_view_id'],
     },
   },
   {
-    name: 'archimate_delete_relationship',
-    description: 'Delete a relationship',
+    name: 'archimate_style_view_object',
+    description: 'Set the colors, font, and text placement of a diagram object or connection in a view, as in Archi\'s Properties view. Only the given fields change; pass an empty string to restore Archi\'s default (for example the layer fill color). Connections take line_color, font_color, the font fields, and text_position only.',
     inputSchema: {
       type: 'object',
       properties: {
-        relationship_id: {
+        view_id: {
           type: 'string',
-          description: 'ID of the relationship to delete',
+          description: 'ID of the view',
+        },
+        object_id: {
+          type: 'string',
+          description: 'ID of the diagram object or connection to style',
+        },
+        fill_color: {
+          type: 'string',
+          description: 'Fill color as "#rrggbb"',
         },
+        line_color: {
+          type: 'string',
+          description: 'Outline or line color as "#rrggbb"',
+        },
+        font_color: {
+          type: 'string',
+          description: 'Text color as "#rrggbb"',
+        },
+        font_name: {
+          type: 'string',
+          description: 'Font family, such as "Segoe UI". An empty string restores the default font',
+        },
+        font_size: {
+          type: 'number',
+          description: 'Font size in points',
+        },
+        bold: {
+          type: 'boolean',
+          description: 'Bold text',
+        },
+        italic: {
+          type: 'boolean',
+          description: 'Italic text',
+        },
+        text_alignment: {
+          type: 'string',
+          enum: [...TEXT_ALIGNMENTS, ''],
+          description: 'Horizontal text alignment',
+        },
+        text_position: {
+          type: 'string',
+          enum: [...TEXT_POSITIONS, ...CONNECTION_TEXT_POSITIONS.filter((p) => p !== 'middle'), ''],
+          description: 'Vertical text position for objects (top, middle, bottom), or label position along a connection (source, middle, target)',
+        },
+        model: modelArgument,
       },
-      required: ['relationship_id'],
+      required: ['view_id', 'object_id'],
     },
   },
-
-  // ---------------------------------------------------------------------------
-  // Analysis Tools
-  // ---------------------------------------------------------------------------
   {
-    name: 'archimate_layer_summary',
-    description: 'Get a summary of elements by layer',
+    name: 'archimate_layout_view',
+    description: 'Arrange the objects of a view automatically, offline. "layered" (the default) ranks objects by ArchiMate layer from motivation at the top to implementation at the bottom, orders each rank to reduce crossing connections, and routes connections that span several ranks with bendpoints. "grid" arranges objects in rows ordered by layer. "nested" also lays out the children inside every object and sizes each container to fit. Objects never overlap. Undo with archimate_undo.',
     inputSchema: {
       type: 'object',
-      properties: {},
+      properties: {
+        view_id: {
+          type: 'string',
+          description: 'ID of the view to lay out',
+        },
+        mode: {
+          type: 'string',
+          enum: LAYOUT_MODES,
+          description: 'Layout mode (default: layered)',
+        },
+        object_ids: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Lay out only these diagram objects, such as those just added; all others keep their positions',
+        },
+        pinned_object_ids: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Diagram objects that keep their positions',
+        },
+        horizontal_spacing: {
+          type: 'number',
+          description: 'Gap between objects side by side (default: 40)',
+        },
+        vertical_spacing: {
+          type: 'number',
+          description: 'Gap between ranks or rows (default: 60)',
+        },
+        model: modelArgument,
+      },
+      required: ['view_id'],
     },
   },
   {
-    name: 'archimate_impact_analysis',
-    description: 'Analyze dependencies and impact of an element',
+    name: 'archimate_generate_view',
+    description: 'Create a laid-out view in one call, with connections drawn for the relationships between its elements. Select the elements with root_element_id (its neighborhood, up to depth hops, optionally following only relationship_types), with element_ids, or with layers and/or element_types alone. layers and element_types also narrow a root or list selection; the root itself is always shown. Undo with archimate_undo.',
     inputSchema: {
       type: 'object',
       properties: {
-        element_id: {
+        name: {
           type: 'string',
-          description: 'ID of the element to analyze',
+          description: 'Name of the new view',
+        },
+        viewpoint: {
+          type: 'string',
+          enum: Viewpoints.map((v) => v.id),
+          description: 'Optional ArchiMate viewpoint; only elements it shows are selected',
+        },
+        root_element_id: {
+          type: 'string',
+          description: 'Element whose neighborhood the view shows',
+        },
+        depth: {
+          type: 'number',
+          description: 'Relationship hops from the root (default: 1)',
         },
         direction: {
           type: 'string',
           enum: ['incoming', 'outgoing', 'both'],
-          description: 'Direction of relationships to analyze',
+          description: 'Relationships to follow from each element reached (default: both)',
         },
-        depth: {
+        relationship_types: {
+          type: 'array',
+          items: { type: 'string', enum: [...RelationshipTypes] },
+          description: 'Follow and draw only these relationship types',
+        },
+        element_ids: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Show exactly these elements (ignored when root_element_id is given)',
+        },
+        layers: {
+          type: 'array',
+          items: { type: 'string', enum: Object.keys(LayerFolderTypes) },
+          description: 'Show only elements of these layers',
+        },
+        element_types: {
+          type: 'array',
+          items: { type: 'string', enum: [...AllElementTypes] },
+          description: 'Show only elements of these types',
+        },
+        layout_mode: {
+          type: 'string',
+          enum: LAYOUT_MODES,
+          description: 'How to lay out the view (default: layered)',
+        },
+        max_elements: {
           type: 'number',
-          description: 'How many levels deep to analyze (default: 2)',
+          description: 'Refuse selections with more elements than this (default: 200)',
         },
+        model: modelArgument,
       },
-      required: ['element_id'],
+      required: ['name'],
     },
   },
 
   // ---------------------------------------------------------------------------
-  // Exchange Format Tools
+  // Modification Tools
   // ---------------------------------------------------------------------------
   {
-    name: 'archimate_import_exchange',
-    description: 'Import an ArchiMate model from Open Exchange Format XML file',
+    name: 'archimate_update_element',
+    description: 'Update an existing element',
     inputSchema: {
       type: 'object',
       properties: {
-        path: {
+        element_id: {
           type: 'string',
-          description: 'Path to the .xml exchange file',
+          description: 'ID of the element to update',
+        },
+        name: {
+          type: 'string',
+          description: 'New name (optional)',
+        },
+        documentation: {
+          type: 'string',
+          description: 'New documentation (optional)',
         },
+        model: modelArgument,
       },
-      required: ['path'],
+      required: ['element_id'],
     },
   },
   {
-    name: 'archimate_export_exchange',
-    description: 'Export the current model to ArchiMate Open Exchange Format XML',
+    name: 'archimate_change_element_type',
+    description: 'Change the type of an element, e.g. reclassify a BusinessFunction as a BusinessProcess, keeping its ID, name, documentation, properties, and diagram objects. Attached relationships the new type makes invalid are reported and the change refused, unless invalid_relationships converts them to Associations or removes them. An element changing layer moves to the top-level folder of its new layer. Paths through junctions are checked by archimate_validate_model. Undo with archimate_undo.',
     inputSchema: {
       type: 'object',
       properties: {
-        path: {
+        element_id: {
           type: 'string',
-          description: 'Path to save the exchange XML file',
+          description: 'ID of the element to change',
+        },
+        element_type: {
+          type: 'string',
+          enum: AllElementTypes.filter(t => t !== 'Junction'),
+          description: 'New element type',
+        },
+        invalid_relationships: {
+          type: 'string',
+          enum: ['report', 'convert', 'remove'],
+          description: 'What to do with relationships the new type makes invalid: report them and change nothing (default), convert them to Associations, or remove them',
         },
+        model: modelArgument,
       },
-      required: ['path'],
+      required: ['element_id', 'element_type'],
     },
   },
-
-  // ---------------------------------------------------------------------------
-  // Export Tools
-  // ---------------------------------------------------------------------------
   {
-    name: 'archimate_export_mermaid',
-    description: 'Generate Mermaid diagram syntax from the model or a specific view',
+    name: 'archimate_merge_elements',
+    description: 'Merge duplicate elements into one survivor, which keeps its ID, name, type, and folder. Relationships and diagram objects of the merged elements move to the survivor; relationships that become identical to another one are removed, and relationships between the merged elements are removed. Properties and documentation combine as chosen. The merged elements are then deleted. Refused when a moved relationship would be invalid for the survivor\'s type. Undo with archimate_undo.',
     inputSchema: {
       type: 'object',
       properties: {
-        view_id: {
-          type: 'string',
-          description: 'Optional: ID of a specific view to export (exports full model if not specified)',
-        },
-        direction: {
+        survivor_id: {
           type: 'string',
-          enum: ['TB', 'LR', 'BT', 'RL'],
-          description: 'Diagram direction (default: TB for top-to-bottom)',
-        },
-        include_labels: {
-          type: 'boolean',
-          description: 'Include relationship labels in diagram (default: false)',
+          description: 'ID of the element to keep',
         },
-        layer_filter: {
+        element_ids: {
           type: 'array',
           items: { type: 'string' },
-          description: 'Filter to specific layers (e.g., ["Business", "Application"])',
+          description: 'IDs of the elements to merge into the survivor',
+        },
+        properties: {
+          type: 'string',
+          enum: ['merge', 'survivor'],
+          description: 'merge adds the property keys only merged elements have, the survivor\'s values winning; survivor keeps the survivor\'s properties (default: merge)',
+        },
+        documentation: {
+          type: 'string',
+          enum: ['concatenate', 'survivor'],
+          description: 'concatenate appends the merged elements\' other documentation to the survivor\'s; survivor keeps the survivor\'s (default: concatenate)',
         },
+        model: modelArgument,
       },
+      required: ['survivor_id', 'element_ids'],
     },
   },
   {
-    name: 'archimate_export_diagram',
-    description: 'Export a diagram view as SVG or PNG image',
+    name: 'archimate_set_properties',
+    description: 'Set properties of an element, relationship, view, or the model itself (by the model ID). In merge mode only the given keys change; in replace mode the given properties become the only ones. Undo with archimate_undo.',
     inputSchema: {
       type: 'object',
       properties: {
-        view_id: {
+        concept_id: {
           type: 'string',
-          description: 'ID of the view to export',
+          description: 'ID of the element, relationship, view, or model',
         },
-        output_path: {
+        properties: {
+          type: 'object',
+          additionalProperties: { type: 'string' },
+          description: 'Properties to set, as key-value pairs (e.g., {"owner": "Finance", "lifecycle": "retiring"})',
+        },
+        mode: {
           type: 'string',
-          description: 'Path to save the image file (use .svg or .png extension)',
+          enum: ['merge', 'replace'],
+          description: 'merge keeps other keys; replace removes them (default: merge)',
         },
-        format: {
+        model: modelArgument,
+      },
+      required: ['concept_id', 'properties'],
+    },
+  },
+  {
+    name: 'archimate_remove_properties',
+    description: 'Remove properties by key from an element, relationship, view, or the model itself (by the model ID). Undo with archimate_undo.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        concept_id: {
           type: 'string',
-          enum: ['svg', 'png'],
-          description: 'Output format (default: detected from file extension)',
+          description: 'ID of the element, relationship, view, or model',
         },
-        width: {
-          type: 'number',
-          description: 'Image width in pixels (optional)',
+        keys: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Keys of the properties to remove',
         },
-        height: {
-          type: 'number',
-          description: 'Image height in pixels (optional)',
+        model: modelArgument,
+      },
+      required: ['concept_id', 'keys'],
+    },
+  },
+  {
+    name: 'archimate_delete_element',
+    description: 'Delete an element and its associated relationships',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        element_id: {
+          type: 'string',
+          description: 'ID of the element to delete',
         },
-        background_color: {
+        model: modelArgument,
+      },
+      required: ['element_id'],
+    },
+  },
+  {
+    name: 'archimate_delete_relationship',
+    description: 'Delete a relationship',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        relationship_id: {
           type: 'string',
-          description: 'Background color (default: #ffffff)',
+          description: 'ID of the relationship to delete',
         },
+        model: modelArgument,
       },
-      required: ['view_id', 'output_path'],
+      required: ['relationship_id'],
     },
   },
+
   {
-    name: 'archimate_export_markdown',
-    description: 'Export the model as Markdown documentation',
+    name: 'archimate_update_relationship',
+    description: 'Update a relationship in place, keeping its ID and view connections: rename it, change its documentation, access type, influence modifier, or type, or reconnect its source or target to another element. Type and endpoint changes are validated against the ArchiMate specification. In each view, a reconnected end moves to an object showing the new element; connections in views that do not show it are removed.',
     inputSchema: {
       type: 'object',
       properties: {
-        output_path: {
+        relationship_id: {
           type: 'string',
-          description: 'Path to save the Markdown file',
+          description: 'ID of the relationship to update',
         },
-        include_views: {
-          type: 'boolean',
-          description: 'Include views section (default: true)',
+        relationship_type: {
+          type: 'string',
+          enum: [...RelationshipTypes],
+          description: 'New relationship type',
         },
-        include_diagrams: {
-          type: 'boolean',
-          description: 'Embed Mermaid diagrams in output (default: true)',
+        source_id: {
+          type: 'string',
+          description: 'ID of the new source element or relationship',
         },
-        include_relationships: {
-          type: 'boolean',
-          description: 'Include relationship details for each element (default: true)',
+        target_id: {
+          type: 'string',
+          description: 'ID of the new target element or relationship',
         },
-        include_properties: {
-          type: 'boolean',
-          description: 'Include element properties (default: false)',
+        name: {
+          type: 'string',
+          description: 'New name; an empty string clears it',
+        },
+        documentation: {
+          type: 'string',
+          description: 'New documentation',
+        },
+        access_type: {
+          type: 'string',
+          enum: ['Read', 'Write', 'ReadWrite'],
+          description: 'For Access relationships: type of access',
+        },
+        influence_modifier: {
+          type: 'string',
+          enum: ['++', '+', '0', '-', '--'],
+          description: 'For Influence relationships: strength modifier',
         },
+        model: modelArgument,
       },
-      required: ['output_path'],
+      required: ['relationship_id'],
     },
   },
+
   {
-    name: 'archimate_export_html_deck',
-    description: 'Export the model as an interactive HTML deck with tabs and search',
+    name: 'archimate_batch',
+    description: `Apply an ordered list of operations as one change: all of them or, if any fails, none. Operations: ${BatchOperationTypes.join(', ')}. Each takes the arguments of the tool it runs (create_element takes element_type, name, and the other arguments of the layer creation tools). An operation that creates an element, relationship, view, or diagram object can set temp_id; later operations can use it in any ..._id or ..._ids argument. Returns the generated ID for each temp ID. Undo the whole batch with one archimate_undo.`,
     inputSchema: {
       type: 'object',
       properties: {
-        output_path: {
+        operations: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            properties: {
+              op: {
+                type: 'string',
+                enum: [...BatchOperationTypes],
+                description: 'Operation to run',
+              },
+              temp_id: {
+                type: 'string',
+                description: 'Optional name for the ID the operation generates, for later operations to use',
+              },
+            },
+            required: ['op'],
+            additionalProperties: true,
+          },
+          description: 'Operations to apply in order, e.g. [{"op": "create_element", "temp_id": "crm", "element_type": "ApplicationComponent", "name": "CRM"}, {"op": "create_relationship", "relationship_type": "Serving", "source_id": "crm", "target_id": "id-..."}]',
+        },
+        model: modelArgument,
+      },
+      required: ['operations'],
+    },
+  },
+
+  // ---------------------------------------------------------------------------
+  // Folder Tools
+  // ---------------------------------------------------------------------------
+  {
+    name: 'archimate_list_folders',
+    description: 'List the folder tree with folder IDs and the number of elements, relationships, and views directly in each folder. With folder_id, list that folder\'s subtree and the concepts directly in it.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        folder_id: {
           type: 'string',
-          description: 'Path to save the HTML file',
+          description: 'Optional ID of the folder to list, with its contents',
         },
-        title: {
+        model: modelArgument,
+      },
+    },
+  },
+  {
+    name: 'archimate_create_folder',
+    description: 'Create a user folder in a top-level folder (a layer folder, Relations, or Views) or in one of its subfolders. Undo with archimate_undo.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        parent_folder_id: {
           type: 'string',
-          description: 'Title for the HTML deck (default: model name)',
+          description: 'ID of the folder to create it in',
         },
-        theme: {
+        name: {
           type: 'string',
-          enum: ['light', 'dark'],
-          description: 'Color theme (default: light)',
+          description: 'Name of the folder',
         },
-        include_search: {
-          type: 'boolean',
-          description: 'Include search functionality (default: true)',
+        model: modelArgument,
+      },
+      required: ['parent_folder_id', 'name'],
+    },
+  },
+  {
+    name: 'archimate_rename_folder',
+    description: 'Rename a user folder. Top-level folders cannot be renamed.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        folder_id: {
+          type: 'string',
+          description: 'ID of the folder to rename',
         },
-        embed_diagrams: {
+        name: {
+          type: 'string',
+          description: 'New name of the folder',
+        },
+        model: modelArgument,
+      },
+      required: ['folder_id', 'name'],
+    },
+  },
+  {
+    name: 'archimate_move_folder',
+    description: 'Move a user folder, with everything in it, into another folder under the same top-level folder.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        folder_id: {
+          type: 'string',
+          description: 'ID of the folder to move',
+        },
+        parent_folder_id: {
+          type: 'string',
+          description: 'ID of the folder to move it into',
+        },
+        model: modelArgument,
+      },
+      required: ['folder_id', 'parent_folder_id'],
+    },
+  },
+  {
+    name: 'archimate_delete_folder',
+    description: 'Delete a user folder. A folder that is not empty is refused unless move_contents_to_parent is set; its elements, relationships, views, and subfolders then move to its parent folder.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        folder_id: {
+          type: 'string',
+          description: 'ID of the folder to delete',
+        },
+        move_contents_to_parent: {
           type: 'boolean',
-          description: 'Embed SVG diagrams instead of Mermaid (default: true)',
+          description: 'Move the folder\'s contents to its parent folder instead of refusing a folder that is not empty (default: false)',
         },
+        model: modelArgument,
       },
-      required: ['output_path'],
+      required: ['folder_id'],
+    },
+  },
+  {
+    name: 'archimate_move_to_folder',
+    description: 'Move elements, relationships, and views into a folder. Each must go to a folder under the top-level folder for its kind: elements under their layer folder, relationships under Relations, views under Views. Nothing moves if any of them cannot.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        concept_ids: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'IDs of the elements, relationships, and views to move',
+        },
+        folder_id: {
+          type: 'string',
+          description: 'ID of the folder to move them into',
+        },
+        model: modelArgument,
+      },
+      required: ['concept_ids', 'folder_id'],
     },
   },
 
   // ---------------------------------------------------------------------------
-  // Audit Tools
+  // History Tools
   // ---------------------------------------------------------------------------
   {
-    name: 'archimate_configure_audit',
-    description: 'Configure audit logging for model operations',
+    name: 'archimate_undo',
+    description: 'Undo the most recent model change(s) made through this server (element, relationship, and view edits). Each open model keeps its own history, which starts empty when the model is opened, created, or imported.',
     inputSchema: {
       type: 'object',
       properties: {
-        enabled: {
-          type: 'boolean',
-          description: 'Enable or disable audit logging',
-        },
-        log_path: {
-          type: 'string',
-          description: 'Path to the audit log file',
+        steps: {
+          type: 'number',
+          description: 'Number of changes to undo (default: 1)',
         },
+        model: modelArgument,
       },
     },
   },
   {
-    name: 'archimate_get_audit_log',
-    description: 'Read recent entries from the audit log',
+    name: 'archimate_redo',
+    description: 'Redo change(s) previously reverted with archimate_undo. Any new change clears the redo history.',
     inputSchema: {
       type: 'object',
       properties: {
-        limit: {
+        steps: {
           type: 'number',
-          description: 'Maximum number of entries to return (default: 50)',
+          description: 'Number of changes to redo (default: 1)',
         },
+        model: modelArgument,
+      },
+    },
+  },
+  {
+    name: 'archimate_history',
+    description: 'List the changes that can be undone and redone, oldest first',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        model: modelArgument,
       },
     },
   },
-];
-
-// =============================================================================
-// Tool Handlers
-// =============================================================================
 
-async function handleToolCall(name: string, args: Record<string, unknown>): Promise<TextContent[]> {
-  switch (name) {
-    // -------------------------------------------------------------------------
-    // Model Management
-    // -------------------------------------------------------------------------
-    case 'archimate_open_model': {
-      const path = args.path as string;
-      currentModel = await parseModelComplete(path);
-      currentModelPath = path;
+  // ---------------------------------------------------------------------------
+  // Analysis Tools
+  // ---------------------------------------------------------------------------
+  {
+    name: 'archimate_layer_summary',
+    description: 'Get a summary of elements by layer',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        model: modelArgument,
+      },
+    },
+  },
+  {
+    name: 'archimate_impact_analysis',
+    description: 'Analyze dependencies and impact of an element',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        element_id: {
+          type: 'string',
+          description: 'ID of the element to analyze',
+        },
+        direction: {
+          type: 'string',
+          enum: ['incoming', 'outgoing', 'both'],
+          description: 'Direction of relationships to analyze',
+        },
+        depth: {
+          type: 'number',
+          description: 'How many levels deep to analyze (default: 2)',
+        },
+        model: modelArgument,
+      },
+      required: ['element_id'],
+    },
+  },
 
-      const elements = getAllElements(currentModel);
-      const layerCounts: Record<string, number> = {};
-      for (const elem of elements) {
-        const layer = getLayerForElementType(elem.type);
-        layerCounts[layer] = (layerCounts[layer] || 0) + 1;
-      }
+  {
+    name: 'archimate_validate_model',
+    description: 'Check the whole model for conformance problems: relationships not permitted by ArchiMate 3.2, junctions joining relationships of different types or invalid paths, relationships with missing endpoints, diagram objects pointing at deleted elements, diagram connections pointing at missing relationships, duplicate IDs, and elements stored in the wrong layer folder. Returns a structured report of issues with severity, rule, and offending IDs.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        severity: {
+          type: 'string',
+          enum: ['error', 'warning'],
+          description: 'Only report issues of this severity (default: all)',
+        },
+        model: modelArgument,
+      },
+    },
+  },
 
-      return [{
-        type: 'text',
+  {
+    name: 'archimate_diff_models',
+    description: 'Compare two models by ID and report added, removed, and changed elements, relationships, properties, and views, including moved and resized diagram objects. The base (before) is an open model or a saved coArchi repository; the other side defaults to the active model. Returns JSON and a Markdown change summary.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        base_model: {
+          type: 'string',
+          description: 'Handle of the open model to use as the base (before)',
+        },
+        base_path: {
+          type: 'string',
+          description: 'Path to a saved coArchi repository or model.archimate file to use as the base (before)',
+        },
+        path: {
+          type: 'string',
+          description: 'Path to a saved model to compare against the base instead of an open model',
+        },
+        format: {
+          type: 'string',
+          enum: ['json', 'markdown', 'both'],
+          description: 'Output format (default: both)',
+        },
+        model: modelArgument,
+      },
+    },
+  },
+
+  {
+    name: 'archimate_merge_models',
+    description: 'Three-way merge of two versions of a model that share a common base, matching folders, elements, relationships, views, diagram objects, and connections by ID. "Ours" is an open model (default: the active model). Reports real conflicts, such as the same element renamed differently on both sides or a relationship deleted on one side while its view connection was edited on the other; conflicts are resolved in favour of `prefer`. Optionally applies the result to the open model (undoable) or writes it to disk.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        base_model: {
+          type: 'string',
+          description: 'Handle of the open model to use as the common base',
+        },
+        base_path: {
+          type: 'string',
+          description: 'Path to a saved coArchi repository or model.archimate file to use as the common base',
+        },
+        theirs_model: {
+          type: 'string',
+          description: 'Handle of the open model holding their changes',
+        },
+        theirs_path: {
+          type: 'string',
+          description: 'Path to a saved coArchi repository or model.archimate file holding their changes',
+        },
+        prefer: {
+          type: 'string',
+          enum: ['ours', 'theirs'],
+          description: 'Side that wins a conflict (default: ours)',
+        },
+        apply: {
+          type: 'boolean',
+          description: 'Replace the content of "ours" with the merged model (default: false, report only)',
+        },
+        output_path: {
+          type: 'string',
+          description: 'Optional path to write the merged model to',
+        },
+        model: modelArgument,
+      },
+    },
+  },
+
+  // ---------------------------------------------------------------------------
+  // Git Tools
+  // ---------------------------------------------------------------------------
+  {
+    name: 'archimate_git_status',
+    description: 'Show the git status of the coArchi repository holding the model: current branch, HEAD commit, changed files, and whether model.archimate has uncommitted changes',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Path to the coArchi repository or model.archimate file (default: the open model\'s path)',
+        },
+        model: modelArgument,
+      },
+    },
+  },
+  {
+    name: 'archimate_git_log',
+    description: 'List the commits that changed model.archimate, newest first, each paired with a semantic diff of what the commit changed in the model',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: {
+          type: 'number',
+          description: 'Maximum number of commits to return (default: 10)',
+        },
+        ref: {
+          type: 'string',
+          description: 'Branch, tag, or commit to start from (default: HEAD)',
+        },
+        format: {
+          type: 'string',
+          enum: ['json', 'markdown'],
+          description: 'json lists change counts per commit; markdown lists every change (default: json)',
+        },
+        path: {
+          type: 'string',
+          description: 'Path to the coArchi repository or model.archimate file (default: the open model\'s path)',
+        },
+        model: modelArgument,
+      },
+    },
+  },
+  {
+    name: 'archimate_git_commit',
+    description: 'Save the open model to its repository and commit model.archimate with a message. Returns the new commit with a semantic diff of what it changed.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          description: 'Commit message',
+        },
+        save: {
+          type: 'boolean',
+          description: 'Save the open model before committing (default: true)',
+        },
+        model: modelArgument,
+      },
+      required: ['message'],
+    },
+  },
+  {
+    name: 'archimate_git_checkout',
+    description: 'Check out a branch, tag, or commit in the repository of the open model and reload the model from disk, clearing its undo history. Refused while the open model has unsaved changes, unless discard_changes is true.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ref: {
+          type: 'string',
+          description: 'Branch, tag, or commit to check out',
+        },
+        discard_changes: {
+          type: 'boolean',
+          description: 'Check out even though the open model has unsaved changes, dropping them (default: false)',
+        },
+        model: modelArgument,
+      },
+      required: ['ref'],
+    },
+  },
+  {
+    name: 'archimate_git_open_at_commit',
+    description: 'Open the model as it was at a branch, tag, or commit, without touching the working tree. The opened model becomes the active model but has no path to save to; compare it with archimate_diff_models or copy from it with archimate_copy_elements.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ref: {
+          type: 'string',
+          description: 'Branch, tag, or commit to read the model from',
+        },
+        handle: {
+          type: 'string',
+          description: 'Handle for the opened model (default: <handle>@<ref>)',
+        },
+        replace: {
+          type: 'boolean',
+          description: 'Replace a model already open under the same handle, dropping its unsaved changes and undo history (default: false)',
+        },
+        path: {
+          type: 'string',
+          description: 'Path to the coArchi repository or model.archimate file (default: the open model\'s path)',
+        },
+        model: modelArgument,
+      },
+      required: ['ref'],
+    },
+  },
+
+  // ---------------------------------------------------------------------------
+  // Exchange Format Tools
+  // ---------------------------------------------------------------------------
+  {
+    name: 'archimate_import_exchange',
+    description: 'Import an ArchiMate model from Open Exchange Format XML file and make it the active model',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Path to the .xml exchange file',
+        },
+        handle: {
+          type: 'string',
+          description: 'Handle to register the model under (default: derived from the path or model name)',
+        },
+        replace: {
+          type: 'boolean',
+          description: 'Replace a model already open under the same handle, dropping its unsaved changes and undo history (default: false)',
+        },
+      },
+      required: ['path'],
+    },
+  },
+  {
+    name: 'archimate_export_exchange',
+    description: 'Export the current model to ArchiMate Open Exchange Format XML',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Path to save the exchange XML file',
+        },
+        model: modelArgument,
+      },
+      required: ['path'],
+    },
+  },
+
+  // ---------------------------------------------------------------------------
+  // CSV Tools
+  // ---------------------------------------------------------------------------
+  {
+    name: 'archimate_import_csv',
+    description: 'Import elements, relationships, and properties into the current model from Archi CSV files (elements.csv, and optionally relations.csv and properties.csv). Rows with an existing ID update that element or relationship; rows with a new or empty ID create one. Types are Archi type names such as "BusinessActor" and "ServingRelationship". Every row is validated, including relationships against the ArchiMate 3.2 rules; if any row is invalid, nothing is imported and the errors are listed by file and row. The import can be undone.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        directory: {
+          type: 'string',
+          description: 'Directory containing the CSV files',
+        },
+        prefix: {
+          type: 'string',
+          description: 'Prefix of the file names, as set in Archi\'s CSV export (e.g. "crm-" for crm-elements.csv)',
+        },
+        model: modelArgument,
+      },
+      required: ['directory'],
+    },
+  },
+  {
+    name: 'archimate_export_csv',
+    description: 'Export the elements, relationships, and properties of the current model to Archi CSV files: elements.csv, relations.csv, and properties.csv. Views and folders are not exported.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        directory: {
+          type: 'string',
+          description: 'Directory to write the CSV files to (created if missing)',
+        },
+        prefix: {
+          type: 'string',
+          description: 'Prefix for the file names (e.g. "crm-" for crm-elements.csv)',
+        },
+        model: modelArgument,
+      },
+      required: ['directory'],
+    },
+  },
+
+  // ---------------------------------------------------------------------------
+  // Export Tools
+  // ---------------------------------------------------------------------------
+  {
+    name: 'archimate_export_mermaid',
+    description: 'Generate Mermaid diagram syntax from the model or a specific view',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        view_id: {
+          type: 'string',
+          description: 'Optional: ID of a specific view to export (exports full model if not specified)',
+        },
+        direction: {
+          type: 'string',
+          enum: ['TB', 'LR', 'BT', 'RL'],
+          description: 'Diagram direction (default: TB for top-to-bottom)',
+        },
+        include_labels: {
+          type: 'boolean',
+          description: 'Include relationship labels in diagram (default: false)',
+        },
+        layer_filter: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Filter to specific layers (e.g., ["Business", "Application"])',
+        },
+        model: modelArgument,
+      },
+    },
+  },
+  {
+    name: 'archimate_export_diagram',
+    description: 'Export a diagram view as SVG or PNG image',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        view_id: {
+          type: 'string',
+          description: 'ID of the view to export',
+        },
+        output_path: {
+          type: 'string',
+          description: 'Path to save the image file (use .svg or .png extension)',
+        },
+        format: {
+          type: 'string',
+          enum: ['svg', 'png'],
+          description: 'Output format (default: detected from file extension)',
+        },
+        width: {
+          type: 'number',
+          description: 'Image width in pixels (optional)',
+        },
+        height: {
+          type: 'number',
+          description: 'Image height in pixels (optional)',
+        },
+        background_color: {
+          type: 'string',
+          description: 'Background color (default: #ffffff)',
+        },
+        model: modelArgument,
+      },
+      required: ['view_id', 'output_path'],
+    },
+  },
+  {
+    name: 'archimate_export_markdown',
+    description: 'Export the model as Markdown documentation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        output_path: {
+          type: 'string',
+          description: 'Path to save the Markdown file',
+        },
+        include_views: {
+          type: 'boolean',
+          description: 'Include views section (default: true)',
+        },
+        include_diagrams: {
+          type: 'boolean',
+          description: 'Embed Mermaid diagrams in output (default: true)',
+        },
+        include_relationships: {
+          type: 'boolean',
+          description: 'Include relationship details for each element (default: true)',
+        },
+        include_properties: {
+          type: 'boolean',
+          description: 'Include element properties (default: false)',
+        },
+        model: modelArgument,
+      },
+      required: ['output_path'],
+    },
+  },
+  {
+    name: 'archimate_export_html_deck',
+    description: 'Export the model as an interactive HTML deck with tabs and search',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        output_path: {
+          type: 'string',
+          description: 'Path to save the HTML file',
+        },
+        title: {
+          type: 'string',
+          description: 'Title for the HTML deck (default: model name)',
+        },
+        theme: {
+          type: 'string',
+          enum: ['light', 'dark'],
+          description: 'Color theme (default: light)',
+        },
+        include_search: {
+          type: 'boolean',
+          description: 'Include search functionality (default: true)',
+        },
+        embed_diagrams: {
+          type: 'boolean',
+          description: 'Embed SVG diagrams instead of Mermaid (default: true)',
+        },
+        model: modelArgument,
+      },
+      required: ['output_path'],
+    },
+  },
+
+  // ---------------------------------------------------------------------------
+  // Audit Tools
+  // ---------------------------------------------------------------------------
+  {
+    name: 'archimate_configure_audit',
+    description: 'Configure audit logging for model operations',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        enabled: {
+          type: 'boolean',
+          description: 'Enable or disable audit logging',
+        },
+        log_path: {
+          type: 'string',
+          description: 'Path to the audit log file',
+        },
+      },
+    },
+  },
+  {
+    name: 'archimate_get_audit_log',
+    description: 'Read recent entries from the audit log',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: {
+          type: 'number',
+          description: 'Maximum number of entries to return (default: 50)',
+        },
+      },
+    },
+  },
+];
+
+// =============================================================================
+// Tool Handlers
+// =============================================================================
+
+/**
+ * The git repository for an explicit path, or else for the session's model path.
+ */
+async function resolveRepository(path: unknown, session: ModelSession | undefined): Promise<ModelRepository> {
+  const modelPath = (path as string | undefined) || session?.path;
+  if (!modelPath) {
+    throw new Error('No repository path: pass `path` or open a model from a coArchi repository');
+  }
+  return findModelRepository(modelPath);
+}
+
+function placementFromArgs(args: Record<string, unknown>): ObjectPlacement {
+  return {
+    parentObjectId: args.parent_object_id as string | undefined,
+    x: args.x as number | undefined,
+    y: args.y as number | undefined,
+    width: args.width as number | undefined,
+    height: args.height as number | undefined,
+    coordinates: args.coordinates as ObjectPlacement['coordinates'],
+  };
+}
+
+/** Response fields describing where a new diagram object was placed */
+function describePlacement(diagram: ArchiMateDiagram, obj: DiagramObject) {
+  const location = findDiagramObject(diagram, obj.id);
+  const origin = absoluteOrigin(location);
+  return {
+    diagramObject: obj,
+    parentObjectId: location?.parent?.id,
+    absoluteBounds: { ...obj.bounds, x: origin.x, y: origin.y },
+  };
+}
+
+/** Listing of an element, with its properties when it has any */
+function summarizeElement(element: ArchiMateElement) {
+  return {
+    id: element.id,
+    type: element.type,
+    name: element.name,
+    layer: getLayerForElementType(element.type),
+    ...(element.properties?.length ? { properties: element.properties } : {}),
+  };
+}
+
+/**
+ * A command that creates a concept and then moves it to the folder given as
+ * `folder_id`, if any, as one history entry. Check the folder with
+ * checkFolderTarget first.
+ */
+function createInFolder(command: ModelCommand, conceptId: string, folderId: unknown): ModelCommand {
+  if (!folderId) return command;
+  return compositeCommand(command.description, [
+    command,
+    editFoldersCommand(command.description, (model) => moveToFolder(model, [conceptId], folderId as string)),
+  ]);
+}
+
+/**
+ * Run a tool. `batchSession` is the scratch session an archimate_batch
+ * operation runs in, in place of the session the arguments name.
+ */
+async function handleToolCall(name: string, args: Record<string, unknown>, batchSession?: ModelSession): Promise<TextContent[]> {
+  const session: ModelSession | undefined = batchSession ?? (args.model
+    ? models.get(args.model as string)
+    : models.getActive());
+  if (args.model && !session) {
+    return [{ type: 'text', text: `Error: No open model with handle "${args.model}"` }];
+  }
+  const currentModel = session?.model ?? null;
+
+  switch (name) {
+    // -------------------------------------------------------------------------
+    // Model Management
+    // -------------------------------------------------------------------------
+    case 'archimate_open_model': {
+      const path = args.path as string;
+      const opened = models.open(await parseModelComplete(path), path, args.handle as string | undefined, { replace: args.replace === true });
+
+      const elements = getAllElements(opened.model);
+      const layerCounts: Record<string, number> = {};
+      for (const elem of elements) {
+        const layer = getLayerForElementType(elem.type);
+        layerCounts[layer] = (layerCounts[layer] || 0) + 1;
+      }
+
+      return [{
+        type: 'text',
+        text: JSON.stringify({
+          handle: opened.handle,
+          name: opened.model.name,
+          id: opened.model.id,
+          totalElements: elements.length,
+          relationships: opened.model.relationships.length,
+          diagrams: opened.model.diagrams.length,
+          elementsByLayer: layerCounts,
+        }, null, 2),
+      }];
+    }
+
+    case 'archimate_save_model': {
+      if (!currentModel) {
+        return [{ type: 'text', text: 'Error: No model is currently open' }];
+      }
+      const savePath = (args.path as string) || session?.path;
+      if (!savePath) {
+        return [{ type: 'text', text: 'Error: No save path specified' }];
+      }
+      await writeModel(currentModel, savePath);
+      if (savePath === session?.path) {
+        session.history.markSaved();
+      }
+      return [{ type: 'text', text: `Model saved to ${savePath}` }];
+    }
+
+    case 'archimate_create_model': {
+      const name = args.name as string;
+      const path = args.path as string;
+      const id = generateId();
+      const created = models.open(createEmptyModel(name, id), path, args.handle as string | undefined, { replace: args.replace === true });
+      await writeModel(created.model, path);
+      return [{
+        type: 'text',
+        text: JSON.stringify({
+          message: 'Model created successfully',
+          handle: created.handle,
+          name,
+          id,
+          path,
+        }, null, 2),
+      }];
+    }
+
+    case 'archimate_list_models': {
+      return [{
+        type: 'text',
+        text: JSON.stringify(models.list(), null, 2),
+      }];
+    }
+
+    case 'archimate_switch_model': {
+      const switched = models.switchTo(args.model as string);
+      if (!switched) {
+        return [{ type: 'text', text: `Error: No open model with handle "${args.model}"` }];
+      }
+      return [{
+        type: 'text',
+        text: JSON.stringify({
+          message: 'Active model switched',
+          handle: switched.handle,
+          name: switched.model.name,
+        }, null, 2),
+      }];
+    }
+
+    case 'archimate_copy_elements': {
+      if (!currentModel) {
+        return [{ type: 'text', text: 'Error: No model is currently open' }];
+      }
+
+      const target = models.get(args.target_model as string);
+      if (!target) {
+        return [{ type: 'text', text: `Error: No open model with handle "${args.target_model}"` }];
+      }
+      if (target === session) {
+        return [{ type: 'text', text: 'Error: Source and target model are the same' }];
+      }
+
+      const plan = planElementCopy(
+        currentModel,
+        target.model,
+        args.element_ids as string[],
+        args.include_relationships !== false
+      );
+
+      if (plan.elements.length > 0) {
+        target.history.execute(target.model, compositeCommand(
+          `Copy ${plan.elements.length} element(s) from "${session!.handle}"`,
+          [
+            ...plan.elements.map((e) => addElementCommand(e)),
+            ...plan.relationships.map((r) => addRelationshipCommand(r)),
+          ]
+        ));
+      }
+
+      return [{
+        type: 'text',
+        text: JSON.stringify({
+          message: `Copied ${plan.elements.length} element(s) and ${plan.relationships.length} relationship(s) to "${target.handle}"`,
+          copiedElements: plan.elements.map((e) => ({ id: e.id, type: e.type, name: e.name })),
+          copiedRelationships: plan.relationships.map((r) => ({ id: r.id, type: r.type, sourceId: r.sourceId, targetId: r.targetId })),
+          skipped: plan.skipped,
+        }, null, 2),
+      }];
+    }
+
+    // -------------------------------------------------------------------------
+    // Navigation
+    // -------------------------------------------------------------------------
+    case 'archimate_list_elements': {
+      if (!currentModel) {
+        return [{ type: 'text', text: 'Error: No model is currently open' }];
+      }
+
+      let elements = getAllElements(currentModel);
+
+      if (args.layer) {
+        elements = elements.filter(e => getLayerForElementType(e.type) === args.layer);
+      }
+
+      if (args.element_type) {
+        elements = elements.filter(e => e.type === args.element_type);
+      }
+
+      if (args.properties) {
+        const filters = (args.properties as string[]).map(parsePropertyFilter);
+        elements = elements.filter(e => matchesPropertyFilters(e.properties, filters));
+      }
+
+      return [{
+        type: 'text',
+        text: JSON.stringify(elements.map(summarizeElement), null, 2),
+      }];
+    }
+
+    case 'archimate_get_element': {
+      if (!currentModel) {
+        return [{ type: 'text', text: 'Error: No model is currently open' }];
+      }
+
+      const element = getElementById(currentModel, args.element_id as string);
+      if (!element) {
+        return [{ type: 'text', text: `Error: Element not found: ${args.element_id}` }];
+      }
+
+      const relationships = getRelationshipsForElement(currentModel, element.id);
+      const relatedElements: Array<{ direction: string; relationship: string; elementId: string; elementName: string; elementType: string }> = [];
+
+      for (const rel of relationships) {
+        const isSource = rel.sourceId === element.id;
+        const otherId = isSource ? rel.targetId : rel.sourceId;
+        const other = getRelationshipEnd(currentModel, otherId);
+        relatedElements.push({
+          direction: isSource ? 'outgoing' : 'incoming',
+          relationship: rel.type,
+          elementId: otherId,
+          elementName: other?.name || 'Unknown',
+          elementType: other?.type || 'Unknown',
+        });
+      }
+
+      return [{
+        type: 'text',
+        text: JSON.stringify({
+          ...element,
+          layer: getLayerForElementType(element.type),
+          description: ElementDescriptions[element.type],
+          relationships: relatedElements,
+        }, null, 2),
+      }];
+    }
+
+    case 'archimate_find_elements': {
+      if (!currentModel) {
+        return [{ type: 'text', text: 'Error: No model is currently open' }];
+      }
+
+      let elements = findElementsByName(currentModel, args.pattern as string);
+
+      if (args.layer) {
+        elements = elements.filter(e => getLayerForElementType(e.type) === args.layer);
+      }
+
+      if (args.properties) {
+        const filters = (args.properties as string[]).map(parsePropertyFilter);
+        elements = elements.filter(e => matchesPropertyFilters(e.properties, filters));
+      }
+
+      return [{
+        type: 'text',
+        text: JSON.stringify(elements.map(summarizeElement), null, 2),
+      }];
+    }
+
+    case 'archimate_query': {
+      if (!currentModel) {
+        return [{ type: 'text', text: 'Error: No model is currently open' }];
+      }
+
+      const result = runQuery(currentModel, parseQuery(args.query as string));
+
+      return [{
+        type: 'text',
+        text: JSON.stringify(result, null, 2),
+      }];
+    }
+
+    // -------------------------------------------------------------------------
+    // Element Creation
+    // -------------------------------------------------------------------------
+    case 'archimate_create_motivation_element':
+    case 'archimate_create_strategy_element':
+    case 'archimate_create_business_element':
+    case 'archimate_create_application_element':
+    case 'archimate_create_technology_element':
+    case 'archimate_create_implementation_element':
+    case 'archimate_create_composite_element': {
+      if (!currentModel) {
+        return [{ type: 'text', text: 'Error: No model is currently open' }];
+      }
+
+      const element: ArchiMateElement = {
+        id: generateId(),
+        type: args.element_type as ElementType,
+        name: args.name as string,
+        documentation: args.documentation as string | undefined,
+      };
+
+      const folderProblem = args.folder_id
+        ? checkFolderTarget(currentModel, args.folder_id as string, getFolderTypeForElement(element.type), `a ${element.type}`)
+        : undefined;
+      if (folderProblem) {
+        return [{ type: 'text', text: `Error: ${folderProblem}` }];
+      }
+
+      session!.history.execute(currentModel, createInFolder(addElementCommand(element), element.id, args.folder_id));
+
+      return [{
+        type: 'text',
+        text: JSON.stringify({
+          message: 'Element created successfully',
+          element: {
+            ...element,
+            layer: getLayerForElementType(element.type),
+          },
+        }, null, 2),
+      }];
+    }
+
+    case 'archimate_create_junction': {
+      if (!currentModel) {
+        return [{ type: 'text', text: 'Error: No model is currently open' }];
+      }
+
+      const element: ArchiMateElement = {
+        id: generateId(),
+        type: 'Junction',
+        name: (args.name as string | undefined) ?? '',
+        documentation: args.documentation as string | undefined,
+        junctionType: (args.junction_type as JunctionType | undefined) ?? 'and',
+      };
+
+      const folderProblem = args.folder_id
+        ? checkFolderTarget(currentModel, args.folder_id as string, getFolderTypeForElement('Junction'), 'a Junction')
+        : undefined;
+      if (folderProblem) {
+        return [{ type: 'text', text: `Error: ${folderProblem}` }];
+      }
+
+      session!.history.execute(currentModel, createInFolder(addElementCommand(element), element.id, args.folder_id));
+
+      return [{
+        type: 'text',
+        text: JSON.stringify({
+          message: 'Junction created successfully',
+          element,
+        }, null, 2),
+      }];
+    }
+
+    // -------------------------------------------------------------------------
+    // Relationships
+    // -------------------------------------------------------------------------
+    case 'archimate_create_relationship': {
+      if (!currentModel) {
+        return [{ type: 'text', text: 'Error: No model is currently open' }];
+      }
+
+      const source = getRelationshipEnd(currentModel, args.source_id as string);
+      const target = getRelationshipEnd(currentModel, args.target_id as string);
+
+      if (!source) {
+        return [{ type: 'text', text: `Error: Source element or relationship not found: ${args.source_id}` }];
+      }
+      if (!target) {
+        return [{ type: 'text', text: `Error: Target element or relationship not found: ${args.target_id}` }];
+      }
+
+      const relType = args.relationship_type as RelationshipType;
+      const validation = validateRelationship(source.type, target.type, relType);
+
+      if (!validation.valid) {
+        return [{
+          type: 'text',
+          text: JSON.stringify({
+            error: validation.error,
+            suggestions: validation.suggestions,
+            guidance: getRelationshipGuidance(source.type, target.type),
+          }, null, 2),
+        }];
+      }
+
+      const relationship: ArchiMateRelationship = {
+        id: generateId(),
+        type: relType,
+        sourceId: args.source_id as string,
+        targetId: args.target_id as string,
+        name: args.name as string | undefined,
+        accessType: args.access_type as AccessType | undefined,
+        influenceModifier: args.influence_modifier as InfluenceModifier | undefined,
+      };
+
+      const junctionProblem = checkJunctionRelationship(currentModel, relationship);
+      if (junctionProblem) {
+        return [{ type: 'text', text: `Error: ${junctionProblem}` }];
+      }
+      const folderProblem = args.folder_id
+        ? checkFolderTarget(currentModel, args.folder_id as string, 'relations', 'a relationship')
+        : undefined;
+      if (folderProblem) {
+        return [{ type: 'text', text: `Error: ${folderProblem}` }];
+      }
+
+      session!.history.execute(currentModel, createInFolder(addRelationshipCommand(relationship), relationship.id, args.folder_id));
+
+      return [{
+        type: 'text',
+        text: JSON.stringify({
+          message: 'Relationship created successfully',
+          relationship: {
+            ...relationship,
+            sourceName: source.name,
+            targetName: target.name,
+          },
+        }, null, 2),
+      }];
+    }
+
+    case 'archimate_list_relationships': {
+      if (!currentModel) {
+        return [{ type: 'text', text: 'Error: No model is currently open' }];
+      }
+
+      let relationships = currentModel.relationships;
+
+      if (args.element_id) {
+        const direction = (args.direction as string) || 'both';
+        relationships = getRelationshipsForElement(currentModel, args.element_id as string, direction as 'incoming' | 'outgoing' | 'both');
+      }
+
+      if (args.relationship_type) {
+        relationships = relationships.filter(r => r.type === args.relationship_type);
+      }
+
+      return [{
+        type: 'text',
+        text: JSON.stringify(relationships.map(r => {
+          const source = getRelationshipEnd(currentModel!, r.sourceId);
+          const target = getRelationshipEnd(currentModel!, r.targetId);
+          return {
+            id: r.id,
+            type: r.type,
+            sourceId: r.sourceId,
+            sourceName: source?.name || 'Unknown',
+            ...(source?.type === 'Relationship' ? { sourceIsRelationship: true } : {}),
+            targetId: r.targetId,
+            targetName: target?.name || 'Unknown',
+            ...(target?.type === 'Relationship' ? { targetIsRelationship: true } : {}),
+            name: r.name,
+          };
+        }), null, 2),
+      }];
+    }
+
+    case 'archimate_get_valid_relationships': {
+      const sourceType = args.source_type as ElementType;
+      const targetType = args.target_type as ElementType | undefined;
+
+      if (targetType) {
+        const validTypes = getValidRelationshipTypes(sourceType, targetType);
+        return [{
+          type: 'text',
+          text: JSON.stringify({
+            sourceType,
+            targetType,
+            validRelationships: validTypes.map(t => ({
+              type: t,
+              description: RelationshipDescriptions[t],
+            })),
+            guidance: getRelationshipGuidance(sourceType, targetType),
+          }, null, 2),
+        }];
+      } else {
+        return [{
+          type: 'text',
+          text: JSON.stringify({
+            sourceType,
+            validTargets: getValidRelationshipsFromSource(sourceType),
+            guidance: getRelationshipGuidance(sourceType),
+          }, null, 2),
+        }];
+      }
+    }
+
+    // -------------------------------------------------------------------------
+    // Views
+    // -------------------------------------------------------------------------
+    case 'archimate_list_views': {
+      if (!currentModel) {
+        return [{ type: 'text', text: 'Error: No model is currently open' }];
+      }
+
+      return [{
+        type: 'text',
+        text: JSON.stringify(currentModel.diagrams.map(d => ({
+          id: d.id,
+          name: d.name,
+          viewpoint: d.viewpoint,
+          objectCount: allDiagramObjects(d.objects).length,
+        })), null, 2),
+      }];
+    }
+
+    case 'archimate_create_view': {
+      if (!currentModel) {
+        return [{ type: 'text', text: 'Error: No model is currently open' }];
+      }
+
+      const viewpoint = args.viewpoint ? resolveViewpoint(args.viewpoint as string) : undefined;
+      const diagram: ArchiMateDiagram = {
+        id: generateId(),
+        name: args.name as string,
+        viewpoint: viewpoint?.id,
+        objects: [],
+      };
+
+      const folderProblem = args.folder_id
+        ? checkFolderTarget(currentModel, args.folder_id as string, 'diagrams', 'a view')
+        : undefined;
+      if (folderProblem) {
+        return [{ type: 'text', text: `Error: ${folderProblem}` }];
+      }
+
+      session!.history.execute(currentModel, createInFolder(addDiagramCommand(diagram), diagram.id, args.folder_id));
+
+      return [{
+        type: 'text',
         text: JSON.stringify({
-          name: currentModel.name,
-          id: currentModel.id,
-          totalElements: elements.length,
-          relationships: currentModel.relationships.length,
-          diagrams: currentModel.diagrams.length,
-          elementsByLayer: layerCounts,
+          message: 'View created successfully',
+          view: diagram,
         }, null, 2),
       }];
     }
 
-    case 'archimate_save_model': {
+    case 'archimate_add_to_view': {
       if (!currentModel) {
         return [{ type: 'text', text: 'Error: No model is currently open' }];
       }
-      const savePath = (args.path as string) || currentModelPath;
-      if (!savePath) {
-        return [{ type: 'text', text: 'Error: No save path specified' }];
+
+      const diagram = currentModel.diagrams.find(d => d.id === args.view_id);
+      if (!diagram) {
+        return [{ type: 'text', text: `Error: View not found: ${args.view_id}` }];
       }
-      await writeModel(currentModel, savePath);
-      return [{ type: 'text', text: `Model saved to ${savePath}` }];
+
+      const element = getElementById(currentModel, args.element_id as string);
+      if (!element) {
+        return [{ type: 'text', text: `Error: Element not found: ${args.element_id}` }];
+      }
+
+      const viewpointWarning = checkViewpoint(diagram, element.type);
+      if (viewpointWarning && args.allow_outside_viewpoint !== true) {
+        return [{ type: 'text', text: `Error: ${viewpointWarning}. Set allow_outside_viewpoint to add it anyway` }];
+      }
+
+      const placement = placementFromArgs(args);
+      const diagObj: DiagramObject = {
+        id: generateId(),
+        elementId: args.element_id as string,
+        bounds: resolvePlacement(diagram, placement, defaultObjectSize(element.type)),
+      };
+
+      const autoConnect = args.auto_connect !== false;
+      let connections: DiagramConnection[] = [];
+      session!.history.execute(currentModel, editDiagramCommand(diagram.id, `Add "${element.name}" to view "${diagram.name}"`, (d) => {
+        insertDiagramObject(d, diagObj, placement.parentObjectId);
+        connections = autoConnect ? autoConnectDiagramObject(currentModel!, d, diagObj) : [];
+      }));
+
+      const autoConnected = connections.map((conn) => {
+        const rel = currentModel!.relationships.find((r) => r.id === conn.relationshipId);
+        return {
+          connectionId: conn.id,
+          relationshipId: conn.relationshipId,
+          relationshipType: rel?.type,
+          sourceDiagramObjectId: conn.sourceId,
+          targetDiagramObjectId: conn.targetId,
+        };
+      });
+
+      return [{
+        type: 'text',
+        text: JSON.stringify({
+          message: 'Element added to view',
+          ...describePlacement(diagram, diagObj),
+          elementName: element.name,
+          autoConnectedRelationships: autoConnected,
+          ...(viewpointWarning ? { viewpointWarning } : {}),
+        }, null, 2),
+      }];
     }
 
-    case 'archimate_create_model': {
-      const name = args.name as string;
-      const path = args.path as string;
-      const id = generateId();
-      currentModel = createEmptyModel(name, id);
-      currentModelPath = path;
-      await writeModel(currentModel, path);
+    case 'archimate_add_connection_to_view': {
+      if (!currentModel) {
+        return [{ type: 'text', text: 'Error: No model is currently open' }];
+      }
+
+      const diagram = currentModel.diagrams.find(d => d.id === args.view_id);
+      if (!diagram) {
+        return [{ type: 'text', text: `Error: View not found: ${args.view_id}` }];
+      }
+
+      const relationshipId = args.relationship_id as string;
+      const relationship = currentModel.relationships.find(r => r.id === relationshipId);
+      if (!relationship) {
+        return [{ type: 'text', text: `Error: Relationship not found: ${relationshipId}` }];
+      }
+
+      const sourceDiagObjId = args.source_diagram_object_id as string;
+      const targetDiagObjId = args.target_diagram_object_id as string;
+
+      const sourceDiagObj = findConnectable(diagram, sourceDiagObjId);
+      const targetDiagObj = findConnectable(diagram, targetDiagObjId);
+
+      if (!sourceDiagObj) {
+        return [{ type: 'text', text: `Error: Source diagram object not found: ${sourceDiagObjId}` }];
+      }
+      if (!targetDiagObj) {
+        return [{ type: 'text', text: `Error: Target diagram object not found: ${targetDiagObjId}` }];
+      }
+
+      // Create the connection
+      const connectionId = generateId();
+      const connection: DiagramConnection = {
+        id: connectionId,
+        sourceId: sourceDiagObjId,
+        targetId: targetDiagObjId,
+        relationshipId: relationshipId,
+      };
+
+      session!.history.execute(currentModel, editDiagramCommand(diagram.id, `Add ${relationship.type} connection to view "${diagram.name}"`, () => {
+        attachConnection(sourceDiagObj, targetDiagObj, connection);
+      }));
+
       return [{
         type: 'text',
         text: JSON.stringify({
-          message: 'Model created successfully',
-          name,
-          id,
-          path,
+          message: 'Connection added to view',
+          connection: {
+            id: connectionId,
+            relationshipId: relationshipId,
+            relationshipType: relationship.type,
+            sourceDiagramObjectId: sourceDiagObjId,
+            targetDiagramObjectId: targetDiagObjId,
+          },
+        }, null, 2),
+      }];
+    }
+
+    case 'archimate_add_note_to_view':
+    case 'archimate_add_group_to_view':
+    case 'archimate_add_view_reference': {
+      if (!currentModel) {
+        return [{ type: 'text', text: 'Error: No model is currently open' }];
+      }
+
+      const diagram = currentModel.diagrams.find(d => d.id === args.view_id);
+      if (!diagram) {
+        return [{ type: 'text', text: `Error: View not found: ${args.view_id}` }];
+      }
+
+      const placement = placementFromArgs(args);
+      let diagObj: DiagramObject;
+      let description: string;
+      if (name === 'archimate_add_note_to_view') {
+        diagObj = {
+          id: generateId(),
+          objectType: 'Note',
+          elementId: '',
+          content: args.text as string,
+          bounds: resolvePlacement(diagram, placement, { width: 185, height: 80 }),
+        };
+        description = `Add note to view "${diagram.name}"`;
+      } else if (name === 'archimate_add_group_to_view') {
+        diagObj = {
+          id: generateId(),
+          objectType: 'Group',
+          elementId: '',
+          name: args.name as string,
+          bounds: resolvePlacement(diagram, placement, { width: 400, height: 140 }),
+        };
+        description = `Add group "${args.name}" to view "${diagram.name}"`;
+      } else {
+        const referenced = currentModel.diagrams.find(d => d.id === args.referenced_view_id);
+        if (!referenced) {
+          return [{ type: 'text', text: `Error: Referenced view not found: ${args.referenced_view_id}` }];
+        }
+        diagObj = {
+          id: generateId(),
+          objectType: 'DiagramModelReference',
+          elementId: '',
+          diagramId: referenced.id,
+          bounds: resolvePlacement(diagram, placement, { width: 120, height: 55 }),
+        };
+        description = `Add reference to view "${referenced.name}" to view "${diagram.name}"`;
+      }
+
+      session!.history.execute(currentModel, editDiagramCommand(diagram.id, description, (d) => {
+        insertDiagramObject(d, diagObj, placement.parentObjectId);
+      }));
+
+      return [{
+        type: 'text',
+        text: JSON.stringify({
+          message: `${diagObj.objectType === 'DiagramModelReference' ? 'View reference' : diagObj.objectType} added to view`,
+          ...describePlacement(diagram, diagObj),
+        }, null, 2),
+      }];
+    }
+
+    case 'archimate_style_view_object': {
+      if (!currentModel) {
+        return [{ type: 'text', text: 'Error: No model is currently open' }];
+      }
+
+      const diagram = currentModel.diagrams.find(d => d.id === args.view_id);
+      if (!diagram) {
+        return [{ type: 'text', text: `Error: View not found: ${args.view_id}` }];
+      }
+
+      const objectId = args.object_id as string;
+      const isConnection = !findDiagramObject(diagram, objectId);
+      if (isConnection && !findDiagramConnection(diagram, objectId)) {
+        return [{ type: 'text', text: `Error: Diagram object or connection not found in view: ${objectId}` }];
+      }
+
+      const changes: StyleChanges = {
+        fillColor: args.fill_color as string | undefined,
+        lineColor: args.line_color as string | undefined,
+        fontColor: args.font_color as string | undefined,
+        fontName: args.font_name as string | undefined,
+        fontSize: args.font_size as number | undefined,
+        bold: args.bold as boolean | undefined,
+        italic: args.italic as boolean | undefined,
+        textAlignment: args.text_alignment as StyleChanges['textAlignment'],
+        textPosition: args.text_position as StyleChanges['textPosition'],
+      };
+      const findTarget = (d: ArchiMateDiagram) => findDiagramObject(d, objectId)?.object ?? findDiagramConnection(d, objectId)!;
+
+      session!.history.execute(currentModel, editDiagramCommand(diagram.id, `Style ${isConnection ? 'connection' : 'diagram object'} ${objectId} in view "${diagram.name}"`, (d) => {
+        applyStyle(findTarget(d), changes, isConnection);
+      }));
+
+      return [{
+        type: 'text',
+        text: JSON.stringify({
+          message: 'Style updated',
+          objectId,
+          style: styleOf(findTarget(diagram)),
+        }, null, 2),
+      }];
+    }
+
+    case 'archimate_layout_view': {
+      if (!currentModel) {
+        return [{ type: 'text', text: 'Error: No model is currently open' }];
+      }
+
+      const diagram = currentModel.diagrams.find(d => d.id === args.view_id);
+      if (!diagram) {
+        return [{ type: 'text', text: `Error: View not found: ${args.view_id}` }];
+      }
+
+      const mode = (args.mode as LayoutMode | undefined) ?? 'layered';
+      if (!LAYOUT_MODES.includes(mode)) {
+        return [{ type: 'text', text: `Error: Unknown layout mode: ${mode}. Use one of: ${LAYOUT_MODES.join(', ')}` }];
+      }
+
+      let result: ReturnType<typeof layoutView> | undefined;
+      session!.history.execute(currentModel, editDiagramCommand(diagram.id, `Lay out view "${diagram.name}" (${mode})`, (d) => {
+        result = layoutView(currentModel!, d, {
+          mode,
+          objectIds: args.object_ids as string[] | undefined,
+          pinnedObjectIds: args.pinned_object_ids as string[] | undefined,
+          horizontalSpacing: args.horizontal_spacing as number | undefined,
+          verticalSpacing: args.vertical_spacing as number | undefined,
+        });
+      }));
+
+      return [{
+        type: 'text',
+        text: JSON.stringify({
+          message: `Laid out ${result!.movedObjectIds.length} object(s) in view "${diagram.name}"`,
+          mode,
+          ...result,
+        }, null, 2),
+      }];
+    }
+
+    case 'archimate_generate_view': {
+      if (!currentModel) {
+        return [{ type: 'text', text: 'Error: No model is currently open' }];
+      }
+
+      const layoutMode = args.layout_mode as LayoutMode | undefined;
+      if (layoutMode !== undefined && !LAYOUT_MODES.includes(layoutMode)) {
+        return [{ type: 'text', text: `Error: Unknown layout mode: ${layoutMode}. Use one of: ${LAYOUT_MODES.join(', ')}` }];
+      }
+
+      const generated = generateView(currentModel, {
+        name: args.name as string,
+        viewpoint: args.viewpoint as string | undefined,
+        rootElementId: args.root_element_id as string | undefined,
+        depth: args.depth as number | undefined,
+        direction: args.direction as 'incoming' | 'outgoing' | 'both' | undefined,
+        relationshipTypes: args.relationship_types as RelationshipType[] | undefined,
+        elementIds: args.element_ids as string[] | undefined,
+        layers: args.layers as Layer[] | undefined,
+        elementTypes: args.element_types as ElementType[] | undefined,
+        layoutMode,
+        maxElements: args.max_elements as number | undefined,
+      });
+
+      session!.history.execute(currentModel, addDiagramCommand(generated.diagram));
+
+      return [{
+        type: 'text',
+        text: JSON.stringify({
+          message: `View "${generated.diagram.name}" generated with ${generated.elementIds.length} element(s) and ${generated.connectionCount} connection(s)`,
+          viewId: generated.diagram.id,
+          elementIds: generated.elementIds,
+          connectionCount: generated.connectionCount,
+          crossings: generated.layout.crossings,
+        }, null, 2),
+      }];
+    }
+
+    // -------------------------------------------------------------------------
+    // Modification
+    // -------------------------------------------------------------------------
+    case 'archimate_update_element': {
+      if (!currentModel) {
+        return [{ type: 'text', text: 'Error: No model is currently open' }];
+      }
+
+      const elementId = args.element_id as string;
+      if (!getElementById(currentModel, elementId)) {
+        return [{ type: 'text', text: `Error: Element not found: ${elementId}` }];
+      }
+      const updates: Partial<Pick<ArchiMateElement, 'name' | 'documentation'>> = {};
+
+      if (args.name) updates.name = args.name as string;
+      if (args.documentation !== undefined) updates.documentation = args.documentation as string;
+
+      session!.history.execute(currentModel, updateElementCommand(elementId, updates));
+
+      const updated = getElementById(currentModel, elementId);
+      return [{
+        type: 'text',
+        text: JSON.stringify({
+          message: 'Element updated successfully',
+          element: updated,
+        }, null, 2),
+      }];
+    }
+
+    case 'archimate_change_element_type': {
+      if (!currentModel) {
+        return [{ type: 'text', text: 'Error: No model is currently open' }];
+      }
+
+      const element = getElementById(currentModel, args.element_id as string);
+      if (!element) {
+        return [{ type: 'text', text: `Error: Element not found: ${args.element_id}` }];
+      }
+      const type = args.element_type as ElementType;
+      if (!AllElementTypes.includes(type)) {
+        return [{ type: 'text', text: `Error: Unknown element type: ${type}` }];
+      }
+      if (element.type === 'Junction' || type === 'Junction') {
+        return [{ type: 'text', text: 'Error: Junctions cannot change type; create a junction with archimate_create_junction instead' }];
+      }
+      if (element.type === type) {
+        return [{ type: 'text', text: `Error: Element "${element.name}" is already a ${type}` }];
+      }
+
+      const previousType = element.type;
+      const mode = (args.invalid_relationships as 'report' | 'convert' | 'remove' | undefined) ?? 'report';
+      const invalidated = checkElementTypeChange(currentModel, element.id, type);
+      if (invalidated.length > 0 && mode === 'report') {
+        return [{
+          type: 'text',
+          text: JSON.stringify({
+            error: `Changing "${element.name}" from ${previousType} to ${type} would make ${invalidated.length} relationship(s) invalid`,
+            invalidRelationships: invalidated.map(i => ({
+              id: i.relationship.id,
+              type: i.relationship.type,
+              sourceId: i.source.id,
+              sourceName: i.source.name,
+              targetId: i.target.id,
+              targetName: i.target.name,
+              validTypes: i.validTypes,
+            })),
+            guidance: 'Pass invalid_relationships: "convert" to turn them into Associations, or "remove" to delete them; or change them first with archimate_update_relationship',
+          }, null, 2),
+        }];
+      }
+
+      const folderType = getFolderTypeForElement(type);
+      const changesFolder = folderType !== getFolderTypeForElement(previousType);
+      const folder = changesFolder ? currentModel.folders.find(f => f.type === folderType) : undefined;
+      if (changesFolder && !folder) {
+        return [{ type: 'text', text: `Error: The model has no top-level folder for ${type} elements` }];
+      }
+
+      const converted = mode === 'convert' ? invalidated.filter(i => i.convertTo) : [];
+      // Removing a relationship removes the relationships on it too
+      const removed = new Set<string>();
+      const removals: ArchiMateRelationship[] = [];
+      for (const { relationship } of invalidated.filter(i => !converted.includes(i))) {
+        if (removed.has(relationship.id)) continue;
+        removals.push(relationship);
+        for (const r of [relationship, ...getAttachedRelationships(currentModel, [relationship.id])]) removed.add(r.id);
+      }
+
+      const conversions = converted.map(i => ({ id: i.relationship.id, previousType: i.relationship.type, type: i.convertTo! }));
+
+      const description = `Change type of "${element.name}" from ${previousType} to ${type}`;
+      session!.history.execute(currentModel, compositeCommand(description, [
+        ...conversions.map(c => updateRelationshipCommand(c.id, { type: c.type })),
+        ...removals.map(r => removeRelationshipCommand(r)),
+        changeElementTypeCommand(element.id, type),
+        ...(folder ? [editFoldersCommand(description, (model) => moveToFolder(model, [element.id], folder.id))] : []),
+      ]));
+
+      const viewpointWarnings = currentModel.diagrams
+        .filter(d => allDiagramObjects(d.objects).some(o => o.elementId === element.id))
+        .map(d => checkViewpoint(d, type))
+        .filter((warning): warning is string => warning !== undefined);
+
+      return [{
+        type: 'text',
+        text: JSON.stringify({
+          message: 'Element type changed successfully',
+          element: {
+            ...element,
+            layer: getLayerForElementType(element.type),
+          },
+          previousType,
+          ...(folder ? { movedToFolder: { id: folder.id, name: folder.name } } : {}),
+          convertedRelationships: conversions,
+          removedRelationships: [...removed],
+          ...(viewpointWarnings.length > 0 ? { viewpointWarnings } : {}),
         }, null, 2),
       }];
     }
 
-    // -------------------------------------------------------------------------
-    // Navigation
-    // -------------------------------------------------------------------------
-    case 'archimate_list_elements': {
+    case 'archimate_merge_elements': {
       if (!currentModel) {
         return [{ type: 'text', text: 'Error: No model is currently open' }];
       }
 
-      let elements = getAllElements(currentModel);
-
-      if (args.layer) {
-        elements = elements.filter(e => getLayerForElementType(e.type) === args.layer);
+      const survivor = getElementById(currentModel, args.survivor_id as string);
+      if (!survivor) {
+        return [{ type: 'text', text: `Error: Element not found: ${args.survivor_id}` }];
       }
 
-      if (args.element_type) {
-        elements = elements.filter(e => e.type === args.element_type);
-      }
+      let result: MergeElementsResult | undefined;
+      session!.history.execute(currentModel, editModelCommand(
+        `Merge ${(args.element_ids as string[]).length} element(s) into "${survivor.name}"`,
+        (model) => {
+          result = mergeElementsInModel(model, survivor.id, args.element_ids as string[], {
+            properties: args.properties as MergeElementsOptions['properties'],
+            documentation: args.documentation as MergeElementsOptions['documentation'],
+          });
+        }
+      ));
 
       return [{
         type: 'text',
-        text: JSON.stringify(elements.map(e => ({
-          id: e.id,
-          type: e.type,
-          name: e.name,
-          layer: getLayerForElementType(e.type),
-        })), null, 2),
+        text: JSON.stringify({
+          message: `Merged ${result!.merged.length} element(s) into "${result!.survivor.name}"`,
+          survivor: {
+            ...summarizeElement(result!.survivor),
+            documentation: result!.survivor.documentation,
+          },
+          mergedElements: result!.merged.map(e => ({ id: e.id, type: e.type, name: e.name })),
+          repointedRelationships: result!.repointedRelationships,
+          duplicateRelationships: result!.duplicateRelationships,
+          removedRelationships: result!.removedRelationships,
+          repointedDiagramObjects: result!.repointedDiagramObjects,
+        }, null, 2),
       }];
     }
 
-    case 'archimate_get_element': {
+    case 'archimate_set_properties':
+    case 'archimate_remove_properties': {
       if (!currentModel) {
         return [{ type: 'text', text: 'Error: No model is currently open' }];
       }
 
-      const element = getElementById(currentModel, args.element_id as string);
-      if (!element) {
-        return [{ type: 'text', text: `Error: Element not found: ${args.element_id}` }];
+      const conceptId = args.concept_id as string;
+      const owner = findPropertyOwner(currentModel, conceptId);
+      if (!owner) {
+        return [{ type: 'text', text: `Error: No element, relationship, view, or model with ID ${conceptId}` }];
       }
 
-      const relationships = getRelationshipsForElement(currentModel, element.id);
-      const relatedElements: Array<{ direction: string; relationship: string; elementId: string; elementName: string; elementType: string }> = [];
-
-      for (const rel of relationships) {
-        const isSource = rel.sourceId === element.id;
-        const otherId = isSource ? rel.targetId : rel.sourceId;
-        const other = getElementById(currentModel, otherId);
-        relatedElements.push({
-          direction: isSource ? 'outgoing' : 'incoming',
-          relationship: rel.type,
-          elementId: otherId,
-          elementName: other?.name || 'Unknown',
-          elementType: other?.type || 'Unknown',
-        });
+      let properties: ArchiMateProperty[];
+      let description: string;
+      if (name === 'archimate_set_properties') {
+        const values = Object.entries((args.properties ?? {}) as Record<string, unknown>).map(([key, value]) => ({ key, value: String(value) }));
+        const mode = (args.mode as PropertyMode | undefined) ?? 'merge';
+        properties = setPropertyValues(owner.concept.properties, values, mode);
+        description = `Set properties of ${owner.kind} "${owner.name}" (${values.map(p => p.key).join(', ') || 'none'})`;
+      } else {
+        const keys = args.keys as string[];
+        properties = removePropertyKeys(owner.concept.properties, keys);
+        description = `Remove properties of ${owner.kind} "${owner.name}" (${keys.join(', ')})`;
       }
 
+      session!.history.execute(currentModel, setPropertiesCommand(conceptId, description, properties));
+
       return [{
         type: 'text',
         text: JSON.stringify({
-          ...element,
-          layer: getLayerForElementType(element.type),
-          description: ElementDescriptions[element.type],
-          relationships: relatedElements,
+          message: 'Properties updated',
+          conceptId,
+          conceptType: owner.kind,
+          properties,
         }, null, 2),
       }];
     }
 
-    case 'archimate_find_elements': {
+    case 'archimate_delete_element': {
       if (!currentModel) {
         return [{ type: 'text', text: 'Error: No model is currently open' }];
       }
 
-      let elements = findElementsByName(currentModel, args.pattern as string);
-
-      if (args.layer) {
-        elements = elements.filter(e => getLayerForElementType(e.type) === args.layer);
+      const element = getElementById(currentModel, args.element_id as string);
+      if (!element) {
+        return [{ type: 'text', text: `Error: Element not found: ${args.element_id}` }];
       }
 
+      const removedRels = getAttachedRelationships(currentModel, [element.id]);
+      session!.history.execute(currentModel, removeElementCommand(element));
+
       return [{
         type: 'text',
-        text: JSON.stringify(elements.map(e => ({
-          id: e.id,
-          type: e.type,
-          name: e.name,
-          layer: getLayerForElementType(e.type),
-        })), null, 2),
+        text: JSON.stringify({
+          message: 'Element deleted successfully',
+          deletedElement: element.name,
+          removedRelationships: removedRels.length,
+        }, null, 2),
       }];
     }
 
-    // -------------------------------------------------------------------------
-    // Element Creation
-    // -------------------------------------------------------------------------
-    case 'archimate_create_motivation_element':
-    case 'archimate_create_strategy_element':
-    case 'archimate_create_business_element':
-    case 'archimate_create_application_element':
-    case 'archimate_create_technology_element':
-    case 'archimate_create_implementation_element':
-    case 'archimate_create_composite_element': {
+    case 'archimate_delete_relationship': {
       if (!currentModel) {
         return [{ type: 'text', text: 'Error: No model is currently open' }];
       }
 
-      const element: ArchiMateElement = {
-        id: generateId(),
-        type: args.element_type as ElementType,
-        name: args.name as string,
-        documentation: args.documentation as string | undefined,
-      };
+      const rel = currentModel.relationships.find(r => r.id === args.relationship_id);
+      if (!rel) {
+        return [{ type: 'text', text: `Error: Relationship not found: ${args.relationship_id}` }];
+      }
 
-      addElementToModel(currentModel, element);
+      const attachedRels = getAttachedRelationships(currentModel, [rel.id]);
+      session!.history.execute(currentModel, removeRelationshipCommand(rel));
 
       return [{
         type: 'text',
         text: JSON.stringify({
-          message: 'Element created successfully',
-          element: {
-            ...element,
-            layer: getLayerForElementType(element.type),
-          },
+          message: 'Relationship deleted successfully',
+          deletedRelationship: rel.type,
+          ...(attachedRels.length > 0 ? { removedRelationships: attachedRels.length } : {}),
         }, null, 2),
       }];
     }
 
-    // -------------------------------------------------------------------------
-    // Relationships
-    // -------------------------------------------------------------------------
-    case 'archimate_create_relationship': {
+    case 'archimate_update_relationship': {
       if (!currentModel) {
         return [{ type: 'text', text: 'Error: No model is currently open' }];
       }
 
-      const sourceElement = getElementById(currentModel, args.source_id as string);
-      const targetElement = getElementById(currentModel, args.target_id as string);
-
-      if (!sourceElement) {
-        return [{ type: 'text', text: `Error: Source element not found: ${args.source_id}` }];
+      const rel = currentModel.relationships.find(r => r.id === args.relationship_id);
+      if (!rel) {
+        return [{ type: 'text', text: `Error: Relationship not found: ${args.relationship_id}` }];
       }
-      if (!targetElement) {
-        return [{ type: 'text', text: `Error: Target element not found: ${args.target_id}` }];
+
+      const updates: RelationshipUpdates = {};
+      if (args.relationship_type) updates.type = args.relationship_type as RelationshipType;
+      if (args.source_id) updates.sourceId = args.source_id as string;
+      if (args.target_id) updates.targetId = args.target_id as string;
+      if (args.name !== undefined) updates.name = args.name as string;
+      if (args.documentation !== undefined) updates.documentation = args.documentation as string;
+      if (args.access_type) updates.accessType = args.access_type as AccessType;
+      if (args.influence_modifier) updates.influenceModifier = args.influence_modifier as InfluenceModifier;
+      if (Object.keys(updates).length === 0) {
+        return [{ type: 'text', text: 'Error: Nothing to update' }];
       }
 
-      const relType = args.relationship_type as RelationshipType;
-      const validation = validateRelationship(sourceElement.type, targetElement.type, relType);
+      const relType = updates.type ?? rel.type;
+      if (updates.accessType && relType !== 'Access') {
+        return [{ type: 'text', text: `Error: access_type only applies to Access relationships, not ${relType}` }];
+      }
+      if (updates.influenceModifier && relType !== 'Influence') {
+        return [{ type: 'text', text: `Error: influence_modifier only applies to Influence relationships, not ${relType}` }];
+      }
 
-      if (!validation.valid) {
-        return [{
-          type: 'text',
-          text: JSON.stringify({
-            error: validation.error,
-            suggestions: validation.suggestions,
-            guidance: getRelationshipGuidance(sourceElement.type, targetElement.type),
-          }, null, 2),
-        }];
+      const source = getRelationshipEnd(currentModel, updates.sourceId ?? rel.sourceId);
+      const target = getRelationshipEnd(currentModel, updates.targetId ?? rel.targetId);
+      if (!source) {
+        return [{ type: 'text', text: `Error: Source element or relationship not found: ${updates.sourceId ?? rel.sourceId}` }];
+      }
+      if (!target) {
+        return [{ type: 'text', text: `Error: Target element or relationship not found: ${updates.targetId ?? rel.targetId}` }];
+      }
+      if (source.id === rel.id || target.id === rel.id) {
+        return [{ type: 'text', text: 'Error: A relationship cannot start from or end on itself' }];
       }
 
-      const relationship: ArchiMateRelationship = {
-        id: generateId(),
-        type: relType,
-        sourceId: args.source_id as string,
-        targetId: args.target_id as string,
-        name: args.name as string | undefined,
-        accessType: args.access_type as AccessType | undefined,
-        influenceModifier: args.influence_modifier as InfluenceModifier | undefined,
-      };
+      const reconnecting = source.id !== rel.sourceId || target.id !== rel.targetId;
+      if (reconnecting || relType !== rel.type) {
+        const validation = validateRelationship(source.type, target.type, relType);
+        if (!validation.valid) {
+          return [{
+            type: 'text',
+            text: JSON.stringify({
+              error: validation.error,
+              suggestions: validation.suggestions,
+              guidance: getRelationshipGuidance(source.type, target.type),
+            }, null, 2),
+          }];
+        }
 
-      addRelationshipToModel(currentModel, relationship);
+        const junctionProblem = checkJunctionRelationship(currentModel, {
+          ...rel,
+          type: relType,
+          sourceId: source.id,
+          targetId: target.id,
+        });
+        if (junctionProblem) {
+          return [{ type: 'text', text: `Error: ${junctionProblem}` }];
+        }
+      }
+
+      // Views drawing the relationship get their connections reconnected after the update
+      const reconnected: Array<{ view: string; connectionId: string }> = [];
+      const removedConnections: Array<{ view: string; connectionId: string }> = [];
+      const viewSteps = reconnecting
+        ? currentModel.diagrams
+            .filter(d => allDiagramConnections(d.objects).some(c => c.relationshipId === rel.id))
+            .map(d => editDiagramCommand(d.id, `Reconnect relationship ${rel.id} in view "${d.name}"`, (diagram) => {
+              const result = reconnectRelationshipInView(diagram, rel);
+              reconnected.push(...result.reconnected.map(c => ({ view: diagram.name, connectionId: c.id })));
+              removedConnections.push(...result.removed.map(c => ({ view: diagram.name, connectionId: c.id })));
+            }))
+        : [];
+      const update = updateRelationshipCommand(rel.id, updates);
+      session!.history.execute(
+        currentModel,
+        viewSteps.length > 0 ? compositeCommand(update.description, [update, ...viewSteps]) : update
+      );
 
       return [{
         type: 'text',
         text: JSON.stringify({
-          message: 'Relationship created successfully',
+          message: 'Relationship updated successfully',
           relationship: {
-            ...relationship,
-            sourceName: sourceElement.name,
-            targetName: targetElement.name,
+            ...rel,
+            sourceName: source.name,
+            targetName: target.name,
           },
+          ...(reconnecting ? { reconnectedConnections: reconnected, removedConnections } : {}),
         }, null, 2),
       }];
     }
 
-    case 'archimate_list_relationships': {
+    case 'archimate_batch': {
       if (!currentModel) {
         return [{ type: 'text', text: 'Error: No model is currently open' }];
       }
 
-      let relationships = currentModel.relationships;
-
-      if (args.element_id) {
-        const direction = (args.direction as string) || 'both';
-        relationships = getRelationshipsForElement(currentModel, args.element_id as string, direction as 'incoming' | 'outgoing' | 'both');
-      }
-
-      if (args.relationship_type) {
-        relationships = relationships.filter(r => r.type === args.relationship_type);
-      }
-
-      return [{
-        type: 'text',
-        text: JSON.stringify(relationships.map(r => {
-          const source = getElementById(currentModel!, r.sourceId);
-          const target = getElementById(currentModel!, r.targetId);
-          return {
-            id: r.id,
-            type: r.type,
-            sourceId: r.sourceId,
-            sourceName: source?.name || 'Unknown',
-            targetId: r.targetId,
-            targetName: target?.name || 'Unknown',
-            name: r.name,
-          };
-        }), null, 2),
-      }];
-    }
-
-    case 'archimate_get_valid_relationships': {
-      const sourceType = args.source_type as ElementType;
-      const targetType = args.target_type as ElementType | undefined;
+      const operations = args.operations as BatchOperation[];
+      // Operations run on a copy, which replaces the model only if all succeed
+      const scratch: ModelSession = { ...session!, model: structuredClone(currentModel), history: new ModelHistory() };
+      const result = await runBatch(currentModel, operations, async (tool, toolArgs) =>
+        (await handleToolCall(tool, toolArgs, scratch)).map(c => c.text).join('\n')
+      );
 
-      if (targetType) {
-        const validTypes = getValidRelationshipTypes(sourceType, targetType);
+      if (result.failure) {
         return [{
           type: 'text',
           text: JSON.stringify({
-            sourceType,
-            targetType,
-            validRelationships: validTypes.map(t => ({
-              type: t,
-              description: RelationshipDescriptions[t],
-            })),
-            guidance: getRelationshipGuidance(sourceType, targetType),
+            error: `Operation ${result.failure.index} (${result.failure.op}) failed: ${result.failure.error}. No operation was applied.`,
+            failedOperation: result.failure,
+            completedBeforeFailure: result.steps.length,
           }, null, 2),
         }];
-      } else {
-        return [{
-          type: 'text',
-          text: getRelationshipGuidance(sourceType),
-        }];
       }
-    }
 
-    // -------------------------------------------------------------------------
-    // Views
-    // -------------------------------------------------------------------------
-    case 'archimate_list_views': {
-      if (!currentModel) {
-        return [{ type: 'text', text: 'Error: No model is currently open' }];
-      }
+      session!.history.execute(currentModel, replaceModelCommand(`Batch of ${operations.length} operation(s)`, scratch.model));
 
       return [{
         type: 'text',
-        text: JSON.stringify(currentModel.diagrams.map(d => ({
-          id: d.id,
-          name: d.name,
-          objectCount: d.objects.length,
-        })), null, 2),
+        text: JSON.stringify({
+          message: `Applied ${operations.length} operation(s)`,
+          ids: result.ids,
+          operations: result.steps,
+        }, null, 2),
       }];
     }
 
-    case 'archimate_create_view': {
+    // -------------------------------------------------------------------------
+    // Folders
+    // -------------------------------------------------------------------------
+    case 'archimate_list_folders': {
       if (!currentModel) {
         return [{ type: 'text', text: 'Error: No model is currently open' }];
       }
 
-      const diagram: ArchiMateDiagram = {
-        id: generateId(),
-        name: args.name as string,
-        viewpoint: args.viewpoint as string | undefined,
-        objects: [],
+      const contents = getAllFolderContents(currentModel);
+      const describeFolder = (folder: ArchiMateFolder): Record<string, unknown> => {
+        const here = contents.get(folder.id)!;
+        return {
+          id: folder.id,
+          name: folder.name,
+          ...(folder.type ? { type: folder.type } : {}),
+          elementCount: here.elements.length,
+          relationshipCount: here.relationships.length,
+          viewCount: here.views.length,
+          subfolders: folder.subfolders.map(describeFolder),
+        };
       };
 
-      addDiagramToModel(currentModel, diagram);
+      if (!args.folder_id) {
+        return [{
+          type: 'text',
+          text: JSON.stringify({ folders: currentModel.folders.map(describeFolder) }, null, 2),
+        }];
+      }
 
+      const location = findFolderLocation(currentModel, args.folder_id as string);
+      if (!location) {
+        return [{ type: 'text', text: `Error: Folder not found: ${args.folder_id}` }];
+      }
+      const here = contents.get(location.folder.id)!;
       return [{
         type: 'text',
         text: JSON.stringify({
-          message: 'View created successfully',
-          view: diagram,
+          folder: {
+            ...describeFolder(location.folder),
+            path: location.path.join('/'),
+          },
+          elements: here.elements.map(summarizeElement),
+          relationships: here.relationships.map(r => ({ id: r.id, type: r.type, name: r.name, sourceId: r.sourceId, targetId: r.targetId })),
+          views: here.views.map(v => ({ id: v.id, name: v.name })),
         }, null, 2),
       }];
     }
 
-    case 'archimate_add_to_view': {
+    case 'archimate_create_folder': {
       if (!currentModel) {
         return [{ type: 'text', text: 'Error: No model is currently open' }];
       }
 
-      const diagram = currentModel.diagrams.find(d => d.id === args.view_id);
-      if (!diagram) {
-        return [{ type: 'text', text: `Error: View not found: ${args.view_id}` }];
-      }
-
-      const element = getElementById(currentModel, args.element_id as string);
-      if (!element) {
-        return [{ type: 'text', text: `Error: Element not found: ${args.element_id}` }];
+      const parent = findFolderLocation(currentModel, args.parent_folder_id as string);
+      if (!parent) {
+        return [{ type: 'text', text: `Error: Folder not found: ${args.parent_folder_id}` }];
       }
 
-      // Calculate position
-      const existingCount = diagram.objects.length;
-      const defaultX = (existingCount % 5) * 150 + 50;
-      const defaultY = Math.floor(existingCount / 5) * 100 + 50;
-
-      const diagObj: DiagramObject = {
-        id: generateId(),
-        elementId: args.element_id as string,
-        bounds: {
-          x: (args.x as number) ?? defaultX,
-          y: (args.y as number) ?? defaultY,
-          width: (args.width as number) ?? 120,
-          height: (args.height as number) ?? 55,
-        },
-      };
-
-      diagram.objects.push(diagObj);
-
-      const autoConnect = args.auto_connect !== false;
-      const autoConnected = autoConnect
-        ? autoConnectDiagramObject(currentModel, diagram, diagObj).map((conn) => {
-            const rel = currentModel!.relationships.find((r) => r.id === conn.relationshipId);
-            return {
-              connectionId: conn.id,
-              relationshipId: conn.relationshipId,
-              relationshipType: rel?.type,
-              sourceDiagramObjectId: conn.sourceId,
-              targetDiagramObjectId: conn.targetId,
-            };
-          })
-        : [];
+      let folder: ArchiMateFolder | undefined;
+      session!.history.execute(currentModel, editFoldersCommand(
+        `Create folder "${args.name}" in "${parent.folder.name}"`,
+        (model) => { folder = createFolder(model, parent.folder.id, args.name as string); }
+      ));
 
       return [{
         type: 'text',
         text: JSON.stringify({
-          message: 'Element added to view',
-          diagramObject: diagObj,
-          elementName: element.name,
-          autoConnectedRelationships: autoConnected,
+          message: 'Folder created successfully',
+          folder: { id: folder!.id, name: folder!.name, path: [...parent.path, folder!.name].join('/') },
         }, null, 2),
       }];
     }
 
-    case 'archimate_add_connection_to_view': {
+    case 'archimate_rename_folder': {
       if (!currentModel) {
         return [{ type: 'text', text: 'Error: No model is currently open' }];
       }
 
-      const diagram = currentModel.diagrams.find(d => d.id === args.view_id);
-      if (!diagram) {
-        return [{ type: 'text', text: `Error: View not found: ${args.view_id}` }];
-      }
-
-      const relationshipId = args.relationship_id as string;
-      const relationship = currentModel.relationships.find(r => r.id === relationshipId);
-      if (!relationship) {
-        return [{ type: 'text', text: `Error: Relationship not found: ${relationshipId}` }];
+      const location = findFolderLocation(currentModel, args.folder_id as string);
+      if (!location) {
+        return [{ type: 'text', text: `Error: Folder not found: ${args.folder_id}` }];
       }
 
-      const sourceDiagObjId = args.source_diagram_object_id as string;
-      const targetDiagObjId = args.target_diagram_object_id as string;
-
-      const sourceDiagObj = diagram.objects.find(o => o.id === sourceDiagObjId);
-      const targetDiagObj = diagram.objects.find(o => o.id === targetDiagObjId);
-
-      if (!sourceDiagObj) {
-        return [{ type: 'text', text: `Error: Source diagram object not found: ${sourceDiagObjId}` }];
-      }
-      if (!targetDiagObj) {
-        return [{ type: 'text', text: `Error: Target diagram object not found: ${targetDiagObjId}` }];
-      }
+      const previousName = location.folder.name;
+      session!.history.execute(currentModel, editFoldersCommand(
+        `Rename folder "${previousName}" to "${args.name}"`,
+        (model) => renameFolder(model, location.folder.id, args.name as string)
+      ));
 
-      // Create the connection
-      const connectionId = generateId();
-      const connection: DiagramConnection = {
-        id: connectionId,
-        sourceId: sourceDiagObjId,
-        targetId: targetDiagObjId,
-        relationshipId: relationshipId,
-      };
+      return [{
+        type: 'text',
+        text: JSON.stringify({
+          message: 'Folder renamed successfully',
+          folder: { id: location.folder.id, name: location.folder.name, previousName },
+        }, null, 2),
+      }];
+    }
 
-      // Add connection to source object's sourceConnections
-      if (!sourceDiagObj.sourceConnections) {
-        sourceDiagObj.sourceConnections = [];
+    case 'archimate_move_folder': {
+      if (!currentModel) {
+        return [{ type: 'text', text: 'Error: No model is currently open' }];
       }
-      sourceDiagObj.sourceConnections.push(connection);
 
-      // Add connection ID to target object's targetConnectionIds
-      if (!targetDiagObj.targetConnectionIds) {
-        targetDiagObj.targetConnectionIds = [];
+      const location = findFolderLocation(currentModel, args.folder_id as string);
+      if (!location) {
+        return [{ type: 'text', text: `Error: Folder not found: ${args.folder_id}` }];
+      }
+      const target = findFolderLocation(currentModel, args.parent_folder_id as string);
+      if (!target) {
+        return [{ type: 'text', text: `Error: Folder not found: ${args.parent_folder_id}` }];
       }
-      targetDiagObj.targetConnectionIds.push(connectionId);
+
+      session!.history.execute(currentModel, editFoldersCommand(
+        `Move folder "${location.folder.name}" to "${target.folder.name}"`,
+        (model) => moveFolder(model, location.folder.id, target.folder.id)
+      ));
 
       return [{
         type: 'text',
         text: JSON.stringify({
-          message: 'Connection added to view',
-          connection: {
-            id: connectionId,
-            relationshipId: relationshipId,
-            relationshipType: relationship.type,
-            sourceDiagramObjectId: sourceDiagObjId,
-            targetDiagramObjectId: targetDiagObjId,
-          },
+          message: 'Folder moved successfully',
+          folder: { id: location.folder.id, name: location.folder.name, path: [...target.path, location.folder.name].join('/') },
         }, null, 2),
       }];
     }
 
-    // -------------------------------------------------------------------------
-    // Modification
-    // -------------------------------------------------------------------------
-    case 'archimate_update_element': {
+    case 'archimate_delete_folder': {
       if (!currentModel) {
         return [{ type: 'text', text: 'Error: No model is currently open' }];
       }
 
-      const elementId = args.element_id as string;
-      const updates: Partial<Pick<ArchiMateElement, 'name' | 'documentation'>> = {};
-
-      if (args.name) updates.name = args.name as string;
-      if (args.documentation !== undefined) updates.documentation = args.documentation as string;
+      const location = findFolderLocation(currentModel, args.folder_id as string);
+      if (!location) {
+        return [{ type: 'text', text: `Error: Folder not found: ${args.folder_id}` }];
+      }
 
-      updateElementInModel(currentModel, elementId, updates);
+      const contents = getFolderContents(currentModel, location.folder);
+      session!.history.execute(currentModel, editFoldersCommand(
+        `Delete folder "${location.folder.name}"`,
+        (model) => deleteFolder(model, location.folder.id, args.move_contents_to_parent === true)
+      ));
 
-      const updated = getElementById(currentModel, elementId);
       return [{
         type: 'text',
         text: JSON.stringify({
-          message: 'Element updated successfully',
-          element: updated,
+          message: 'Folder deleted successfully',
+          folderId: location.folder.id,
+          parentFolderId: location.parent?.id,
+          movedContents: {
+            subfolders: location.folder.subfolders.length,
+            elements: contents.elements.length,
+            relationships: contents.relationships.length,
+            views: contents.views.length,
+          },
         }, null, 2),
       }];
     }
 
-    case 'archimate_delete_element': {
+    case 'archimate_move_to_folder': {
       if (!currentModel) {
         return [{ type: 'text', text: 'Error: No model is currently open' }];
       }
 
-      const element = getElementById(currentModel, args.element_id as string);
-      if (!element) {
-        return [{ type: 'text', text: `Error: Element not found: ${args.element_id}` }];
+      const target = findFolderLocation(currentModel, args.folder_id as string);
+      if (!target) {
+        return [{ type: 'text', text: `Error: Folder not found: ${args.folder_id}` }];
+      }
+
+      const conceptIds = args.concept_ids as string[];
+      const previous = new Map<string, string | undefined>();
+      for (const id of conceptIds) {
+        const concept = findFolderConcept(currentModel, id);
+        if (concept) previous.set(id, getConceptFolder(currentModel, concept)?.id);
       }
 
-      const removedRels = getRelationshipsForElement(currentModel, args.element_id as string);
-      removeElementFromModel(currentModel, args.element_id as string);
+      let moved: FolderConcept[] = [];
+      session!.history.execute(currentModel, editFoldersCommand(
+        `Move ${conceptIds.length} concept(s) to folder "${target.folder.name}"`,
+        (model) => { moved = moveToFolder(model, conceptIds, target.folder.id); }
+      ));
 
       return [{
         type: 'text',
         text: JSON.stringify({
-          message: 'Element deleted successfully',
-          deletedElement: element.name,
-          removedRelationships: removedRels.length,
+          message: `Moved ${moved.length} concept(s) to folder "${target.folder.name}"`,
+          folder: { id: target.folder.id, name: target.folder.name, path: target.path.join('/') },
+          moved: moved.map(c => ({ id: c.id, kind: c.kind, name: c.name, fromFolderId: previous.get(c.id) })),
         }, null, 2),
       }];
     }
 
-    case 'archimate_delete_relationship': {
+    // -------------------------------------------------------------------------
+    // History
+    // -------------------------------------------------------------------------
+    case 'archimate_undo':
+    case 'archimate_redo': {
       if (!currentModel) {
         return [{ type: 'text', text: 'Error: No model is currently open' }];
       }
 
-      const rel = currentModel.relationships.find(r => r.id === args.relationship_id);
-      if (!rel) {
-        return [{ type: 'text', text: `Error: Relationship not found: ${args.relationship_id}` }];
+      const steps = (args.steps as number) || 1;
+      const applied = [];
+      for (let i = 0; i < steps; i++) {
+        const entry = name === 'archimate_undo' ? session!.history.undo(currentModel) : session!.history.redo(currentModel);
+        if (!entry) break;
+        applied.push(entry);
       }
 
-      removeRelationshipFromModel(currentModel, args.relationship_id as string);
+      if (applied.length === 0) {
+        return [{ type: 'text', text: `Error: Nothing to ${name === 'archimate_undo' ? 'undo' : 'redo'}` }];
+      }
 
       return [{
         type: 'text',
         text: JSON.stringify({
-          message: 'Relationship deleted successfully',
-          deletedRelationship: rel.type,
+          message: name === 'archimate_undo' ? 'Changes undone' : 'Changes redone',
+          [name === 'archimate_undo' ? 'undone' : 'redone']: applied,
+          canUndo: session!.history.canUndo(),
+          canRedo: session!.history.canRedo(),
         }, null, 2),
       }];
     }
 
+    case 'archimate_history': {
+      if (!currentModel) {
+        return [{ type: 'text', text: 'Error: No model is currently open' }];
+      }
+
+      return [{
+        type: 'text',
+        text: JSON.stringify(session!.history.getEntries(), null, 2),
+      }];
+    }
+
     // -------------------------------------------------------------------------
     // Analysis
     // -------------------------------------------------------------------------
@@ -1403,6 +3407,244 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
       }];
     }
 
+    case 'archimate_validate_model': {
+      if (!currentModel) {
+        return [{ type: 'text', text: 'Error: No model is currently open' }];
+      }
+
+      const report = validateModel(currentModel);
+      if (args.severity) {
+        report.issues = report.issues.filter(i => i.severity === args.severity);
+      }
+
+      return [{
+        type: 'text',
+        text: JSON.stringify(report, null, 2),
+      }];
+    }
+
+    case 'archimate_diff_models': {
+      let base;
+      if (args.base_path) {
+        base = await parseModelComplete(args.base_path as string);
+      } else if (args.base_model) {
+        base = models.get(args.base_model as string)?.model;
+        if (!base) {
+          return [{ type: 'text', text: `Error: No open model with handle "${args.base_model}"` }];
+        }
+      } else {
+        return [{ type: 'text', text: 'Error: Specify base_model or base_path' }];
+      }
+
+      const target = args.path ? await parseModelComplete(args.path as string) : currentModel;
+      if (!target) {
+        return [{ type: 'text', text: 'Error: No model is currently open' }];
+      }
+
+      const diff = diffModels(base, target);
+      const format = (args.format as string) || 'both';
+      const content: TextContent[] = [];
+      if (format !== 'markdown') {
+        content.push({ type: 'text', text: JSON.stringify(diff, null, 2) });
+      }
+      if (format !== 'json') {
+        content.push({ type: 'text', text: formatDiffMarkdown(diff, `Changes from "${base.name}" to "${target.name}"`) });
+      }
+      return content;
+    }
+
+    case 'archimate_merge_models': {
+      if (!currentModel) {
+        return [{ type: 'text', text: 'Error: No model is currently open' }];
+      }
+
+      const load = async (handle: unknown, path: unknown, label: string) => {
+        if (path) return parseModelComplete(path as string);
+        if (handle) {
+          const found = models.get(handle as string)?.model;
+          if (!found) throw new Error(`No open model with handle "${handle}"`);
+          return found;
+        }
+        throw new Error(`Specify ${label}_model or ${label}_path`);
+      };
+      const base = await load(args.base_model, args.base_path, 'base');
+      const theirs = await load(args.theirs_model, args.theirs_path, 'theirs');
+
+      const result = mergeModels(base, currentModel, theirs, { prefer: (args.prefer as MergeSide) || 'ours' });
+      const changes = diffModels(currentModel, result.model);
+
+      if (args.output_path) {
+        await writeModel(result.model, args.output_path as string);
+      }
+      if (args.apply) {
+        session!.history.execute(currentModel, replaceModelCommand(
+          `Merge "${theirs.name}" into "${currentModel.name}"`,
+          result.model
+        ));
+      }
+
+      return [{
+        type: 'text',
+        text: JSON.stringify({
+          clean: result.clean,
+          applied: args.apply === true,
+          outputPath: args.output_path,
+          conflicts: result.conflicts,
+          changesToOurs: countChanges(changes),
+        }, null, 2),
+      }];
+    }
+
+    // -------------------------------------------------------------------------
+    // Git
+    // -------------------------------------------------------------------------
+    case 'archimate_git_status': {
+      const repo = await resolveRepository(args.path, session);
+      return [{
+        type: 'text',
+        text: JSON.stringify(await getGitStatus(repo), null, 2),
+      }];
+    }
+
+    case 'archimate_git_log': {
+      const repo = await resolveRepository(args.path, session);
+      const commits = await getModelLog(repo, (args.limit as number) || 10, (args.ref as string) || 'HEAD');
+      const entries = await Promise.all(commits.map(async (commit) => ({ commit, diff: await diffCommit(repo, commit.hash) })));
+
+      if (args.format === 'markdown') {
+        const text = entries
+          .map(({ commit, diff }) => formatDiffMarkdown(diff, `${commit.shortHash} ${commit.subject} (${commit.author}, ${commit.date})`))
+          .join('\n\n');
+        return [{ type: 'text', text: text || 'No commits.' }];
+      }
+
+      return [{
+        type: 'text',
+        text: JSON.stringify(entries.map(({ commit, diff }) => ({ ...commit, changes: countChanges(diff) })), null, 2),
+      }];
+    }
+
+    case 'archimate_git_commit': {
+      if (!currentModel || !session?.path) {
+        return [{ type: 'text', text: 'Error: No model with a repository path is currently open' }];
+      }
+      const startTime = Date.now();
+
+      try {
+        const repo = await findModelRepository(session.path);
+        if (args.save !== false) {
+          await writeModel(currentModel, session.path);
+          session.history.markSaved();
+        }
+        const commit = await commitModel(repo, args.message as string);
+        const diff = await diffCommit(repo, commit.hash);
+
+        getAuditLogger().log({
+          event: 'archimate_git_commit',
+          action: 'update',
+          success: true,
+          durationMs: Date.now() - startTime,
+          details: { path: session.path, commit: commit.hash },
+        });
+
+        return [
+          { type: 'text', text: JSON.stringify({ ...commit, changes: countChanges(diff) }, null, 2) },
+          { type: 'text', text: formatDiffMarkdown(diff, `${commit.shortHash} ${commit.subject}`) },
+        ];
+      } catch (error) {
+        getAuditLogger().log({
+          event: 'archimate_git_commit',
+          action: 'update',
+          success: false,
+          durationMs: Date.now() - startTime,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    }
+
+    case 'archimate_git_checkout': {
+      if (!session?.path) {
+        return [{ type: 'text', text: 'Error: No model with a repository path is currently open' }];
+      }
+      const ref = args.ref as string;
+      const discarded = session.history.isModified();
+      if (discarded && args.discard_changes !== true) {
+        return [{
+          type: 'text',
+          text: `Error: Model "${session.handle}" has unsaved changes. Save or commit them first, or pass discard_changes: true to drop them`,
+        }];
+      }
+      const startTime = Date.now();
+
+      try {
+        const repo = await findModelRepository(session.path);
+        await gitCheckout(repo, ref);
+        const reloaded = models.open(await parseModelComplete(session.path), session.path, session.handle, { replace: true });
+        const status = await getGitStatus(repo);
+
+        getAuditLogger().log({
+          event: 'archimate_git_checkout',
+          action: 'update',
+          success: true,
+          durationMs: Date.now() - startTime,
+          details: { path: session.path, ref, head: status.head },
+        });
+
+        return [{
+          type: 'text',
+          text: JSON.stringify({
+            message: discarded
+              ? `Checked out ${ref} and reloaded the model, discarding its unsaved changes`
+              : `Checked out ${ref} and reloaded the model`,
+            handle: reloaded.handle,
+            branch: status.branch,
+            head: status.head,
+            name: reloaded.model.name,
+            totalElements: getAllElements(reloaded.model).length,
+            relationships: reloaded.model.relationships.length,
+            diagrams: reloaded.model.diagrams.length,
+          }, null, 2),
+        }];
+      } catch (error) {
+        getAuditLogger().log({
+          event: 'archimate_git_checkout',
+          action: 'update',
+          success: false,
+          durationMs: Date.now() - startTime,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    }
+
+    case 'archimate_git_open_at_commit': {
+      const repo = await resolveRepository(args.path, session);
+      const ref = args.ref as string;
+      const hash = await resolveRef(repo, ref);
+      if (!hash) {
+        return [{ type: 'text', text: `Error: Unknown git revision "${ref}"` }];
+      }
+      const model = await readModelAtCommit(repo, hash);
+      if (!model) {
+        return [{ type: 'text', text: `Error: ${repo.modelFile} does not exist at ${ref}` }];
+      }
+
+      const handle = (args.handle as string) || `${session?.handle ?? 'model'}@${ref}`;
+      const opened = models.open(model, null, handle, { replace: args.replace === true });
+      return [{
+        type: 'text',
+        text: JSON.stringify({
+          handle: opened.handle,
+          commit: hash,
+          name: opened.model.name,
+          totalElements: getAllElements(opened.model).length,
+          relationships: opened.model.relationships.length,
+          diagrams: opened.model.diagrams.length,
+        }, null, 2),
+      }];
+    }
+
     // -------------------------------------------------------------------------
     // Exchange Format
     // -------------------------------------------------------------------------
@@ -1411,10 +3653,10 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
       const startTime = Date.now();
 
       try {
-        currentModel = await readExchangeFile(path);
-        currentModelPath = null; // Exchange format, not coArchi
+        // Exchange format, not coArchi, so there is no repository path to save back to
+        const imported = models.open(await readExchangeFile(path), null, args.handle as string | undefined, { replace: args.replace === true });
 
-        const elements = getAllElements(currentModel);
+        const elements = getAllElements(imported.model);
         const layerCounts: Record<string, number> = {};
         for (const elem of elements) {
           const layer = getLayerForElementType(elem.type);
@@ -1433,11 +3675,12 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
           type: 'text',
           text: JSON.stringify({
             message: 'Model imported from exchange format',
-            name: currentModel.name,
-            id: currentModel.id,
+            handle: imported.handle,
+            name: imported.model.name,
+            id: imported.model.id,
             totalElements: elements.length,
-            relationships: currentModel.relationships.length,
-            diagrams: currentModel.diagrams.length,
+            relationships: imported.model.relationships.length,
+            diagrams: imported.model.diagrams.length,
             elementsByLayer: layerCounts,
           }, null, 2),
         }];
@@ -1491,6 +3734,110 @@ async function handleToolCall(name: string, args: Record<string, unknown>): Prom
       }
     }
 
+    // -------------------------------------------------------------------------
+    // CSV
+    // -------------------------------------------------------------------------
+    case 'archimate_import_csv': {
+      if (!currentModel) {
+        return [{ type: 'text', text: 'Error: No model is currently open' }];
+      }
+
+      const directory = args.directory as string;
+      const startTime = Date.now();
+
+      try {
+        const csv = checkCsvImport(currentModel, await readCsvFiles(directory, args.prefix as string | undefined));
+
+        if (csv.errors.length > 0) {
+          getAuditLogger().log({
+            event: 'archimate_import_csv',
+            action: 'import',
+            success: false,
+            durationMs: Date.now() - startTime,
+            details: { directory, rowErrors: csv.errors.length },
+          });
+
+          return [{
+            type: 'text',
+            text: JSON.stringify({
+              error: `${csv.errors.length} row(s) are invalid; nothing was imported`,
+              rowErrors: csv.errors,
+            }, null, 2),
+          }];
+        }
+
+        let summary: CsvImportSummary | undefined;
+        session!.history.execute(currentModel, editModelCommand(`Import CSV from ${directory}`, (m) => {
+          summary = applyCsvImport(m, csv);
+        }));
+
+        getAuditLogger().log({
+          event: 'archimate_import_csv',
+          action: 'import',
+          success: true,
+          durationMs: Date.now() - startTime,
+          details: { directory, ...summary },
+        });
+
+        return [{
+          type: 'text',
+          text: JSON.stringify({
+            message: 'CSV imported',
+            ...summary,
+          }, null, 2),
+        }];
+      } catch (error) {
+        getAuditLogger().log({
+          event: 'archimate_import_csv',
+          action: 'import',
+          success: false,
+          durationMs: Date.now() - startTime,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    }
+
+    case 'archimate_export_csv': {
+      if (!currentModel) {
+        return [{ type: 'text', text: 'Error: No model is currently open' }];
+      }
+
+      const directory = args.directory as string;
+      const startTime = Date.now();
+
+      try {
+        const files = await saveArchiCsv(currentModel, directory, args.prefix as string | undefined);
+
+        getAuditLogger().log({
+          event: 'archimate_export_csv',
+          action: 'export',
+          success: true,
+          durationMs: Date.now() - startTime,
+          details: { directory },
+        });
+
+        return [{
+          type: 'text',
+          text: JSON.stringify({
+            message: 'Model exported to CSV',
+            files,
+            elements: getAllElements(currentModel).length,
+            relationships: currentModel.relationships.length,
+          }, null, 2),
+        }];
+      } catch (error) {
+        getAuditLogger().log({
+          event: 'archimate_export_csv',
+          action: 'export',
+          success: false,
+          durationMs: Date.now() - startTime,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    }
+
     // -------------------------------------------------------------------------
     // Exporters
     // -------------------------------------------------------------------------
@@ -1772,6 +4119,12 @@ server.setRequestHandler(ListResourcesRequestSchema, async () => ({
       description: 'Catalog of all ArchiMate 3.2 relationship types',
       mimeType: 'application/json',
     },
+    {
+      uri: 'archimate://spec/viewpoints',
+      name: 'ArchiMate Viewpoints',
+      description: 'Catalog of the ArchiMate 3.2 viewpoints with the element and relationship types each shows',
+      mimeType: 'application/json',
+    },
     {
       uri: 'archimate://model/summary',
       name: 'Current Model Summary',
@@ -1799,6 +4152,7 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
             Technology: TechnologyElementTypes.map(t => ({ type: t, description: ElementDescriptions[t] })),
             Implementation: ImplementationElementTypes.map(t => ({ type: t, description: ElementDescriptions[t] })),
             Composite: CompositeElementTypes.map(t => ({ type: t, description: ElementDescriptions[t] })),
+            RelationshipConnectors: RelationshipConnectorTypes.map(t => ({ type: t, description: ElementDescriptions[t] })),
           }, null, 2),
         }],
       };
@@ -1818,7 +4172,27 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
         }],
       };
 
-    case 'archimate://model/summary':
+    case 'archimate://spec/viewpoints':
+      return {
+        contents: [{
+          uri,
+          mimeType: 'application/json',
+          text: JSON.stringify(
+            Viewpoints.map(v => ({
+              id: v.id,
+              name: v.name,
+              category: v.category,
+              description: v.description,
+              elementTypes: getViewpointElementTypes(v),
+              relationshipTypes: getViewpointRelationshipTypes(v),
+            })),
+            null, 2
+          ),
+        }],
+      };
+
+    case 'archimate://model/summary': {
+      const currentModel = models.getActive()?.model;
       if (!currentModel) {
         return {
           contents: [{
@@ -1842,6 +4216,7 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
           }, null, 2),
         }],
       };
+    }
 
     default:
       throw new Error(`Unknown resource: ${uri}`);
@@ -0,0 +1,56 @@
+#!/usr/bin/env node
+/**
+ * Git merge driver for coArchi model.archimate files.
+ *
+ * Register it once per clone:
+ *
+ *   git config merge.archimate.name "ArchiMate model merge"
+ *   git config merge.archimate.driver "archimate-merge-driver %O %A %B"
+ *
+ * and route the model file to it in .gitattributes:
+ *
+ *   model.archimate merge=archimate
+ *
+ * Git passes the base (%O), ours (%A), and theirs (%B) versions as temporary
+ * files. The merged model is written back to the ours file. Conflicts are
+ * resolved in favour of ours, listed on stderr, and signalled with exit code 1
+ * so git leaves the file marked as conflicted for review.
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+import { parseModelXml } from './model/parser.js';
+import { serializeModel } from './model/writer.js';
+import { mergeModels } from './model/merge.js';
+
+async function main(): Promise<number> {
+  const [basePath, oursPath, theirsPath] = process.argv.slice(2);
+  if (!basePath || !oursPath || !theirsPath) {
+    console.error('Usage: archimate-merge-driver <base> <ours> <theirs>');
+    return 2;
+  }
+
+  const [base, ours, theirs] = await Promise.all(
+    [basePath, oursPath, theirsPath].map(async (path) => parseModelXml(await readFile(path, 'utf-8')))
+  );
+
+  const result = mergeModels(base, ours, theirs);
+  await writeFile(oursPath, serializeModel(result.model), 'utf-8');
+
+  if (result.clean) {
+    return 0;
+  }
+
+  console.error(`ArchiMate merge: ${result.conflicts.length} conflict(s), resolved in favour of ours:`);
+  for (const conflict of result.conflicts) {
+    console.error(`  [${conflict.kind}] ${conflict.message}`);
+  }
+  return 1;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(`ArchiMate merge failed: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(2);
+  }
+);
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { resolveTempIds, runBatch, type BatchOperation } from './batch.js';
+import { createEmptyModel, createElement, addElementToModel, resetIdCounter } from '../__tests__/fixtures/sample-model.js';
+
+describe('batches', () => {
+  it('resolves temp IDs only in ID arguments', () => {
+    expect(resolveTempIds(
+      { source_id: 'crm', element_ids: ['crm', 'id-1'], name: 'crm', folder_id: 'other' },
+      { crm: 'id-42' }
+    )).toEqual({ source_id: 'id-42', element_ids: ['id-42', 'id-1'], name: 'crm', folder_id: 'other' });
+  });
+
+  it('stops at the first failing operation, whatever form its error takes', async () => {
+    resetIdCounter();
+    const model = createEmptyModel();
+    const existing = createElement('BusinessActor', 'Clerk');
+    addElementToModel(model, existing);
+    const calls: string[] = [];
+    const run = async (tool: string, args: Record<string, unknown>): Promise<string> => {
+      calls.push(tool);
+      if (args.name === 'thrown') throw new Error('Element not found');
+      if (args.name === 'text') return 'Error: No model is currently open';
+      return JSON.stringify({ element: { id: `id-${args.name}` } });
+    };
+    const ops = (...names: string[]): BatchOperation[] =>
+      names.map((name) => ({ op: 'create_element', temp_id: name, element_type: 'BusinessRole', name }));
+
+    expect(await runBatch(model, ops('a', 'thrown', 'c'), run)).toEqual({
+      ids: { a: 'id-a' },
+      steps: [{ index: 1, op: 'create_element', tempId: 'a', id: 'id-a' }],
+      failure: { index: 2, op: 'create_element', error: 'Element not found' },
+    });
+    expect(calls).toHaveLength(2);
+
+    expect((await runBatch(model, ops('text'), run)).failure?.error).toBe('No model is currently open');
+    expect((await runBatch(model, ops('a', 'a'), run)).failure).toMatchObject({ index: 2, error: expect.stringContaining('already used') });
+    expect((await runBatch(model, [{ op: 'create_element', temp_id: existing.id, element_type: 'BusinessRole' }], run)).failure?.index).toBe(1);
+    expect((await runBatch(model, [{ op: 'rename' } as unknown as BatchOperation], run)).failure?.error).toContain('Unknown operation "rename"');
+  });
+
+  it('rejects operations that are not a non-empty array', async () => {
+    const model = createEmptyModel();
+    const run = async (): Promise<string> => '{}';
+    const invalid = 'operations must be a non-empty array of operations';
+
+    await expect(runBatch(model, [], run)).rejects.toThrow(invalid);
+    await expect(runBatch(model, { op: 'create_element' } as unknown as BatchOperation[], run)).rejects.toThrow(invalid);
+    expect((await runBatch(model, ['create_element'] as unknown as BatchOperation[], run)).failure)
+      .toEqual({ index: 1, op: 'create_element', error: 'Operation must be an object with an "op" field' });
+  });
+
+  it('fails on an ID that names nothing, even when the tool reports success', async () => {
+    resetIdCounter();
+    const model = createEmptyModel();
+    const clerk = createElement('BusinessActor', 'Clerk');
+    addElementToModel(model, clerk);
+    const calls: string[] = [];
+    // Stands in for a tool that does not check its target
+    const run = async (tool: string, args: Record<string, unknown>): Promise<string> => {
+      calls.push(tool);
+      return JSON.stringify({ message: 'Done', element: { id: `id-${args.name}` } });
+    };
+
+    const result = await runBatch(model, [
+      { op: 'create_element', temp_id: 'role', element_type: 'BusinessRole', name: 'role' },
+      { op: 'update_element', element_id: 'role', name: 'Teller' },
+      { op: 'update_element', element_id: clerk.id, name: 'Senior Clerk' },
+      { op: 'update_element', element_id: 'typo', name: 'Ghost' },
+      { op: 'delete_element', element_id: clerk.id },
+    ], run);
+
+    expect(result.failure).toEqual({ index: 4, op: 'update_element', error: 'Element not found: typo' });
+    expect(calls).toHaveLength(3);
+    expect((await runBatch(model, [{ op: 'delete_relationship' }], run)).failure?.error).toBe('relationship_id is required');
+  });
+});
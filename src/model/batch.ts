@@ -0,0 +1,218 @@
+/**
+ * Batches: ordered lists of model operations applied as one change. Each
+ * operation runs the tool it names with its arguments, against a scratch
+ * copy of the model; the batch is applied only when every operation
+ * succeeds. An operation that creates a concept or diagram object can name
+ * it with a temp ID, and later operations use the temp ID in place of the
+ * generated ID in any `..._id` or `..._ids` argument.
+ *
+ * Used by archimate_batch.
+ */
+
+import { AllElementTypes, type ArchiMateModel } from './types.js';
+
+export const BatchOperationTypes = [
+  'create_element',
+  'create_relationship',
+  'create_view',
+  'add_to_view',
+  'update_element',
+  'update_relationship',
+  'delete_element',
+  'delete_relationship',
+] as const;
+
+export type BatchOperationType = typeof BatchOperationTypes[number];
+
+/** The tool each operation runs */
+export const BatchOperationTools: Record<BatchOperationType, string> = {
+  // The layer-specific creation tools share one handler
+  create_element: 'archimate_create_business_element',
+  create_relationship: 'archimate_create_relationship',
+  create_view: 'archimate_create_view',
+  add_to_view: 'archimate_add_to_view',
+  update_element: 'archimate_update_element',
+  update_relationship: 'archimate_update_relationship',
+  delete_element: 'archimate_delete_element',
+  delete_relationship: 'archimate_delete_relationship',
+};
+
+export interface BatchOperation {
+  op: BatchOperationType;
+  /** Name for the ID the operation generates, for later operations to use */
+  temp_id?: string;
+  [argument: string]: unknown;
+}
+
+export interface BatchStep {
+  /** Position of the operation in the batch, from 1 */
+  index: number;
+  op: BatchOperationType;
+  tempId?: string;
+  /** The ID the operation generated, if it created something */
+  id?: string;
+}
+
+export interface BatchFailure {
+  index: number;
+  op: string;
+  error: string;
+  /** The failing tool's response, when it gave more than a message */
+  details?: unknown;
+}
+
+export interface BatchResult {
+  /** Generated IDs by temp ID */
+  ids: Record<string, string>;
+  steps: BatchStep[];
+  /** The first operation that failed; the batch must then not be applied */
+  failure?: BatchFailure;
+}
+
+/**
+ * Run the operations of a batch in order, stopping at the first one that
+ * fails. `run` calls the operation's tool on the scratch model and returns
+ * the text of its response. Throws when `operations` is not a non-empty
+ * array, since an empty batch would record a change that does nothing.
+ */
+export async function runBatch(
+  model: ArchiMateModel,
+  operations: BatchOperation[],
+  run: (tool: string, args: Record<string, unknown>) => Promise<string>
+): Promise<BatchResult> {
+  if (!Array.isArray(operations) || operations.length === 0) {
+    throw new Error('operations must be a non-empty array of operations');
+  }
+
+  const result: BatchResult = { ids: {}, steps: [] };
+  const existing = existingIds(model);
+
+  for (const [i, operation] of operations.entries()) {
+    const index = i + 1;
+    if (typeof operation !== 'object' || operation === null) {
+      return { ...result, failure: { index, op: String(operation), error: 'Operation must be an object with an "op" field' } };
+    }
+    const { op, temp_id: tempId, ...rest } = operation;
+    const fail = (error: string, details?: unknown): BatchResult => ({
+      ...result,
+      failure: { index, op: String(op), error, ...(details !== undefined ? { details } : {}) },
+    });
+
+    if (!BatchOperationTypes.includes(op)) {
+      return fail(`Unknown operation "${op}"; use one of ${BatchOperationTypes.join(', ')}`);
+    }
+    if (op === 'create_element' && (rest.element_type === 'Junction' || !AllElementTypes.some((t) => t === rest.element_type))) {
+      return fail(`Unknown element type "${rest.element_type}"`);
+    }
+    if (tempId !== undefined && (tempId in result.ids || existing.has(tempId))) {
+      return fail(`Temp ID "${tempId}" is already used in this batch or by the model`);
+    }
+
+    const args = resolveTempIds(rest, result.ids);
+    const missing = missingTarget(op, args, (id) => existing.has(id) || result.steps.some((step) => step.id === id));
+    if (missing) return fail(missing);
+
+    let text: string;
+    try {
+      text = await run(BatchOperationTools[op], args);
+    } catch (error) {
+      return fail(error instanceof Error ? error.message : String(error));
+    }
+
+    if (text.startsWith('Error: ')) return fail(text.slice('Error: '.length));
+    const response = parseResponse(text);
+    if (typeof response?.error === 'string') return fail(response.error, response);
+
+    const id = createdId(op, response);
+    if (tempId !== undefined) {
+      if (!id) return fail(`Operation ${op} does not create anything for temp ID "${tempId}" to name`);
+      result.ids[tempId] = id;
+    }
+    result.steps.push({ index, op, ...(tempId !== undefined ? { tempId } : {}), ...(id ? { id } : {}) });
+  }
+  return result;
+}
+
+/**
+ * Replace temp IDs by the IDs generated for them, in `..._id` and
+ * `..._ids` arguments.
+ */
+export function resolveTempIds(args: Record<string, unknown>, ids: Record<string, string>): Record<string, unknown> {
+  const resolve = (value: unknown) => (typeof value === 'string' && value in ids ? ids[value] : value);
+  return Object.fromEntries(Object.entries(args).map(([key, value]) => {
+    if (key.endsWith('_id')) return [key, resolve(value)];
+    if (key.endsWith('_ids') && Array.isArray(value)) return [key, value.map(resolve)];
+    return [key, value];
+  }));
+}
+
+/**
+ * ID arguments each operation acts on, with what they name. Required ones
+ * must be given; all must name something in the model or made earlier in
+ * the batch. The tools check too, but a batch must not rely on each tool
+ * reporting a missing target as an error.
+ */
+const TargetArguments: Partial<Record<BatchOperationType, Array<{ key: string; label: string; required: boolean }>>> = {
+  create_relationship: [
+    { key: 'source_id', label: 'Source', required: true },
+    { key: 'target_id', label: 'Target', required: true },
+  ],
+  add_to_view: [
+    { key: 'view_id', label: 'View', required: true },
+    { key: 'element_id', label: 'Element', required: true },
+  ],
+  update_element: [{ key: 'element_id', label: 'Element', required: true }],
+  update_relationship: [
+    { key: 'relationship_id', label: 'Relationship', required: true },
+    { key: 'source_id', label: 'Source', required: false },
+    { key: 'target_id', label: 'Target', required: false },
+  ],
+  delete_element: [{ key: 'element_id', label: 'Element', required: true }],
+  delete_relationship: [{ key: 'relationship_id', label: 'Relationship', required: true }],
+};
+
+function missingTarget(op: BatchOperationType, args: Record<string, unknown>, known: (id: string) => boolean): string | undefined {
+  for (const { key, label, required } of TargetArguments[op] ?? []) {
+    const value = args[key];
+    if (value === undefined && !required) continue;
+    if (typeof value !== 'string' || value === '') return `${key} is required`;
+    if (!known(value)) return `${label} not found: ${value}`;
+  }
+  return undefined;
+}
+
+function parseResponse(text: string): Record<string, unknown> | undefined {
+  try {
+    const parsed: unknown = JSON.parse(text);
+    return parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Where the response of an operation that creates something reports its ID */
+const CreatedKeys: Partial<Record<BatchOperationType, string>> = {
+  create_element: 'element',
+  create_relationship: 'relationship',
+  create_view: 'view',
+  add_to_view: 'diagramObject',
+};
+
+function createdId(op: BatchOperationType, response: Record<string, unknown> | undefined): string | undefined {
+  const key = CreatedKeys[op];
+  const created = key ? response?.[key] as { id?: unknown } | undefined : undefined;
+  return typeof created?.id === 'string' ? created.id : undefined;
+}
+
+function existingIds(model: ArchiMateModel): Set<string> {
+  const ids = new Set<string>([model.id, ...model.relationships.map((r) => r.id), ...model.diagrams.map((d) => d.id)]);
+  const visit = (folders: ArchiMateModel['folders']): void => {
+    for (const folder of folders) {
+      ids.add(folder.id);
+      for (const element of folder.elements) ids.add(element.id);
+      visit(folder.subfolders);
+    }
+  };
+  visit(model.folders);
+  return ids;
+}
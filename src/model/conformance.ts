@@ -0,0 +1,238 @@
+/**
+ * Model conformance checks: lint a whole model for the structural problems a
+ * hand-edited coArchi repository can contain, and report them as one list of
+ * issues with a severity, a rule name, and the offending IDs.
+ *
+ * Used by the archimate_validate_model MCP tool and by the model-validation
+ * feature test bindings.
+ */
+
+import type {
+  ArchiMateDiagram,
+  ArchiMateFolder,
+  ArchiMateModel,
+  DiagramObject,
+} from './types.js';
+import { LayerFolderTypes, getLayerForElementType } from './types.js';
+import { getAllElements, getRelationshipEnd } from './parser.js';
+import { validateRelationship } from '../relationships/validation.js';
+import { getViewpoint, isAllowedInViewpoint } from './viewpoints.js';
+import { checkJunctions } from './junctions.js';
+import { connectionsFrom } from './view-helpers.js';
+
+export type ConformanceSeverity = 'error' | 'warning';
+
+export type ConformanceRule =
+  | 'invalid-relationship'
+  | 'junction-mixed-types'
+  | 'junction-invalid-path'
+  | 'dangling-relationship-endpoint'
+  | 'dangling-diagram-object'
+  | 'dangling-diagram-connection'
+  | 'duplicate-id'
+  | 'wrong-folder'
+  | 'outside-viewpoint';
+
+export interface ConformanceIssue {
+  severity: ConformanceSeverity;
+  rule: ConformanceRule;
+  message: string;
+  ids: string[];
+}
+
+export interface ConformanceReport {
+  valid: boolean;
+  errorCount: number;
+  warningCount: number;
+  issues: ConformanceIssue[];
+}
+
+export function validateModel(model: ArchiMateModel): ConformanceReport {
+  const issues: ConformanceIssue[] = [
+    ...checkRelationships(model),
+    ...checkJunctions(model).map((issue): ConformanceIssue => ({
+      severity: 'error',
+      rule: issue.kind === 'mixed-types' ? 'junction-mixed-types' : 'junction-invalid-path',
+      message: issue.message,
+      ids: issue.ids,
+    })),
+    ...checkDiagrams(model),
+    ...checkDuplicateIds(model),
+    ...checkFolders(model),
+  ];
+
+  const errorCount = issues.filter((i) => i.severity === 'error').length;
+  return {
+    valid: errorCount === 0,
+    errorCount,
+    warningCount: issues.length - errorCount,
+    issues,
+  };
+}
+
+function checkRelationships(model: ArchiMateModel): ConformanceIssue[] {
+  const issues: ConformanceIssue[] = [];
+
+  for (const rel of model.relationships) {
+    // Either end may be another relationship
+    const source = getRelationshipEnd(model, rel.sourceId);
+    const target = getRelationshipEnd(model, rel.targetId);
+
+    if (!source || !target) {
+      const missing = [!source ? `source ${rel.sourceId}` : null, !target ? `target ${rel.targetId}` : null]
+        .filter(Boolean)
+        .join(' and ');
+      issues.push({
+        severity: 'error',
+        rule: 'dangling-relationship-endpoint',
+        message: `${rel.type} relationship ${rel.id} references missing ${missing}`,
+        ids: [rel.id, ...(!source ? [rel.sourceId] : []), ...(!target ? [rel.targetId] : [])],
+      });
+      continue;
+    }
+
+    const validation = validateRelationship(source.type, target.type, rel.type);
+    if (!validation.valid) {
+      issues.push({
+        severity: 'error',
+        rule: 'invalid-relationship',
+        message: `${validation.error} (relationship ${rel.id})`,
+        ids: [rel.id, source.id, target.id],
+      });
+    }
+  }
+
+  return issues;
+}
+
+/** Objects that should show an element, as opposed to notes, groups, and other view-only objects */
+function isElementObject(obj: DiagramObject): boolean {
+  return (obj.objectType ?? 'Element') === 'Element' && !obj.xml?.attributes?.['xsi:type'];
+}
+
+function checkDiagrams(model: ArchiMateModel): ConformanceIssue[] {
+  const issues: ConformanceIssue[] = [];
+  const elements = new Map(getAllElements(model).map((e) => [e.id, e]));
+  const relationshipIds = new Set(model.relationships.map((r) => r.id));
+  const diagramIds = new Set(model.diagrams.map((d) => d.id));
+
+  function visit(diagram: ArchiMateDiagram, objects: DiagramObject[]): void {
+    const { id: diagramId, name: diagramName } = diagram;
+    const viewpoint = diagram.viewpoint ? getViewpoint(diagram.viewpoint) : undefined;
+    for (const obj of objects) {
+      const element = elements.get(obj.elementId);
+      if (obj.objectType === 'DiagramModelReference' && !diagramIds.has(obj.diagramId ?? '')) {
+        issues.push({
+          severity: 'error',
+          rule: 'dangling-diagram-object',
+          message: `View reference ${obj.id} in view "${diagramName}" references missing view ${obj.diagramId || '(none)'}`,
+          ids: [diagramId, obj.id, ...(obj.diagramId ? [obj.diagramId] : [])],
+        });
+      } else if (isElementObject(obj) && !element) {
+        issues.push({
+          severity: 'error',
+          rule: 'dangling-diagram-object',
+          message: `Diagram object ${obj.id} in view "${diagramName}" references missing element ${obj.elementId || '(none)'}`,
+          ids: [diagramId, obj.id, ...(obj.elementId ? [obj.elementId] : [])],
+        });
+      } else if (isElementObject(obj) && viewpoint && !isAllowedInViewpoint(viewpoint, element!.type)) {
+        issues.push({
+          severity: 'warning',
+          rule: 'outside-viewpoint',
+          message: `${element!.type} "${element!.name}" in view "${diagramName}" is not shown by the ${viewpoint.name} viewpoint`,
+          ids: [diagramId, obj.id, obj.elementId],
+        });
+      }
+
+      for (const conn of connectionsFrom(obj)) {
+        // Connections to notes and groups keep their own XML type and have no relationship
+        if (!conn.xml?.attributes?.['xsi:type'] && !relationshipIds.has(conn.relationshipId)) {
+          issues.push({
+            severity: 'error',
+            rule: 'dangling-diagram-connection',
+            message: `Connection ${conn.id} in view "${diagramName}" references missing relationship ${conn.relationshipId || '(none)'}`,
+            ids: [diagramId, conn.id, ...(conn.relationshipId ? [conn.relationshipId] : [])],
+          });
+        }
+      }
+
+      visit(diagram, obj.children ?? []);
+    }
+  }
+
+  for (const diagram of model.diagrams) {
+    visit(diagram, diagram.objects);
+  }
+
+  return issues;
+}
+
+function checkDuplicateIds(model: ArchiMateModel): ConformanceIssue[] {
+  const seen = new Map<string, string[]>();
+
+  function record(id: string, kind: string): void {
+    if (!id) return;
+    const kinds = seen.get(id) ?? [];
+    kinds.push(kind);
+    seen.set(id, kinds);
+  }
+
+  function visitFolder(folder: ArchiMateFolder): void {
+    record(folder.id, 'folder');
+    for (const element of folder.elements) record(element.id, 'element');
+    folder.subfolders.forEach(visitFolder);
+  }
+
+  function visitObjects(objects: DiagramObject[]): void {
+    for (const obj of objects) {
+      record(obj.id, 'diagram object');
+      for (const conn of connectionsFrom(obj)) record(conn.id, 'connection');
+      visitObjects(obj.children ?? []);
+    }
+  }
+
+  record(model.id, 'model');
+  model.folders.forEach(visitFolder);
+  for (const rel of model.relationships) record(rel.id, 'relationship');
+  for (const diagram of model.diagrams) {
+    record(diagram.id, 'view');
+    visitObjects(diagram.objects);
+  }
+
+  const issues: ConformanceIssue[] = [];
+  for (const [id, kinds] of seen) {
+    if (kinds.length < 2) continue;
+    issues.push({
+      severity: 'error',
+      rule: 'duplicate-id',
+      message: `ID ${id} is used ${kinds.length} times (${kinds.join(', ')})`,
+      ids: [id],
+    });
+  }
+  return issues;
+}
+
+function checkFolders(model: ArchiMateModel): ConformanceIssue[] {
+  const issues: ConformanceIssue[] = [];
+
+  function visit(folder: ArchiMateFolder, rootType: string): void {
+    for (const element of folder.elements) {
+      const expected = LayerFolderTypes[getLayerForElementType(element.type)];
+      if (rootType !== expected) {
+        issues.push({
+          severity: 'warning',
+          rule: 'wrong-folder',
+          message: `${element.type} "${element.name}" is in the "${rootType || folder.name}" folder; expected "${expected}"`,
+          ids: [element.id, folder.id],
+        });
+      }
+    }
+    for (const sub of folder.subfolders) visit(sub, rootType);
+  }
+
+  for (const folder of model.folders) {
+    visit(folder, folder.type);
+  }
+
+  return issues;
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { applyStyle, formatFont, parseFont, styleOf } from './diagram-style.js';
+import type { DiagramConnection, DiagramObject } from './types.js';
+import { createDiagramObject, createDiagramConnection } from '../__tests__/fixtures/sample-model.js';
+
+describe('diagram styles', () => {
+  describe('fonts', () => {
+    it('reads Archi font descriptors with platform details', () => {
+      expect(parseFont('1|Segoe UI|10.0|1|WINDOWS|1|-13|0|0|0|700|0|0|0|0|3|2|1|34|Segoe UI')).toEqual({
+        name: 'Segoe UI',
+        size: 10,
+        bold: true,
+        italic: false,
+      });
+      expect(parseFont('1|Arial|8.5|2|')).toEqual({ name: 'Arial', size: 8.5, bold: false, italic: true });
+      expect(parseFont('not a font')).toBeUndefined();
+      expect(parseFont(undefined)).toBeUndefined();
+    });
+
+    it('writes descriptors Archi reads back', () => {
+      const font = { name: 'Arial', size: 12, bold: true, italic: true };
+      expect(formatFont(font)).toBe('1|Arial|12.0|3|');
+      expect(parseFont(formatFont(font))).toEqual(font);
+    });
+  });
+
+  describe('applyStyle', () => {
+    it('sets the given fields and keeps the others', () => {
+      const obj: DiagramObject = { ...createDiagramObject('e1', 0, 0), fillColor: '#ff0000', lineColor: '#000000' };
+      applyStyle(obj, { fillColor: '#00ff00', textAlignment: 'right' }, false);
+      expect(styleOf(obj)).toEqual({ fillColor: '#00ff00', lineColor: '#000000', textAlignment: 'right' });
+    });
+
+    it('clears fields given as empty strings', () => {
+      const obj: DiagramObject = { ...createDiagramObject('e1', 0, 0), fillColor: '#ff0000', font: '1|Arial|9.0|0|' };
+      applyStyle(obj, { fillColor: '', fontName: '' }, false);
+      expect(obj.fillColor).toBeUndefined();
+      expect(obj.font).toBeUndefined();
+    });
+
+    it('changes one font field at a time, starting from the current font or Archi\'s default', () => {
+      const obj = createDiagramObject('e1', 0, 0);
+      applyStyle(obj, { bold: true }, false);
+      expect(obj.font).toBe('1|Segoe UI|9.0|1|');
+      applyStyle(obj, { fontSize: 14 }, false);
+      expect(parseFont(obj.font)).toEqual({ name: 'Segoe UI', size: 14, bold: true, italic: false });
+    });
+
+    it('rejects invalid values without changing the object', () => {
+      const obj = createDiagramObject('e1', 0, 0);
+      expect(() => applyStyle(obj, { fillColor: 'red' }, false)).toThrow('Invalid fillColor: red');
+      expect(() => applyStyle(obj, { textPosition: 'source' }, false)).toThrow('Invalid text position');
+      expect(() => applyStyle(obj, { lineColor: '#000000', fontSize: 0 }, false)).toThrow('Invalid font size');
+      expect(styleOf(obj)).toEqual({});
+    });
+
+    it('accepts only the fields connections have', () => {
+      const conn: DiagramConnection = createDiagramConnection('o1', 'o2', 'r1');
+      applyStyle(conn, { lineColor: '#808080', textPosition: 'target' }, true);
+      expect(styleOf(conn)).toEqual({ lineColor: '#808080', textPosition: 'target' });
+      expect(() => applyStyle(conn, { fillColor: '#ffffff' }, true)).toThrow('Connections have no fill color');
+      expect(() => applyStyle(conn, { textPosition: 'top' }, true)).toThrow('Invalid text position');
+    });
+  });
+});
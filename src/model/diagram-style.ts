@@ -0,0 +1,140 @@
+/**
+ * Visual style of diagram objects and connections: colors, fonts, and text
+ * placement, stored the way Archi stores them.
+ */
+
+import type {
+  ConnectionStyle,
+  ConnectionTextPosition,
+  DiagramConnection,
+  DiagramObject,
+  DiagramStyle,
+  TextAlignment,
+  TextPosition,
+} from './types.js';
+
+export const TEXT_ALIGNMENTS: TextAlignment[] = ['left', 'center', 'right'];
+export const TEXT_POSITIONS: TextPosition[] = ['top', 'middle', 'bottom'];
+export const CONNECTION_TEXT_POSITIONS: ConnectionTextPosition[] = ['source', 'middle', 'target'];
+
+// Archi's default font on Windows, the base for a font set one field at a time
+const DEFAULT_FONT: FontSpec = { name: 'Segoe UI', size: 9, bold: false, italic: false };
+
+const STYLE_FIELDS = ['fillColor', 'lineColor', 'fontColor', 'font', 'textAlignment', 'textPosition'] as const;
+
+type StyleFields = { [K in (typeof STYLE_FIELDS)[number]]?: string };
+
+export interface FontSpec {
+  name: string;
+  /** Size in points */
+  size: number;
+  bold: boolean;
+  italic: boolean;
+}
+
+/**
+ * Style changes to apply. An empty string clears a field, restoring Archi's
+ * default; fields left undefined are kept.
+ */
+export interface StyleChanges {
+  fillColor?: string;
+  lineColor?: string;
+  fontColor?: string;
+  fontName?: string;
+  fontSize?: number;
+  bold?: boolean;
+  italic?: boolean;
+  textAlignment?: TextAlignment | '';
+  textPosition?: TextPosition | ConnectionTextPosition | '';
+}
+
+/**
+ * Read an Archi font descriptor ("version|name|height|style|..."), where
+ * style bit 1 is bold and bit 2 is italic.
+ */
+export function parseFont(descriptor: string | undefined): FontSpec | undefined {
+  const [, name, height, style] = descriptor?.split('|') ?? [];
+  const size = parseFloat(height);
+  if (!name || Number.isNaN(size)) return undefined;
+  const bits = parseInt(style, 10) || 0;
+  return { name, size, bold: (bits & 1) !== 0, italic: (bits & 2) !== 0 };
+}
+
+/**
+ * Write a font as an Archi font descriptor without platform details, which
+ * Archi fills in for the platform it runs on.
+ */
+export function formatFont(font: FontSpec): string {
+  const style = (font.bold ? 1 : 0) | (font.italic ? 2 : 0);
+  return `1|${font.name}|${font.size.toFixed(1)}|${style}|`;
+}
+
+export function isColor(value: string): boolean {
+  return /^#[0-9a-fA-F]{6}$/.test(value);
+}
+
+/**
+ * The style fields set on a diagram object or connection.
+ */
+export function styleOf(target: DiagramObject | DiagramConnection): DiagramStyle | ConnectionStyle {
+  const fields = target as StyleFields;
+  const style: StyleFields = {};
+  for (const field of STYLE_FIELDS) {
+    if (fields[field]) style[field] = fields[field];
+  }
+  return style as DiagramStyle | ConnectionStyle;
+}
+
+/**
+ * Apply style changes to a diagram object, or to a connection when
+ * `isConnection` is set. Throws when a value is invalid or does not apply
+ * to connections.
+ */
+export function applyStyle(target: DiagramObject | DiagramConnection, changes: StyleChanges, isConnection: boolean): void {
+  for (const field of ['fillColor', 'lineColor', 'fontColor'] as const) {
+    const value = changes[field];
+    if (value !== undefined && value !== '' && !isColor(value)) {
+      throw new Error(`Invalid ${field}: ${value}. Use a "#rrggbb" color`);
+    }
+  }
+  if (isConnection && (changes.fillColor !== undefined || changes.textAlignment !== undefined)) {
+    throw new Error('Connections have no fill color or text alignment');
+  }
+  if (changes.textAlignment && !TEXT_ALIGNMENTS.includes(changes.textAlignment)) {
+    throw new Error(`Invalid text alignment: ${changes.textAlignment}. Use one of: ${TEXT_ALIGNMENTS.join(', ')}`);
+  }
+  const positions: string[] = isConnection ? CONNECTION_TEXT_POSITIONS : TEXT_POSITIONS;
+  if (changes.textPosition && !positions.includes(changes.textPosition)) {
+    throw new Error(`Invalid text position: ${changes.textPosition}. Use one of: ${positions.join(', ')}`);
+  }
+  if (changes.fontName?.includes('|')) {
+    throw new Error(`Invalid font name: ${changes.fontName}`);
+  }
+  if (changes.fontSize !== undefined && !(changes.fontSize > 0)) {
+    throw new Error(`Invalid font size: ${changes.fontSize}`);
+  }
+
+  const fields = target as StyleFields;
+  const set = (field: keyof StyleFields, value: string | undefined): void => {
+    if (value === undefined) return;
+    if (value === '') delete fields[field];
+    else fields[field] = value;
+  };
+  set('fillColor', changes.fillColor);
+  set('lineColor', changes.lineColor);
+  set('fontColor', changes.fontColor);
+  set('textAlignment', changes.textAlignment);
+  set('textPosition', changes.textPosition);
+
+  if (changes.fontName === '') {
+    delete target.font;
+  } else if ([changes.fontName, changes.fontSize, changes.bold, changes.italic].some((v) => v !== undefined)) {
+    const font = parseFont(target.font) ?? DEFAULT_FONT;
+    target.font = formatFont({
+      name: changes.fontName ?? font.name,
+      size: changes.fontSize ?? font.size,
+      bold: changes.bold ?? font.bold,
+      italic: changes.italic ?? font.italic,
+    });
+  }
+}
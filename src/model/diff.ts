@@ -0,0 +1,561 @@
+/**
+ * Semantic model diff.
+ *
+ * Compares two models concept by concept, matching elements, relationships,
+ * views, diagram objects, and connections by ID. The result says what was
+ * added, removed, or changed in ArchiMate terms, so a reviewer can see what an
+ * edit did to a model.archimate without reading the raw XML diff.
+ *
+ * Used by the archimate_diff_models MCP tool.
+ */
+
+import type {
+  ArchiMateDiagram,
+  ArchiMateElement,
+  ArchiMateFolder,
+  ArchiMateModel,
+  ArchiMateProperty,
+  ArchiMateRelationship,
+  DiagramConnection,
+  DiagramObject,
+} from './types.js';
+import { styleOf } from './diagram-style.js';
+import { connectionsFrom } from './view-helpers.js';
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface PropertyChange {
+  key: string;
+  /** Undefined when the property was added */
+  before?: string;
+  /** Undefined when the property was removed */
+  after?: string;
+}
+
+export interface ConceptChange {
+  id: string;
+  type: string;
+  name: string;
+  changes: FieldChange[];
+  properties: PropertyChange[];
+}
+
+export interface ConceptSummary {
+  id: string;
+  type: string;
+  name: string;
+}
+
+export interface DiagramObjectSummary {
+  id: string;
+  elementId: string;
+  elementName: string;
+}
+
+export interface DiagramObjectChange extends DiagramObjectSummary {
+  /** Fields are "element", "parent", "position", "size", "style", and for notes, groups, and view references "text", "name", and "view" */
+  changes: FieldChange[];
+}
+
+export interface DiagramConnectionSummary {
+  id: string;
+  relationshipId: string;
+  sourceId: string;
+  targetId: string;
+}
+
+export interface DiagramConnectionChange extends DiagramConnectionSummary {
+  /** Fields are "relationship", "source", "target", "bendpoints", and "style" */
+  changes: FieldChange[];
+}
+
+export interface DiagramChange {
+  id: string;
+  name: string;
+  changes: FieldChange[];
+  properties: PropertyChange[];
+  objects: {
+    added: DiagramObjectSummary[];
+    removed: DiagramObjectSummary[];
+    changed: DiagramObjectChange[];
+  };
+  connections: {
+    added: DiagramConnectionSummary[];
+    removed: DiagramConnectionSummary[];
+    changed: DiagramConnectionChange[];
+  };
+}
+
+export interface ConceptDiff<TChange> {
+  added: ConceptSummary[];
+  removed: ConceptSummary[];
+  changed: TChange[];
+}
+
+export interface ModelDiff {
+  hasChanges: boolean;
+  model: FieldChange[];
+  modelProperties: PropertyChange[];
+  elements: ConceptDiff<ConceptChange>;
+  relationships: ConceptDiff<ConceptChange>;
+  diagrams: ConceptDiff<DiagramChange>;
+}
+
+export interface ChangeCounts {
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+export interface DiffCounts {
+  elements: ChangeCounts;
+  relationships: ChangeCounts;
+  views: ChangeCounts;
+}
+
+/**
+ * Compare `base` (before) with `target` (after).
+ */
+export function diffModels(base: ArchiMateModel, target: ArchiMateModel): ModelDiff {
+  const baseNames = elementNames(base);
+  const targetNames = elementNames(target);
+
+  const diff: ModelDiff = {
+    hasChanges: false,
+    model: compareFields(base, target, ['name', 'documentation']),
+    modelProperties: diffProperties(base.properties, target.properties),
+    elements: diffConcepts(
+      collectElements(base),
+      collectElements(target),
+      (e) => ({ id: e.id, type: e.type, name: e.name }),
+      (before, after) => compareFields(before, after, ['type', 'name', 'documentation', 'folder'])
+    ),
+    relationships: diffConcepts(
+      base.relationships,
+      target.relationships,
+      (r) => ({ id: r.id, type: r.type, name: relationshipLabel(r, { ...baseNames, ...targetNames }) }),
+      (before, after) =>
+        compareFields(before, after, ['type', 'name', 'documentation', 'sourceId', 'targetId', 'accessType', 'influenceModifier'])
+    ),
+    diagrams: { added: [], removed: [], changed: [] },
+  };
+
+  const baseDiagrams = new Map(base.diagrams.map((d) => [d.id, d]));
+  const targetDiagrams = new Map(target.diagrams.map((d) => [d.id, d]));
+  for (const diagram of target.diagrams) {
+    if (!baseDiagrams.has(diagram.id)) {
+      diff.diagrams.added.push({ id: diagram.id, type: 'View', name: diagram.name });
+    }
+  }
+  for (const diagram of base.diagrams) {
+    const after = targetDiagrams.get(diagram.id);
+    if (!after) {
+      diff.diagrams.removed.push({ id: diagram.id, type: 'View', name: diagram.name });
+      continue;
+    }
+    const change = diffDiagram(diagram, after, baseNames, targetNames);
+    if (change) {
+      diff.diagrams.changed.push(change);
+    }
+  }
+
+  diff.hasChanges =
+    diff.model.length + diff.modelProperties.length > 0 ||
+    [diff.elements, diff.relationships, diff.diagrams].some(
+      (d) => d.added.length > 0 || d.removed.length > 0 || d.changed.length > 0
+    );
+  return diff;
+}
+
+/**
+ * Number of added, removed, and changed concepts of each kind in a diff.
+ */
+export function countChanges(diff: ModelDiff): DiffCounts {
+  const count = <T>(d: ConceptDiff<T>): ChangeCounts => ({
+    added: d.added.length,
+    removed: d.removed.length,
+    changed: d.changed.length,
+  });
+  return {
+    elements: count(diff.elements),
+    relationships: count(diff.relationships),
+    views: count(diff.diagrams),
+  };
+}
+
+// =============================================================================
+// Concepts
+// =============================================================================
+
+interface Concept {
+  id: string;
+  properties?: ArchiMateProperty[];
+}
+
+function diffConcepts<T extends Concept>(
+  base: T[],
+  target: T[],
+  summarize: (concept: T) => ConceptSummary,
+  compare: (before: T, after: T) => FieldChange[]
+): ConceptDiff<ConceptChange> {
+  const result: ConceptDiff<ConceptChange> = { added: [], removed: [], changed: [] };
+  const baseById = new Map(base.map((c) => [c.id, c]));
+  const targetById = new Map(target.map((c) => [c.id, c]));
+
+  for (const concept of target) {
+    if (!baseById.has(concept.id)) {
+      result.added.push(summarize(concept));
+    }
+  }
+  for (const before of base) {
+    const after = targetById.get(before.id);
+    if (!after) {
+      result.removed.push(summarize(before));
+      continue;
+    }
+    const changes = compare(before, after);
+    const properties = diffProperties(before.properties, after.properties);
+    if (changes.length > 0 || properties.length > 0) {
+      result.changed.push({ ...summarize(after), changes, properties });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Compare properties by key. Repeated keys are compared as one
+ * comma-separated value.
+ */
+function diffProperties(
+  base: ArchiMateProperty[] | undefined,
+  target: ArchiMateProperty[] | undefined
+): PropertyChange[] {
+  const before = groupProperties(base);
+  const after = groupProperties(target);
+  const changes: PropertyChange[] = [];
+
+  for (const [key, value] of before) {
+    const next = after.get(key);
+    if (next === undefined) {
+      changes.push({ key, before: value });
+    } else if (next !== value) {
+      changes.push({ key, before: value, after: next });
+    }
+  }
+  for (const [key, value] of after) {
+    if (!before.has(key)) {
+      changes.push({ key, after: value });
+    }
+  }
+  return changes;
+}
+
+function groupProperties(properties: ArchiMateProperty[] | undefined): Map<string, string> {
+  const grouped = new Map<string, string>();
+  for (const { key, value } of properties ?? []) {
+    const existing = grouped.get(key);
+    grouped.set(key, existing === undefined ? value : `${existing}, ${value}`);
+  }
+  return grouped;
+}
+
+function compareFields<T extends object>(before: T, after: T, fields: string[]): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const field of fields) {
+    const a = normalize((before as Record<string, unknown>)[field]);
+    const b = normalize((after as Record<string, unknown>)[field]);
+    if (JSON.stringify(a) !== JSON.stringify(b)) {
+      changes.push({ field, before: a, after: b });
+    }
+  }
+  return changes;
+}
+
+/** Treat missing and empty optional values as the same */
+function normalize(value: unknown): unknown {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (Array.isArray(value) && value.length === 0) return undefined;
+  return value;
+}
+
+/** Elements with a "folder" field holding their folder path, for folder moves */
+function collectElements(model: ArchiMateModel): Array<ArchiMateElement & { folder: string }> {
+  const elements: Array<ArchiMateElement & { folder: string }> = [];
+
+  function visit(folder: ArchiMateFolder, path: string): void {
+    for (const element of folder.elements) {
+      elements.push({ ...element, folder: path });
+    }
+    for (const sub of folder.subfolders) {
+      visit(sub, `${path}/${sub.name}`);
+    }
+  }
+
+  model.folders.forEach((f) => visit(f, f.name));
+  return elements;
+}
+
+function elementNames(model: ArchiMateModel): Record<string, string> {
+  return Object.fromEntries(collectElements(model).map((e) => [e.id, e.name]));
+}
+
+function relationshipLabel(rel: ArchiMateRelationship, names: Record<string, string>): string {
+  const label = `${names[rel.sourceId] ?? rel.sourceId} → ${names[rel.targetId] ?? rel.targetId}`;
+  return rel.name ? `${rel.name} (${label})` : label;
+}
+
+// =============================================================================
+// Diagrams
+// =============================================================================
+
+/** Label for a note, group, or view reference, which have no element name */
+function objectLabel(obj: DiagramObject): string {
+  switch (obj.objectType) {
+    case 'Note':
+      return `Note: ${(obj.content ?? '').split(/\r?\n/)[0]}`;
+    case 'Group':
+      return `Group: ${obj.name ?? ''}`;
+    case 'DiagramModelReference':
+      return `View reference: ${obj.diagramId ?? ''}`;
+    default:
+      return obj.elementId;
+  }
+}
+
+interface FlatObject {
+  object: DiagramObject;
+  parentId: string | null;
+}
+
+function flattenObjects(objects: DiagramObject[], parentId: string | null = null, into = new Map<string, FlatObject>()) {
+  for (const object of objects) {
+    into.set(object.id, { object, parentId });
+    flattenObjects(object.children ?? [], object.id, into);
+  }
+  return into;
+}
+
+function collectConnections(objects: Map<string, FlatObject>): Map<string, DiagramConnection> {
+  const connections = new Map<string, DiagramConnection>();
+  for (const { object } of objects.values()) {
+    for (const conn of connectionsFrom(object)) {
+      connections.set(conn.id, conn);
+    }
+  }
+  return connections;
+}
+
+function diffDiagram(
+  base: ArchiMateDiagram,
+  target: ArchiMateDiagram,
+  baseNames: Record<string, string>,
+  targetNames: Record<string, string>
+): DiagramChange | null {
+  const change: DiagramChange = {
+    id: target.id,
+    name: target.name,
+    changes: compareFields(base, target, ['name', 'viewpoint', 'documentation']),
+    properties: diffProperties(base.properties, target.properties),
+    objects: { added: [], removed: [], changed: [] },
+    connections: { added: [], removed: [], changed: [] },
+  };
+
+  const beforeObjects = flattenObjects(base.objects);
+  const afterObjects = flattenObjects(target.objects);
+  const summarizeObject = (obj: DiagramObject, names: Record<string, string>): DiagramObjectSummary => ({
+    id: obj.id,
+    elementId: obj.elementId,
+    elementName: obj.objectType ? objectLabel(obj) : names[obj.elementId] ?? obj.elementId,
+  });
+
+  for (const [id, { object }] of afterObjects) {
+    if (!beforeObjects.has(id)) {
+      change.objects.added.push(summarizeObject(object, targetNames));
+    }
+  }
+  for (const [id, before] of beforeObjects) {
+    const after = afterObjects.get(id);
+    if (!after) {
+      change.objects.removed.push(summarizeObject(before.object, baseNames));
+      continue;
+    }
+    const fields: FieldChange[] = [];
+    const b = before.object.bounds;
+    const a = after.object.bounds;
+    if (before.object.elementId !== after.object.elementId) {
+      fields.push({ field: 'element', before: before.object.elementId, after: after.object.elementId });
+    }
+    if (before.parentId !== after.parentId) {
+      fields.push({ field: 'parent', before: before.parentId, after: after.parentId });
+    }
+    if (b.x !== a.x || b.y !== a.y) {
+      fields.push({ field: 'position', before: { x: b.x, y: b.y }, after: { x: a.x, y: a.y } });
+    }
+    if (b.width !== a.width || b.height !== a.height) {
+      fields.push({ field: 'size', before: { width: b.width, height: b.height }, after: { width: a.width, height: a.height } });
+    }
+    fields.push(...compareFields({ style: styleOf(before.object) }, { style: styleOf(after.object) }, ['style']));
+    if (before.object.content !== after.object.content) {
+      fields.push({ field: 'text', before: before.object.content, after: after.object.content });
+    }
+    if (before.object.name !== after.object.name) {
+      fields.push({ field: 'name', before: before.object.name, after: after.object.name });
+    }
+    if (before.object.diagramId !== after.object.diagramId) {
+      fields.push({ field: 'view', before: before.object.diagramId, after: after.object.diagramId });
+    }
+    if (fields.length > 0) {
+      change.objects.changed.push({ ...summarizeObject(after.object, targetNames), changes: fields });
+    }
+  }
+
+  const beforeConnections = collectConnections(beforeObjects);
+  const afterConnections = collectConnections(afterObjects);
+  const summarizeConnection = (conn: DiagramConnection): DiagramConnectionSummary => ({
+    id: conn.id,
+    relationshipId: conn.relationshipId,
+    sourceId: conn.sourceId,
+    targetId: conn.targetId,
+  });
+
+  for (const [id, conn] of afterConnections) {
+    if (!beforeConnections.has(id)) {
+      change.connections.added.push(summarizeConnection(conn));
+    }
+  }
+  for (const [id, before] of beforeConnections) {
+    const after = afterConnections.get(id);
+    if (!after) {
+      change.connections.removed.push(summarizeConnection(before));
+      continue;
+    }
+    const fields = compareFields(
+      { relationship: before.relationshipId, source: before.sourceId, target: before.targetId, bendpoints: before.bendpoints, style: styleOf(before) },
+      { relationship: after.relationshipId, source: after.sourceId, target: after.targetId, bendpoints: after.bendpoints, style: styleOf(after) },
+      ['relationship', 'source', 'target', 'bendpoints', 'style']
+    );
+    if (fields.length > 0) {
+      change.connections.changed.push({ ...summarizeConnection(after), changes: fields });
+    }
+  }
+
+  const unchanged =
+    change.changes.length + change.properties.length === 0 &&
+    [change.objects, change.connections].every(
+      (d) => d.added.length === 0 && d.removed.length === 0 && d.changed.length === 0
+    );
+  return unchanged ? null : change;
+}
+
+// =============================================================================
+// Markdown
+// =============================================================================
+
+/**
+ * Render a diff as a Markdown change summary for reviewers.
+ */
+export function formatDiffMarkdown(diff: ModelDiff, title: string = 'Model changes'): string {
+  const lines: string[] = [`# ${title}`, ''];
+
+  if (!diff.hasChanges) {
+    lines.push('No changes.');
+    return lines.join('\n') + '\n';
+  }
+
+  const count = (d: ConceptDiff<unknown>) => `${d.added.length} added, ${d.removed.length} removed, ${d.changed.length} changed`;
+  lines.push(`- Elements: ${count(diff.elements)}`);
+  lines.push(`- Relationships: ${count(diff.relationships)}`);
+  lines.push(`- Views: ${count(diff.diagrams)}`);
+  lines.push('');
+
+  if (diff.model.length + diff.modelProperties.length > 0) {
+    lines.push('## Model', '');
+    for (const change of diff.model) {
+      lines.push(`- ${formatFieldChange(change)}`);
+    }
+    for (const prop of diff.modelProperties) {
+      lines.push(`- ${formatPropertyChange(prop)}`);
+    }
+    lines.push('');
+  }
+
+  formatConceptSection(lines, 'Elements', diff.elements);
+  formatConceptSection(lines, 'Relationships', diff.relationships);
+
+  if (diff.diagrams.added.length + diff.diagrams.removed.length + diff.diagrams.changed.length > 0) {
+    lines.push('## Views', '');
+    for (const view of diff.diagrams.added) lines.push(`- Added view "${view.name}" (\`${view.id}\`)`);
+    for (const view of diff.diagrams.removed) lines.push(`- Removed view "${view.name}" (\`${view.id}\`)`);
+    for (const view of diff.diagrams.changed) {
+      lines.push(`- Changed view "${view.name}" (\`${view.id}\`)`);
+      for (const change of view.changes) lines.push(`  - ${formatFieldChange(change)}`);
+      for (const prop of view.properties) lines.push(`  - ${formatPropertyChange(prop)}`);
+      for (const obj of view.objects.added) lines.push(`  - Added "${obj.elementName}"`);
+      for (const obj of view.objects.removed) lines.push(`  - Removed "${obj.elementName}"`);
+      for (const obj of view.objects.changed) {
+        lines.push(`  - "${obj.elementName}": ${obj.changes.map(formatObjectChange).join('; ')}`);
+      }
+      const connections = view.connections;
+      if (connections.added.length > 0) lines.push(`  - ${connections.added.length} connection(s) added`);
+      if (connections.removed.length > 0) lines.push(`  - ${connections.removed.length} connection(s) removed`);
+      if (connections.changed.length > 0) lines.push(`  - ${connections.changed.length} connection(s) rerouted`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+function formatConceptSection(lines: string[], heading: string, diff: ConceptDiff<ConceptChange>): void {
+  if (diff.added.length + diff.removed.length + diff.changed.length === 0) return;
+
+  lines.push(`## ${heading}`, '');
+  for (const c of diff.added) lines.push(`- Added ${c.type} "${c.name}" (\`${c.id}\`)`);
+  for (const c of diff.removed) lines.push(`- Removed ${c.type} "${c.name}" (\`${c.id}\`)`);
+  for (const c of diff.changed) {
+    lines.push(`- Changed ${c.type} "${c.name}" (\`${c.id}\`)`);
+    for (const change of c.changes) lines.push(`  - ${formatFieldChange(change)}`);
+    for (const prop of c.properties) lines.push(`  - ${formatPropertyChange(prop)}`);
+  }
+  lines.push('');
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '(none)';
+  if (typeof value === 'string') return `"${value}"`;
+  return JSON.stringify(value);
+}
+
+function formatFieldChange(change: FieldChange): string {
+  return `${change.field}: ${formatValue(change.before)} → ${formatValue(change.after)}`;
+}
+
+function formatPropertyChange(change: PropertyChange): string {
+  if (change.before === undefined) return `property \`${change.key}\` added: ${formatValue(change.after)}`;
+  if (change.after === undefined) return `property \`${change.key}\` removed (was ${formatValue(change.before)})`;
+  return `property \`${change.key}\`: ${formatValue(change.before)} → ${formatValue(change.after)}`;
+}
+
+function formatObjectChange(change: FieldChange): string {
+  switch (change.field) {
+    case 'position': {
+      const b = change.before as { x: number; y: number };
+      const a = change.after as { x: number; y: number };
+      return `moved (${b.x}, ${b.y}) → (${a.x}, ${a.y})`;
+    }
+    case 'size': {
+      const b = change.before as { width: number; height: number };
+      const a = change.after as { width: number; height: number };
+      return `resized ${b.width}×${b.height} → ${a.width}×${a.height}`;
+    }
+    case 'parent':
+      return `reparented ${formatValue(change.before)} → ${formatValue(change.after)}`;
+    default:
+      return formatFieldChange(change);
+  }
+}
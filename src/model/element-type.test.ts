@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { checkElementTypeChange } from './element-type.js';
+import type { ArchiMateElement, ArchiMateModel, ElementType } from './types.js';
+import { addRelationshipToModel } from './writer.js';
+import {
+  createEmptyModel,
+  createElement,
+  createRelationship,
+  addElementToModel,
+  resetIdCounter,
+} from '../__tests__/fixtures/sample-model.js';
+
+describe('element type changes', () => {
+  let model: ArchiMateModel;
+
+  beforeEach(() => {
+    resetIdCounter();
+    model = createEmptyModel();
+  });
+
+  function add(type: ElementType, name: string): ArchiMateElement {
+    const element = createElement(type, name);
+    addElementToModel(model, element);
+    return element;
+  }
+
+  it('reports only the relationships the new type makes invalid', () => {
+    const process = add('BusinessProcess', 'Handle Claim');
+    const actor = add('BusinessActor', 'Clerk');
+    const event = add('BusinessEvent', 'Claim Received');
+    const assignment = createRelationship('Assignment', actor.id, process.id);
+    const triggering = createRelationship('Triggering', event.id, process.id);
+    addRelationshipToModel(model, assignment);
+    addRelationshipToModel(model, triggering);
+
+    expect(checkElementTypeChange(model, process.id, 'BusinessFunction')).toEqual([]);
+
+    const invalidated = checkElementTypeChange(model, process.id, 'BusinessObject');
+    expect(invalidated.map((i) => i.relationship)).toEqual([assignment, triggering]);
+    expect(invalidated[0]).toMatchObject({
+      source: { id: actor.id, type: 'BusinessActor', name: 'Clerk' },
+      target: { id: process.id, type: 'BusinessObject', name: 'Handle Claim' },
+      convertTo: 'Association',
+    });
+  });
+
+  it('applies the new type to both ends of a self-relationship and keeps relationship ends', () => {
+    const component = add('ApplicationComponent', 'CRM');
+    const serving = createRelationship('Serving', component.id, component.id);
+    const note = createRelationship('Association', component.id, serving.id);
+    addRelationshipToModel(model, serving);
+    addRelationshipToModel(model, note);
+
+    const invalidated = checkElementTypeChange(model, component.id, 'ApplicationEvent');
+    expect(invalidated.map((i) => i.relationship)).toEqual([serving]);
+    expect(invalidated[0].source.type).toBe('ApplicationEvent');
+    expect(invalidated[0].target.type).toBe('ApplicationEvent');
+  });
+});
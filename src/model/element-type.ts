@@ -0,0 +1,58 @@
+/**
+ * Element type changes. An element keeps its ID, name, documentation,
+ * properties, and diagram objects when its type changes, but the
+ * relationships attached to it are valid only between certain types, so a
+ * change is checked against the relationship table first. A relationship the
+ * new type makes invalid can be converted to an Association, which is valid
+ * between any two concepts, or removed.
+ *
+ * Used by archimate_change_element_type.
+ */
+
+import type { ArchiMateModel, ArchiMateRelationship, ElementType, RelationshipType } from './types.js';
+import { getModelIndex } from './model-index.js';
+import { getRelationshipEnd, type RelationshipEnd } from './parser.js';
+import { getValidRelationshipTypes } from '../relationships/validation.js';
+
+export interface InvalidatedRelationship {
+  relationship: ArchiMateRelationship;
+  /** The ends of the relationship, with the element's new type */
+  source: RelationshipEnd;
+  target: RelationshipEnd;
+  /** The relationship types valid between the ends with the new type */
+  validTypes: RelationshipType[];
+  /** The type the relationship converts to, or undefined when it can only be removed */
+  convertTo?: RelationshipType;
+}
+
+/**
+ * The relationships attached to an element that would be invalid if the
+ * element had another type, in model order.
+ */
+export function checkElementTypeChange(
+  model: ArchiMateModel,
+  elementId: string,
+  type: ElementType
+): InvalidatedRelationship[] {
+  const end = (id: string): RelationshipEnd | undefined => {
+    const found = getRelationshipEnd(model, id);
+    return found && id === elementId ? { ...found, type } : found;
+  };
+
+  const invalidated: InvalidatedRelationship[] = [];
+  for (const relationship of getModelIndex(model).getRelationshipsForElement(elementId, 'both')) {
+    const source = end(relationship.sourceId);
+    const target = end(relationship.targetId);
+    if (!source || !target) continue;
+    const validTypes = getValidRelationshipTypes(source.type, target.type);
+    if (validTypes.includes(relationship.type)) continue;
+    invalidated.push({
+      relationship,
+      source,
+      target,
+      validTypes,
+      convertTo: validTypes.includes('Association') ? 'Association' : undefined,
+    });
+  }
+  return invalidated;
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  checkFolderTarget,
+  createFolder,
+  deleteFolder,
+  findFolderLocation,
+  getConceptFolder,
+  getFolderContents,
+  moveToFolder,
+  renameFolder,
+} from './folders.js';
+import { ModelHistory, editFoldersCommand, editModelCommand, updateElementCommand } from './history.js';
+import { getModelIndex } from './model-index.js';
+import { parseModelXml } from './parser.js';
+import { serializeModel } from './writer.js';
+import type { ArchiMateElement, ArchiMateFolder, ArchiMateModel, ArchiMateRelationship } from './types.js';
+import {
+  createEmptyModel,
+  createElement,
+  createRelationship,
+  addElementToModel,
+  resetIdCounter,
+} from '../__tests__/fixtures/sample-model.js';
+
+describe('folders', () => {
+  let model: ArchiMateModel;
+  let crm: ArchiMateElement;
+  let process: ArchiMateElement;
+  let serving: ArchiMateRelationship;
+
+  const topLevel = (type: string): ArchiMateFolder => model.folders.find((f) => f.type === type)!;
+
+  beforeEach(() => {
+    resetIdCounter();
+    model = createEmptyModel();
+    crm = createElement('ApplicationComponent', 'CRM');
+    process = createElement('BusinessProcess', 'Handle Order');
+    addElementToModel(model, crm);
+    addElementToModel(model, process);
+    serving = createRelationship('Serving', crm.id, process.id);
+    model.relationships.push(serving);
+  });
+
+  it('locates nested folders with their parent, top-level folder, and path', () => {
+    const sales = createFolder(model, topLevel('application').id, 'Sales');
+    const emea = createFolder(model, sales.id, 'EMEA');
+
+    expect(findFolderLocation(model, emea.id)).toEqual({
+      folder: emea,
+      parent: sales,
+      root: topLevel('application'),
+      path: ['Application', 'Sales', 'EMEA'],
+    });
+    expect(findFolderLocation(model, 'id-missing')).toBeUndefined();
+  });
+
+  it('keeps the model index in step when elements move', () => {
+    const sales = createFolder(model, topLevel('application').id, 'Sales');
+    getModelIndex(model);
+
+    expect(moveToFolder(model, [crm.id, crm.id], sales.id)).toEqual([
+      { kind: 'element', id: crm.id, name: 'CRM', rootType: 'application' },
+    ]);
+    expect(getModelIndex(model).getElementFolder(crm.id)).toBe(sales);
+    expect(topLevel('application').elements).toEqual([]);
+  });
+
+  it('moves nothing when one concept cannot go to the folder', () => {
+    const sales = createFolder(model, topLevel('application').id, 'Sales');
+
+    expect(() => moveToFolder(model, [crm.id, process.id], sales.id)).toThrow('belongs in "Business"');
+    expect(sales.elements).toEqual([]);
+    expect(checkFolderTarget(model, sales.id, 'application', 'a Node')).toBeUndefined();
+    expect(checkFolderTarget(model, 'id-missing', 'application', 'a Node')).toBe('Folder not found: id-missing');
+  });
+
+  it('refuses to rename, move, or delete top-level folders', () => {
+    expect(() => renameFolder(model, topLevel('business').id, 'Operations')).toThrow('is a top-level folder');
+    expect(() => deleteFolder(model, topLevel('business').id, true)).toThrow('is a top-level folder');
+    expect(() => createFolder(model, topLevel('business').id, '  ')).toThrow('must not be empty');
+  });
+
+  it('records relationships in the folder they move to, and back in the top-level folder', () => {
+    const integration = createFolder(model, topLevel('relations').id, 'Integration');
+    const nested = createFolder(model, integration.id, 'Nested');
+
+    moveToFolder(model, [serving.id], integration.id);
+    expect(integration.xml?.children).toEqual([
+      { known: 'folder', id: nested.id },
+      { known: 'element', id: serving.id },
+    ]);
+    const concept = { kind: 'relationship' as const, id: serving.id, name: '', rootType: 'relations' };
+    expect(getConceptFolder(model, concept)).toBe(integration);
+
+    moveToFolder(model, [serving.id], topLevel('relations').id);
+    expect(integration.xml?.children).toEqual([{ known: 'folder', id: nested.id }]);
+    expect(getConceptFolder(model, concept)).toBe(topLevel('relations'));
+  });
+
+  it('moves the relationships of a deleted folder to its parent folder', () => {
+    const integration = createFolder(model, topLevel('relations').id, 'Integration');
+    const apis = createFolder(model, integration.id, 'APIs');
+    moveToFolder(model, [serving.id], apis.id);
+
+    deleteFolder(model, apis.id, true);
+
+    expect(integration.subfolders).toEqual([]);
+    expect(getFolderContents(model, integration).relationships).toEqual([serving]);
+    const reread = parseModelXml(serializeModel(model));
+    expect(getFolderContents(reread, findFolderLocation(reread, integration.id)!.folder).relationships.map((r) => r.id))
+      .toEqual([serving.id]);
+  });
+
+  it('undoes and redoes folder edits as recorded', () => {
+    const history = new ModelHistory();
+    let sales: ArchiMateFolder | undefined;
+    history.execute(model, editFoldersCommand('Create folder', (m) => {
+      sales = createFolder(m, topLevel('application').id, 'Sales');
+      moveToFolder(m, [crm.id], sales.id);
+    }));
+
+    history.undo(model);
+    expect(topLevel('application').subfolders).toEqual([]);
+    expect(topLevel('application').elements).toEqual([crm]);
+    expect(getModelIndex(model).getElementFolder(crm.id)).toBe(topLevel('application'));
+
+    history.redo(model);
+    expect(topLevel('application').subfolders).toEqual([sales]);
+    expect(sales!.elements).toEqual([crm]);
+    expect(getModelIndex(model).getElementFolder(crm.id)).toBe(sales);
+  });
+
+  it('keeps edits made by other commands when whole-model commands replace the objects in between', () => {
+    const history = new ModelHistory();
+    let sales: ArchiMateFolder | undefined;
+    history.execute(model, editFoldersCommand('Create folder', (m) => {
+      sales = createFolder(m, topLevel('application').id, 'Sales');
+      moveToFolder(m, [crm.id], sales.id);
+    }));
+    history.execute(model, updateElementCommand(crm.id, { name: 'Renamed' }));
+    history.execute(model, editModelCommand('No change', () => {}));
+
+    history.undo(model);
+    history.undo(model);
+    history.undo(model);
+    expect(topLevel('application').subfolders).toEqual([]);
+    expect(topLevel('application').elements.map((e) => e.name)).toEqual(['CRM']);
+    expect(getModelIndex(model).getElement(crm.id)?.name).toBe('CRM');
+
+    history.redo(model);
+    history.redo(model);
+    history.redo(model);
+    const redone = findFolderLocation(model, sales!.id)!.folder;
+    expect(redone.elements.map((e) => e.name)).toEqual(['Renamed']);
+    expect(redone.elements[0]).toBe(getModelIndex(model).getElement(crm.id));
+  });
+});
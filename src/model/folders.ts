@@ -0,0 +1,286 @@
+/**
+ * User folders: creating, renaming, moving, and deleting the subfolders of
+ * the top-level folders, and moving elements, relationships, and views
+ * between folders. Archi keeps each kind of concept under its own top-level
+ * folder (the layer folders, Relations, and Views), so folders and concepts
+ * only move within that folder's tree.
+ *
+ * Elements live in their folder. Relationships and views live in the model's
+ * lists; the folder they are saved to is recorded in the folder's XML
+ * extension, the way the parser records the ones it reads from subfolders
+ * (see placeConcepts in writer.ts). Those not recorded in any folder are
+ * saved to the top-level Relations or Views folder.
+ *
+ * Used by the folder MCP tools and by the folder_id argument of the tools
+ * that create concepts.
+ */
+
+import type { ArchiMateDiagram, ArchiMateFolder, ArchiMateModel, ArchiMateRelationship, XmlChildSlot } from './types.js';
+import { getModelIndex, invalidateModelIndex } from './model-index.js';
+import { generateId, getFolderTypeForElement, homeFolder } from './writer.js';
+
+export type FolderConceptKind = 'element' | 'relationship' | 'view';
+
+export interface FolderLocation {
+  folder: ArchiMateFolder;
+  /** Undefined for a top-level folder */
+  parent?: ArchiMateFolder;
+  /** The top-level folder the folder is in, itself for a top-level folder */
+  root: ArchiMateFolder;
+  /** Folder names from the top-level folder down to this one */
+  path: string[];
+}
+
+export interface FolderConcept {
+  kind: FolderConceptKind;
+  id: string;
+  name: string;
+  /** Type of the top-level folder the concept belongs under */
+  rootType: string;
+}
+
+export interface FolderContents {
+  elements: ArchiMateFolder['elements'];
+  relationships: ArchiMateRelationship[];
+  views: ArchiMateDiagram[];
+}
+
+/**
+ * Find a folder anywhere in the folder tree.
+ */
+export function findFolderLocation(model: ArchiMateModel, folderId: string): FolderLocation | undefined {
+  const visit = (
+    folders: ArchiMateFolder[],
+    parent: ArchiMateFolder | undefined,
+    root: ArchiMateFolder | undefined,
+    path: string[]
+  ): FolderLocation | undefined => {
+    for (const folder of folders) {
+      const location = { folder, parent, root: root ?? folder, path: [...path, folder.name] };
+      if (folder.id === folderId) return location;
+      const found = visit(folder.subfolders, folder, location.root, location.path);
+      if (found) return found;
+    }
+    return undefined;
+  };
+  return visit(model.folders, undefined, undefined, []);
+}
+
+/**
+ * The element, relationship, or view with an ID, among the concepts that are
+ * kept in folders.
+ */
+export function findFolderConcept(model: ArchiMateModel, id: string): FolderConcept | undefined {
+  const index = getModelIndex(model);
+  const element = index.getElement(id);
+  if (element) {
+    return { kind: 'element', id, name: element.name, rootType: getFolderTypeForElement(element.type) };
+  }
+  const relationship = index.getRelationship(id);
+  if (relationship) {
+    return { kind: 'relationship', id, name: relationship.name ?? '', rootType: 'relations' };
+  }
+  const view = model.diagrams.find((d) => d.id === id);
+  if (view) {
+    return { kind: 'view', id, name: view.name, rootType: 'diagrams' };
+  }
+  return undefined;
+}
+
+/**
+ * The folder a concept is kept in, or saved to for relationships and views.
+ */
+export function getConceptFolder(model: ArchiMateModel, concept: FolderConcept): ArchiMateFolder | undefined {
+  if (concept.kind === 'element') {
+    return getModelIndex(model).getElementFolder(concept.id);
+  }
+  return recordedFolders(model).get(concept.id) ?? homeFolder(model, concept.kind === 'view' ? 'diagrams' : 'relations');
+}
+
+/**
+ * The concepts directly in each folder, by folder ID.
+ */
+export function getAllFolderContents(model: ArchiMateModel): Map<string, FolderContents> {
+  const contents = new Map<string, FolderContents>();
+  const visit = (folder: ArchiMateFolder): void => {
+    contents.set(folder.id, { elements: folder.elements, relationships: [], views: [] });
+    folder.subfolders.forEach(visit);
+  };
+  model.folders.forEach(visit);
+
+  const recorded = recordedFolders(model);
+  const folderOf = (id: string, kind: 'relations' | 'diagrams') =>
+    contents.get((recorded.get(id) ?? homeFolder(model, kind))?.id ?? '');
+  for (const rel of model.relationships) folderOf(rel.id, 'relations')?.relationships.push(rel);
+  for (const view of model.diagrams) folderOf(view.id, 'diagrams')?.views.push(view);
+  return contents;
+}
+
+/**
+ * The concepts directly in a folder.
+ */
+export function getFolderContents(model: ArchiMateModel, folder: ArchiMateFolder): FolderContents {
+  return getAllFolderContents(model).get(folder.id) ?? { elements: folder.elements, relationships: [], views: [] };
+}
+
+/**
+ * Why a concept that belongs under a type of top-level folder cannot go to a
+ * folder, or undefined when it can.
+ */
+export function checkFolderTarget(model: ArchiMateModel, folderId: string, rootType: string, what: string): string | undefined {
+  const target = findFolderLocation(model, folderId);
+  if (!target) return `Folder not found: ${folderId}`;
+  if (target.root.type === rootType) return undefined;
+  const root = model.folders.find((f) => f.type === rootType);
+  return `Folder "${target.folder.name}" is in the top-level folder "${target.root.name}"; ${what} belongs in ${root ? `"${root.name}"` : 'another top-level folder'} or one of its subfolders`;
+}
+
+/**
+ * Create a user folder at the end of a folder's subfolders.
+ */
+export function createFolder(model: ArchiMateModel, parentId: string, name: string): ArchiMateFolder {
+  const parent = findFolderLocation(model, parentId);
+  if (!parent) throw new Error(`Folder not found: ${parentId}`);
+  if (!name.trim()) throw new Error('Folder name must not be empty');
+
+  const folder: ArchiMateFolder = { id: generateId(), name, type: '', elements: [], subfolders: [] };
+  parent.folder.subfolders.push(folder);
+  return folder;
+}
+
+export function renameFolder(model: ArchiMateModel, folderId: string, name: string): void {
+  const location = userFolder(model, folderId);
+  if (!name.trim()) throw new Error('Folder name must not be empty');
+  location.folder.name = name;
+}
+
+/**
+ * Move a user folder, with everything in it, into another folder of the same
+ * top-level folder.
+ */
+export function moveFolder(model: ArchiMateModel, folderId: string, parentId: string): void {
+  const location = userFolder(model, folderId);
+  const target = findFolderLocation(model, parentId);
+  if (!target) throw new Error(`Folder not found: ${parentId}`);
+  if (target.root !== location.root) {
+    throw new Error(`Folder "${location.folder.name}" can only move within the top-level folder "${location.root.name}"`);
+  }
+  if (containsFolder(location.folder, parentId)) {
+    throw new Error(`Folder "${location.folder.name}" cannot move into itself or one of its subfolders`);
+  }
+  if (target.folder === location.parent) return;
+
+  location.parent!.subfolders = location.parent!.subfolders.filter((f) => f !== location.folder);
+  target.folder.subfolders.push(location.folder);
+}
+
+/**
+ * Delete a user folder. A folder that is not empty is only deleted when its
+ * contents are to move to its parent folder.
+ */
+export function deleteFolder(model: ArchiMateModel, folderId: string, moveContentsToParent = false): void {
+  const location = userFolder(model, folderId);
+  const { folder } = location;
+  const parent = location.parent!;
+  const contents = getFolderContents(model, folder);
+  const placed = [...contents.relationships, ...contents.views];
+  const count = folder.subfolders.length + contents.elements.length + placed.length;
+  if (count > 0 && !moveContentsToParent) {
+    throw new Error(`Folder "${folder.name}" is not empty (${count} item(s)); move or delete its contents first, or move them to the parent folder`);
+  }
+
+  const at = parent.subfolders.indexOf(folder);
+  parent.subfolders = [...parent.subfolders.slice(0, at), ...parent.subfolders.slice(at + 1), ...folder.subfolders];
+  parent.elements = [...parent.elements, ...folder.elements];
+  for (const concept of placed) recordIn(model, parent, concept.id);
+  invalidateModelIndex(model);
+}
+
+/**
+ * Move elements, relationships, and views into a folder of the top-level
+ * folder they belong under. Nothing moves when any of them cannot.
+ */
+export function moveToFolder(model: ArchiMateModel, conceptIds: string[], folderId: string): FolderConcept[] {
+  const target = findFolderLocation(model, folderId);
+  if (!target) throw new Error(`Folder not found: ${folderId}`);
+
+  const concepts: FolderConcept[] = [];
+  for (const id of new Set(conceptIds)) {
+    const concept = findFolderConcept(model, id);
+    if (!concept) throw new Error(`Element, relationship, or view not found: ${id}`);
+    const problem = checkFolderTarget(model, folderId, concept.rootType, `${concept.kind} "${concept.name || id}"`);
+    if (problem) throw new Error(problem);
+    concepts.push(concept);
+  }
+
+  const index = getModelIndex(model);
+  for (const concept of concepts) {
+    if (concept.kind === 'element') {
+      const from = index.getElementFolder(concept.id)!;
+      if (from === target.folder) continue;
+      const element = index.getElement(concept.id)!;
+      from.elements = from.elements.filter((e) => e !== element);
+      target.folder.elements.push(element);
+    } else {
+      recordIn(model, target.folder, concept.id);
+    }
+  }
+  invalidateModelIndex(model);
+  return concepts;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function userFolder(model: ArchiMateModel, folderId: string): FolderLocation {
+  const location = findFolderLocation(model, folderId);
+  if (!location) throw new Error(`Folder not found: ${folderId}`);
+  if (!location.parent) {
+    throw new Error(`"${location.folder.name}" is a top-level folder; only user folders can be renamed, moved, or deleted`);
+  }
+  return location;
+}
+
+function containsFolder(folder: ArchiMateFolder, folderId: string): boolean {
+  return folder.id === folderId || folder.subfolders.some((sub) => containsFolder(sub, folderId));
+}
+
+/** The folder each relationship and view is recorded in, as placeConcepts reads them */
+function recordedFolders(model: ArchiMateModel): Map<string, ArchiMateFolder> {
+  const recorded = new Map<string, ArchiMateFolder>();
+  const visit = (folder: ArchiMateFolder): void => {
+    for (const slot of folder.xml?.children ?? []) {
+      if (isConceptSlot(slot) && slot.id && !recorded.has(slot.id)) recorded.set(slot.id, folder);
+    }
+    folder.subfolders.forEach(visit);
+  };
+  model.folders.forEach(visit);
+  return recorded;
+}
+
+/**
+ * Record that a relationship or view is saved to a folder, in place of any
+ * folder it was recorded in. The top-level Relations and Views folders need
+ * no record.
+ */
+function recordIn(model: ArchiMateModel, folder: ArchiMateFolder, id: string): void {
+  const visit = (f: ArchiMateFolder): void => {
+    if (f.xml?.children?.some((slot) => isConceptSlot(slot) && slot.id === id)) {
+      f.xml = { ...f.xml, children: f.xml.children.filter((slot) => !(isConceptSlot(slot) && slot.id === id)) };
+    }
+    f.subfolders.forEach(visit);
+  };
+  model.folders.forEach(visit);
+
+  if (folder === homeFolder(model, 'relations') || folder === homeFolder(model, 'diagrams')) return;
+  const children: XmlChildSlot[] = folder.xml?.children ?? [
+    ...folder.subfolders.map((f) => ({ known: 'folder', id: f.id })),
+    ...folder.elements.map((e) => ({ known: 'element', id: e.id })),
+  ];
+  folder.xml = { ...folder.xml, children: [...children, { known: 'element', id }] };
+}
+
+function isConceptSlot(slot: XmlChildSlot): slot is { known: string; id?: string } {
+  return 'known' in slot && slot.known === 'element';
+}
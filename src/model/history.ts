@@ -0,0 +1,629 @@
+/**
+ * Undo/redo history for model mutations.
+ *
+ * Every mutating MCP tool runs its change as a `ModelCommand`: an `apply` step
+ * that performs the change through the writer functions, and a `revert` step
+ * that applies the inverse operation. `ModelHistory` keeps the applied commands
+ * on an undo stack so an agent session can be rolled back step by step, and
+ * keeps undone commands on a redo stack until a new change is made.
+ *
+ * Commands capture whatever they need to invert themselves the first time they
+ * are applied (folder positions, removed relationships, diagram contents), so
+ * redo reproduces exactly the same IDs and ordering as the original call.
+ */
+
+import type {
+  ArchiMateDiagram,
+  ArchiMateElement,
+  ArchiMateFolder,
+  ArchiMateModel,
+  ArchiMateProperty,
+  ArchiMateRelationship,
+  DiagramObject,
+  ElementType,
+} from './types.js';
+import {
+  addDiagramToModel,
+  addElementToModel,
+  addRelationshipToModel,
+  changeElementTypeInModel,
+  getAttachedRelationships,
+  getFolderTypeForElement,
+  removeElementFromModel,
+  removeRelationshipFromModel,
+  updateElementInModel,
+  updateRelationshipInModel,
+  type RelationshipUpdates,
+} from './writer.js';
+import { getModelIndex, invalidateModelIndex } from './model-index.js';
+import { findPropertyOwner } from './properties.js';
+import { allDiagramConnections } from './view-helpers.js';
+
+export interface ModelCommand {
+  description: string;
+  apply(model: ArchiMateModel): void;
+  revert(model: ArchiMateModel): void;
+}
+
+export interface HistoryEntry {
+  sequence: number;
+  description: string;
+  timestamp: string;
+}
+
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+export class ModelHistory {
+  private undoStack: Array<{ entry: HistoryEntry; command: ModelCommand }> = [];
+  private redoStack: Array<{ entry: HistoryEntry; command: ModelCommand }> = [];
+  private nextSequence = 1;
+  /** Sequence of the oldest state still known: 0 until entries fall off the undo stack */
+  private floor = 0;
+  private savedSequence = 0;
+
+  constructor(private readonly limit: number = DEFAULT_HISTORY_LIMIT) {}
+
+  /**
+   * Apply a command to the model and record it. Clears the redo stack.
+   */
+  execute(model: ArchiMateModel, command: ModelCommand): HistoryEntry {
+    command.apply(model);
+
+    const entry: HistoryEntry = {
+      sequence: this.nextSequence++,
+      description: command.description,
+      timestamp: new Date().toISOString(),
+    };
+    this.undoStack.push({ entry, command });
+    if (this.undoStack.length > this.limit) {
+      this.floor = this.undoStack.shift()!.entry.sequence;
+    }
+    this.redoStack = [];
+
+    return entry;
+  }
+
+  /**
+   * Revert the most recent command. Returns null when there is nothing to undo.
+   */
+  undo(model: ArchiMateModel): HistoryEntry | null {
+    const item = this.undoStack.pop();
+    if (!item) return null;
+    item.command.revert(model);
+    this.redoStack.push(item);
+    return item.entry;
+  }
+
+  /**
+   * Re-apply the most recently undone command. Returns null when there is nothing to redo.
+   */
+  redo(model: ArchiMateModel): HistoryEntry | null {
+    const item = this.redoStack.pop();
+    if (!item) return null;
+    item.command.apply(model);
+    this.undoStack.push(item);
+    return item.entry;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * List recorded commands, oldest first. The last `undo` entry is the one
+   * the next undo reverts; the last `redo` entry is the one the next redo applies.
+   */
+  getEntries(): { undo: HistoryEntry[]; redo: HistoryEntry[] } {
+    return {
+      undo: this.undoStack.map((item) => item.entry),
+      redo: this.redoStack.map((item) => item.entry),
+    };
+  }
+
+  /**
+   * Record that the model, as it is now, has been written to its file.
+   */
+  markSaved(): void {
+    this.savedSequence = this.currentSequence();
+  }
+
+  /**
+   * Whether the model differs from what was last opened or saved. Undoing
+   * back to the saved state makes it unmodified again.
+   */
+  isModified(): boolean {
+    return this.currentSequence() !== this.savedSequence;
+  }
+
+  clear(): void {
+    this.floor = this.currentSequence();
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  // The sequence of the last applied entry identifies the model's state
+  private currentSequence(): number {
+    return this.undoStack[this.undoStack.length - 1]?.entry.sequence ?? this.floor;
+  }
+}
+
+// =============================================================================
+// Commands
+// =============================================================================
+
+export function addElementCommand(element: ArchiMateElement): ModelCommand {
+  return {
+    description: `Create ${element.type} "${element.name}"`,
+    apply: (model) => {
+      addElementToModel(model, element);
+    },
+    revert: (model) => {
+      removeElementFromModel(model, element.id);
+    },
+  };
+}
+
+export function removeElementCommand(element: ArchiMateElement): ModelCommand {
+  let location: { folder: ArchiMateFolder; index: number } | null = null;
+  let relationships: Array<{ index: number; relationship: ArchiMateRelationship }> = [];
+  let diagrams = new Map<string, DiagramObject[]>();
+
+  return {
+    description: `Delete ${element.type} "${element.name}"`,
+    apply: (model) => {
+      location = findElementLocation(model.folders, element.id);
+      relationships = indexedRelationships(model, getAttachedRelationships(model, [element.id]));
+      diagrams = snapshotDiagrams(model, (obj) => obj.elementId === element.id);
+
+      removeElementFromModel(model, element.id);
+    },
+    revert: (model) => {
+      const folder = location && findFolder(model.folders, location.folder.id);
+      if (folder) {
+        folder.elements.splice(location!.index, 0, element);
+      }
+      for (const { index, relationship } of relationships) {
+        model.relationships.splice(index, 0, relationship);
+      }
+      restoreDiagrams(model, diagrams);
+    },
+  };
+}
+
+export function updateElementCommand(
+  elementId: string,
+  updates: Partial<Pick<ArchiMateElement, 'name' | 'documentation' | 'properties'>>
+): ModelCommand {
+  let previous: Partial<Pick<ArchiMateElement, 'name' | 'documentation' | 'properties'>> = {};
+
+  return {
+    description: `Update element ${elementId} (${Object.keys(updates).join(', ')})`,
+    apply: (model) => {
+      const element = findElement(model.folders, elementId);
+      // Throwing keeps the history from recording an update of nothing
+      if (!element) {
+        throw new Error(`Element not found: ${elementId}`);
+      }
+      previous = {};
+      for (const key of Object.keys(updates) as Array<keyof typeof updates>) {
+        (previous as Record<string, unknown>)[key] = element[key];
+      }
+      updateElementInModel(model, elementId, updates);
+    },
+    revert: (model) => {
+      const element = findElement(model.folders, elementId);
+      if (element) {
+        Object.assign(element, previous);
+      }
+    },
+  };
+}
+
+/**
+ * Change an element's type. Attached relationships and the element's folder
+ * are changed by separate steps.
+ */
+export function changeElementTypeCommand(elementId: string, type: ElementType): ModelCommand {
+  let previous: ElementType | undefined;
+
+  return {
+    description: `Change type of element ${elementId} to ${type}`,
+    apply: (model) => {
+      previous = getModelIndex(model).getElement(elementId)?.type;
+      changeElementTypeInModel(model, elementId, type);
+    },
+    revert: (model) => {
+      if (previous) changeElementTypeInModel(model, elementId, previous);
+    },
+  };
+}
+
+/**
+ * Set the properties of an element, relationship, view, or the model.
+ */
+export function setPropertiesCommand(
+  conceptId: string,
+  description: string,
+  properties: ArchiMateProperty[]
+): ModelCommand {
+  let previous: ArchiMateProperty[] | undefined;
+
+  return {
+    description,
+    apply: (model) => {
+      const owner = findPropertyOwner(model, conceptId);
+      if (owner) {
+        previous = owner.concept.properties;
+        owner.concept.properties = structuredClone(properties);
+      }
+    },
+    revert: (model) => {
+      const owner = findPropertyOwner(model, conceptId);
+      if (owner) {
+        owner.concept.properties = previous;
+      }
+    },
+  };
+}
+
+export function addRelationshipCommand(relationship: ArchiMateRelationship): ModelCommand {
+  return {
+    description: `Create ${relationship.type} relationship ${relationship.sourceId} -> ${relationship.targetId}`,
+    apply: (model) => {
+      addRelationshipToModel(model, relationship);
+    },
+    revert: (model) => {
+      removeRelationshipFromModel(model, relationship.id);
+    },
+  };
+}
+
+export function removeRelationshipCommand(relationship: ArchiMateRelationship): ModelCommand {
+  let relationships: Array<{ index: number; relationship: ArchiMateRelationship }> = [];
+  let diagrams = new Map<string, DiagramObject[]>();
+
+  return {
+    description: `Delete ${relationship.type} relationship ${relationship.sourceId} -> ${relationship.targetId}`,
+    apply: (model) => {
+      // Relationships on this one go with it
+      relationships = indexedRelationships(model, [relationship, ...getAttachedRelationships(model, [relationship.id])]);
+      const removedIds = new Set(relationships.map(({ relationship: r }) => r.id));
+      diagrams = snapshotDiagrams(model, (obj) =>
+        allDiagramConnections([obj]).some((c) => removedIds.has(c.relationshipId))
+      );
+      removeRelationshipFromModel(model, relationship.id);
+    },
+    revert: (model) => {
+      for (const { index, relationship: removed } of relationships) {
+        model.relationships.splice(index, 0, removed);
+      }
+      restoreDiagrams(model, diagrams);
+    },
+  };
+}
+
+/**
+ * Update a relationship's type, endpoints, or attributes. View connections
+ * are reconnected by separate editDiagramCommand steps.
+ */
+export function updateRelationshipCommand(relationshipId: string, updates: RelationshipUpdates): ModelCommand {
+  let previous: ArchiMateRelationship | undefined;
+
+  return {
+    description: `Update relationship ${relationshipId} (${Object.keys(updates).join(', ')})`,
+    apply: (model) => {
+      const relationship = getModelIndex(model).getRelationship(relationshipId);
+      previous = relationship ? { ...relationship } : undefined;
+      updateRelationshipInModel(model, relationshipId, updates);
+    },
+    revert: (model) => {
+      const relationship = getModelIndex(model).getRelationship(relationshipId);
+      if (relationship && previous) {
+        delete relationship.accessType;
+        delete relationship.influenceModifier;
+        Object.assign(relationship, previous);
+        invalidateModelIndex(model);
+      }
+    },
+  };
+}
+
+export function addDiagramCommand(diagram: ArchiMateDiagram): ModelCommand {
+  return {
+    description: `Create view "${diagram.name}"`,
+    apply: (model) => {
+      addDiagramToModel(model, diagram);
+    },
+    revert: (model) => {
+      model.diagrams = model.diagrams.filter((d) => d.id !== diagram.id);
+    },
+  };
+}
+
+/**
+ * Replace the whole content of the model, e.g. with a merge result. The model
+ * object itself is kept so that open sessions stay attached to it.
+ */
+export function replaceModelCommand(description: string, next: ArchiMateModel): ModelCommand {
+  let previous: ArchiMateModel | null = null;
+
+  return {
+    description,
+    apply: (model) => {
+      previous = structuredClone(model);
+      replaceContents(model, structuredClone(next));
+    },
+    revert: (model) => {
+      if (previous) {
+        replaceContents(model, structuredClone(previous));
+      }
+    },
+  };
+}
+
+/**
+ * Group several commands into one history entry. Undo reverts them in
+ * reverse order.
+ */
+export function compositeCommand(description: string, commands: ModelCommand[]): ModelCommand {
+  return {
+    description,
+    apply: (model) => {
+      for (const command of commands) command.apply(model);
+    },
+    revert: (model) => {
+      for (const command of [...commands].reverse()) command.revert(model);
+    },
+  };
+}
+
+/**
+ * Wrap an arbitrary edit of one view's diagram objects and connections.
+ * The edit runs once; undo restores the view contents from before the edit
+ * and redo restores the contents produced by the edit.
+ */
+export function editDiagramCommand(
+  diagramId: string,
+  description: string,
+  edit: (diagram: ArchiMateDiagram) => void
+): ModelCommand {
+  let before: DiagramObject[] | null = null;
+  let after: DiagramObject[] | null = null;
+
+  return {
+    description,
+    apply: (model) => {
+      const diagram = model.diagrams.find((d) => d.id === diagramId);
+      if (!diagram) return;
+      if (after) {
+        diagram.objects = structuredClone(after);
+        return;
+      }
+      before = structuredClone(diagram.objects);
+      edit(diagram);
+      after = structuredClone(diagram.objects);
+    },
+    revert: (model) => {
+      const diagram = model.diagrams.find((d) => d.id === diagramId);
+      if (diagram && before) {
+        diagram.objects = structuredClone(before);
+      }
+    },
+  };
+}
+
+/**
+ * Wrap an arbitrary edit of the folder tree: folders created, renamed, moved,
+ * or deleted, and concepts moved between folders. The edit runs once; undo
+ * restores every folder's name, subfolders, elements, and XML extension from
+ * before the edit and redo those produced by the edit. Folders are recorded
+ * by value and elements by ID, so changes other commands make to them in
+ * between are kept.
+ */
+export function editFoldersCommand(description: string, edit: (model: ArchiMateModel) => void): ModelCommand {
+  let before: FolderTreeSnapshot | null = null;
+  let after: FolderTreeSnapshot | null = null;
+  // Folders the edit creates or deletes, kept while they are out of the tree
+  const detached = new Map<string, ArchiMateFolder>();
+
+  return {
+    description,
+    apply: (model) => {
+      if (after) {
+        restoreFolderTree(model, after, detached);
+        return;
+      }
+      before = snapshotFolderTree(model);
+      edit(model);
+      after = snapshotFolderTree(model);
+    },
+    revert: (model) => {
+      if (before) restoreFolderTree(model, before, detached);
+    },
+  };
+}
+
+/**
+ * Wrap an arbitrary edit that reaches across the model: elements,
+ * relationships, views, and folders at once. The edit runs once; undo
+ * restores a copy of the model from before the edit and redo a copy of the
+ * model the edit produced.
+ */
+export function editModelCommand(description: string, edit: (model: ArchiMateModel) => void): ModelCommand {
+  let before: ArchiMateModel | null = null;
+  let after: ArchiMateModel | null = null;
+
+  return {
+    description,
+    apply: (model) => {
+      if (after) {
+        replaceContents(model, structuredClone(after));
+        return;
+      }
+      before = structuredClone(model);
+      edit(model);
+      after = structuredClone(model);
+    },
+    revert: (model) => {
+      if (before) replaceContents(model, structuredClone(before));
+    },
+  };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function replaceContents(model: ArchiMateModel, source: ArchiMateModel): void {
+  for (const key of Object.keys(model)) {
+    delete (model as unknown as Record<string, unknown>)[key];
+  }
+  Object.assign(model, source);
+}
+
+function findFolder(folders: ArchiMateFolder[], folderId: string): ArchiMateFolder | undefined {
+  for (const folder of folders) {
+    if (folder.id === folderId) return folder;
+    const found = findFolder(folder.subfolders, folderId);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function findElement(folders: ArchiMateFolder[], elementId: string): ArchiMateElement | undefined {
+  return findElementLocation(folders, elementId)?.folder.elements.find((e) => e.id === elementId);
+}
+
+function findElementLocation(
+  folders: ArchiMateFolder[],
+  elementId: string
+): { folder: ArchiMateFolder; index: number } | null {
+  for (const folder of folders) {
+    const index = folder.elements.findIndex((e) => e.id === elementId);
+    if (index >= 0) return { folder, index };
+    const found = findElementLocation(folder.subfolders, elementId);
+    if (found) return found;
+  }
+  return null;
+}
+
+/** Relationships of the model with their positions, in model order */
+function indexedRelationships(
+  model: ArchiMateModel,
+  relationships: ArchiMateRelationship[]
+): Array<{ index: number; relationship: ArchiMateRelationship }> {
+  const ids = new Set(relationships.map((r) => r.id));
+  return model.relationships
+    .map((relationship, index) => ({ index, relationship }))
+    .filter(({ relationship }) => ids.has(relationship.id));
+}
+
+/**
+ * Deep-copy the object tree of every diagram containing an object that matches.
+ */
+function snapshotDiagrams(
+  model: ArchiMateModel,
+  matches: (obj: DiagramObject) => boolean
+): Map<string, DiagramObject[]> {
+  const snapshots = new Map<string, DiagramObject[]>();
+
+  function containsMatch(objects: DiagramObject[]): boolean {
+    return objects.some((obj) => matches(obj) || containsMatch(obj.children ?? []));
+  }
+
+  for (const diagram of model.diagrams) {
+    if (containsMatch(diagram.objects)) {
+      snapshots.set(diagram.id, structuredClone(diagram.objects));
+    }
+  }
+  return snapshots;
+}
+
+function restoreDiagrams(model: ArchiMateModel, snapshots: Map<string, DiagramObject[]>): void {
+  for (const [diagramId, objects] of snapshots) {
+    const diagram = model.diagrams.find((d) => d.id === diagramId);
+    if (diagram) {
+      diagram.objects = structuredClone(objects);
+    }
+  }
+}
+
+/**
+ * A folder as recorded by value: its own fields, and its elements and
+ * subfolders by ID, so a restore keeps the elements the model holds by then.
+ */
+interface FolderSnapshot {
+  folder: Omit<ArchiMateFolder, 'elements' | 'subfolders'>;
+  elementIds: string[];
+  subfolders: FolderSnapshot[];
+}
+
+type FolderTreeSnapshot = FolderSnapshot[];
+
+function snapshotFolderTree(model: ArchiMateModel): FolderTreeSnapshot {
+  const visit = ({ elements, subfolders, ...folder }: ArchiMateFolder): FolderSnapshot => ({
+    folder: structuredClone(folder),
+    elementIds: elements.map((e) => e.id),
+    subfolders: subfolders.map(visit),
+  });
+  return model.folders.map(visit);
+}
+
+/**
+ * Rebuild the folder tree from a snapshot, reusing the model's current folder
+ * and element objects by ID. Whole-model commands replace those objects with
+ * copies, so objects held since the snapshot may no longer be the model's.
+ * Folders that leave the tree go to `detached`, to be reused if they return.
+ */
+function restoreFolderTree(
+  model: ArchiMateModel,
+  snapshot: FolderTreeSnapshot,
+  detached: Map<string, ArchiMateFolder>
+): void {
+  const folders = new Map<string, ArchiMateFolder>();
+  const elements = new Map<string, { element: ArchiMateElement; folderId: string }>();
+  const collect = (folder: ArchiMateFolder): void => {
+    folders.set(folder.id, folder);
+    for (const element of folder.elements) {
+      if (!elements.has(element.id)) elements.set(element.id, { element, folderId: folder.id });
+    }
+    folder.subfolders.forEach(collect);
+  };
+  model.folders.forEach(collect);
+
+  const placed = new Set<string>();
+  const restored = new Map<string, ArchiMateFolder>();
+  const build = ({ folder: fields, elementIds, subfolders }: FolderSnapshot): ArchiMateFolder => {
+    const folder = folders.get(fields.id) ?? detached.get(fields.id) ?? { ...structuredClone(fields), elements: [], subfolders: [] };
+    detached.delete(fields.id);
+    folder.name = fields.name;
+    folder.type = fields.type;
+    if (fields.xml) folder.xml = structuredClone(fields.xml);
+    else delete folder.xml;
+    folder.elements = elementIds.flatMap((id) => {
+      const found = elements.get(id);
+      if (!found || placed.has(id)) return [];
+      placed.add(id);
+      return [found.element];
+    });
+    folder.subfolders = subfolders.map(build);
+    restored.set(folder.id, folder);
+    return folder;
+  };
+  model.folders = snapshot.map(build);
+  for (const [id, folder] of folders) {
+    if (!restored.has(id)) detached.set(id, folder);
+  }
+
+  // Elements the snapshot does not know stay in their folder, or go to the top-level folder for their type
+  for (const [id, { element, folderId }] of elements) {
+    if (placed.has(id)) continue;
+    const home = restored.get(folderId) ?? model.folders.find((f) => f.type === getFolderTypeForElement(element.type));
+    home?.elements.push(element);
+  }
+  invalidateModelIndex(model);
+}
@@ -7,7 +7,7 @@
  */
 
 import type { ArchiMateModel } from './types.js';
-import { getElementById, getRelationshipsForElement } from './parser.js';
+import { getModelIndex } from './model-index.js';
 
 export type ImpactDirection = 'incoming' | 'outgoing' | 'both';
 
@@ -37,7 +37,8 @@ export function analyzeImpact(
   direction: ImpactDirection = DEFAULT_IMPACT_DIRECTION,
   maxDepth: number = DEFAULT_IMPACT_DEPTH
 ): ImpactAnalysisResult | null {
-  const rootElement = getElementById(model, elementId);
+  const index = getModelIndex(model);
+  const rootElement = index.getElement(elementId);
   if (!rootElement) return null;
 
   const visited = new Set<string>();
@@ -47,13 +48,13 @@ export function analyzeImpact(
     if (depth > maxDepth || visited.has(id)) return;
     visited.add(id);
 
-    const rels = getRelationshipsForElement(model, id, direction);
+    const rels = index.getRelationshipsForElement(id, direction);
     for (const rel of rels) {
       const isSource = rel.sourceId === id;
       const otherId = isSource ? rel.targetId : rel.sourceId;
 
       if (!visited.has(otherId)) {
-        const other = getElementById(model, otherId);
+        const other = index.getElement(otherId);
         impact.push({
           depth,
           direction: isSource ? 'outgoing' : 'incoming',
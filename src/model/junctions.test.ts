@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { checkJunctions, checkJunctionRelationship } from './junctions.js';
+import type { ArchiMateElement, ArchiMateModel, ElementType } from './types.js';
+import { addRelationshipToModel } from './writer.js';
+import {
+  createEmptyModel,
+  createElement,
+  createRelationship,
+  addElementToModel,
+  resetIdCounter,
+} from '../__tests__/fixtures/sample-model.js';
+
+describe('junctions', () => {
+  let model: ArchiMateModel;
+
+  beforeEach(() => {
+    resetIdCounter();
+    model = createEmptyModel();
+  });
+
+  function add(type: ElementType, name: string): ArchiMateElement {
+    const element = type === 'Junction' ? { ...createElement(type, name), junctionType: 'and' as const } : createElement(type, name);
+    addElementToModel(model, element);
+    return element;
+  }
+
+  it('accepts relationships of one type that are valid along every path', () => {
+    const receive = add('BusinessProcess', 'Receive Claim');
+    const junction = add('Junction', '');
+    const assess = add('BusinessProcess', 'Assess Claim');
+    const notify = add('BusinessEvent', 'Claim Registered');
+    addRelationshipToModel(model, createRelationship('Triggering', receive.id, junction.id));
+    addRelationshipToModel(model, createRelationship('Triggering', junction.id, assess.id));
+    addRelationshipToModel(model, createRelationship('Triggering', junction.id, notify.id));
+
+    expect(checkJunctions(model)).toEqual([]);
+  });
+
+  it('reports relationships of different types on one junction', () => {
+    const receive = add('BusinessProcess', 'Receive Claim');
+    const junction = add('Junction', '');
+    const assess = add('BusinessProcess', 'Assess Claim');
+    const into = createRelationship('Triggering', receive.id, junction.id);
+    const out = createRelationship('Flow', junction.id, assess.id);
+    addRelationshipToModel(model, into);
+    addRelationshipToModel(model, out);
+
+    expect(checkJunctions(model)).toEqual([{
+      kind: 'mixed-types',
+      message: `Relationships on junction ${junction.id} mix Triggering, Flow; all relationships on a junction must have the same type`,
+      ids: [junction.id, into.id, out.id],
+    }]);
+  });
+
+  it('checks paths through chains of junctions', () => {
+    const component = add('ApplicationComponent', 'CRM');
+    const first = add('Junction', '');
+    const second = add('Junction', '');
+    const service = add('ApplicationService', 'Customer Data');
+    const data = add('DataObject', 'Customer');
+    const into = createRelationship('Realization', component.id, first.id);
+    const between = createRelationship('Realization', first.id, second.id);
+    const toService = createRelationship('Realization', second.id, service.id);
+    const toData = createRelationship('Realization', second.id, data.id);
+    for (const rel of [into, between, toService, toData]) addRelationshipToModel(model, rel);
+
+    const issues = checkJunctions(model);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ kind: 'invalid-path', ids: [first.id, second.id, into.id, toData.id] });
+    expect(issues[0].message).toContain('between ApplicationComponent "CRM" and DataObject "Customer"');
+  });
+
+  it('tells why a new relationship would break a junction', () => {
+    const receive = add('BusinessProcess', 'Receive Claim');
+    const junction = add('Junction', '');
+    const assess = add('BusinessProcess', 'Assess Claim');
+    addRelationshipToModel(model, createRelationship('Triggering', receive.id, junction.id));
+
+    expect(checkJunctionRelationship(model, createRelationship('Triggering', junction.id, assess.id))).toBeUndefined();
+    expect(checkJunctionRelationship(model, createRelationship('Flow', junction.id, assess.id))).toContain('mix Triggering, Flow');
+    expect(model.relationships).toHaveLength(1);
+  });
+});
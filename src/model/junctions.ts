@@ -0,0 +1,110 @@
+/**
+ * Junction checks. A junction joins or splits relationships of one type, so
+ * the relationships on it must all have that type, and the type must be
+ * valid from every element a path enters by to every element a path leaves
+ * by. Junctions connected to each other are checked together, as one
+ * junction.
+ *
+ * Used by archimate_validate_model, and by archimate_create_relationship and
+ * archimate_update_relationship to refuse relationships that would break a
+ * junction.
+ */
+
+import type { ArchiMateElement, ArchiMateModel, ArchiMateRelationship } from './types.js';
+import { getModelIndex } from './model-index.js';
+import { isValidRelationship } from '../relationships/validation.js';
+
+export interface JunctionIssue {
+  kind: 'mixed-types' | 'invalid-path';
+  message: string;
+  /** The junctions, then the relationships involved */
+  ids: string[];
+}
+
+/**
+ * Problems with the junctions of a model, given its relationships (the
+ * model's own by default).
+ */
+export function checkJunctions(
+  model: ArchiMateModel,
+  relationships: ArchiMateRelationship[] = model.relationships
+): JunctionIssue[] {
+  const index = getModelIndex(model);
+  const isJunction = (id: string) => index.getElement(id)?.type === 'Junction';
+
+  const onJunction = new Map<string, ArchiMateRelationship[]>();
+  for (const rel of relationships) {
+    for (const end of new Set([rel.sourceId, rel.targetId])) {
+      if (!isJunction(end)) continue;
+      if (!onJunction.has(end)) onJunction.set(end, []);
+      onJunction.get(end)!.push(rel);
+    }
+  }
+
+  const issues: JunctionIssue[] = [];
+  const visited = new Set<string>();
+  for (const start of onJunction.keys()) {
+    if (visited.has(start)) continue;
+    // Gather the junctions reachable through each other and their relationships
+    const junctions = [start];
+    const joined = new Set<ArchiMateRelationship>();
+    visited.add(start);
+    for (let i = 0; i < junctions.length; i++) {
+      for (const rel of onJunction.get(junctions[i]) ?? []) {
+        joined.add(rel);
+        for (const end of [rel.sourceId, rel.targetId]) {
+          if (isJunction(end) && !visited.has(end)) {
+            visited.add(end);
+            junctions.push(end);
+          }
+        }
+      }
+    }
+    issues.push(...checkJoinedRelationships(junctions, [...joined], (id) => index.getElement(id)));
+  }
+  return issues;
+}
+
+/**
+ * Why a new or changed relationship would break a junction it joins, or
+ * undefined when it would not.
+ */
+export function checkJunctionRelationship(model: ArchiMateModel, relationship: ArchiMateRelationship): string | undefined {
+  const relationships = [...model.relationships.filter((r) => r.id !== relationship.id), relationship];
+  return checkJunctions(model, relationships).find((issue) => issue.ids.includes(relationship.id))?.message;
+}
+
+function checkJoinedRelationships(
+  junctions: string[],
+  relationships: ArchiMateRelationship[],
+  getElement: (id: string) => ArchiMateElement | undefined
+): JunctionIssue[] {
+  const label = junctions.length === 1 ? `junction ${junctions[0]}` : `junctions ${junctions.join(', ')}`;
+  const types = [...new Set(relationships.map((r) => r.type))];
+  if (types.length > 1) {
+    return [{
+      kind: 'mixed-types',
+      message: `Relationships on ${label} mix ${types.join(', ')}; all relationships on a junction must have the same type`,
+      ids: [...junctions, ...relationships.map((r) => r.id)],
+    }];
+  }
+
+  const type = types[0];
+  const isJunction = (id: string) => junctions.includes(id);
+  const entries = relationships.filter((r) => !isJunction(r.sourceId));
+  const exits = relationships.filter((r) => !isJunction(r.targetId));
+  const issues: JunctionIssue[] = [];
+  for (const entry of entries) {
+    const source = getElement(entry.sourceId);
+    for (const exit of exits) {
+      const target = getElement(exit.targetId);
+      if (!source || !target || isValidRelationship(source.type, target.type, type)) continue;
+      issues.push({
+        kind: 'invalid-path',
+        message: `${type} is not a valid relationship between ${source.type} "${source.name}" and ${target.type} "${target.name}", so the path through ${label} is invalid`,
+        ids: [...junctions, entry.id, exit.id],
+      });
+    }
+  }
+  return issues;
+}
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { layoutView } from './layout.js';
+import { absoluteBoundsMap, allDiagramObjects, bendpointPosition } from './view-helpers.js';
+import type { ArchiMateDiagram, ArchiMateModel, DiagramBounds, DiagramObject, ElementType } from './types.js';
+import {
+  createEmptyModel,
+  createElement,
+  createRelationship,
+  createDiagram,
+  createDiagramObject,
+  createDiagramConnection,
+  addElementToModel,
+  resetIdCounter,
+} from '../__tests__/fixtures/sample-model.js';
+
+let model: ArchiMateModel;
+let view: ArchiMateDiagram;
+
+function addObject(type: ElementType, name: string, x = 0, y = 0, parent?: DiagramObject): DiagramObject {
+  const element = createElement(type, name);
+  addElementToModel(model, element);
+  const obj = createDiagramObject(element.id, x, y);
+  if (parent) parent.children!.push(obj);
+  else view.objects.push(obj);
+  return obj;
+}
+
+function connect(source: DiagramObject, target: DiagramObject): void {
+  const rel = createRelationship('Serving', source.elementId, target.elementId);
+  model.relationships.push(rel);
+  const conn = createDiagramConnection(source.id, target.id, rel.id);
+  source.sourceConnections!.push(conn);
+  target.targetConnectionIds = [...(target.targetConnectionIds ?? []), conn.id];
+}
+
+function overlaps(a: DiagramBounds, b: DiagramBounds): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+function expectNoOverlaps(objects: DiagramObject[]): void {
+  for (let i = 0; i < objects.length; i++) {
+    for (let j = i + 1; j < objects.length; j++) {
+      expect(overlaps(objects[i].bounds, objects[j].bounds), `${objects[i].id} overlaps ${objects[j].id}`).toBe(false);
+    }
+  }
+}
+
+describe('layoutView', () => {
+  beforeEach(() => {
+    resetIdCounter();
+    model = createEmptyModel();
+    view = createDiagram('V');
+    model.diagrams.push(view);
+  });
+
+  describe('layered mode', () => {
+    it('ranks objects by ArchiMate layer without overlaps', () => {
+      const server = addObject('Node', 'Server');
+      const app = addObject('ApplicationComponent', 'CRM');
+      const process = addObject('BusinessProcess', 'Sell');
+      const actor = addObject('BusinessActor', 'Clerk');
+      connect(server, app);
+      connect(app, process);
+
+      const result = layoutView(model, view);
+
+      expect(process.bounds.y).toBe(actor.bounds.y);
+      expect(app.bounds.y).toBeGreaterThan(process.bounds.y + process.bounds.height);
+      expect(server.bounds.y).toBeGreaterThan(app.bounds.y + app.bounds.height);
+      expectNoOverlaps(view.objects);
+      expect(result.movedObjectIds).toHaveLength(4);
+    });
+
+    it('orders each rank to remove edge crossings', () => {
+      const a = addObject('BusinessProcess', 'A', 0, 0);
+      const b = addObject('BusinessProcess', 'B', 200, 0);
+      const c = addObject('ApplicationComponent', 'C', 0, 200);
+      const d = addObject('ApplicationComponent', 'D', 200, 200);
+      connect(d, a);
+      connect(c, b);
+
+      const result = layoutView(model, view);
+
+      expect(result.crossings).toBe(0);
+      expect(a.bounds.x < b.bounds.x).toBe(d.bounds.x < c.bounds.x);
+    });
+
+    it('routes connections that span several ranks through bendpoints between the ranks', () => {
+      const process = addObject('BusinessProcess', 'Sell');
+      addObject('ApplicationComponent', 'CRM');
+      const server = addObject('Node', 'Server');
+      connect(server, process);
+
+      const result = layoutView(model, view);
+
+      const conn = server.sourceConnections![0];
+      expect(result.routedConnectionIds).toEqual([conn.id]);
+      expect(conn.bendpoints).toHaveLength(1);
+      const bounds = absoluteBoundsMap(view.objects);
+      const bend = bendpointPosition(conn.bendpoints![0], 0, 1, bounds.get(server.id)!, bounds.get(process.id)!);
+      expect(bend.y).toBeGreaterThan(process.bounds.y + process.bounds.height);
+      expect(bend.y).toBeLessThan(server.bounds.y);
+    });
+
+    it('drops bendpoints that no longer fit after their ends moved', () => {
+      const process = addObject('BusinessProcess', 'Sell', 0, 0);
+      const app = addObject('ApplicationComponent', 'CRM', 400, 400);
+      connect(app, process);
+      app.sourceConnections![0].bendpoints = [{ startX: 0, startY: -200, endX: 400, endY: 200 }];
+
+      layoutView(model, view);
+
+      expect(app.sourceConnections![0].bendpoints).toEqual([]);
+    });
+
+    it('gives the same result when run again', () => {
+      const objects = [
+        addObject('BusinessProcess', 'Sell'),
+        addObject('ApplicationComponent', 'CRM'),
+        addObject('ApplicationComponent', 'ERP'),
+        addObject('Node', 'Server'),
+      ];
+      connect(objects[1], objects[0]);
+      connect(objects[3], objects[2]);
+      layoutView(model, view);
+      const first = objects.map((o) => ({ ...o.bounds }));
+
+      const result = layoutView(model, view);
+
+      expect(objects.map((o) => o.bounds)).toEqual(first);
+      expect(result.movedObjectIds).toEqual([]);
+    });
+  });
+
+  describe('grid mode', () => {
+    it('arranges objects in rows ordered by layer', () => {
+      const objects = ['Node', 'BusinessActor', 'ApplicationComponent', 'BusinessRole', 'DataObject'].map((type, i) =>
+        addObject(type as ElementType, `E${i}`, 0, 0)
+      );
+
+      layoutView(model, view, { mode: 'grid' });
+
+      expectNoOverlaps(objects);
+      // Three columns for five objects: the business objects first
+      expect(objects[1].bounds).toMatchObject({ x: 50, y: 50 });
+      expect(objects[3].bounds.y).toBe(50);
+      expect(objects[0].bounds.y).toBeGreaterThan(50);
+    });
+  });
+
+  describe('nested mode', () => {
+    it('lays out children inside their parents and sizes the parents to fit', () => {
+      const node = addObject('Node', 'Server', 0, 0);
+      const apps = ['CRM', 'ERP', 'Billing'].map((name) => addObject('ApplicationComponent', name, 0, 0, node));
+      const process = addObject('BusinessProcess', 'Sell', 0, 0);
+      connect(apps[0], process);
+
+      layoutView(model, view, { mode: 'nested' });
+
+      expectNoOverlaps(apps);
+      expectNoOverlaps(view.objects);
+      for (const app of apps) {
+        expect(app.bounds.x).toBeGreaterThanOrEqual(12);
+        expect(app.bounds.y).toBeGreaterThanOrEqual(24);
+        expect(app.bounds.x + app.bounds.width).toBeLessThanOrEqual(node.bounds.width);
+        expect(app.bounds.y + app.bounds.height).toBeLessThanOrEqual(node.bounds.height);
+      }
+      expect(node.bounds.y).toBeGreaterThan(process.bounds.y);
+    });
+  });
+
+  describe('scope and pinning', () => {
+    it('lays out only the given objects, fitting them around the others', () => {
+      const process = addObject('BusinessProcess', 'Sell', 300, 40);
+      const app = addObject('ApplicationComponent', 'CRM', 300, 200);
+      connect(app, process);
+      const added = addObject('ApplicationComponent', 'ERP', 300, 200);
+      connect(added, process);
+
+      const result = layoutView(model, view, { objectIds: [added.id] });
+
+      expect(result.movedObjectIds).toEqual([added.id]);
+      expect(process.bounds).toMatchObject({ x: 300, y: 40 });
+      expect(app.bounds).toMatchObject({ x: 300, y: 200 });
+      expectNoOverlaps(view.objects);
+    });
+
+    it('keeps pinned objects where they are', () => {
+      const pinned = addObject('BusinessProcess', 'Sell', 700, 500);
+      const others = [addObject('BusinessProcess', 'Buy'), addObject('ApplicationComponent', 'CRM')];
+      connect(others[1], pinned);
+
+      layoutView(model, view, { pinnedObjectIds: [pinned.id] });
+
+      expect(pinned.bounds).toMatchObject({ x: 700, y: 500 });
+      expectNoOverlaps(allDiagramObjects(view.objects));
+    });
+
+    it('rejects objects that are not in the view', () => {
+      expect(() => layoutView(model, view, { pinnedObjectIds: ['missing'] })).toThrow('Diagram object not found: missing');
+    });
+  });
+});
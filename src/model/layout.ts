@@ -0,0 +1,553 @@
+/**
+ * Automatic layout of diagram views.
+ *
+ * The layered mode is a Sugiyama-style layout. Objects are ranked by
+ * ArchiMate layer (motivation at the top, implementation at the bottom),
+ * connections spanning several ranks are routed through dummy nodes that
+ * become bendpoints, the order within each rank is chosen by barycenter
+ * sweeps and adjacent swaps to reduce edge crossings, and x positions are
+ * pulled toward connected objects without letting objects overlap. The grid
+ * mode arranges objects in rows ordered by layer. The nested mode lays out
+ * the children of every object inside it, sizes each container to fit, and
+ * then lays out the view.
+ *
+ * Objects outside the layout's scope, or pinned, keep their positions; the
+ * objects laid out are fitted around them.
+ */
+
+import type { ArchiMateDiagram, ArchiMateModel, DiagramBounds, DiagramConnection, DiagramObject, Layer } from './types.js';
+import { getLayerForElementType } from './types.js';
+import { getModelIndex } from './model-index.js';
+import { absoluteBoundsMap, allDiagramObjects, bendpointAt, NESTING_MARGIN } from './view-helpers.js';
+
+export type LayoutMode = 'layered' | 'grid' | 'nested';
+
+export const LAYOUT_MODES: LayoutMode[] = ['layered', 'grid', 'nested'];
+
+export interface LayoutOptions {
+  /** Defaults to "layered" */
+  mode?: LayoutMode;
+  /** Lay out only these objects, such as those just added; all others keep their positions */
+  objectIds?: string[];
+  /** Objects that keep their positions */
+  pinnedObjectIds?: string[];
+  /** Gap between objects in a rank or grid row; defaults to 40 */
+  horizontalSpacing?: number;
+  /** Gap between ranks or grid rows; defaults to 60 */
+  verticalSpacing?: number;
+}
+
+export interface LayoutResult {
+  movedObjectIds: string[];
+  /** Connections given bendpoints to route them around objects in between */
+  routedConnectionIds: string[];
+  /** Edge crossings left between ranks, for the layered and nested modes */
+  crossings: number;
+}
+
+// Ranks from top to bottom
+const LAYER_ORDER: Layer[] = ['Motivation', 'Strategy', 'Business', 'Application', 'Technology', 'Physical', 'Implementation', 'Composite'];
+
+// Top-left corner of a laid-out view, as for objects added without a position
+const VIEW_ORIGIN = { x: 50, y: 50 };
+
+// Step of the search for a free spot for an object next to pinned ones
+const SEARCH_STEP = 20;
+
+const ORDERING_SWEEPS = 24;
+const POSITIONING_SWEEPS = 8;
+
+interface LayoutNode {
+  id: string;
+  /** Undefined for the dummy nodes of connections spanning several ranks */
+  object?: DiagramObject;
+  rank: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface LevelLink {
+  conn: DiagramConnection;
+  /** The objects at the level being laid out that hold the connection's ends */
+  source: LayoutNode;
+  target: LayoutNode;
+}
+
+interface Spacing {
+  horizontal: number;
+  vertical: number;
+}
+
+interface LayoutContext {
+  model: ArchiMateModel;
+  mode: LayoutMode;
+  spacing: Spacing;
+  isFree: (obj: DiagramObject) => boolean;
+  connections: DiagramConnection[];
+  /** Bendpoints, relative to the container laid out, to set once every level is placed */
+  routes: Array<{ conn: DiagramConnection; container?: DiagramObject; points: Array<{ x: number; y: number }> }>;
+  crossings: number;
+}
+
+/**
+ * Lay out a view in place. Throws if `objectIds` or `pinnedObjectIds` name
+ * an object that is not in the view.
+ */
+export function layoutView(model: ArchiMateModel, diagram: ArchiMateDiagram, options: LayoutOptions = {}): LayoutResult {
+  const objects = allDiagramObjects(diagram.objects);
+  const known = new Set(objects.map((o) => o.id));
+  for (const id of [...(options.objectIds ?? []), ...(options.pinnedObjectIds ?? [])]) {
+    if (!known.has(id)) {
+      throw new Error(`Diagram object not found: ${id}`);
+    }
+  }
+
+  const scope = options.objectIds ? new Set(options.objectIds) : undefined;
+  const pinned = new Set(options.pinnedObjectIds ?? []);
+  const connections = objects.flatMap((o) => o.sourceConnections ?? []);
+  const ctx: LayoutContext = {
+    model,
+    mode: options.mode ?? 'layered',
+    spacing: { horizontal: options.horizontalSpacing ?? 40, vertical: options.verticalSpacing ?? 60 },
+    isFree: (obj) => !pinned.has(obj.id) && (!scope || scope.has(obj.id)),
+    connections,
+    routes: [],
+    crossings: 0,
+  };
+
+  const beforeRelative = new Map(objects.map((o) => [o.id, { ...o.bounds }]));
+  const before = absoluteBoundsMap(diagram.objects);
+
+  if (ctx.mode === 'nested') {
+    layoutNested(ctx, diagram.objects);
+  } else {
+    layoutLevel(ctx, diagram.objects);
+  }
+
+  // Bendpoints are stored relative to the connection's ends, so they are set
+  // once every object has its final place
+  const after = absoluteBoundsMap(diagram.objects);
+  const routed = new Set<string>();
+  for (const { conn, container, points } of ctx.routes) {
+    const source = after.get(conn.sourceId);
+    const target = after.get(conn.targetId);
+    if (!source || !target) continue;
+    const origin = container ? after.get(container.id)! : { x: 0, y: 0 };
+    conn.bendpoints = points.map((p) => bendpointAt({ x: origin.x + p.x, y: origin.y + p.y }, source, target));
+    routed.add(conn.id);
+  }
+  // Other bendpoints are dropped when their ends moved apart, as they no
+  // longer lead anywhere sensible
+  for (const conn of connections) {
+    if (routed.has(conn.id) || !conn.bendpoints?.length) continue;
+    const shift = (id: string) => {
+      const [b, a] = [before.get(id), after.get(id)];
+      return b && a ? `${a.x - b.x},${a.y - b.y}` : undefined;
+    };
+    if (shift(conn.sourceId) !== shift(conn.targetId)) {
+      conn.bendpoints = [];
+    }
+  }
+
+  const movedObjectIds = objects
+    .filter((o) => {
+      const b = beforeRelative.get(o.id)!;
+      return b.x !== o.bounds.x || b.y !== o.bounds.y || b.width !== o.bounds.width || b.height !== o.bounds.height;
+    })
+    .map((o) => o.id);
+
+  return { movedObjectIds, routedConnectionIds: [...routed], crossings: ctx.crossings };
+}
+
+/**
+ * Lay out the children of every object, deepest first, sizing each
+ * container to fit its children, and then the objects themselves.
+ */
+function layoutNested(ctx: LayoutContext, siblings: DiagramObject[], container?: DiagramObject): void {
+  for (const obj of siblings) {
+    if (obj.children?.length) {
+      layoutNested(ctx, obj.children, obj);
+      fitToChildren(obj, ctx.isFree(obj));
+    }
+  }
+  layoutLevel(ctx, siblings, container);
+}
+
+/**
+ * Size a container to hold its children. Pinned containers only grow.
+ */
+function fitToChildren(obj: DiagramObject, free: boolean): void {
+  const children = obj.children ?? [];
+  const right = Math.max(...children.map((c) => c.bounds.x + c.bounds.width)) + NESTING_MARGIN;
+  const bottom = Math.max(...children.map((c) => c.bounds.y + c.bounds.height)) + NESTING_MARGIN;
+  if (free) {
+    obj.bounds.width = Math.max(right, 120);
+    obj.bounds.height = Math.max(bottom, 55);
+  } else {
+    obj.bounds.width = Math.max(obj.bounds.width, right);
+    obj.bounds.height = Math.max(obj.bounds.height, bottom);
+  }
+}
+
+/**
+ * Lay out one set of siblings: the view's top-level objects or the children
+ * of `container`.
+ */
+function layoutLevel(ctx: LayoutContext, siblings: DiagramObject[], container?: DiagramObject): void {
+  const free = siblings.filter(ctx.isFree);
+  if (free.length === 0) return;
+
+  const nodes = new Map<DiagramObject, LayoutNode>(
+    siblings.map((obj) => [obj, { id: obj.id, object: obj, rank: rankOf(ctx.model, obj), ...obj.bounds }])
+  );
+  // Connections count between the siblings holding their ends, at any depth
+  const holder = new Map<string, LayoutNode>();
+  for (const obj of siblings) {
+    for (const inner of allDiagramObjects([obj])) {
+      holder.set(inner.id, nodes.get(obj)!);
+    }
+  }
+  const links: LevelLink[] = [];
+  for (const conn of ctx.connections) {
+    const source = holder.get(conn.sourceId);
+    const target = holder.get(conn.targetId);
+    if (source && target && source !== target) {
+      links.push({ conn, source, target });
+    }
+  }
+
+  const origin = container ? { x: NESTING_MARGIN, y: 2 * NESTING_MARGIN } : VIEW_ORIGIN;
+  const pinned = siblings.filter((obj) => !ctx.isFree(obj));
+
+  if (ctx.mode === 'grid') {
+    // The grid goes below any objects that stay where they are
+    const top = pinned.length > 0
+      ? Math.max(...pinned.map((o) => o.bounds.y + o.bounds.height)) + ctx.spacing.vertical
+      : origin.y;
+    const labels = new Map(free.map((obj) => [obj, labelOf(ctx.model, obj)]));
+    const ordered = free
+      .map((obj) => nodes.get(obj)!)
+      .sort((a, b) => a.rank - b.rank || labels.get(a.object!)!.localeCompare(labels.get(b.object!)!) || a.id.localeCompare(b.id));
+    gridLayout(ordered, ctx.spacing);
+    for (const node of ordered) {
+      place(node.object!, node.x + origin.x, node.y + top);
+    }
+    return;
+  }
+
+  const layout = layeredLayout([...nodes.values()], links, ctx.spacing);
+  ctx.crossings += layout.crossings;
+
+  if (pinned.length === 0) {
+    for (const node of nodes.values()) {
+      place(node.object!, node.x + origin.x, node.y + origin.y);
+    }
+    for (const link of links) {
+      const dummies = layout.routes.get(routeKey(link.source, link.target)) ?? [];
+      if (dummies.length === 0) continue;
+      // Routes run from the upper rank down
+      const ordered = link.source.rank < link.target.rank ? dummies : [...dummies].reverse();
+      ctx.routes.push({
+        conn: link.conn,
+        container,
+        points: ordered.map((d) => ({ x: d.x + origin.x, y: d.y + origin.y })),
+      });
+    }
+    return;
+  }
+
+  // With pinned objects, the layout is moved to line up with them as well as
+  // it can, and each object laid out takes the nearest free spot
+  const offset = { x: 0, y: 0 };
+  for (const obj of pinned) {
+    const node = nodes.get(obj)!;
+    offset.x += (obj.bounds.x - node.x) / pinned.length;
+    offset.y += (obj.bounds.y - node.y) / pinned.length;
+  }
+  const occupied: DiagramBounds[] = pinned.map((o) => o.bounds);
+  const byPosition = free.map((obj) => nodes.get(obj)!).sort((a, b) => a.y - b.y || a.x - b.x);
+  for (const node of byPosition) {
+    const spot = findFreeSpot(
+      { x: Math.round(node.x + offset.x), y: Math.round(node.y + offset.y), width: node.width, height: node.height },
+      occupied,
+      container ? NESTING_MARGIN : ctx.spacing.horizontal / 2
+    );
+    place(node.object!, spot.x, spot.y);
+    occupied.push(node.object!.bounds);
+  }
+}
+
+function place(obj: DiagramObject, x: number, y: number): void {
+  obj.bounds.x = Math.round(x);
+  obj.bounds.y = Math.round(y);
+}
+
+function rankOf(model: ArchiMateModel, obj: DiagramObject): number {
+  const element = obj.objectType ? undefined : getModelIndex(model).getElement(obj.elementId);
+  // Notes, groups, and view references go below the elements
+  return element ? LAYER_ORDER.indexOf(getLayerForElementType(element.type)) : LAYER_ORDER.length;
+}
+
+function labelOf(model: ArchiMateModel, obj: DiagramObject): string {
+  return getModelIndex(model).getElement(obj.elementId)?.name ?? obj.name ?? obj.content ?? '';
+}
+
+function routeKey(a: LayoutNode, b: LayoutNode): string {
+  return a.rank < b.rank ? `${a.id}|${b.id}` : `${b.id}|${a.id}`;
+}
+
+/**
+ * Arrange nodes, in order, in rows of a near-square grid of equal cells.
+ */
+function gridLayout(nodes: LayoutNode[], spacing: Spacing): void {
+  const columns = Math.ceil(Math.sqrt(nodes.length));
+  const cellWidth = Math.max(...nodes.map((n) => n.width)) + spacing.horizontal;
+  const cellHeight = Math.max(...nodes.map((n) => n.height)) + spacing.vertical;
+  nodes.forEach((node, i) => {
+    node.x = (i % columns) * cellWidth;
+    node.y = Math.floor(i / columns) * cellHeight;
+  });
+}
+
+/**
+ * Place nodes in ranks, with top-left corners relative to the layout's own
+ * origin. Returns the dummy nodes of each route, keyed by routeKey, and the
+ * edge crossings left.
+ */
+function layeredLayout(
+  nodes: LayoutNode[],
+  links: LevelLink[],
+  spacing: Spacing
+): { routes: Map<string, LayoutNode[]>; crossings: number } {
+  // Ranks without objects are dropped
+  const usedRanks = [...new Set(nodes.map((n) => n.rank))].sort((a, b) => a - b);
+  for (const node of nodes) {
+    node.rank = usedRanks.indexOf(node.rank);
+  }
+  const ranks: LayoutNode[][] = usedRanks.map(() => []);
+  for (const node of nodes) {
+    ranks[node.rank].push(node);
+  }
+
+  // Edges join adjacent ranks; longer connections go through a dummy node
+  // in each rank they cross. Connections within a rank take no part.
+  const above = new Map<LayoutNode, LayoutNode[]>();
+  const below = new Map<LayoutNode, LayoutNode[]>();
+  const addEdge = (upper: LayoutNode, lower: LayoutNode) => {
+    above.set(lower, [...(above.get(lower) ?? []), upper]);
+    below.set(upper, [...(below.get(upper) ?? []), lower]);
+  };
+  const routes = new Map<string, LayoutNode[]>();
+  for (const link of links) {
+    if (link.source.rank === link.target.rank) continue;
+    const key = routeKey(link.source, link.target);
+    if (routes.has(key)) continue;
+    const [upper, lower] = link.source.rank < link.target.rank ? [link.source, link.target] : [link.target, link.source];
+    const dummies: LayoutNode[] = [];
+    let previous = upper;
+    for (let rank = upper.rank + 1; rank < lower.rank; rank++) {
+      const dummy: LayoutNode = { id: `${key}#${rank}`, rank, x: upper.x, y: 0, width: 0, height: 0 };
+      ranks[rank].push(dummy);
+      addEdge(previous, dummy);
+      dummies.push(dummy);
+      previous = dummy;
+    }
+    addEdge(previous, lower);
+    routes.set(key, dummies);
+  }
+
+  // Start from the current left-to-right order, so a second layout keeps
+  // what the first one found
+  for (const rank of ranks) {
+    rank.sort((a, b) => a.x - b.x || a.id.localeCompare(b.id));
+  }
+  const crossings = orderRanks(ranks, above, below);
+  assignCoordinates(ranks, above, below, spacing);
+  return { routes, crossings };
+}
+
+/**
+ * Reorder each rank to reduce edge crossings. Returns the crossings left.
+ */
+function orderRanks(
+  ranks: LayoutNode[][],
+  above: Map<LayoutNode, LayoutNode[]>,
+  below: Map<LayoutNode, LayoutNode[]>
+): number {
+  const position = new Map<LayoutNode, number>();
+  const index = (rank: LayoutNode[]) => rank.forEach((node, i) => position.set(node, i));
+  ranks.forEach(index);
+
+  const countCrossings = () => {
+    let total = 0;
+    for (let r = 0; r + 1 < ranks.length; r++) {
+      const edges = ranks[r].flatMap((upper) => (below.get(upper) ?? []).map((lower) => [position.get(upper)!, position.get(lower)!]));
+      for (let i = 0; i < edges.length; i++) {
+        for (let j = i + 1; j < edges.length; j++) {
+          if ((edges[i][0] - edges[j][0]) * (edges[i][1] - edges[j][1]) < 0) total++;
+        }
+      }
+    }
+    return total;
+  };
+  // Crossings between the edges of two neighbors in a rank, with `left` on the left
+  const pairCrossings = (left: LayoutNode, right: LayoutNode) => {
+    let total = 0;
+    for (const neighbors of [above, below]) {
+      for (const a of neighbors.get(left) ?? []) {
+        for (const b of neighbors.get(right) ?? []) {
+          if (position.get(a)! > position.get(b)!) total++;
+        }
+      }
+    }
+    return total;
+  };
+
+  let best = ranks.map((rank) => [...rank]);
+  let bestCrossings = countCrossings();
+  for (let sweep = 0; sweep < ORDERING_SWEEPS && bestCrossings > 0; sweep++) {
+    const down = sweep % 2 === 0;
+    const neighbors = down ? above : below;
+    const order = ranks.map((_, r) => r);
+    for (const r of down ? order.slice(1) : order.reverse().slice(1)) {
+      // Barycenter of each node's neighbors in the rank just placed; nodes
+      // without any keep their place
+      const barycenter = new Map(
+        ranks[r].map((node) => {
+          const adjacent = neighbors.get(node) ?? [];
+          const value = adjacent.length > 0
+            ? adjacent.reduce((sum, n) => sum + position.get(n)!, 0) / adjacent.length
+            : position.get(node)!;
+          return [node, value];
+        })
+      );
+      ranks[r].sort((a, b) => barycenter.get(a)! - barycenter.get(b)!);
+      index(ranks[r]);
+    }
+
+    // Swap neighbors while that removes crossings
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (const rank of ranks) {
+        for (let i = 0; i + 1 < rank.length; i++) {
+          if (pairCrossings(rank[i + 1], rank[i]) < pairCrossings(rank[i], rank[i + 1])) {
+            [rank[i], rank[i + 1]] = [rank[i + 1], rank[i]];
+            index(rank);
+            improved = true;
+          }
+        }
+      }
+    }
+
+    const crossings = countCrossings();
+    if (crossings < bestCrossings) {
+      best = ranks.map((rank) => [...rank]);
+      bestCrossings = crossings;
+    }
+  }
+
+  best.forEach((rank, r) => {
+    ranks[r] = rank;
+    index(rank);
+  });
+  return bestCrossings;
+}
+
+/**
+ * Set the position of every node: ranks stacked top to bottom, and nodes
+ * moved toward the centers of their neighbors while keeping their order and
+ * the spacing between them.
+ */
+function assignCoordinates(
+  ranks: LayoutNode[][],
+  above: Map<LayoutNode, LayoutNode[]>,
+  below: Map<LayoutNode, LayoutNode[]>,
+  spacing: Spacing
+): void {
+  let top = 0;
+  for (const rank of ranks) {
+    const height = Math.max(0, ...rank.map((n) => n.height));
+    let left = 0;
+    for (const node of rank) {
+      node.y = top + (height - node.height) / 2;
+      node.x = left;
+      left += node.width + spacing.horizontal;
+    }
+    top += height + spacing.vertical;
+  }
+
+  const center = (n: LayoutNode) => n.x + n.width / 2;
+  for (let sweep = 0; sweep < POSITIONING_SWEEPS; sweep++) {
+    const down = sweep % 2 === 0;
+    const neighbors = down ? above : below;
+    const order = ranks.map((_, r) => r);
+    for (const r of down ? order.slice(1) : order.reverse().slice(1)) {
+      const desired = ranks[r].map((node) => {
+        const adjacent = neighbors.get(node) ?? [];
+        return adjacent.length > 0
+          ? adjacent.reduce((sum, n) => sum + center(n), 0) / adjacent.length - node.width / 2
+          : node.x;
+      });
+      spreadRank(ranks[r], desired, spacing.horizontal);
+    }
+  }
+
+  const minX = Math.min(...ranks.flat().map((n) => n.x));
+  for (const node of ranks.flat()) {
+    node.x -= minX;
+  }
+}
+
+/**
+ * Move the nodes of a rank as close to their desired positions as the
+ * spacing allows: the average of packing from the left and from the right,
+ * which keeps the spacing because both do.
+ */
+function spreadRank(rank: LayoutNode[], desired: number[], gap: number): void {
+  const fromLeft: number[] = [];
+  let limit = -Infinity;
+  rank.forEach((node, i) => {
+    fromLeft[i] = Math.max(desired[i], limit);
+    limit = fromLeft[i] + node.width + gap;
+  });
+  const fromRight: number[] = [];
+  limit = Infinity;
+  for (let i = rank.length - 1; i >= 0; i--) {
+    fromRight[i] = Math.min(desired[i], limit - rank[i].width);
+    limit = fromRight[i] - gap;
+  }
+  rank.forEach((node, i) => {
+    node.x = (fromLeft[i] + fromRight[i]) / 2;
+  });
+}
+
+/**
+ * The nearest position to `bounds`, searching outward, where it keeps `gap`
+ * from every occupied area without going above or left of the origin.
+ */
+function findFreeSpot(bounds: DiagramBounds, occupied: DiagramBounds[], gap: number): DiagramBounds {
+  const clashes = (b: DiagramBounds) =>
+    occupied.some(
+      (o) => b.x < o.x + o.width + gap && o.x < b.x + b.width + gap && b.y < o.y + o.height + gap && o.y < b.y + b.height + gap
+    );
+  const start = { ...bounds, x: Math.max(0, bounds.x), y: Math.max(0, bounds.y) };
+  if (!clashes(start)) return start;
+
+  for (let ring = 1; ring <= 100; ring++) {
+    const candidates: Array<{ dx: number; dy: number }> = [];
+    for (let dx = -ring; dx <= ring; dx++) {
+      for (let dy = -ring; dy <= ring; dy++) {
+        if (Math.max(Math.abs(dx), Math.abs(dy)) === ring) candidates.push({ dx, dy });
+      }
+    }
+    candidates.sort((a, b) => a.dx * a.dx + a.dy * a.dy - (b.dx * b.dx + b.dy * b.dy));
+    for (const { dx, dy } of candidates) {
+      const candidate = { ...start, x: start.x + dx * SEARCH_STEP, y: start.y + dy * SEARCH_STEP };
+      if (candidate.x >= 0 && candidate.y >= 0 && !clashes(candidate)) return candidate;
+    }
+  }
+  return { ...start, y: Math.max(...occupied.map((o) => o.y + o.height)) + gap };
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { mergeModels } from './merge.js';
+import { parseModelXml } from './parser.js';
+import { allDiagramConnections } from './view-helpers.js';
+import type { ArchiMateModel } from './types.js';
+import {
+  addElementToModel,
+  createDiagram,
+  createDiagramConnection,
+  createDiagramObject,
+  createElement,
+  createEmptyModel,
+  createRelationship,
+  resetIdCounter,
+} from '../__tests__/fixtures/sample-model.js';
+
+const FIXTURES = path.join(process.cwd(), 'src/__tests__/fixtures/archi');
+
+function readFixture(name: string): string {
+  return readFileSync(path.join(FIXTURES, name), 'utf-8');
+}
+
+describe('model merge', () => {
+  it('keeps connections of notes and groups, which have no relationship', () => {
+    const xml = readFixture('archisurance.archimate');
+    const base = parseModelXml(xml);
+    const plain = base.diagrams.flatMap((d) => allDiagramConnections(d.objects)).filter((c) => !c.relationshipId);
+    expect(plain.length).toBeGreaterThan(0);
+
+    const result = mergeModels(base, parseModelXml(xml), parseModelXml(xml));
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.clean).toBe(true);
+    const connectionIds = (diagrams: typeof base.diagrams) =>
+      diagrams.map((d) => allDiagramConnections(d.objects).map((c) => c.id).sort());
+    expect(connectionIds(result.model.diagrams)).toEqual(connectionIds(base.diagrams));
+  });
+
+  it('keeps connections drawn to and from other connections', () => {
+    resetIdCounter();
+    const base = createEmptyModel();
+    const [actor, role, contract] = [
+      createElement('BusinessActor', 'Customer'),
+      createElement('BusinessRole', 'Insurant'),
+      createElement('Contract', 'Policy'),
+    ];
+    [actor, role, contract].forEach((e) => addElementToModel(base, e));
+    const assignment = createRelationship('Assignment', actor.id, role.id);
+    const association = createRelationship('Association', contract.id, assignment.id);
+    base.relationships.push(assignment, association);
+    const [actorObj, roleObj, contractObj] = [actor, role, contract].map((e, i) => createDiagramObject(e.id, i * 200, 0));
+    const assignmentConn = createDiagramConnection(actorObj.id, roleObj.id, assignment.id);
+    actorObj.sourceConnections = [assignmentConn];
+    roleObj.targetConnectionIds = [assignmentConn.id];
+    base.diagrams.push(createDiagram('Main', [actorObj, roleObj, contractObj]));
+
+    // Ours draws the association onto the assignment's connection, theirs
+    // renames the contract
+    const ours: ArchiMateModel = structuredClone(base);
+    const [, , oursContract] = ours.diagrams[0].objects;
+    const associationConn = createDiagramConnection(oursContract.id, assignmentConn.id, association.id);
+    oursContract.sourceConnections = [associationConn];
+    ours.diagrams[0].objects[0].sourceConnections![0].targetConnectionIds = [associationConn.id];
+    const theirs: ArchiMateModel = structuredClone(base);
+    theirs.folders.find((f) => f.type === 'business')!.elements.find((e) => e.id === contract.id)!.name = 'Car Policy';
+
+    const result = mergeModels(base, ours, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.clean).toBe(true);
+    expect(result.model.diagrams[0].objects).toMatchObject(ours.diagrams[0].objects);
+  });
+
+  it('drops connections drawn to a connection whose relationship was deleted', () => {
+    resetIdCounter();
+    const base = createEmptyModel();
+    const [actor, role, contract] = [
+      createElement('BusinessActor', 'Customer'),
+      createElement('BusinessRole', 'Insurant'),
+      createElement('Contract', 'Policy'),
+    ];
+    [actor, role, contract].forEach((e) => addElementToModel(base, e));
+    const assignment = createRelationship('Assignment', actor.id, role.id);
+    base.relationships.push(assignment);
+    const [actorObj, roleObj, contractObj] = [actor, role, contract].map((e, i) => createDiagramObject(e.id, i * 200, 0));
+    const assignmentConn = createDiagramConnection(actorObj.id, roleObj.id, assignment.id);
+    actorObj.sourceConnections = [assignmentConn];
+    roleObj.targetConnectionIds = [assignmentConn.id];
+    // A plain connection from the assignment's connection to the contract
+    const plainConn = createDiagramConnection(assignmentConn.id, contractObj.id, '');
+    assignmentConn.sourceConnections = [plainConn];
+    contractObj.targetConnectionIds = [plainConn.id];
+    base.diagrams.push(createDiagram('Main', [actorObj, roleObj, contractObj]));
+
+    const ours: ArchiMateModel = structuredClone(base);
+    const theirs: ArchiMateModel = structuredClone(base);
+    theirs.relationships = [];
+
+    const result = mergeModels(base, ours, theirs);
+
+    expect(result.conflicts.map((c) => c.id)).toEqual([assignmentConn.id]);
+    const objects = result.model.diagrams[0].objects;
+    expect(allDiagramConnections(objects)).toEqual([]);
+    expect(objects.map((o) => o.targetConnectionIds)).toEqual([[], [], []]);
+  });
+
+  it('drops relationships that end on a relationship dropped as dangling', () => {
+    resetIdCounter();
+    const base = createEmptyModel();
+    const [actor, role, contract] = [
+      createElement('BusinessActor', 'Customer'),
+      createElement('BusinessRole', 'Insurant'),
+      createElement('Contract', 'Policy'),
+    ];
+    [actor, role, contract].forEach((e) => addElementToModel(base, e));
+
+    // Ours chains an association on a new assignment, theirs deletes the
+    // assignment's target
+    const ours: ArchiMateModel = structuredClone(base);
+    const assignment = createRelationship('Assignment', actor.id, role.id);
+    const association = createRelationship('Association', contract.id, assignment.id);
+    const chained = createRelationship('Association', actor.id, association.id);
+    ours.relationships.push(assignment, association, chained);
+    const theirs: ArchiMateModel = structuredClone(base);
+    const business = theirs.folders.find((f) => f.type === 'business')!;
+    business.elements = business.elements.filter((e) => e.id !== role.id);
+
+    const result = mergeModels(base, ours, theirs);
+
+    expect(result.conflicts.map((c) => c.id)).toEqual([assignment.id, association.id, chained.id]);
+    expect(result.conflicts[1].message).toContain(`because ${assignment.id} was dropped`);
+    expect(result.model.relationships).toEqual([]);
+  });
+});
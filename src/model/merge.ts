@@ -0,0 +1,615 @@
+/**
+ * Three-way merge of ArchiMate models.
+ *
+ * coArchi repositories are shared through git, where concurrent edits to
+ * model.archimate regularly conflict at the XML level even when they touch
+ * unrelated concepts. This module merges base, ours, and theirs at the object
+ * level instead: folders, elements, relationships, views, diagram objects, and
+ * connections are matched by ID and merged field by field. Only edits that
+ * really disagree are reported as conflicts, for example the same element
+ * renamed in two different ways, or a relationship deleted on one side while
+ * its view connection was edited on the other.
+ *
+ * Conflicts are resolved in favour of one side (ours by default) so the merged
+ * model is always complete and consistent; the conflict list says what to
+ * review. Used by the archimate_merge_models MCP tool and the git merge driver
+ * in src/merge-driver.ts.
+ */
+
+import type {
+  ArchiMateDiagram,
+  ArchiMateElement,
+  ArchiMateFolder,
+  ArchiMateModel,
+  ArchiMateProperty,
+  ArchiMateRelationship,
+  DiagramConnection,
+  DiagramObject,
+} from './types.js';
+import { LayerFolderTypes, getLayerForElementType } from './types.js';
+
+export type MergeSide = 'ours' | 'theirs';
+
+export type MergeConflictKind =
+  /** Both sides changed the same field to different values */
+  | 'modify-modify'
+  /** One side deleted a concept the other side changed */
+  | 'delete-modify'
+  /** Both sides added a concept with the same ID but different content */
+  | 'add-add'
+  /** The merged concept refers to something the other side deleted */
+  | 'dangling-reference';
+
+export type MergeConceptType =
+  | 'model'
+  | 'folder'
+  | 'element'
+  | 'relationship'
+  | 'view'
+  | 'diagram-object'
+  | 'connection';
+
+export interface MergeConflict {
+  kind: MergeConflictKind;
+  conceptType: MergeConceptType;
+  id: string;
+  field?: string;
+  base?: unknown;
+  ours?: unknown;
+  theirs?: unknown;
+  message: string;
+}
+
+export interface MergeOptions {
+  /** Side whose version wins a conflict (default: ours) */
+  prefer?: MergeSide;
+}
+
+export interface MergeResult {
+  model: ArchiMateModel;
+  clean: boolean;
+  conflicts: MergeConflict[];
+}
+
+interface MergeContext {
+  prefer: MergeSide;
+  conflicts: MergeConflict[];
+}
+
+interface RecordSpec<T> {
+  conceptType: MergeConceptType;
+  label: (record: T) => string;
+  /** Keys merged separately, so excluded from the field-by-field merge */
+  structural?: string[];
+}
+
+/**
+ * Merge `ours` and `theirs`, both derived from `base`.
+ */
+export function mergeModels(
+  base: ArchiMateModel,
+  ours: ArchiMateModel,
+  theirs: ArchiMateModel,
+  options: MergeOptions = {}
+): MergeResult {
+  const ctx: MergeContext = { prefer: options.prefer ?? 'ours', conflicts: [] };
+
+  const header = mergeFields(
+    ctx,
+    { conceptType: 'model', label: (m) => `Model "${m.name}"` },
+    modelHeader(base),
+    modelHeader(ours),
+    modelHeader(theirs)
+  );
+
+  const folders = mergeFolders(ctx, base, ours, theirs);
+
+  const elements = mergeRecords(
+    ctx,
+    { conceptType: 'element', label: (e) => `${e.type} "${e.name}"` },
+    flattenElements(base),
+    flattenElements(ours),
+    flattenElements(theirs)
+  );
+  placeElements(ctx, elements, folders);
+
+  const elementIds = new Set(elements.map((e) => e.id));
+  const relationships = mergeRecords(
+    ctx,
+    { conceptType: 'relationship', label: (r) => `${r.type} relationship ${r.id}` },
+    base.relationships,
+    ours.relationships,
+    theirs.relationships
+  );
+  // Relationships can end on relationships, so dropping one can leave others
+  // dangling; drop in passes until none are left
+  const mergedIds = new Set(relationships.map((r) => r.id));
+  let validRelationships = relationships;
+  let validRelationshipIds = mergedIds;
+  for (let dropped = true; dropped;) {
+    const kept = validRelationships.filter((rel) => {
+      const missing = [rel.sourceId, rel.targetId].find((id) => !elementIds.has(id) && !validRelationshipIds.has(id));
+      if (missing) {
+        const reason = mergedIds.has(missing) ? 'was dropped' : 'was deleted';
+        reportDangling(ctx, 'relationship', rel.id, `${rel.type} relationship ${rel.id} was dropped because ${missing} ${reason}`);
+        return false;
+      }
+      return true;
+    });
+    dropped = kept.length < validRelationships.length;
+    validRelationships = kept;
+    validRelationshipIds = new Set(kept.map((r) => r.id));
+  }
+
+  const diagrams = mergeRecords(
+    ctx,
+    { conceptType: 'view', label: (d) => `View "${d.name}"`, structural: ['objects'] },
+    base.diagrams,
+    ours.diagrams,
+    theirs.diagrams
+  ).map((diagram) => {
+    const sides = [base, ours, theirs].map((m) => m.diagrams.find((d) => d.id === diagram.id));
+    const [b, o, t] = sides;
+    const objects = b && o && t
+      ? mergeDiagramObjects(ctx, diagram, b.objects, o.objects, t.objects)
+      : structuredClone((o ?? t)!.objects);
+    return { ...diagram, objects: pruneDiagram(ctx, diagram, objects, elementIds, validRelationshipIds) };
+  });
+
+  const model: ArchiMateModel = {
+    ...header,
+    folders,
+    relationships: validRelationships,
+    diagrams,
+  };
+
+  return { model, clean: ctx.conflicts.length === 0, conflicts: ctx.conflicts };
+}
+
+function modelHeader(model: ArchiMateModel): Omit<ArchiMateModel, 'folders' | 'relationships' | 'diagrams'> {
+  const { folders: _folders, relationships: _relationships, diagrams: _diagrams, ...header } = model;
+  return header;
+}
+
+// =============================================================================
+// Generic record merge
+// =============================================================================
+
+function mergeRecords<T extends { id: string }>(
+  ctx: MergeContext,
+  spec: RecordSpec<T>,
+  base: T[],
+  ours: T[],
+  theirs: T[]
+): T[] {
+  const baseById = new Map(base.map((r) => [r.id, r]));
+  const oursById = new Map(ours.map((r) => [r.id, r]));
+  const theirsById = new Map(theirs.map((r) => [r.id, r]));
+  const ids = new Set([...ours.map((r) => r.id), ...theirs.map((r) => r.id), ...base.map((r) => r.id)]);
+
+  const merged: T[] = [];
+  for (const id of ids) {
+    const b = baseById.get(id);
+    const o = oursById.get(id);
+    const t = theirsById.get(id);
+
+    if (!b) {
+      // Added on one or both sides
+      merged.push(o && t ? mergeFields(ctx, spec, undefined, o, t) : structuredClone((o ?? t)!));
+      continue;
+    }
+    if (!o && !t) continue;
+
+    if (!o || !t) {
+      const survivor = (o ?? t)!;
+      const deletedBy: MergeSide = o ? 'theirs' : 'ours';
+      if (sameValue(survivor, b)) continue;
+
+      const modifiedBy: MergeSide = deletedBy === 'ours' ? 'theirs' : 'ours';
+      ctx.conflicts.push({
+        kind: 'delete-modify',
+        conceptType: spec.conceptType,
+        id,
+        message: `${spec.label(survivor)} was deleted in ${deletedBy} but changed in ${modifiedBy}`,
+      });
+      if (ctx.prefer === modifiedBy) {
+        merged.push(structuredClone(survivor));
+      }
+      continue;
+    }
+
+    merged.push(mergeFields(ctx, spec, b, o, t));
+  }
+  return merged;
+}
+
+function mergeFields<T extends object>(
+  ctx: MergeContext,
+  spec: RecordSpec<T>,
+  base: T | undefined,
+  ours: T,
+  theirs: T
+): T {
+  const b = (base ?? {}) as Record<string, unknown>;
+  const o = ours as Record<string, unknown>;
+  const t = theirs as Record<string, unknown>;
+  const result = structuredClone(o);
+  const skip = new Set(['id', ...(spec.structural ?? [])]);
+  const keys = new Set([...Object.keys(b), ...Object.keys(o), ...Object.keys(t)].filter((k) => !skip.has(k)));
+
+  for (const key of keys) {
+    if (key === 'properties') {
+      const merged = mergeProperties(ctx, spec, ours, b.properties, o.properties, t.properties);
+      if (merged.length === 0) {
+        delete result.properties;
+      } else {
+        result.properties = merged;
+      }
+      continue;
+    }
+
+    const bv = normalize(b[key]);
+    const ov = normalize(o[key]);
+    const tv = normalize(t[key]);
+
+    let value: unknown;
+    if (sameValue(ov, tv) || sameValue(tv, bv)) {
+      value = ov;
+    } else if (sameValue(ov, bv)) {
+      value = tv;
+    } else {
+      ctx.conflicts.push({
+        kind: base ? 'modify-modify' : 'add-add',
+        conceptType: spec.conceptType,
+        id: String(o.id ?? ''),
+        field: key,
+        base: bv,
+        ours: ov,
+        theirs: tv,
+        message: base
+          ? `${spec.label(ours)}: ${key} was changed differently in ours and theirs`
+          : `${spec.label(ours)} was added on both sides with different ${key}`,
+      });
+      value = ctx.prefer === 'ours' ? ov : tv;
+    }
+
+    if (value === undefined) {
+      delete result[key];
+    } else {
+      result[key] = structuredClone(value);
+    }
+  }
+  return result as T;
+}
+
+/**
+ * Merge property lists key by key, so edits to different properties never
+ * conflict. Repeated keys are merged as one list of values.
+ */
+function mergeProperties<T extends object>(
+  ctx: MergeContext,
+  spec: RecordSpec<T>,
+  record: T,
+  base: unknown,
+  ours: unknown,
+  theirs: unknown
+): ArchiMateProperty[] {
+  const group = (list: unknown) => {
+    const grouped = new Map<string, string[]>();
+    for (const { key, value } of (list as ArchiMateProperty[] | undefined) ?? []) {
+      grouped.set(key, [...(grouped.get(key) ?? []), value]);
+    }
+    return grouped;
+  };
+  const b = group(base);
+  const o = group(ours);
+  const t = group(theirs);
+  const keys = new Set([...o.keys(), ...t.keys(), ...b.keys()]);
+
+  const merged: ArchiMateProperty[] = [];
+  for (const key of keys) {
+    const bv = b.get(key);
+    const ov = o.get(key);
+    const tv = t.get(key);
+
+    let values: string[] | undefined;
+    if (sameValue(ov, tv) || sameValue(tv, bv)) {
+      values = ov;
+    } else if (sameValue(ov, bv)) {
+      values = tv;
+    } else {
+      ctx.conflicts.push({
+        kind: bv ? (ov && tv ? 'modify-modify' : 'delete-modify') : 'add-add',
+        conceptType: spec.conceptType,
+        id: String((record as Record<string, unknown>).id ?? ''),
+        field: `properties.${key}`,
+        base: bv,
+        ours: ov,
+        theirs: tv,
+        message: `${spec.label(record)}: property "${key}" was changed differently in ours and theirs`,
+      });
+      values = ctx.prefer === 'ours' ? ov : tv;
+    }
+
+    for (const value of values ?? []) {
+      merged.push({ key, value });
+    }
+  }
+  return merged;
+}
+
+/** Treat missing and empty optional values as the same */
+function normalize(value: unknown): unknown {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (Array.isArray(value) && value.length === 0) return undefined;
+  return value;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+}
+
+function reportDangling(ctx: MergeContext, conceptType: MergeConceptType, id: string, message: string): void {
+  if (ctx.conflicts.some((c) => c.id === id)) return;
+  ctx.conflicts.push({ kind: 'dangling-reference', conceptType, id, message });
+}
+
+// =============================================================================
+// Folders and elements
+// =============================================================================
+
+type FolderRecord = Omit<ArchiMateFolder, 'elements' | 'subfolders'> & {
+  parentId: string | null;
+  rootId: string;
+};
+
+type ElementRecord = ArchiMateElement & { folderId: string };
+
+function flattenFolders(model: ArchiMateModel): FolderRecord[] {
+  const records: FolderRecord[] = [];
+
+  function visit(folder: ArchiMateFolder, parentId: string | null, rootId: string): void {
+    const { elements: _elements, subfolders, ...rest } = folder;
+    records.push({ ...rest, parentId, rootId });
+    for (const sub of subfolders) visit(sub, folder.id, rootId);
+  }
+
+  for (const folder of model.folders) visit(folder, null, folder.id);
+  return records;
+}
+
+function flattenElements(model: ArchiMateModel): ElementRecord[] {
+  const records: ElementRecord[] = [];
+
+  function visit(folder: ArchiMateFolder): void {
+    for (const element of folder.elements) records.push({ ...element, folderId: folder.id });
+    folder.subfolders.forEach(visit);
+  }
+
+  model.folders.forEach(visit);
+  return records;
+}
+
+function mergeFolders(ctx: MergeContext, base: ArchiMateModel, ours: ArchiMateModel, theirs: ArchiMateModel): ArchiMateFolder[] {
+  const records = mergeRecords(
+    ctx,
+    { conceptType: 'folder', label: (f) => `Folder "${f.name}"`, structural: ['rootId'] },
+    flattenFolders(base),
+    flattenFolders(ours),
+    flattenFolders(theirs)
+  );
+
+  const folders = new Map<string, ArchiMateFolder>();
+  for (const { parentId: _parentId, rootId: _rootId, ...folder } of records) {
+    folders.set(folder.id, { ...folder, elements: [], subfolders: [] });
+  }
+
+  const roots: ArchiMateFolder[] = [];
+  for (const record of records) {
+    const folder = folders.get(record.id)!;
+    if (!record.parentId) {
+      roots.push(folder);
+      continue;
+    }
+    const parent = folders.get(record.parentId) ?? folders.get(record.rootId);
+    if (!folders.has(record.parentId)) {
+      reportDangling(ctx, 'folder', record.id, `Folder "${record.name}" was moved to its top-level folder because its parent folder was deleted`);
+    }
+    (parent ? parent.subfolders : roots).push(folder);
+  }
+  return roots;
+}
+
+function placeElements(ctx: MergeContext, elements: ElementRecord[], folders: ArchiMateFolder[]): void {
+  const byId = new Map<string, ArchiMateFolder>();
+  const index = (folder: ArchiMateFolder): void => {
+    byId.set(folder.id, folder);
+    folder.subfolders.forEach(index);
+  };
+  folders.forEach(index);
+
+  for (const { folderId, ...element } of elements) {
+    let folder = byId.get(folderId);
+    if (!folder) {
+      const type = LayerFolderTypes[getLayerForElementType(element.type)];
+      folder = folders.find((f) => f.type === type) ?? folders[0];
+      reportDangling(ctx, 'element', element.id, `${element.type} "${element.name}" was moved to the "${folder?.name}" folder because its folder was deleted`);
+    }
+    folder?.elements.push(element);
+  }
+}
+
+// =============================================================================
+// Diagrams
+// =============================================================================
+
+type ObjectRecord = Omit<DiagramObject, 'children' | 'sourceConnections' | 'targetConnectionIds'> & {
+  parentId: string | null;
+};
+
+function flattenObjects(objects: DiagramObject[]): { objects: ObjectRecord[]; connections: DiagramConnection[] } {
+  const result = { objects: [] as ObjectRecord[], connections: [] as DiagramConnection[] };
+
+  function visit(list: DiagramObject[], parentId: string | null): void {
+    for (const obj of list) {
+      const { children, sourceConnections, targetConnectionIds: _targets, ...rest } = obj;
+      result.objects.push({ ...rest, parentId });
+      visitConnections(sourceConnections ?? []);
+      visit(children ?? [], obj.id);
+    }
+  }
+
+  // Connections drawn from a connection are records of their own
+  function visitConnections(list: DiagramConnection[]): void {
+    for (const conn of list) {
+      const { sourceConnections, targetConnectionIds: _targets, ...rest } = conn;
+      result.connections.push(rest);
+      visitConnections(sourceConnections ?? []);
+    }
+  }
+
+  visit(objects, null);
+  return result;
+}
+
+function mergeDiagramObjects(
+  ctx: MergeContext,
+  diagram: ArchiMateDiagram,
+  base: DiagramObject[],
+  ours: DiagramObject[],
+  theirs: DiagramObject[]
+): DiagramObject[] {
+  const [b, o, t] = [base, ours, theirs].map(flattenObjects);
+
+  const objects = mergeRecords(
+    ctx,
+    { conceptType: 'diagram-object', label: (r) => `Diagram object ${r.id} in view "${diagram.name}"` },
+    b.objects,
+    o.objects,
+    t.objects
+  );
+  const connections = mergeRecords(
+    ctx,
+    { conceptType: 'connection', label: (c) => `Connection ${c.id} in view "${diagram.name}"` },
+    b.connections,
+    o.connections,
+    t.connections
+  );
+
+  const byId = new Map<string, DiagramObject>();
+  for (const { parentId: _parentId, ...obj } of objects) {
+    byId.set(obj.id, { ...obj, sourceConnections: [], targetConnectionIds: [], children: [] });
+  }
+
+  const roots: DiagramObject[] = [];
+  for (const record of objects) {
+    const obj = byId.get(record.id)!;
+    const parent = record.parentId ? byId.get(record.parentId) : undefined;
+    if (record.parentId && !parent) {
+      reportDangling(ctx, 'diagram-object', record.id, `Diagram object ${record.id} in view "${diagram.name}" was moved to the top level because its parent was deleted`);
+    }
+    (parent ? parent.children! : roots).push(obj);
+  }
+
+  // Connections can end on other connections, so attach them in passes until
+  // the ones left have an end that is no longer on the view
+  const ends = new Map<string, DiagramObject | DiagramConnection>(byId);
+  let pending = connections;
+  while (pending.length > 0) {
+    const waiting = pending.filter((conn) => !ends.has(conn.sourceId) || !ends.has(conn.targetId));
+    if (waiting.length === pending.length) break;
+    for (const conn of pending) {
+      if (waiting.includes(conn)) continue;
+      const source = ends.get(conn.sourceId)!;
+      const target = ends.get(conn.targetId)!;
+      (source.sourceConnections ??= []).push(conn);
+      (target.targetConnectionIds ??= []).push(conn.id);
+      ends.set(conn.id, conn);
+    }
+    pending = waiting;
+  }
+  for (const conn of pending) {
+    reportDangling(ctx, 'connection', conn.id, `Connection ${conn.id} in view "${diagram.name}" was dropped because one of its ends was deleted`);
+  }
+
+  return roots;
+}
+
+/**
+ * Drop diagram objects and connections whose element or relationship did not
+ * survive the merge. Children of a dropped object move up to its parent.
+ */
+function pruneDiagram(
+  ctx: MergeContext,
+  diagram: ArchiMateDiagram,
+  objects: DiagramObject[],
+  elementIds: Set<string>,
+  relationshipIds: Set<string>
+): DiagramObject[] {
+  const dropped = new Set<string>();
+
+  // Dropping a connection drops the connections drawn from it
+  function drop(conn: DiagramConnection): void {
+    dropped.add(conn.id);
+    conn.sourceConnections?.forEach(drop);
+  }
+
+  function keep(list: DiagramConnection[], keeps: (conn: DiagramConnection) => boolean): DiagramConnection[] {
+    return list.filter((conn) => {
+      if (!keeps(conn)) {
+        drop(conn);
+        return false;
+      }
+      if (conn.sourceConnections) conn.sourceConnections = keep(conn.sourceConnections, keeps);
+      return true;
+    });
+  }
+
+  function prune(list: DiagramObject[]): DiagramObject[] {
+    const kept: DiagramObject[] = [];
+    for (const obj of list) {
+      const children = prune(obj.children ?? []);
+      if (obj.elementId && !elementIds.has(obj.elementId)) {
+        reportDangling(ctx, 'diagram-object', obj.id, `Diagram object ${obj.id} in view "${diagram.name}" was dropped because element ${obj.elementId} was deleted`);
+        dropped.add(obj.id);
+        obj.sourceConnections?.forEach(drop);
+        kept.push(...children);
+        continue;
+      }
+      obj.children = children;
+      obj.sourceConnections = keep(obj.sourceConnections ?? [], (conn) => {
+        // Connections of notes and groups show no relationship
+        if (!conn.relationshipId || relationshipIds.has(conn.relationshipId)) return true;
+        reportDangling(ctx, 'connection', conn.id, `Connection ${conn.id} in view "${diagram.name}" was dropped because relationship ${conn.relationshipId} was deleted`);
+        return false;
+      });
+      kept.push(obj);
+    }
+    return kept;
+  }
+
+  const result = prune(objects);
+
+  // Connections into a dropped object or connection, until none are left
+  function clean(list: DiagramObject[]): void {
+    for (const obj of list) {
+      obj.sourceConnections = keep(obj.sourceConnections ?? [], (conn) => !dropped.has(conn.targetId));
+      clean(obj.children ?? []);
+    }
+  }
+  let size: number;
+  do {
+    size = dropped.size;
+    clean(result);
+  } while (dropped.size > size);
+
+  // Target references to dropped connections
+  function cleanTargets(owner: DiagramObject | DiagramConnection): void {
+    if (owner.targetConnectionIds) owner.targetConnectionIds = owner.targetConnectionIds.filter((id) => !dropped.has(id));
+    owner.sourceConnections?.forEach(cleanTargets);
+    if ('children' in owner) owner.children?.forEach(cleanTargets);
+  }
+  result.forEach(cleanTargets);
+
+  return result;
+}
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { getModelIndex, invalidateModelIndex } from './model-index.js';
+import { getElementById, getElementsByType, getRelationshipsForElement } from './parser.js';
+import {
+  addElementToModel,
+  addRelationshipToModel,
+  removeElementFromModel,
+  mergeElementsInModel,
+  removeRelationshipFromModel,
+  updateElementInModel,
+} from './writer.js';
+import { removeElementCommand, replaceModelCommand } from './history.js';
+import type { ArchiMateModel } from './types.js';
+import {
+  createEmptyModel,
+  createElement,
+  createRelationship,
+  resetIdCounter,
+} from '../__tests__/fixtures/sample-model.js';
+
+describe('ModelIndex', () => {
+  let model: ArchiMateModel;
+
+  beforeEach(() => {
+    resetIdCounter();
+    model = createEmptyModel();
+  });
+
+  it('keeps the same index object across writer mutations', () => {
+    const crm = createElement('ApplicationComponent', 'CRM');
+    addElementToModel(model, crm);
+    const index = getModelIndex(model);
+
+    const sell = createElement('BusinessProcess', 'Sell');
+    addElementToModel(model, sell);
+    const serving = createRelationship('Serving', crm.id, sell.id);
+    addRelationshipToModel(model, serving);
+
+    expect(getModelIndex(model)).toBe(index);
+    expect(getElementById(model, sell.id)).toBe(sell);
+    expect(getElementsByType(model, 'BusinessProcess')).toEqual([sell]);
+    expect(getRelationshipsForElement(model, crm.id, 'outgoing')).toEqual([serving]);
+    expect(getRelationshipsForElement(model, sell.id, 'incoming')).toEqual([serving]);
+    expect(getModelIndex(model).getElementFolder(sell.id)?.type).toBe('business');
+  });
+
+  it('drops removed elements and their relationships', () => {
+    const crm = createElement('ApplicationComponent', 'CRM');
+    const sell = createElement('BusinessProcess', 'Sell');
+    addElementToModel(model, crm);
+    addElementToModel(model, sell);
+    const serving = createRelationship('Serving', crm.id, sell.id);
+    addRelationshipToModel(model, serving);
+    const index = getModelIndex(model);
+
+    removeElementFromModel(model, crm.id);
+
+    expect(getModelIndex(model)).toBe(index);
+    expect(getElementById(model, crm.id)).toBeUndefined();
+    expect(getElementsByType(model, 'ApplicationComponent')).toEqual([]);
+    expect(getRelationshipsForElement(model, sell.id)).toEqual([]);
+    expect(index.getRelationship(serving.id)).toBeUndefined();
+  });
+
+  it('drops removed relationships', () => {
+    const a = createElement('ApplicationComponent', 'A');
+    const b = createElement('ApplicationComponent', 'B');
+    addElementToModel(model, a);
+    addElementToModel(model, b);
+    const flow = createRelationship('Flow', a.id, b.id);
+    const serving = createRelationship('Serving', a.id, b.id);
+    addRelationshipToModel(model, flow);
+    addRelationshipToModel(model, serving);
+
+    removeRelationshipFromModel(model, flow.id);
+
+    expect(getRelationshipsForElement(model, a.id)).toEqual([serving]);
+  });
+
+  it('finds elements updated through the writer', () => {
+    const crm = createElement('ApplicationComponent', 'CRM');
+    addElementToModel(model, crm);
+
+    updateElementInModel(model, crm.id, { name: 'CRM Cloud' });
+
+    expect(getElementById(model, crm.id)?.name).toBe('CRM Cloud');
+  });
+
+  it('returns relationships in model order and self-relationships once', () => {
+    const a = createElement('ApplicationComponent', 'A');
+    const b = createElement('ApplicationComponent', 'B');
+    addElementToModel(model, a);
+    addElementToModel(model, b);
+    const incoming = createRelationship('Flow', b.id, a.id);
+    const self = createRelationship('Composition', a.id, a.id);
+    const outgoing = createRelationship('Serving', a.id, b.id);
+    model.relationships.push(incoming, self, outgoing);
+
+    expect(getRelationshipsForElement(model, a.id)).toEqual([incoming, self, outgoing]);
+  });
+
+  it('rebuilds after folder or relationship arrays are changed directly', () => {
+    const crm = createElement('ApplicationComponent', 'CRM');
+    addElementToModel(model, crm);
+    const index = getModelIndex(model);
+
+    const erp = createElement('ApplicationComponent', 'ERP');
+    model.folders.find((f) => f.type === 'application')!.elements.push(erp);
+    expect(getElementById(model, erp.id)).toBe(erp);
+    expect(getModelIndex(model)).not.toBe(index);
+
+    model.relationships = [createRelationship('Flow', crm.id, erp.id)];
+    expect(getRelationshipsForElement(model, erp.id)).toHaveLength(1);
+  });
+
+  it('stays consistent through undo of a deletion and replacement of the whole model', () => {
+    const crm = createElement('ApplicationComponent', 'CRM');
+    addElementToModel(model, crm);
+    getModelIndex(model);
+
+    const remove = removeElementCommand(crm);
+    remove.apply(model);
+    expect(getElementById(model, crm.id)).toBeUndefined();
+    remove.revert(model);
+    expect(getElementById(model, crm.id)).toBe(crm);
+
+    const other = createEmptyModel('Other');
+    const node = createElement('Node', 'K8s');
+    other.folders.find((f) => f.type === 'technology')!.elements.push(node);
+    replaceModelCommand('Replace', other).apply(model);
+    expect(getElementById(model, crm.id)).toBeUndefined();
+    expect(getElementById(model, node.id)?.name).toBe('K8s');
+  });
+
+  it('returns the first of duplicate IDs, as a linear scan would', () => {
+    const first = createElement('ApplicationComponent', 'First');
+    const second = { ...first, name: 'Second' };
+    addElementToModel(model, first);
+    addElementToModel(model, second);
+
+    expect(getElementById(model, first.id)).toBe(first);
+    expect(getElementsByType(model, 'ApplicationComponent')).toEqual([first, second]);
+  });
+
+  it('can be invalidated after in-place type changes', () => {
+    const crm = createElement('ApplicationComponent', 'CRM');
+    addElementToModel(model, crm);
+    getModelIndex(model);
+
+    crm.type = 'ApplicationCollaboration';
+    invalidateModelIndex(model);
+
+    expect(getElementsByType(model, 'ApplicationCollaboration')).toEqual([crm]);
+    expect(getElementsByType(model, 'ApplicationComponent')).toEqual([]);
+  });
+
+  it('follows relationships merged into a survivor, through relationships on duplicates', () => {
+    const crm = createElement('ApplicationComponent', 'CRM');
+    const duplicate = createElement('ApplicationComponent', 'CRM System');
+    const sell = createElement('BusinessProcess', 'Sell');
+    const owner = createElement('BusinessActor', 'Owner');
+    for (const element of [crm, duplicate, sell, owner]) addElementToModel(model, element);
+    const serving = createRelationship('Serving', crm.id, sell.id);
+    const duplicateServing = createRelationship('Serving', duplicate.id, sell.id);
+    const note = createRelationship('Association', owner.id, serving.id);
+    const duplicateNote = createRelationship('Association', owner.id, duplicateServing.id);
+    const sameAs = createRelationship('Association', crm.id, duplicate.id);
+    for (const rel of [serving, duplicateServing, note, duplicateNote, sameAs]) addRelationshipToModel(model, rel);
+    getModelIndex(model);
+
+    const result = mergeElementsInModel(model, crm.id, [duplicate.id]);
+
+    expect(result.repointedRelationships).toEqual([duplicateServing.id]);
+    expect(result.removedRelationships).toEqual([sameAs.id]);
+    expect(result.duplicateRelationships).toEqual([
+      { id: duplicateServing.id, keptId: serving.id },
+      { id: duplicateNote.id, keptId: note.id },
+    ]);
+    expect(model.relationships).toEqual([serving, note]);
+    expect(getElementById(model, duplicate.id)).toBeUndefined();
+    expect(getRelationshipsForElement(model, crm.id)).toEqual([serving]);
+    expect(getRelationshipsForElement(model, serving.id)).toEqual([note]);
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Lookup index over a model: elements by ID and by type, relationships by ID
+ * and by endpoint.
+ *
+ * An index is built lazily the first time a model is queried and cached per
+ * model object. The writer functions in writer.ts update it in place, so
+ * creating or deleting concepts does not force a rebuild. Any other structural
+ * change, such as splicing a folder's elements, reassigning
+ * `model.relationships`, or replacing the whole model content, is detected on
+ * the next lookup by comparing the folder and relationship arrays the index
+ * was built from, and the index is rebuilt.
+ *
+ * Changing an element's type or a relationship's endpoints in place is not
+ * detectable that way; call invalidateModelIndex after doing so.
+ */
+
+import type {
+  ArchiMateElement,
+  ArchiMateFolder,
+  ArchiMateModel,
+  ArchiMateRelationship,
+} from './types.js';
+
+export type RelationshipDirection = 'incoming' | 'outgoing' | 'both';
+
+interface ElementEntry {
+  element: ArchiMateElement;
+  folder: ArchiMateFolder;
+}
+
+interface RelationshipEntry {
+  relationship: ArchiMateRelationship;
+  /** Insertion order, so endpoint lookups keep model order */
+  order: number;
+}
+
+export class ModelIndex {
+  private elements = new Map<string, ElementEntry>();
+  private elementsByType = new Map<string, Set<ArchiMateElement>>();
+  private relationships = new Map<string, RelationshipEntry>();
+  private outgoing = new Map<string, Map<ArchiMateRelationship, RelationshipEntry>>();
+  private incoming = new Map<string, Map<ArchiMateRelationship, RelationshipEntry>>();
+  private nextOrder = 0;
+
+  /** The arrays the index reflects, with their lengths, for staleness checks */
+  private folderList: ArchiMateFolder[] = [];
+  private elementArrays: ArchiMateElement[][] = [];
+  private elementCounts: number[] = [];
+  private relationshipArray: ArchiMateRelationship[] = [];
+  private relationshipCount = 0;
+  private rootFolders: ArchiMateFolder[] = [];
+
+  constructor(private readonly model: ArchiMateModel) {
+    for (const folder of allFolders(model.folders)) {
+      for (const element of folder.elements) {
+        this.indexElement(element, folder);
+      }
+    }
+    for (const relationship of model.relationships) {
+      this.indexRelationship(relationship);
+    }
+    this.snapshot();
+  }
+
+  getElement(id: string): ArchiMateElement | undefined {
+    return this.elements.get(id)?.element;
+  }
+
+  /** Folder that directly contains an element */
+  getElementFolder(id: string): ArchiMateFolder | undefined {
+    return this.elements.get(id)?.folder;
+  }
+
+  getElementsByType(type: string): ArchiMateElement[] {
+    return [...(this.elementsByType.get(type)?.values() ?? [])];
+  }
+
+  getRelationship(id: string): ArchiMateRelationship | undefined {
+    return this.relationships.get(id)?.relationship;
+  }
+
+  getRelationshipsForElement(elementId: string, direction: RelationshipDirection = 'both'): ArchiMateRelationship[] {
+    const outgoing = direction === 'incoming' ? [] : [...(this.outgoing.get(elementId)?.values() ?? [])];
+    const incoming = direction === 'outgoing' ? [] : [...(this.incoming.get(elementId)?.values() ?? [])];
+    if (direction !== 'both') {
+      return [...outgoing, ...incoming].map((entry) => entry.relationship);
+    }
+    // Self-relationships are both outgoing and incoming; report them once
+    const merged = new Set([...outgoing, ...incoming]);
+    return [...merged].sort((a, b) => a.order - b.order).map((entry) => entry.relationship);
+  }
+
+  /**
+   * True while the model's folders and relationship list are the arrays,
+   * with the lengths, that the index last saw.
+   */
+  isCurrent(): boolean {
+    const model = this.model;
+    if (model.folders !== this.rootFolders) return false;
+    if (model.relationships !== this.relationshipArray || model.relationships.length !== this.relationshipCount) {
+      return false;
+    }
+    const folders = allFolders(model.folders);
+    if (folders.length !== this.folderList.length) return false;
+    return folders.every(
+      (folder, i) =>
+        folder === this.folderList[i] &&
+        folder.elements === this.elementArrays[i] &&
+        folder.elements.length === this.elementCounts[i]
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Updates from writer.ts
+  // ---------------------------------------------------------------------------
+
+  elementAdded(element: ArchiMateElement, folder: ArchiMateFolder): void {
+    this.indexElement(element, folder);
+    this.snapshot();
+  }
+
+  elementsRemoved(elements: ArchiMateElement[]): void {
+    elements.forEach((element) => this.unindexElement(element));
+    this.snapshot();
+  }
+
+  relationshipAdded(relationship: ArchiMateRelationship): void {
+    this.indexRelationship(relationship);
+    this.snapshot();
+  }
+
+  relationshipsRemoved(relationships: ArchiMateRelationship[]): void {
+    relationships.forEach((relationship) => this.unindexRelationship(relationship));
+    this.snapshot();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  // Lookups by ID return the first concept with that ID, as a linear scan
+  // would; per-type and per-endpoint lists keep duplicates.
+
+  private indexElement(element: ArchiMateElement, folder: ArchiMateFolder): void {
+    if (!this.elements.has(element.id)) {
+      this.elements.set(element.id, { element, folder });
+    }
+    bucket(this.elementsByType, element.type, () => new Set()).add(element);
+  }
+
+  private unindexElement(element: ArchiMateElement): void {
+    if (this.elements.get(element.id)?.element === element) {
+      this.elements.delete(element.id);
+    }
+    this.elementsByType.get(element.type)?.delete(element);
+  }
+
+  private indexRelationship(relationship: ArchiMateRelationship): void {
+    const entry = { relationship, order: this.nextOrder++ };
+    if (!this.relationships.has(relationship.id)) {
+      this.relationships.set(relationship.id, entry);
+    }
+    bucket(this.outgoing, relationship.sourceId, () => new Map()).set(relationship, entry);
+    bucket(this.incoming, relationship.targetId, () => new Map()).set(relationship, entry);
+  }
+
+  private unindexRelationship(relationship: ArchiMateRelationship): void {
+    if (this.relationships.get(relationship.id)?.relationship === relationship) {
+      this.relationships.delete(relationship.id);
+    }
+    this.outgoing.get(relationship.sourceId)?.delete(relationship);
+    this.incoming.get(relationship.targetId)?.delete(relationship);
+  }
+
+  private snapshot(): void {
+    this.rootFolders = this.model.folders;
+    this.folderList = allFolders(this.model.folders);
+    this.elementArrays = this.folderList.map((f) => f.elements);
+    this.elementCounts = this.elementArrays.map((elements) => elements.length);
+    this.relationshipArray = this.model.relationships;
+    this.relationshipCount = this.model.relationships.length;
+  }
+}
+
+const indexes = new WeakMap<ArchiMateModel, ModelIndex>();
+
+/**
+ * The index for a model, built or rebuilt if it is missing or stale.
+ */
+export function getModelIndex(model: ArchiMateModel): ModelIndex {
+  let index = indexes.get(model);
+  if (!index || !index.isCurrent()) {
+    index = new ModelIndex(model);
+    indexes.set(model, index);
+  }
+  return index;
+}
+
+/**
+ * The model's index if one exists and is up to date, without building one.
+ * Writers use this to keep an existing index in step with their change.
+ */
+export function peekModelIndex(model: ArchiMateModel): ModelIndex | undefined {
+  const index = indexes.get(model);
+  if (index && !index.isCurrent()) {
+    indexes.delete(model);
+    return undefined;
+  }
+  return index;
+}
+
+/**
+ * Drop a model's index, for in-place changes the staleness check cannot see.
+ */
+export function invalidateModelIndex(model: ArchiMateModel): void {
+  indexes.delete(model);
+}
+
+function allFolders(folders: ArchiMateFolder[], into: ArchiMateFolder[] = []): ArchiMateFolder[] {
+  for (const folder of folders) {
+    into.push(folder);
+    allFolders(folder.subfolders, into);
+  }
+  return into;
+}
+
+function bucket<T>(map: Map<string, T>, key: string, create: () => T): T {
+  let inner = map.get(key);
+  if (!inner) {
+    inner = create();
+    map.set(key, inner);
+  }
+  return inner;
+}
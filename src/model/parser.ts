@@ -3,7 +3,6 @@
  * Parses model.archimate files from coArchi2 repositories
  */
 
-import { XMLParser } from 'fast-xml-parser';
 import { readFile } from 'fs/promises';
 import { existsSync } from 'fs';
 import { join } from 'path';
@@ -17,166 +16,214 @@ import {
   DiagramConnection,
   DiagramBounds,
   ElementType,
-  RelationshipType,
+  RelationshipEndpointType,
   AccessType,
   InfluenceModifier,
   XmlTypeToElementType,
   XmlTypeToRelationshipType,
+  XmlTypeToDiagramObjectType,
+  TextAlignmentToXml,
+  TextPositionToXml,
+  ConnectionTextPositionToXml,
+  ConnectionStyle,
+  DiagramStyle,
   ArchiMateProperty,
+  XmlNode,
 } from './types.js';
+import { getModelIndex } from './model-index.js';
+import { captureExtension, parseXmlDocument, withNestedExtension } from './xml-tree.js';
+import {
+  elementShape,
+  relationshipShape,
+  diagramShape,
+  diagramObjectShape,
+  connectionShape,
+  boundsShape,
+  bendpointShape,
+  folderShape,
+  modelShape,
+} from './writer.js';
 
 const MODEL_FILENAME = 'model.archimate';
 
-interface XmlElement {
-  '@_xsi:type'?: string;
-  '@_name'?: string;
-  '@_id'?: string;
-  '@_source'?: string;
-  '@_target'?: string;
-  '@_accessType'?: string;
-  '@_modifier'?: string;
-  '@_archimateElement'?: string;
-  '@_archimateRelationship'?: string;
-  documentation?: string;
-  property?: XmlProperty | XmlProperty[];
-  bounds?: XmlBounds;
-  child?: XmlElement | XmlElement[];
-  sourceConnection?: XmlConnection | XmlConnection[];
-  '@_targetConnections'?: string;
-  element?: XmlElement | XmlElement[];
-  folder?: XmlFolder | XmlFolder[];
-}
-
-interface XmlProperty {
-  '@_key': string;
-  '@_value': string;
+function childrenNamed(node: XmlNode, name: string): XmlNode[] {
+  return node.children.filter(c => c.name === name);
 }
 
-interface XmlBounds {
-  '@_x'?: string;
-  '@_y'?: string;
-  '@_width'?: string;
-  '@_height'?: string;
+function childText(node: XmlNode, name: string): string | undefined {
+  return node.children.find(c => c.name === name)?.text;
 }
 
-interface XmlConnection {
-  '@_xsi:type'?: string;
-  '@_id': string;
-  '@_source': string;
-  '@_target': string;
-  '@_archimateRelationship'?: string;
-  bendpoint?: XmlBendpoint | XmlBendpoint[];
-}
-
-interface XmlBendpoint {
-  '@_x'?: string;
-  '@_y'?: string;
+/**
+ * Attach the extension for a concept's node, if the file holds anything the
+ * writer would not reproduce.
+ */
+function withExtension<T extends { xml?: ArchiMateModel['xml'] }>(concept: T, extension: T['xml']): T {
+  if (extension) concept.xml = extension;
+  return concept;
 }
 
-interface XmlFolder {
-  '@_name': string;
-  '@_id': string;
-  '@_type'?: string;
-  element?: XmlElement | XmlElement[];
-  folder?: XmlFolder | XmlFolder[];
+function parseProperties(node: XmlNode): ArchiMateProperty[] {
+  return childrenNamed(node, 'property').map(p => ({
+    key: p.attributes.key,
+    value: p.attributes.value,
+  }));
 }
 
-interface XmlModel {
-  'archimate:model': {
-    '@_xmlns:xsi': string;
-    '@_xmlns:archimate': string;
-    '@_name': string;
-    '@_id': string;
-    '@_version'?: string;
-    documentation?: string;
-    folder?: XmlFolder | XmlFolder[];
+function parseBounds(bounds: XmlNode | undefined): DiagramBounds {
+  return {
+    x: parseInt(bounds?.attributes.x || '0', 10),
+    y: parseInt(bounds?.attributes.y || '0', 10),
+    width: parseInt(bounds?.attributes.width || '120', 10),
+    height: parseInt(bounds?.attributes.height || '55', 10),
   };
 }
 
-function toArray<T>(item: T | T[] | undefined): T[] {
-  if (item === undefined) return [];
-  return Array.isArray(item) ? item : [item];
+/**
+ * Look up the name Archi's numeric code stands for. Unknown codes give
+ * undefined, so the attribute is kept in the extension as is.
+ */
+function fromXmlCode<T extends string>(codes: Record<T, string>, value: string | undefined): T | undefined {
+  return (Object.keys(codes) as T[]).find((name) => codes[name] === value);
 }
 
-function parseProperties(props: XmlProperty | XmlProperty[] | undefined): ArchiMateProperty[] {
-  if (!props) return [];
-  return toArray(props).map(p => ({
-    key: p['@_key'],
-    value: p['@_value'],
-  }));
+function parseConnectionStyle(attrs: Record<string, string>): ConnectionStyle {
+  return {
+    lineColor: attrs.lineColor,
+    fontColor: attrs.fontColor,
+    font: attrs.font,
+    textPosition: fromXmlCode(ConnectionTextPositionToXml, attrs.textPosition),
+  };
 }
 
-function parseBounds(bounds: XmlBounds | undefined): DiagramBounds {
+function parseDiagramStyle(attrs: Record<string, string>): DiagramStyle {
   return {
-    x: parseInt(bounds?.['@_x'] || '0', 10),
-    y: parseInt(bounds?.['@_y'] || '0', 10),
-    width: parseInt(bounds?.['@_width'] || '120', 10),
-    height: parseInt(bounds?.['@_height'] || '55', 10),
+    fillColor: attrs.fillColor,
+    lineColor: attrs.lineColor,
+    fontColor: attrs.fontColor,
+    font: attrs.font,
+    textAlignment: fromXmlCode(TextAlignmentToXml, attrs.textAlignment),
+    textPosition: fromXmlCode(TextPositionToXml, attrs.textPosition),
   };
 }
 
-function parseConnections(conns: XmlConnection | XmlConnection[] | undefined): DiagramConnection[] {
-  return toArray(conns).map(c => ({
-    id: c['@_id'],
-    sourceId: c['@_source'],
-    targetId: c['@_target'],
-    relationshipId: c['@_archimateRelationship'] || '',
-    bendpoints: toArray(c.bendpoint).map(bp => ({
-      x: parseInt(bp['@_x'] || '0', 10),
-      y: parseInt(bp['@_y'] || '0', 10),
-    })),
-  }));
+/** Keep only the style fields the node sets */
+function definedStyle<T extends object>(style: T): Partial<T> {
+  return Object.fromEntries(Object.entries(style).filter(([, value]) => value !== undefined)) as Partial<T>;
 }
 
-function parseDiagramObjects(children: XmlElement | XmlElement[] | undefined): DiagramObject[] {
-  return toArray(children).map(child => {
-    const targetConns = child['@_targetConnections'];
-    return {
-      id: child['@_id'] || '',
-      elementId: child['@_archimateElement'] || '',
-      bounds: parseBounds(child.bounds),
-      sourceConnections: parseConnections(child.sourceConnection),
-      targetConnectionIds: targetConns ? targetConns.split(' ') : [],
-      children: parseDiagramObjects(child.child),
-    };
+function parseConnection(node: XmlNode): DiagramConnection {
+  const attrs = node.attributes;
+  const bendpointNodes = childrenNamed(node, 'bendpoint');
+  const nestedConnections = childrenNamed(node, 'sourceConnection');
+  const conn: DiagramConnection = {
+    id: attrs.id,
+    sourceId: attrs.source,
+    targetId: attrs.target,
+    relationshipId: attrs.archimateRelationship || '',
+    bendpoints: bendpointNodes.map(bp => ({
+      startX: parseInt(bp.attributes.startX || '0', 10),
+      startY: parseInt(bp.attributes.startY || '0', 10),
+      endX: parseInt(bp.attributes.endX || '0', 10),
+      endY: parseInt(bp.attributes.endY || '0', 10),
+    })),
+    ...definedStyle(parseConnectionStyle(attrs)),
+  };
+  // Connections drawn from this one, for relationships on its relationship
+  if (nestedConnections.length > 0) {
+    conn.sourceConnections = nestedConnections.map(parseConnection);
+  }
+  if (attrs.targetConnections) {
+    conn.targetConnectionIds = attrs.targetConnections.split(' ');
+  }
+  // Connections between notes and other non-element objects keep their XML
+  // type in the extension
+  if (attrs['xsi:type'] && attrs['xsi:type'] !== 'archimate:Connection') {
+    conn.xml = { attributes: { 'xsi:type': attrs['xsi:type'] } };
+  }
+  let extension = captureExtension(node, connectionShape(conn));
+  bendpointNodes.forEach((bp, i) => {
+    extension = withNestedExtension(extension, `bendpoint.${i}`, captureExtension(bp, bendpointShape(conn.bendpoints![i])));
   });
+  delete conn.xml;
+  return withExtension(conn, extension);
 }
 
-function parseElement(elem: XmlElement): ArchiMateElement | null {
-  const xsiType = elem['@_xsi:type'];
+function parseDiagramObject(node: XmlNode): DiagramObject {
+  const attrs = node.attributes;
+  const targetConns = attrs.targetConnections;
+  const boundsNode = node.children.find(c => c.name === 'bounds');
+  const obj: DiagramObject = {
+    id: attrs.id || '',
+    elementId: attrs.archimateElement || '',
+    bounds: parseBounds(boundsNode),
+    sourceConnections: childrenNamed(node, 'sourceConnection').map(parseConnection),
+    targetConnectionIds: targetConns ? targetConns.split(' ') : [],
+    children: childrenNamed(node, 'child').map(parseDiagramObject),
+    ...definedStyle(parseDiagramStyle(attrs)),
+  };
+  const objectType = XmlTypeToDiagramObjectType[attrs['xsi:type'] ?? 'archimate:DiagramObject'];
+  if (objectType === 'Note') {
+    obj.objectType = objectType;
+    obj.content = childText(node, 'content') ?? '';
+  } else if (objectType === 'Group') {
+    obj.objectType = objectType;
+    obj.name = attrs.name ?? '';
+  } else if (objectType === 'DiagramModelReference') {
+    obj.objectType = objectType;
+    obj.diagramId = attrs.model ?? '';
+  } else if (!objectType) {
+    // Other object types are read as diagram objects without an element;
+    // their XML type is kept in the extension
+    obj.xml = { attributes: { 'xsi:type': attrs['xsi:type'] } };
+  }
+  let extension = captureExtension(node, diagramObjectShape(obj));
+  if (boundsNode) {
+    extension = withNestedExtension(extension, 'bounds', captureExtension(boundsNode, boundsShape(obj.bounds)));
+  }
+  delete obj.xml;
+  return withExtension(obj, extension);
+}
+function parseElement(node: XmlNode): ArchiMateElement | null {
+  const xsiType = node.attributes['xsi:type'];
   if (!xsiType) return null;
 
   const elementType = XmlTypeToElementType[xsiType];
   if (!elementType) return null; // Not a model element (could be a diagram)
 
-  return {
-    id: elem['@_id'] || '',
+  const element: ArchiMateElement = {
+    id: node.attributes.id || '',
     type: elementType,
-    name: elem['@_name'] || '',
-    documentation: elem.documentation,
-    properties: parseProperties(elem.property),
+    name: node.attributes.name || '',
+    documentation: childText(node, 'documentation'),
+    properties: parseProperties(node),
   };
+  if (elementType === 'Junction') {
+    element.junctionType = node.attributes.type === 'or' ? 'or' : 'and';
+  }
+  return withExtension(element, captureExtension(node, elementShape(element)));
 }
 
-function parseRelationship(elem: XmlElement): ArchiMateRelationship | null {
-  const xsiType = elem['@_xsi:type'];
+function parseRelationship(node: XmlNode): ArchiMateRelationship | null {
+  const attrs = node.attributes;
+  const xsiType = attrs['xsi:type'];
   if (!xsiType) return null;
 
   const relType = XmlTypeToRelationshipType[xsiType];
   if (!relType) return null;
 
   const rel: ArchiMateRelationship = {
-    id: elem['@_id'] || '',
+    id: attrs.id || '',
     type: relType,
-    sourceId: elem['@_source'] || '',
-    targetId: elem['@_target'] || '',
-    name: elem['@_name'],
-    documentation: elem.documentation,
-    properties: parseProperties(elem.property),
+    sourceId: attrs.source || '',
+    targetId: attrs.target || '',
+    name: attrs.name,
+    documentation: childText(node, 'documentation'),
+    properties: parseProperties(node),
   };
 
   // Handle access type for Access relationships
-  if (relType === 'Access' && elem['@_accessType']) {
+  if (relType === 'Access' && attrs.accessType) {
     const accessMap: Record<string, AccessType> = {
       '1': 'Read',
       '2': 'Write',
@@ -185,128 +232,41 @@ function parseRelationship(elem: XmlElement): ArchiMateRelationship | null {
       'write': 'Write',
       'readWrite': 'ReadWrite',
     };
-    rel.accessType = accessMap[elem['@_accessType']] as AccessType;
+    rel.accessType = accessMap[attrs.accessType] as AccessType;
   }
 
   // Handle influence modifier
-  if (relType === 'Influence' && elem['@_modifier']) {
-    rel.influenceModifier = elem['@_modifier'] as InfluenceModifier;
+  if (relType === 'Influence' && attrs.modifier) {
+    rel.influenceModifier = attrs.modifier as InfluenceModifier;
   }
 
-  return rel;
+  return withExtension(rel, captureExtension(node, relationshipShape(rel)));
 }
 
-function parseDiagram(elem: XmlElement): ArchiMateDiagram | null {
-  const xsiType = elem['@_xsi:type'];
-  if (xsiType !== 'archimate:ArchimateDiagramModel') return null;
-
-  return {
-    id: elem['@_id'] || '',
-    name: elem['@_name'] || '',
-    documentation: elem.documentation,
-    objects: parseDiagramObjects(elem.child),
-  };
-}
+function parseDiagram(node: XmlNode): ArchiMateDiagram | null {
+  if (node.attributes['xsi:type'] !== 'archimate:ArchimateDiagramModel') return null;
 
-function parseFolder(xmlFolder: XmlFolder): ArchiMateFolder {
-  const folder: ArchiMateFolder = {
-    id: xmlFolder['@_id'],
-    name: xmlFolder['@_name'],
-    type: xmlFolder['@_type'] || '',
-    elements: [],
-    subfolders: [],
+  const diagram: ArchiMateDiagram = {
+    id: node.attributes.id || '',
+    name: node.attributes.name || '',
+    documentation: childText(node, 'documentation'),
+    objects: childrenNamed(node, 'child').map(parseDiagramObject),
   };
-
-  // Parse elements
-  for (const elem of toArray(xmlFolder.element)) {
-    const element = parseElement(elem);
-    if (element) {
-      folder.elements.push(element);
-    }
+  if (node.attributes.viewpoint) {
+    diagram.viewpoint = node.attributes.viewpoint;
   }
-
-  // Parse subfolders
-  for (const sub of toArray(xmlFolder.folder)) {
-    folder.subfolders.push(parseFolder(sub));
+  const properties = parseProperties(node);
+  if (properties.length > 0) {
+    diagram.properties = properties;
   }
-
-  return folder;
+  return withExtension(diagram, captureExtension(node, diagramShape(diagram)));
 }
 
+/**
+ * Legacy entry point, kept for callers of earlier versions
+ */
 export async function parseModel(modelPath: string): Promise<ArchiMateModel> {
-  // Check if path is a directory or file
-  let filePath = modelPath;
-  if (!filePath.endsWith('.archimate')) {
-    filePath = join(modelPath, MODEL_FILENAME);
-  }
-
-  if (!existsSync(filePath)) {
-    throw new Error(`Model file not found: ${filePath}`);
-  }
-
-  const xmlContent = await readFile(filePath, 'utf-8');
-
-  const parser = new XMLParser({
-    ignoreAttributes: false,
-    attributeNamePrefix: '@_',
-    textNodeName: '#text',
-    isArray: (name) => ['folder', 'element', 'child', 'property', 'sourceConnection', 'bendpoint'].includes(name),
-  });
-
-  const parsed = parser.parse(xmlContent) as XmlModel;
-  const xmlModel = parsed['archimate:model'];
-
-  if (!xmlModel) {
-    throw new Error('Invalid ArchiMate model: missing archimate:model root element');
-  }
-
-  const model: ArchiMateModel = {
-    id: xmlModel['@_id'],
-    name: xmlModel['@_name'],
-    version: xmlModel['@_version'] || '5.0.0',
-    documentation: xmlModel.documentation,
-    folders: [],
-    relationships: [],
-    diagrams: [],
-  };
-
-  // Parse all folders
-  for (const xmlFolder of toArray(xmlModel.folder)) {
-    const folder = parseFolder(xmlFolder);
-    model.folders.push(folder);
-
-    // Extract relationships from the Relations folder
-    if (folder.type === 'relations') {
-      extractRelationships(folder, model.relationships);
-    }
-
-    // Extract diagrams from the Views folder
-    if (folder.type === 'diagrams') {
-      extractDiagrams(xmlFolder, model.diagrams);
-    }
-  }
-
-  return model;
-}
-
-function extractRelationships(folder: ArchiMateFolder, relationships: ArchiMateRelationship[]): void {
-  // The folder.elements in relations folder are actually stored differently
-  // We need to re-parse from the raw elements
-  // For now, we'll use a workaround by checking if elements exist
-}
-
-function extractDiagrams(xmlFolder: XmlFolder, diagrams: ArchiMateDiagram[]): void {
-  for (const elem of toArray(xmlFolder.element)) {
-    const diagram = parseDiagram(elem);
-    if (diagram) {
-      diagrams.push(diagram);
-    }
-  }
-
-  // Check subfolders
-  for (const sub of toArray(xmlFolder.folder)) {
-    extractDiagrams(sub, diagrams);
-  }
+  return parseModelComplete(modelPath);
 }
 
 /**
@@ -323,81 +283,97 @@ export async function parseModelComplete(modelPath: string): Promise<ArchiMateMo
   }
 
   const xmlContent = await readFile(filePath, 'utf-8');
+  return parseModelXml(xmlContent);
+}
 
-  const parser = new XMLParser({
-    ignoreAttributes: false,
-    attributeNamePrefix: '@_',
-    textNodeName: '#text',
-  });
-
-  const parsed = parser.parse(xmlContent) as XmlModel;
-  const xmlModel = parsed['archimate:model'];
-
-  if (!xmlModel) {
+/**
+ * Parse the XML content of a model.archimate file.
+ *
+ * Content the typed model does not represent, such as diagram notes and
+ * groups, colors and fonts, profiles, and canvas or sketch views, is kept in
+ * the concepts' `xml` extensions so that serializeModel writes it back.
+ */
+export function parseModelXml(xmlContent: string): ArchiMateModel {
+  const root = parseXmlDocument(xmlContent);
+  if (root?.name !== 'archimate:model') {
     throw new Error('Invalid ArchiMate model: missing archimate:model root element');
   }
 
   const model: ArchiMateModel = {
-    id: xmlModel['@_id'],
-    name: xmlModel['@_name'],
-    version: xmlModel['@_version'] || '5.0.0',
-    documentation: xmlModel.documentation,
+    id: root.attributes.id,
+    name: root.attributes.name,
+    version: root.attributes.version || '5.0.0',
+    // Archi stores the model's documentation as <purpose>; earlier versions
+    // of this server wrote <documentation>
+    documentation: childText(root, 'purpose') ?? childText(root, 'documentation'),
     folders: [],
     relationships: [],
     diagrams: [],
   };
+  const folderNodes = childrenNamed(root, 'folder');
+  const homes = new Set<string | undefined>();
 
   // Process all folders recursively
-  function processFolder(xmlFolder: XmlFolder, parentFolder: ArchiMateFolder | null): ArchiMateFolder {
+  function processFolder(node: XmlNode, isRoot: boolean): ArchiMateFolder {
     const folder: ArchiMateFolder = {
-      id: xmlFolder['@_id'],
-      name: xmlFolder['@_name'],
-      type: xmlFolder['@_type'] || '',
+      id: node.attributes.id,
+      name: node.attributes.name,
+      type: node.attributes.type || '',
       elements: [],
       subfolders: [],
     };
-
-    // Parse elements
-    const elements = toArray(xmlFolder.element);
-    for (const elem of elements) {
-      const xsiType = elem['@_xsi:type'];
-
-      // Check if it's a relationship
-      if (xsiType && XmlTypeToRelationshipType[xsiType]) {
-        const rel = parseRelationship(elem);
-        if (rel) {
-          model.relationships.push(rel);
-        }
+    const known: Array<{ tag: string; id?: string }> = [];
+    const contents = { relationships: [] as ArchiMateRelationship[], diagrams: [] as ArchiMateDiagram[] };
+
+    for (const child of node.children) {
+      if (child.name === 'folder') {
+        folder.subfolders.push(processFolder(child, false));
+        known.push({ tag: 'folder', id: child.attributes.id ?? '' });
+        continue;
       }
-      // Check if it's a diagram
-      else if (xsiType === 'archimate:ArchimateDiagramModel') {
-        const diagram = parseDiagram(elem);
-        if (diagram) {
-          model.diagrams.push(diagram);
-        }
-      }
-      // Otherwise it's a regular element
-      else {
-        const element = parseElement(elem);
-        if (element) {
-          folder.elements.push(element);
-        }
+      if (child.name !== 'element') continue;
+
+      const xsiType = child.attributes['xsi:type'];
+      const concept = xsiType && XmlTypeToRelationshipType[xsiType]
+        ? parseRelationship(child)
+        : xsiType === 'archimate:ArchimateDiagramModel'
+          ? parseDiagram(child)
+          : parseElement(child);
+      if (!concept) continue; // Kept verbatim in the folder's extension
+
+      known.push({ tag: 'element', id: child.attributes.id ?? '' });
+      if ('sourceId' in concept) {
+        model.relationships.push(concept);
+        contents.relationships.push(concept);
+      } else if ('objects' in concept) {
+        model.diagrams.push(concept);
+        contents.diagrams.push(concept);
+      } else {
+        folder.elements.push(concept);
       }
     }
 
-    // Parse subfolders
-    for (const sub of toArray(xmlFolder.folder)) {
-      folder.subfolders.push(processFolder(sub, folder));
-    }
+    // Relationships and views outside the top-level Relations and Views
+    // folders are written back to their folder through its extension
+    const isHome = isRoot && homes.has(folder.id);
+    const shape = folderShape(folder, isHome ? contents : { relationships: [], diagrams: [] });
+    return withExtension(folder, captureExtension(node, shape, known));
+  }
 
-    return folder;
+  // The first top-level Relations and Views folders, as homeFolder picks them
+  for (const kind of ['relations', 'diagrams']) {
+    homes.add(folderNodes.find(n => n.attributes.type === kind)?.attributes.id);
   }
 
-  for (const xmlFolder of toArray(xmlModel.folder)) {
-    model.folders.push(processFolder(xmlFolder, null));
+  for (const node of folderNodes) {
+    model.folders.push(processFolder(node, true));
+  }
+  const properties = parseProperties(root);
+  if (properties.length > 0) {
+    model.properties = properties;
   }
 
-  return model;
+  return withExtension(model, captureExtension(root, modelShape(model)));
 }
 
 /**
@@ -424,14 +400,40 @@ export function getAllElements(model: ArchiMateModel): ArchiMateElement[] {
  * Find an element by ID
  */
 export function getElementById(model: ArchiMateModel, id: string): ArchiMateElement | undefined {
-  return getAllElements(model).find(e => e.id === id);
+  return getModelIndex(model).getElement(id);
+}
+
+/**
+ * An element or relationship that a relationship starts from or ends on
+ */
+export interface RelationshipEnd {
+  id: string;
+  type: RelationshipEndpointType;
+  /** Element name, or for a relationship its name or a description */
+  name: string;
+}
+
+/**
+ * Find the element or relationship with an ID, as an end of a relationship
+ */
+export function getRelationshipEnd(model: ArchiMateModel, id: string): RelationshipEnd | undefined {
+  const index = getModelIndex(model);
+  const element = index.getElement(id);
+  if (element) {
+    return { id, type: element.type, name: element.name };
+  }
+  const relationship = index.getRelationship(id);
+  if (relationship) {
+    return { id, type: 'Relationship', name: relationship.name || `${relationship.type} relationship` };
+  }
+  return undefined;
 }
 
 /**
  * Find elements by type
  */
 export function getElementsByType(model: ArchiMateModel, type: ElementType): ArchiMateElement[] {
-  return getAllElements(model).filter(e => e.type === type);
+  return getModelIndex(model).getElementsByType(type);
 }
 
 /**
@@ -450,11 +452,7 @@ export function getRelationshipsForElement(
   elementId: string,
   direction: 'incoming' | 'outgoing' | 'both' = 'both'
 ): ArchiMateRelationship[] {
-  return model.relationships.filter(r => {
-    if (direction === 'outgoing') return r.sourceId === elementId;
-    if (direction === 'incoming') return r.targetId === elementId;
-    return r.sourceId === elementId || r.targetId === elementId;
-  });
+  return getModelIndex(model).getRelationshipsForElement(elementId, direction);
 }
 
 /**
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findPropertyOwner,
+  matchesPropertyFilters,
+  parsePropertyFilter,
+  removePropertyKeys,
+  setPropertyValues,
+} from './properties.js';
+import type { ArchiMateProperty } from './types.js';
+import {
+  createTestModelWithView,
+  getAllElements,
+} from '../__tests__/fixtures/sample-model.js';
+
+const props = (...pairs: Array<[string, string]>): ArchiMateProperty[] => pairs.map(([key, value]) => ({ key, value }));
+
+describe('properties', () => {
+  describe('setPropertyValues', () => {
+    it('merges by key, collapsing repeated entries of a set key', () => {
+      const current = props(['tag', 'a'], ['owner', 'Sales'], ['tag', 'b']);
+      expect(setPropertyValues(current, props(['tag', 'c'], ['cost', 'low']), 'merge')).toEqual(
+        props(['tag', 'c'], ['owner', 'Sales'], ['cost', 'low'])
+      );
+      expect(current).toHaveLength(3);
+    });
+
+    it('replaces every property, keeping repeated keys given', () => {
+      expect(setPropertyValues(props(['owner', 'Sales']), props(['tag', 'a'], ['tag', 'b']), 'replace')).toEqual(
+        props(['tag', 'a'], ['tag', 'b'])
+      );
+      expect(setPropertyValues(undefined, props(['owner', 'IT']), 'merge')).toEqual(props(['owner', 'IT']));
+    });
+  });
+
+  it('removes every entry of the given keys', () => {
+    expect(removePropertyKeys(props(['tag', 'a'], ['owner', 'Sales'], ['tag', 'b']), ['tag', 'missing'])).toEqual(
+      props(['owner', 'Sales'])
+    );
+    expect(removePropertyKeys(undefined, ['tag'])).toEqual([]);
+  });
+
+  describe('filters', () => {
+    it('reads the four filter forms', () => {
+      expect(parsePropertyFilter('lifecycle=retiring')).toEqual({ key: 'lifecycle', value: 'retiring', negate: false });
+      expect(parsePropertyFilter(' owner != Sales Team ')).toEqual({ key: 'owner', value: 'Sales Team', negate: true });
+      expect(parsePropertyFilter('owner')).toEqual({ key: 'owner', negate: false });
+      expect(parsePropertyFilter('!owner')).toEqual({ key: 'owner', negate: true });
+      expect(parsePropertyFilter('cost=')).toEqual({ key: 'cost', value: '', negate: false });
+      expect(() => parsePropertyFilter('!owner=Sales')).toThrow('Invalid property filter: !owner=Sales');
+      expect(() => parsePropertyFilter('=Sales')).toThrow('Invalid property filter');
+    });
+
+    it('matches keys and values ignoring case, requiring every filter', () => {
+      const properties = props(['Lifecycle', 'Retiring'], ['tag', 'a'], ['tag', 'b']);
+      const matches = (...filters: string[]) => matchesPropertyFilters(properties, filters.map(parsePropertyFilter));
+
+      expect(matches('lifecycle=retiring')).toBe(true);
+      expect(matches('tag=b', 'lifecycle')).toBe(true);
+      expect(matches('tag=b', 'owner')).toBe(false);
+      expect(matches('tag!=a')).toBe(false);
+      expect(matches('!owner', 'owner!=Sales')).toBe(true);
+      expect(matchesPropertyFilters(undefined, [parsePropertyFilter('lifecycle')])).toBe(false);
+    });
+  });
+
+  it('finds elements, relationships, views, and the model by ID', () => {
+    const model = createTestModelWithView();
+    const element = getAllElements(model)[0];
+
+    expect(findPropertyOwner(model, model.id)?.kind).toBe('model');
+    expect(findPropertyOwner(model, element.id)).toMatchObject({ kind: 'element', name: element.name, concept: element });
+    expect(findPropertyOwner(model, model.relationships[0].id)?.kind).toBe('relationship');
+    expect(findPropertyOwner(model, model.diagrams[0].id)?.kind).toBe('view');
+    expect(findPropertyOwner(model, 'missing')).toBeUndefined();
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * User-defined properties of elements, relationships, views, and the model:
+ * setting and removing them by key, and filtering concepts by them.
+ *
+ * Used by the archimate_set_properties and archimate_remove_properties MCP
+ * tools and by the property filters of archimate_list_elements and
+ * archimate_find_elements.
+ */
+
+import type { ArchiMateModel, ArchiMateProperty } from './types.js';
+import { getModelIndex } from './model-index.js';
+
+export type PropertyOwnerKind = 'model' | 'element' | 'relationship' | 'view';
+
+/**
+ * How set properties combine with the existing ones: "merge" changes only the
+ * given keys, "replace" drops every other key.
+ */
+export type PropertyMode = 'merge' | 'replace';
+
+export interface PropertyOwner {
+  kind: PropertyOwnerKind;
+  name: string;
+  concept: { properties?: ArchiMateProperty[] };
+}
+
+export interface PropertyFilter {
+  key: string;
+  /** Undefined to match any value of the key */
+  value?: string;
+  /** Match concepts that do not have the value, or the key */
+  negate: boolean;
+}
+
+/**
+ * The concept an ID belongs to, among the ones that hold properties.
+ */
+export function findPropertyOwner(model: ArchiMateModel, id: string): PropertyOwner | undefined {
+  if (model.id === id) {
+    return { kind: 'model', name: model.name, concept: model };
+  }
+  const index = getModelIndex(model);
+  const element = index.getElement(id);
+  if (element) {
+    return { kind: 'element', name: element.name, concept: element };
+  }
+  const relationship = index.getRelationship(id);
+  if (relationship) {
+    return { kind: 'relationship', name: relationship.name || relationship.type, concept: relationship };
+  }
+  const view = model.diagrams.find((d) => d.id === id);
+  if (view) {
+    return { kind: 'view', name: view.name, concept: view };
+  }
+  return undefined;
+}
+
+/**
+ * The properties after setting `values`. In merge mode a key that is set
+ * keeps its position and loses any repeated entries; new keys are appended.
+ */
+export function setPropertyValues(
+  current: ArchiMateProperty[] | undefined,
+  values: ArchiMateProperty[],
+  mode: PropertyMode
+): ArchiMateProperty[] {
+  if (mode === 'replace') {
+    return values.map((p) => ({ ...p }));
+  }
+  const given = new Map(values.map((p) => [p.key, p.value]));
+  const result: ArchiMateProperty[] = [];
+  const seen = new Set<string>();
+  for (const property of current ?? []) {
+    if (!given.has(property.key)) {
+      result.push(property);
+    } else if (!seen.has(property.key)) {
+      result.push({ key: property.key, value: given.get(property.key)! });
+      seen.add(property.key);
+    }
+  }
+  for (const [key, value] of given) {
+    if (!seen.has(key)) result.push({ key, value });
+  }
+  return result;
+}
+
+/**
+ * The properties without any entry of the given keys.
+ */
+export function removePropertyKeys(current: ArchiMateProperty[] | undefined, keys: string[]): ArchiMateProperty[] {
+  return (current ?? []).filter((p) => !keys.includes(p.key));
+}
+
+/**
+ * Read a filter written as "key=value", "key!=value", "key" (the key is
+ * set), or "!key" (the key is not set).
+ */
+export function parsePropertyFilter(text: string): PropertyFilter {
+  const match = /^(!?)([^=!]+?)\s*(?:(!?=)\s*(.*))?$/.exec(text.trim());
+  if (!match || (match[1] && match[3])) {
+    throw new Error(`Invalid property filter: ${text}. Use "key=value", "key!=value", "key", or "!key"`);
+  }
+  const [, not, key, operator, value] = match;
+  return operator ? { key, value, negate: operator === '!=' } : { key, negate: not === '!' };
+}
+
+/**
+ * Whether properties pass every filter. Keys and values are compared
+ * ignoring case; a repeated key matches if any of its values does.
+ */
+export function matchesPropertyFilters(properties: ArchiMateProperty[] | undefined, filters: PropertyFilter[]): boolean {
+  return filters.every((filter) => {
+    const values = (properties ?? [])
+      .filter((p) => p.key.toLowerCase() === filter.key.toLowerCase())
+      .map((p) => p.value.toLowerCase());
+    const found = filter.value === undefined ? values.length > 0 : values.includes(filter.value.toLowerCase());
+    return found !== filter.negate;
+  });
+}
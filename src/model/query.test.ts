@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { parseQuery, runQuery } from './query.js';
+import { getModelIndex } from './model-index.js';
+import type { ArchiMateElement, ArchiMateModel } from './types.js';
+import {
+  createEmptyModel,
+  createElement,
+  createRelationship,
+  addElementToModel,
+  resetIdCounter,
+} from '../__tests__/fixtures/sample-model.js';
+
+describe('model queries', () => {
+  let model: ArchiMateModel;
+  let crm: ArchiMateElement;
+  let erp: ArchiMateElement;
+  let sales: ArchiMateElement;
+  let billing: ArchiMateElement;
+
+  function add(type: ArchiMateElement['type'], name: string, properties: Record<string, string> = {}): ArchiMateElement {
+    const element = createElement(type, name);
+    element.properties = Object.entries(properties).map(([key, value]) => ({ key, value }));
+    addElementToModel(model, element);
+    return element;
+  }
+
+  const rows = (query: string) => runQuery(model, parseQuery(query)).rows;
+
+  beforeEach(() => {
+    resetIdCounter();
+    model = createEmptyModel();
+    sales = add('BusinessProcess', 'Sell', { Owner: 'Sales' });
+    billing = add('BusinessProcess', 'Bill Customer', { Owner: 'Finance', Tier: 'Gold' });
+    crm = add('ApplicationComponent', 'CRM', { Owner: 'Sales', Tier: 'Gold' });
+    erp = add('ApplicationComponent', 'ERP', { Owner: 'Finance' });
+    const serving = createRelationship('Serving', crm.id, sales.id);
+    model.relationships.push(
+      serving,
+      createRelationship('Serving', erp.id, billing.id),
+      createRelationship('Flow', crm.id, erp.id),
+      // Nodes match elements only, so this is never followed
+      createRelationship('Association', erp.id, serving.id),
+    );
+  });
+
+  it('reads nodes, edges, and their default variables', () => {
+    const query = parseQuery('(c:ApplicationComponent|Node) <-[Serving|Realization]- Business -- * limit 5');
+
+    expect(query.nodes).toEqual([
+      { variable: 'c', types: ['ApplicationComponent', 'Node'] },
+      { variable: 'n2', types: ['Business'] },
+      { variable: 'n3', types: [] },
+    ]);
+    expect(query.edges).toEqual([
+      { variable: 'r1', types: ['Serving', 'Realization'], direction: 'incoming' },
+      { variable: 'r2', types: [], direction: 'both' },
+    ]);
+    expect(query.returns.map((r) => r.label)).toEqual(['c', 'r1', 'n2', 'r2', 'n3']);
+    expect(query.limit).toBe(5);
+  });
+
+  it('follows relationships in the direction given', () => {
+    expect(rows('a:ApplicationComponent --> b:* return a.name, b.name')).toEqual([
+      { 'a.name': 'CRM', 'b.name': 'Sell' },
+      { 'a.name': 'CRM', 'b.name': 'ERP' },
+      { 'a.name': 'ERP', 'b.name': 'Bill Customer' },
+    ]);
+    expect(rows('a:ApplicationComponent <-[Flow]- b:* return b.name')).toEqual([{ 'b.name': 'CRM' }]);
+    expect(rows('a:Application -[Flow]- b:Application return distinct b.name')).toEqual([{ 'b.name': 'ERP' }, { 'b.name': 'CRM' }]);
+  });
+
+  it('combines conditions with and, or, not, and parentheses', () => {
+    expect(rows("Application where not (property(owner) = 'sales' or name ~ '^e') return name")).toEqual([]);
+    expect(rows("* where property(tier) and layer = 'Business' return name")).toEqual([{ name: 'Bill Customer' }]);
+    expect(rows("p:BusinessProcess <-[s:Serving]- c:* where c.property(Owner) = 'Finance' return p.name, s.type"))
+      .toEqual([{ 'p.name': 'Bill Customer', 's.type': 'Serving' }]);
+    expect(rows("BusinessProcess where documentation = '' and not property(region) return name, property(missing)")).toEqual([
+      { name: 'Sell', 'property(missing)': null },
+      { name: 'Bill Customer', 'property(missing)': null },
+    ]);
+  });
+
+  it('stops searching at the first row past the limit', () => {
+    const lookups = vi.spyOn(getModelIndex(model), 'getRelationshipsForElement');
+
+    const result = runQuery(model, parseQuery('a:ApplicationComponent --> b:* return a.name, b.name limit 1'));
+
+    expect(result).toEqual({
+      columns: ['a.name', 'b.name'],
+      rows: [{ 'a.name': 'CRM', 'b.name': 'Sell' }],
+      total: 2,
+      truncated: true,
+    });
+    expect(lookups.mock.calls.map(([id]) => id)).toEqual([crm.id]);
+    expect(runQuery(model, parseQuery('a:ApplicationComponent --> b:* limit 3'))).toMatchObject({ total: 3, truncated: false });
+  });
+
+  it('names the problem and its position in invalid queries', () => {
+    expect(() => parseQuery('ApplicationComponent -[Serving]- BusinessProces')).toThrow(
+      'Invalid query: unknown element type or layer "BusinessProces" at position 34'
+    );
+    expect(() => parseQuery('a:* <-[Flow]-> b:*')).toThrow('a relationship cannot point both ways');
+    expect(() => parseQuery('a:* --> a:*')).toThrow('variable "a" is bound more than once');
+    expect(() => parseQuery('a:* where b.name = "x"')).toThrow('unknown variable "b" at position 11');
+    expect(() => parseQuery('a:* where a.owner = "x"')).toThrow('expected a field (id, name, type, documentation, layer) or property(key) at position 13, found "owner"');
+    expect(() => parseQuery("* where name ~ '('")).toThrow('invalid regular expression "("');
+    expect(() => parseQuery('* where name')).toThrow('expected "=", "!=", or "~" at position 13, found end of query');
+    expect(() => parseQuery('* limit 0')).toThrow('expected a positive number');
+    expect(() => parseQuery('* Node')).toThrow('expected "where", "return", "limit", or the end of the query at position 3');
+  });
+});
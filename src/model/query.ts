@@ -0,0 +1,450 @@
+/**
+ * Model queries: a small path language for questions that span several
+ * relationships, such as
+ *
+ *   c:ApplicationComponent -[Serving]-> p:BusinessProcess
+ *     where p.property(owner) = 'Finance' return c.name, p.name limit 10
+ *
+ * A pattern is a chain of element nodes joined by relationship edges. A node
+ * is an element type, a layer, several of them separated by "|", or "*" for
+ * any element, optionally bound to a variable ("c:ApplicationComponent").
+ * An edge is "-[Types]->", "<-[Types]-", or "-[Types]-" for either
+ * direction; "-->" and "--" match any relationship, and "-[r:Serving]->"
+ * binds the relationship. Nodes and edges without a variable are named n1,
+ * n2, ... and r1, r2, ... in order.
+ *
+ * "where" conditions compare a field (id, name, type, documentation, layer)
+ * or property(key) of a variable with "=", "!=", or "~" (regex), ignoring
+ * case, and combine with and, or, not, and parentheses. A property on its
+ * own is true when the key is set. Fields without a variable refer to the
+ * first node. "return [distinct]" lists the fields or whole variables to
+ * return, all variables by default, and "limit" caps the rows.
+ *
+ * Used by the archimate_query MCP tool.
+ */
+
+import type {
+  ArchiMateElement,
+  ArchiMateModel,
+  ArchiMateProperty,
+  ArchiMateRelationship,
+  ElementType,
+  RelationshipType,
+} from './types.js';
+import { AllElementTypes, LayerFolderTypes, RelationshipTypes, getLayerForElementType } from './types.js';
+import { getModelIndex, type RelationshipDirection } from './model-index.js';
+import { getAllElements } from './parser.js';
+import { matchesPropertyFilters } from './properties.js';
+
+export const DEFAULT_QUERY_LIMIT = 100;
+
+export const QueryFields = ['id', 'name', 'type', 'documentation', 'layer'] as const;
+export type QueryField = typeof QueryFields[number];
+
+export interface QueryNode {
+  variable: string;
+  /** Element types and layers the node matches; empty for any element */
+  types: string[];
+}
+
+export interface QueryEdge {
+  variable: string;
+  /** Relationship types the edge matches; empty for any relationship */
+  types: RelationshipType[];
+  direction: RelationshipDirection;
+}
+
+/** A field or property of a variable, or the whole variable when neither is set */
+export interface QueryOperand {
+  variable: string;
+  field?: QueryField;
+  property?: string;
+  /** The operand as the query writes it */
+  label: string;
+}
+
+export type QueryCondition =
+  | { kind: 'compare'; operand: QueryOperand; operator: '=' | '!=' | '~'; value: string; pattern?: RegExp }
+  | { kind: 'has'; operand: QueryOperand }
+  | { kind: 'and' | 'or'; left: QueryCondition; right: QueryCondition }
+  | { kind: 'not'; condition: QueryCondition };
+
+export interface Query {
+  nodes: QueryNode[];
+  /** edges[i] joins nodes[i] and nodes[i + 1] */
+  edges: QueryEdge[];
+  where?: QueryCondition;
+  returns: QueryOperand[];
+  distinct: boolean;
+  limit: number;
+}
+
+export interface QueryResult {
+  columns: string[];
+  rows: Array<Record<string, unknown>>;
+  /**
+   * Rows found. The search stops at the first row past the limit, so when
+   * truncated this is a lower bound.
+   */
+  total: number;
+  truncated: boolean;
+}
+
+interface Token {
+  kind: 'word' | 'string' | 'number' | 'symbol' | 'end';
+  text: string;
+  position: number;
+}
+
+const Keywords = ['where', 'and', 'or', 'not', 'return', 'distinct', 'limit'];
+const Layers = Object.keys(LayerFolderTypes);
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s+|([A-Za-z_][A-Za-z0-9_]*)|(\d+)|'((?:[^']|'')*)'|"((?:[^"]|"")*)"|(!=|[-<>[\]().,:|=~*])/y;
+  let position = 0;
+  while (position < text.length) {
+    pattern.lastIndex = position;
+    const match = pattern.exec(text);
+    if (!match) {
+      throw new Error(`Invalid query: unexpected "${text[position]}" at position ${position + 1}`);
+    }
+    const [whole, word, number, single, double, symbol] = match;
+    if (word !== undefined) tokens.push({ kind: 'word', text: word, position });
+    else if (number !== undefined) tokens.push({ kind: 'number', text: number, position });
+    else if (single !== undefined) tokens.push({ kind: 'string', text: single.replace(/''/g, "'"), position });
+    else if (double !== undefined) tokens.push({ kind: 'string', text: double.replace(/""/g, '"'), position });
+    else if (symbol !== undefined) tokens.push({ kind: 'symbol', text: symbol, position });
+    position += whole.length;
+  }
+  tokens.push({ kind: 'end', text: 'end of query', position });
+  return tokens;
+}
+
+/**
+ * Read a query. Throws an error naming the position of the first problem.
+ */
+export function parseQuery(text: string): Query {
+  const tokens = tokenize(text);
+  let at = 0;
+
+  const peek = (offset = 0): Token => tokens[Math.min(at + offset, tokens.length - 1)];
+  const isSymbol = (symbol: string, offset = 0) => peek(offset).kind === 'symbol' && peek(offset).text === symbol;
+  const isKeyword = (keyword: string) => peek().kind === 'word' && peek().text.toLowerCase() === keyword;
+  const fail = (expected: string): never => {
+    const token = peek();
+    const found = token.kind === 'end' ? token.text : `"${token.text}"`;
+    throw new Error(`Invalid query: expected ${expected} at position ${token.position + 1}, found ${found}`);
+  };
+  const accept = (symbol: string): boolean => {
+    if (!isSymbol(symbol)) return false;
+    at++;
+    return true;
+  };
+  const expect = (symbol: string): void => {
+    if (!accept(symbol)) fail(`"${symbol}"`);
+  };
+  const word = (expected: string): string => {
+    const token = peek();
+    if (token.kind !== 'word' || Keywords.includes(token.text.toLowerCase())) fail(expected);
+    at++;
+    return token.text;
+  };
+
+  const variables: string[] = [];
+  const bind = (variable: string): string => {
+    if (variables.includes(variable)) {
+      throw new Error(`Invalid query: variable "${variable}" is bound more than once`);
+    }
+    variables.push(variable);
+    return variable;
+  };
+  // "name:" starts a variable binding
+  const binding = (): string | undefined => {
+    if (peek().kind !== 'word' || !isSymbol(':', 1)) return undefined;
+    const variable = word('a variable');
+    at++;
+    return variable;
+  };
+  const typeList = <T extends string>(allowed: readonly string[], expected: string): T[] => {
+    if (accept('*')) return [];
+    const types: T[] = [];
+    do {
+      const position = peek().position;
+      const type = word(expected);
+      if (!allowed.includes(type)) {
+        throw new Error(`Invalid query: unknown ${expected} "${type}" at position ${position + 1}`);
+      }
+      types.push(type as T);
+    } while (accept('|'));
+    return types;
+  };
+
+  const node = (): QueryNode => {
+    const paren = accept('(');
+    const variable = binding();
+    const types = typeList<ElementType>([...AllElementTypes, ...Layers], 'element type or layer');
+    if (paren) expect(')');
+    return { variable: variable ?? '', types };
+  };
+
+  const edge = (): QueryEdge => {
+    const incoming = accept('<');
+    expect('-');
+    let variable: string | undefined;
+    let types: RelationshipType[] = [];
+    if (accept('[')) {
+      variable = binding();
+      if (!isSymbol(']')) types = typeList<RelationshipType>(RelationshipTypes, 'relationship type');
+      expect(']');
+    }
+    expect('-');
+    const outgoing = accept('>');
+    if (incoming && outgoing) {
+      throw new Error('Invalid query: a relationship cannot point both ways; use "-[...]-" for either direction');
+    }
+    return { variable: variable ?? '', types, direction: incoming ? 'incoming' : outgoing ? 'outgoing' : 'both' };
+  };
+
+  const nodes: QueryNode[] = [node()];
+  const edges: QueryEdge[] = [];
+  while (isSymbol('-') || isSymbol('<')) {
+    edges.push(edge());
+    nodes.push(node());
+  }
+  nodes.forEach((n, i) => { n.variable = bind(n.variable || `n${i + 1}`); });
+  edges.forEach((e, i) => { e.variable = bind(e.variable || `r${i + 1}`); });
+
+  // A field or property, of a variable or of the first node, or a whole variable where allowed
+  const operand = (wholeVariable: boolean): QueryOperand => {
+    let variable: string | undefined;
+    if (peek().kind === 'word' && isSymbol('.', 1)) {
+      const position = peek().position;
+      variable = word('a variable');
+      if (!variables.includes(variable)) {
+        throw new Error(`Invalid query: unknown variable "${variable}" at position ${position + 1}`);
+      }
+      at++;
+    } else if (wholeVariable && peek().kind === 'word' && variables.includes(peek().text)) {
+      variable = word('a variable');
+      return { variable, label: variable };
+    }
+    const prefix = variable ? `${variable}.` : '';
+    const field = word('a field or property(key)');
+    if (field === 'property' && accept('(')) {
+      const key = peek().kind === 'string' ? tokens[at++].text : word('a property key');
+      expect(')');
+      return { variable: variable ?? nodes[0].variable, property: key, label: `${prefix}property(${key})` };
+    }
+    if (!QueryFields.includes(field as QueryField)) {
+      at--;
+      fail(`a field (${QueryFields.join(', ')}) or property(key)`);
+    }
+    return { variable: variable ?? nodes[0].variable, field: field as QueryField, label: `${prefix}${field}` };
+  };
+
+  const condition = (): QueryCondition => {
+    let left = conjunction();
+    while (isKeyword('or')) {
+      at++;
+      left = { kind: 'or', left, right: conjunction() };
+    }
+    return left;
+  };
+  const conjunction = (): QueryCondition => {
+    let left = negation();
+    while (isKeyword('and')) {
+      at++;
+      left = { kind: 'and', left, right: negation() };
+    }
+    return left;
+  };
+  const negation = (): QueryCondition => {
+    if (isKeyword('not')) {
+      at++;
+      return { kind: 'not', condition: negation() };
+    }
+    if (accept('(')) {
+      const inner = condition();
+      expect(')');
+      return inner;
+    }
+    const subject = operand(false);
+    const operator = ['=', '!=', '~'].find((o) => isSymbol(o)) as '=' | '!=' | '~' | undefined;
+    if (!operator) {
+      if (subject.property !== undefined) return { kind: 'has', operand: subject };
+      return fail('"=", "!=", or "~"');
+    }
+    at++;
+    const token = peek();
+    if (token.kind !== 'string' && token.kind !== 'number') fail('a quoted value');
+    at++;
+    if (operator !== '~') return { kind: 'compare', operand: subject, operator, value: token.text };
+    try {
+      return { kind: 'compare', operand: subject, operator, value: token.text, pattern: new RegExp(token.text, 'i') };
+    } catch {
+      throw new Error(`Invalid query: invalid regular expression "${token.text}" at position ${token.position + 1}`);
+    }
+  };
+
+  let where: QueryCondition | undefined;
+  if (isKeyword('where')) {
+    at++;
+    where = condition();
+  }
+
+  let returns: QueryOperand[] = [];
+  let distinct = false;
+  if (isKeyword('return')) {
+    at++;
+    if (isKeyword('distinct')) {
+      at++;
+      distinct = true;
+    }
+    do {
+      returns.push(operand(true));
+    } while (accept(','));
+  }
+  if (returns.length === 0) {
+    // Every variable, in path order
+    returns = nodes.flatMap((n, i) => [n.variable, ...(edges[i] ? [edges[i].variable] : [])])
+      .map((variable) => ({ variable, label: variable }));
+  }
+
+  let limit = DEFAULT_QUERY_LIMIT;
+  if (isKeyword('limit')) {
+    at++;
+    const token = peek();
+    if (token.kind !== 'number' || Number(token.text) < 1) fail('a positive number');
+    limit = Number(token.text);
+    at++;
+  }
+
+  if (peek().kind !== 'end') {
+    fail('"where", "return", "limit", or the end of the query');
+  }
+
+  return { nodes, edges, where, returns, distinct, limit };
+}
+
+type Binding = Map<string, ArchiMateElement | ArchiMateRelationship>;
+
+function matchesNode(element: ArchiMateElement, node: QueryNode): boolean {
+  return node.types.length === 0
+    || node.types.includes(element.type)
+    || node.types.includes(getLayerForElementType(element.type));
+}
+
+function isElement(concept: ArchiMateElement | ArchiMateRelationship): concept is ArchiMateElement {
+  return !('sourceId' in concept);
+}
+
+function fieldValue(concept: ArchiMateElement | ArchiMateRelationship, field: QueryField): string | undefined {
+  if (field === 'layer') return isElement(concept) ? getLayerForElementType(concept.type) : undefined;
+  return concept[field];
+}
+
+function summarize(concept: ArchiMateElement | ArchiMateRelationship): Record<string, unknown> {
+  return isElement(concept)
+    ? { id: concept.id, type: concept.type, name: concept.name }
+    : { id: concept.id, type: concept.type, ...(concept.name ? { name: concept.name } : {}), sourceId: concept.sourceId, targetId: concept.targetId };
+}
+
+function evaluate(condition: QueryCondition, binding: Binding): boolean {
+  switch (condition.kind) {
+    case 'and':
+      return evaluate(condition.left, binding) && evaluate(condition.right, binding);
+    case 'or':
+      return evaluate(condition.left, binding) || evaluate(condition.right, binding);
+    case 'not':
+      return !evaluate(condition.condition, binding);
+    case 'has':
+      return matchesPropertyFilters(binding.get(condition.operand.variable)!.properties, [
+        { key: condition.operand.property!, negate: false },
+      ]);
+    case 'compare': {
+      const concept = binding.get(condition.operand.variable)!;
+      const { property, field } = condition.operand;
+      if (property !== undefined && condition.operator !== '~') {
+        return matchesPropertyFilters(concept.properties, [
+          { key: property, value: condition.value, negate: condition.operator === '!=' },
+        ]);
+      }
+      const values = property !== undefined ? propertyValues(concept.properties, property) : [fieldValue(concept, field!) ?? ''];
+      if (condition.operator === '~') return values.some((v) => condition.pattern!.test(v));
+      const equal = values[0].toLowerCase() === condition.value.toLowerCase();
+      return condition.operator === '=' ? equal : !equal;
+    }
+  }
+}
+
+function propertyValues(properties: ArchiMateProperty[] | undefined, key: string): string[] {
+  return (properties ?? []).filter((p) => p.key.toLowerCase() === key.toLowerCase()).map((p) => p.value);
+}
+
+/**
+ * Run a query on a model. Rows come in model order of the first node, then
+ * of the relationships followed from it.
+ */
+export function runQuery(model: ArchiMateModel, query: Query): QueryResult {
+  const index = getModelIndex(model);
+  const rows: Array<Record<string, unknown>> = [];
+  const seen = new Set<string>();
+  // One row past the limit shows the result is truncated
+  const full = (): boolean => rows.length > query.limit;
+
+  const emit = (binding: Binding): void => {
+    if (query.where && !evaluate(query.where, binding)) return;
+    const row: Record<string, unknown> = {};
+    for (const item of query.returns) {
+      const concept = binding.get(item.variable)!;
+      if (item.property !== undefined) {
+        row[item.label] = propertyValues(concept.properties, item.property)[0] ?? null;
+      } else if (item.field) {
+        row[item.label] = fieldValue(concept, item.field) ?? null;
+      } else {
+        row[item.label] = summarize(concept);
+      }
+    }
+    if (query.distinct) {
+      const key = JSON.stringify(row);
+      if (seen.has(key)) return;
+      seen.add(key);
+    }
+    rows.push(row);
+  };
+
+  const extend = (step: number, element: ArchiMateElement, binding: Binding): void => {
+    if (step === query.edges.length) {
+      emit(binding);
+      return;
+    }
+    const edge = query.edges[step];
+    const next = query.nodes[step + 1];
+    for (const relationship of index.getRelationshipsForElement(element.id, edge.direction)) {
+      if (full()) return;
+      if (edge.types.length > 0 && !edge.types.includes(relationship.type)) continue;
+      const otherId = edge.direction === 'outgoing' || (edge.direction === 'both' && relationship.sourceId === element.id)
+        ? relationship.targetId
+        : relationship.sourceId;
+      // Relationships can end on relationships, which nodes do not match
+      const other = index.getElement(otherId);
+      if (!other || !matchesNode(other, next)) continue;
+      extend(step + 1, other, new Map(binding).set(edge.variable, relationship).set(next.variable, other));
+    }
+  };
+
+  for (const element of getAllElements(model)) {
+    if (full()) break;
+    if (matchesNode(element, query.nodes[0])) {
+      extend(0, element, new Map([[query.nodes[0].variable, element]]));
+    }
+  }
+
+  return {
+    columns: query.returns.map((item) => item.label),
+    rows: rows.slice(0, query.limit),
+    total: rows.length,
+    truncated: full(),
+  };
+}
@@ -0,0 +1,228 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync, readdirSync } from 'fs';
+import path from 'path';
+import { parseModelXml, getElementById } from './parser.js';
+import { addElementToModel, addRelationshipToModel, removeElementFromModel, serializeModel } from './writer.js';
+import { createElement, createRelationship } from '../__tests__/fixtures/sample-model.js';
+
+const FIXTURES = path.join(process.cwd(), 'src/__tests__/fixtures/archi');
+const fixtures = readdirSync(FIXTURES).filter((f) => f.endsWith('.archimate'));
+
+function readFixture(name: string): string {
+  return readFileSync(path.join(FIXTURES, name), 'utf-8');
+}
+
+describe('model round-trip', () => {
+  it.each(fixtures)('saves %s byte for byte as Archi wrote it', (name) => {
+    const xml = readFixture(name);
+    expect(serializeModel(parseModelXml(xml))).toBe(xml);
+  });
+
+  it.each(fixtures)('reads %s back to the same model after saving', (name) => {
+    const model = parseModelXml(readFixture(name));
+    expect(parseModelXml(serializeModel(model))).toEqual(model);
+  });
+
+  it('reads notes, groups, and view references as typed diagram objects', () => {
+    const model = parseModelXml(readFixture('archisurance.archimate'));
+    const [claims, landscape] = model.diagrams;
+
+    expect(claims.objects[2]).toMatchObject({
+      objectType: 'Note',
+      elementId: '',
+      content: 'Claims are handled\r\nwithin five working days.',
+    });
+    expect(claims.objects[3]).toMatchObject({ objectType: 'DiagramModelReference', diagramId: landscape.id });
+    expect(landscape.objects[0]).toMatchObject({ objectType: 'Group', name: 'Back office' });
+    expect(landscape.objects[0].children).toHaveLength(2);
+    expect(claims.objects[0].objectType).toBeUndefined();
+  });
+
+  it('writes new notes, groups, and view references as Archi does', () => {
+    const model = parseModelXml(readFixture('new-model.archimate'));
+    const view = model.diagrams[0];
+    view.objects.push(
+      { id: 'id-note', objectType: 'Note', elementId: '', content: 'Title', bounds: { x: 12, y: 12, width: 185, height: 80 } },
+      {
+        id: 'id-group',
+        objectType: 'Group',
+        elementId: '',
+        name: 'Legend',
+        bounds: { x: 240, y: 12, width: 400, height: 140 },
+        children: [
+          { id: 'id-ref', objectType: 'DiagramModelReference', elementId: '', diagramId: view.id, bounds: { x: 12, y: 24, width: 120, height: 55 } },
+        ],
+      }
+    );
+
+    const saved = serializeModel(model);
+    expect(saved).toContain(
+      '<child xsi:type="archimate:Note" id="id-note">\n' +
+        '        <bounds x="12" y="12" width="185" height="80"/>\n' +
+        '        <content>Title</content>\n' +
+        '      </child>\n' +
+        '      <child xsi:type="archimate:Group" id="id-group" name="Legend">\n' +
+        '        <bounds x="240" y="12" width="400" height="140"/>\n' +
+        `        <child xsi:type="archimate:DiagramModelReference" id="id-ref" model="${view.id}">`
+    );
+    expect(parseModelXml(saved).diagrams[0].objects).toMatchObject(view.objects);
+  });
+
+  it('reads junctions as elements of their kind and writes new ones as Archi does', () => {
+    const model = parseModelXml(readFixture('archisurance.archimate'));
+    expect(getElementById(model, 'id-1b2c3d4e5f604a023e5fa4b5c6d7e8f9')).toEqual({
+      id: 'id-1b2c3d4e5f604a023e5fa4b5c6d7e8f9',
+      type: 'Junction',
+      name: '',
+      documentation: undefined,
+      properties: [],
+      junctionType: 'or',
+    });
+
+    addElementToModel(model, { id: 'id-and', type: 'Junction', name: '', junctionType: 'and' });
+    addElementToModel(model, { id: 'id-or', type: 'Junction', name: '', junctionType: 'or' });
+    const saved = serializeModel(model);
+    expect(saved).toContain('<element xsi:type="archimate:Junction" id="id-and"/>');
+    expect(saved).toContain('<element xsi:type="archimate:Junction" id="id-or" type="or"/>');
+    expect(getElementById(parseModelXml(saved), 'id-and')?.junctionType).toBe('and');
+  });
+
+  it('writes connections on connections nested in the connection they start from', () => {
+    const model = parseModelXml(readFixture('new-model.archimate'));
+    const view = model.diagrams[0];
+    view.objects.push(
+      {
+        id: 'id-a',
+        elementId: 'id-element-a',
+        bounds: { x: 12, y: 12, width: 120, height: 55 },
+        sourceConnections: [
+          {
+            id: 'id-flow',
+            sourceId: 'id-a',
+            targetId: 'id-b',
+            relationshipId: 'id-rel-flow',
+            targetConnectionIds: ['id-from-c'],
+            sourceConnections: [
+              { id: 'id-assoc', sourceId: 'id-flow', targetId: 'id-c', relationshipId: 'id-rel-assoc' },
+            ],
+          },
+        ],
+      },
+      { id: 'id-b', elementId: 'id-element-b', bounds: { x: 240, y: 12, width: 120, height: 55 }, targetConnectionIds: ['id-flow'] },
+      {
+        id: 'id-c',
+        elementId: 'id-element-c',
+        bounds: { x: 120, y: 120, width: 120, height: 55 },
+        sourceConnections: [{ id: 'id-from-c', sourceId: 'id-c', targetId: 'id-flow', relationshipId: 'id-rel-from-c' }],
+        targetConnectionIds: ['id-assoc'],
+      },
+    );
+
+    const saved = serializeModel(model);
+    expect(saved).toContain(
+      '<sourceConnection xsi:type="archimate:Connection" id="id-flow" targetConnections="id-from-c" source="id-a" target="id-b" archimateRelationship="id-rel-flow">\n' +
+        '          <sourceConnection xsi:type="archimate:Connection" id="id-assoc" source="id-flow" target="id-c" archimateRelationship="id-rel-assoc"/>\n' +
+        '        </sourceConnection>'
+    );
+    expect(parseModelXml(saved).diagrams[0].objects[0].sourceConnections![0]).toMatchObject({
+      targetConnectionIds: ['id-from-c'],
+      sourceConnections: [{ id: 'id-assoc', sourceId: 'id-flow', targetId: 'id-c' }],
+    });
+  });
+
+  it('reads object and connection styles as typed fields', () => {
+    const model = parseModelXml(readFixture('archisurance.archimate'));
+    const [handleClaim, customer] = model.diagrams[0].objects;
+
+    expect(handleClaim).toMatchObject({ textAlignment: 'center', fillColor: '#ffff80' });
+    expect(customer).toMatchObject({
+      font: '1|Segoe UI|10.0|1|WINDOWS|1|-13|0|0|0|700|0|0|0|0|3|2|1|34|Segoe UI',
+      fontColor: '#0000ff',
+    });
+    expect(customer.sourceConnections![0].lineColor).toBe('#808080');
+    expect(model.diagrams[0].objects[2].textAlignment).toBe('left');
+  });
+
+  it('writes styles in the attributes and order Archi uses', () => {
+    const model = parseModelXml(readFixture('new-model.archimate'));
+    const view = model.diagrams[0];
+    view.objects.push({
+      id: 'id-styled',
+      elementId: 'id-element',
+      bounds: { x: 12, y: 12, width: 120, height: 55 },
+      font: '1|Arial|12.0|1|',
+      fontColor: '#ffffff',
+      lineColor: '#000000',
+      textAlignment: 'right',
+      textPosition: 'bottom',
+      fillColor: '#ff0000',
+      sourceConnections: [
+        { id: 'id-conn', sourceId: 'id-styled', targetId: 'id-styled', relationshipId: 'id-rel', lineColor: '#ff0000', textPosition: 'target' },
+      ],
+    });
+
+    const saved = serializeModel(model);
+    expect(saved).toContain(
+      '<child xsi:type="archimate:DiagramObject" id="id-styled" font="1|Arial|12.0|1|" fontColor="#ffffff" lineColor="#000000" ' +
+        'textAlignment="4" textPosition="2" fillColor="#ff0000" archimateElement="id-element">'
+    );
+    expect(saved).toContain(
+      '<sourceConnection xsi:type="archimate:Connection" id="id-conn" lineColor="#ff0000" textPosition="2" source="id-styled" target="id-styled" archimateRelationship="id-rel"/>'
+    );
+    expect(parseModelXml(saved).diagrams[0].objects).toMatchObject(view.objects);
+  });
+
+  describe('after edits', () => {
+    const xml = readFixture('archisurance.archimate');
+
+    it('keeps unknown attributes and children of edited concepts', () => {
+      const model = parseModelXml(xml);
+      const handleClaim = getElementById(model, 'id-60718293a4b546c73849f0a1b2c3d4e5')!;
+      handleClaim.name = 'Handle Claim Request';
+      handleClaim.documentation = 'Updated';
+      const diagram = model.diagrams.find((d) => d.name === 'Claim Handling')!;
+      diagram.objects[0].bounds.x = 300;
+
+      const saved = serializeModel(model);
+      expect(saved).toContain(
+        '<element xsi:type="archimate:BusinessProcess" name="Handle Claim Request" id="id-60718293a4b546c73849f0a1b2c3d4e5">\n' +
+          '      <documentation>Updated</documentation>\n' +
+          '      <property key="sla" value="5 days"/>'
+      );
+      expect(saved).toContain('textAlignment="2" fillColor="#ffff80"');
+      expect(saved).toContain('<bounds x="300" y="96" width="145" height="61"/>');
+      expect(saved).toContain('<feature name="iconColor" value="#ff0000"/>');
+      expect(saved).toContain('<profile name="Mainframe"');
+      expect(saved).toContain('<element xsi:type="canvas:CanvasModel"');
+      expect(saved).toContain('<element xsi:type="archimate:Junction"');
+    });
+
+    it('keeps relationships and views in their subfolders and puts new ones in the top-level folders', () => {
+      const model = parseModelXml(xml);
+      const actor = createElement('BusinessActor', 'Broker');
+      addElementToModel(model, actor);
+      const rel = createRelationship('Serving', actor.id, 'id-3d4e5f60718243940516c7d8e9f0a1b2');
+      addRelationshipToModel(model, rel);
+
+      const saved = parseModelXml(serializeModel(model));
+      const relations = saved.folders.find((f) => f.type === 'relations')!;
+      const claims = relations.subfolders[0];
+      expect(claims.xml?.children?.filter((s) => 'known' in s).map((s) => 'known' in s && s.id)).toEqual([
+        'id-5f607182934a4e467293e8f90a1b2c3d',
+        'id-60718293a4b54f5783a4f90a1b2c3d4e',
+      ]);
+      expect(saved.relationships.map((r) => r.id)).toContain(rel.id);
+      expect(saved.diagrams.map((d) => d.name)).toEqual(['Claim Handling', 'Landscape']);
+    });
+
+    it('drops removed concepts without disturbing unknown content', () => {
+      const model = parseModelXml(xml);
+      removeElementFromModel(model, 'id-4e5f6071829344a51627d8e9f0a1b2c3');
+
+      const saved = serializeModel(model);
+      expect(saved).not.toContain('name="Insurant"');
+      expect(saved).toContain('<documentation>Parties that interact with Archisurance</documentation>');
+      expect(saved).toContain('<purpose>Reference model of the Archisurance case.</purpose>');
+    });
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Open model sessions.
+ *
+ * The server can hold several models at once, each under a short handle
+ * (e.g. "baseline" and "target"). One session is active; tools that take an
+ * optional `model` argument fall back to it. Every session keeps its own
+ * file path and undo/redo history.
+ */
+
+import { basename, extname } from 'path';
+import type { ArchiMateElement, ArchiMateModel, ArchiMateRelationship } from './types.js';
+import { getAllElements } from './parser.js';
+import { ModelHistory } from './history.js';
+
+export interface ModelSession {
+  handle: string;
+  model: ArchiMateModel;
+  /** coArchi repository path, or null for models imported from other formats */
+  path: string | null;
+  history: ModelHistory;
+}
+
+export interface ModelSessionSummary {
+  handle: string;
+  name: string;
+  path: string | null;
+  active: boolean;
+}
+
+export interface OpenOptions {
+  /** Replace a session already open under the handle, dropping its undo history */
+  replace?: boolean;
+}
+
+export class ModelRegistry {
+  private sessions = new Map<string, ModelSession>();
+  private activeHandle: string | null = null;
+
+  /**
+   * Register a model and make it the active session.
+   *
+   * Without an explicit handle, a model on a path that is already open gets
+   * that session's handle; otherwise a handle is derived from the path or
+   * model name, suffixed to keep it unique. Opening under a handle that is
+   * in use throws unless `replace` is set.
+   */
+  open(model: ArchiMateModel, path: string | null, handle?: string, options: OpenOptions = {}): ModelSession {
+    const resolved = handle
+      ?? (path ? this.findByPath(path)?.handle : undefined)
+      ?? this.uniqueHandle(deriveHandle(path, model.name));
+    if (this.sessions.has(resolved) && !options.replace) {
+      throw new Error(`A model is already open under the handle "${resolved}"; pass replace: true to replace it`);
+    }
+
+    const session: ModelSession = { handle: resolved, model, path, history: new ModelHistory() };
+    this.sessions.set(resolved, session);
+    this.activeHandle = resolved;
+    return session;
+  }
+
+  get(handle: string): ModelSession | undefined {
+    return this.sessions.get(handle);
+  }
+
+  getActive(): ModelSession | undefined {
+    return this.activeHandle ? this.sessions.get(this.activeHandle) : undefined;
+  }
+
+  /**
+   * Make an open session the active one. Returns undefined for an unknown handle.
+   */
+  switchTo(handle: string): ModelSession | undefined {
+    const session = this.sessions.get(handle);
+    if (session) {
+      this.activeHandle = handle;
+    }
+    return session;
+  }
+
+  list(): ModelSessionSummary[] {
+    return [...this.sessions.values()].map((s) => ({
+      handle: s.handle,
+      name: s.model.name,
+      path: s.path,
+      active: s.handle === this.activeHandle,
+    }));
+  }
+
+  private findByPath(path: string): ModelSession | undefined {
+    return [...this.sessions.values()].find((s) => s.path === path);
+  }
+
+  private uniqueHandle(base: string): string {
+    let handle = base;
+    for (let n = 2; this.sessions.has(handle); n++) {
+      handle = `${base}-${n}`;
+    }
+    return handle;
+  }
+}
+
+function deriveHandle(path: string | null, modelName: string): string {
+  let source = modelName;
+  if (path) {
+    const file = basename(path.replace(/[\\/]+$/, ''));
+    source = file === 'model.archimate'
+      ? basename(path.replace(/[\\/]+model\.archimate$/, ''))
+      : basename(file, extname(file));
+  }
+  const slug = source.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return slug || 'model';
+}
+
+// =============================================================================
+// Copying between models
+// =============================================================================
+
+export interface ElementCopyPlan {
+  /** Deep copies to add to the target model */
+  elements: ArchiMateElement[];
+  relationships: ArchiMateRelationship[];
+  /** Requested elements that were not copied, with the reason */
+  skipped: Array<{ id: string; reason: string }>;
+}
+
+/**
+ * Work out which elements and relationships to copy from one model to another.
+ *
+ * Copies keep their IDs so that repositories forked from the same model stay
+ * comparable. Elements whose ID already exists in the target are skipped.
+ * With `includeRelationships`, relationships from the source are copied when
+ * both endpoints exist in the target after the copy.
+ */
+export function planElementCopy(
+  source: ArchiMateModel,
+  target: ArchiMateModel,
+  elementIds: string[],
+  includeRelationships: boolean
+): ElementCopyPlan {
+  const sourceElements = new Map(getAllElements(source).map((e) => [e.id, e]));
+  const targetIds = new Set([
+    ...getAllElements(target).map((e) => e.id),
+    ...target.relationships.map((r) => r.id),
+  ]);
+
+  const plan: ElementCopyPlan = { elements: [], relationships: [], skipped: [] };
+  for (const id of new Set(elementIds)) {
+    const element = sourceElements.get(id);
+    if (!element) {
+      plan.skipped.push({ id, reason: 'not found in source model' });
+    } else if (targetIds.has(id)) {
+      plan.skipped.push({ id, reason: 'already exists in target model' });
+    } else {
+      plan.elements.push(structuredClone(element));
+    }
+  }
+
+  if (includeRelationships && plan.elements.length > 0) {
+    const copiedIds = new Set(plan.elements.map((e) => e.id));
+    const available = (id: string) => copiedIds.has(id) || targetIds.has(id);
+    plan.relationships = source.relationships
+      .filter((r) => !targetIds.has(r.id))
+      .filter((r) => copiedIds.has(r.sourceId) || copiedIds.has(r.targetId))
+      .filter((r) => available(r.sourceId) && available(r.targetId))
+      .map((r) => structuredClone(r));
+  }
+
+  return plan;
+}
@@ -138,6 +138,20 @@ export const CompositeElementTypes = [
 
 export type CompositeElementType = typeof CompositeElementTypes[number];
 
+// =============================================================================
+// Section 5.5: Relationship Connectors
+// =============================================================================
+
+export const RelationshipConnectorTypes = [
+  'Junction',
+] as const;
+
+export type RelationshipConnectorType = typeof RelationshipConnectorTypes[number];
+
+/** An And junction joins or splits every path; an Or junction only some of them */
+export const JunctionTypes = ['and', 'or'] as const;
+export type JunctionType = typeof JunctionTypes[number];
+
 // =============================================================================
 // All Element Types Combined
 // =============================================================================
@@ -150,6 +164,7 @@ export const AllElementTypes = [
   ...TechnologyElementTypes,
   ...ImplementationElementTypes,
   ...CompositeElementTypes,
+  ...RelationshipConnectorTypes,
 ] as const;
 
 export type ElementType = typeof AllElementTypes[number];
@@ -184,6 +199,13 @@ export type AccessType = typeof AccessTypes[number];
 export const InfluenceModifiers = ['++', '+', '0', '-', '--'] as const;
 export type InfluenceModifier = typeof InfluenceModifiers[number];
 
+/**
+ * What a relationship can end on: an element, or another relationship. An
+ * association may connect a relationship, and groupings and plateaus may
+ * aggregate or compose relationships.
+ */
+export type RelationshipEndpointType = ElementType | 'Relationship';
+
 // =============================================================================
 // Layer Classification
 // =============================================================================
@@ -233,7 +255,11 @@ export function getLayerForElementType(elementType: ElementType): Layer {
   if (ImplementationElementTypes.includes(elementType as ImplementationElementType)) {
     return 'Implementation';
   }
-  if (CompositeElementTypes.includes(elementType as CompositeElementType)) {
+  // Archi keeps junctions in the Other folder with the composite elements
+  if (
+    CompositeElementTypes.includes(elementType as CompositeElementType) ||
+    RelationshipConnectorTypes.includes(elementType as RelationshipConnectorType)
+  ) {
     return 'Composite';
   }
   throw new Error(`Unknown element type: ${elementType}`);
@@ -243,6 +269,40 @@ export function getLayerForElementType(elementType: ElementType): Layer {
 // Model Interfaces
 // =============================================================================
 
+/**
+ * An XML element kept verbatim, for content the typed model does not represent.
+ */
+export interface XmlNode {
+  name: string;
+  /** Attribute values in document order */
+  attributes: Record<string, string>;
+  children: XmlNode[];
+  text?: string;
+}
+
+/**
+ * One child of an XML element: either a child the typed model represents,
+ * identified by tag (and ID where it has one), or one kept verbatim.
+ */
+export type XmlChildSlot = { known: string; id?: string } | { raw: XmlNode };
+
+/**
+ * What a model.archimate element held beyond its typed fields, so that it can
+ * be written back as it was read. Present only when the file differs from what
+ * the writer would produce on its own: unknown attributes or children, or a
+ * different attribute or child order.
+ */
+export interface XmlExtension {
+  /** Attribute names in document order, known and unknown */
+  attributeOrder?: string[];
+  /** Values of attributes the typed model does not represent */
+  attributes?: Record<string, string>;
+  /** Children in document order */
+  children?: XmlChildSlot[];
+  /** Extensions of nested nodes without an ID of their own, such as `bounds` */
+  nested?: Record<string, XmlExtension>;
+}
+
 export interface ArchiMateProperty {
   key: string;
   value: string;
@@ -254,18 +314,24 @@ export interface ArchiMateElement {
   name: string;
   documentation?: string;
   properties?: ArchiMateProperty[];
+  /** Junctions only */
+  junctionType?: JunctionType;
+  xml?: XmlExtension;
 }
 
 export interface ArchiMateRelationship {
   id: string;
   type: RelationshipType;
+  /** Element or relationship the relationship starts from */
   sourceId: string;
+  /** Element or relationship the relationship ends on */
   targetId: string;
   name?: string;
   documentation?: string;
   accessType?: AccessType;
   influenceModifier?: InfluenceModifier;
   properties?: ArchiMateProperty[];
+  xml?: XmlExtension;
 }
 
 export interface DiagramBounds {
@@ -275,34 +341,95 @@ export interface DiagramBounds {
   height: number;
 }
 
+/**
+ * A bend in a connection, stored as Archi stores it: as offsets from the
+ * centers of the connection's source and target objects.
+ */
 export interface DiagramBendpoint {
-  x: number;
-  y: number;
+  startX: number;
+  startY: number;
+  endX: number;
+  endY: number;
+}
+
+export type TextAlignment = 'left' | 'center' | 'right';
+export type TextPosition = 'top' | 'middle' | 'bottom';
+export type ConnectionTextPosition = 'source' | 'middle' | 'target';
+
+/**
+ * How a connection is drawn. Unset fields use Archi's defaults.
+ */
+export interface ConnectionStyle {
+  /** Color as "#rrggbb" */
+  lineColor?: string;
+  fontColor?: string;
+  /** Font in Archi's descriptor format, such as "1|Segoe UI|10.0|1|WINDOWS|1|..." */
+  font?: string;
+  /** Where the label sits along the line */
+  textPosition?: ConnectionTextPosition;
 }
 
-export interface DiagramConnection {
+/**
+ * How a diagram object is drawn. Unset fields use Archi's defaults, such as
+ * the fill color of the element's layer.
+ */
+export interface DiagramStyle extends Omit<ConnectionStyle, 'textPosition'> {
+  fillColor?: string;
+  textAlignment?: TextAlignment;
+  textPosition?: TextPosition;
+}
+
+export interface DiagramConnection extends ConnectionStyle {
   id: string;
+  /** Diagram object or connection the connection is drawn from */
   sourceId: string;
+  /** Diagram object or connection the connection is drawn to */
   targetId: string;
   relationshipId: string;
   bendpoints?: DiagramBendpoint[];
+  /** Connections drawn from this one, for relationships on its relationship */
+  sourceConnections?: DiagramConnection[];
+  targetConnectionIds?: string[];
+  xml?: XmlExtension;
 }
 
-export interface DiagramObject {
+/**
+ * What a diagram object shows. Element objects show a model element; notes,
+ * groups, and view references exist only on their view.
+ */
+export type DiagramObjectType = 'Element' | 'Note' | 'Group' | 'DiagramModelReference';
+
+export interface DiagramObject extends DiagramStyle {
   id: string;
+  /** Omitted for element objects */
+  objectType?: DiagramObjectType;
+  /** Element shown; empty for notes, groups, and view references */
   elementId: string;
+  /** Group label */
+  name?: string;
+  /** Note text */
+  content?: string;
+  /** View a view reference opens */
+  diagramId?: string;
   bounds: DiagramBounds;
   sourceConnections?: DiagramConnection[];
   targetConnectionIds?: string[];
   children?: DiagramObject[];
+  xml?: XmlExtension;
 }
 
+export type NoteObject = DiagramObject & { objectType: 'Note'; content: string };
+export type GroupObject = DiagramObject & { objectType: 'Group'; name: string };
+export type DiagramReferenceObject = DiagramObject & { objectType: 'DiagramModelReference'; diagramId: string };
+
 export interface ArchiMateDiagram {
   id: string;
   name: string;
   viewpoint?: string;
   documentation?: string;
+  properties?: ArchiMateProperty[];
   objects: DiagramObject[];
+  xml?: XmlExtension;
 }
 
 export interface ArchiMateFolder {
@@ -311,6 +438,7 @@ export interface ArchiMateFolder {
   type: string;
   elements: ArchiMateElement[];
   subfolders: ArchiMateFolder[];
+  xml?: XmlExtension;
 }
 
 export interface ArchiMateModel {
@@ -318,9 +446,11 @@ export interface ArchiMateModel {
   name: string;
   version: string;
   documentation?: string;
+  properties?: ArchiMateProperty[];
   folders: ArchiMateFolder[];
   relationships: ArchiMateRelationship[];
   diagrams: ArchiMateDiagram[];
+  xml?: XmlExtension;
 }
 
 // =============================================================================
@@ -396,6 +526,8 @@ export const XmlTypeToElementType: Record<string, ElementType> = {
   // Composite
   'archimate:Grouping': 'Grouping',
   'archimate:Location': 'Location',
+  // Relationship connectors
+  'archimate:Junction': 'Junction',
 };
 
 export const ElementTypeToXmlType: Record<ElementType, string> = Object.fromEntries(
@@ -420,6 +552,22 @@ export const RelationshipTypeToXmlType: Record<RelationshipType, string> = Objec
   Object.entries(XmlTypeToRelationshipType).map(([xml, rel]) => [rel, xml])
 ) as Record<RelationshipType, string>;
 
+export const XmlTypeToDiagramObjectType: Record<string, DiagramObjectType> = {
+  'archimate:DiagramObject': 'Element',
+  'archimate:Note': 'Note',
+  'archimate:Group': 'Group',
+  'archimate:DiagramModelReference': 'DiagramModelReference',
+};
+
+export const DiagramObjectTypeToXmlType: Record<DiagramObjectType, string> = Object.fromEntries(
+  Object.entries(XmlTypeToDiagramObjectType).map(([xml, type]) => [type, xml])
+) as Record<DiagramObjectType, string>;
+
+// Archi stores text alignment and position as numbers
+export const TextAlignmentToXml: Record<TextAlignment, string> = { left: '1', center: '2', right: '4' };
+export const TextPositionToXml: Record<TextPosition, string> = { top: '0', middle: '1', bottom: '2' };
+export const ConnectionTextPositionToXml: Record<ConnectionTextPosition, string> = { source: '0', middle: '1', target: '2' };
+
 // =============================================================================
 // Element Descriptions (for LLM guidance)
 // =============================================================================
@@ -493,6 +641,8 @@ export const ElementDescriptions: Record<ElementType, string> = {
   // Composite
   Grouping: 'Aggregates or composes concepts that belong together',
   Location: 'Represents a conceptual or physical place where concepts are located',
+  // Relationship connectors
+  Junction: 'Joins or splits relationships of the same type; an And junction takes every path, an Or junction some of them',
 };
 
 export const RelationshipDescriptions: Record<RelationshipType, string> = {
@@ -508,3 +658,4 @@ export const RelationshipDescriptions: Record<RelationshipType, string> = {
   Flow: 'Represents transfer from one element to another',
   Specialization: 'Represents that an element is a particular kind of another element',
 };
+
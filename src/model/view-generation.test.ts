@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { generateView, selectViewElements } from './view-generation.js';
+import { allDiagramObjects } from './view-helpers.js';
+import type { LayoutMode } from './layout.js';
+import type { ArchiMateElement, ArchiMateModel, ElementType, RelationshipType } from './types.js';
+import {
+  createEmptyModel,
+  createElement,
+  createRelationship,
+  addElementToModel,
+  resetIdCounter,
+} from '../__tests__/fixtures/sample-model.js';
+
+let model: ArchiMateModel;
+
+function add(type: ElementType, name: string): ArchiMateElement {
+  const element = createElement(type, name);
+  addElementToModel(model, element);
+  return element;
+}
+
+function relate(type: RelationshipType, source: ArchiMateElement, target: ArchiMateElement): void {
+  model.relationships.push(createRelationship(type, source.id, target.id));
+}
+
+describe('view generation', () => {
+  let crm: ArchiMateElement;
+  let sell: ArchiMateElement;
+  let clerk: ArchiMateElement;
+  let server: ArchiMateElement;
+  let customer: ArchiMateElement;
+
+  beforeEach(() => {
+    resetIdCounter();
+    model = createEmptyModel();
+    crm = add('ApplicationComponent', 'CRM');
+    sell = add('BusinessProcess', 'Sell');
+    clerk = add('BusinessRole', 'Clerk');
+    server = add('Node', 'Server');
+    customer = add('DataObject', 'Customer');
+    relate('Serving', crm, sell);
+    relate('Assignment', clerk, sell);
+    relate('Realization', server, crm);
+    relate('Access', crm, customer);
+  });
+
+  describe('selectViewElements', () => {
+    it('reaches the neighborhood of the root up to the given depth', () => {
+      const ids = (depth: number) => selectViewElements(model, { rootElementId: crm.id, depth }).map((e) => e.id);
+
+      expect(ids(1)).toEqual([crm.id, sell.id, server.id, customer.id]);
+      expect(ids(2)).toEqual([crm.id, sell.id, server.id, customer.id, clerk.id]);
+    });
+
+    it('follows only the given relationship types and directions', () => {
+      const served = selectViewElements(model, { rootElementId: crm.id, depth: 2, relationshipTypes: ['Serving', 'Realization'] });
+      expect(served.map((e) => e.id)).toEqual([crm.id, sell.id, server.id]);
+
+      const outgoing = selectViewElements(model, { rootElementId: crm.id, direction: 'outgoing' });
+      expect(outgoing.map((e) => e.id)).toEqual([crm.id, sell.id, customer.id]);
+    });
+
+    it('narrows any selection by layer and element type but keeps the root', () => {
+      const business = selectViewElements(model, { rootElementId: crm.id, depth: 2, layers: ['Business'] });
+      expect(business.map((e) => e.id)).toEqual([crm.id, sell.id, clerk.id]);
+
+      const listed = selectViewElements(model, { elementIds: [sell.id, server.id, clerk.id], elementTypes: ['BusinessRole', 'Node'] });
+      expect(listed.map((e) => e.id)).toEqual([server.id, clerk.id]);
+
+      expect(selectViewElements(model, { layers: ['Application'] }).map((e) => e.id)).toEqual([crm.id, customer.id]);
+    });
+
+    it('rejects missing elements, empty selections, and selections over the limit', () => {
+      expect(() => selectViewElements(model, { rootElementId: 'missing' })).toThrow('Element not found: missing');
+      expect(() => selectViewElements(model, { elementIds: [crm.id, 'missing'] })).toThrow('Element not found: missing');
+      expect(() => selectViewElements(model, {})).toThrow('Give a root element');
+      expect(() => selectViewElements(model, { layers: ['Motivation'] })).toThrow('The selection contains no elements');
+      expect(() => selectViewElements(model, { rootElementId: crm.id, maxElements: 3 })).toThrow(
+        'The selection contains 4 elements, more than the limit of 3'
+      );
+    });
+  });
+
+  describe('generateView', () => {
+    it('places every selected element once, connected and laid out', () => {
+      const { diagram, elementIds, connectionCount } = generateView(model, { name: 'CRM context', rootElementId: crm.id, depth: 2 });
+
+      expect(diagram.name).toBe('CRM context');
+      expect(model.diagrams).toEqual([]);
+      const objects = allDiagramObjects(diagram.objects);
+      expect(objects.map((o) => o.elementId)).toEqual(elementIds);
+      expect(connectionCount).toBe(4);
+      // Layered by ArchiMate layer: business on top, technology at the bottom
+      const y = (element: ArchiMateElement) => objects.find((o) => o.elementId === element.id)!.bounds.y;
+      expect(y(sell)).toBeLessThan(y(crm));
+      expect(y(crm)).toBeLessThan(y(server));
+    });
+
+    it('selects only the elements its viewpoint shows', () => {
+      const { diagram, elementIds } = generateView(model, {
+        name: 'Applications',
+        rootElementId: crm.id,
+        viewpoint: 'Application Cooperation',
+      });
+
+      expect(diagram.viewpoint).toBe('application_cooperation');
+      expect(elementIds).toEqual([crm.id, customer.id]);
+      expect(() => generateView(model, { name: 'Bad', rootElementId: server.id, viewpoint: 'application_cooperation' })).toThrow(
+        'The Application Cooperation viewpoint does not show Node elements'
+      );
+      expect(() => generateView(model, { name: 'Bad', rootElementId: crm.id, viewpoint: 'Application' })).toThrow('Unknown viewpoint');
+    });
+
+    it('rejects an unknown layout mode', () => {
+      expect(() => generateView(model, { name: 'Bad', rootElementId: crm.id, layoutMode: 'bogus' as LayoutMode })).toThrow(
+        'Unknown layout mode: bogus. Use one of: layered, grid, nested'
+      );
+    });
+
+    it('draws only the relationship types it was asked to follow', () => {
+      const { diagram, connectionCount } = generateView(model, {
+        name: 'Served',
+        elementIds: [crm.id, sell.id, customer.id],
+        relationshipTypes: ['Serving'],
+        layoutMode: 'grid',
+      });
+
+      expect(connectionCount).toBe(1);
+      const connections = diagram.objects.flatMap((o) => o.sourceConnections ?? []);
+      expect(connections.map((c) => model.relationships.find((r) => r.id === c.relationshipId)!.type)).toEqual(['Serving']);
+    });
+  });
+});
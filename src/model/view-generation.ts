@@ -0,0 +1,176 @@
+/**
+ * Generate a view from a selection of elements: the neighborhood of a root
+ * element, an explicit list, or every element of some layers or types.
+ *
+ * Used by the archimate_generate_view MCP tool. Objects are added the way
+ * archimate_add_to_view adds them, so connections are auto-drawn, and the
+ * view is then laid out.
+ */
+
+import type {
+  ArchiMateDiagram,
+  ArchiMateElement,
+  ArchiMateModel,
+  ArchiMateRelationship,
+  DiagramObject,
+  ElementType,
+  Layer,
+  RelationshipType,
+} from './types.js';
+import { getLayerForElementType } from './types.js';
+import { getModelIndex, type RelationshipDirection } from './model-index.js';
+import { getAllElements } from './parser.js';
+import { generateId } from './writer.js';
+import { autoConnectDiagramObject, defaultObjectSize, nextChildPosition } from './view-helpers.js';
+import { layoutView, LAYOUT_MODES, type LayoutMode, type LayoutResult } from './layout.js';
+import { getViewpointElementTypes, isAllowedInViewpoint, resolveViewpoint } from './viewpoints.js';
+
+export const DEFAULT_GENERATED_VIEW_DEPTH = 1;
+export const DEFAULT_GENERATED_VIEW_LIMIT = 200;
+
+export interface ViewSelection {
+  /** Start from this element and follow its relationships */
+  rootElementId?: string;
+  /** Relationship hops from the root; defaults to 1 */
+  depth?: number;
+  /** Which relationships of the root to follow; defaults to both directions */
+  direction?: RelationshipDirection;
+  /** Follow and draw only these relationship types */
+  relationshipTypes?: RelationshipType[];
+  /** Show exactly these elements, when there is no root */
+  elementIds?: string[];
+  /** Keep only elements of these layers; with no root or list, select all of them */
+  layers?: Layer[];
+  /** Keep only elements of these types; with no root or list, select all of them */
+  elementTypes?: ElementType[];
+  /** Refuse selections larger than this; defaults to 200 */
+  maxElements?: number;
+}
+
+export interface GenerateViewOptions extends ViewSelection {
+  name: string;
+  /** Viewpoint ID or name; only elements the viewpoint shows are selected */
+  viewpoint?: string;
+  /** Defaults to "layered" */
+  layoutMode?: LayoutMode;
+}
+
+export interface GeneratedView {
+  diagram: ArchiMateDiagram;
+  elementIds: string[];
+  connectionCount: number;
+  layout: LayoutResult;
+}
+
+/**
+ * The elements a selection names, in the order they were reached. Throws if
+ * the root or a listed element does not exist, if the selection is empty,
+ * or if it is larger than its limit.
+ */
+export function selectViewElements(model: ArchiMateModel, selection: ViewSelection): ArchiMateElement[] {
+  const index = getModelIndex(model);
+  const followed = relationshipFilter(selection.relationshipTypes);
+  let selected: ArchiMateElement[];
+
+  if (selection.rootElementId) {
+    const root = index.getElement(selection.rootElementId);
+    if (!root) {
+      throw new Error(`Element not found: ${selection.rootElementId}`);
+    }
+    // Breadth first, so each element is reached at its shortest distance
+    const depth = selection.depth ?? DEFAULT_GENERATED_VIEW_DEPTH;
+    const reached = new Map([[root.id, root]]);
+    let frontier = [root];
+    for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+      const next: ArchiMateElement[] = [];
+      for (const element of frontier) {
+        for (const rel of index.getRelationshipsForElement(element.id, selection.direction ?? 'both')) {
+          if (!followed(rel)) continue;
+          const other = index.getElement(rel.sourceId === element.id ? rel.targetId : rel.sourceId);
+          if (other && !reached.has(other.id)) {
+            reached.set(other.id, other);
+            next.push(other);
+          }
+        }
+      }
+      frontier = next;
+    }
+    selected = [...reached.values()];
+  } else if (selection.elementIds) {
+    selected = selection.elementIds.map((id) => {
+      const element = index.getElement(id);
+      if (!element) {
+        throw new Error(`Element not found: ${id}`);
+      }
+      return element;
+    });
+  } else if (selection.layers || selection.elementTypes) {
+    selected = getAllElements(model);
+  } else {
+    throw new Error('Give a root element, a list of elements, or layers or element types to select');
+  }
+
+  const keep = (element: ArchiMateElement) =>
+    element.id === selection.rootElementId ||
+    ((!selection.layers || selection.layers.includes(getLayerForElementType(element.type))) &&
+      (!selection.elementTypes || selection.elementTypes.includes(element.type)));
+  selected = [...new Set(selected)].filter(keep);
+
+  if (selected.length === 0) {
+    throw new Error('The selection contains no elements');
+  }
+  const limit = selection.maxElements ?? DEFAULT_GENERATED_VIEW_LIMIT;
+  if (selected.length > limit) {
+    throw new Error(`The selection contains ${selected.length} elements, more than the limit of ${limit}. Narrow it or raise the limit`);
+  }
+  return selected;
+}
+
+/**
+ * Build a new view, not yet added to the model, showing the selected
+ * elements and the relationships between them, and lay it out.
+ */
+export function generateView(model: ArchiMateModel, options: GenerateViewOptions): GeneratedView {
+  const mode = options.layoutMode ?? 'layered';
+  if (!LAYOUT_MODES.includes(mode)) {
+    throw new Error(`Unknown layout mode: ${mode}. Use one of: ${LAYOUT_MODES.join(', ')}`);
+  }
+
+  // A viewpoint narrows the selection to the element types it shows
+  const viewpoint = options.viewpoint ? resolveViewpoint(options.viewpoint) : undefined;
+  const elementTypes = viewpoint
+    ? getViewpointElementTypes(viewpoint).filter((t) => !options.elementTypes || options.elementTypes.includes(t))
+    : options.elementTypes;
+  const elements = selectViewElements(model, { ...options, elementTypes });
+  if (viewpoint && !isAllowedInViewpoint(viewpoint, elements[0].type)) {
+    throw new Error(`The ${viewpoint.name} viewpoint does not show ${elements[0].type} elements`);
+  }
+
+  const diagram: ArchiMateDiagram = {
+    id: generateId(),
+    name: options.name,
+    viewpoint: viewpoint?.id,
+    objects: [],
+  };
+
+  const followed = relationshipFilter(options.relationshipTypes);
+  let connectionCount = 0;
+  for (const element of elements) {
+    const obj: DiagramObject = {
+      id: generateId(),
+      elementId: element.id,
+      bounds: { ...nextChildPosition(diagram), ...defaultObjectSize(element.type) },
+      sourceConnections: [],
+      targetConnectionIds: [],
+    };
+    diagram.objects.push(obj);
+    connectionCount += autoConnectDiagramObject(model, diagram, obj, followed).length;
+  }
+
+  const layout = layoutView(model, diagram, { mode });
+  return { diagram, elementIds: elements.map((e) => e.id), connectionCount, layout };
+}
+
+function relationshipFilter(types: RelationshipType[] | undefined): (rel: ArchiMateRelationship) => boolean {
+  return types ? (rel) => types.includes(rel.type) : () => true;
+}
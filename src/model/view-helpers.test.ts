@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { autoConnectDiagramObject } from './view-helpers.js';
+import { autoConnectDiagramObject, reconnectRelationshipInView } from './view-helpers.js';
 import type { ArchiMateDiagram, ArchiMateModel, DiagramObject } from './types.js';
 import {
   createEmptyModel,
@@ -183,4 +183,99 @@ describe('autoConnectDiagramObject', () => {
     expect(created).toEqual([]);
     expect(aObj.sourceConnections ?? []).toEqual([]);
   });
+
+  it('draws relationships on relationships to and from the connections of those relationships', () => {
+    const model = createEmptyModel();
+    const process = createElement('BusinessProcess', 'Handle Claim');
+    const data = createElement('BusinessObject', 'Claim');
+    const note = createElement('Requirement', 'Keep an audit trail');
+    for (const element of [process, data, note]) addElementToModel(model, element);
+    const access = createRelationship('Access', process.id, data.id);
+    const association = createRelationship('Association', note.id, access.id);
+    model.relationships.push(access, association);
+
+    const diagram = createDiagram('V');
+    model.diagrams.push(diagram);
+    addObjectToDiagram(diagram, createDiagramObject(process.id, 0, 0));
+    const noteObj = addObjectToDiagram(diagram, createDiagramObject(note.id, 100, 200));
+    const dataObj = addObjectToDiagram(diagram, createDiagramObject(data.id, 200, 0));
+
+    const [accessConn, associationConn] = autoConnectDiagramObject(model, diagram, dataObj);
+
+    expect(accessConn.relationshipId).toBe(access.id);
+    expect(associationConn).toMatchObject({ relationshipId: association.id, sourceId: noteObj.id, targetId: accessConn.id });
+    expect(noteObj.sourceConnections).toEqual([associationConn]);
+    expect(accessConn.targetConnectionIds).toEqual([associationConn.id]);
+  });
+});
+
+describe('reconnectRelationshipInView', () => {
+  beforeEach(() => {
+    resetIdCounter();
+  });
+
+  function connectedView() {
+    const fn = createElement('ApplicationFunction', 'Process Order');
+    const data = createElement('DataObject', 'Order Data');
+    const other = createElement('DataObject', 'Invoice');
+    const rel = createRelationship('Access', fn.id, data.id);
+    const diagram = createDiagram('V');
+    const fnObj = addObjectToDiagram(diagram, createDiagramObject(fn.id, 0, 0));
+    const dataObj = addObjectToDiagram(diagram, createDiagramObject(data.id, 200, 0));
+    const conn = { ...createDiagramConnection(fnObj.id, dataObj.id, rel.id), bendpoints: [{ startX: 10, startY: 40, endX: -190, endY: 40 }] };
+    fnObj.sourceConnections = [conn];
+    dataObj.targetConnectionIds = [conn.id];
+    return { fn, data, other, rel, diagram, fnObj, dataObj, conn };
+  }
+
+  it('swaps the ends of a connection whose relationship was reversed, dropping its bendpoints', () => {
+    const { fn, data, rel, diagram, fnObj, dataObj, conn } = connectedView();
+    rel.sourceId = data.id;
+    rel.targetId = fn.id;
+
+    const result = reconnectRelationshipInView(diagram, rel);
+
+    expect(result).toEqual({ reconnected: [conn], removed: [] });
+    expect(conn).toMatchObject({ id: conn.id, sourceId: dataObj.id, targetId: fnObj.id });
+    expect(conn.bendpoints).toBeUndefined();
+    expect(dataObj.sourceConnections).toEqual([conn]);
+    expect(fnObj.sourceConnections).toEqual([]);
+    expect(fnObj.targetConnectionIds).toEqual([conn.id]);
+    expect(dataObj.targetConnectionIds).toEqual([]);
+  });
+
+  it('removes the connection from a view that does not show the new endpoint', () => {
+    const { other, rel, diagram, fnObj, dataObj, conn } = connectedView();
+    rel.targetId = other.id;
+
+    expect(reconnectRelationshipInView(diagram, rel)).toEqual({ reconnected: [], removed: [conn] });
+    expect(fnObj.sourceConnections).toEqual([]);
+    expect(dataObj.targetConnectionIds).toEqual([]);
+  });
+
+  it('removes the connections drawn to or from a removed connection', () => {
+    const { other, rel, diagram, fnObj, dataObj, conn } = connectedView();
+    const noteObj = addObjectToDiagram(diagram, { ...createDiagramObject('', 0, 200), objectType: 'Note', content: 'Nightly' });
+    const toConn = createDiagramConnection(noteObj.id, conn.id, '');
+    noteObj.sourceConnections = [toConn];
+    const fromConn = createDiagramConnection(conn.id, noteObj.id, '');
+    conn.sourceConnections = [fromConn];
+    conn.targetConnectionIds = [toConn.id];
+    noteObj.targetConnectionIds = [fromConn.id];
+    rel.targetId = other.id;
+
+    expect(reconnectRelationshipInView(diagram, rel)).toEqual({ reconnected: [], removed: [conn, fromConn, toConn] });
+    expect(fnObj.sourceConnections).toEqual([]);
+    expect(dataObj.targetConnectionIds).toEqual([]);
+    expect(noteObj.sourceConnections).toEqual([]);
+    expect(noteObj.targetConnectionIds).toEqual([]);
+  });
+
+  it('leaves connections that still match their relationship alone', () => {
+    const { rel, diagram, fnObj, conn } = connectedView();
+
+    expect(reconnectRelationshipInView(diagram, rel)).toEqual({ reconnected: [], removed: [] });
+    expect(fnObj.sourceConnections).toEqual([conn]);
+    expect(conn.bendpoints).toHaveLength(1);
+  });
 });
@@ -5,75 +5,420 @@
  * into a view, any relationship that connects it to an element already on the canvas
  * is auto-drawn as a diagram connection. Callers (e.g. the MCP `add_to_view` handler)
  * do not need to emit `add_connection_to_view` calls for these relationships.
+ *
+ * Diagram objects nest: an object's `children` are drawn inside it, and their
+ * bounds are relative to the parent's top-left corner, as Archi stores them.
+ * Connections can also end on other connections, for relationships that end
+ * on relationships; a connection drawn from a connection is stored in that
+ * connection's `sourceConnections`.
  */
 
 import type {
   ArchiMateDiagram,
   ArchiMateModel,
+  ArchiMateRelationship,
+  DiagramBendpoint,
+  DiagramBounds,
   DiagramConnection,
   DiagramObject,
+  ElementType,
 } from './types.js';
-import { getRelationshipsForElement } from './parser.js';
+import { getModelIndex } from './model-index.js';
 import { generateId } from './writer.js';
 
+/** Gap kept between a parent's border and the children placed inside it */
+export const NESTING_MARGIN = 12;
+
+/** Width and height Archi gives a junction on a view */
+export const JUNCTION_SIZE = 15;
+
+/** Something a connection can be drawn from or to */
+export type Connectable = DiagramObject | DiagramConnection;
+
+export interface DiagramObjectLocation {
+  object: DiagramObject;
+  /** Containing object; undefined for objects placed directly on the view */
+  parent?: DiagramObject;
+  /** Outermost first, ending with `parent` */
+  ancestors: DiagramObject[];
+}
+
+/**
+ * Every diagram object in a tree, parents before their children.
+ */
+export function allDiagramObjects(objects: DiagramObject[], into: DiagramObject[] = []): DiagramObject[] {
+  for (const obj of objects) {
+    into.push(obj);
+    allDiagramObjects(obj.children ?? [], into);
+  }
+  return into;
+}
+
+/**
+ * The connections drawn from a diagram object or connection, followed in
+ * each case by the connections drawn from that connection.
+ */
+export function connectionsFrom(owner: Connectable, into: DiagramConnection[] = []): DiagramConnection[] {
+  for (const conn of owner.sourceConnections ?? []) {
+    into.push(conn);
+    connectionsFrom(conn, into);
+  }
+  return into;
+}
+
+/**
+ * Every connection in a tree of diagram objects, including connections drawn
+ * from other connections.
+ */
+export function allDiagramConnections(objects: DiagramObject[]): DiagramConnection[] {
+  const connections: DiagramConnection[] = [];
+  for (const obj of allDiagramObjects(objects)) {
+    connectionsFrom(obj, connections);
+  }
+  return connections;
+}
+
+/**
+ * Find a diagram object at any nesting depth.
+ */
+export function findDiagramObject(diagram: ArchiMateDiagram, objectId: string): DiagramObjectLocation | undefined {
+  function search(objects: DiagramObject[], ancestors: DiagramObject[]): DiagramObjectLocation | undefined {
+    for (const obj of objects) {
+      if (obj.id === objectId) {
+        return { object: obj, parent: ancestors[ancestors.length - 1], ancestors };
+      }
+      const found = search(obj.children ?? [], [...ancestors, obj]);
+      if (found) return found;
+    }
+    return undefined;
+  }
+  return search(diagram.objects, []);
+}
+
+/**
+ * Find a diagram connection drawn from an object at any nesting depth, or
+ * from another connection.
+ */
+export function findDiagramConnection(diagram: ArchiMateDiagram, connectionId: string): DiagramConnection | undefined {
+  return allDiagramConnections(diagram.objects).find((c) => c.id === connectionId);
+}
+
+/**
+ * Find the diagram object or connection with an ID.
+ */
+export function findConnectable(diagram: ArchiMateDiagram, id: string): Connectable | undefined {
+  return findDiagramObject(diagram, id)?.object ?? findDiagramConnection(diagram, id);
+}
+
+/**
+ * Record a new connection on the object or connection it is drawn from and
+ * the one it is drawn to.
+ */
+export function attachConnection(source: Connectable, target: Connectable, connection: DiagramConnection): void {
+  if (!source.sourceConnections) source.sourceConnections = [];
+  source.sourceConnections.push(connection);
+  if (!target.targetConnectionIds) target.targetConnectionIds = [];
+  target.targetConnectionIds.push(connection.id);
+}
+
+/**
+ * Bounds of every diagram object in view coordinates, keyed by object ID.
+ */
+export function absoluteBoundsMap(objects: DiagramObject[]): Map<string, DiagramBounds> {
+  const result = new Map<string, DiagramBounds>();
+  function visit(children: DiagramObject[], offsetX: number, offsetY: number): void {
+    for (const obj of children) {
+      const bounds = { ...obj.bounds, x: obj.bounds.x + offsetX, y: obj.bounds.y + offsetY };
+      result.set(obj.id, bounds);
+      visit(obj.children ?? [], bounds.x, bounds.y);
+    }
+  }
+  visit(objects, 0, 0);
+  return result;
+}
+
+/**
+ * Position in view coordinates of bendpoint `index` of `count`, as Archi
+ * computes it: the offsets from the source and target centers are blended,
+ * weighted toward the target for later bendpoints.
+ */
+export function bendpointPosition(
+  bendpoint: DiagramBendpoint,
+  index: number,
+  count: number,
+  source: DiagramBounds,
+  target: DiagramBounds
+): { x: number; y: number } {
+  const weight = (index + 1) / (count + 1);
+  const fromSource = { x: source.x + source.width / 2 + bendpoint.startX, y: source.y + source.height / 2 + bendpoint.startY };
+  const fromTarget = { x: target.x + target.width / 2 + bendpoint.endX, y: target.y + target.height / 2 + bendpoint.endY };
+  return {
+    x: (1 - weight) * fromSource.x + weight * fromTarget.x,
+    y: (1 - weight) * fromSource.y + weight * fromTarget.y,
+  };
+}
+
+/**
+ * Bendpoint at a position in view coordinates on a connection between
+ * objects with the given bounds.
+ */
+export function bendpointAt(point: { x: number; y: number }, source: DiagramBounds, target: DiagramBounds): DiagramBendpoint {
+  return {
+    startX: Math.round(point.x - (source.x + source.width / 2)),
+    startY: Math.round(point.y - (source.y + source.height / 2)),
+    endX: Math.round(point.x - (target.x + target.width / 2)),
+    endY: Math.round(point.y - (target.y + target.height / 2)),
+  };
+}
+
+/**
+ * Top-left corner of an object's content area in view coordinates: the
+ * origin its children's bounds are relative to.
+ */
+export function absoluteOrigin(location: DiagramObjectLocation | undefined): { x: number; y: number } {
+  const origin = { x: 0, y: 0 };
+  for (const obj of location ? [...location.ancestors, location.object] : []) {
+    origin.x += obj.bounds.x;
+    origin.y += obj.bounds.y;
+  }
+  return origin;
+}
+
+/**
+ * Default position for a new child of `parent` (or of the view when there is
+ * no parent), relative to its container: a grid after the existing children.
+ */
+export function nextChildPosition(diagram: ArchiMateDiagram, parent?: DiagramObject): { x: number; y: number } {
+  if (!parent) {
+    const existingCount = diagram.objects.length;
+    return { x: (existingCount % 5) * 150 + 50, y: Math.floor(existingCount / 5) * 100 + 50 };
+  }
+  const count = parent.children?.length ?? 0;
+  return {
+    x: NESTING_MARGIN + (count % 3) * (120 + NESTING_MARGIN),
+    // Leave room for the parent's own label above the first row
+    y: 2 * NESTING_MARGIN + Math.floor(count / 3) * (55 + NESTING_MARGIN),
+  };
+}
+
+/**
+ * Default size of a new object showing an element of the given type.
+ */
+export function defaultObjectSize(elementType: ElementType): { width: number; height: number } {
+  return elementType === 'Junction' ? { width: JUNCTION_SIZE, height: JUNCTION_SIZE } : { width: 120, height: 55 };
+}
+
+/**
+ * Where a caller asked for a new diagram object to go.
+ */
+export interface ObjectPlacement {
+  /** Object to nest the new one in; placed on the view when omitted */
+  parentObjectId?: string;
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  /** Whether x and y are relative to the parent (the default) or view coordinates */
+  coordinates?: 'relative' | 'absolute';
+}
+
+/**
+ * Bounds, relative to the parent, for a new object placed as requested.
+ * Missing coordinates take the next grid position and a missing size takes
+ * `defaultSize`. Throws if the parent object is not in the view.
+ */
+export function resolvePlacement(
+  diagram: ArchiMateDiagram,
+  placement: ObjectPlacement,
+  defaultSize: { width: number; height: number }
+): DiagramBounds {
+  let parentLocation: DiagramObjectLocation | undefined;
+  if (placement.parentObjectId) {
+    parentLocation = findDiagramObject(diagram, placement.parentObjectId);
+    if (!parentLocation) {
+      throw new Error(`Parent diagram object not found: ${placement.parentObjectId}`);
+    }
+  }
+
+  const defaultPosition = nextChildPosition(diagram, parentLocation?.object);
+  const origin = placement.coordinates === 'absolute' ? absoluteOrigin(parentLocation) : { x: 0, y: 0 };
+  return {
+    x: placement.x !== undefined ? placement.x - origin.x : defaultPosition.x,
+    y: placement.y !== undefined ? placement.y - origin.y : defaultPosition.y,
+    width: placement.width ?? defaultSize.width,
+    height: placement.height ?? defaultSize.height,
+  };
+}
+
+/**
+ * Add an object to a view, inside the object `parentObjectId` when given,
+ * enlarging its ancestors to contain it.
+ */
+export function insertDiagramObject(diagram: ArchiMateDiagram, obj: DiagramObject, parentObjectId?: string): void {
+  const parent = parentObjectId ? findDiagramObject(diagram, parentObjectId)?.object : undefined;
+  if (!parent) {
+    diagram.objects.push(obj);
+    return;
+  }
+  if (!parent.children) parent.children = [];
+  parent.children.push(obj);
+  growAncestorsToFit(findDiagramObject(diagram, obj.id)!);
+}
+
+/**
+ * Enlarge the ancestors of a nested object, innermost first, until each
+ * contains its child with a margin. Objects are never shrunk or moved.
+ */
+export function growAncestorsToFit(location: DiagramObjectLocation): void {
+  let child = location.object;
+  for (const parent of [...location.ancestors].reverse()) {
+    parent.bounds.width = Math.max(parent.bounds.width, child.bounds.x + child.bounds.width + NESTING_MARGIN);
+    parent.bounds.height = Math.max(parent.bounds.height, child.bounds.y + child.bounds.height + NESTING_MARGIN);
+    child = parent;
+  }
+}
+
 /**
  * Auto-draw diagram connections for relationships between `newObj` and any other
- * diagram object already present in `diagram`. Mutates `diagram.objects` in place,
- * appending to each endpoint's `sourceConnections` / `targetConnectionIds`.
+ * diagram object already present in `diagram`, at any nesting depth. Mutates the
+ * view's objects in place, appending to each endpoint's `sourceConnections` /
+ * `targetConnectionIds`.
  *
  * Connection orientation always matches the underlying relationship's direction.
  * Relationships that already have a diagram connection in this view (manual or
  * previously auto-drawn) are skipped, so calling this function repeatedly is safe.
+ * Relationships between `newObj` and an object containing it are not drawn: as in
+ * Archi's nested views, the containment already shows them. Relationships that
+ * end on a relationship are drawn to its connection, including the connections
+ * this call draws. `include`, when given, limits the relationships drawn.
  *
  * Returns the list of newly created connections (may be empty).
  */
 export function autoConnectDiagramObject(
   model: ArchiMateModel,
   diagram: ArchiMateDiagram,
-  newObj: DiagramObject
+  newObj: DiagramObject,
+  include: (rel: ArchiMateRelationship) => boolean = () => true
 ): DiagramConnection[] {
   const existingRelationshipIds = collectExistingRelationshipIds(diagram);
-  const relationships = getRelationshipsForElement(model, newObj.elementId, 'both');
+  const index = getModelIndex(model);
+  const containers = new Set(findDiagramObject(diagram, newObj.id)?.ancestors ?? []);
+  // What shows each element and relationship in the view
+  const peers = new Map<string, Connectable>();
+  for (const obj of allDiagramObjects(diagram.objects)) {
+    if (obj !== newObj && !containers.has(obj) && !peers.has(obj.elementId)) peers.set(obj.elementId, obj);
+  }
+  for (const conn of allDiagramConnections(diagram.objects)) {
+    if (!peers.has(conn.relationshipId)) peers.set(conn.relationshipId, conn);
+  }
   const created: DiagramConnection[] = [];
 
-  for (const rel of relationships) {
-    if (existingRelationshipIds.has(rel.id)) continue;
-
-    const otherElementId = rel.sourceId === newObj.elementId ? rel.targetId : rel.sourceId;
-    const peer = diagram.objects.find(
-      (o) => o !== newObj && o.elementId === otherElementId
-    );
-    if (!peer) continue;
+  // Each new connection can in turn connect relationships that end on its relationship
+  const pending: Array<{ from: Connectable; conceptId: string }> = [{ from: newObj, conceptId: newObj.elementId }];
+  for (const { from, conceptId } of pending) {
+    for (const rel of index.getRelationshipsForElement(conceptId, 'both')) {
+      if (existingRelationshipIds.has(rel.id) || !include(rel)) continue;
 
-    const [sourceObj, targetObj] =
-      rel.sourceId === newObj.elementId ? [newObj, peer] : [peer, newObj];
+      const otherId = rel.sourceId === conceptId ? rel.targetId : rel.sourceId;
+      const peer = peers.get(otherId);
+      if (!peer) continue;
 
-    const connection: DiagramConnection = {
-      id: generateId(),
-      sourceId: sourceObj.id,
-      targetId: targetObj.id,
-      relationshipId: rel.id,
-    };
+      const [source, target] = rel.sourceId === conceptId ? [from, peer] : [peer, from];
 
-    if (!sourceObj.sourceConnections) sourceObj.sourceConnections = [];
-    sourceObj.sourceConnections.push(connection);
+      const connection: DiagramConnection = {
+        id: generateId(),
+        sourceId: source.id,
+        targetId: target.id,
+        relationshipId: rel.id,
+      };
+      attachConnection(source, target, connection);
 
-    if (!targetObj.targetConnectionIds) targetObj.targetConnectionIds = [];
-    targetObj.targetConnectionIds.push(connection.id);
-
-    existingRelationshipIds.add(rel.id);
-    created.push(connection);
+      existingRelationshipIds.add(rel.id);
+      created.push(connection);
+      peers.set(rel.id, connection);
+      pending.push({ from: connection, conceptId: rel.id });
+    }
   }
 
   return created;
 }
 
-function collectExistingRelationshipIds(diagram: ArchiMateDiagram): Set<string> {
-  const ids = new Set<string>();
-  for (const obj of diagram.objects) {
-    for (const conn of obj.sourceConnections ?? []) {
-      ids.add(conn.relationshipId);
+/**
+ * Bring a view's connections for a relationship back in line with its
+ * endpoints after they changed. An end that no longer shows the
+ * relationship's element or relationship moves to the first object or
+ * connection in the view that does, and the connection's bendpoints are
+ * dropped. A connection is removed when the view shows no such end,
+ * together with the connections drawn to or from it.
+ */
+export function reconnectRelationshipInView(
+  diagram: ArchiMateDiagram,
+  relationship: ArchiMateRelationship
+): { reconnected: DiagramConnection[]; removed: DiagramConnection[] } {
+  const connectables: Connectable[] = [...allDiagramObjects(diagram.objects), ...allDiagramConnections(diagram.objects)];
+  const byId = new Map(connectables.map((c) => [c.id, c]));
+  const shows = (c: Connectable, conceptId: string) =>
+    ('relationshipId' in c ? c.relationshipId : c.elementId) === conceptId;
+  const showing = (conceptId: string, current: Connectable | undefined) =>
+    current && shows(current, conceptId) ? current : connectables.find((c) => shows(c, conceptId));
+  const reconnected: DiagramConnection[] = [];
+  const removed: DiagramConnection[] = [];
+  const gone = new Set<string>();
+  // A removed connection takes the connections drawn from it along
+  const remove = (conn: DiagramConnection): void => {
+    removed.push(conn);
+    gone.add(conn.id);
+    conn.sourceConnections?.forEach(remove);
+  };
+
+  for (const sourceObj of connectables) {
+    for (const conn of [...(sourceObj.sourceConnections ?? [])]) {
+      if (conn.relationshipId !== relationship.id) continue;
+      const targetObj = byId.get(conn.targetId);
+      const newSource = showing(relationship.sourceId, sourceObj);
+      const newTarget = showing(relationship.targetId, targetObj);
+      if (newSource === sourceObj && newTarget === targetObj) continue;
+
+      sourceObj.sourceConnections = sourceObj.sourceConnections!.filter((c) => c !== conn);
+      if (targetObj?.targetConnectionIds) {
+        targetObj.targetConnectionIds = targetObj.targetConnectionIds.filter((id) => id !== conn.id);
+      }
+      if (!newSource || !newTarget) {
+        remove(conn);
+        continue;
+      }
+
+      conn.sourceId = newSource.id;
+      conn.targetId = newTarget.id;
+      delete conn.bendpoints;
+      attachConnection(newSource, newTarget, conn);
+      reconnected.push(conn);
+    }
+  }
+
+  // Connections drawn to a removed connection go too, until none are left
+  let removing = removed.length > 0;
+  while (removing) {
+    removing = false;
+    for (const owner of [...allDiagramObjects(diagram.objects), ...allDiagramConnections(diagram.objects)]) {
+      const dangling = (owner.sourceConnections ?? []).filter((c) => gone.has(c.targetId) && !gone.has(c.id));
+      if (dangling.length === 0) continue;
+      dangling.forEach(remove);
+      owner.sourceConnections = owner.sourceConnections!.filter((c) => !gone.has(c.id));
+      removing = true;
     }
   }
-  return ids;
+  if (removed.length > 0) {
+    for (const owner of [...allDiagramObjects(diagram.objects), ...allDiagramConnections(diagram.objects)]) {
+      if (owner.targetConnectionIds?.some((id) => gone.has(id))) {
+        owner.targetConnectionIds = owner.targetConnectionIds.filter((id) => !gone.has(id));
+      }
+    }
+  }
+
+  return { reconnected, removed };
+}
+
+function collectExistingRelationshipIds(diagram: ArchiMateDiagram): Set<string> {
+  return new Set(allDiagramConnections(diagram.objects).map((conn) => conn.relationshipId));
 }
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Viewpoints,
+  getViewpoint,
+  resolveViewpoint,
+  isAllowedInViewpoint,
+  getViewpointElementTypes,
+  getViewpointRelationshipTypes,
+} from './viewpoints.js';
+import { AllElementTypes, RelationshipTypes } from './types.js';
+
+describe('viewpoint catalog', () => {
+  it('keys every viewpoint by a unique Archi identifier', () => {
+    const ids = Viewpoints.map((v) => v.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids).toEqual(expect.arrayContaining([
+      'organization', 'application_cooperation', 'layered', 'motivation', 'strategy', 'implementation_migration',
+    ]));
+  });
+
+  it('finds viewpoints by identifier or by name', () => {
+    expect(getViewpoint('application_cooperation')?.name).toBe('Application Cooperation');
+    expect(getViewpoint('Implementation and Migration')?.id).toBe('implementation_migration');
+    expect(getViewpoint('Layered')?.id).toBe('layered');
+    expect(getViewpoint('Application')).toBeUndefined();
+    expect(() => resolveViewpoint('Application')).toThrow('Unknown viewpoint: Application. Use one of: organization');
+  });
+
+  it('shows only the element types of the viewpoint, plus Grouping, Location, and Junction', () => {
+    const organization = resolveViewpoint('organization');
+    expect(isAllowedInViewpoint(organization, 'BusinessActor')).toBe(true);
+    expect(isAllowedInViewpoint(organization, 'Location')).toBe(true);
+    expect(isAllowedInViewpoint(organization, 'Grouping')).toBe(true);
+    expect(isAllowedInViewpoint(organization, 'Junction')).toBe(true);
+    expect(isAllowedInViewpoint(organization, 'ApplicationComponent')).toBe(false);
+
+    expect(getViewpointElementTypes(resolveViewpoint('migration'))).toEqual(['Plateau', 'Gap', 'Grouping', 'Location', 'Junction']);
+    expect(getViewpointElementTypes(resolveViewpoint('layered'))).toEqual([...AllElementTypes]);
+  });
+
+  it('derives the relationship types from the relationship table', () => {
+    const stakeholder = getViewpointRelationshipTypes(resolveViewpoint('stakeholder'));
+    expect(stakeholder).toContain('Influence');
+    expect(stakeholder).not.toContain('Serving');
+    expect(stakeholder).not.toContain('Access');
+
+    expect(getViewpointRelationshipTypes(resolveViewpoint('layered'))).toEqual([...RelationshipTypes]);
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * ArchiMate 3.2 Viewpoint Catalog
+ * Based on ArchiMate 3.2 Specification Appendix C
+ *
+ * Each example viewpoint of the specification is keyed by the identifier
+ * Archi stores in a view's viewpoint attribute, and lists the element types
+ * it shows. The relationships a viewpoint shows are those the relationship
+ * table permits between its element types, so they are derived rather than
+ * listed. Grouping, Location, and junctions fit any viewpoint, as in Archi.
+ */
+
+import type { ArchiMateDiagram, ElementType, RelationshipType } from './types.js';
+import {
+  AllElementTypes,
+  ApplicationElementTypes,
+  BusinessElementTypes,
+  RelationshipTypes,
+  TechnologyElementTypes,
+} from './types.js';
+import { getRelationshipCodes, RelationshipTypeToCode } from '../relationships/relationship-table.js';
+
+export type ViewpointCategory = 'Basic' | 'Motivation' | 'Strategy' | 'Implementation and Migration';
+
+export interface Viewpoint {
+  /** Archi's identifier, stored in the view's viewpoint attribute */
+  id: string;
+  name: string;
+  category: ViewpointCategory;
+  description: string;
+  /** Element types the viewpoint shows, besides Grouping, Location, and Junction */
+  elementTypes: readonly ElementType[];
+}
+
+const ALWAYS_ALLOWED: readonly ElementType[] = ['Grouping', 'Location', 'Junction'];
+
+const CORE_ELEMENTS: readonly ElementType[] = [
+  ...BusinessElementTypes,
+  ...ApplicationElementTypes,
+  ...TechnologyElementTypes,
+];
+
+const BUSINESS_ACTIVE: readonly ElementType[] = ['BusinessActor', 'BusinessRole', 'BusinessCollaboration'];
+const BUSINESS_BEHAVIOR: readonly ElementType[] = [
+  'BusinessProcess', 'BusinessFunction', 'BusinessInteraction', 'BusinessEvent', 'BusinessService',
+];
+const APPLICATION_BEHAVIOR: readonly ElementType[] = [
+  'ApplicationProcess', 'ApplicationFunction', 'ApplicationInteraction', 'ApplicationEvent', 'ApplicationService',
+];
+const APPLICATION_STRUCTURE: readonly ElementType[] = [
+  'ApplicationComponent', 'ApplicationCollaboration', 'ApplicationInterface', 'DataObject',
+];
+const TECHNOLOGY_STRUCTURE: readonly ElementType[] = [
+  'Node', 'Device', 'SystemSoftware', 'TechnologyCollaboration', 'TechnologyInterface', 'Path', 'CommunicationNetwork', 'Artifact',
+];
+const TECHNOLOGY_BEHAVIOR: readonly ElementType[] = [
+  'TechnologyProcess', 'TechnologyFunction', 'TechnologyInteraction', 'TechnologyEvent', 'TechnologyService',
+];
+
+export const Viewpoints: readonly Viewpoint[] = [
+  // ---------------------------------------------------------------------------
+  // Basic viewpoints (C.1)
+  // ---------------------------------------------------------------------------
+  {
+    id: 'organization',
+    name: 'Organization',
+    category: 'Basic',
+    description: 'The structure of the enterprise: its actors, roles, and collaborations, and where they are',
+    elementTypes: [...BUSINESS_ACTIVE, 'BusinessInterface'],
+  },
+  {
+    id: 'information_structure',
+    name: 'Information Structure',
+    category: 'Basic',
+    description: 'The information used in the enterprise and how it is represented as data and artifacts',
+    elementTypes: ['BusinessObject', 'Contract', 'Representation', 'DataObject', 'Artifact', 'Meaning'],
+  },
+  {
+    id: 'technology',
+    name: 'Technology',
+    category: 'Basic',
+    description: 'The software and hardware that make up the technology layer',
+    elementTypes: [...TECHNOLOGY_STRUCTURE, ...TECHNOLOGY_BEHAVIOR],
+  },
+  {
+    id: 'layered',
+    name: 'Layered',
+    category: 'Basic',
+    description: 'An overview of the whole architecture, layer by layer',
+    elementTypes: AllElementTypes,
+  },
+  {
+    id: 'physical',
+    name: 'Physical',
+    category: 'Basic',
+    description: 'The physical environment: equipment, facilities, distribution networks, and materials, with the nodes they host',
+    elementTypes: ['Equipment', 'Facility', 'DistributionNetwork', 'Material', 'Node', 'Device', 'Path', 'CommunicationNetwork'],
+  },
+  {
+    id: 'product',
+    name: 'Product',
+    category: 'Basic',
+    description: 'The value a product offers and the services and contracts it consists of',
+    elementTypes: [
+      ...BUSINESS_ACTIVE, 'BusinessInterface', ...BUSINESS_BEHAVIOR, 'BusinessObject', 'Contract', 'Product',
+      'ApplicationComponent', 'ApplicationInterface', ...APPLICATION_BEHAVIOR, 'DataObject',
+      'TechnologyInterface', 'TechnologyService', 'Value',
+    ],
+  },
+  {
+    id: 'application_usage',
+    name: 'Application Usage',
+    category: 'Basic',
+    description: 'How applications support the business processes and functions that use them',
+    elementTypes: [...BUSINESS_ACTIVE, ...BUSINESS_BEHAVIOR, 'BusinessObject', ...APPLICATION_STRUCTURE, ...APPLICATION_BEHAVIOR],
+  },
+  {
+    id: 'technology_usage',
+    name: 'Technology Usage',
+    category: 'Basic',
+    description: 'How applications and business behavior use the technology that supports them',
+    elementTypes: [
+      ...BUSINESS_BEHAVIOR.filter((t) => t !== 'BusinessService'), 'BusinessObject',
+      'ApplicationComponent', 'ApplicationCollaboration', ...APPLICATION_BEHAVIOR.filter((t) => t !== 'ApplicationService'), 'DataObject',
+      ...TECHNOLOGY_STRUCTURE, ...TECHNOLOGY_BEHAVIOR,
+    ],
+  },
+  {
+    id: 'business_process_cooperation',
+    name: 'Business Process Cooperation',
+    category: 'Basic',
+    description: 'How business processes relate to each other and to the applications that support them',
+    elementTypes: [
+      ...BUSINESS_ACTIVE, 'BusinessInterface', ...BUSINESS_BEHAVIOR, 'BusinessObject', 'Representation',
+      ...APPLICATION_STRUCTURE, ...APPLICATION_BEHAVIOR,
+    ],
+  },
+  {
+    id: 'application_cooperation',
+    name: 'Application Cooperation',
+    category: 'Basic',
+    description: 'How applications relate to each other: the data they exchange and the services they offer each other',
+    elementTypes: [...APPLICATION_STRUCTURE, ...APPLICATION_BEHAVIOR],
+  },
+  {
+    id: 'service_realization',
+    name: 'Service Realization',
+    category: 'Basic',
+    description: 'How business services are realized by business processes and the applications supporting them',
+    elementTypes: [
+      ...BUSINESS_ACTIVE, ...BUSINESS_BEHAVIOR, 'BusinessObject', 'Contract', 'Representation', 'Product',
+      'ApplicationComponent', 'ApplicationCollaboration', ...APPLICATION_BEHAVIOR, 'DataObject', 'Value',
+    ],
+  },
+  {
+    id: 'implementation_deployment',
+    name: 'Implementation and Deployment',
+    category: 'Basic',
+    description: 'How applications are deployed on the technology infrastructure',
+    elementTypes: [...APPLICATION_STRUCTURE, ...APPLICATION_BEHAVIOR, ...TECHNOLOGY_STRUCTURE, ...TECHNOLOGY_BEHAVIOR],
+  },
+
+  // ---------------------------------------------------------------------------
+  // Motivation viewpoints (C.2)
+  // ---------------------------------------------------------------------------
+  {
+    id: 'stakeholder',
+    name: 'Stakeholder',
+    category: 'Motivation',
+    description: 'The stakeholders, their drivers and assessments, and the goals that address them',
+    elementTypes: ['Stakeholder', 'Driver', 'Assessment', 'Goal', 'Outcome'],
+  },
+  {
+    id: 'goal_realization',
+    name: 'Goal Realization',
+    category: 'Motivation',
+    description: 'How high-level goals are refined into outcomes, principles, and requirements',
+    elementTypes: ['Goal', 'Outcome', 'Principle', 'Requirement', 'Constraint', 'Meaning', 'Value'],
+  },
+  {
+    id: 'requirements_realization',
+    name: 'Requirements Realization',
+    category: 'Motivation',
+    description: 'How the core elements realize the requirements',
+    elementTypes: ['Goal', 'Outcome', 'Principle', 'Requirement', 'Constraint', ...CORE_ELEMENTS],
+  },
+  {
+    id: 'motivation',
+    name: 'Motivation',
+    category: 'Motivation',
+    description: 'The complete motivation: stakeholders, drivers, goals, principles, and requirements',
+    elementTypes: [
+      'Stakeholder', 'Driver', 'Assessment', 'Goal', 'Outcome', 'Principle', 'Requirement', 'Constraint', 'Meaning', 'Value',
+      'BusinessActor', 'BusinessRole',
+    ],
+  },
+
+  // ---------------------------------------------------------------------------
+  // Strategy viewpoints (C.3)
+  // ---------------------------------------------------------------------------
+  {
+    id: 'strategy',
+    name: 'Strategy',
+    category: 'Strategy',
+    description: 'The strategic capabilities, value streams, resources, and courses of action, and the outcomes they aim at',
+    elementTypes: ['Capability', 'ValueStream', 'Resource', 'CourseOfAction', 'Outcome'],
+  },
+  {
+    id: 'capability',
+    name: 'Capability Map',
+    category: 'Strategy',
+    description: 'The capabilities of the enterprise, structured for an overview',
+    elementTypes: ['Stakeholder', 'Driver', 'Goal', 'Outcome', 'Capability', 'Resource'],
+  },
+  {
+    id: 'value_stream',
+    name: 'Value Stream',
+    category: 'Strategy',
+    description: 'The value streams of the enterprise, the capabilities supporting them, and the stakeholders and value involved',
+    elementTypes: ['Stakeholder', 'Outcome', 'Value', 'ValueStream', 'Capability'],
+  },
+  {
+    id: 'outcome_realization',
+    name: 'Outcome Realization',
+    category: 'Strategy',
+    description: 'How outcomes are produced by capabilities and the core elements behind them',
+    elementTypes: [
+      'Driver', 'Assessment', 'Goal', 'Outcome', 'Value', 'Meaning',
+      'Capability', 'ValueStream', 'Resource', 'CourseOfAction', ...CORE_ELEMENTS,
+    ],
+  },
+  {
+    id: 'resource',
+    name: 'Resource Map',
+    category: 'Strategy',
+    description: 'The resources of the enterprise, the capabilities they serve, and the structure elements that implement them',
+    elementTypes: [
+      'Resource', 'Capability', 'WorkPackage',
+      ...BUSINESS_ACTIVE, 'BusinessObject', 'Contract', 'Representation',
+      'ApplicationComponent', 'ApplicationCollaboration', 'DataObject',
+      'Node', 'Device', 'SystemSoftware', 'TechnologyCollaboration', 'Artifact', 'Equipment', 'Facility', 'Material',
+    ],
+  },
+
+  // ---------------------------------------------------------------------------
+  // Implementation and migration viewpoints (C.4)
+  // ---------------------------------------------------------------------------
+  {
+    id: 'project',
+    name: 'Project',
+    category: 'Implementation and Migration',
+    description: 'The work packages of a project, who carries them out, and what they deliver',
+    elementTypes: ['Goal', 'Outcome', 'Requirement', 'WorkPackage', 'Deliverable', 'ImplementationEvent', 'BusinessActor', 'BusinessRole'],
+  },
+  {
+    id: 'migration',
+    name: 'Migration',
+    category: 'Implementation and Migration',
+    description: 'The transition from the baseline to the target architecture through plateaus and gaps',
+    elementTypes: ['Plateau', 'Gap'],
+  },
+  {
+    id: 'implementation_migration',
+    name: 'Implementation and Migration',
+    category: 'Implementation and Migration',
+    description: 'How programs and projects realize the plateaus and the core elements of the architecture',
+    elementTypes: [
+      'Goal', 'Outcome', 'Requirement', 'Constraint',
+      'WorkPackage', 'Deliverable', 'ImplementationEvent', 'Plateau', 'Gap', ...CORE_ELEMENTS,
+    ],
+  },
+];
+
+/**
+ * Find a viewpoint by Archi identifier or by name, ignoring case, spaces,
+ * and underscores, so "application_cooperation" and "Application
+ * Cooperation" both match.
+ */
+export function getViewpoint(idOrName: string): Viewpoint | undefined {
+  const key = normalize(idOrName);
+  return Viewpoints.find((v) => normalize(v.id) === key || normalize(v.name) === key);
+}
+
+/**
+ * Like getViewpoint, but throws for a viewpoint not in the catalog.
+ */
+export function resolveViewpoint(idOrName: string): Viewpoint {
+  const viewpoint = getViewpoint(idOrName);
+  if (!viewpoint) {
+    throw new Error(`Unknown viewpoint: ${idOrName}. Use one of: ${Viewpoints.map((v) => v.id).join(', ')}`);
+  }
+  return viewpoint;
+}
+
+/**
+ * Whether a viewpoint shows an element type.
+ */
+export function isAllowedInViewpoint(viewpoint: Viewpoint, elementType: ElementType): boolean {
+  return ALWAYS_ALLOWED.includes(elementType) || viewpoint.elementTypes.includes(elementType);
+}
+
+/**
+ * Why a view cannot show an element type, or undefined when its viewpoint
+ * shows it. Views without a viewpoint, or with one not in the catalog, show
+ * every type.
+ */
+export function checkViewpoint(diagram: ArchiMateDiagram, elementType: ElementType): string | undefined {
+  const viewpoint = diagram.viewpoint ? getViewpoint(diagram.viewpoint) : undefined;
+  if (viewpoint && !isAllowedInViewpoint(viewpoint, elementType)) {
+    return `The ${viewpoint.name} viewpoint of view "${diagram.name}" does not show ${elementType} elements`;
+  }
+  return undefined;
+}
+
+/**
+ * The element types a viewpoint shows, including Grouping, Location, and Junction.
+ */
+export function getViewpointElementTypes(viewpoint: Viewpoint): ElementType[] {
+  return AllElementTypes.filter((t) => isAllowedInViewpoint(viewpoint, t));
+}
+
+/**
+ * The relationship types the relationship table permits between some pair of
+ * the element types a viewpoint shows. Grouping, Location, and Junction are
+ * left out, since the table permits nearly every relationship for them.
+ */
+export function getViewpointRelationshipTypes(viewpoint: Viewpoint): RelationshipType[] {
+  const types = viewpoint.elementTypes.filter((t) => !ALWAYS_ALLOWED.includes(t));
+  const codes = new Set<string>();
+  for (const source of types) {
+    for (const target of types) {
+      for (const code of getRelationshipCodes(source, target)) codes.add(code);
+    }
+  }
+  return RelationshipTypes.filter((t) => codes.has(RelationshipTypeToCode[t]));
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[\s_-]/g, '');
+}
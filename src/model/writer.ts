@@ -3,7 +3,6 @@
  * Writes model.archimate files compatible with coArchi2
  */
 
-import { XMLBuilder } from 'fast-xml-parser';
 import { writeFile } from 'fs/promises';
 import { join } from 'path';
 import {
@@ -14,284 +13,335 @@ import {
   ArchiMateDiagram,
   DiagramObject,
   DiagramConnection,
+  DiagramBounds,
+  DiagramBendpoint,
+  DiagramObjectTypeToXmlType,
+  TextAlignmentToXml,
+  TextPositionToXml,
+  ConnectionTextPositionToXml,
   ElementTypeToXmlType,
   RelationshipTypeToXmlType,
   ArchiMateProperty,
+  ElementType,
+  XmlNode,
 } from './types.js';
+import { getModelIndex, invalidateModelIndex, peekModelIndex } from './model-index.js';
+import { buildXmlNode, serializeXmlDocument, type NodeShape, type ShapeChild } from './xml-tree.js';
+import { isValidRelationship } from '../relationships/validation.js';
 
 const MODEL_FILENAME = 'model.archimate';
 
-interface XmlAttribute {
-  '@_xsi:type'?: string;
-  '@_name'?: string;
-  '@_id'?: string;
-  '@_source'?: string;
-  '@_target'?: string;
-  '@_type'?: string;
-  '@_accessType'?: string;
-  '@_modifier'?: string;
-  '@_archimateElement'?: string;
-  '@_archimateRelationship'?: string;
-  '@_targetConnections'?: string;
-  '@_x'?: string;
-  '@_y'?: string;
-  '@_width'?: string;
-  '@_height'?: string;
-  '@_key'?: string;
-  '@_value'?: string;
-}
-
-function escapeXml(str: string): string {
-  return str
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&apos;');
-}
-
-function buildProperties(props: ArchiMateProperty[] | undefined): object[] {
-  if (!props || props.length === 0) return [];
-  return props.map(p => ({
-    '@_key': p.key,
-    '@_value': p.value,
-  }));
+// =============================================================================
+// Node shapes
+//
+// What the writer emits for each concept, in the attribute and child order
+// Archi uses. The parser compares files against the same shapes to decide
+// what it must keep in a concept's `xml` extension.
+// =============================================================================
+
+/**
+ * Relationships and views written into one folder.
+ */
+export interface FolderContents {
+  relationships: ArchiMateRelationship[];
+  diagrams: ArchiMateDiagram[];
 }
 
-function buildElement(element: ArchiMateElement): object {
-  const xmlType = ElementTypeToXmlType[element.type];
-  const obj: Record<string, unknown> = {
-    '@_xsi:type': xmlType,
-    '@_name': element.name,
-    '@_id': element.id,
-  };
+const ACCESS_TYPE_VALUES: Record<string, string> = {
+  Read: '1',
+  Write: '2',
+  ReadWrite: '3',
+};
 
-  if (element.documentation) {
-    obj.documentation = element.documentation;
-  }
+function textNode(name: string, text: string): XmlNode {
+  return { name, attributes: {}, children: [], text };
+}
 
-  const props = buildProperties(element.properties);
-  if (props.length > 0) {
-    obj.property = props;
-  }
+function documentationChild(documentation: string | undefined, tag: string = 'documentation'): ShapeChild[] {
+  return documentation ? [{ tag, build: () => textNode(tag, documentation) }] : [];
+}
 
-  return obj;
+function propertyChildren(props: ArchiMateProperty[] | undefined): ShapeChild[] {
+  return (props ?? []).map((p) => ({
+    tag: 'property',
+    build: () => buildXmlNode({
+      name: 'property',
+      attributes: [{ name: 'key', value: p.key }, { name: 'value', value: p.value }],
+      children: [],
+    }),
+  }));
 }
 
-function buildRelationship(rel: ArchiMateRelationship): object {
-  const xmlType = RelationshipTypeToXmlType[rel.type];
-  const obj: Record<string, unknown> = {
-    '@_xsi:type': xmlType,
-    '@_id': rel.id,
-    '@_source': rel.sourceId,
-    '@_target': rel.targetId,
+export function elementShape(element: ArchiMateElement): NodeShape {
+  return {
+    name: 'element',
+    attributes: [
+      { name: 'xsi:type', value: ElementTypeToXmlType[element.type] },
+      // Junctions are usually unnamed, and Archi leaves out an empty name
+      { name: 'name', value: element.type === 'Junction' ? element.name || undefined : element.name, fallback: '' },
+      { name: 'id', value: element.id, fallback: '' },
+      // Archi leaves out the type of And junctions
+      { name: 'type', value: element.type === 'Junction' && element.junctionType === 'or' ? 'or' : undefined },
+    ],
+    children: [...documentationChild(element.documentation), ...propertyChildren(element.properties)],
   };
-
-  if (rel.name) {
-    obj['@_name'] = rel.name;
-  }
-
-  if (rel.documentation) {
-    obj.documentation = rel.documentation;
-  }
-
-  // Handle access type
-  if (rel.type === 'Access' && rel.accessType) {
-    const accessMap: Record<string, string> = {
-      Read: '1',
-      Write: '2',
-      ReadWrite: '3',
-    };
-    obj['@_accessType'] = accessMap[rel.accessType] || '3';
-  }
-
-  // Handle influence modifier
-  if (rel.type === 'Influence' && rel.influenceModifier) {
-    obj['@_modifier'] = rel.influenceModifier;
-  }
-
-  const props = buildProperties(rel.properties);
-  if (props.length > 0) {
-    obj.property = props;
-  }
-
-  return obj;
 }
 
-function buildConnection(conn: DiagramConnection): object {
-  const obj: Record<string, unknown> = {
-    '@_xsi:type': 'archimate:Connection',
-    '@_id': conn.id,
-    '@_source': conn.sourceId,
-    '@_target': conn.targetId,
+export function relationshipShape(rel: ArchiMateRelationship): NodeShape {
+  return {
+    name: 'element',
+    attributes: [
+      { name: 'xsi:type', value: RelationshipTypeToXmlType[rel.type] },
+      { name: 'name', value: rel.name || undefined },
+      { name: 'id', value: rel.id, fallback: '' },
+      { name: 'source', value: rel.sourceId, fallback: '' },
+      { name: 'target', value: rel.targetId, fallback: '' },
+      {
+        name: 'accessType',
+        value: rel.type === 'Access' && rel.accessType ? ACCESS_TYPE_VALUES[rel.accessType] || '3' : undefined,
+      },
+      { name: 'modifier', value: rel.type === 'Influence' ? rel.influenceModifier || undefined : undefined },
+    ],
+    children: [...documentationChild(rel.documentation), ...propertyChildren(rel.properties)],
   };
-
-  if (conn.relationshipId) {
-    obj['@_archimateRelationship'] = conn.relationshipId;
-  }
-
-  if (conn.bendpoints && conn.bendpoints.length > 0) {
-    obj.bendpoint = conn.bendpoints.map(bp => ({
-      '@_x': String(bp.x),
-      '@_y': String(bp.y),
-    }));
-  }
-
-  return obj;
 }
 
-function buildDiagramObject(diagObj: DiagramObject): object {
-  const obj: Record<string, unknown> = {
-    '@_xsi:type': 'archimate:DiagramObject',
-    '@_id': diagObj.id,
+export function boundsShape(bounds: DiagramBounds): NodeShape {
+  return {
+    name: 'bounds',
+    attributes: [
+      { name: 'x', value: String(bounds.x), fallback: '0' },
+      { name: 'y', value: String(bounds.y), fallback: '0' },
+      { name: 'width', value: String(bounds.width), fallback: '120' },
+      { name: 'height', value: String(bounds.height), fallback: '55' },
+    ],
+    children: [],
   };
+}
 
-  if (diagObj.elementId) {
-    obj['@_archimateElement'] = diagObj.elementId;
-  }
-
-  if (diagObj.targetConnectionIds && diagObj.targetConnectionIds.length > 0) {
-    obj['@_targetConnections'] = diagObj.targetConnectionIds.join(' ');
-  }
-
-  obj.bounds = {
-    '@_x': String(diagObj.bounds.x),
-    '@_y': String(diagObj.bounds.y),
-    '@_width': String(diagObj.bounds.width),
-    '@_height': String(diagObj.bounds.height),
+export function bendpointShape(bendpoint: DiagramBendpoint): NodeShape {
+  return {
+    name: 'bendpoint',
+    attributes: [
+      // Archi leaves out offsets of zero
+      { name: 'startX', value: bendpoint.startX ? String(bendpoint.startX) : undefined },
+      { name: 'startY', value: bendpoint.startY ? String(bendpoint.startY) : undefined },
+      { name: 'endX', value: bendpoint.endX ? String(bendpoint.endX) : undefined },
+      { name: 'endY', value: bendpoint.endY ? String(bendpoint.endY) : undefined },
+    ],
+    children: [],
   };
-
-  if (diagObj.sourceConnections && diagObj.sourceConnections.length > 0) {
-    obj.sourceConnection = diagObj.sourceConnections.map(buildConnection);
-  }
-
-  if (diagObj.children && diagObj.children.length > 0) {
-    obj.child = diagObj.children.map(buildDiagramObject);
-  }
-
-  return obj;
 }
 
-function buildDiagram(diagram: ArchiMateDiagram): object {
-  const obj: Record<string, unknown> = {
-    '@_xsi:type': 'archimate:ArchimateDiagramModel',
-    '@_name': diagram.name,
-    '@_id': diagram.id,
+export function connectionShape(conn: DiagramConnection): NodeShape {
+  return {
+    name: 'sourceConnection',
+    attributes: [
+      // Other connection types (between notes, for example) keep their type in the extension
+      { name: 'xsi:type', value: conn.xml?.attributes?.['xsi:type'] ? undefined : 'archimate:Connection' },
+      { name: 'id', value: conn.id },
+      { name: 'targetConnections', value: conn.targetConnectionIds?.length ? conn.targetConnectionIds.join(' ') : undefined },
+      { name: 'font', value: conn.font },
+      { name: 'fontColor', value: conn.fontColor },
+      { name: 'lineColor', value: conn.lineColor },
+      { name: 'textPosition', value: conn.textPosition && ConnectionTextPositionToXml[conn.textPosition] },
+      { name: 'source', value: conn.sourceId },
+      { name: 'target', value: conn.targetId },
+      { name: 'archimateRelationship', value: conn.relationshipId || undefined },
+    ],
+    children: [
+      // Connections drawn from this one, for relationships on its relationship
+      ...(conn.sourceConnections ?? []).map((nested) => ({
+        tag: 'sourceConnection',
+        id: nested.id,
+        build: () => buildXmlNode(connectionShape(nested), nested.xml),
+      })),
+      ...(conn.bendpoints ?? []).map((bp, i) => ({
+        tag: 'bendpoint',
+        build: () => buildXmlNode(bendpointShape(bp), conn.xml?.nested?.[`bendpoint.${i}`]),
+      })),
+    ],
   };
+}
 
-  if (diagram.documentation) {
-    obj.documentation = diagram.documentation;
-  }
+export function diagramObjectShape(diagObj: DiagramObject): NodeShape {
+  return {
+    name: 'child',
+    attributes: [
+      // Object types the typed model does not know keep their type in the extension
+      {
+        name: 'xsi:type',
+        value: diagObj.xml?.attributes?.['xsi:type'] ? undefined : DiagramObjectTypeToXmlType[diagObj.objectType ?? 'Element'],
+      },
+      { name: 'id', value: diagObj.id, fallback: '' },
+      { name: 'name', value: diagObj.name },
+      { name: 'targetConnections', value: diagObj.targetConnectionIds?.length ? diagObj.targetConnectionIds.join(' ') : undefined },
+      { name: 'font', value: diagObj.font },
+      { name: 'fontColor', value: diagObj.fontColor },
+      { name: 'lineColor', value: diagObj.lineColor },
+      { name: 'textAlignment', value: diagObj.textAlignment && TextAlignmentToXml[diagObj.textAlignment] },
+      { name: 'textPosition', value: diagObj.textPosition && TextPositionToXml[diagObj.textPosition] },
+      { name: 'fillColor', value: diagObj.fillColor },
+      { name: 'archimateElement', value: diagObj.elementId || undefined },
+      { name: 'model', value: diagObj.diagramId },
+    ],
+    children: [
+      { tag: 'bounds', build: () => buildXmlNode(boundsShape(diagObj.bounds), diagObj.xml?.nested?.bounds) },
+      ...(diagObj.sourceConnections ?? []).map((conn) => ({
+        tag: 'sourceConnection',
+        id: conn.id,
+        build: () => buildXmlNode(connectionShape(conn), conn.xml),
+      })),
+      ...(diagObj.children ?? []).map((child) => ({
+        tag: 'child',
+        id: child.id,
+        build: () => buildXmlNode(diagramObjectShape(child), child.xml),
+      })),
+      ...documentationChild(diagObj.content, 'content'),
+    ],
+  };
+}
 
-  if (diagram.objects.length > 0) {
-    obj.child = diagram.objects.map(buildDiagramObject);
-  }
+export function diagramShape(diagram: ArchiMateDiagram): NodeShape {
+  return {
+    name: 'element',
+    attributes: [
+      { name: 'xsi:type', value: 'archimate:ArchimateDiagramModel' },
+      { name: 'name', value: diagram.name, fallback: '' },
+      { name: 'id', value: diagram.id, fallback: '' },
+      { name: 'viewpoint', value: diagram.viewpoint || undefined },
+    ],
+    children: [
+      ...diagram.objects.map((obj) => ({
+        tag: 'child',
+        id: obj.id,
+        build: () => buildXmlNode(diagramObjectShape(obj), obj.xml),
+      })),
+      ...documentationChild(diagram.documentation),
+      ...propertyChildren(diagram.properties),
+    ],
+  };
+}
 
-  return obj;
+export function folderShape(
+  folder: ArchiMateFolder,
+  contents: FolderContents,
+  placement: Map<string, FolderContents> = new Map()
+): NodeShape {
+  return {
+    name: 'folder',
+    attributes: [
+      { name: 'name', value: folder.name },
+      { name: 'id', value: folder.id },
+      { name: 'type', value: folder.type || undefined },
+    ],
+    children: [
+      ...folder.subfolders.map((sub) => ({
+        tag: 'folder',
+        id: sub.id,
+        build: () => buildXmlNode(folderShape(sub, placement.get(sub.id) ?? EMPTY_CONTENTS, placement), sub.xml),
+      })),
+      ...folder.elements.map((e) => ({
+        tag: 'element',
+        id: e.id,
+        build: () => buildXmlNode(elementShape(e), e.xml),
+      })),
+      ...contents.relationships.map((r) => ({
+        tag: 'element',
+        id: r.id,
+        build: () => buildXmlNode(relationshipShape(r), r.xml),
+      })),
+      ...contents.diagrams.map((d) => ({
+        tag: 'element',
+        id: d.id,
+        build: () => buildXmlNode(diagramShape(d), d.xml),
+      })),
+    ],
+  };
 }
 
-function buildFolder(folder: ArchiMateFolder, isRelations: boolean = false): object {
-  const obj: Record<string, unknown> = {
-    '@_name': folder.name,
-    '@_id': folder.id,
+export function modelShape(model: ArchiMateModel, placement: Map<string, FolderContents> = new Map()): NodeShape {
+  return {
+    name: 'archimate:model',
+    attributes: [
+      { name: 'xmlns:xsi', value: 'http://www.w3.org/2001/XMLSchema-instance' },
+      { name: 'xmlns:archimate', value: 'http://www.archimatetool.com/archimate' },
+      { name: 'name', value: model.name },
+      { name: 'id', value: model.id },
+      { name: 'version', value: model.version, fallback: '5.0.0' },
+    ],
+    children: [
+      ...model.folders.map((folder) => ({
+        tag: 'folder',
+        id: folder.id,
+        build: () => buildXmlNode(folderShape(folder, placement.get(folder.id) ?? EMPTY_CONTENTS, placement), folder.xml),
+      })),
+      ...documentationChild(model.documentation, 'purpose'),
+      ...propertyChildren(model.properties),
+    ],
   };
+}
 
-  if (folder.type) {
-    obj['@_type'] = folder.type;
-  }
+const EMPTY_CONTENTS: FolderContents = { relationships: [], diagrams: [] };
 
-  const elements: object[] = [];
+/**
+ * The top-level folder that holds relationships or views not recorded in any
+ * other folder.
+ */
+export function homeFolder(model: ArchiMateModel, kind: 'relations' | 'diagrams'): ArchiMateFolder | undefined {
+  return model.folders.find((f) => f.type === kind);
+}
 
-  // Add elements
-  for (const elem of folder.elements) {
-    elements.push(buildElement(elem));
-  }
+/**
+ * Decide which folder each relationship and view is written to. A concept
+ * read from a subfolder goes back there; new ones go to the top-level
+ * Relations or Views folder.
+ */
+function placeConcepts(model: ArchiMateModel): Map<string, FolderContents> {
+  const recorded = new Map<string, string>();
+  const visit = (folder: ArchiMateFolder): void => {
+    for (const slot of folder.xml?.children ?? []) {
+      if ('known' in slot && slot.known === 'element' && slot.id && !recorded.has(slot.id)) {
+        recorded.set(slot.id, folder.id);
+      }
+    }
+    folder.subfolders.forEach(visit);
+  };
+  model.folders.forEach(visit);
+
+  const placement = new Map<string, FolderContents>();
+  const contentsOf = (folderId: string): FolderContents => {
+    let contents = placement.get(folderId);
+    if (!contents) {
+      contents = { relationships: [], diagrams: [] };
+      placement.set(folderId, contents);
+    }
+    return contents;
+  };
 
-  if (elements.length > 0) {
-    obj.element = elements;
+  const relations = homeFolder(model, 'relations');
+  for (const rel of model.relationships) {
+    const folderId = recorded.get(rel.id) ?? relations?.id;
+    if (folderId) contentsOf(folderId).relationships.push(rel);
   }
-
-  // Add subfolders
-  if (folder.subfolders.length > 0) {
-    obj.folder = folder.subfolders.map(sf => buildFolder(sf, isRelations));
+  const views = homeFolder(model, 'diagrams');
+  for (const diagram of model.diagrams) {
+    const folderId = recorded.get(diagram.id) ?? views?.id;
+    if (folderId) contentsOf(folderId).diagrams.push(diagram);
   }
-
-  return obj;
+  return placement;
 }
 
 export async function writeModel(model: ArchiMateModel, outputPath: string): Promise<void> {
   const filePath = outputPath.endsWith('.archimate') ? outputPath : join(outputPath, MODEL_FILENAME);
+  await writeFile(filePath, serializeModel(model), 'utf-8');
+}
 
-  // Build the XML structure
-  const folders: object[] = [];
-
-  for (const folder of model.folders) {
-    const isRelations = folder.type === 'relations';
-    const isDiagrams = folder.type === 'diagrams';
-
-    if (isRelations) {
-      // Add relationships as elements in the Relations folder
-      const relFolder: Record<string, unknown> = {
-        '@_name': folder.name,
-        '@_id': folder.id,
-        '@_type': folder.type,
-      };
-
-      if (model.relationships.length > 0) {
-        relFolder.element = model.relationships.map(buildRelationship);
-      }
-
-      folders.push(relFolder);
-    } else if (isDiagrams) {
-      // Add diagrams as elements in the Views folder
-      const diagFolder: Record<string, unknown> = {
-        '@_name': folder.name,
-        '@_id': folder.id,
-        '@_type': folder.type,
-      };
-
-      if (model.diagrams.length > 0) {
-        diagFolder.element = model.diagrams.map(buildDiagram);
-      }
-
-      // Add subfolders with their diagrams
-      if (folder.subfolders.length > 0) {
-        diagFolder.folder = folder.subfolders.map(sf => buildFolder(sf, false));
-      }
-
-      folders.push(diagFolder);
-    } else {
-      folders.push(buildFolder(folder, false));
-    }
-  }
-
-  const xmlObj = {
-    '?xml': {
-      '@_version': '1.0',
-      '@_encoding': 'UTF-8',
-    },
-    'archimate:model': {
-      '@_xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
-      '@_xmlns:archimate': 'http://www.archimatetool.com/archimate',
-      '@_name': model.name,
-      '@_id': model.id,
-      '@_version': model.version,
-      ...(model.documentation ? { documentation: model.documentation } : {}),
-      folder: folders,
-    },
-  };
-
-  const builder = new XMLBuilder({
-    ignoreAttributes: false,
-    attributeNamePrefix: '@_',
-    format: true,
-    indentBy: '  ',
-    suppressEmptyNode: true,
-  });
-
-  const xmlContent = builder.build(xmlObj);
-
-  await writeFile(filePath, xmlContent, 'utf-8');
+/**
+ * Build the XML content of a model.archimate file
+ */
+export function serializeModel(model: ArchiMateModel): string {
+  return serializeXmlDocument(buildXmlNode(modelShape(model, placeConcepts(model)), model.xml));
 }
 
 /**
@@ -338,11 +388,13 @@ export function addElementToModel(
   element: ArchiMateElement
 ): ArchiMateModel {
   const folderType = getFolderTypeForElement(element.type);
+  const index = peekModelIndex(model);
 
   function addToFolder(folders: ArchiMateFolder[]): boolean {
     for (const folder of folders) {
       if (folder.type === folderType) {
         folder.elements.push(element);
+        index?.elementAdded(element, folder);
         return true;
       }
       if (addToFolder(folder.subfolders)) {
@@ -363,7 +415,9 @@ export function addRelationshipToModel(
   model: ArchiMateModel,
   relationship: ArchiMateRelationship
 ): ArchiMateModel {
+  const index = peekModelIndex(model);
   model.relationships.push(relationship);
+  index?.relationshipAdded(relationship);
   return model;
 }
 
@@ -379,16 +433,43 @@ export function addDiagramToModel(
 }
 
 /**
- * Remove an element from the model (also removes associated relationships)
+ * The relationships that start from or end on any of the given elements or
+ * relationships, then those on the relationships found, and so on, in model
+ * order.
+ */
+export function getAttachedRelationships(model: ArchiMateModel, conceptIds: string[]): ArchiMateRelationship[] {
+  const index = getModelIndex(model);
+  const attached = new Set<ArchiMateRelationship>();
+  const pending = [...conceptIds];
+  for (let i = 0; i < pending.length; i++) {
+    for (const rel of index.getRelationshipsForElement(pending[i])) {
+      if (attached.has(rel)) continue;
+      attached.add(rel);
+      pending.push(rel.id);
+    }
+  }
+  return model.relationships.filter(r => attached.has(r));
+}
+
+/**
+ * Remove an element from the model (also removes associated relationships,
+ * and the relationships on those)
  */
 export function removeElementFromModel(
   model: ArchiMateModel,
   elementId: string
 ): ArchiMateModel {
+  const index = peekModelIndex(model);
+  const removedElements: ArchiMateElement[] = [];
+  const removedRelationships = getAttachedRelationships(model, [elementId]);
+
   // Remove from folders
   function removeFromFolder(folders: ArchiMateFolder[]): void {
     for (const folder of folders) {
-      folder.elements = folder.elements.filter(e => e.id !== elementId);
+      if (folder.elements.some(e => e.id === elementId)) {
+        removedElements.push(...folder.elements.filter(e => e.id === elementId));
+        folder.elements = folder.elements.filter(e => e.id !== elementId);
+      }
       removeFromFolder(folder.subfolders);
     }
   }
@@ -396,36 +477,134 @@ export function removeElementFromModel(
   removeFromFolder(model.folders);
 
   // Remove associated relationships
-  model.relationships = model.relationships.filter(
-    r => r.sourceId !== elementId && r.targetId !== elementId
-  );
+  model.relationships = model.relationships.filter(r => !removedRelationships.includes(r));
+
+  index?.elementsRemoved(removedElements);
+  index?.relationshipsRemoved(removedRelationships);
 
   // Remove from diagrams
+  const removedRelationshipIds = new Set(removedRelationships.map(r => r.id));
   for (const diagram of model.diagrams) {
-    diagram.objects = diagram.objects.filter(o => o.elementId !== elementId);
+    removeElementFromDiagram(diagram, elementId);
+    removeConnectionsFromDiagram(diagram, removedRelationshipIds);
   }
 
   return model;
 }
 
+function forEachDiagramObject(objects: DiagramObject[], visit: (obj: DiagramObject) => void): void {
+  for (const obj of objects) {
+    visit(obj);
+    forEachDiagramObject(obj.children ?? [], visit);
+  }
+}
+
+/** Each object's connections, and the connections drawn from those */
+function forEachConnectionList(
+  objects: DiagramObject[],
+  visit: (owner: DiagramObject | DiagramConnection) => void
+): void {
+  const visitConnections = (owner: DiagramObject | DiagramConnection) => {
+    visit(owner);
+    for (const conn of owner.sourceConnections ?? []) visitConnections(conn);
+  };
+  forEachDiagramObject(objects, visitConnections);
+}
+
+/**
+ * Remove the diagram objects showing an element at any depth, together with
+ * the objects nested inside them and every connection attached to a removed
+ * object.
+ */
+function removeElementFromDiagram(diagram: ArchiMateDiagram, elementId: string): void {
+  let removedAny = false;
+
+  function prune(objects: DiagramObject[]): DiagramObject[] {
+    return objects.filter(obj => {
+      if (obj.elementId === elementId) {
+        removedAny = true;
+        return false;
+      }
+      if (obj.children) obj.children = prune(obj.children);
+      return true;
+    });
+  }
+
+  diagram.objects = prune(diagram.objects);
+  if (removedAny) removeDanglingConnections(diagram);
+}
+
 /**
- * Remove a relationship from the model
+ * Remove the connections drawing any of the given relationships, and the
+ * connections drawn to or from those.
+ */
+function removeConnectionsFromDiagram(diagram: ArchiMateDiagram, relationshipIds: Set<string>): void {
+  let removedAny = false;
+  forEachConnectionList(diagram.objects, owner => {
+    if (owner.sourceConnections?.some(c => relationshipIds.has(c.relationshipId))) {
+      owner.sourceConnections = owner.sourceConnections.filter(c => !relationshipIds.has(c.relationshipId));
+      removedAny = true;
+    }
+  });
+  if (removedAny) removeDanglingConnections(diagram);
+}
+
+/**
+ * Remove connections drawn to an object or connection that is no longer on
+ * the view, until none are left, then drop the IDs of removed connections
+ * from `targetConnectionIds`.
+ */
+function removeDanglingConnections(diagram: ArchiMateDiagram): void {
+  const present = new Set<string>();
+  const collect = () => {
+    present.clear();
+    forEachDiagramObject(diagram.objects, obj => present.add(obj.id));
+    forEachConnectionList(diagram.objects, owner => {
+      for (const conn of owner.sourceConnections ?? []) present.add(conn.id);
+    });
+  };
+
+  let removedAny = true;
+  while (removedAny) {
+    removedAny = false;
+    collect();
+    forEachConnectionList(diagram.objects, owner => {
+      if (owner.sourceConnections?.some(c => !present.has(c.targetId))) {
+        owner.sourceConnections = owner.sourceConnections.filter(c => present.has(c.targetId));
+        removedAny = true;
+      }
+    });
+  }
+
+  const prune = (owner: DiagramObject | DiagramConnection) => {
+    if (owner.targetConnectionIds) {
+      owner.targetConnectionIds = owner.targetConnectionIds.filter(id => present.has(id));
+    }
+  };
+  forEachDiagramObject(diagram.objects, prune);
+  forEachConnectionList(diagram.objects, owner => owner.sourceConnections?.forEach(prune));
+}
+
+/**
+ * Remove a relationship from the model, together with the relationships on
+ * it
  */
 export function removeRelationshipFromModel(
   model: ArchiMateModel,
   relationshipId: string
 ): ArchiMateModel {
-  model.relationships = model.relationships.filter(r => r.id !== relationshipId);
+  const index = peekModelIndex(model);
+  const removed = [
+    ...model.relationships.filter(r => r.id === relationshipId),
+    ...getAttachedRelationships(model, [relationshipId]),
+  ];
+  model.relationships = model.relationships.filter(r => !removed.includes(r));
+  index?.relationshipsRemoved(removed);
 
   // Remove from diagrams
+  const removedIds = new Set(removed.map(r => r.id));
   for (const diagram of model.diagrams) {
-    for (const obj of diagram.objects) {
-      if (obj.sourceConnections) {
-        obj.sourceConnections = obj.sourceConnections.filter(
-          c => c.relationshipId !== relationshipId
-        );
-      }
-    }
+    removeConnectionsFromDiagram(diagram, removedIds);
   }
 
   return model;
@@ -439,27 +618,231 @@ export function updateElementInModel(
   elementId: string,
   updates: Partial<Pick<ArchiMateElement, 'name' | 'documentation' | 'properties'>>
 ): ArchiMateModel {
-  function updateInFolder(folders: ArchiMateFolder[]): boolean {
-    for (const folder of folders) {
-      const element = folder.elements.find(e => e.id === elementId);
-      if (element) {
-        if (updates.name !== undefined) element.name = updates.name;
-        if (updates.documentation !== undefined) element.documentation = updates.documentation;
-        if (updates.properties !== undefined) element.properties = updates.properties;
-        return true;
+  const element = getModelIndex(model).getElement(elementId);
+  if (element) {
+    if (updates.name !== undefined) element.name = updates.name;
+    if (updates.documentation !== undefined) element.documentation = updates.documentation;
+    if (updates.properties !== undefined) element.properties = updates.properties;
+  }
+  return model;
+}
+
+/**
+ * Change the type of an element in place. Its relationships and folder are
+ * not touched; see checkElementTypeChange.
+ */
+export function changeElementTypeInModel(
+  model: ArchiMateModel,
+  elementId: string,
+  type: ElementType
+): ArchiMateModel {
+  const element = getModelIndex(model).getElement(elementId);
+  if (element) {
+    element.type = type;
+    // The index files elements under their type
+    invalidateModelIndex(model);
+  }
+  return model;
+}
+
+export type RelationshipUpdates = Partial<
+  Pick<ArchiMateRelationship, 'type' | 'sourceId' | 'targetId' | 'name' | 'documentation' | 'accessType' | 'influenceModifier'>
+>;
+
+/**
+ * Update a relationship in the model. A new type drops the access type or
+ * influence modifier it does not carry. View connections are not touched;
+ * see reconnectRelationshipInViews.
+ */
+export function updateRelationshipInModel(
+  model: ArchiMateModel,
+  relationshipId: string,
+  updates: RelationshipUpdates
+): ArchiMateModel {
+  const rel = getModelIndex(model).getRelationship(relationshipId);
+  if (rel) {
+    const reconnected =
+      (updates.sourceId !== undefined && updates.sourceId !== rel.sourceId) ||
+      (updates.targetId !== undefined && updates.targetId !== rel.targetId);
+
+    if (updates.type !== undefined) rel.type = updates.type;
+    if (updates.sourceId !== undefined) rel.sourceId = updates.sourceId;
+    if (updates.targetId !== undefined) rel.targetId = updates.targetId;
+    if (updates.name !== undefined) rel.name = updates.name;
+    if (updates.documentation !== undefined) rel.documentation = updates.documentation;
+    if (updates.accessType !== undefined) rel.accessType = updates.accessType;
+    if (updates.influenceModifier !== undefined) rel.influenceModifier = updates.influenceModifier;
+    if (rel.type !== 'Access') delete rel.accessType;
+    if (rel.type !== 'Influence') delete rel.influenceModifier;
+
+    // The index files relationships under their endpoints
+    if (reconnected) invalidateModelIndex(model);
+  }
+  return model;
+}
+
+export interface MergeElementsOptions {
+  /** "merge" adds the keys only merged elements have (default); "survivor" keeps the survivor's properties */
+  properties?: 'merge' | 'survivor';
+  /** "concatenate" appends the merged elements' other documentation (default); "survivor" keeps the survivor's */
+  documentation?: 'concatenate' | 'survivor';
+}
+
+export interface MergeElementsResult {
+  survivor: ArchiMateElement;
+  merged: ArchiMateElement[];
+  /** Relationships moved from merged elements to the survivor */
+  repointedRelationships: string[];
+  /** Relationships removed as identical to another one, with the one kept */
+  duplicateRelationships: Array<{ id: string; keptId: string }>;
+  /** Relationships that only joined the merged elements, and the relationships on them */
+  removedRelationships: string[];
+  /** Diagram objects now showing the survivor, by view */
+  repointedDiagramObjects: Array<{ viewId: string; objectIds: string[] }>;
+}
+
+/**
+ * Fold elements into a survivor. Relationships and diagram objects move to
+ * the survivor; relationships that become identical to another one are
+ * removed, with their view connections and the relationships on them moved
+ * to the one kept, and relationships between the merged elements are
+ * removed. The merged elements are then removed. Nothing changes when an
+ * element is missing or a moved relationship would be invalid for the
+ * survivor's type.
+ */
+export function mergeElementsInModel(
+  model: ArchiMateModel,
+  survivorId: string,
+  mergedIds: string[],
+  options: MergeElementsOptions = {}
+): MergeElementsResult {
+  const index = getModelIndex(model);
+  const survivor = index.getElement(survivorId);
+  if (!survivor) throw new Error(`Element not found: ${survivorId}`);
+  const merged: ArchiMateElement[] = [];
+  for (const id of new Set(mergedIds)) {
+    const element = index.getElement(id);
+    if (!element) throw new Error(`Element not found: ${id}`);
+    if (id === survivorId) throw new Error(`Element ${id} is the survivor and cannot also be merged into it`);
+    merged.push(element);
+  }
+  if (merged.length === 0) throw new Error('No elements to merge');
+
+  const mergedSet = new Set(merged.map((e) => e.id));
+  const moveEnd = (id: string) => (mergedSet.has(id) ? survivorId : id);
+  const endType = (id: string) => index.getElement(id)?.type ?? (index.getRelationship(id) ? 'Relationship' as const : undefined);
+  const attached = model.relationships.filter((r) => mergedSet.has(r.sourceId) || mergedSet.has(r.targetId));
+  const joining = attached.filter((r) => r.sourceId !== r.targetId && moveEnd(r.sourceId) === moveEnd(r.targetId));
+  const invalid = attached.filter((r) => {
+    if (joining.includes(r)) return false;
+    const source = endType(moveEnd(r.sourceId));
+    const target = endType(moveEnd(r.targetId));
+    return source !== undefined && target !== undefined && !isValidRelationship(source, target, r.type);
+  });
+  if (invalid.length > 0) {
+    throw new Error(`Relationship(s) ${invalid.map((r) => `${r.id} (${r.type})`).join(', ')} would not be valid on a ${survivor.type}; change them or the element types first`);
+  }
+
+  const result: MergeElementsResult = {
+    survivor,
+    merged,
+    repointedRelationships: [],
+    duplicateRelationships: [],
+    removedRelationships: [],
+    repointedDiagramObjects: [],
+  };
+
+  for (const diagram of model.diagrams) {
+    const objectIds: string[] = [];
+    forEachDiagramObject(diagram.objects, (obj) => {
+      if (obj.elementId && mergedSet.has(obj.elementId)) {
+        obj.elementId = survivorId;
+        objectIds.push(obj.id);
       }
-      if (updateInFolder(folder.subfolders)) {
-        return true;
+    });
+    if (objectIds.length > 0) result.repointedDiagramObjects.push({ viewId: diagram.id, objectIds });
+  }
+
+  const touched = new Set<string>();
+  for (const rel of attached) {
+    if (joining.includes(rel)) continue;
+    updateRelationshipInModel(model, rel.id, { sourceId: moveEnd(rel.sourceId), targetId: moveEnd(rel.targetId) });
+    result.repointedRelationships.push(rel.id);
+    touched.add(rel.id);
+  }
+  for (const rel of joining) {
+    if (!model.relationships.includes(rel)) continue;
+    const removed = [rel, ...getAttachedRelationships(model, [rel.id])];
+    removeRelationshipFromModel(model, rel.id);
+    result.removedRelationships.push(...removed.map((r) => r.id));
+  }
+
+  // Removing a duplicate moves the relationships on it to the one kept,
+  // which can make those identical too
+  let changed = true;
+  while (changed) {
+    changed = false;
+    const kept = new Map<string, ArchiMateRelationship>();
+    for (const rel of [...model.relationships]) {
+      const key = [rel.type, rel.sourceId, rel.targetId, rel.accessType ?? '', rel.influenceModifier ?? ''].join(' ');
+      const first = kept.get(key);
+      if (!first) {
+        kept.set(key, rel);
+        continue;
       }
+      if (!touched.has(rel.id) && !touched.has(first.id)) continue;
+
+      for (const diagram of model.diagrams) {
+        forEachConnectionList(diagram.objects, (owner) => {
+          for (const conn of owner.sourceConnections ?? []) {
+            if (conn.relationshipId === rel.id) conn.relationshipId = first.id;
+          }
+        });
+      }
+      for (const other of getModelIndex(model).getRelationshipsForElement(rel.id, 'both')) {
+        updateRelationshipInModel(model, other.id, {
+          sourceId: other.sourceId === rel.id ? first.id : other.sourceId,
+          targetId: other.targetId === rel.id ? first.id : other.targetId,
+        });
+        touched.add(other.id);
+      }
+      removeRelationshipFromModel(model, rel.id);
+      result.duplicateRelationships.push({ id: rel.id, keptId: first.id });
+      changed = true;
     }
-    return false;
   }
 
-  updateInFolder(model.folders);
-  return model;
+  if (options.properties !== 'survivor') {
+    const keys = new Set((survivor.properties ?? []).map((p) => p.key));
+    const added: ArchiMateProperty[] = [];
+    for (const property of merged.flatMap((e) => e.properties ?? [])) {
+      if (keys.has(property.key)) continue;
+      keys.add(property.key);
+      added.push({ ...property });
+    }
+    if (added.length > 0) survivor.properties = [...(survivor.properties ?? []), ...added];
+  }
+  if (options.documentation !== 'survivor') {
+    const texts = new Set([survivor.documentation?.trim()]);
+    const added: string[] = [];
+    for (const text of merged.map((e) => e.documentation?.trim())) {
+      if (!text || texts.has(text)) continue;
+      texts.add(text);
+      added.push(text);
+    }
+    if (added.length > 0) {
+      survivor.documentation = [survivor.documentation, ...added].filter((t) => t?.trim()).join('\n\n');
+    }
+  }
+
+  for (const element of merged) removeElementFromModel(model, element.id);
+  return result;
 }
 
-function getFolderTypeForElement(elementType: string): string {
+/**
+ * Type of the top-level folder that holds elements of a type
+ */
+export function getFolderTypeForElement(elementType: string): string {
   const folderMap: Record<string, string> = {
     // Motivation
     Stakeholder: 'motivation',
@@ -528,6 +911,7 @@ function getFolderTypeForElement(elementType: string): string {
     // Composite
     Grouping: 'other',
     Location: 'other',
+    Junction: 'other',
   };
 
   return folderMap[elementType] || 'other';
@@ -0,0 +1,281 @@
+/**
+ * Ordered XML trees for model.archimate files.
+ *
+ * The parser reads the file into XmlNodes, which keep attribute and child
+ * order, and the writer builds XmlNodes back from the typed model. In between,
+ * each typed concept may carry an XmlExtension recording what the typed model
+ * cannot hold (attributes and children it does not know, and the original
+ * order) so that a model saved by Archi survives open and save unchanged.
+ *
+ * Both sides describe a concept's node with a NodeShape: the attributes and
+ * children the writer would emit for it. The parser compares the shape with
+ * what the file holds and keeps an extension only when they differ; the writer
+ * merges the shape with the extension.
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import type { XmlChildSlot, XmlExtension, XmlNode } from './types.js';
+
+export interface ShapeAttribute {
+  name: string;
+  /** Value to write; undefined when the typed model has none */
+  value?: string;
+  /** Value the parser assumes when the attribute is missing */
+  fallback?: string;
+}
+
+export interface ShapeChild {
+  tag: string;
+  /** ID of the concept the child holds, for children that have one */
+  id?: string;
+  build: () => XmlNode;
+}
+
+export interface NodeShape {
+  name: string;
+  attributes: ShapeAttribute[];
+  /** Known children, in the order the writer emits them */
+  children: ShapeChild[];
+}
+
+// =============================================================================
+// Parsing and serialization
+// =============================================================================
+
+type OrderedNode = Record<string, unknown> & { ':@'?: Record<string, string> };
+
+/**
+ * Parse an XML document into its root element.
+ */
+export function parseXmlDocument(xml: string): XmlNode | undefined {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '',
+    preserveOrder: true,
+    trimValues: false,
+    parseTagValue: false,
+    htmlEntities: true,
+    ignoreDeclaration: true,
+    ignorePiTags: true,
+  });
+  const nodes = parser.parse(xml) as OrderedNode[];
+  return nodes.map(toXmlNode).find((n): n is XmlNode => n !== undefined);
+}
+
+function toXmlNode(ordered: OrderedNode): XmlNode | undefined {
+  const name = Object.keys(ordered).find((key) => key !== ':@');
+  if (!name || name === '#text') return undefined;
+
+  const content = ordered[name] as OrderedNode[];
+  const children = content.map(toXmlNode).filter((n): n is XmlNode => n !== undefined);
+  const node: XmlNode = { name, attributes: { ...(ordered[':@'] ?? {}) }, children };
+  if (children.length === 0) {
+    const text = content.map((c) => (c['#text'] as string | undefined) ?? '').join('');
+    if (text !== '') node.text = text;
+  }
+  return node;
+}
+
+/**
+ * Serialize a root element with an XML declaration, two-space indentation,
+ * and self-closing empty elements, the layout Archi writes.
+ */
+export function serializeXmlDocument(root: XmlNode): string {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>'];
+  writeNode(root, '', lines);
+  return lines.join('\n') + '\n';
+}
+
+function writeNode(node: XmlNode, indent: string, lines: string[]): void {
+  const attributes = Object.entries(node.attributes)
+    .map(([name, value]) => ` ${name}="${escapeAttribute(value)}"`)
+    .join('');
+  const open = `${indent}<${node.name}${attributes}`;
+
+  if (node.children.length > 0) {
+    lines.push(`${open}>`);
+    for (const child of node.children) {
+      writeNode(child, indent + '  ', lines);
+    }
+    lines.push(`${indent}</${node.name}>`);
+  } else if (node.text !== undefined) {
+    lines.push(`${open}>${escapeText(node.text)}</${node.name}>`);
+  } else {
+    lines.push(`${open}/>`);
+  }
+}
+
+function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\r/g, '&#xD;');
+}
+
+function escapeAttribute(value: string): string {
+  // Line breaks and tabs are encoded, or XML attribute normalization would turn them into spaces
+  return escapeText(value)
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '&#xA;')
+    .replace(/\t/g, '&#x9;');
+}
+
+// =============================================================================
+// Extensions
+// =============================================================================
+
+/**
+ * Record how `node` differs from what the writer would emit for `shape`.
+ * Returns undefined when the writer would reproduce it as is.
+ *
+ * `known` lists the children the parser turned into typed concepts, when that
+ * differs from the shape's children (a folder's relationships, for example,
+ * belong to the model, not to the folder's shape). Any other child is kept
+ * verbatim.
+ */
+export function captureExtension(
+  node: XmlNode,
+  shape: NodeShape,
+  known: Array<{ tag: string; id?: string }> = shape.children
+): XmlExtension | undefined {
+  const extension: XmlExtension = {};
+
+  const shapeAttributes = new Map(shape.attributes.map((a) => [a.name, a]));
+  const names = Object.keys(node.attributes);
+  const raw: Record<string, string> = {};
+  for (const name of names) {
+    if (shapeAttributes.get(name)?.value === undefined) {
+      raw[name] = node.attributes[name];
+    }
+  }
+  const emitted = shape.attributes.filter((a) => a.value !== undefined).map((a) => a.name);
+  if (Object.keys(raw).length > 0 || !sameList(names, emitted)) {
+    extension.attributeOrder = names;
+    if (Object.keys(raw).length > 0) {
+      extension.attributes = raw;
+    }
+  }
+
+  const idTags = new Set(known.filter((c) => c.id !== undefined).map((c) => c.tag));
+  const remaining = new Map<string, number>();
+  for (const child of known) {
+    const key = slotKey(child.tag, child.id);
+    remaining.set(key, (remaining.get(key) ?? 0) + 1);
+  }
+  const slots: XmlChildSlot[] = node.children.map((child) => {
+    const id = idTags.has(child.name) ? (child.attributes.id ?? '') : undefined;
+    const key = slotKey(child.name, id);
+    const count = remaining.get(key) ?? 0;
+    if (count === 0) return { raw: child };
+    remaining.set(key, count - 1);
+    return id === undefined ? { known: child.name } : { known: child.name, id };
+  });
+  const canonical = shape.children.map((c) => slotKey(c.tag, c.id));
+  const actual = slots.map((s) => ('raw' in s ? undefined : slotKey(s.known, s.id)));
+  if (!sameList(actual, canonical)) {
+    extension.children = slots;
+  }
+
+  return extension.attributeOrder || extension.children ? extension : undefined;
+}
+
+/**
+ * Add the extension of a nested node without an ID (such as `bounds`) to its
+ * owner's extension.
+ */
+export function withNestedExtension(
+  owner: XmlExtension | undefined,
+  key: string,
+  nested: XmlExtension | undefined
+): XmlExtension | undefined {
+  if (!nested) return owner;
+  return { ...owner, nested: { ...owner?.nested, [key]: nested } };
+}
+
+/**
+ * Build the node for a shape, restoring what its extension recorded.
+ */
+export function buildXmlNode(shape: NodeShape, extension?: XmlExtension): XmlNode {
+  return {
+    name: shape.name,
+    attributes: buildAttributes(shape.attributes, extension),
+    children: buildChildren(shape.children, extension?.children).map((c) => ('raw' in c ? c.raw : c.build())),
+  };
+}
+
+function buildAttributes(shapeAttributes: ShapeAttribute[], extension?: XmlExtension): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const order = extension?.attributeOrder;
+  if (!order) {
+    for (const { name, value } of shapeAttributes) {
+      if (value !== undefined) attributes[name] = value;
+    }
+    return attributes;
+  }
+
+  const known = new Map(shapeAttributes.map((a) => [a.name, a]));
+  for (const name of order) {
+    const value = known.get(name)?.value ?? extension.attributes?.[name];
+    if (value !== undefined) attributes[name] = value;
+  }
+  // Attributes the file did not have are added unless they hold the value
+  // the parser assumed for the missing attribute
+  for (const { name, value, fallback } of shapeAttributes) {
+    if (value !== undefined && !order.includes(name) && value !== fallback) {
+      attributes[name] = value;
+    }
+  }
+  return attributes;
+}
+
+function buildChildren(children: ShapeChild[], slots?: XmlChildSlot[]): Array<ShapeChild | { raw: XmlNode }> {
+  if (!slots) return children;
+
+  const rank = new Map<string, number>();
+  children.forEach((c) => rank.has(c.tag) || rank.set(c.tag, rank.size));
+  const pending = new Map<string, ShapeChild[]>();
+  for (const child of children) {
+    const key = slotKey(child.tag, child.id);
+    const queue = pending.get(key);
+    if (queue) queue.push(child);
+    else pending.set(key, [child]);
+  }
+
+  const result: Array<ShapeChild | { raw: XmlNode }> = [];
+  for (const slot of slots) {
+    if ('raw' in slot) {
+      result.push(slot);
+      continue;
+    }
+    const child = pending.get(slotKey(slot.known, slot.id))?.shift();
+    if (child) result.push(child);
+  }
+
+  // Children the file did not have go after the last child with the same tag,
+  // or else after the last child with a tag the writer emits earlier
+  const added = new Map<string, ShapeChild[]>();
+  for (const child of children) {
+    if (pending.get(slotKey(child.tag, child.id))?.includes(child)) {
+      const group = added.get(child.tag);
+      if (group) group.push(child);
+      else added.set(child.tag, [child]);
+    }
+  }
+  for (const [tag, group] of added) {
+    let at = -1;
+    result.forEach((entry, i) => {
+      if (!('raw' in entry) && (rank.get(entry.tag) ?? 0) <= (rank.get(tag) ?? 0)) at = i;
+    });
+    if (at === -1) {
+      const firstKnown = result.findIndex((entry) => !('raw' in entry));
+      at = firstKnown === -1 ? result.length - 1 : firstKnown - 1;
+    }
+    result.splice(at + 1, 0, ...group);
+  }
+  return result;
+}
+
+function slotKey(tag: string, id: string | undefined): string {
+  return id === undefined ? tag : `${tag}#${id}`;
+}
+
+function sameList<T>(a: T[], b: T[]): boolean {
+  return a.length === b.length && a.every((value, i) => value === b[i]);
+}
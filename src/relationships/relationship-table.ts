@@ -0,0 +1,2238 @@
+/**
+ * ArchiMate 3.2 Relationship Table
+ * Based on ArchiMate 3.2 Specification Appendix B
+ *
+ * For every ordered pair of element types this table lists the relationships
+ * the specification permits, including the relationships that can be derived
+ * from the metamodel. Cells use the single-letter codes of Archi's
+ * relationships.xml so the table can be compared against Archi directly:
+ *
+ *   a Access         c Composition    f Flow           g Aggregation
+ *   i Assignment     n Influence      o Association    r Realization
+ *   s Specialization t Triggering     v Serving
+ *
+ * Association is permitted between every pair of elements, so target types
+ * that allow nothing else are omitted from a row.
+ *
+ * Junctions have no row or column: a relationship of any type but
+ * Specialization may join one. Whether the paths through a junction are
+ * valid depends on the elements it connects (see model/junctions.ts).
+ *
+ * Relationships can also end on other relationships: an association may
+ * connect any element or relationship to a relationship, and groupings and
+ * plateaus may aggregate relationships (groupings may also compose them).
+ */
+
+import type { ElementType, RelationshipEndpointType, RelationshipType } from '../model/types.js';
+
+export const RelationshipCodes: Record<string, RelationshipType> = {
+  a: 'Access',
+  c: 'Composition',
+  f: 'Flow',
+  g: 'Aggregation',
+  i: 'Assignment',
+  n: 'Influence',
+  o: 'Association',
+  r: 'Realization',
+  s: 'Specialization',
+  t: 'Triggering',
+  v: 'Serving',
+};
+
+export const RelationshipTypeToCode: Record<RelationshipType, string> = Object.fromEntries(
+  Object.entries(RelationshipCodes).map(([code, rel]) => [rel, code])
+) as Record<RelationshipType, string>;
+
+const ASSOCIATION_ONLY = 'o';
+const JUNCTION_RELATIONSHIPS = 'acfginortv';
+
+/** Relationships permitted from an element type to a relationship */
+const TO_RELATIONSHIP: Partial<Record<ElementType, string>> = {
+  Grouping: 'cgo',
+  Plateau: 'go',
+};
+
+type TableElementType = Exclude<ElementType, 'Junction'>;
+
+export const RelationshipTable: Record<TableElementType, Partial<Record<TableElementType, string>>> = {
+  Stakeholder: {
+    Stakeholder: 'cgnos',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'no',
+    Outcome: 'no',
+    Principle: 'no',
+    Requirement: 'no',
+    Constraint: 'no',
+    Grouping: 'cfginortv',
+  },
+  Driver: {
+    Stakeholder: 'no',
+    Driver: 'cgnos',
+    Assessment: 'no',
+    Goal: 'no',
+    Outcome: 'no',
+    Principle: 'no',
+    Requirement: 'no',
+    Constraint: 'no',
+    Grouping: 'cfginortv',
+  },
+  Assessment: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'cgnos',
+    Goal: 'no',
+    Outcome: 'no',
+    Principle: 'no',
+    Requirement: 'no',
+    Constraint: 'no',
+    Grouping: 'cfginortv',
+  },
+  Goal: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'cgnos',
+    Outcome: 'no',
+    Principle: 'no',
+    Requirement: 'no',
+    Constraint: 'no',
+    Grouping: 'cfginortv',
+  },
+  Outcome: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'cgnos',
+    Principle: 'no',
+    Requirement: 'no',
+    Constraint: 'no',
+    Grouping: 'cfginortv',
+  },
+  Principle: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'cgnos',
+    Requirement: 'no',
+    Constraint: 'no',
+    Grouping: 'cfginortv',
+  },
+  Requirement: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'cgnos',
+    Constraint: 'cgno',
+    Grouping: 'cfginortv',
+  },
+  Constraint: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'cgno',
+    Constraint: 'cgnos',
+    Grouping: 'cfginortv',
+  },
+  Meaning: {
+    Meaning: 'cgos',
+    Grouping: 'cfginortv',
+  },
+  Value: {
+    Value: 'cgos',
+    Grouping: 'cfginortv',
+  },
+  Resource: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'cfgorstv',
+    Capability: 'fiortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    Plateau: 'fotv',
+    Grouping: 'cfginortv',
+  },
+  Capability: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'cfgorstv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    Plateau: 'fotv',
+    Grouping: 'cfginortv',
+  },
+  ValueStream: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fotv',
+    Capability: 'fotv',
+    ValueStream: 'cfgostv',
+    CourseOfAction: 'fotv',
+    Plateau: 'fotv',
+    Grouping: 'cfginortv',
+  },
+  CourseOfAction: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fgortv',
+    Capability: 'fgiortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'cfgorstv',
+    Plateau: 'fotv',
+    Grouping: 'cfginortv',
+  },
+  BusinessActor: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'cfgostv',
+    BusinessRole: 'fiotv',
+    BusinessCollaboration: 'fotv',
+    BusinessInterface: 'cfgiotv',
+    BusinessProcess: 'fiotv',
+    BusinessFunction: 'fiotv',
+    BusinessInteraction: 'fiotv',
+    BusinessEvent: 'fiotv',
+    BusinessService: 'fiortv',
+    BusinessObject: 'ao',
+    Contract: 'ao',
+    Representation: 'ao',
+    Product: 'fotv',
+    ApplicationComponent: 'fotv',
+    ApplicationCollaboration: 'fotv',
+    ApplicationInterface: 'fotv',
+    ApplicationFunction: 'fotv',
+    ApplicationInteraction: 'fotv',
+    ApplicationProcess: 'fotv',
+    ApplicationEvent: 'fotv',
+    ApplicationService: 'fotv',
+    WorkPackage: 'io',
+    Plateau: 'fotv',
+    Grouping: 'cfginortv',
+  },
+  BusinessRole: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'fotv',
+    BusinessRole: 'cfgostv',
+    BusinessCollaboration: 'fotv',
+    BusinessInterface: 'cfgotv',
+    BusinessProcess: 'fiotv',
+    BusinessFunction: 'fiotv',
+    BusinessInteraction: 'fiotv',
+    BusinessEvent: 'fiotv',
+    BusinessService: 'fiortv',
+    BusinessObject: 'ao',
+    Contract: 'ao',
+    Representation: 'ao',
+    Product: 'fotv',
+    ApplicationComponent: 'fotv',
+    ApplicationCollaboration: 'fotv',
+    ApplicationInterface: 'fotv',
+    ApplicationFunction: 'fotv',
+    ApplicationInteraction: 'fotv',
+    ApplicationProcess: 'fotv',
+    ApplicationEvent: 'fotv',
+    ApplicationService: 'fotv',
+    WorkPackage: 'io',
+    Plateau: 'fotv',
+    Grouping: 'cfginortv',
+  },
+  BusinessCollaboration: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'fgotv',
+    BusinessRole: 'fgiotv',
+    BusinessCollaboration: 'cfgostv',
+    BusinessInterface: 'cfgiotv',
+    BusinessProcess: 'fiotv',
+    BusinessFunction: 'fiotv',
+    BusinessInteraction: 'fiotv',
+    BusinessEvent: 'fiotv',
+    BusinessService: 'fiortv',
+    BusinessObject: 'ao',
+    Contract: 'ao',
+    Representation: 'ao',
+    Product: 'fotv',
+    ApplicationComponent: 'fotv',
+    ApplicationCollaboration: 'fotv',
+    ApplicationInterface: 'fotv',
+    ApplicationFunction: 'fotv',
+    ApplicationInteraction: 'fotv',
+    ApplicationProcess: 'fotv',
+    ApplicationEvent: 'fotv',
+    ApplicationService: 'fotv',
+    WorkPackage: 'io',
+    Plateau: 'fotv',
+    Grouping: 'cfginortv',
+  },
+  BusinessInterface: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'fotv',
+    BusinessRole: 'fotv',
+    BusinessCollaboration: 'fotv',
+    BusinessInterface: 'cfgostv',
+    BusinessProcess: 'fotv',
+    BusinessFunction: 'fotv',
+    BusinessInteraction: 'fotv',
+    BusinessEvent: 'fotv',
+    BusinessService: 'fiotv',
+    BusinessObject: 'ao',
+    Contract: 'ao',
+    Representation: 'ao',
+    Product: 'fotv',
+    ApplicationComponent: 'fotv',
+    ApplicationCollaboration: 'fotv',
+    ApplicationInterface: 'fotv',
+    ApplicationFunction: 'fotv',
+    ApplicationInteraction: 'fotv',
+    ApplicationProcess: 'fotv',
+    ApplicationEvent: 'fotv',
+    ApplicationService: 'fotv',
+    Plateau: 'fotv',
+    Grouping: 'cfginortv',
+  },
+  BusinessProcess: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'fotv',
+    BusinessRole: 'fotv',
+    BusinessCollaboration: 'fotv',
+    BusinessInterface: 'fotv',
+    BusinessProcess: 'cfgostv',
+    BusinessFunction: 'fotv',
+    BusinessInteraction: 'fotv',
+    BusinessEvent: 'fotv',
+    BusinessService: 'fortv',
+    BusinessObject: 'ao',
+    Contract: 'ao',
+    Representation: 'ao',
+    Product: 'fotv',
+    ApplicationComponent: 'fotv',
+    ApplicationCollaboration: 'fotv',
+    ApplicationInterface: 'fotv',
+    ApplicationFunction: 'fotv',
+    ApplicationInteraction: 'fotv',
+    ApplicationProcess: 'fotv',
+    ApplicationEvent: 'fotv',
+    ApplicationService: 'fotv',
+    Plateau: 'fotv',
+    Grouping: 'acfginortv',
+  },
+  BusinessFunction: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'fotv',
+    BusinessRole: 'fotv',
+    BusinessCollaboration: 'fotv',
+    BusinessInterface: 'fotv',
+    BusinessProcess: 'fotv',
+    BusinessFunction: 'cfgostv',
+    BusinessInteraction: 'fotv',
+    BusinessEvent: 'fotv',
+    BusinessService: 'fortv',
+    BusinessObject: 'ao',
+    Contract: 'ao',
+    Representation: 'ao',
+    Product: 'fotv',
+    ApplicationComponent: 'fotv',
+    ApplicationCollaboration: 'fotv',
+    ApplicationInterface: 'fotv',
+    ApplicationFunction: 'fotv',
+    ApplicationInteraction: 'fotv',
+    ApplicationProcess: 'fotv',
+    ApplicationEvent: 'fotv',
+    ApplicationService: 'fotv',
+    Plateau: 'fotv',
+    Grouping: 'acfginortv',
+  },
+  BusinessInteraction: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'fotv',
+    BusinessRole: 'fotv',
+    BusinessCollaboration: 'fotv',
+    BusinessInterface: 'fotv',
+    BusinessProcess: 'fotv',
+    BusinessFunction: 'fotv',
+    BusinessInteraction: 'cfgostv',
+    BusinessEvent: 'fotv',
+    BusinessService: 'fortv',
+    BusinessObject: 'ao',
+    Contract: 'ao',
+    Representation: 'ao',
+    Product: 'fotv',
+    ApplicationComponent: 'fotv',
+    ApplicationCollaboration: 'fotv',
+    ApplicationInterface: 'fotv',
+    ApplicationFunction: 'fotv',
+    ApplicationInteraction: 'fotv',
+    ApplicationProcess: 'fotv',
+    ApplicationEvent: 'fotv',
+    ApplicationService: 'fotv',
+    Plateau: 'fotv',
+    Grouping: 'acfginortv',
+  },
+  BusinessEvent: {
+    BusinessActor: 'fot',
+    BusinessRole: 'fot',
+    BusinessCollaboration: 'fot',
+    BusinessInterface: 'fot',
+    BusinessProcess: 'fot',
+    BusinessFunction: 'fot',
+    BusinessInteraction: 'fot',
+    BusinessEvent: 'cfgost',
+    BusinessService: 'fot',
+    BusinessObject: 'ao',
+    Contract: 'ao',
+    Representation: 'ao',
+    Product: 'fot',
+    ApplicationComponent: 'fot',
+    ApplicationCollaboration: 'fot',
+    ApplicationInterface: 'fot',
+    ApplicationFunction: 'fot',
+    ApplicationInteraction: 'fot',
+    ApplicationProcess: 'fot',
+    ApplicationEvent: 'fot',
+    ApplicationService: 'fot',
+    Plateau: 'fot',
+    Grouping: 'acfginortv',
+  },
+  BusinessService: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'fotv',
+    BusinessRole: 'fotv',
+    BusinessCollaboration: 'fotv',
+    BusinessInterface: 'fotv',
+    BusinessProcess: 'fotv',
+    BusinessFunction: 'fotv',
+    BusinessInteraction: 'fotv',
+    BusinessEvent: 'fotv',
+    BusinessService: 'cfgostv',
+    BusinessObject: 'ao',
+    Contract: 'ao',
+    Representation: 'ao',
+    Product: 'fotv',
+    ApplicationComponent: 'fotv',
+    ApplicationCollaboration: 'fotv',
+    ApplicationInterface: 'fotv',
+    ApplicationFunction: 'fotv',
+    ApplicationInteraction: 'fotv',
+    ApplicationProcess: 'fotv',
+    ApplicationEvent: 'fotv',
+    ApplicationService: 'fotv',
+    Plateau: 'fotv',
+    Grouping: 'acfginortv',
+  },
+  BusinessObject: {
+    Goal: 'or',
+    Outcome: 'or',
+    Principle: 'or',
+    Requirement: 'or',
+    Constraint: 'or',
+    Resource: 'or',
+    Capability: 'or',
+    ValueStream: 'or',
+    CourseOfAction: 'or',
+    BusinessObject: 'cgos',
+    Contract: 'cgo',
+    Grouping: 'cgor',
+  },
+  Contract: {
+    Goal: 'or',
+    Outcome: 'or',
+    Principle: 'or',
+    Requirement: 'or',
+    Constraint: 'or',
+    Resource: 'or',
+    Capability: 'or',
+    ValueStream: 'or',
+    CourseOfAction: 'or',
+    BusinessObject: 'cgo',
+    Contract: 'cgos',
+    Grouping: 'cgor',
+  },
+  Representation: {
+    Goal: 'or',
+    Outcome: 'or',
+    Principle: 'or',
+    Requirement: 'or',
+    Constraint: 'or',
+    Resource: 'or',
+    Capability: 'or',
+    ValueStream: 'or',
+    CourseOfAction: 'or',
+    BusinessObject: 'or',
+    Contract: 'or',
+    Representation: 'cgos',
+    Grouping: 'cgor',
+  },
+  Product: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'cfgotv',
+    BusinessRole: 'cfgiotv',
+    BusinessCollaboration: 'cfgotv',
+    BusinessInterface: 'cfgiotv',
+    BusinessProcess: 'fiortv',
+    BusinessFunction: 'fiortv',
+    BusinessInteraction: 'fiortv',
+    BusinessEvent: 'fiortv',
+    BusinessService: 'cfgiortv',
+    BusinessObject: 'acgor',
+    Contract: 'acgor',
+    Representation: 'aor',
+    Product: 'cfgostv',
+    ApplicationComponent: 'cfgortv',
+    ApplicationCollaboration: 'fotv',
+    ApplicationInterface: 'cfgortv',
+    ApplicationFunction: 'fiortv',
+    ApplicationInteraction: 'fiortv',
+    ApplicationProcess: 'fiortv',
+    ApplicationEvent: 'fiortv',
+    ApplicationService: 'cfgiortv',
+    DataObject: 'acgor',
+    Node: 'cfgortv',
+    Device: 'cfgortv',
+    SystemSoftware: 'cfgiortv',
+    TechnologyCollaboration: 'fotv',
+    TechnologyInterface: 'cfgiortv',
+    Path: 'cfgortv',
+    CommunicationNetwork: 'cfgortv',
+    TechnologyFunction: 'fiortv',
+    TechnologyProcess: 'fiortv',
+    TechnologyInteraction: 'fiortv',
+    TechnologyEvent: 'fiortv',
+    TechnologyService: 'cfgiortv',
+    Artifact: 'acgior',
+    Equipment: 'cfgortv',
+    Facility: 'cfgortv',
+    DistributionNetwork: 'cfgotv',
+    Material: 'acgior',
+    WorkPackage: 'io',
+    Plateau: 'fotv',
+    Grouping: 'cfginortv',
+  },
+  ApplicationComponent: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'fotv',
+    BusinessRole: 'fotv',
+    BusinessCollaboration: 'fotv',
+    BusinessInterface: 'fotv',
+    BusinessProcess: 'fortv',
+    BusinessFunction: 'fortv',
+    BusinessInteraction: 'fortv',
+    BusinessEvent: 'fortv',
+    BusinessService: 'fortv',
+    BusinessObject: 'ao',
+    Contract: 'ao',
+    Representation: 'ao',
+    Product: 'fotv',
+    ApplicationComponent: 'cfgostv',
+    ApplicationCollaboration: 'fotv',
+    ApplicationInterface: 'cfgotv',
+    ApplicationFunction: 'fiotv',
+    ApplicationInteraction: 'fiotv',
+    ApplicationProcess: 'fiotv',
+    ApplicationEvent: 'fiotv',
+    ApplicationService: 'fiortv',
+    DataObject: 'ao',
+    Node: 'fotv',
+    Device: 'fotv',
+    SystemSoftware: 'fotv',
+    TechnologyCollaboration: 'fotv',
+    TechnologyInterface: 'fotv',
+    Path: 'fotv',
+    CommunicationNetwork: 'fotv',
+    TechnologyFunction: 'fotv',
+    TechnologyProcess: 'fotv',
+    TechnologyInteraction: 'fotv',
+    TechnologyEvent: 'fotv',
+    TechnologyService: 'fotv',
+    Plateau: 'fotv',
+    Grouping: 'cfginortv',
+  },
+  ApplicationCollaboration: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'fotv',
+    BusinessRole: 'fotv',
+    BusinessCollaboration: 'fotv',
+    BusinessInterface: 'fotv',
+    BusinessProcess: 'fortv',
+    BusinessFunction: 'fortv',
+    BusinessInteraction: 'fortv',
+    BusinessEvent: 'fortv',
+    BusinessService: 'fortv',
+    BusinessObject: 'ao',
+    Contract: 'ao',
+    Representation: 'ao',
+    Product: 'fotv',
+    ApplicationComponent: 'fgotv',
+    ApplicationCollaboration: 'cfgostv',
+    ApplicationInterface: 'cfgotv',
+    ApplicationFunction: 'fiotv',
+    ApplicationInteraction: 'fiotv',
+    ApplicationProcess: 'fiotv',
+    ApplicationEvent: 'fiotv',
+    ApplicationService: 'fiortv',
+    DataObject: 'ao',
+    Node: 'fotv',
+    Device: 'fotv',
+    SystemSoftware: 'fotv',
+    TechnologyCollaboration: 'fotv',
+    TechnologyInterface: 'fotv',
+    Path: 'fotv',
+    CommunicationNetwork: 'fotv',
+    TechnologyFunction: 'fotv',
+    TechnologyProcess: 'fotv',
+    TechnologyInteraction: 'fotv',
+    TechnologyEvent: 'fotv',
+    TechnologyService: 'fotv',
+    Plateau: 'fotv',
+    Grouping: 'cfginortv',
+  },
+  ApplicationInterface: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'fotv',
+    BusinessRole: 'fotv',
+    BusinessCollaboration: 'fotv',
+    BusinessInterface: 'fotv',
+    BusinessProcess: 'fotv',
+    BusinessFunction: 'fotv',
+    BusinessInteraction: 'fotv',
+    BusinessEvent: 'fotv',
+    BusinessService: 'fortv',
+    BusinessObject: 'ao',
+    Contract: 'ao',
+    Representation: 'ao',
+    Product: 'fotv',
+    ApplicationComponent: 'fotv',
+    ApplicationCollaboration: 'fotv',
+    ApplicationInterface: 'cfgostv',
+    ApplicationFunction: 'fotv',
+    ApplicationInteraction: 'fotv',
+    ApplicationProcess: 'fotv',
+    ApplicationEvent: 'fotv',
+    ApplicationService: 'fiotv',
+    DataObject: 'ao',
+    Node: 'fotv',
+    Device: 'fotv',
+    SystemSoftware: 'fotv',
+    TechnologyCollaboration: 'fotv',
+    TechnologyInterface: 'fotv',
+    Path: 'fotv',
+    CommunicationNetwork: 'fotv',
+    TechnologyFunction: 'fotv',
+    TechnologyProcess: 'fotv',
+    TechnologyInteraction: 'fotv',
+    TechnologyEvent: 'fotv',
+    TechnologyService: 'fotv',
+    Plateau: 'fotv',
+    Grouping: 'cfginortv',
+  },
+  ApplicationFunction: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'fotv',
+    BusinessRole: 'fotv',
+    BusinessCollaboration: 'fotv',
+    BusinessInterface: 'fotv',
+    BusinessProcess: 'fortv',
+    BusinessFunction: 'fortv',
+    BusinessInteraction: 'fortv',
+    BusinessEvent: 'fotv',
+    BusinessService: 'fortv',
+    BusinessObject: 'ao',
+    Contract: 'ao',
+    Representation: 'ao',
+    Product: 'fotv',
+    ApplicationComponent: 'fotv',
+    ApplicationCollaboration: 'fotv',
+    ApplicationInterface: 'fotv',
+    ApplicationFunction: 'cfgostv',
+    ApplicationInteraction: 'fotv',
+    ApplicationProcess: 'fotv',
+    ApplicationEvent: 'fotv',
+    ApplicationService: 'fortv',
+    DataObject: 'ao',
+    Node: 'fotv',
+    Device: 'fotv',
+    SystemSoftware: 'fotv',
+    TechnologyCollaboration: 'fotv',
+    TechnologyInterface: 'fotv',
+    Path: 'fotv',
+    CommunicationNetwork: 'fotv',
+    TechnologyFunction: 'fotv',
+    TechnologyProcess: 'fotv',
+    TechnologyInteraction: 'fotv',
+    TechnologyEvent: 'fotv',
+    TechnologyService: 'fotv',
+    Plateau: 'fotv',
+    Grouping: 'acfginortv',
+  },
+  ApplicationInteraction: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'fotv',
+    BusinessRole: 'fotv',
+    BusinessCollaboration: 'fotv',
+    BusinessInterface: 'fotv',
+    BusinessProcess: 'fortv',
+    BusinessFunction: 'fortv',
+    BusinessInteraction: 'fortv',
+    BusinessEvent: 'fotv',
+    BusinessService: 'fortv',
+    BusinessObject: 'ao',
+    Contract: 'ao',
+    Representation: 'ao',
+    Product: 'fotv',
+    ApplicationComponent: 'fotv',
+    ApplicationCollaboration: 'fotv',
+    ApplicationInterface: 'fotv',
+    ApplicationFunction: 'fotv',
+    ApplicationInteraction: 'cfgostv',
+    ApplicationProcess: 'fotv',
+    ApplicationEvent: 'fotv',
+    ApplicationService: 'fortv',
+    DataObject: 'ao',
+    Node: 'fotv',
+    Device: 'fotv',
+    SystemSoftware: 'fotv',
+    TechnologyCollaboration: 'fotv',
+    TechnologyInterface: 'fotv',
+    Path: 'fotv',
+    CommunicationNetwork: 'fotv',
+    TechnologyFunction: 'fotv',
+    TechnologyProcess: 'fotv',
+    TechnologyInteraction: 'fotv',
+    TechnologyEvent: 'fotv',
+    TechnologyService: 'fotv',
+    Plateau: 'fotv',
+    Grouping: 'acfginortv',
+  },
+  ApplicationProcess: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'fotv',
+    BusinessRole: 'fotv',
+    BusinessCollaboration: 'fotv',
+    BusinessInterface: 'fotv',
+    BusinessProcess: 'fortv',
+    BusinessFunction: 'fortv',
+    BusinessInteraction: 'fortv',
+    BusinessEvent: 'fotv',
+    BusinessService: 'fortv',
+    BusinessObject: 'ao',
+    Contract: 'ao',
+    Representation: 'ao',
+    Product: 'fotv',
+    ApplicationComponent: 'fotv',
+    ApplicationCollaboration: 'fotv',
+    ApplicationInterface: 'fotv',
+    ApplicationFunction: 'fotv',
+    ApplicationInteraction: 'fotv',
+    ApplicationProcess: 'cfgostv',
+    ApplicationEvent: 'fotv',
+    ApplicationService: 'fortv',
+    DataObject: 'ao',
+    Node: 'fotv',
+    Device: 'fotv',
+    SystemSoftware: 'fotv',
+    TechnologyCollaboration: 'fotv',
+    TechnologyInterface: 'fotv',
+    Path: 'fotv',
+    CommunicationNetwork: 'fotv',
+    TechnologyFunction: 'fotv',
+    TechnologyProcess: 'fotv',
+    TechnologyInteraction: 'fotv',
+    TechnologyEvent: 'fotv',
+    TechnologyService: 'fotv',
+    Plateau: 'fotv',
+    Grouping: 'acfginortv',
+  },
+  ApplicationEvent: {
+    BusinessActor: 'fot',
+    BusinessRole: 'fot',
+    BusinessCollaboration: 'fot',
+    BusinessInterface: 'fot',
+    BusinessProcess: 'fot',
+    BusinessFunction: 'fot',
+    BusinessInteraction: 'fot',
+    BusinessEvent: 'fort',
+    BusinessService: 'fot',
+    BusinessObject: 'ao',
+    Contract: 'ao',
+    Representation: 'ao',
+    Product: 'fot',
+    ApplicationComponent: 'fot',
+    ApplicationCollaboration: 'fot',
+    ApplicationInterface: 'fot',
+    ApplicationFunction: 'fot',
+    ApplicationInteraction: 'fot',
+    ApplicationProcess: 'fot',
+    ApplicationEvent: 'cfgost',
+    ApplicationService: 'fot',
+    DataObject: 'ao',
+    Node: 'fot',
+    Device: 'fot',
+    SystemSoftware: 'fot',
+    TechnologyCollaboration: 'fot',
+    TechnologyInterface: 'fot',
+    Path: 'fot',
+    CommunicationNetwork: 'fot',
+    TechnologyFunction: 'fot',
+    TechnologyProcess: 'fot',
+    TechnologyInteraction: 'fot',
+    TechnologyEvent: 'fot',
+    TechnologyService: 'fot',
+    Plateau: 'fot',
+    Grouping: 'acfginortv',
+  },
+  ApplicationService: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'fotv',
+    BusinessRole: 'fotv',
+    BusinessCollaboration: 'fotv',
+    BusinessInterface: 'fotv',
+    BusinessProcess: 'fotv',
+    BusinessFunction: 'fotv',
+    BusinessInteraction: 'fotv',
+    BusinessEvent: 'fotv',
+    BusinessService: 'fortv',
+    BusinessObject: 'ao',
+    Contract: 'ao',
+    Representation: 'ao',
+    Product: 'fotv',
+    ApplicationComponent: 'fotv',
+    ApplicationCollaboration: 'fotv',
+    ApplicationInterface: 'fotv',
+    ApplicationFunction: 'fotv',
+    ApplicationInteraction: 'fotv',
+    ApplicationProcess: 'fotv',
+    ApplicationEvent: 'fotv',
+    ApplicationService: 'cfgostv',
+    DataObject: 'ao',
+    Node: 'fotv',
+    Device: 'fotv',
+    SystemSoftware: 'fotv',
+    TechnologyCollaboration: 'fotv',
+    TechnologyInterface: 'fotv',
+    Path: 'fotv',
+    CommunicationNetwork: 'fotv',
+    TechnologyFunction: 'fotv',
+    TechnologyProcess: 'fotv',
+    TechnologyInteraction: 'fotv',
+    TechnologyEvent: 'fotv',
+    TechnologyService: 'fotv',
+    Plateau: 'fotv',
+    Grouping: 'acfginortv',
+  },
+  DataObject: {
+    Goal: 'or',
+    Outcome: 'or',
+    Principle: 'or',
+    Requirement: 'or',
+    Constraint: 'or',
+    Resource: 'or',
+    Capability: 'or',
+    ValueStream: 'or',
+    CourseOfAction: 'or',
+    BusinessObject: 'or',
+    Contract: 'or',
+    Representation: 'or',
+    DataObject: 'cgos',
+    Grouping: 'cgor',
+  },
+  Node: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'fotv',
+    BusinessRole: 'fotv',
+    BusinessCollaboration: 'fotv',
+    BusinessInterface: 'fotv',
+    BusinessProcess: 'fortv',
+    BusinessFunction: 'fortv',
+    BusinessInteraction: 'fortv',
+    BusinessEvent: 'fortv',
+    BusinessService: 'fortv',
+    BusinessObject: 'aor',
+    Contract: 'aor',
+    Representation: 'aor',
+    Product: 'fotv',
+    ApplicationComponent: 'fortv',
+    ApplicationCollaboration: 'fotv',
+    ApplicationInterface: 'fortv',
+    ApplicationFunction: 'fortv',
+    ApplicationInteraction: 'fortv',
+    ApplicationProcess: 'fortv',
+    ApplicationEvent: 'fortv',
+    ApplicationService: 'fortv',
+    DataObject: 'aor',
+    Node: 'cfgorstv',
+    Device: 'cfgortv',
+    SystemSoftware: 'cfgiortv',
+    TechnologyCollaboration: 'fotv',
+    TechnologyInterface: 'cfgiortv',
+    Path: 'cfgortv',
+    CommunicationNetwork: 'cfgortv',
+    TechnologyFunction: 'fiortv',
+    TechnologyProcess: 'fiortv',
+    TechnologyInteraction: 'fiortv',
+    TechnologyEvent: 'fiortv',
+    TechnologyService: 'fiortv',
+    Artifact: 'aior',
+    Equipment: 'cfgortv',
+    Facility: 'cfgortv',
+    DistributionNetwork: 'fotv',
+    Material: 'aior',
+    Plateau: 'fotv',
+    Grouping: 'cfginortv',
+  },
+  Device: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'fotv',
+    BusinessRole: 'fotv',
+    BusinessCollaboration: 'fotv',
+    BusinessInterface: 'fotv',
+    BusinessProcess: 'fortv',
+    BusinessFunction: 'fortv',
+    BusinessInteraction: 'fortv',
+    BusinessEvent: 'fortv',
+    BusinessService: 'fortv',
+    BusinessObject: 'aor',
+    Contract: 'aor',
+    Representation: 'aor',
+    Product: 'fotv',
+    ApplicationComponent: 'fortv',
+    ApplicationCollaboration: 'fotv',
+    ApplicationInterface: 'fortv',
+    ApplicationFunction: 'fortv',
+    ApplicationInteraction: 'fortv',
+    ApplicationProcess: 'fortv',
+    ApplicationEvent: 'fortv',
+    ApplicationService: 'fortv',
+    DataObject: 'aor',
+    Node: 'fotv',
+    Device: 'cfgostv',
+    SystemSoftware: 'fiortv',
+    TechnologyCollaboration: 'fotv',
+    TechnologyInterface: 'cfgiortv',
+    Path: 'fotv',
+    CommunicationNetwork: 'fotv',
+    TechnologyFunction: 'fiortv',
+    TechnologyProcess: 'fiortv',
+    TechnologyInteraction: 'fiortv',
+    TechnologyEvent: 'fiortv',
+    TechnologyService: 'fiortv',
+    Artifact: 'aior',
+    Equipment: 'fotv',
+    Facility: 'fotv',
+    DistributionNetwork: 'fotv',
+    Material: 'ao',
+    Plateau: 'fotv',
+    Grouping: 'cfginortv',
+  },
+  SystemSoftware: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'fotv',
+    BusinessRole: 'fotv',
+    BusinessCollaboration: 'fotv',
+    BusinessInterface: 'fotv',
+    BusinessProcess: 'fortv',
+    BusinessFunction: 'fortv',
+    BusinessInteraction: 'fortv',
+    BusinessEvent: 'fortv',
+    BusinessService: 'fortv',
+    BusinessObject: 'aor',
+    Contract: 'aor',
+    Representation: 'aor',
+    Product: 'fotv',
+    ApplicationComponent: 'fortv',
+    ApplicationCollaboration: 'fotv',
+    ApplicationInterface: 'fortv',
+    ApplicationFunction: 'fortv',
+    ApplicationInteraction: 'fortv',
+    ApplicationProcess: 'fortv',
+    ApplicationEvent: 'fortv',
+    ApplicationService: 'fortv',
+    DataObject: 'aor',
+    Node: 'fotv',
+    Device: 'fotv',
+    SystemSoftware: 'cfgiorstv',
+    TechnologyCollaboration: 'fotv',
+    TechnologyInterface: 'cfgiortv',
+    Path: 'fotv',
+    CommunicationNetwork: 'fotv',
+    TechnologyFunction: 'fiortv',
+    TechnologyProcess: 'fiortv',
+    TechnologyInteraction: 'fiortv',
+    TechnologyEvent: 'fiortv',
+    TechnologyService: 'fiortv',
+    Artifact: 'aior',
+    Equipment: 'fotv',
+    Facility: 'fotv',
+    DistributionNetwork: 'fotv',
+    Material: 'ao',
+    Plateau: 'fotv',
+    Grouping: 'cfginortv',
+  },
+  TechnologyCollaboration: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'fotv',
+    BusinessRole: 'fotv',
+    BusinessCollaboration: 'fotv',
+    BusinessInterface: 'fotv',
+    BusinessProcess: 'fortv',
+    BusinessFunction: 'fortv',
+    BusinessInteraction: 'fortv',
+    BusinessEvent: 'fortv',
+    BusinessService: 'fortv',
+    BusinessObject: 'aor',
+    Contract: 'aor',
+    Representation: 'aor',
+    Product: 'fotv',
+    ApplicationComponent: 'fortv',
+    ApplicationCollaboration: 'fotv',
+    ApplicationInterface: 'fortv',
+    ApplicationFunction: 'fortv',
+    ApplicationInteraction: 'fortv',
+    ApplicationProcess: 'fortv',
+    ApplicationEvent: 'fortv',
+    ApplicationService: 'fortv',
+    DataObject: 'aor',
+    Node: 'fgortv',
+    Device: 'fgortv',
+    SystemSoftware: 'fgiortv',
+    TechnologyCollaboration: 'cfgostv',
+    TechnologyInterface: 'cfgiortv',
+    Path: 'fgortv',
+    CommunicationNetwork: 'fgortv',
+    TechnologyFunction: 'fiortv',
+    TechnologyProcess: 'fiortv',
+    TechnologyInteraction: 'fiortv',
+    TechnologyEvent: 'fiortv',
+    TechnologyService: 'fiortv',
+    Artifact: 'aior',
+    Equipment: 'fgortv',
+    Facility: 'fgortv',
+    DistributionNetwork: 'fotv',
+    Material: 'aior',
+    Plateau: 'fotv',
+    Grouping: 'cfginortv',
+  },
+  TechnologyInterface: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'fotv',
+    BusinessRole: 'fotv',
+    BusinessCollaboration: 'fotv',
+    BusinessInterface: 'fotv',
+    BusinessProcess: 'fotv',
+    BusinessFunction: 'fotv',
+    BusinessInteraction: 'fotv',
+    BusinessEvent: 'fotv',
+    BusinessService: 'fortv',
+    BusinessObject: 'ao',
+    Contract: 'ao',
+    Representation: 'ao',
+    Product: 'fotv',
+    ApplicationComponent: 'fotv',
+    ApplicationCollaboration: 'fotv',
+    ApplicationInterface: 'fotv',
+    ApplicationFunction: 'fotv',
+    ApplicationInteraction: 'fotv',
+    ApplicationProcess: 'fotv',
+    ApplicationEvent: 'fotv',
+    ApplicationService: 'fortv',
+    DataObject: 'ao',
+    Node: 'fotv',
+    Device: 'fotv',
+    SystemSoftware: 'fotv',
+    TechnologyCollaboration: 'fotv',
+    TechnologyInterface: 'cfgostv',
+    Path: 'fotv',
+    CommunicationNetwork: 'fotv',
+    TechnologyFunction: 'fotv',
+    TechnologyProcess: 'fotv',
+    TechnologyInteraction: 'fotv',
+    TechnologyEvent: 'fotv',
+    TechnologyService: 'fiotv',
+    Artifact: 'ao',
+    Equipment: 'fotv',
+    Facility: 'fotv',
+    DistributionNetwork: 'fotv',
+    Material: 'ao',
+    Plateau: 'fotv',
+    Grouping: 'cfginortv',
+  },
+  Path: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'fotv',
+    BusinessRole: 'fotv',
+    BusinessCollaboration: 'fotv',
+    BusinessInterface: 'fotv',
+    BusinessProcess: 'fortv',
+    BusinessFunction: 'fortv',
+    BusinessInteraction: 'fortv',
+    BusinessEvent: 'fortv',
+    BusinessService: 'fortv',
+    BusinessObject: 'aor',
+    Contract: 'aor',
+    Representation: 'aor',
+    Product: 'fotv',
+    ApplicationComponent: 'fortv',
+    ApplicationCollaboration: 'fotv',
+    ApplicationInterface: 'fortv',
+    ApplicationFunction: 'fortv',
+    ApplicationInteraction: 'fortv',
+    ApplicationProcess: 'fortv',
+    ApplicationEvent: 'fortv',
+    ApplicationService: 'fortv',
+    DataObject: 'aor',
+    Node: 'fgortv',
+    Device: 'fgortv',
+    SystemSoftware: 'fgiortv',
+    TechnologyCollaboration: 'fotv',
+    TechnologyInterface: 'cfgiortv',
+    Path: 'cfgorstv',
+    CommunicationNetwork: 'fgortv',
+    TechnologyFunction: 'fiortv',
+    TechnologyProcess: 'fiortv',
+    TechnologyInteraction: 'fiortv',
+    TechnologyEvent: 'fiortv',
+    TechnologyService: 'fiortv',
+    Artifact: 'aior',
+    Equipment: 'fgortv',
+    Facility: 'fgortv',
+    DistributionNetwork: 'fotv',
+    Material: 'aior',
+    Plateau: 'fotv',
+    Grouping: 'cfginortv',
+  },
+  CommunicationNetwork: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'fotv',
+    BusinessRole: 'fotv',
+    BusinessCollaboration: 'fotv',
+    BusinessInterface: 'fotv',
+    BusinessProcess: 'fortv',
+    BusinessFunction: 'fortv',
+    BusinessInteraction: 'fortv',
+    BusinessEvent: 'fortv',
+    BusinessService: 'fortv',
+    BusinessObject: 'aor',
+    Contract: 'aor',
+    Representation: 'aor',
+    Product: 'fotv',
+    ApplicationComponent: 'fortv',
+    ApplicationCollaboration: 'fotv',
+    ApplicationInterface: 'fortv',
+    ApplicationFunction: 'fortv',
+    ApplicationInteraction: 'fortv',
+    ApplicationProcess: 'fortv',
+    ApplicationEvent: 'fortv',
+    ApplicationService: 'fortv',
+    DataObject: 'aor',
+    Node: 'fortv',
+    Device: 'fortv',
+    SystemSoftware: 'fortv',
+    TechnologyCollaboration: 'fotv',
+    TechnologyInterface: 'cfgortv',
+    Path: 'fortv',
+    CommunicationNetwork: 'cfgorstv',
+    TechnologyFunction: 'fiortv',
+    TechnologyProcess: 'fiortv',
+    TechnologyInteraction: 'fiortv',
+    TechnologyEvent: 'fiortv',
+    TechnologyService: 'fiortv',
+    Artifact: 'aor',
+    Equipment: 'fortv',
+    Facility: 'fortv',
+    DistributionNetwork: 'fotv',
+    Material: 'aor',
+    Plateau: 'fotv',
+    Grouping: 'cfginortv',
+  },
+  TechnologyFunction: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'fotv',
+    BusinessRole: 'fotv',
+    BusinessCollaboration: 'fotv',
+    BusinessInterface: 'fotv',
+    BusinessProcess: 'fortv',
+    BusinessFunction: 'fortv',
+    BusinessInteraction: 'fortv',
+    BusinessEvent: 'fotv',
+    BusinessService: 'fortv',
+    BusinessObject: 'ao',
+    Contract: 'ao',
+    Representation: 'ao',
+    Product: 'fotv',
+    ApplicationComponent: 'fotv',
+    ApplicationCollaboration: 'fotv',
+    ApplicationInterface: 'fotv',
+    ApplicationFunction: 'fortv',
+    ApplicationInteraction: 'fortv',
+    ApplicationProcess: 'fortv',
+    ApplicationEvent: 'fotv',
+    ApplicationService: 'fortv',
+    DataObject: 'ao',
+    Node: 'fotv',
+    Device: 'fotv',
+    SystemSoftware: 'fotv',
+    TechnologyCollaboration: 'fotv',
+    TechnologyInterface: 'fotv',
+    Path: 'fotv',
+    CommunicationNetwork: 'fotv',
+    TechnologyFunction: 'cfgostv',
+    TechnologyProcess: 'fotv',
+    TechnologyInteraction: 'fotv',
+    TechnologyEvent: 'fotv',
+    TechnologyService: 'fortv',
+    Artifact: 'ao',
+    Equipment: 'fotv',
+    Facility: 'fotv',
+    DistributionNetwork: 'fotv',
+    Material: 'ao',
+    Plateau: 'fotv',
+    Grouping: 'acfginortv',
+  },
+  TechnologyProcess: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'fotv',
+    BusinessRole: 'fotv',
+    BusinessCollaboration: 'fotv',
+    BusinessInterface: 'fotv',
+    BusinessProcess: 'fortv',
+    BusinessFunction: 'fortv',
+    BusinessInteraction: 'fortv',
+    BusinessEvent: 'fotv',
+    BusinessService: 'fortv',
+    BusinessObject: 'ao',
+    Contract: 'ao',
+    Representation: 'ao',
+    Product: 'fotv',
+    ApplicationComponent: 'fotv',
+    ApplicationCollaboration: 'fotv',
+    ApplicationInterface: 'fotv',
+    ApplicationFunction: 'fortv',
+    ApplicationInteraction: 'fortv',
+    ApplicationProcess: 'fortv',
+    ApplicationEvent: 'fotv',
+    ApplicationService: 'fortv',
+    DataObject: 'ao',
+    Node: 'fotv',
+    Device: 'fotv',
+    SystemSoftware: 'fotv',
+    TechnologyCollaboration: 'fotv',
+    TechnologyInterface: 'fotv',
+    Path: 'fotv',
+    CommunicationNetwork: 'fotv',
+    TechnologyFunction: 'fotv',
+    TechnologyProcess: 'cfgostv',
+    TechnologyInteraction: 'fotv',
+    TechnologyEvent: 'fotv',
+    TechnologyService: 'fortv',
+    Artifact: 'ao',
+    Equipment: 'fotv',
+    Facility: 'fotv',
+    DistributionNetwork: 'fotv',
+    Material: 'ao',
+    Plateau: 'fotv',
+    Grouping: 'acfginortv',
+  },
+  TechnologyInteraction: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'fotv',
+    BusinessRole: 'fotv',
+    BusinessCollaboration: 'fotv',
+    BusinessInterface: 'fotv',
+    BusinessProcess: 'fortv',
+    BusinessFunction: 'fortv',
+    BusinessInteraction: 'fortv',
+    BusinessEvent: 'fotv',
+    BusinessService: 'fortv',
+    BusinessObject: 'ao',
+    Contract: 'ao',
+    Representation: 'ao',
+    Product: 'fotv',
+    ApplicationComponent: 'fotv',
+    ApplicationCollaboration: 'fotv',
+    ApplicationInterface: 'fotv',
+    ApplicationFunction: 'fortv',
+    ApplicationInteraction: 'fortv',
+    ApplicationProcess: 'fortv',
+    ApplicationEvent: 'fotv',
+    ApplicationService: 'fortv',
+    DataObject: 'ao',
+    Node: 'fotv',
+    Device: 'fotv',
+    SystemSoftware: 'fotv',
+    TechnologyCollaboration: 'fotv',
+    TechnologyInterface: 'fotv',
+    Path: 'fotv',
+    CommunicationNetwork: 'fotv',
+    TechnologyFunction: 'fotv',
+    TechnologyProcess: 'fotv',
+    TechnologyInteraction: 'cfgostv',
+    TechnologyEvent: 'fotv',
+    TechnologyService: 'fortv',
+    Artifact: 'ao',
+    Equipment: 'fotv',
+    Facility: 'fotv',
+    DistributionNetwork: 'fotv',
+    Material: 'ao',
+    Plateau: 'fotv',
+    Grouping: 'acfginortv',
+  },
+  TechnologyEvent: {
+    BusinessActor: 'fot',
+    BusinessRole: 'fot',
+    BusinessCollaboration: 'fot',
+    BusinessInterface: 'fot',
+    BusinessProcess: 'fot',
+    BusinessFunction: 'fot',
+    BusinessInteraction: 'fot',
+    BusinessEvent: 'fort',
+    BusinessService: 'fot',
+    BusinessObject: 'ao',
+    Contract: 'ao',
+    Representation: 'ao',
+    Product: 'fot',
+    ApplicationComponent: 'fot',
+    ApplicationCollaboration: 'fot',
+    ApplicationInterface: 'fot',
+    ApplicationFunction: 'fot',
+    ApplicationInteraction: 'fot',
+    ApplicationProcess: 'fot',
+    ApplicationEvent: 'fort',
+    ApplicationService: 'fot',
+    DataObject: 'ao',
+    Node: 'fot',
+    Device: 'fot',
+    SystemSoftware: 'fot',
+    TechnologyCollaboration: 'fot',
+    TechnologyInterface: 'fot',
+    Path: 'fot',
+    CommunicationNetwork: 'fot',
+    TechnologyFunction: 'fot',
+    TechnologyProcess: 'fot',
+    TechnologyInteraction: 'fot',
+    TechnologyEvent: 'cfgost',
+    TechnologyService: 'fot',
+    Artifact: 'ao',
+    Equipment: 'fot',
+    Facility: 'fot',
+    DistributionNetwork: 'fot',
+    Material: 'ao',
+    Plateau: 'fot',
+    Grouping: 'acfginortv',
+  },
+  TechnologyService: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'fotv',
+    BusinessRole: 'fotv',
+    BusinessCollaboration: 'fotv',
+    BusinessInterface: 'fotv',
+    BusinessProcess: 'fotv',
+    BusinessFunction: 'fotv',
+    BusinessInteraction: 'fotv',
+    BusinessEvent: 'fotv',
+    BusinessService: 'fortv',
+    BusinessObject: 'ao',
+    Contract: 'ao',
+    Representation: 'ao',
+    Product: 'fotv',
+    ApplicationComponent: 'fotv',
+    ApplicationCollaboration: 'fotv',
+    ApplicationInterface: 'fotv',
+    ApplicationFunction: 'fotv',
+    ApplicationInteraction: 'fotv',
+    ApplicationProcess: 'fotv',
+    ApplicationEvent: 'fotv',
+    ApplicationService: 'fortv',
+    DataObject: 'ao',
+    Node: 'fotv',
+    Device: 'fotv',
+    SystemSoftware: 'fotv',
+    TechnologyCollaboration: 'fotv',
+    TechnologyInterface: 'fotv',
+    Path: 'fotv',
+    CommunicationNetwork: 'fotv',
+    TechnologyFunction: 'fotv',
+    TechnologyProcess: 'fotv',
+    TechnologyInteraction: 'fotv',
+    TechnologyEvent: 'fotv',
+    TechnologyService: 'cfgostv',
+    Artifact: 'ao',
+    Equipment: 'fotv',
+    Facility: 'fotv',
+    DistributionNetwork: 'fotv',
+    Material: 'ao',
+    Plateau: 'fotv',
+    Grouping: 'acfginortv',
+  },
+  Artifact: {
+    Goal: 'or',
+    Outcome: 'or',
+    Principle: 'or',
+    Requirement: 'or',
+    Constraint: 'or',
+    Resource: 'or',
+    Capability: 'or',
+    ValueStream: 'or',
+    CourseOfAction: 'or',
+    BusinessProcess: 'or',
+    BusinessFunction: 'or',
+    BusinessInteraction: 'or',
+    BusinessEvent: 'or',
+    BusinessService: 'or',
+    BusinessObject: 'or',
+    Contract: 'or',
+    Representation: 'or',
+    ApplicationComponent: 'or',
+    ApplicationInterface: 'or',
+    ApplicationFunction: 'or',
+    ApplicationInteraction: 'or',
+    ApplicationProcess: 'or',
+    ApplicationEvent: 'or',
+    ApplicationService: 'or',
+    DataObject: 'or',
+    SystemSoftware: 'or',
+    TechnologyInterface: 'or',
+    TechnologyFunction: 'or',
+    TechnologyProcess: 'or',
+    TechnologyInteraction: 'or',
+    TechnologyEvent: 'or',
+    TechnologyService: 'or',
+    Artifact: 'cgors',
+    Grouping: 'cgor',
+  },
+  Equipment: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'fotv',
+    BusinessRole: 'fotv',
+    BusinessCollaboration: 'fotv',
+    BusinessInterface: 'fotv',
+    BusinessProcess: 'fortv',
+    BusinessFunction: 'fortv',
+    BusinessInteraction: 'fortv',
+    BusinessEvent: 'fortv',
+    BusinessService: 'fortv',
+    BusinessObject: 'aor',
+    Contract: 'aor',
+    Representation: 'aor',
+    Product: 'fotv',
+    ApplicationComponent: 'fortv',
+    ApplicationCollaboration: 'fotv',
+    ApplicationInterface: 'fortv',
+    ApplicationFunction: 'fortv',
+    ApplicationInteraction: 'fortv',
+    ApplicationProcess: 'fortv',
+    ApplicationEvent: 'fortv',
+    ApplicationService: 'fortv',
+    DataObject: 'aor',
+    Node: 'fotv',
+    Device: 'fotv',
+    SystemSoftware: 'fiortv',
+    TechnologyCollaboration: 'fotv',
+    TechnologyInterface: 'cfgiortv',
+    Path: 'fotv',
+    CommunicationNetwork: 'fotv',
+    TechnologyFunction: 'fiortv',
+    TechnologyProcess: 'fiortv',
+    TechnologyInteraction: 'fiortv',
+    TechnologyEvent: 'fiortv',
+    TechnologyService: 'fiortv',
+    Artifact: 'aior',
+    Equipment: 'cfgostv',
+    Facility: 'fotv',
+    DistributionNetwork: 'fotv',
+    Material: 'aio',
+    Plateau: 'fotv',
+    Grouping: 'cfginortv',
+  },
+  Facility: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'fotv',
+    BusinessRole: 'fotv',
+    BusinessCollaboration: 'fotv',
+    BusinessInterface: 'fotv',
+    BusinessProcess: 'fortv',
+    BusinessFunction: 'fortv',
+    BusinessInteraction: 'fortv',
+    BusinessEvent: 'fortv',
+    BusinessService: 'fortv',
+    BusinessObject: 'aor',
+    Contract: 'aor',
+    Representation: 'aor',
+    Product: 'fotv',
+    ApplicationComponent: 'fortv',
+    ApplicationCollaboration: 'fotv',
+    ApplicationInterface: 'fortv',
+    ApplicationFunction: 'fortv',
+    ApplicationInteraction: 'fortv',
+    ApplicationProcess: 'fortv',
+    ApplicationEvent: 'fortv',
+    ApplicationService: 'fortv',
+    DataObject: 'aor',
+    Node: 'fotv',
+    Device: 'fotv',
+    SystemSoftware: 'fiortv',
+    TechnologyCollaboration: 'fotv',
+    TechnologyInterface: 'cfgiortv',
+    Path: 'fotv',
+    CommunicationNetwork: 'fotv',
+    TechnologyFunction: 'fiortv',
+    TechnologyProcess: 'fiortv',
+    TechnologyInteraction: 'fiortv',
+    TechnologyEvent: 'fiortv',
+    TechnologyService: 'fiortv',
+    Artifact: 'aior',
+    Equipment: 'cfgotv',
+    Facility: 'cfgostv',
+    DistributionNetwork: 'fotv',
+    Material: 'aio',
+    Plateau: 'fotv',
+    Grouping: 'cfginortv',
+  },
+  DistributionNetwork: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'fotv',
+    BusinessRole: 'fotv',
+    BusinessCollaboration: 'fotv',
+    BusinessInterface: 'fotv',
+    BusinessProcess: 'fortv',
+    BusinessFunction: 'fortv',
+    BusinessInteraction: 'fortv',
+    BusinessEvent: 'fortv',
+    BusinessService: 'fortv',
+    BusinessObject: 'aor',
+    Contract: 'aor',
+    Representation: 'aor',
+    Product: 'fotv',
+    ApplicationComponent: 'fortv',
+    ApplicationCollaboration: 'fotv',
+    ApplicationInterface: 'fortv',
+    ApplicationFunction: 'fortv',
+    ApplicationInteraction: 'fortv',
+    ApplicationProcess: 'fortv',
+    ApplicationEvent: 'fortv',
+    ApplicationService: 'fortv',
+    DataObject: 'aor',
+    Node: 'fortv',
+    Device: 'fortv',
+    SystemSoftware: 'fortv',
+    TechnologyCollaboration: 'fotv',
+    TechnologyInterface: 'cfgortv',
+    Path: 'fortv',
+    CommunicationNetwork: 'fortv',
+    TechnologyFunction: 'fiortv',
+    TechnologyProcess: 'fiortv',
+    TechnologyInteraction: 'fiortv',
+    TechnologyEvent: 'fiortv',
+    TechnologyService: 'fiortv',
+    Artifact: 'aor',
+    Equipment: 'fortv',
+    Facility: 'fortv',
+    DistributionNetwork: 'cfgostv',
+    Material: 'aor',
+    Plateau: 'fotv',
+    Grouping: 'cfginortv',
+  },
+  Material: {
+    Goal: 'or',
+    Outcome: 'or',
+    Principle: 'or',
+    Requirement: 'or',
+    Constraint: 'or',
+    Resource: 'or',
+    Capability: 'or',
+    ValueStream: 'or',
+    CourseOfAction: 'or',
+    BusinessObject: 'or',
+    Contract: 'or',
+    Representation: 'or',
+    Material: 'cgos',
+    Grouping: 'cgor',
+  },
+  WorkPackage: {
+    Stakeholder: 'no',
+    Driver: 'no',
+    Assessment: 'no',
+    Goal: 'nor',
+    Outcome: 'nor',
+    Principle: 'nor',
+    Requirement: 'nor',
+    Constraint: 'nor',
+    Resource: 'fortv',
+    Capability: 'fortv',
+    ValueStream: 'fortv',
+    CourseOfAction: 'fortv',
+    BusinessActor: 'fortv',
+    BusinessRole: 'fortv',
+    BusinessCollaboration: 'fortv',
+    BusinessInterface: 'fortv',
+    BusinessProcess: 'fortv',
+    BusinessFunction: 'fortv',
+    BusinessInteraction: 'fortv',
+    BusinessEvent: 'fortv',
+    BusinessService: 'fortv',
+    BusinessObject: 'aor',
+    Contract: 'aor',
+    Representation: 'aor',
+    Product: 'fortv',
+    ApplicationComponent: 'fortv',
+    ApplicationCollaboration: 'fortv',
+    ApplicationInterface: 'fortv',
+    ApplicationFunction: 'fortv',
+    ApplicationInteraction: 'fortv',
+    ApplicationProcess: 'fortv',
+    ApplicationEvent: 'fortv',
+    ApplicationService: 'fortv',
+    DataObject: 'aor',
+    Node: 'fortv',
+    Device: 'fortv',
+    SystemSoftware: 'fortv',
+    TechnologyCollaboration: 'fortv',
+    TechnologyInterface: 'fortv',
+    Path: 'fortv',
+    CommunicationNetwork: 'fortv',
+    TechnologyFunction: 'fortv',
+    TechnologyProcess: 'fortv',
+    TechnologyInteraction: 'fortv',
+    TechnologyEvent: 'fortv',
+    TechnologyService: 'fortv',
+    Artifact: 'aor',
+    Equipment: 'fortv',
+    Facility: 'fortv',
+    DistributionNetwork: 'fortv',
+    Material: 'aor',
+    WorkPackage: 'cfgorst',
+    Deliverable: 'or',
+    ImplementationEvent: 'fot',
+    Plateau: 'fortv',
+    Grouping: 'cfginortv',
+  },
+  Deliverable: {
+    Goal: 'or',
+    Outcome: 'or',
+    Principle: 'or',
+    Requirement: 'or',
+    Constraint: 'or',
+    Resource: 'or',
+    Capability: 'or',
+    ValueStream: 'or',
+    CourseOfAction: 'or',
+    BusinessActor: 'or',
+    BusinessRole: 'or',
+    BusinessCollaboration: 'or',
+    BusinessInterface: 'or',
+    BusinessProcess: 'or',
+    BusinessFunction: 'or',
+    BusinessInteraction: 'or',
+    BusinessEvent: 'or',
+    BusinessService: 'or',
+    BusinessObject: 'or',
+    Contract: 'or',
+    Representation: 'or',
+    Product: 'or',
+    ApplicationComponent: 'or',
+    ApplicationCollaboration: 'or',
+    ApplicationInterface: 'or',
+    ApplicationFunction: 'or',
+    ApplicationInteraction: 'or',
+    ApplicationProcess: 'or',
+    ApplicationEvent: 'or',
+    ApplicationService: 'or',
+    DataObject: 'or',
+    Node: 'or',
+    Device: 'or',
+    SystemSoftware: 'or',
+    TechnologyCollaboration: 'or',
+    TechnologyInterface: 'or',
+    Path: 'or',
+    CommunicationNetwork: 'or',
+    TechnologyFunction: 'or',
+    TechnologyProcess: 'or',
+    TechnologyInteraction: 'or',
+    TechnologyEvent: 'or',
+    TechnologyService: 'or',
+    Artifact: 'or',
+    Equipment: 'or',
+    Facility: 'or',
+    DistributionNetwork: 'or',
+    Material: 'or',
+    WorkPackage: 'or',
+    Deliverable: 'cgos',
+    Plateau: 'or',
+    Grouping: 'cgor',
+  },
+  ImplementationEvent: {
+    WorkPackage: 'fot',
+    Deliverable: 'ao',
+    ImplementationEvent: 'cfgost',
+    Plateau: 'ot',
+    Grouping: 'acfginortv',
+  },
+  Plateau: {
+    Stakeholder: 'no',
+    Driver: 'gno',
+    Assessment: 'gno',
+    Goal: 'gnor',
+    Outcome: 'gnor',
+    Principle: 'gnor',
+    Requirement: 'gnor',
+    Constraint: 'gnor',
+    Meaning: 'go',
+    Value: 'go',
+    Resource: 'fgortv',
+    Capability: 'fgiortv',
+    ValueStream: 'fgortv',
+    CourseOfAction: 'fgortv',
+    BusinessActor: 'fgotv',
+    BusinessRole: 'fgiotv',
+    BusinessCollaboration: 'fgotv',
+    BusinessInterface: 'fgiotv',
+    BusinessProcess: 'fgiortv',
+    BusinessFunction: 'fgiortv',
+    BusinessInteraction: 'fgiortv',
+    BusinessEvent: 'fgiortv',
+    BusinessService: 'fgiortv',
+    BusinessObject: 'agor',
+    Contract: 'agor',
+    Representation: 'agor',
+    Product: 'fgotv',
+    ApplicationComponent: 'fgortv',
+    ApplicationCollaboration: 'fgotv',
+    ApplicationInterface: 'fgortv',
+    ApplicationFunction: 'fgiortv',
+    ApplicationInteraction: 'fgiortv',
+    ApplicationProcess: 'fgiortv',
+    ApplicationEvent: 'fgiortv',
+    ApplicationService: 'fgiortv',
+    DataObject: 'agor',
+    Node: 'fgortv',
+    Device: 'fgortv',
+    SystemSoftware: 'fgiortv',
+    TechnologyCollaboration: 'fgotv',
+    TechnologyInterface: 'fgiortv',
+    Path: 'fgortv',
+    CommunicationNetwork: 'fgortv',
+    TechnologyFunction: 'fgiortv',
+    TechnologyProcess: 'fgiortv',
+    TechnologyInteraction: 'fgiortv',
+    TechnologyEvent: 'fgiortv',
+    TechnologyService: 'fgiortv',
+    Artifact: 'agior',
+    Equipment: 'fgortv',
+    Facility: 'fgortv',
+    DistributionNetwork: 'fgotv',
+    Material: 'agior',
+    WorkPackage: 'gio',
+    Deliverable: 'go',
+    ImplementationEvent: 'go',
+    Plateau: 'cfgostv',
+    Gap: 'go',
+    Grouping: 'cfginortv',
+  },
+  Gap: {
+    Gap: 'cgos',
+    Grouping: 'cfginortv',
+  },
+  Grouping: {
+    Stakeholder: 'cfginortv',
+    Driver: 'cfginortv',
+    Assessment: 'cfginortv',
+    Goal: 'cfginortv',
+    Outcome: 'cfginortv',
+    Principle: 'cfginortv',
+    Requirement: 'cfginortv',
+    Constraint: 'cfginortv',
+    Meaning: 'cfgiortv',
+    Value: 'cfgiortv',
+    Resource: 'cfgiortv',
+    Capability: 'cfgiortv',
+    ValueStream: 'cfgiortv',
+    CourseOfAction: 'cfgiortv',
+    BusinessActor: 'cfgiortv',
+    BusinessRole: 'cfgiortv',
+    BusinessCollaboration: 'cfgiortv',
+    BusinessInterface: 'cfgiortv',
+    BusinessProcess: 'cfgiortv',
+    BusinessFunction: 'cfgiortv',
+    BusinessInteraction: 'cfgiortv',
+    BusinessEvent: 'cfgiortv',
+    BusinessService: 'cfgiortv',
+    BusinessObject: 'acfgiortv',
+    Contract: 'acfgiortv',
+    Representation: 'acfgiortv',
+    Product: 'cfgiortv',
+    ApplicationComponent: 'cfgiortv',
+    ApplicationCollaboration: 'cfgiortv',
+    ApplicationInterface: 'cfgiortv',
+    ApplicationFunction: 'cfgiortv',
+    ApplicationInteraction: 'cfgiortv',
+    ApplicationProcess: 'cfgiortv',
+    ApplicationEvent: 'cfgiortv',
+    ApplicationService: 'cfgiortv',
+    DataObject: 'acfgiortv',
+    Node: 'cfgiortv',
+    Device: 'cfgiortv',
+    SystemSoftware: 'cfgiortv',
+    TechnologyCollaboration: 'cfgiortv',
+    TechnologyInterface: 'cfgiortv',
+    Path: 'cfgiortv',
+    CommunicationNetwork: 'cfgiortv',
+    TechnologyFunction: 'cfgiortv',
+    TechnologyProcess: 'cfgiortv',
+    TechnologyInteraction: 'cfgiortv',
+    TechnologyEvent: 'cfgiortv',
+    TechnologyService: 'cfgiortv',
+    Artifact: 'acfgiortv',
+    Equipment: 'cfgiortv',
+    Facility: 'cfgiortv',
+    DistributionNetwork: 'cfgiortv',
+    Material: 'acfgiortv',
+    WorkPackage: 'cfgiortv',
+    Deliverable: 'acfgiortv',
+    ImplementationEvent: 'cfgiortv',
+    Plateau: 'cfgiortv',
+    Gap: 'cfgiortv',
+    Grouping: 'acfginorstv',
+    Location: 'cgo',
+  },
+  Location: {
+    Stakeholder: 'go',
+    Driver: 'go',
+    Assessment: 'go',
+    Goal: 'go',
+    Outcome: 'go',
+    Principle: 'go',
+    Requirement: 'go',
+    Constraint: 'go',
+    Meaning: 'go',
+    Value: 'go',
+    Resource: 'go',
+    Capability: 'go',
+    ValueStream: 'go',
+    CourseOfAction: 'go',
+    BusinessActor: 'go',
+    BusinessRole: 'go',
+    BusinessCollaboration: 'go',
+    BusinessInterface: 'go',
+    BusinessProcess: 'go',
+    BusinessFunction: 'go',
+    BusinessInteraction: 'go',
+    BusinessEvent: 'go',
+    BusinessService: 'go',
+    BusinessObject: 'go',
+    Contract: 'go',
+    Representation: 'go',
+    Product: 'go',
+    ApplicationComponent: 'go',
+    ApplicationCollaboration: 'go',
+    ApplicationInterface: 'go',
+    ApplicationFunction: 'go',
+    ApplicationInteraction: 'go',
+    ApplicationProcess: 'go',
+    ApplicationEvent: 'go',
+    ApplicationService: 'go',
+    DataObject: 'go',
+    Node: 'go',
+    Device: 'go',
+    SystemSoftware: 'go',
+    TechnologyCollaboration: 'go',
+    TechnologyInterface: 'go',
+    Path: 'go',
+    CommunicationNetwork: 'go',
+    TechnologyFunction: 'go',
+    TechnologyProcess: 'go',
+    TechnologyInteraction: 'go',
+    TechnologyEvent: 'go',
+    TechnologyService: 'go',
+    Artifact: 'go',
+    Equipment: 'go',
+    Facility: 'go',
+    DistributionNetwork: 'go',
+    Material: 'go',
+    WorkPackage: 'go',
+    Deliverable: 'go',
+    ImplementationEvent: 'go',
+    Plateau: 'go',
+    Gap: 'go',
+    Grouping: 'cgo',
+    Location: 'cgos',
+  },
+};
+
+/**
+ * Get the relationship codes permitted from one element type, or a
+ * relationship, to another. Returns an empty string when either type is
+ * unknown.
+ */
+export function getRelationshipCodes(sourceType: RelationshipEndpointType, targetType: RelationshipEndpointType): string {
+  if (sourceType === 'Relationship' || targetType === 'Relationship') {
+    const other = sourceType === 'Relationship' ? targetType : sourceType;
+    if (other !== 'Relationship' && !(other in RelationshipTable)) return '';
+    return sourceType !== 'Relationship' ? TO_RELATIONSHIP[sourceType] ?? ASSOCIATION_ONLY : ASSOCIATION_ONLY;
+  }
+  if (sourceType === 'Junction' || targetType === 'Junction') {
+    const other = sourceType === 'Junction' ? targetType : sourceType;
+    return other === 'Junction' || other in RelationshipTable ? JUNCTION_RELATIONSHIPS : '';
+  }
+  const row = RelationshipTable[sourceType];
+  if (!row || !(targetType in RelationshipTable)) return '';
+  return row[targetType] ?? ASSOCIATION_ONLY;
+}
@@ -3,22 +3,19 @@
  * Based on ArchiMate 3.2 Specification Appendix B
  *
  * This module validates whether a relationship type is permitted between
- * two element types according to the ArchiMate specification.
+ * two element types according to the ArchiMate specification. The permitted
+ * relationships are looked up in the Appendix B table (relationship-table.ts).
  */
 
 import {
   ElementType,
+  RelationshipEndpointType,
   RelationshipType,
-  MotivationElementTypes,
-  StrategyElementTypes,
-  BusinessElementTypes,
-  ApplicationElementTypes,
-  TechnologyElementTypes,
-  ImplementationElementTypes,
-  CompositeElementTypes,
+  AllElementTypes,
+  RelationshipTypes,
   getLayerForElementType,
-  Layer,
 } from '../model/types.js';
+import { getRelationshipCodes, RelationshipTypeToCode } from './relationship-table.js';
 
 // Element category classifications
 type ElementCategory =
@@ -107,151 +104,27 @@ function getElementCategory(elementType: ElementType): ElementCategory {
 }
 
 /**
- * Check if elements are in the same layer
- */
-function isSameLayer(sourceType: ElementType, targetType: ElementType): boolean {
-  return getLayerForElementType(sourceType) === getLayerForElementType(targetType);
-}
-
-/**
- * Get the layer hierarchy level (higher number = lower in stack)
- */
-function getLayerLevel(layer: Layer): number {
-  const levels: Record<Layer, number> = {
-    'Motivation': 0,
-    'Strategy': 1,
-    'Business': 2,
-    'Application': 3,
-    'Technology': 4,
-    'Physical': 4,
-    'Implementation': 5,
-    'Composite': 6,
-  };
-  return levels[layer];
-}
-
-/**
- * Check if a relationship is valid between two element types
+ * Check if a relationship is valid between two element types. Either end
+ * may be 'Relationship' for a relationship that ends on another one.
  */
 export function isValidRelationship(
-  sourceType: ElementType,
-  targetType: ElementType,
+  sourceType: RelationshipEndpointType,
+  targetType: RelationshipEndpointType,
   relationshipType: RelationshipType
 ): boolean {
-  const sourceCategory = getElementCategory(sourceType);
-  const targetCategory = getElementCategory(targetType);
-  const sourceLayer = getLayerForElementType(sourceType);
-  const targetLayer = getLayerForElementType(targetType);
-
-  // Special rules for specific relationship types
-  switch (relationshipType) {
-    case 'Composition':
-    case 'Aggregation':
-      // Generally allowed within same type or related types
-      // Must be same layer or composite elements
-      if (sourceType === targetType) return true;
-      if (sourceCategory === 'Composite' || targetCategory === 'Composite') return true;
-      if (isSameLayer(sourceType, targetType)) return true;
-      return false;
-
-    case 'Specialization':
-      // Must be same element type
-      return sourceType === targetType;
-
-    case 'Assignment':
-      // Active structure to behavior, or behavior to passive structure
-      return (
-        (sourceCategory === 'ActiveStructure' && (targetCategory === 'BehaviorInternal' || targetCategory === 'BehaviorExternal')) ||
-        (sourceCategory === 'BehaviorInternal' && targetCategory === 'PassiveStructure') ||
-        // Work packages can be assigned to business roles
-        (sourceType === 'WorkPackage' && sourceCategory === 'ActiveStructure')
-      );
-
-    case 'Realization':
-      // Lower layer elements realize higher layer elements
-      // Or behavior realizes services
-      if (sourceCategory === 'BehaviorInternal' && targetCategory === 'BehaviorExternal') return true;
-      if (getLayerLevel(sourceLayer) > getLayerLevel(targetLayer)) return true;
-      // Strategy elements are realized by core elements
-      if (targetCategory === 'Strategy') return true;
-      // Motivation elements can be realized
-      if (targetCategory === 'Motivation') return true;
-      // Artifacts realize application/data
-      if (sourceType === 'Artifact') return true;
-      return false;
-
-    case 'Serving':
-      // Services serve other elements
-      // Higher layer elements serve lower layer elements
-      if (sourceCategory === 'BehaviorExternal') return true;
-      if (sourceCategory === 'ActiveStructure' && targetCategory === 'ActiveStructure') return true;
-      if (getLayerLevel(sourceLayer) > getLayerLevel(targetLayer)) return true;
-      // Capabilities serve value streams
-      if (sourceType === 'Capability' && targetType === 'ValueStream') return true;
-      return isSameLayer(sourceType, targetType);
-
-    case 'Access':
-      // Behavior accesses passive structure
-      return (
-        (sourceCategory === 'BehaviorInternal' || sourceCategory === 'BehaviorExternal' || sourceCategory === 'Event') &&
-        (targetCategory === 'PassiveStructure')
-      );
-
-    case 'Influence':
-      // Motivation elements influence each other
-      // Other elements can influence motivation elements
-      // Any element can influence motivation elements
-      return targetCategory === 'Motivation';
-
-    case 'Triggering':
-      // Events trigger behavior, behavior triggers behavior
-      return (
-        sourceCategory === 'Event' ||
-        sourceCategory === 'BehaviorInternal' ||
-        sourceCategory === 'BehaviorExternal' ||
-        targetCategory === 'Event' ||
-        targetCategory === 'BehaviorInternal' ||
-        targetCategory === 'BehaviorExternal' ||
-        sourceCategory === 'ImplementationMigration' ||
-        targetCategory === 'ImplementationMigration'
-      );
-
-    case 'Flow':
-      // Between behavior elements or passive structure
-      return (
-        sourceCategory === 'BehaviorInternal' ||
-        sourceCategory === 'BehaviorExternal' ||
-        sourceCategory === 'Event' ||
-        targetCategory === 'BehaviorInternal' ||
-        targetCategory === 'BehaviorExternal' ||
-        targetCategory === 'Event' ||
-        sourceCategory === 'PassiveStructure' ||
-        targetCategory === 'PassiveStructure'
-      );
-
-    case 'Association':
-      // Association is allowed between almost any elements
-      return true;
-
-    default:
-      return false;
-  }
+  const code = RelationshipTypeToCode[relationshipType];
+  if (!code) return false;
+  return getRelationshipCodes(sourceType, targetType).includes(code);
 }
 
 /**
  * Get all valid relationship types between two element types
  */
 export function getValidRelationshipTypes(
-  sourceType: ElementType,
-  targetType: ElementType
+  sourceType: RelationshipEndpointType,
+  targetType: RelationshipEndpointType
 ): RelationshipType[] {
-  const allTypes: RelationshipType[] = [
-    'Composition', 'Aggregation', 'Assignment', 'Realization',
-    'Serving', 'Access', 'Influence', 'Association',
-    'Triggering', 'Flow', 'Specialization',
-  ];
-
-  return allTypes.filter(relType => isValidRelationship(sourceType, targetType, relType));
+  return RelationshipTypes.filter(relType => isValidRelationship(sourceType, targetType, relType));
 }
 
 /**
@@ -261,27 +134,29 @@ export function getValidTargetTypes(
   sourceType: ElementType,
   relationshipType: RelationshipType
 ): ElementType[] {
-  const allTypes = [
-    ...MotivationElementTypes,
-    ...StrategyElementTypes,
-    ...BusinessElementTypes,
-    ...ApplicationElementTypes,
-    ...TechnologyElementTypes,
-    ...ImplementationElementTypes,
-    ...CompositeElementTypes,
-  ] as ElementType[];
-
-  return allTypes.filter(targetType =>
+  return AllElementTypes.filter(targetType =>
     isValidRelationship(sourceType, targetType, relationshipType)
   );
 }
 
+/**
+ * Get every target element type reachable from a source type, together with
+ * the relationship types permitted for each pair
+ */
+export function getValidRelationshipsFromSource(
+  sourceType: ElementType
+): Array<{ targetType: ElementType; relationships: RelationshipType[] }> {
+  return AllElementTypes
+    .map(targetType => ({ targetType, relationships: getValidRelationshipTypes(sourceType, targetType) }))
+    .filter(entry => entry.relationships.length > 0);
+}
+
 /**
  * Validate a relationship and return an error message if invalid
  */
 export function validateRelationship(
-  sourceType: ElementType,
-  targetType: ElementType,
+  sourceType: RelationshipEndpointType,
+  targetType: RelationshipEndpointType,
   relationshipType: RelationshipType
 ): { valid: boolean; error?: string; suggestions?: RelationshipType[] } {
   if (isValidRelationship(sourceType, targetType, relationshipType)) {
@@ -305,13 +180,46 @@ export function validateRelationship(
   };
 }
 
+// Most relationships can end on a grouping or junction, so guidance leaves them out
+const GuidanceOmittedTypes: ElementType[] = ['Grouping', 'Junction'];
+
 /**
- * Get relationship guidance for LLMs
+ * Name target types layer by layer, as "any <layer> element" where a layer
+ * is permitted in full
+ */
+function describeTargetTypes(targets: ElementType[]): string {
+  const layers = new Map<string, ElementType[]>();
+  for (const type of AllElementTypes) {
+    if (GuidanceOmittedTypes.includes(type)) continue;
+    const layer = getLayerForElementType(type);
+    layers.set(layer, [...(layers.get(layer) ?? []), type]);
+  }
+  if (targets.length === [...layers.values()].flat().length) return 'any element';
+
+  const parts: string[] = [];
+  for (const [layer, types] of layers) {
+    const permitted = types.filter(t => targets.includes(t));
+    if (permitted.length === 0) continue;
+    parts.push(permitted.length === types.length && types.length > 1 ? `any ${layer} element` : permitted.join(', '));
+  }
+  return parts.join('; ');
+}
+
+/**
+ * Get relationship guidance for LLMs, read from the relationship table
  */
 export function getRelationshipGuidance(
-  sourceType: ElementType,
-  targetType?: ElementType
+  sourceType: RelationshipEndpointType,
+  targetType?: RelationshipEndpointType
 ): string {
+  if (sourceType === 'Relationship' || targetType === 'Relationship') {
+    let guidance = 'Relationships on relationships:\n\n';
+    guidance += '- Association: from any element or relationship to a relationship, and from a relationship to any element\n';
+    guidance += '- Aggregation: from a Grouping or Plateau to a relationship\n';
+    guidance += '- Composition: from a Grouping to a relationship\n';
+    return guidance;
+  }
+
   const sourceCategory = getElementCategory(sourceType);
   const sourceLayer = getLayerForElementType(sourceType);
 
@@ -325,31 +233,12 @@ export function getRelationshipGuidance(
       guidance += `No valid direct relationships to ${targetType}\n`;
     }
   } else {
-    // General guidance
-    guidance += `Common relationships:\n`;
-
-    if (sourceCategory === 'ActiveStructure') {
-      guidance += `- Assignment: to behavior elements (processes, functions)\n`;
-      guidance += `- Composition/Aggregation: to other ${sourceLayer} active structure elements\n`;
-      guidance += `- Serving: to other active structure or behavior elements\n`;
-    }
-
-    if (sourceCategory === 'BehaviorInternal') {
-      guidance += `- Realization: to services (external behavior)\n`;
-      guidance += `- Access: to passive structure elements (objects, artifacts)\n`;
-      guidance += `- Triggering: to other behavior elements or events\n`;
-      guidance += `- Flow: to other behavior elements\n`;
-    }
-
-    if (sourceCategory === 'BehaviorExternal') {
-      guidance += `- Serving: to higher-layer elements\n`;
-      guidance += `- Access: to passive structure elements\n`;
-    }
-
-    if (sourceCategory === 'Motivation') {
-      guidance += `- Influence: to other motivation elements\n`;
-      guidance += `- Realization: from core elements\n`;
-      guidance += `- Association: to stakeholders, drivers\n`;
+    guidance += `Relationships the ArchiMate 3.2 relationship table permits, by type (Grouping and Junction targets left out):\n`;
+    for (const relType of RelationshipTypes) {
+      const targets = getValidTargetTypes(sourceType, relType).filter(t => !GuidanceOmittedTypes.includes(t));
+      if (targets.length > 0) {
+        guidance += `- ${relType}: to ${describeTargetTypes(targets)}\n`;
+      }
     }
   }
 